@@ -10,6 +10,31 @@ const defaultSettings = {
     dateFormat: 'DD/MM/YYYY',
     timeZone: 'Asia/Kolkata',
     currency: 'INR',
+    // Tokens: {ACC} account code, {FY} financial year (2026-27), {SEQ} running number,
+    // {PREFIX} the firm's prefix for the document type
+    invoiceNumbering: {
+      padding: 4,
+      templates: {
+        invoice: '{ACC}/{FY}/{SEQ}',
+        quotation: '{PREFIX}/{ACC}/{FY}/{SEQ}',
+        proforma: '{PREFIX}/{ACC}/{FY}/{SEQ}',
+        credit_note: '{PREFIX}/{ACC}/{FY}/{SEQ}'
+      },
+      accountCodes: {
+        account_1: 'ACC1',
+        account_2: 'ACC2',
+        cash: 'CASH',
+        cheque: 'CHQ'
+      }
+    },
+    // Codes that rank first in HSN/SAC search, and the SAC each task category is billed under
+    hsnFavourites: [],
+    hsnCategoryDefaults: {
+      gst: '',
+      itr: '',
+      roc: '',
+      other: ''
+    },
     invoiceAccounts: {
       account_1: {
         id: 'account_1',
@@ -103,7 +128,17 @@ const defaultSettings = {
     enableEmailTemplates: true,
     enableNotificationRules: true,
     taskReminderDays: 3,
-    invoiceReminderDays: 7
+    invoiceReminderDays: 7,
+    // Dunning schedule: days relative to the invoice due date (negative = before)
+    enableInvoiceReminders: true,
+    invoiceReminderSchedule: [-3, 1, 7, 15]
+  },
+  // LLM behind the AI assistant; empty values fall back to the server's environment
+  ai: {
+    provider: '',
+    model: '',
+    baseUrl: '',
+    apiKey: ''
   }
 };
 
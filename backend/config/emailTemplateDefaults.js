@@ -0,0 +1,186 @@
+// Email template categories. Each outgoing email sent by emailService maps to one
+// category; a firm may override it with its own active EmailTemplate. `variables`
+// lists the placeholders (`{{variable}}`) a template for the category may use and
+// `subject`/`body` are the starting point offered when a firm creates one.
+
+const emailTemplateDefaults = {
+  task_assignment: {
+    label: 'Task Assignment',
+    variables: ['employee_name', 'task_title', 'task_description', 'due_date', 'assigned_by', 'task_link', 'company_name'],
+    subject: 'New Task Assigned: {{task_title}}',
+    body: `Dear {{employee_name}},
+
+A new task has been assigned to you by {{assigned_by}}:
+
+Task: {{task_title}}
+Due Date: {{due_date}}
+
+Description:
+{{task_description}}
+
+View the task: {{task_link}}
+
+Best regards,
+{{company_name}} Team`
+  },
+  task_due_reminder: {
+    label: 'Task Due Reminder',
+    variables: ['employee_name', 'task_title', 'due_date', 'task_link', 'company_name'],
+    subject: 'Reminder: Task Due Soon - {{task_title}}',
+    body: `Dear {{employee_name}},
+
+This is a reminder that the following task is due on {{due_date}}:
+
+Task: {{task_title}}
+
+Please ensure this task is completed on time. If you need any assistance, contact your supervisor.
+
+View the task: {{task_link}}
+
+Best regards,
+{{company_name}} Team`
+  },
+  task_completion: {
+    label: 'Task Completed',
+    variables: ['recipient_name', 'task_title', 'completed_by', 'task_link', 'company_name'],
+    subject: 'Task Completed: {{task_title}}',
+    body: `Dear {{recipient_name}},
+
+The task "{{task_title}}" has been completed by {{completed_by}}.
+
+View the task: {{task_link}}
+
+Best regards,
+{{company_name}} Team`
+  },
+  quote_approval: {
+    label: 'Quote Ready for Approval',
+    variables: ['admin_name', 'task_title', 'client_name', 'quote_number', 'amount', 'approval_link', 'company_name'],
+    subject: 'Action Required: Quote Ready for Approval - {{task_title}}',
+    body: `Dear {{admin_name}},
+
+A task has been completed and a quote is ready for your review:
+
+Quote Number: {{quote_number}}
+Client: {{client_name}}
+Task: {{task_title}}
+Amount: ₹{{amount}}
+
+Review and approve the quote: {{approval_link}}
+
+{{company_name}}`
+  },
+  quote_to_client: {
+    label: 'Quotation to Client',
+    variables: ['client_name', 'quote_number', 'quote_date', 'valid_until', 'items', 'subtotal', 'tax_amount', 'total_amount', 'payment_link', 'notes', 'terms', 'company_name'],
+    subject: 'Quotation from {{company_name}} - {{quote_number}}',
+    body: `Dear {{client_name}},
+
+Thank you for choosing our services. Please find below the quotation for the services requested.
+
+Quotation Number: {{quote_number}}
+Date: {{quote_date}}
+Valid Until: {{valid_until}}
+
+{{items}}
+
+Subtotal: ₹{{subtotal}}
+GST: ₹{{tax_amount}}
+Total Amount: ₹{{total_amount}}
+
+Pay securely online: {{payment_link}}
+
+{{notes}}
+
+{{terms}}
+
+Best regards,
+{{company_name}}`
+  },
+  payment_confirmation: {
+    label: 'Payment Confirmation to Client',
+    variables: ['client_name', 'invoice_number', 'amount', 'payment_date', 'payment_method', 'transaction_id', 'invoice_link', 'company_name'],
+    subject: 'Payment Received - Invoice {{invoice_number}} from {{company_name}}',
+    body: `Dear {{client_name}},
+
+We have received your payment. Here are the details:
+
+Invoice Number: {{invoice_number}}
+Payment Amount: ₹{{amount}}
+Payment Date: {{payment_date}}
+Payment Method: {{payment_method}}
+Transaction ID: {{transaction_id}}
+
+Download your invoice: {{invoice_link}}
+
+Thank you for your business.
+
+{{company_name}}`
+  },
+  payment_received_admin: {
+    label: 'Payment Received (Admin)',
+    variables: ['admin_name', 'client_name', 'invoice_number', 'amount', 'payment_date', 'payment_method', 'transaction_id', 'invoice_link', 'company_name'],
+    subject: 'Payment Received - {{client_name}} - ₹{{amount}}',
+    body: `Dear {{admin_name}},
+
+A payment has been received from {{client_name}}:
+
+Invoice Number: {{invoice_number}}
+Amount Paid: ₹{{amount}}
+Payment Date: {{payment_date}}
+Method: {{payment_method}}
+Transaction ID: {{transaction_id}}
+
+View the invoice: {{invoice_link}}`
+  },
+  invoice_reminder: {
+    label: 'Invoice Payment Reminder',
+    variables: ['client_name', 'invoice_number', 'invoice_date', 'due_date', 'amount_due', 'days_overdue', 'payment_link', 'invoice_link', 'company_name'],
+    subject: 'Payment Reminder - Invoice {{invoice_number}} from {{company_name}}',
+    body: `Dear {{client_name}},
+
+This is a reminder that invoice {{invoice_number}} dated {{invoice_date}} has an outstanding balance of ₹{{amount_due}}, due on {{due_date}}.
+
+Pay online: {{payment_link}}
+
+A copy of the invoice is attached. If you have already made the payment, please ignore this reminder.
+
+{{company_name}}`
+  },
+  statement_of_account: {
+    label: 'Statement of Account',
+    variables: ['client_name', 'period_from', 'period_to', 'opening_balance', 'closing_balance', 'company_name'],
+    subject: 'Statement of Account from {{company_name}} - {{period_from}} to {{period_to}}',
+    body: `Dear {{client_name}},
+
+Please find attached your statement of account for the period {{period_from}} to {{period_to}}.
+
+Opening balance: ₹{{opening_balance}}
+Closing balance: ₹{{closing_balance}}
+
+Kindly review the statement and let us know if anything does not match your records.
+
+{{company_name}}`
+  },
+  general_notification: {
+    label: 'General Notification',
+    variables: ['recipient_name', 'title', 'message', 'dashboard_link', 'company_name'],
+    subject: '{{title}}',
+    body: `Dear {{recipient_name}},
+
+{{message}}
+
+View your dashboard: {{dashboard_link}}
+
+{{company_name}}`
+  },
+  // Free-form templates (e.g. ad-hoc client communication) accept any variable name
+  custom: {
+    label: 'Custom',
+    variables: [],
+    subject: '',
+    body: ''
+  }
+};
+
+export default emailTemplateDefaults;
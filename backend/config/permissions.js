@@ -0,0 +1,64 @@
+// Named permissions checked by requirePermission() and req.can().
+// Firms can change what the built-in admin and employee roles get and build
+// custom roles from these; owners and superadmins always have every permission.
+
+export const PERMISSIONS = [
+  { key: 'client.create', group: 'Clients', label: 'Add clients' },
+  { key: 'client.edit', group: 'Clients', label: 'Edit clients and change their status' },
+  { key: 'client.delete', group: 'Clients', label: 'Delete clients' },
+  { key: 'client.import', group: 'Clients', label: 'Bulk import clients' },
+  { key: 'client.assign', group: 'Clients', label: 'Assign partners and teams, and reassign clients' },
+
+  { key: 'document.upload', group: 'Documents', label: 'Upload and edit client documents' },
+  { key: 'document.delete', group: 'Documents', label: 'Delete client documents' },
+  { key: 'document.viewProtected', group: 'Documents', label: 'View protected documents' },
+  { key: 'document.manageRequests', group: 'Documents', label: 'Delete document requests' },
+
+  { key: 'task.manageAll', group: 'Tasks', label: 'Edit, assign and archive any task' },
+  { key: 'task.delete', group: 'Tasks', label: 'Delete tasks' },
+  { key: 'template.manage', group: 'Tasks', label: 'Edit and delete any task template' },
+  { key: 'timesheet.approve', group: 'Tasks', label: 'View all timesheets and approve time entries' },
+  { key: 'compliance.manage', group: 'Tasks', label: 'Manage statutory due date extensions' },
+
+  { key: 'invoice.create', group: 'Billing', label: 'Create and edit invoices' },
+  { key: 'invoice.billUnbilled', group: 'Billing', label: 'Bill unbilled work' },
+  { key: 'invoice.approve', group: 'Billing', label: 'Approve or reject invoices' },
+  { key: 'invoice.collect', group: 'Billing', label: 'Record payments and create payment links' },
+  { key: 'invoice.send', group: 'Billing', label: 'Send payment reminders' },
+  { key: 'invoice.adjust', group: 'Billing', label: 'Issue credit notes, cancel and refund invoices' },
+  { key: 'invoice.delete', group: 'Billing', label: 'Delete invoices' },
+
+  { key: 'report.gst', group: 'Reports', label: 'View GST reports' },
+  { key: 'report.analytics', group: 'Reports', label: 'View AI usage analytics' },
+
+  { key: 'user.view', group: 'Administration', label: 'View team members' },
+  { key: 'user.manage', group: 'Administration', label: 'Add, edit and remove team members' },
+  { key: 'settings.manage', group: 'Administration', label: 'Change firm settings' },
+  { key: 'automation.manage', group: 'Administration', label: 'Manage automation and recurring tasks' },
+  { key: 'emailTemplate.manage', group: 'Administration', label: 'Edit email templates' },
+  { key: 'audit.view', group: 'Administration', label: 'View audit logs' },
+  { key: 'ai.configure', group: 'Administration', label: 'Configure the AI provider' }
+];
+
+export const PERMISSION_KEYS = PERMISSIONS.map(permission => permission.key);
+
+// Built-in roles a firm can edit or base a custom role on
+export const EDITABLE_ROLES = ['admin', 'employee'];
+
+// Defaults match the access each role had before permissions were configurable
+export const DEFAULT_ROLE_PERMISSIONS = {
+  admin: PERMISSION_KEYS.filter(key => key !== 'report.gst'),
+  employee: [
+    'client.create',
+    'client.edit',
+    'client.delete',
+    'client.import',
+    'document.upload',
+    'document.delete',
+    'invoice.create',
+    'invoice.collect',
+    'invoice.delete'
+  ],
+  // Portal clients upload, view and remove their own documents
+  client: ['document.upload', 'document.delete', 'document.viewProtected']
+};
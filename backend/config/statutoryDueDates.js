@@ -0,0 +1,168 @@
+// Statutory due-date rules for Indian compliance filings.
+//
+// Every rule resolves a period to a date. Months are 1-12 and `yearOffset` is
+// counted from the first calendar year of the financial year (FY 2025-26 -> 2025),
+// so `[7, 31, 0]` is 31 July 2025 and `[1, 31, 1]` is 31 January 2026 for that FY.
+//
+// Rule types:
+//   next_month      - `day` of the month following the tax period
+//   after_quarter   - `day` of the month following the end of the FY quarter
+//   quarter_fixed   - fixed date per FY quarter (`dates[quarter]`)
+//   annual_fixed    - fixed date per financial year, optionally by assessee type
+//   after_agm       - `days` after the AGM (defaults to 30 September after FY end)
+
+const statutoryDueDates = {
+  // ---------------- GST ----------------
+  GSTR1: {
+    label: 'GSTR-1 (Monthly)',
+    category: 'gst',
+    frequency: 'monthly',
+    rule: { type: 'next_month', day: 11 }
+  },
+  GSTR1_QRMP: {
+    label: 'GSTR-1 (Quarterly, QRMP)',
+    category: 'gst',
+    frequency: 'quarterly',
+    rule: { type: 'after_quarter', day: 13 }
+  },
+  GSTR3B: {
+    label: 'GSTR-3B (Monthly)',
+    category: 'gst',
+    frequency: 'monthly',
+    rule: { type: 'next_month', day: 20 }
+  },
+  GSTR3B_QRMP: {
+    label: 'GSTR-3B (Quarterly, QRMP)',
+    category: 'gst',
+    frequency: 'quarterly',
+    // Category X states file by the 22nd, category Y states by the 24th
+    rule: { type: 'after_quarter', day: 22, byAssesseeType: { state_group_x: 22, state_group_y: 24 } },
+    assesseeTypes: ['state_group_x', 'state_group_y']
+  },
+  CMP08: {
+    label: 'CMP-08 (Composition)',
+    category: 'gst',
+    frequency: 'quarterly',
+    rule: { type: 'after_quarter', day: 18 }
+  },
+  GSTR4: {
+    label: 'GSTR-4 (Composition Annual)',
+    category: 'gst',
+    frequency: 'annual',
+    rule: { type: 'annual_fixed', date: [4, 30, 1] }
+  },
+  GSTR9: {
+    label: 'GSTR-9 (Annual Return)',
+    category: 'gst',
+    frequency: 'annual',
+    rule: { type: 'annual_fixed', date: [12, 31, 1] }
+  },
+  GSTR9C: {
+    label: 'GSTR-9C (Reconciliation Statement)',
+    category: 'gst',
+    frequency: 'annual',
+    rule: { type: 'annual_fixed', date: [12, 31, 1] }
+  },
+
+  // ---------------- TDS / TCS ----------------
+  TDS_PAYMENT: {
+    label: 'TDS/TCS Deposit',
+    category: 'itr',
+    frequency: 'monthly',
+    // Tax deducted in March may be deposited until 30 April
+    rule: { type: 'next_month', day: 7, overrides: { 3: [4, 30] } }
+  },
+  TDS_24Q: {
+    label: 'TDS Return 24Q (Salary)',
+    category: 'itr',
+    frequency: 'quarterly',
+    rule: { type: 'quarter_fixed', dates: { 1: [7, 31, 0], 2: [10, 31, 0], 3: [1, 31, 1], 4: [5, 31, 1] } }
+  },
+  TDS_26Q: {
+    label: 'TDS Return 26Q (Non-salary)',
+    category: 'itr',
+    frequency: 'quarterly',
+    rule: { type: 'quarter_fixed', dates: { 1: [7, 31, 0], 2: [10, 31, 0], 3: [1, 31, 1], 4: [5, 31, 1] } }
+  },
+  TDS_27Q: {
+    label: 'TDS Return 27Q (Non-resident)',
+    category: 'itr',
+    frequency: 'quarterly',
+    rule: { type: 'quarter_fixed', dates: { 1: [7, 31, 0], 2: [10, 31, 0], 3: [1, 31, 1], 4: [5, 31, 1] } }
+  },
+  TCS_27EQ: {
+    label: 'TCS Return 27EQ',
+    category: 'itr',
+    frequency: 'quarterly',
+    rule: { type: 'quarter_fixed', dates: { 1: [7, 15, 0], 2: [10, 15, 0], 3: [1, 15, 1], 4: [5, 15, 1] } }
+  },
+
+  // ---------------- Income tax ----------------
+  ADVANCE_TAX: {
+    label: 'Advance Tax Instalment',
+    category: 'itr',
+    frequency: 'quarterly',
+    // Quarter n maps to instalment n (15%, 45%, 75%, 100%)
+    rule: { type: 'quarter_fixed', dates: { 1: [6, 15, 0], 2: [9, 15, 0], 3: [12, 15, 0], 4: [3, 15, 1] } }
+  },
+  ADVANCE_TAX_44AD: {
+    label: 'Advance Tax (Presumptive, 44AD/44ADA)',
+    category: 'itr',
+    frequency: 'annual',
+    rule: { type: 'annual_fixed', date: [3, 15, 1] }
+  },
+  ITR: {
+    label: 'Income Tax Return',
+    category: 'itr',
+    frequency: 'annual',
+    rule: {
+      type: 'annual_fixed',
+      date: [7, 31, 1],
+      byAssesseeType: {
+        individual: [7, 31, 1],
+        huf: [7, 31, 1],
+        firm_non_audit: [7, 31, 1],
+        audit: [10, 31, 1],
+        company: [10, 31, 1],
+        transfer_pricing: [11, 30, 1]
+      }
+    },
+    assesseeTypes: ['individual', 'huf', 'firm_non_audit', 'audit', 'company', 'transfer_pricing']
+  },
+  ITR_BELATED: {
+    label: 'Belated / Revised Income Tax Return',
+    category: 'itr',
+    frequency: 'annual',
+    rule: { type: 'annual_fixed', date: [12, 31, 1] }
+  },
+  TAX_AUDIT: {
+    label: 'Tax Audit Report (Form 3CA/3CB-3CD)',
+    category: 'itr',
+    frequency: 'annual',
+    rule: { type: 'annual_fixed', date: [9, 30, 1] }
+  },
+
+  // ---------------- ROC / MCA ----------------
+  AOC4: {
+    label: 'AOC-4 (Financial Statements)',
+    category: 'roc',
+    frequency: 'annual',
+    // One person companies file within 180 days of the FY end
+    rule: { type: 'after_agm', days: 30, byAssesseeType: { opc: { fixed: [9, 27, 1] } } },
+    assesseeTypes: ['company', 'opc']
+  },
+  MGT7: {
+    label: 'MGT-7 / MGT-7A (Annual Return)',
+    category: 'roc',
+    frequency: 'annual',
+    rule: { type: 'after_agm', days: 60 }
+  },
+  DIR3_KYC: {
+    label: 'DIR-3 KYC',
+    category: 'roc',
+    frequency: 'annual',
+    rule: { type: 'annual_fixed', date: [9, 30, 1] }
+  }
+};
+
+export default statutoryDueDates;
@@ -1,5 +1,6 @@
 import jwt from 'jsonwebtoken';
 import User from '../models/User.js';
+import permissionService from '../services/permissionService.js';
 
 const auth = async (req, res, next) => {
   try {
@@ -82,8 +83,10 @@ const auth = async (req, res, next) => {
     user.lastSeen = new Date();
     await user.save({ validateBeforeSave: false });
 
-    // Grant access to protected route
+    // Grant access to protected route; req.can() checks the user's permissions
     req.user = user;
+    req.permissions = await permissionService.getUserPermissions(user);
+    req.can = (permission) => req.permissions.has(permission);
     next();
   } catch (error) {
     console.error('Auth middleware error:', error.name, error.message);
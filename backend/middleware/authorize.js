@@ -20,6 +20,29 @@ const authorize = (...roles) => {
   };
 };
 
+// Permission check (config/permissions.js). Requires every listed permission;
+// auth loads them into req.permissions for the user's role or custom role.
+export const requirePermission = (...permissions) => {
+  return (req, res, next) => {
+    if (!req.user || !req.permissions) {
+      return res.status(401).json({
+        success: false,
+        message: 'Access denied. No user information found.'
+      });
+    }
+
+    const missing = permissions.filter(permission => !req.permissions.has(permission));
+    if (missing.length > 0) {
+      return res.status(403).json({
+        success: false,
+        message: `Access denied. Missing permission: ${missing.join(', ')}`
+      });
+    }
+
+    next();
+  };
+};
+
 // Specific role checks
 export const requireSuperAdmin = authorize('superadmin');
 export const requireOwnerOrAdmin = authorize('owner', 'admin', 'superadmin');
@@ -94,8 +117,8 @@ export const requireUserManagementAccess = (req, res, next) => {
     return next();
   }
 
-  // Owners and admins can manage users in their firm
-  if (['owner', 'admin'].includes(req.user.role)) {
+  // Users with the user.manage permission can manage users in their firm
+  if (req.can('user.manage')) {
     return next();
   }
 
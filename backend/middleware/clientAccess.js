@@ -0,0 +1,26 @@
+import { canAccessClient } from '../utils/clientScope.js';
+
+/**
+ * Reject employees who are not assigned to the client in the given route param
+ */
+export const requireClientAccess = (param = 'clientId') => async (req, res, next) => {
+  try {
+    if (await canAccessClient(req.user, req.params[param])) {
+      return next();
+    }
+
+    return res.status(403).json({
+      success: false,
+      message: 'Access denied. You are not assigned to this client.'
+    });
+  } catch (error) {
+    console.error('Client access check error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error checking client access',
+      error: error.message
+    });
+  }
+};
+
+export default requireClientAccess;
@@ -1,5 +1,6 @@
 // Document access control middleware
 import ClientDocument from '../models/ClientDocument.js';
+import { canAccessClient } from '../utils/clientScope.js';
 
 /**
  * Check if employee has permission to access a document
@@ -42,8 +43,7 @@ export const requireDocumentAccess = async (req, res, next) => {
       const documentId = req.params.documentId || req.params.id;
       if (!documentId) return next();
 
-      const document = await ClientDocument.findById(documentId)
-        .populate('clientId', 'assignedTo');
+      const document = await ClientDocument.findById(documentId);
 
       if (!document) {
         return res.status(404).json({
@@ -52,21 +52,16 @@ export const requireDocumentAccess = async (req, res, next) => {
         });
       }
 
-      // Check if document is protected/restricted
-      if (document.isProtected || document.isRestricted) {
+      // Protected/restricted documents need the document.viewProtected permission
+      if ((document.isProtected || document.isRestricted) && !req.can('document.viewProtected')) {
         return res.status(403).json({
           success: false,
           message: 'Access denied. This document is protected and requires higher permissions.'
         });
       }
 
-      // Check if employee is assigned to the client
-      const client = document.clientId;
-      const isAssigned = client?.assignedTo?.some(
-        assignedUserId => assignedUserId.toString() === req.user._id.toString()
-      );
-
-      if (!isAssigned) {
+      // Check if employee is the client's partner or on its team
+      if (!(await canAccessClient(req.user, document.clientId))) {
         return res.status(403).json({
           success: false,
           message: 'Access denied. You are not assigned to this client.'
@@ -124,22 +119,8 @@ export const requireClientOperationAccess = async (req, res, next) => {
         });
       }
 
-      const Client = (await import('../models/Client.js')).default;
-      const client = await Client.findById(clientId);
-
-      if (!client) {
-        return res.status(404).json({
-          success: false,
-          message: 'Client not found'
-        });
-      }
-
-      // Check if employee is assigned to this client
-      const isAssigned = client.assignedTo?.some(
-        assignedUserId => assignedUserId.toString() === req.user._id.toString()
-      );
-
-      if (!isAssigned) {
+      // Check if employee is the client's partner or on its team
+      if (!(await canAccessClient(req.user, clientId))) {
         return res.status(403).json({
           success: false,
           message: 'Access denied. You are not assigned to this client. Cannot perform operations on unassigned clients.'
@@ -183,14 +164,17 @@ export const filterDocumentsByPermission = (req, res, next) => {
     return next();
   }
 
-  // Employees see only documents from assigned clients (non-protected)
+  // Employees see only documents from assigned clients (non-protected
+  // unless their role has document.viewProtected)
   if (req.user.role === 'employee') {
     req.documentFilter = {
       ...req.documentFilter,
-      $or: [
-        { isProtected: { $ne: true } },
-        { isProtected: { $exists: false } }
-      ]
+      ...(req.can('document.viewProtected') ? {} : {
+        $or: [
+          { isProtected: { $ne: true } },
+          { isProtected: { $exists: false } }
+        ]
+      })
     };
     // Additional client filtering will be done in the route handler
     req.requiresClientFilter = true;
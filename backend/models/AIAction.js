@@ -0,0 +1,63 @@
+import mongoose from 'mongoose';
+
+// A write action proposed by the AI assistant. Nothing changes until the user
+// confirms it; the action is then re-checked against their permissions and run.
+const aiActionSchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  firm: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Firm',
+    required: true
+  },
+  type: {
+    type: String,
+    enum: ['create_task_from_template', 'reassign_task', 'draft_invoice', 'log_communication'],
+    required: true
+  },
+  // Resolved ids and values the action will run with
+  params: {
+    type: mongoose.Schema.Types.Mixed,
+    default: {}
+  },
+  // What the confirmation card shows the user
+  title: {
+    type: String,
+    required: true
+  },
+  details: [{
+    _id: false,
+    label: String,
+    value: String
+  }],
+  // proposed -> executing -> executed / failed, or proposed -> cancelled
+  // (failed actions can be confirmed again)
+  status: {
+    type: String,
+    enum: ['proposed', 'executing', 'executed', 'cancelled', 'failed'],
+    default: 'proposed'
+  },
+  result: {
+    entityType: String,
+    entityId: mongoose.Schema.Types.ObjectId,
+    message: String
+  },
+  errorMessage: String,
+  executedAt: Date,
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+aiActionSchema.index({ user: 1, createdAt: -1 });
+aiActionSchema.index({ firm: 1, status: 1 });
+
+const AIAction = mongoose.model('AIAction', aiActionSchema);
+
+export default AIAction;
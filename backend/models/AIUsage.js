@@ -37,6 +37,19 @@ const aiUsageSchema = new mongoose.Schema({
     type: Number,
     required: false
   },
+  promptTokens: {
+    type: Number,
+    default: 0
+  },
+  completionTokens: {
+    type: Number,
+    default: 0
+  },
+  // Estimated provider cost in INR, from the rates in services/aiQuotaService.js
+  estimatedCost: {
+    type: Number,
+    default: 0
+  },
   functionsCalled: [{
     name: String,
     arguments: mongoose.Schema.Types.Mixed,
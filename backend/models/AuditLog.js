@@ -30,6 +30,9 @@ const auditLogSchema = new mongoose.Schema({
       'backup_created',
       'backup_restored',
       'security_settings_changed',
+      'ai_action_executed',
+      'permissions_changed',
+      'clients_reassigned',
       'other'
     ]
   },
@@ -0,0 +1,76 @@
+import mongoose from 'mongoose';
+
+const calendarEventSchema = new mongoose.Schema({
+  title: {
+    type: String,
+    required: [true, 'Event title is required'],
+    trim: true,
+    maxlength: [200, 'Event title cannot exceed 200 characters']
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Event description cannot exceed 1000 characters']
+  },
+  type: {
+    type: String,
+    enum: ['meeting', 'deadline', 'internal', 'other'],
+    default: 'meeting'
+  },
+  startDate: {
+    type: Date,
+    required: [true, 'Event start date is required']
+  },
+  endDate: {
+    type: Date
+  },
+  allDay: {
+    type: Boolean,
+    default: false
+  },
+  location: {
+    type: String,
+    trim: true
+  },
+  // Optional links to the rest of the practice
+  client: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Client'
+  },
+  task: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Task'
+  },
+  attendees: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }],
+  firm: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Firm',
+    required: true
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+calendarEventSchema.index({ firm: 1, startDate: 1 });
+calendarEventSchema.index({ client: 1 });
+calendarEventSchema.index({ attendees: 1 });
+
+// Default the end of an event to one hour after it starts
+calendarEventSchema.pre('save', function(next) {
+  if (!this.endDate || this.endDate < this.startDate) {
+    this.endDate = new Date(this.startDate.getTime() + 60 * 60 * 1000);
+  }
+  next();
+});
+
+const CalendarEvent = mongoose.model('CalendarEvent', calendarEventSchema);
+
+export default CalendarEvent;
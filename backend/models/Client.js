@@ -178,6 +178,17 @@ const clientSchema = new mongoose.Schema({
     filingFrequency: String,
     lastFetchedAt: Date
   },
+  // Engagement ownership: the responsible partner/manager and the staff
+  // working on the client. Employees only see clients they are assigned to.
+  partner: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
+  },
+  assignedTo: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }],
   // Firm association
   firmId: {
     type: mongoose.Schema.Types.ObjectId,
@@ -207,6 +218,8 @@ clientSchema.index({ panNumber: 1 }, { sparse: true });
 clientSchema.index({ email: 1 }, { sparse: true });
 clientSchema.index({ status: 1 });
 clientSchema.index({ createdAt: -1 });
+clientSchema.index({ firmId: 1, partner: 1 });
+clientSchema.index({ firmId: 1, assignedTo: 1 });
 
 // Generate unique client code before saving
 clientSchema.pre('save', async function(next) {
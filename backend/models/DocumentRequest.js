@@ -0,0 +1,135 @@
+import mongoose from 'mongoose';
+
+const requestItemSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: [true, 'Item name is required'],
+    trim: true,
+    maxlength: [200, 'Item name cannot exceed 200 characters']
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Item description cannot exceed 500 characters']
+  },
+  documentType: {
+    type: String,
+    enum: [
+      'identity_proof',
+      'address_proof',
+      'business_registration',
+      'tax_document',
+      'financial_statement',
+      'contract',
+      'invoice',
+      'receipt',
+      'correspondence',
+      'other'
+    ],
+    default: 'other'
+  },
+  // pending -> uploaded -> accepted / rejected (rejected items can be uploaded again)
+  status: {
+    type: String,
+    enum: ['pending', 'uploaded', 'accepted', 'rejected'],
+    default: 'pending'
+  },
+  // Latest upload for this item; earlier attempts stay in ClientDocument
+  document: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'ClientDocument'
+  },
+  uploadedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  uploadedAt: Date,
+  reviewedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  reviewedAt: Date,
+  rejectionReason: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Rejection reason cannot exceed 500 characters']
+  }
+});
+
+const documentRequestSchema = new mongoose.Schema({
+  title: {
+    type: String,
+    required: [true, 'Request title is required'],
+    trim: true,
+    maxlength: [200, 'Title cannot exceed 200 characters']
+  },
+  message: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Message cannot exceed 1000 characters']
+  },
+  task: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Task',
+    required: [true, 'Task is required']
+  },
+  client: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Client',
+    required: true
+  },
+  firm: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Firm',
+    required: true
+  },
+  requestedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  dueDate: {
+    type: Date,
+    required: [true, 'Due date is required']
+  },
+  items: {
+    type: [requestItemSchema],
+    validate: [items => items.length > 0, 'At least one item is required']
+  },
+  status: {
+    type: String,
+    enum: ['open', 'completed', 'cancelled'],
+    default: 'open'
+  },
+  completedAt: Date
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true }
+});
+
+documentRequestSchema.index({ firm: 1, client: 1, status: 1 });
+documentRequestSchema.index({ task: 1 });
+documentRequestSchema.index({ dueDate: 1 });
+
+documentRequestSchema.virtual('outstandingCount').get(function() {
+  return (this.items || []).filter(item => item.status !== 'accepted').length;
+});
+
+documentRequestSchema.virtual('isOverdue').get(function() {
+  return this.status === 'open' && new Date() > this.dueDate;
+});
+
+// A request is complete once every item has been accepted
+documentRequestSchema.pre('save', function(next) {
+  if (this.status !== 'cancelled') {
+    const allAccepted = this.items.length > 0 && this.items.every(item => item.status === 'accepted');
+    this.status = allAccepted ? 'completed' : 'open';
+    this.completedAt = allAccepted ? (this.completedAt || new Date()) : undefined;
+  }
+  next();
+});
+
+const DocumentRequest = mongoose.model('DocumentRequest', documentRequestSchema);
+
+export default DocumentRequest;
@@ -0,0 +1,59 @@
+import mongoose from 'mongoose';
+
+// Records a government extension of a statutory due date (e.g. a CBIC/CBDT
+// notification pushing GSTR-3B for a month to a later date).
+const dueDateExtensionSchema = new mongoose.Schema({
+  returnType: {
+    type: String,
+    required: [true, 'Return type is required'],
+    trim: true,
+    uppercase: true
+  },
+  // Normalised period key as produced by dueDateService (e.g. "2025-09", "2025-26-Q2", "2025-26")
+  period: {
+    type: String,
+    required: [true, 'Period is required'],
+    trim: true
+  },
+  // Optional: restrict the extension to one assessee type / state group
+  assesseeType: {
+    type: String,
+    trim: true,
+    default: null
+  },
+  originalDueDate: {
+    type: Date
+  },
+  extendedDueDate: {
+    type: Date,
+    required: [true, 'Extended due date is required']
+  },
+  notification: {
+    type: String,
+    trim: true,
+    maxlength: [200, 'Notification reference cannot exceed 200 characters']
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Notes cannot exceed 1000 characters']
+  },
+  firm: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Firm',
+    required: true
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+dueDateExtensionSchema.index({ firm: 1, returnType: 1, period: 1, assesseeType: 1 }, { unique: true });
+
+const DueDateExtension = mongoose.model('DueDateExtension', dueDateExtensionSchema);
+
+export default DueDateExtension;
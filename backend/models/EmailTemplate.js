@@ -0,0 +1,79 @@
+import mongoose from 'mongoose';
+import emailTemplateDefaults from '../config/emailTemplateDefaults.js';
+import { extractPlaceholders } from '../utils/emailTemplateRenderer.js';
+
+const emailTemplateSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: [true, 'Template name is required'],
+    trim: true,
+    maxlength: [200, 'Template name cannot exceed 200 characters']
+  },
+  category: {
+    type: String,
+    enum: Object.keys(emailTemplateDefaults),
+    required: [true, 'Template category is required']
+  },
+  subject: {
+    type: String,
+    required: [true, 'Subject is required'],
+    trim: true,
+    maxlength: [300, 'Subject cannot exceed 300 characters']
+  },
+  body: {
+    type: String,
+    required: [true, 'Body is required'],
+    maxlength: [20000, 'Body cannot exceed 20000 characters']
+  },
+  // Plain-text bodies are wrapped in the standard layout; HTML bodies are sent as written
+  isHtml: {
+    type: Boolean,
+    default: false
+  },
+  // Placeholders used by the template, kept in sync on save
+  variables: [{
+    type: String
+  }],
+  // Only one active template per category is used for outgoing mail
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  firm: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Firm',
+    required: true
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  updatedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+emailTemplateSchema.index({ firm: 1, category: 1, isActive: 1 });
+
+emailTemplateSchema.pre('save', function(next) {
+  this.variables = extractPlaceholders(`${this.subject}\n${this.body}`);
+  next();
+});
+
+// Activating a template retires the firm's other active template for that category
+emailTemplateSchema.post('save', async function(doc) {
+  if (doc.isActive && doc.category !== 'custom') {
+    await doc.constructor.updateMany(
+      { firm: doc.firm, category: doc.category, isActive: true, _id: { $ne: doc._id } },
+      { isActive: false }
+    );
+  }
+});
+
+const EmailTemplate = mongoose.model('EmailTemplate', emailTemplateSchema);
+
+export default EmailTemplate;
@@ -0,0 +1,62 @@
+import mongoose from 'mongoose';
+
+export const ESCALATION_TRIGGERS = ['not_started', 'stalled', 'overdue'];
+export const ESCALATION_TARGETS = ['assignee', 'creator', 'reviewer', 'client_partner', 'admins', 'owner'];
+
+const escalationRuleSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: [true, 'Rule name is required'],
+    trim: true,
+    maxlength: [100, 'Rule name cannot exceed 100 characters']
+  },
+  // not_started: still "todo" this long after creation
+  // stalled: in progress or in review with no update for this long
+  // overdue: this long past the due date and not completed
+  trigger: {
+    type: String,
+    enum: ESCALATION_TRIGGERS,
+    required: true
+  },
+  thresholdHours: {
+    type: Number,
+    required: true,
+    min: [1, 'Threshold must be at least one hour']
+  },
+  // Empty means every priority
+  priorities: [{
+    type: String,
+    enum: ['low', 'medium', 'high', 'urgent']
+  }],
+  notify: [{
+    type: String,
+    enum: ESCALATION_TARGETS
+  }],
+  raisePriority: {
+    type: Boolean,
+    default: false
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  firm: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Firm',
+    required: true
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  lastTriggeredAt: Date
+}, {
+  timestamps: true
+});
+
+escalationRuleSchema.index({ firm: 1, isActive: 1 });
+
+const EscalationRule = mongoose.model('EscalationRule', escalationRuleSchema);
+
+export default EscalationRule;
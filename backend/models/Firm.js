@@ -75,6 +75,7 @@ const firmSchema = new mongoose.Schema({
     dateFormat: { type: String, default: 'DD/MM/YYYY' },
     invoicePrefix: { type: String, default: 'INV' },
     quotationPrefix: { type: String, default: 'QUO' },
+    creditNotePrefix: { type: String, default: 'CN' },
     taskPrefix: { type: String, default: 'TSK' },
     autoInvoiceGeneration: { type: Boolean, default: true },
     reminderDays: { type: Number, default: 3 },
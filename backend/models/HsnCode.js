@@ -0,0 +1,69 @@
+import mongoose from 'mongoose';
+
+// One GST rate for a code, in force from `effectiveFrom` until the next entry starts
+const hsnRateSchema = new mongoose.Schema({
+  rate: {
+    type: Number,
+    required: true,
+    min: 0,
+    max: 40
+  },
+  cess: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  effectiveFrom: {
+    type: Date,
+    required: true
+  },
+  notification: {
+    type: String,
+    trim: true,
+    maxlength: [200, 'Notification reference cannot exceed 200 characters']
+  }
+}, { _id: false });
+
+// HSN (goods) and SAC (services) master shared by every firm, imported from the official list
+const hsnCodeSchema = new mongoose.Schema({
+  code: {
+    type: String,
+    required: [true, 'HSN/SAC code is required'],
+    trim: true,
+    match: [/^\d{2,8}$/, 'HSN/SAC codes are 2 to 8 digits']
+  },
+  kind: {
+    type: String,
+    enum: ['HSN', 'SAC'],
+    required: true
+  },
+  description: {
+    type: String,
+    required: [true, 'Description is required'],
+    trim: true
+  },
+  // Chapter or service heading the code sits under, for grouping in search results
+  category: {
+    type: String,
+    trim: true
+  },
+  rates: [hsnRateSchema],
+  // Trigrams of the description, so search still matches misspelt words
+  searchGrams: {
+    type: [String],
+    select: false
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  }
+}, {
+  timestamps: true
+});
+
+hsnCodeSchema.index({ code: 1 }, { unique: true });
+hsnCodeSchema.index({ searchGrams: 1 });
+
+const HsnCode = mongoose.model('HsnCode', hsnCodeSchema);
+
+export default HsnCode;
@@ -1,14 +1,15 @@
 import mongoose from 'mongoose';
+import { allocateInvoiceNumber, releaseInvoiceNumber } from '../utils/invoiceNumbering.js';
+import { calculateInvoiceTax, resolvePlaceOfSupply, PLACE_OF_SUPPLY_SOURCES } from '../utils/gstTax.js';
 
 const invoiceSchema = new mongoose.Schema({
+  // Unique per firm, see the index below; assigned from the firm's number series on create
   invoiceNumber: {
-    type: String,
-    unique: true,
-    sparse: true
+    type: String
   },
   type: {
     type: String,
-    enum: ['invoice', 'quotation', 'proforma', 'quote_draft', 'quote_ready', 'quote_sent'],
+    enum: ['invoice', 'quotation', 'proforma', 'credit_note', 'quote_draft', 'quote_ready', 'quote_sent'],
     default: 'invoice'
   },
   status: {
@@ -76,8 +77,14 @@ const invoiceSchema = new mongoose.Schema({
       type: Number,
       default: 18,
       min: 0,
-      max: 28
-    }
+      max: 40
+    },
+    // Worked out on save: the line amount less its share of the discount, and its tax.
+    // No defaults, so lines saved before the split was stored are recalculated on read.
+    taxableValue: Number,
+    cgst: Number,
+    sgst: Number,
+    igst: Number
   }],
   // Amounts
   subtotal: {
@@ -122,6 +129,12 @@ const invoiceSchema = new mongoose.Schema({
     default: 0,
     min: 0
   },
+  // Total of credit notes issued against this invoice
+  creditedAmount: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
   // GST details
   gst: {
     cgst: { type: Number, default: 0 },
@@ -129,6 +142,40 @@ const invoiceSchema = new mongoose.Schema({
     igst: { type: Number, default: 0 },
     applicable: { type: Boolean, default: true }
   },
+  // Decides CGST/SGST against IGST; resolved on save unless set manually
+  placeOfSupply: {
+    stateCode: String,
+    state: String,
+    supplierStateCode: String,
+    supplierState: String,
+    interState: { type: Boolean, default: false },
+    source: {
+      type: String,
+      enum: PLACE_OF_SUPPLY_SOURCES
+    }
+  },
+  // Invoice Reference Number from the IRP, generated through a GSP or imported from the portal
+  einvoice: {
+    status: {
+      type: String,
+      enum: ['generated', 'cancelled']
+    },
+    irn: String,
+    ackNo: String,
+    ackDate: Date,
+    signedQrCode: String,
+    signedInvoice: String,
+    source: {
+      type: String,
+      enum: ['gsp', 'mock', 'import']
+    },
+    generatedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    cancelledAt: Date,
+    cancelReason: String
+  },
   // Payment information
   paymentTerms: {
     type: String,
@@ -164,6 +211,7 @@ const invoiceSchema = new mongoose.Schema({
     paymentLinkId: String,
     orderId: String,
     shortUrl: String,
+    amount: Number,
     collectionMethod: String,
     status: String,
     createdAt: Date,
@@ -219,6 +267,25 @@ const invoiceSchema = new mongoose.Schema({
     }
   },
   
+  // Client's answer to a quotation from the client portal
+  clientResponse: {
+    status: {
+      type: String,
+      enum: ['accepted', 'rejected']
+    },
+    respondedAt: Date,
+    respondedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    reason: String,
+    // Invoice raised from an accepted quotation
+    invoice: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Invoice'
+    }
+  },
+  
   // Document attachments
   attachments: [{
     name: String,
@@ -285,6 +352,31 @@ const invoiceSchema = new mongoose.Schema({
     type: mongoose.Schema.Types.ObjectId,
     ref: 'Invoice'
   },
+  // Credit note details (type === 'credit_note')
+  creditNote: {
+    originalInvoice: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Invoice'
+    },
+    reason: String,
+    // Tax is reversed the same way the original invoice charged it
+    interState: { type: Boolean, default: false },
+    refund: {
+      amount: { type: Number, default: 0, min: 0 },
+      method: {
+        type: String,
+        enum: ['razorpay', 'cash', 'cheque', 'bank_transfer', 'upi']
+      },
+      reference: String,
+      razorpayRefundId: String,
+      status: {
+        type: String,
+        enum: ['pending', 'processed', 'failed']
+      },
+      processedAt: Date,
+      error: String
+    }
+  },
   // Template used
   template: {
     type: mongoose.Schema.Types.ObjectId,
@@ -297,7 +389,10 @@ const invoiceSchema = new mongoose.Schema({
       type: String,
       enum: ['due_reminder', 'overdue_reminder', 'payment_reminder']
     },
-    daysAfterDue: Number
+    // Schedule step the reminder was sent for; negative = before the due date
+    daysAfterDue: Number,
+    sentTo: String,
+    automatic: { type: Boolean, default: true }
   }]
 }, {
   timestamps: true,
@@ -312,6 +407,12 @@ invoiceSchema.index({ status: 1 });
 invoiceSchema.index({ dueDate: 1 });
 invoiceSchema.index({ issueDate: 1 });
 invoiceSchema.index({ type: 1 });
+invoiceSchema.index({ 'creditNote.originalInvoice': 1 });
+invoiceSchema.index({ 'einvoice.irn': 1 }, { sparse: true });
+invoiceSchema.index(
+  { firm: 1, invoiceNumber: 1 },
+  { unique: true, partialFilterExpression: { invoiceNumber: { $type: 'string' } } }
+);
 
 // Virtual for overdue status
 invoiceSchema.virtual('isOverdue').get(function() {
@@ -324,29 +425,44 @@ invoiceSchema.virtual('daysOverdue').get(function() {
   return Math.floor((new Date() - this.dueDate) / (1000 * 60 * 60 * 24));
 });
 
-// Generate invoice number before saving
+// Take the next number from the firm's series for this type, account and financial year
 invoiceSchema.pre('save', async function(next) {
   if (this.isNew && !this.invoiceNumber) {
-    const firm = await mongoose.model('Firm').findById(this.firm);
-    let prefix = 'INV';
-    
-    if (this.type === 'quotation') {
-      prefix = firm?.settings?.quotationPrefix || 'QUO';
-    } else {
-      prefix = firm?.settings?.invoicePrefix || 'INV';
+    // Inside a transaction the counter increment rolls back with the invoice
+    const allocation = await allocateInvoiceNumber(this, this.$session());
+    this.invoiceNumber = allocation.invoiceNumber;
+    this.$locals.numberAllocation = allocation;
+  }
+  next();
+});
+
+// Hand the number back if the insert failed, so the series stays gapless
+invoiceSchema.post('save', async function(error, doc, next) {
+  const allocation = this.$locals?.numberAllocation;
+  if (allocation && !this.$session()) {
+    delete this.$locals.numberAllocation;
+    this.invoiceNumber = undefined;
+    try {
+      await releaseInvoiceNumber(allocation);
+    } catch (releaseError) {
+      console.error('Failed to release invoice number:', releaseError);
     }
-    
-    const count = await this.constructor.countDocuments({ 
-      firm: this.firm, 
-      type: this.type,
-      createdAt: {
-        $gte: new Date(new Date().getFullYear(), 3, 1), // Financial year starts from April
-        $lt: new Date(new Date().getFullYear() + 1, 3, 1)
-      }
-    }).maxTimeMS(5000); // 5 second timeout
-    
-    const year = new Date().getFullYear().toString().slice(-2);
-    this.invoiceNumber = `${prefix}${year}${String(count + 1).padStart(4, '0')}`;
+  }
+  next(error);
+});
+
+// Place of supply for new documents, or when the client, account or manual state changes.
+// Credit notes carry the place of supply of the invoice they reverse.
+invoiceSchema.pre('save', async function(next) {
+  const relevantChange = this.isNew || this.isModified('client') || this.isModified('collectionMethod') ||
+    this.isModified('placeOfSupply.stateCode') || this.isModified('placeOfSupply.source');
+  if (this.type !== 'credit_note' && relevantChange) {
+    this.placeOfSupply = await resolvePlaceOfSupply({
+      firm: this.firm,
+      collectionMethod: this.collectionMethod,
+      client: this.client,
+      manualStateCode: this.placeOfSupply?.source === 'manual' ? this.placeOfSupply.stateCode : null
+    });
   }
   next();
 });
@@ -365,33 +481,42 @@ invoiceSchema.pre('save', function(next) {
   
   const discountedAmount = this.subtotal - this.discount.amount;
   
-  // Calculate tax if GST is applicable
-  if (this.gst.applicable) {
-    this.taxAmount = this.items.reduce((sum, item) => {
-      if (item.taxable) {
-        return sum + (item.amount * item.taxRate) / 100;
-      }
-      return sum;
-    }, 0);
-    
-    // Distribute tax between CGST, SGST, or IGST based on business logic
-    this.gst.cgst = this.taxAmount / 2;
-    this.gst.sgst = this.taxAmount / 2;
-    this.gst.igst = 0; // Set based on interstate transaction logic
+  // Split the tax line by line when anything it depends on changed; documents
+  // saved for other reasons (payments, status) keep the tax they were issued with
+  const taxInputsChanged = this.isNew || this.isModified('items') || this.isModified('discount') ||
+    this.isModified('placeOfSupply') || this.isModified('gst.applicable');
+  if (taxInputsChanged) {
+    const interState = this.placeOfSupply?.stateCode
+      ? this.placeOfSupply.interState
+      : this.type === 'credit_note' && !!this.creditNote?.interState;
+    const tax = calculateInvoiceTax(this.items, this.discount.amount, { applicable: this.gst.applicable, interState });
+
+    this.items.forEach((item, index) => {
+      Object.assign(item, tax.lines[index]);
+    });
+    this.taxAmount = tax.taxAmount;
+    this.gst.cgst = tax.cgst;
+    this.gst.sgst = tax.sgst;
+    this.gst.igst = tax.igst;
   }
   
   // Calculate total
-  this.totalAmount = discountedAmount + this.taxAmount;
+  this.totalAmount = Math.round((discountedAmount + this.taxAmount) * 100) / 100;
   
-  // Calculate balance
-  this.balanceAmount = this.totalAmount - this.paidAmount;
+  // Calculate balance, net of any credit notes issued against the invoice
+  const credited = this.creditedAmount || 0;
+  this.balanceAmount = Math.max(0, this.totalAmount - credited - this.paidAmount);
   
   // Update status based on payment
-  if (this.paidAmount === 0) {
+  if (this.type === 'credit_note') {
+    // Credit notes are issued documents; they are never "paid"
+  } else if (credited > 0 && credited >= this.totalAmount) {
+    this.status = 'cancelled';
+  } else if (this.paidAmount === 0) {
     if (this.status === 'paid' || this.status === 'partially_paid') {
       this.status = 'sent';
     }
-  } else if (this.paidAmount >= this.totalAmount) {
+  } else if (this.paidAmount >= this.totalAmount - credited) {
     this.status = 'paid';
     if (!this.paidDate) this.paidDate = new Date();
   } else {
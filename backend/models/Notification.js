@@ -19,8 +19,11 @@ const notificationSchema = new mongoose.Schema({
       'task_overdue',
       'task_completed',
       'task_updated',
+      'task_escalated',
       'client_document_uploaded',
+      'document_requested',
       'payment_received',
+      'quote_response',
       'system_announcement',
       'chat_mention'
     ],
@@ -39,7 +42,7 @@ const notificationSchema = new mongoose.Schema({
   relatedEntity: {
     entityType: {
       type: String,
-      enum: ['Task', 'Client', 'Invoice', 'Payment', 'Document', 'ChatMessage', 'ChatRoom'],
+      enum: ['Task', 'Client', 'Invoice', 'Payment', 'Document', 'ChatMessage', 'ChatRoom', 'DocumentRequest'],
       required: false
     },
     entityId: {
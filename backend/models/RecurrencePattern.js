@@ -1,4 +1,5 @@
 import mongoose from 'mongoose';
+import dueDateService from '../services/dueDateService.js';
 
 const recurrencePatternSchema = new mongoose.Schema({
   name: {
@@ -8,7 +9,7 @@ const recurrencePatternSchema = new mongoose.Schema({
   },
   type: {
     type: String,
-    enum: ['monthly', 'yearly', 'quarterly', 'custom'],
+    enum: ['monthly', 'yearly', 'quarterly', 'custom', 'statutory'],
     required: true
   },
   // Monthly configuration
@@ -128,6 +129,22 @@ const recurrencePatternSchema = new mongoose.Schema({
     }]
   },
   
+  // Statutory configuration: occurrences follow the due-date engine for a return type
+  statutoryConfig: {
+    returnType: {
+      type: String,
+      trim: true,
+      uppercase: true,
+      required: function() {
+        return this.type === 'statutory';
+      }
+    },
+    assesseeType: {
+      type: String,
+      trim: true
+    }
+  },
+  
   // End conditions
   endCondition: {
     type: {
@@ -203,6 +220,13 @@ recurrencePatternSchema.virtual('frequencyDescription').get(function() {
       
     case 'custom':
       return `Every ${this.customConfig.frequency} ${this.customConfig.unit}`;
+      
+    case 'statutory':
+      try {
+        return `Statutory due dates for ${dueDateService.getRule(this.statutoryConfig.returnType).label}`;
+      } catch (error) {
+        break;
+      }
   }
   
   return this.description || 'Custom pattern';
@@ -272,6 +296,17 @@ recurrencePatternSchema.methods.getNextOccurrence = function(fromDate = new Date
         }
       }
       break;
+      
+    case 'statutory': {
+      // Next statutory due date strictly after fromDate
+      const after = new Date(nextDate.getFullYear(), nextDate.getMonth(), nextDate.getDate() + 1);
+      const next = dueDateService.calculateNextDueDate(this.statutoryConfig.returnType, after, {
+        assesseeType: this.statutoryConfig.assesseeType
+      });
+      if (!next) return null;
+      nextDate.setTime(next.dueDate.getTime());
+      break;
+    }
   }
   
   // Respect end date if set
@@ -331,6 +366,26 @@ recurrencePatternSchema.statics.createCAPresets = async function(firmId, userId)
       description: 'Annual ROC filing by September 30th',
       firm: firmId,
       createdBy: userId
+    },
+    {
+      name: 'GSTR-3B Statutory Due Dates',
+      type: 'statutory',
+      statutoryConfig: {
+        returnType: 'GSTR3B'
+      },
+      description: 'Monthly GSTR-3B on the statutory due date',
+      firm: firmId,
+      createdBy: userId
+    },
+    {
+      name: 'TDS Quarterly Return Due Dates',
+      type: 'statutory',
+      statutoryConfig: {
+        returnType: 'TDS_26Q'
+      },
+      description: 'Quarterly TDS return (26Q) on the statutory due date',
+      firm: firmId,
+      createdBy: userId
     }
   ];
   
@@ -0,0 +1,59 @@
+import mongoose from 'mongoose';
+import { PERMISSION_KEYS } from '../config/permissions.js';
+
+// A firm's permission set for a built-in role (isSystem, key = 'admin' or
+// 'employee') or a custom role. Built-in roles without a document use the
+// defaults in config/permissions.js.
+const roleSchema = new mongoose.Schema({
+  firm: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Firm',
+    required: true
+  },
+  key: {
+    type: String,
+    required: true,
+    trim: true,
+    lowercase: true,
+    match: [/^[a-z0-9_-]+$/, 'Role key may only contain letters, numbers, - and _']
+  },
+  name: {
+    type: String,
+    required: [true, 'Role name is required'],
+    trim: true,
+    maxlength: [50, 'Role name cannot exceed 50 characters']
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [200, 'Description cannot exceed 200 characters']
+  },
+  // User.role given to members of a custom role (dashboard, portal and default access)
+  baseRole: {
+    type: String,
+    enum: ['admin', 'employee'],
+    required: true
+  },
+  permissions: [{
+    type: String,
+    enum: PERMISSION_KEYS
+  }],
+  isSystem: {
+    type: Boolean,
+    default: false
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  updatedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+roleSchema.index({ firm: 1, key: 1 }, { unique: true });
+
+export default mongoose.model('Role', roleSchema);
@@ -1,5 +1,118 @@
 import mongoose from 'mongoose';
 import Counter from './Counter.js';
+import { checklistProgress } from '../utils/taskChecklist.js';
+
+const checklistItemSchema = new mongoose.Schema({
+  title: {
+    type: String,
+    required: [true, 'Checklist step title is required'],
+    trim: true,
+    maxlength: [200, 'Checklist step title cannot exceed 200 characters']
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Checklist step description cannot exceed 500 characters']
+  },
+  order: {
+    type: Number,
+    default: 0
+  },
+  templateStep: {
+    type: mongoose.Schema.Types.ObjectId
+  },
+  assignee: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  reviewer: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  dueDate: Date,
+  estimatedHours: {
+    type: Number,
+    min: 0
+  },
+  mandatory: {
+    type: Boolean,
+    default: true
+  },
+  requiresEvidence: {
+    type: Boolean,
+    default: false
+  },
+  requiresSignOff: {
+    type: Boolean,
+    default: false
+  },
+  // pending -> done (maker) -> signed_off (checker); a rejected step goes back to pending
+  status: {
+    type: String,
+    enum: ['pending', 'done', 'signed_off'],
+    default: 'pending'
+  },
+  // Ids of entries in the task's documents list
+  evidence: [{
+    type: mongoose.Schema.Types.ObjectId
+  }],
+  completedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  completedAt: Date,
+  completionNote: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Note cannot exceed 500 characters']
+  },
+  signedOffBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  signedOffAt: Date,
+  reviewNote: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Review note cannot exceed 500 characters']
+  }
+}, { _id: true });
+
+// One pass through the review stage: opened when the task is sent for review,
+// closed when the reviewer approves or returns it (or it is pulled back)
+const reviewCycleSchema = new mongoose.Schema({
+  cycle: {
+    type: Number,
+    required: true
+  },
+  submittedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  submittedAt: {
+    type: Date,
+    default: Date.now
+  },
+  reviewer: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  outcome: {
+    type: String,
+    enum: ['pending', 'approved', 'returned', 'withdrawn'],
+    default: 'pending'
+  },
+  decidedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  decidedAt: Date,
+  points: [{
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Review point cannot exceed 1000 characters']
+  }]
+}, { _id: true });
 
 const taskSchema = new mongoose.Schema({
   title: {
@@ -79,6 +192,17 @@ const taskSchema = new mongoose.Schema({
     ref: 'User',
     required: true
   },
+  // Reviewer (usually a partner) who approves the task out of the review stage
+  reviewer: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
+  },
+  reviewCycles: {
+    type: Number,
+    default: 0
+  },
+  reviewHistory: [reviewCycleSchema],
   client: {
     type: mongoose.Schema.Types.ObjectId,
     ref: 'Client',
@@ -144,6 +268,22 @@ const taskSchema = new mongoose.Schema({
     enum: ['daily', 'weekly', 'monthly', 'yearly', 'custom'],
     // Pattern for recurring tasks
   },
+  // Statutory filing this task is for; the due date is derived from it
+  statutoryReturn: {
+    returnType: {
+      type: String,
+      trim: true,
+      uppercase: true
+    },
+    period: {
+      type: String,
+      trim: true
+    },
+    assesseeType: {
+      type: String,
+      trim: true
+    }
+  },
   parentTask: {
     type: mongoose.Schema.Types.ObjectId,
     ref: 'Task'
@@ -184,6 +324,10 @@ const taskSchema = new mongoose.Schema({
     max: 100,
     default: 0
   },
+  // Working checklist, usually created from the template's steps. Steps are
+  // completed by their assignee (maker) and, where required, signed off by a
+  // different reviewer (checker).
+  checklist: [checklistItemSchema],
   milestones: [{
     title: String,
     description: String,
@@ -204,12 +348,33 @@ const taskSchema = new mongoose.Schema({
     type: Boolean,
     default: false
   },
+  // Billing run that marked the task invoiced, so a failed run without a transaction can release it
+  billingRun: {
+    type: String,
+    default: null
+  },
   // Notifications
   reminderSent: {
     type: Boolean,
     default: false
   },
   lastReminderDate: Date,
+  // SLA escalations fired by EscalationRule; each rule fires once per task
+  escalations: [{
+    rule: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'EscalationRule'
+    },
+    ruleName: String,
+    trigger: String,
+    triggeredAt: { type: Date, default: Date.now },
+    notified: [{
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    }],
+    priorityFrom: String,
+    priorityTo: String
+  }],
   // Custom fields for specific task types
   customFields: {
     type: Map,
@@ -264,6 +429,7 @@ taskSchema.index({ isRecurring: 1 });
 taskSchema.index({ billable: 1 });
 taskSchema.index({ invoiced: 1 });
 taskSchema.index({ isArchived: 1 });
+taskSchema.index({ reviewer: 1 });
 
 // Virtual for overdue status
 taskSchema.virtual('isOverdue').get(function() {
@@ -324,6 +490,14 @@ taskSchema.pre('save', async function(next) {
   next();
 });
 
+// Keep progress in step with the checklist when there is one
+taskSchema.pre('save', function(next) {
+  if (this.isModified('checklist') && this.checklist.length > 0) {
+    this.progressPercentage = checklistProgress(this.checklist);
+  }
+  next();
+});
+
 // Update completed date when status changes to completed
 taskSchema.pre('save', function(next) {
   if (this.isModified('status')) {
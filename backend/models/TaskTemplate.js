@@ -24,6 +24,28 @@ const subtaskSchema = new mongoose.Schema({
   estimatedHours: {
     type: Number,
     min: 0
+  },
+  // Checklist settings copied onto each task created from the template
+  assignee: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  // Step due date in days relative to the task due date (negative = before)
+  dueOffsetDays: {
+    type: Number,
+    default: 0
+  },
+  mandatory: {
+    type: Boolean,
+    default: true
+  },
+  requiresEvidence: {
+    type: Boolean,
+    default: false
+  },
+  requiresSignOff: {
+    type: Boolean,
+    default: false
   }
 }, { _id: true });
 
@@ -96,6 +118,17 @@ const taskTemplateSchema = new mongoose.Schema({
     type: String, // Flexible deadline specification like "20th of every month"
     trim: true
   },
+  // Statutory filing this template prepares; when set, due dates come from the
+  // due-date engine instead of `deadline` (e.g. "GSTR3B", "TDS_26Q", "ITR")
+  statutory_return_type: {
+    type: String,
+    trim: true,
+    uppercase: true
+  },
+  statutory_assessee_type: {
+    type: String,
+    trim: true
+  },
   subtasks: [subtaskSchema],
   // Estimated time and complexity
   estimated_hours: {
@@ -0,0 +1,107 @@
+import mongoose from 'mongoose';
+
+const timeEntrySchema = new mongoose.Schema({
+  task: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Task',
+    required: [true, 'Task is required']
+  },
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  firm: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Firm',
+    required: true
+  },
+  // Copied from the task so timesheets and billing can filter without a join
+  client: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Client'
+  },
+  startTime: {
+    type: Date,
+    required: [true, 'Start time is required']
+  },
+  // Null while the timer is running
+  endTime: {
+    type: Date,
+    default: null
+  },
+  durationMinutes: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  note: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Note cannot exceed 1000 characters']
+  },
+  billable: {
+    type: Boolean,
+    default: true
+  },
+  // Timesheet workflow: draft -> submitted -> approved / rejected (rejected entries can be resubmitted)
+  status: {
+    type: String,
+    enum: ['draft', 'submitted', 'approved', 'rejected'],
+    default: 'draft'
+  },
+  submittedAt: Date,
+  approvedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  approvedAt: Date,
+  rejectionReason: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Rejection reason cannot exceed 500 characters']
+  }
+}, {
+  timestamps: true
+});
+
+timeEntrySchema.index({ firm: 1, user: 1, startTime: -1 });
+timeEntrySchema.index({ task: 1, status: 1 });
+timeEntrySchema.index({ user: 1, endTime: 1 });
+
+timeEntrySchema.virtual('isRunning').get(function() {
+  return !this.endTime;
+});
+
+timeEntrySchema.set('toJSON', { virtuals: true });
+timeEntrySchema.set('toObject', { virtuals: true });
+
+timeEntrySchema.pre('validate', function(next) {
+  if (this.endTime && this.startTime && this.endTime < this.startTime) {
+    this.invalidate('endTime', 'End time must be after start time');
+  }
+  next();
+});
+
+timeEntrySchema.pre('save', function(next) {
+  this.durationMinutes = this.endTime
+    ? Math.round((this.endTime - this.startTime) / 60000)
+    : 0;
+  next();
+});
+
+// Task.actualHours is derived from approved entries only
+timeEntrySchema.statics.recalculateTaskHours = async function(taskId) {
+  const [result] = await this.aggregate([
+    { $match: { task: new mongoose.Types.ObjectId(String(taskId)), status: 'approved' } },
+    { $group: { _id: null, minutes: { $sum: '$durationMinutes' } } }
+  ]);
+
+  const actualHours = Math.round(((result?.minutes || 0) / 60) * 100) / 100;
+  await mongoose.model('Task').updateOne({ _id: taskId }, { actualHours });
+  return actualHours;
+};
+
+const TimeEntry = mongoose.model('TimeEntry', timeEntrySchema);
+
+export default TimeEntry;
@@ -38,6 +38,12 @@ const userSchema = new mongoose.Schema({
     default: 'employee',
     required: true
   },
+  // Firm-defined role whose permissions replace the built-in role's (see models/Role.js)
+  customRole: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Role',
+    default: null
+  },
   phone: {
     type: String,
     trim: true,
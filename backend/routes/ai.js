@@ -1,8 +1,8 @@
 import express from 'express';
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import rateLimit from 'express-rate-limit';
 import multer from 'multer';
 import auth from '../middleware/auth.js';
+import { requirePermission } from '../middleware/authorize.js';
 import Client from '../models/Client.js';
 import Task from '../models/Task.js';
 import Invoice from '../models/Invoice.js';
@@ -11,26 +11,82 @@ import ChatRoom from '../models/ChatRoom.js';
 import ChatMessage from '../models/ChatMessage.js';
 import AIUsage from '../models/AIUsage.js';
 import gstService from '../services/gstService.js';
+import aiActionService from '../services/aiActionService.js';
+import llmService from '../services/llmService.js';
+import aiQuotaService from '../services/aiQuotaService.js';
 import { logChatMessage, logFunctionCall } from '../utils/chatLogger.js';
+import { getAssignedClientIds, canAccessClient } from '../utils/clientScope.js';
 
 const router = express.Router();
 
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '');
-const GEMINI_MODEL = process.env.GEMINI_MODEL || 'gemini-2.0-flash';
+// Resolve the LLM provider configured for the user's firm (services/llmService.js)
+const withProvider = async (req, res, next) => {
+  try {
+    req.llm = await llmService.getProvider(req.user.firmId?._id || req.user.firmId);
+    if (!req.llm.isConfigured()) {
+      return res.status(503).json({
+        success: false,
+        message: 'AI service is not configured. Please set up an AI provider in Settings.'
+      });
+    }
+    next();
+  } catch (error) {
+    console.error('Resolve AI provider error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error.message
+    });
+  }
+};
 
-// Check if API key is configured
-const isConfigured = () => {
-  return process.env.GEMINI_API_KEY && process.env.GEMINI_API_KEY !== 'YOUR_GEMINI_API_KEY_HERE';
+// Block requests once the firm's or user's monthly token quota is used up
+// (services/aiQuotaService.js); otherwise report the quota state in headers
+const withQuota = async (req, res, next) => {
+  try {
+    const quota = await aiQuotaService.getQuotaStatus(req.user);
+    if (quota.status === 'exceeded') {
+      return res.status(429).json({
+        success: false,
+        code: 'AI_QUOTA_EXCEEDED',
+        message: quota.message,
+        data: quota
+      });
+    }
+    res.set('X-AI-Quota-Status', quota.status);
+    res.set('X-AI-Quota-Percent', String(Math.max(quota.firm.percent, quota.user.percent)));
+    req.aiQuota = quota;
+    next();
+  } catch (error) {
+    console.error('Check AI quota error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error.message
+    });
+  }
 };
 
+// Label stored on AIUsage records, e.g. "gemini:gemini-2.0-flash"
+const modelLabel = (provider) => `${provider.name}:${provider.model}`;
+
 // Status endpoint to check AI configuration
-router.get('/status', (req, res) => {
-  res.json({
-    configured: isConfigured(),
-    message: isConfigured() 
-      ? 'AI service is configured and ready' 
-      : 'AI service requires configuration. Please set GEMINI_API_KEY in environment variables.'
-  });
+router.get('/status', auth, async (req, res) => {
+  try {
+    const provider = await llmService.getProvider(req.user.firmId?._id || req.user.firmId);
+    const configured = provider.isConfigured();
+    res.json({
+      configured,
+      provider: provider.name,
+      model: provider.model,
+      message: configured
+        ? 'AI service is configured and ready'
+        : 'AI service requires configuration. Please set up an AI provider in Settings.'
+    });
+  } catch (error) {
+    console.error('AI status error:', error);
+    res.status(500).json({ configured: false, message: 'Failed to check AI configuration' });
+  }
 });
 
 // Tighten rate limit for AI endpoints
@@ -65,7 +121,7 @@ async function ensureAssistantRoom(user) {
   return room;
 }
 
-// Helper: map history from DB to Gemini contents format
+// Helper: map history from DB to the contents format every LLM provider accepts
 function mapHistoryToContents(history) {
   const contents = [];
   for (const msg of history) {
@@ -104,12 +160,15 @@ async function gatherUserDataContext(user) {
       .populate('client', '_id')
       .sort({ createdAt: -1 });
 
-    // CRITICAL SECURITY: For employees, restrict clients to only those with assigned tasks
+    // CRITICAL SECURITY: For employees, restrict clients to those assigned to them or with their tasks
     if (user.role === 'employee') {
       const clientIds = [...new Set(
-        tasks
-          .map(t => t.client?._id || t.client)
+        [
+          ...tasks.map(t => t.client?._id || t.client),
+          ...(await getAssignedClientIds(user))
+        ]
           .filter(Boolean)
+          .map(String)
       )];
       clientQuery._id = { $in: clientIds };
     }
@@ -204,6 +263,7 @@ You have complete awareness of ALL clients, tasks, and invoices listed above. Wh
 3. Reference specific data points from the lists above
 4. For detailed information, use the function calling tools (getClientData, listClients, etc.)
 5. Be helpful, professional, and data-driven in your responses
+6. To change data (create a task from a template, reassign a task, draft an invoice, log a client communication) use the propose* functions. They only create a proposal card - tell the user to review and confirm it, and never claim the change has been made
 
 If asked to "list clients", provide the complete list from the ALL CLIENTS section above. You are fully aware of the entire system!
 `;
@@ -215,7 +275,7 @@ If asked to "list clients", provide the complete list from the ALL CLIENTS secti
 
 // ==================== FUNCTION CALLING SYSTEM ====================
 
-// Define function schemas for Gemini
+// Define function schemas for the LLM provider
 const functionDeclarations = [
   {
     name: 'getGSTINData',
@@ -342,9 +402,98 @@ const functionDeclarations = [
       },
       required: []
     }
+  },
+  {
+    name: 'proposeCreateTaskFromTemplate',
+    description: 'Propose creating a task from one of the firm\'s task templates. Nothing is created until the user confirms the proposal card. Use when the user asks to create, start or open a task/job for a client.',
+    parameters: {
+      type: 'object',
+      properties: {
+        template: { type: 'string', description: 'Task template title (partial match supported) or ID' },
+        client: { type: 'string', description: 'Optional: client name or ID the task is for' },
+        assignee: { type: 'string', description: 'Optional: team member name, email or ID to assign the task to' },
+        dueDate: { type: 'string', description: 'Optional: due date in YYYY-MM-DD format. Leave empty to use the template or statutory due date' },
+        priority: { type: 'string', enum: ['low', 'medium', 'high', 'urgent'], description: 'Task priority (default: medium)' },
+        title: { type: 'string', description: 'Optional: task title, defaults to "<template> - <client>"' }
+      },
+      required: ['template']
+    }
+  },
+  {
+    name: 'proposeReassignTask',
+    description: 'Propose reassigning an open task to another team member. Nothing changes until the user confirms the proposal card.',
+    parameters: {
+      type: 'object',
+      properties: {
+        task: { type: 'string', description: 'Task title (partial match supported) or ID' },
+        assignee: { type: 'string', description: 'Team member name, email or ID to assign the task to' }
+      },
+      required: ['task', 'assignee']
+    }
+  },
+  {
+    name: 'proposeDraftInvoice',
+    description: 'Propose a draft invoice for a client. The invoice is only saved (as a draft) after the user confirms the proposal card.',
+    parameters: {
+      type: 'object',
+      properties: {
+        client: { type: 'string', description: 'Client name or ID' },
+        items: {
+          type: 'array',
+          description: 'Invoice line items',
+          items: {
+            type: 'object',
+            properties: {
+              description: { type: 'string', description: 'Service description' },
+              quantity: { type: 'number', description: 'Quantity (default 1)' },
+              rate: { type: 'number', description: 'Rate per unit in INR, before GST' },
+              taxRate: { type: 'number', description: 'GST rate in percent (default 18)' }
+            },
+            required: ['description', 'rate']
+          }
+        },
+        dueInDays: { type: 'number', description: 'Optional: days until the invoice is due, defaults to the client\'s payment terms' },
+        notes: { type: 'string', description: 'Optional: notes printed on the invoice' }
+      },
+      required: ['client', 'items']
+    }
+  },
+  {
+    name: 'proposeLogCommunication',
+    description: 'Propose recording a communication with a client (call, meeting, email, WhatsApp message or internal note) in their communication history. Nothing is saved until the user confirms the proposal card.',
+    parameters: {
+      type: 'object',
+      properties: {
+        client: { type: 'string', description: 'Client name or ID' },
+        communicationType: { type: 'string', enum: ['email', 'phone', 'whatsapp', 'meeting', 'document', 'internal_note'], description: 'How the client was contacted' },
+        subject: { type: 'string', description: 'Short subject line' },
+        message: { type: 'string', description: 'Summary of what was discussed' }
+      },
+      required: ['client', 'communicationType', 'subject', 'message']
+    }
   }
 ];
 
+// Write functions only store a proposal; the user confirms it from the chat card
+async function proposeAction(type, args, user) {
+  console.log(`📝 AI Function Call: propose ${type}`, args);
+
+  try {
+    const action = await aiActionService.propose(type, args, user);
+    return {
+      success: true,
+      requiresConfirmation: true,
+      action: { id: action._id, type: action.type, title: action.title, details: action.details },
+      note: 'This has NOT been done yet. The user has been shown a card to confirm or cancel it.'
+    };
+  } catch (error) {
+    if (!error.statusCode) {
+      console.error(`Error proposing ${type}:`, error);
+    }
+    return { success: false, error: error.message };
+  }
+}
+
 // Function handlers - execute the actual logic
 const functionHandlers = {
   async getGSTINData({ gstin }, user) {
@@ -430,7 +579,7 @@ const functionHandlers = {
       // If the user is an employee, ensure they are allowed to access this client (only their clients)
       if (user.role === 'employee') {
         const relatedTask = await Task.findOne({ firm: firmId, client: client._id, $or: [{ assignedTo: user._id }, { assignedBy: user._id }] }).lean();
-        if (!relatedTask && String(client.createdBy) !== String(user._id)) {
+        if (!relatedTask && String(client.createdBy) !== String(user._id) && !(await canAccessClient(user, client._id))) {
           return { error: 'Access denied: employees can only query clients related to them', success: false };
         }
       }
@@ -819,6 +968,22 @@ const functionHandlers = {
         success: false 
       };
     }
+  },
+
+  proposeCreateTaskFromTemplate(args, user) {
+    return proposeAction('create_task_from_template', args, user);
+  },
+
+  proposeReassignTask(args, user) {
+    return proposeAction('reassign_task', args, user);
+  },
+
+  proposeDraftInvoice(args, user) {
+    return proposeAction('draft_invoice', args, user);
+  },
+
+  proposeLogCommunication(args, user) {
+    return proposeAction('log_communication', args, user);
   }
 };
 
@@ -851,24 +1016,18 @@ async function executeFunction(functionCall, user) {
 
 // ==================== END FUNCTION CALLING SYSTEM ====================
 
-router.post('/chat', auth, aiLimiter, async (req, res) => {
+router.post('/chat', auth, aiLimiter, withProvider, withQuota, async (req, res) => {
   const { prompt, privacy } = req.body;
 
   if (!prompt) {
     return res.status(400).json({ message: 'Prompt is required' });
   }
 
-  if (!isConfigured()) {
-    return res.status(503).json({ 
-      message: 'AI service is not configured. Please set up GEMINI_API_KEY in environment variables.' 
-    });
-  }
-
   const startTime = Date.now();
   let usageRecord = null;
 
   try {
-    const model = genAI.getGenerativeModel({ model: GEMINI_MODEL });
+    const provider = req.llm;
     const user = req.user;
     const firmId = user.firmId._id || user.firmId;
 
@@ -880,7 +1039,7 @@ router.post('/chat', auth, aiLimiter, async (req, res) => {
       queryType: 'chat',
       privacy,
       metadata: {
-        model: GEMINI_MODEL,
+        model: modelLabel(provider),
         endpoint: '/api/ai/chat',
         userAgent: req.headers['user-agent']
       }
@@ -912,9 +1071,7 @@ router.post('/chat', auth, aiLimiter, async (req, res) => {
 
     contents.push({ role: 'user', parts: [{ text: prompt }] });
 
-    const result = await model.generateContent({ contents });
-    const response = await result.response;
-    const text = response.text();
+    const { text, usage } = await provider.generate({ contents });
 
     // Calculate response time
     const responseTime = Date.now() - startTime;
@@ -922,6 +1079,7 @@ router.post('/chat', auth, aiLimiter, async (req, res) => {
     // Update usage record
     usageRecord.response = text.substring(0, 500); // Store truncated response
     usageRecord.responseTime = responseTime;
+    aiQuotaService.applyUsage(usageRecord, usage);
     usageRecord.status = 'success';
     await usageRecord.save();
 
@@ -938,7 +1096,7 @@ router.post('/chat', auth, aiLimiter, async (req, res) => {
 
     res.json({ response: text });
   } catch (error) {
-    console.error('Error with Gemini API:', error);
+    console.error('Error with AI API:', error);
     
     // Log error in usage record
     if (usageRecord) {
@@ -953,7 +1111,7 @@ router.post('/chat', auth, aiLimiter, async (req, res) => {
 });
 
 // Streaming endpoint with function calling support
-router.post('/chat/stream', auth, aiLimiter, upload.array('attachments'), async (req, res) => {
+router.post('/chat/stream', auth, aiLimiter, upload.array('attachments'), withProvider, withQuota, async (req, res) => {
   // Allow both JSON and multipart/form-data
   const privacy = (req.body.privacy === 'true' || req.body.privacy === true);
   const prompt = req.body.prompt || (req.body && req.body.text);
@@ -962,22 +1120,14 @@ router.post('/chat/stream', auth, aiLimiter, upload.array('attachments'), async
     return res.status(400).json({ message: 'Prompt is required' });
   }
 
-  if (!isConfigured()) {
-    return res.status(503).json({ 
-      message: 'AI service is not configured. Please set up GEMINI_API_KEY in environment variables.' 
-    });
-  }
-
   const startTime = Date.now();
   let usageRecord = null;
   const functionsCalled = [];
+  // Token counts summed across every model turn of the function calling loop
+  const usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
 
   try {
-    // Initialize model with function calling
-    const model = genAI.getGenerativeModel({ 
-      model: GEMINI_MODEL,
-      tools: [{ functionDeclarations }]
-    });
+    const provider = req.llm;
     const user = req.user;
     const firmId = user.firmId._id || user.firmId;
 
@@ -989,7 +1139,7 @@ router.post('/chat/stream', auth, aiLimiter, upload.array('attachments'), async
       queryType: 'chat',
       privacy,
       metadata: {
-        model: GEMINI_MODEL,
+        model: modelLabel(provider),
         endpoint: '/api/ai/chat/stream',
         userAgent: req.headers['user-agent']
       }
@@ -1055,13 +1205,22 @@ router.post('/chat/stream', auth, aiLimiter, upload.array('attachments'), async
     while (iteration < maxIterations) {
       iteration++;
       
-      const result = await model.generateContent({ contents });
-      const response = result.response;
-      
-      // Check if there are function calls
-      const functionCalls = response.functionCalls();
+      // Stream text as it arrives; function calls are collected for this turn
+      const functionCalls = [];
+      for await (const event of provider.stream({ contents, tools: functionDeclarations })) {
+        if (event.text) {
+          fullText += event.text;
+          res.write(event.text);
+        }
+        if (event.functionCalls) functionCalls.push(...event.functionCalls);
+        if (event.usage) {
+          usage.promptTokens += event.usage.promptTokens;
+          usage.completionTokens += event.usage.completionTokens;
+          usage.totalTokens += event.usage.totalTokens;
+        }
+      }
       
-      if (functionCalls && functionCalls.length > 0) {
+      if (functionCalls.length > 0) {
         console.log(`🔧 AI wants to call ${functionCalls.length} function(s)`);
         
         // Execute all function calls
@@ -1080,8 +1239,11 @@ router.post('/chat/stream', auth, aiLimiter, upload.array('attachments'), async
             timestamp: new Date()
           });
           
-          // Stream a notification to user that function was called
-          const notification = `\n\n[🔍 Called function: ${fc.name}]\n\n`;
+          // Stream a notification to user that function was called; proposals
+          // go out as an action card the chatbox renders with confirm/cancel
+          const notification = functionResult.requiresConfirmation
+            ? `\n\n[[ACTION:${JSON.stringify(functionResult.action)}]]\n\n`
+            : `\n\n[🔍 Called function: ${fc.name}]\n\n`;
           res.write(notification);
           fullText += notification;
         }
@@ -1106,14 +1268,7 @@ router.post('/chat/stream', auth, aiLimiter, upload.array('attachments'), async
         continue;
       }
       
-      // No function calls, stream the text response
-      const text = response.text();
-      if (text) {
-        fullText += text;
-        res.write(text);
-      }
-      
-      break; // Exit loop after getting final text response
+      break; // Exit loop once the model answers without calling functions
     }
 
     res.end();
@@ -1122,6 +1277,7 @@ router.post('/chat/stream', auth, aiLimiter, upload.array('attachments'), async
     const responseTime = Date.now() - startTime;
     usageRecord.response = fullText.substring(0, 500); // Store truncated response
     usageRecord.responseTime = responseTime;
+    aiQuotaService.applyUsage(usageRecord, usage);
     usageRecord.status = 'success';
     usageRecord.functionsCalled = functionsCalled;
     await usageRecord.save();
@@ -1143,13 +1299,14 @@ router.post('/chat/stream', auth, aiLimiter, upload.array('attachments'), async
     }
 
   } catch (error) {
-    console.error('Error with Gemini streaming API:', error);
+    console.error('Error with AI streaming API:', error);
     
     // Log error in usage record
     if (usageRecord) {
       usageRecord.status = 'error';
       usageRecord.errorMessage = error.message;
       usageRecord.responseTime = Date.now() - startTime;
+      aiQuotaService.applyUsage(usageRecord, usage);
       usageRecord.functionsCalled = functionsCalled;
       await usageRecord.save().catch(err => console.error('Failed to save error usage record:', err));
     }
@@ -1163,13 +1320,147 @@ router.post('/chat/stream', auth, aiLimiter, upload.array('attachments'), async
   }
 });
 
-router.post('/summary', auth, aiLimiter, async (req, res) => {
-  if (!isConfigured()) {
-    return res.status(503).json({ 
-      message: 'AI service is not configured. Please set up GEMINI_API_KEY in environment variables.' 
+// @desc    Get the firm's AI provider settings (the API key is never returned)
+// @route   GET /api/ai/provider
+// @access  Private (Owner/Admin)
+router.get('/provider', auth, requirePermission('ai.configure'), async (req, res) => {
+  try {
+    const config = await llmService.getPublicConfig(req.user.firmId?._id || req.user.firmId);
+    res.json({
+      success: true,
+      data: config
+    });
+  } catch (error) {
+    console.error('Get AI provider error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error.message
+    });
+  }
+});
+
+// @desc    Update the firm's AI provider settings
+// @route   PUT /api/ai/provider
+// @access  Private (Owner/Admin)
+router.put('/provider', auth, requirePermission('ai.configure'), async (req, res) => {
+  try {
+    const { provider, model, baseUrl, apiKey } = req.body;
+    const config = await llmService.updateConfig(req.user.firmId?._id || req.user.firmId, req.user._id, {
+      provider,
+      model,
+      baseUrl,
+      apiKey
+    });
+
+    res.json({
+      success: true,
+      message: 'AI provider updated',
+      data: config
+    });
+  } catch (error) {
+    if (error.statusCode) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message
+      });
+    }
+    console.error('Update AI provider error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error.message
     });
   }
+});
 
+// @desc    Send a test prompt through the firm's AI provider
+// @route   POST /api/ai/provider/test
+// @access  Private (Owner/Admin)
+router.post('/provider/test', auth, requirePermission('ai.configure'), aiLimiter, async (req, res) => {
+  try {
+    const result = await llmService.testProvider(req.user.firmId?._id || req.user.firmId);
+    res.json({
+      success: true,
+      message: `${result.provider} responded in ${result.responseTime} ms`,
+      data: result
+    });
+  } catch (error) {
+    if (error.statusCode) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message
+      });
+    }
+    console.error('Test AI provider error:', error);
+    res.status(502).json({
+      success: false,
+      message: `Provider request failed: ${error.message}`
+    });
+  }
+});
+
+// @desc    Confirm and run an action proposed by the assistant
+// @route   POST /api/ai/actions/:id/confirm
+// @access  Private (Staff)
+router.post('/actions/:id/confirm', auth, async (req, res) => {
+  try {
+    const action = await aiActionService.confirm(req.params.id, req.user, {
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent'],
+      taskWS: req.app.get('taskWS')
+    });
+
+    res.json({
+      success: true,
+      message: action.result.message,
+      data: action
+    });
+  } catch (error) {
+    if (error.statusCode) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message
+      });
+    }
+    console.error('Confirm AI action error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error.message
+    });
+  }
+});
+
+// @desc    Cancel an action proposed by the assistant
+// @route   POST /api/ai/actions/:id/cancel
+// @access  Private (Staff)
+router.post('/actions/:id/cancel', auth, async (req, res) => {
+  try {
+    const action = await aiActionService.cancel(req.params.id, req.user);
+
+    res.json({
+      success: true,
+      message: 'Action cancelled',
+      data: action
+    });
+  } catch (error) {
+    if (error.statusCode) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message
+      });
+    }
+    console.error('Cancel AI action error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error.message
+    });
+  }
+});
+
+router.post('/summary', auth, aiLimiter, withProvider, withQuota, async (req, res) => {
   try {
     const firmId = req.user.firmId._id;
     
@@ -1209,10 +1500,26 @@ router.post('/summary', auth, aiLimiter, async (req, res) => {
     const prompt = `Generate a business summary for a CA firm based on this data: ${JSON.stringify(dataOverview)}. 
     Focus on key insights, trends, and actionable recommendations. Keep it concise but informative.`;
 
-  const model = genAI.getGenerativeModel({ model: GEMINI_MODEL });
-    const result = await model.generateContent(prompt);
-    const response = await result.response;
-    const text = response.text();
+    const startTime = Date.now();
+    const { text, usage } = await req.llm.generate({ contents: [{ role: 'user', parts: [{ text: prompt }] }] });
+
+    // Summaries count towards the firm's AI quota like chat requests
+    const usageRecord = new AIUsage({
+      user: req.user._id,
+      firm: firmId,
+      query: 'Business summary',
+      queryType: 'summary',
+      response: text.substring(0, 500),
+      responseTime: Date.now() - startTime,
+      status: 'success',
+      metadata: {
+        model: modelLabel(req.llm),
+        endpoint: '/api/ai/summary',
+        userAgent: req.headers['user-agent']
+      }
+    });
+    aiQuotaService.applyUsage(usageRecord, usage);
+    await usageRecord.save();
 
     res.json({ 
       success: true, 
@@ -1258,6 +1565,26 @@ router.delete('/history', auth, async (req, res) => {
   }
 });
 
+// @desc    Get the current user's AI quota for this month
+// @route   GET /api/ai/quota
+// @access  Private
+router.get('/quota', auth, async (req, res) => {
+  try {
+    const quota = await aiQuotaService.getQuotaStatus(req.user);
+    res.json({
+      success: true,
+      data: quota
+    });
+  } catch (error) {
+    console.error('Get AI quota error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error.message
+    });
+  }
+});
+
 // @desc    Get AI usage analytics
 // @route   GET /api/ai/analytics
 // @access  Private (Owner/Admin)
@@ -1266,11 +1593,10 @@ router.get('/analytics', auth, async (req, res) => {
     const { timeRange = '30days', userRole } = req.query;
     const firmId = req.user.firmId._id || req.user.firmId;
 
-    // Only owners and admins can view analytics
-    if (!['owner', 'superadmin', 'admin'].includes(req.user.role)) {
+    if (!req.can('report.analytics')) {
       return res.status(403).json({ 
         success: false, 
-        message: 'Access denied. Only owners and admins can view AI analytics.' 
+        message: 'Access denied. Missing permission: report.analytics' 
       });
     }
 
@@ -1306,6 +1632,9 @@ router.get('/analytics', auth, async (req, res) => {
       .populate('user', 'fullName email role')
       .sort({ createdAt: -1 });
 
+    // This month's quota consumption and spend, independent of timeRange
+    const quota = await aiQuotaService.getFirmSummary(firmId);
+
     // Calculate statistics
     const totalQueries = allUsage.length;
     const successfulQueries = allUsage.filter(u => u.status === 'success').length;
@@ -1425,7 +1754,8 @@ router.get('/analytics', auth, async (req, res) => {
         usageOverTime,
         topUsers,
         queryTypes,
-        topFunctions
+        topFunctions,
+        quota
       }
     });
 
@@ -1442,7 +1772,7 @@ router.get('/analytics', auth, async (req, res) => {
 // @desc    AI chat response in room context (@AI mentions)
 // @route   POST /api/ai/chat/room
 // @access  Private
-router.post('/chat/room', auth, aiLimiter, async (req, res) => {
+router.post('/chat/room', auth, aiLimiter, withProvider, withQuota, async (req, res) => {
   const { roomId, message, taskId } = req.body;
 
   if (!message || !roomId) {
@@ -1452,18 +1782,11 @@ router.post('/chat/room', auth, aiLimiter, async (req, res) => {
     });
   }
 
-  if (!isConfigured()) {
-    return res.status(503).json({ 
-      success: false,
-      message: 'AI service is not configured. Please set up GEMINI_API_KEY in environment variables.' 
-    });
-  }
-
   const startTime = Date.now();
   let usageRecord = null;
 
   try {
-    const model = genAI.getGenerativeModel({ model: GEMINI_MODEL });
+    const provider = req.llm;
     const user = req.user;
     const firmId = user.firmId._id || user.firmId;
 
@@ -1475,7 +1798,7 @@ router.post('/chat/room', auth, aiLimiter, async (req, res) => {
       queryType: 'chat',
       privacy: false,
       metadata: {
-        model: GEMINI_MODEL,
+        model: modelLabel(provider),
         endpoint: '/api/ai/chat/room',
         userAgent: req.headers['user-agent'],
         roomId,
@@ -1534,7 +1857,7 @@ router.post('/chat/room', auth, aiLimiter, async (req, res) => {
       contextParts.push(`\nRECENT CHAT HISTORY:\n${chatHistory}`);
     }
 
-    // Build Gemini contents
+    // Build provider contents
     let contents = [];
     
     // Add context as initial message
@@ -1555,9 +1878,7 @@ router.post('/chat/room', auth, aiLimiter, async (req, res) => {
     });
 
     // Generate response
-    const result = await model.generateContent({ contents });
-    const response = await result.response;
-    const aiResponse = response.text();
+    const { text: aiResponse, usage } = await provider.generate({ contents });
 
     // Calculate response time
     const responseTime = Date.now() - startTime;
@@ -1565,6 +1886,7 @@ router.post('/chat/room', auth, aiLimiter, async (req, res) => {
     // Update usage record
     usageRecord.response = aiResponse.substring(0, 500);
     usageRecord.responseTime = responseTime;
+    aiQuotaService.applyUsage(usageRecord, usage);
     usageRecord.status = 'success';
     await usageRecord.save();
 
@@ -1,6 +1,6 @@
 import express from 'express';
 import auth from '../middleware/auth.js';
-import { requireOwnerOrAdmin } from '../middleware/authorize.js';
+import { requirePermission } from '../middleware/authorize.js';
 import AuditLog from '../models/AuditLog.js';
 import auditLogger from '../utils/auditLogger.js';
 
@@ -9,7 +9,7 @@ const router = express.Router();
 // @route   GET /api/audit-logs
 // @desc    Get audit logs with pagination and filters
 // @access  Private (Owner/Admin only)
-router.get('/', auth, requireOwnerOrAdmin, async (req, res) => {
+router.get('/', auth, requirePermission('audit.view'), async (req, res) => {
   try {
     const firmId = req.user.firmId;
     const {
@@ -70,7 +70,7 @@ router.get('/', auth, requireOwnerOrAdmin, async (req, res) => {
 // @route   GET /api/audit-logs/critical
 // @desc    Get critical audit logs (high and critical severity)
 // @access  Private (Owner/Admin only)
-router.get('/critical', auth, requireOwnerOrAdmin, async (req, res) => {
+router.get('/critical', auth, requirePermission('audit.view'), async (req, res) => {
   try {
     const firmId = req.user.firmId;
     const limit = parseInt(req.query.limit) || 50;
@@ -90,7 +90,7 @@ router.get('/critical', auth, requireOwnerOrAdmin, async (req, res) => {
 // @route   GET /api/audit-logs/stats
 // @desc    Get audit log statistics
 // @access  Private (Owner/Admin only)
-router.get('/stats', auth, requireOwnerOrAdmin, async (req, res) => {
+router.get('/stats', auth, requirePermission('audit.view'), async (req, res) => {
   try {
     const firmId = req.user.firmId;
     const { days = 30 } = req.query;
@@ -144,7 +144,7 @@ router.get('/stats', auth, requireOwnerOrAdmin, async (req, res) => {
 // @route   GET /api/audit-logs/:id
 // @desc    Get single audit log by ID
 // @access  Private (Owner/Admin only)
-router.get('/:id', auth, requireOwnerOrAdmin, async (req, res) => {
+router.get('/:id', auth, requirePermission('audit.view'), async (req, res) => {
   try {
     const firmId = req.user.firmId;
     const log = await AuditLog.findOne({ _id: req.params.id, firm: firmId })
@@ -1,19 +1,42 @@
 import express from 'express';
 import auth from '../middleware/auth.js';
-import { requireOwnerOrAdmin } from '../middleware/authorize.js';
+import { requirePermission } from '../middleware/authorize.js';
 import RecurrencePattern from '../models/RecurrencePattern.js';
 import Task from '../models/Task.js';
 import TaskTemplate from '../models/TaskTemplate.js';
 import Settings from '../models/Settings.js';
 import automationScheduler from '../services/automationScheduler.js';
 import recurringTaskService from '../services/recurringTaskService.js';
+import EscalationRule from '../models/EscalationRule.js';
+import escalationService from '../services/escalationService.js';
 
 const router = express.Router();
 
+const ESCALATION_RULE_FIELDS = ['name', 'trigger', 'thresholdHours', 'priorities', 'notify', 'raisePriority', 'isActive'];
+
+const pickRuleFields = (body) => Object.fromEntries(
+  ESCALATION_RULE_FIELDS.filter(key => body[key] !== undefined).map(key => [key, body[key]])
+);
+
+const sendRuleError = (res, error, context) => {
+  if (error.name === 'ValidationError' || error.name === 'CastError') {
+    return res.status(400).json({
+      success: false,
+      message: error.message
+    });
+  }
+  console.error(`${context}:`, error);
+  return res.status(500).json({
+    success: false,
+    message: 'Server error',
+    error: error.message
+  });
+};
+
 // @desc    Get automation settings
 // @route   GET /api/automation/settings
 // @access  Private (Owner/Admin)
-router.get('/settings', auth, requireOwnerOrAdmin, async (req, res) => {
+router.get('/settings', auth, requirePermission('automation.manage'), async (req, res) => {
   try {
     const firmId = req.user.firmId;
     const settings = await Settings.findOne({ firm: firmId });
@@ -41,7 +64,7 @@ router.get('/settings', auth, requireOwnerOrAdmin, async (req, res) => {
 // @desc    Update automation settings
 // @route   PUT /api/automation/settings
 // @access  Private (Owner/Admin)
-router.put('/settings', auth, requireOwnerOrAdmin, async (req, res) => {
+router.put('/settings', auth, requirePermission('automation.manage'), async (req, res) => {
   try {
     const firmId = req.user.firmId;
     const { enabled, autoRunTime, emailNotifications, taskGeneration } = req.body;
@@ -142,7 +165,7 @@ router.get('/schedules', auth, async (req, res) => {
 // @desc    Toggle schedule active status
 // @route   PUT /api/automation/schedules/:id/toggle
 // @access  Private (Owner/Admin)
-router.put('/schedules/:id/toggle', auth, requireOwnerOrAdmin, async (req, res) => {
+router.put('/schedules/:id/toggle', auth, requirePermission('automation.manage'), async (req, res) => {
   try {
     const { id } = req.params;
     const firmId = req.user.firmId;
@@ -175,7 +198,7 @@ router.put('/schedules/:id/toggle', auth, requireOwnerOrAdmin, async (req, res)
 // @desc    Generate recurring tasks now
 // @route   POST /api/automation/generate
 // @access  Private (Owner/Admin)
-router.post('/generate', auth, requireOwnerOrAdmin, async (req, res) => {
+router.post('/generate', auth, requirePermission('automation.manage'), async (req, res) => {
   try {
     const firmId = req.user.firmId;
     
@@ -248,7 +271,7 @@ router.get('/stats', auth, async (req, res) => {
 // @desc    Get scheduler status
 // @route   GET /api/automation/scheduler-status
 // @access  Private (Owner/Admin)
-router.get('/scheduler-status', auth, requireOwnerOrAdmin, async (req, res) => {
+router.get('/scheduler-status', auth, requirePermission('automation.manage'), async (req, res) => {
   try {
     const status = automationScheduler.getStatus();
     const recurringStatus = recurringTaskService.getStatus();
@@ -256,7 +279,8 @@ router.get('/scheduler-status', auth, requireOwnerOrAdmin, async (req, res) => {
       success: true,
       data: {
         templateScheduler: status,
-        recurringTaskService: recurringStatus
+        recurringTaskService: recurringStatus,
+        escalationService: escalationService.getStatus()
       }
     });
   } catch (error) {
@@ -271,7 +295,7 @@ router.get('/scheduler-status', auth, requireOwnerOrAdmin, async (req, res) => {
 // @desc    Manually trigger recurring task generation (for testing)
 // @route   POST /api/automation/generate-recurring
 // @access  Private (Owner/Admin)
-router.post('/generate-recurring', auth, requireOwnerOrAdmin, async (req, res) => {
+router.post('/generate-recurring', auth, requirePermission('automation.manage'), async (req, res) => {
   try {
     console.log('🔄 Manually triggering recurring task generation...');
     const result = await recurringTaskService.checkAndGenerateRecurringTasks();
@@ -299,4 +323,108 @@ router.post('/generate-recurring', auth, requireOwnerOrAdmin, async (req, res) =
   }
 });
 
-export default router;
\ No newline at end of file
+// @desc    Get escalation rules
+// @route   GET /api/automation/escalation-rules
+// @access  Private (automation.manage)
+router.get('/escalation-rules', auth, requirePermission('automation.manage'), async (req, res) => {
+  try {
+    const rules = await EscalationRule.find({ firm: req.user.firmId })
+      .populate('createdBy', 'fullName')
+      .sort({ createdAt: 1 });
+
+    res.json({
+      success: true,
+      data: rules
+    });
+  } catch (error) {
+    sendRuleError(res, error, 'Error fetching escalation rules');
+  }
+});
+
+// @desc    Create escalation rule
+// @route   POST /api/automation/escalation-rules
+// @access  Private (automation.manage)
+router.post('/escalation-rules', auth, requirePermission('automation.manage'), async (req, res) => {
+  try {
+    const rule = await EscalationRule.create({
+      ...pickRuleFields(req.body),
+      firm: req.user.firmId,
+      createdBy: req.user._id
+    });
+
+    res.status(201).json({
+      success: true,
+      data: rule,
+      message: 'Escalation rule created'
+    });
+  } catch (error) {
+    sendRuleError(res, error, 'Error creating escalation rule');
+  }
+});
+
+// @desc    Update escalation rule
+// @route   PUT /api/automation/escalation-rules/:id
+// @access  Private (automation.manage)
+router.put('/escalation-rules/:id', auth, requirePermission('automation.manage'), async (req, res) => {
+  try {
+    const rule = await EscalationRule.findOne({ _id: req.params.id, firm: req.user.firmId });
+    if (!rule) {
+      return res.status(404).json({
+        success: false,
+        message: 'Escalation rule not found'
+      });
+    }
+
+    rule.set(pickRuleFields(req.body));
+    await rule.save();
+
+    res.json({
+      success: true,
+      data: rule,
+      message: 'Escalation rule updated'
+    });
+  } catch (error) {
+    sendRuleError(res, error, 'Error updating escalation rule');
+  }
+});
+
+// @desc    Delete escalation rule
+// @route   DELETE /api/automation/escalation-rules/:id
+// @access  Private (automation.manage)
+router.delete('/escalation-rules/:id', auth, requirePermission('automation.manage'), async (req, res) => {
+  try {
+    const rule = await EscalationRule.findOneAndDelete({ _id: req.params.id, firm: req.user.firmId });
+    if (!rule) {
+      return res.status(404).json({
+        success: false,
+        message: 'Escalation rule not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Escalation rule deleted'
+    });
+  } catch (error) {
+    sendRuleError(res, error, 'Error deleting escalation rule');
+  }
+});
+
+// @desc    Evaluate the firm's escalation rules now
+// @route   POST /api/automation/escalation-rules/run
+// @access  Private (automation.manage)
+router.post('/escalation-rules/run', auth, requirePermission('automation.manage'), async (req, res) => {
+  try {
+    const summary = await escalationService.runForFirm(req.user.firmId?._id || req.user.firmId);
+
+    res.json({
+      success: true,
+      data: summary,
+      message: `Escalated ${summary.escalated} task(s)`
+    });
+  } catch (error) {
+    sendRuleError(res, error, 'Error running escalation rules');
+  }
+});
+
+export default router;
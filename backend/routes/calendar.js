@@ -0,0 +1,416 @@
+import express from 'express';
+import { body, validationResult } from 'express-validator';
+import auth from '../middleware/auth.js';
+import CalendarEvent from '../models/CalendarEvent.js';
+import Task from '../models/Task.js';
+import Invoice from '../models/Invoice.js';
+import Client from '../models/Client.js';
+import User from '../models/User.js';
+
+const router = express.Router();
+
+const isObjectId = (value) => typeof value === 'string' && /^[0-9a-fA-F]{24}$/.test(value);
+
+// Resolve the requested window, defaulting to the current month
+const getDateRange = (start, end) => {
+  const now = new Date();
+  const rangeStart = start ? new Date(start) : new Date(now.getFullYear(), now.getMonth(), 1);
+  const rangeEnd = end ? new Date(end) : new Date(now.getFullYear(), now.getMonth() + 1, 0, 23, 59, 59, 999);
+  return { rangeStart, rangeEnd };
+};
+
+const inRange = (date, rangeStart, rangeEnd) => date && date >= rangeStart && date <= rangeEnd;
+
+const clientRef = (client) => client ? { _id: client._id, name: client.name } : null;
+
+// @desc    Get merged calendar items (events, task due dates, milestones, invoice due dates)
+// @route   GET /api/calendar
+// @access  Private
+router.get('/', auth, async (req, res) => {
+  try {
+    const { start, end, employee, client, sources } = req.query;
+    const { rangeStart, rangeEnd } = getDateRange(start, end);
+
+    if (isNaN(rangeStart.getTime()) || isNaN(rangeEnd.getTime())) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid start or end date'
+      });
+    }
+
+    const firmId = req.user.firmId?._id || req.user.firmId;
+    const isEmployee = req.user.role === 'employee';
+    const canSeeInvoices = req.can('invoice.send');
+    const requested = sources ? String(sources).split(',') : ['event', 'task', 'milestone', 'invoice'];
+
+    // Employees only ever see their own work; others may filter by employee
+    const employeeId = isEmployee ? req.user._id : (isObjectId(employee) ? employee : null);
+    const clientId = isObjectId(client) ? client : null;
+
+    const items = [];
+
+    // ---- User-created events ----
+    if (requested.includes('event')) {
+      const eventFilter = {
+        firm: firmId,
+        startDate: { $lte: rangeEnd },
+        $or: [
+          { endDate: { $gte: rangeStart } },
+          { startDate: { $gte: rangeStart } }
+        ]
+      };
+      if (clientId) eventFilter.client = clientId;
+      if (employeeId) {
+        eventFilter.$and = [{ $or: [{ attendees: employeeId }, { createdBy: employeeId }] }];
+      }
+
+      const events = await CalendarEvent.find(eventFilter)
+        .populate('client', 'name')
+        .populate('attendees', 'fullName email')
+        .populate('createdBy', 'fullName email')
+        .lean();
+
+      events.forEach(event => {
+        items.push({
+          id: `event-${event._id}`,
+          source: 'event',
+          type: event.type,
+          title: event.title,
+          description: event.description,
+          start: event.startDate,
+          end: event.endDate,
+          allDay: event.allDay,
+          location: event.location,
+          client: clientRef(event.client),
+          attendees: event.attendees,
+          createdBy: event.createdBy,
+          link: event.task ? { entityType: 'Task', entityId: event.task } : null
+        });
+      });
+    }
+
+    // ---- Task due dates and milestones ----
+    if (requested.includes('task') || requested.includes('milestone')) {
+      const taskFilter = {
+        firm: firmId,
+        isArchived: { $ne: true },
+        status: { $ne: 'cancelled' },
+        $or: [
+          { dueDate: { $gte: rangeStart, $lte: rangeEnd } },
+          { 'milestones.dueDate': { $gte: rangeStart, $lte: rangeEnd } }
+        ]
+      };
+      if (clientId) taskFilter.client = clientId;
+      if (employeeId) {
+        taskFilter.$and = [{ $or: [{ assignedTo: employeeId }, { collaborators: employeeId }] }];
+      }
+
+      const tasks = await Task.find(taskFilter)
+        .select('title taskId status priority category dueDate milestones assignedTo client')
+        .populate('assignedTo', 'fullName email')
+        .populate('client', 'name')
+        .lean();
+
+      tasks.forEach(task => {
+        const link = { entityType: 'Task', entityId: task._id };
+
+        if (requested.includes('task') && inRange(task.dueDate, rangeStart, rangeEnd)) {
+          items.push({
+            id: `task-${task._id}`,
+            source: 'task',
+            type: 'deadline',
+            title: task.title,
+            reference: task.taskId,
+            start: task.dueDate,
+            end: task.dueDate,
+            allDay: true,
+            status: task.status,
+            priority: task.priority,
+            category: task.category,
+            client: clientRef(task.client),
+            assignee: task.assignedTo || null,
+            link
+          });
+        }
+
+        if (requested.includes('milestone')) {
+          (task.milestones || []).forEach(milestone => {
+            if (!inRange(milestone.dueDate, rangeStart, rangeEnd)) return;
+            items.push({
+              id: `milestone-${task._id}-${milestone._id}`,
+              source: 'milestone',
+              type: 'deadline',
+              title: `${milestone.title} (${task.title})`,
+              start: milestone.dueDate,
+              end: milestone.dueDate,
+              allDay: true,
+              status: milestone.completed ? 'completed' : task.status,
+              client: clientRef(task.client),
+              assignee: task.assignedTo || null,
+              link
+            });
+          });
+        }
+      });
+    }
+
+    // ---- Invoice due dates ----
+    if (requested.includes('invoice') && canSeeInvoices) {
+      const invoiceFilter = {
+        firm: firmId,
+        type: { $in: ['invoice', 'proforma'] },
+        status: { $nin: ['paid', 'cancelled'] },
+        dueDate: { $gte: rangeStart, $lte: rangeEnd }
+      };
+      if (clientId) invoiceFilter.client = clientId;
+      if (employeeId) invoiceFilter.createdBy = employeeId;
+
+      const invoices = await Invoice.find(invoiceFilter)
+        .select('invoiceNumber status dueDate totalAmount balanceAmount client')
+        .populate('client', 'name')
+        .lean();
+
+      invoices.forEach(invoice => {
+        items.push({
+          id: `invoice-${invoice._id}`,
+          source: 'invoice',
+          type: 'deadline',
+          title: invoice.invoiceNumber ? `Invoice ${invoice.invoiceNumber} due` : 'Invoice due',
+          reference: invoice.invoiceNumber,
+          start: invoice.dueDate,
+          end: invoice.dueDate,
+          allDay: true,
+          status: invoice.status,
+          amount: invoice.balanceAmount ?? invoice.totalAmount,
+          client: clientRef(invoice.client),
+          link: { entityType: 'Invoice', entityId: invoice._id }
+        });
+      });
+    }
+
+    items.sort((a, b) => new Date(a.start) - new Date(b.start));
+
+    res.json({
+      success: true,
+      data: {
+        items,
+        range: { start: rangeStart, end: rangeEnd }
+      }
+    });
+  } catch (error) {
+    console.error('Get calendar error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error.message
+    });
+  }
+});
+
+const eventValidators = [
+  body('title').trim().notEmpty().withMessage('Event title is required'),
+  body('startDate').isISO8601().withMessage('Valid start date is required'),
+  body('endDate').optional({ nullable: true }).isISO8601().withMessage('Invalid end date'),
+  body('type').optional().isIn(['meeting', 'deadline', 'internal', 'other']).withMessage('Invalid event type')
+];
+
+const pickEventFields = (payload) => {
+  const { title, description, type, startDate, endDate, allDay, location, client, task, attendees } = payload;
+  const data = { title, description, type, startDate, endDate, allDay, location };
+  data.client = isObjectId(client) ? client : undefined;
+  data.task = isObjectId(task) ? task : undefined;
+  if (Array.isArray(attendees)) {
+    data.attendees = attendees.filter(isObjectId);
+  }
+  Object.keys(data).forEach(key => data[key] === undefined && delete data[key]);
+  return data;
+};
+
+// Linked clients, tasks and attendees must belong to the event's firm
+const findInvalidReference = async (data, firmId) => {
+  if (data.client && !(await Client.exists({ _id: data.client, firmId }))) {
+    return 'Client not found';
+  }
+  if (data.task && !(await Task.exists({ _id: data.task, firm: firmId }))) {
+    return 'Task not found';
+  }
+  if (data.attendees?.length) {
+    const found = await User.countDocuments({ _id: { $in: data.attendees }, firmId });
+    if (found !== new Set(data.attendees).size) {
+      return 'One or more attendees were not found';
+    }
+  }
+  return null;
+};
+
+// @desc    Create calendar event
+// @route   POST /api/calendar/events
+// @access  Private
+router.post('/events', auth, eventValidators, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation errors',
+        errors: errors.array()
+      });
+    }
+
+    const firmId = req.user.firmId?._id || req.user.firmId;
+    const data = pickEventFields(req.body);
+    const referenceError = await findInvalidReference(data, firmId);
+    if (referenceError) {
+      return res.status(400).json({
+        success: false,
+        message: referenceError
+      });
+    }
+
+    const event = await CalendarEvent.create({
+      ...data,
+      firm: firmId,
+      createdBy: req.user._id
+    });
+
+    await event.populate([
+      { path: 'client', select: 'name' },
+      { path: 'attendees', select: 'fullName email' }
+    ]);
+
+    res.status(201).json({
+      success: true,
+      message: 'Event created successfully',
+      data: { event }
+    });
+  } catch (error) {
+    console.error('Create calendar event error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error.message
+    });
+  }
+});
+
+// @desc    Update calendar event
+// @route   PUT /api/calendar/events/:id
+// @access  Private
+router.put('/events/:id', auth, eventValidators, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation errors',
+        errors: errors.array()
+      });
+    }
+
+    if (!isObjectId(req.params.id)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Event not found'
+      });
+    }
+
+    const event = await CalendarEvent.findOne({
+      _id: req.params.id,
+      firm: req.user.firmId?._id || req.user.firmId
+    });
+
+    if (!event) {
+      return res.status(404).json({
+        success: false,
+        message: 'Event not found'
+      });
+    }
+
+    const isCreator = event.createdBy.toString() === req.user._id.toString();
+    if (!isCreator && !req.can('task.manageAll')) {
+      return res.status(403).json({
+        success: false,
+        message: 'Not authorized to update this event'
+      });
+    }
+
+    const data = pickEventFields(req.body);
+    const referenceError = await findInvalidReference(data, event.firm);
+    if (referenceError) {
+      return res.status(400).json({
+        success: false,
+        message: referenceError
+      });
+    }
+
+    Object.assign(event, data);
+    await event.save();
+    await event.populate([
+      { path: 'client', select: 'name' },
+      { path: 'attendees', select: 'fullName email' }
+    ]);
+
+    res.json({
+      success: true,
+      message: 'Event updated successfully',
+      data: { event }
+    });
+  } catch (error) {
+    console.error('Update calendar event error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error.message
+    });
+  }
+});
+
+// @desc    Delete calendar event
+// @route   DELETE /api/calendar/events/:id
+// @access  Private
+router.delete('/events/:id', auth, async (req, res) => {
+  try {
+    if (!isObjectId(req.params.id)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Event not found'
+      });
+    }
+
+    const event = await CalendarEvent.findOne({
+      _id: req.params.id,
+      firm: req.user.firmId?._id || req.user.firmId
+    });
+
+    if (!event) {
+      return res.status(404).json({
+        success: false,
+        message: 'Event not found'
+      });
+    }
+
+    const isCreator = event.createdBy.toString() === req.user._id.toString();
+    if (!isCreator && !req.can('task.manageAll')) {
+      return res.status(403).json({
+        success: false,
+        message: 'Not authorized to delete this event'
+      });
+    }
+
+    await event.deleteOne();
+
+    res.json({
+      success: true,
+      message: 'Event deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete calendar event error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error.message
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,335 @@
+import express from 'express';
+import auth from '../middleware/auth.js';
+import authorize from '../middleware/authorize.js';
+import Invoice from '../models/Invoice.js';
+import NotificationService from '../services/notificationService.js';
+import { generateInvoicePdf, generatePaymentReceiptPdf } from '../utils/invoicePdf.js';
+import { getPortalClient } from '../utils/portalClient.js';
+
+const router = express.Router();
+
+// Issued invoices and credit notes, and quotations that were sent to the client
+const INVOICE_STATUSES = ['sent', 'paid', 'partially_paid', 'overdue', 'cancelled'];
+const QUOTE_TYPES = ['quotation', 'quote_sent'];
+const OPEN_QUOTE_STATUSES = ['sent', 'quote_sent'];
+const PAYABLE_STATUSES = ['sent', 'partially_paid', 'overdue'];
+
+const isObjectId = (value) => typeof value === 'string' && /^[0-9a-fA-F]{24}$/.test(value);
+
+// Fields the firm keeps to itself
+const HIDDEN_FIELDS = '-internalNotes -adminApproval -razorpay.signature';
+
+const visibleFilter = (client) => ({
+  client: client._id,
+  firm: client.firmId,
+  $or: [
+    { type: { $in: ['invoice', 'credit_note'] }, status: { $in: INVOICE_STATUSES } },
+    {
+      type: { $in: QUOTE_TYPES },
+      $or: [
+        { status: { $in: OPEN_QUOTE_STATUSES } },
+        { 'clientResponse.status': { $in: ['accepted', 'rejected'] } }
+      ]
+    }
+  ]
+});
+
+const isQuote = (invoice) => QUOTE_TYPES.includes(invoice.type);
+
+// Record the client's answer on an open quotation in one write, so a double
+// submit or an accept racing a reject cannot both go through. Null if answered.
+const claimQuoteResponse = (quote, status, clientResponse) => Invoice.findOneAndUpdate(
+  { _id: quote._id, status: { $in: OPEN_QUOTE_STATUSES }, 'clientResponse.status': null },
+  { $set: { status, clientResponse } },
+  { new: true, projection: HIDDEN_FIELDS }
+);
+
+const alreadyAnswered = (res) => res.status(400).json({
+  success: false,
+  message: 'This quotation has already been answered'
+});
+
+router.use(auth, authorize('client'));
+
+// Resolve the portal user's client record once for every route
+router.use(async (req, res, next) => {
+  try {
+    req.portalClient = await getPortalClient(req);
+    if (!req.portalClient) {
+      return res.status(404).json({
+        success: false,
+        message: 'No client account is linked to your login'
+      });
+    }
+    next();
+  } catch (error) {
+    console.error('Resolve portal client error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error.message
+    });
+  }
+});
+
+// A malformed id matches nothing, so it ends in the same 404 as an unknown one
+const findVisibleInvoice = (req) => Invoice.findOne({
+  _id: isObjectId(req.params.id) ? req.params.id : null,
+  ...visibleFilter(req.portalClient)
+});
+
+const notifyQuoteResponse = async (quote, req, accepted) => {
+  try {
+    await NotificationService.createNotification({
+      recipientId: quote.createdBy,
+      senderId: req.user._id,
+      type: 'quote_response',
+      title: `Quotation ${quote.invoiceNumber} ${accepted ? 'accepted' : 'rejected'}`,
+      message: `${req.portalClient.name} ${accepted ? 'accepted' : 'rejected'} quotation ${quote.invoiceNumber}${quote.clientResponse.reason ? `: ${quote.clientResponse.reason}` : ''}`,
+      relatedEntity: { entityType: 'Invoice', entityId: quote._id },
+      priority: accepted ? 'high' : 'medium',
+      metadata: { invoiceId: quote.clientResponse.invoice, amount: quote.totalAmount }
+    });
+  } catch (error) {
+    console.error('Error notifying staff about quotation response:', error);
+  }
+};
+
+// @desc    Get the client's invoices, credit notes and quotations with balances
+// @route   GET /api/client-portal/invoices
+// @access  Private (Client)
+router.get('/invoices', async (req, res) => {
+  try {
+    const invoices = await Invoice.find(visibleFilter(req.portalClient))
+      .select(HIDDEN_FIELDS)
+      .populate('firm', 'name')
+      .populate('creditNote.originalInvoice', 'invoiceNumber')
+      .sort({ issueDate: -1 });
+
+    const now = new Date();
+    const open = invoices.filter(invoice => invoice.type === 'invoice' && PAYABLE_STATUSES.includes(invoice.status));
+    const summary = {
+      outstanding: open.reduce((sum, invoice) => sum + invoice.balanceAmount, 0),
+      overdue: open
+        .filter(invoice => invoice.status === 'overdue' || invoice.dueDate < now)
+        .reduce((sum, invoice) => sum + invoice.balanceAmount, 0),
+      paid: invoices
+        .filter(invoice => invoice.type === 'invoice')
+        .reduce((sum, invoice) => sum + (invoice.paidAmount || 0), 0),
+      openQuotations: invoices.filter(invoice => isQuote(invoice) && OPEN_QUOTE_STATUSES.includes(invoice.status)).length
+    };
+
+    res.json({
+      success: true,
+      data: { invoices, summary }
+    });
+  } catch (error) {
+    console.error('Get portal invoices error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error.message
+    });
+  }
+});
+
+// @desc    Download an invoice, credit note or quotation as PDF
+// @route   GET /api/client-portal/invoices/:id/pdf
+// @access  Private (Client)
+router.get('/invoices/:id/pdf', async (req, res) => {
+  try {
+    const invoice = await findVisibleInvoice(req)
+      .select(HIDDEN_FIELDS)
+      .populate('client', 'name email address billingAddress gstNumber')
+      .populate('firm', 'name email address gstNumber bankDetails');
+
+    if (!invoice) {
+      return res.status(404).json({
+        success: false,
+        message: 'Invoice not found'
+      });
+    }
+
+    const pdf = await generateInvoicePdf(invoice, {
+      paymentLink: PAYABLE_STATUSES.includes(invoice.status) ? invoice.razorpayData?.shortUrl : undefined
+    });
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${invoice.invoiceNumber}.pdf"`);
+    res.send(pdf);
+  } catch (error) {
+    console.error('Download portal invoice error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error.message
+    });
+  }
+});
+
+// @desc    Download the receipt for a payment on an invoice
+// @route   GET /api/client-portal/invoices/:id/payments/:paymentId/receipt
+// @access  Private (Client)
+router.get('/invoices/:id/payments/:paymentId/receipt', async (req, res) => {
+  try {
+    const invoice = await findVisibleInvoice(req)
+      .populate('client', 'name email')
+      .populate('firm', 'name address gstNumber');
+    const payment = invoice?.payments.id(req.params.paymentId);
+
+    if (!payment) {
+      return res.status(404).json({
+        success: false,
+        message: 'Payment not found'
+      });
+    }
+
+    const pdf = await generatePaymentReceiptPdf(invoice, payment);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="Receipt-${invoice.invoiceNumber}.pdf"`);
+    res.send(pdf);
+  } catch (error) {
+    console.error('Download payment receipt error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error.message
+    });
+  }
+});
+
+// @desc    Accept a quotation; raises an invoice for it that the client can pay
+// @route   POST /api/client-portal/invoices/:id/accept
+// @access  Private (Client)
+router.post('/invoices/:id/accept', async (req, res) => {
+  try {
+    const quote = await findVisibleInvoice(req);
+
+    if (!quote || !isQuote(quote)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Quotation not found'
+      });
+    }
+
+    const claimed = await claimQuoteResponse(quote, 'approved', {
+      status: 'accepted',
+      respondedAt: new Date(),
+      respondedBy: req.user._id
+    });
+    if (!claimed) {
+      return alreadyAnswered(res);
+    }
+
+    const issueDate = new Date();
+    const dueDate = new Date(issueDate);
+    dueDate.setDate(dueDate.getDate() + (req.portalClient.paymentTerms ?? 30));
+
+    const invoice = new Invoice({
+      type: 'invoice',
+      status: 'sent',
+      client: quote.client,
+      firm: quote.firm,
+      createdBy: quote.createdBy,
+      issueDate,
+      dueDate,
+      items: quote.items.map(({ description, quantity, rate, amount, task, taxable, hsn, taxRate }) => ({
+        description, quantity, rate, amount, task, taxable, hsn, taxRate
+      })),
+      discount: { type: quote.discount.type, value: quote.discount.value },
+      subtotal: quote.subtotal,
+      totalAmount: quote.totalAmount,
+      gst: { applicable: quote.gst.applicable },
+      paymentTerms: `Net ${req.portalClient.paymentTerms ?? 30}`,
+      notes: quote.notes,
+      terms: quote.terms,
+      bankDetails: quote.bankDetails,
+      relatedTask: quote.relatedTask,
+      conversionTracking: {
+        convertedFromQuote: true,
+        originalQuoteId: quote._id,
+        convertedAt: issueDate,
+        convertedBy: req.user._id
+      }
+    });
+    try {
+      await invoice.save();
+    } catch (error) {
+      // Reopen the quotation so the client can accept it again
+      await Invoice.updateOne(
+        { _id: quote._id, 'clientResponse.status': 'accepted' },
+        { $set: { status: quote.status }, $unset: { clientResponse: 1 } }
+      );
+      throw error;
+    }
+
+    claimed.clientResponse.invoice = invoice._id;
+    await Invoice.updateOne({ _id: quote._id }, { $set: { 'clientResponse.invoice': invoice._id } });
+
+    await notifyQuoteResponse(claimed, req, true);
+
+    res.json({
+      success: true,
+      message: `Quotation accepted - invoice ${invoice.invoiceNumber} raised`,
+      data: { quotation: claimed, invoice }
+    });
+  } catch (error) {
+    console.error('Accept quotation error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error.message
+    });
+  }
+});
+
+// @desc    Reject a quotation
+// @route   POST /api/client-portal/invoices/:id/reject
+// @access  Private (Client)
+router.post('/invoices/:id/reject', async (req, res) => {
+  try {
+    if (req.body.reason != null && typeof req.body.reason !== 'string') {
+      return res.status(400).json({
+        success: false,
+        message: 'Reason must be text'
+      });
+    }
+
+    const quote = await findVisibleInvoice(req);
+
+    if (!quote || !isQuote(quote)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Quotation not found'
+      });
+    }
+
+    const claimed = await claimQuoteResponse(quote, 'rejected', {
+      status: 'rejected',
+      respondedAt: new Date(),
+      respondedBy: req.user._id,
+      reason: req.body.reason?.trim() || undefined
+    });
+    if (!claimed) {
+      return alreadyAnswered(res);
+    }
+
+    await notifyQuoteResponse(claimed, req, false);
+
+    res.json({
+      success: true,
+      message: 'Quotation rejected',
+      data: { quotation: claimed }
+    });
+  } catch (error) {
+    console.error('Reject quotation error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error.message
+    });
+  }
+});
+
+export default router;
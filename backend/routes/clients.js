@@ -1,10 +1,50 @@
 import express from 'express';
 import Client from '../models/Client.js';
 import auth from '../middleware/auth.js';
+import { requirePermission } from '../middleware/authorize.js';
+import { requireClientAccess } from '../middleware/clientAccess.js';
+import User from '../models/User.js';
+import Task from '../models/Task.js';
+import auditLogger from '../utils/auditLogger.js';
+import { isScopedToAssignedClients, assignedClientFilter } from '../utils/clientScope.js';
 import gstService from '../services/gstService.js';
+import Firm from '../models/Firm.js';
+import statementService from '../services/statementService.js';
+import emailService from '../services/emailService.js';
+import { generateStatementPdf, generateStatementExcel, statementFileName } from '../utils/statementExport.js';
 
 const router = express.Router();
 
+// Extra client query condition for employees, who only see assigned clients
+const scopeFor = (req) => (isScopedToAssignedClients(req.user) ? assignedClientFilter(req.user._id) : {});
+
+/**
+ * Partner and team changes need client.assign; others may not send them.
+ * Returns an error message when an assignment names someone outside the firm's staff.
+ */
+const applyAssignment = async (req, data) => {
+  if (!req.can('client.assign')) {
+    delete data.partner;
+    delete data.assignedTo;
+    return null;
+  }
+
+  if (data.partner === '') data.partner = null;
+  if (data.assignedTo !== undefined) {
+    data.assignedTo = [...new Set((Array.isArray(data.assignedTo) ? data.assignedTo : [data.assignedTo]).filter(Boolean).map(String))];
+  }
+
+  const userIds = [data.partner, ...(data.assignedTo || [])].filter(Boolean);
+  if (userIds.length === 0) return null;
+
+  const staffCount = await User.countDocuments({
+    _id: { $in: [...new Set(userIds.map(String))] },
+    firmId: req.user.firmId?._id || req.user.firmId,
+    role: { $in: ['owner', 'admin', 'employee'] }
+  });
+  return staffCount === new Set(userIds.map(String)).size ? null : 'Partner and team must be members of your firm';
+};
+
 // @desc    Get all clients
 // @route   GET /api/clients
 // @access  Private
@@ -32,10 +72,17 @@ router.get('/', auth, async (req, res) => {
       ];
     }
 
+    // Employees only see clients they are assigned to
+    if (isScopedToAssignedClients(req.user)) {
+      query.$and = [assignedClientFilter(req.user._id)];
+    }
+
     // Build base query
     let clientsQuery = Client.find(query)
       .populate('createdBy', 'name email')
       .populate('updatedBy', 'name email')
+      .populate('partner', 'fullName email')
+      .populate('assignedTo', 'fullName email')
       .sort({ createdAt: -1 });
 
     // Apply pagination only if limit is specified
@@ -81,10 +128,13 @@ router.get('/:id', auth, async (req, res) => {
     const client = await Client.findOne({
       _id: req.params.id,
       firmId: req.user.firmId,
-      isDeleted: false
+      isDeleted: false,
+      ...scopeFor(req)
     })
     .populate('createdBy', 'name email')
-    .populate('updatedBy', 'name email');
+    .populate('updatedBy', 'name email')
+    .populate('partner', 'fullName email')
+    .populate('assignedTo', 'fullName email');
 
     if (!client) {
       return res.status(404).json({
@@ -107,10 +157,143 @@ router.get('/:id', auth, async (req, res) => {
   }
 });
 
+const getFirmId = (req) => req.user.firmId?._id || req.user.firmId;
+
+const isStaff = (user) => user.role !== 'client';
+
+const sendStatementError = (res, error, label) => {
+  if (error.statusCode) {
+    return res.status(error.statusCode).json({
+      success: false,
+      message: error.message
+    });
+  }
+  console.error(`${label} error:`, error);
+  res.status(500).json({
+    success: false,
+    message: 'Server error',
+    error: error.message
+  });
+};
+
+// @desc    Get client statement of account
+// @route   GET /api/clients/:id/statement?from=&to=
+// @access  Private (Staff)
+router.get('/:id/statement', auth, requireClientAccess('id'), async (req, res) => {
+  try {
+    if (!isStaff(req.user)) {
+      return res.status(403).json({
+        success: false,
+        message: 'Access denied'
+      });
+    }
+
+    const statement = await statementService.buildStatement(getFirmId(req), req.params.id, req.query);
+
+    res.json({
+      success: true,
+      data: statement
+    });
+  } catch (error) {
+    sendStatementError(res, error, 'Get client statement');
+  }
+});
+
+// @desc    Download client statement as PDF or Excel
+// @route   GET /api/clients/:id/statement/export?format=pdf|xlsx&from=&to=
+// @access  Private (Staff)
+router.get('/:id/statement/export', auth, requireClientAccess('id'), async (req, res) => {
+  try {
+    if (!isStaff(req.user)) {
+      return res.status(403).json({
+        success: false,
+        message: 'Access denied'
+      });
+    }
+
+    const format = req.query.format === 'xlsx' ? 'xlsx' : 'pdf';
+    const statement = await statementService.buildStatement(getFirmId(req), req.params.id, req.query);
+    const firm = await Firm.findById(getFirmId(req)).select('name address gstNumber').lean();
+
+    const buffer = format === 'xlsx'
+      ? await generateStatementExcel(statement, firm || {})
+      : await generateStatementPdf(statement, firm || {});
+
+    res.setHeader('Content-Type', format === 'xlsx'
+      ? 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+      : 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${statementFileName(statement, format)}"`);
+    res.send(Buffer.from(buffer));
+  } catch (error) {
+    sendStatementError(res, error, 'Export client statement');
+  }
+});
+
+// @desc    Email client statement (PDF and Excel attached)
+// @route   POST /api/clients/:id/statement/email
+// @access  Private (Staff)
+router.post('/:id/statement/email', auth, requireClientAccess('id'), async (req, res) => {
+  try {
+    if (!isStaff(req.user)) {
+      return res.status(403).json({
+        success: false,
+        message: 'Access denied'
+      });
+    }
+
+    const { from, to, email, message } = req.body;
+    const statement = await statementService.buildStatement(getFirmId(req), req.params.id, { from, to });
+    const recipient = email || statement.client.email;
+    if (!recipient) {
+      return res.status(400).json({
+        success: false,
+        message: 'Client has no email address'
+      });
+    }
+
+    const firm = await Firm.findById(getFirmId(req)).select('name address gstNumber').lean();
+    const [pdf, excel] = await Promise.all([
+      generateStatementPdf(statement, firm || {}),
+      generateStatementExcel(statement, firm || {})
+    ]);
+
+    const result = await emailService.sendStatementEmail({
+      clientEmail: recipient,
+      clientName: statement.client.name,
+      firmName: firm?.name || 'CA Flow Board',
+      periodFrom: statement.period.from,
+      periodTo: statement.period.to,
+      openingBalance: statement.openingBalance,
+      closingBalance: statement.closingBalance,
+      message,
+      attachments: [
+        { filename: statementFileName(statement, 'pdf'), content: pdf, contentType: 'application/pdf' },
+        { filename: statementFileName(statement, 'xlsx'), content: Buffer.from(excel) }
+      ],
+      firmId: getFirmId(req)
+    });
+
+    if (!result.success) {
+      return res.status(result.skipped ? 503 : 502).json({
+        success: false,
+        message: result.skipped ? 'Email service is not configured' : 'Failed to send statement email',
+        error: result.error
+      });
+    }
+
+    res.json({
+      success: true,
+      message: `Statement emailed to ${recipient}`
+    });
+  } catch (error) {
+    sendStatementError(res, error, 'Email client statement');
+  }
+});
+
 // @desc    Create new client
 // @route   POST /api/clients
 // @access  Private
-router.post('/', auth, async (req, res) => {
+router.post('/', auth, requirePermission('client.create'), async (req, res) => {
   try {
     const clientData = {
       ...req.body,
@@ -161,6 +344,19 @@ router.post('/', auth, async (req, res) => {
       clientData.status = clientData.status.toLowerCase();
     }
 
+    const assignmentError = await applyAssignment(req, clientData);
+    if (assignmentError) {
+      return res.status(400).json({
+        success: false,
+        message: assignmentError
+      });
+    }
+
+    // An employee adding a client joins its team so they can keep working on it
+    if (isScopedToAssignedClients(req.user) && !clientData.assignedTo?.length && !clientData.partner) {
+      clientData.assignedTo = [req.user._id];
+    }
+
     console.log('Creating client with processed data:', clientData);
 
     const client = new Client(clientData);
@@ -214,7 +410,7 @@ router.post('/', auth, async (req, res) => {
 // @desc    Update client
 // @route   PUT /api/clients/:id
 // @access  Private
-router.put('/:id', auth, async (req, res) => {
+router.put('/:id', auth, requirePermission('client.edit'), async (req, res) => {
   try {
     const updateData = {
       ...req.body,
@@ -264,17 +460,28 @@ router.put('/:id', auth, async (req, res) => {
       updateData.status = updateData.status.toLowerCase();
     }
 
+    const assignmentError = await applyAssignment(req, updateData);
+    if (assignmentError) {
+      return res.status(400).json({
+        success: false,
+        message: assignmentError
+      });
+    }
+
     const client = await Client.findOneAndUpdate(
       {
         _id: req.params.id,
         firmId: req.user.firmId,
-        isDeleted: false
+        isDeleted: false,
+        ...scopeFor(req)
       },
       updateData,
       { new: true, runValidators: true }
     )
     .populate('createdBy', 'name email')
-    .populate('updatedBy', 'name email');
+    .populate('updatedBy', 'name email')
+    .populate('partner', 'fullName email')
+    .populate('assignedTo', 'fullName email');
 
     if (!client) {
       return res.status(404).json({
@@ -321,13 +528,14 @@ router.put('/:id', auth, async (req, res) => {
 // @desc    Delete client (soft delete - moves to recycle bin)
 // @route   DELETE /api/clients/:id
 // @access  Private
-router.delete('/:id', auth, async (req, res) => {
+router.delete('/:id', auth, requirePermission('client.delete'), async (req, res) => {
   try {
     const client = await Client.findOneAndUpdate(
       {
         _id: req.params.id,
         firmId: req.user.firmId,
-        isDeleted: false
+        isDeleted: false,
+        ...scopeFor(req)
       },
       { 
         isDeleted: true,
@@ -564,7 +772,7 @@ router.post('/lookup/cin', auth, async (req, res) => {
 // @desc    Bulk import clients
 // @route   POST /api/clients/bulk-import
 // @access  Private
-router.post('/bulk-import', auth, async (req, res) => {
+router.post('/bulk-import', auth, requirePermission('client.import'), async (req, res) => {
   try {
     const { clients: clientsData } = req.body;
 
@@ -763,7 +971,7 @@ router.post('/bulk-import', auth, async (req, res) => {
 // @desc    Bulk delete clients (soft delete - moves to recycle bin)
 // @route   POST /api/clients/bulk-delete
 // @access  Private
-router.post('/bulk-delete', auth, async (req, res) => {
+router.post('/bulk-delete', auth, requirePermission('client.delete'), async (req, res) => {
   try {
     const { clientIds } = req.body;
 
@@ -778,7 +986,8 @@ router.post('/bulk-delete', auth, async (req, res) => {
       {
         _id: { $in: clientIds },
         firmId: req.user.firmId,
-        isDeleted: false
+        isDeleted: false,
+        ...scopeFor(req)
       },
       {
         isDeleted: true,
@@ -810,7 +1019,7 @@ router.post('/bulk-delete', auth, async (req, res) => {
 // @desc    Bulk update client status
 // @route   POST /api/clients/bulk-status
 // @access  Private
-router.post('/bulk-status', auth, async (req, res) => {
+router.post('/bulk-status', auth, requirePermission('client.edit'), async (req, res) => {
   try {
     const { clientIds, status } = req.body;
 
@@ -832,7 +1041,8 @@ router.post('/bulk-status', auth, async (req, res) => {
       {
         _id: { $in: clientIds },
         firmId: req.user.firmId,
-        isDeleted: false
+        isDeleted: false,
+        ...scopeFor(req)
       },
       {
         status: status,
@@ -863,7 +1073,7 @@ router.post('/bulk-status', auth, async (req, res) => {
 // @desc    Bulk archive clients
 // @route   POST /api/clients/bulk-archive
 // @access  Private
-router.post('/bulk-archive', auth, async (req, res) => {
+router.post('/bulk-archive', auth, requirePermission('client.edit'), async (req, res) => {
   try {
     const { clientIds, archived = true } = req.body;
 
@@ -878,7 +1088,8 @@ router.post('/bulk-archive', auth, async (req, res) => {
       {
         _id: { $in: clientIds },
         firmId: req.user.firmId,
-        isDeleted: false
+        isDeleted: false,
+        ...scopeFor(req)
       },
       {
         archived: archived,
@@ -906,4 +1117,99 @@ router.post('/bulk-archive', auth, async (req, res) => {
   }
 });
 
+// @desc    Move clients (and optionally their open tasks) from one staff member to another
+// @route   POST /api/clients/reassign
+// @access  Private (client.assign)
+router.post('/reassign', auth, requirePermission('client.assign'), async (req, res) => {
+  try {
+    const { fromUserId, toUserId, clientIds, includeTasks = false } = req.body;
+    const firmId = getFirmId(req);
+
+    if (!fromUserId || !toUserId || String(fromUserId) === String(toUserId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Choose two different staff members'
+      });
+    }
+
+    const [fromUser, toUser] = await Promise.all([
+      User.findOne({ _id: fromUserId, firmId }).select('fullName email role'),
+      User.findOne({ _id: toUserId, firmId, isActive: true, role: { $in: ['owner', 'admin', 'employee'] } }).select('fullName email role')
+    ]);
+
+    if (!fromUser || !toUser) {
+      return res.status(404).json({
+        success: false,
+        message: !fromUser ? 'Staff member to reassign from not found' : 'Staff member to reassign to not found or inactive'
+      });
+    }
+
+    const clientQuery = { firmId, isDeleted: false, ...assignedClientFilter(fromUser._id) };
+    if (Array.isArray(clientIds) && clientIds.length > 0) {
+      clientQuery._id = { $in: clientIds };
+    }
+    const clients = await Client.find(clientQuery).select('_id name partner assignedTo');
+
+    for (const client of clients) {
+      if (client.partner && String(client.partner) === String(fromUser._id)) {
+        client.partner = toUser._id;
+      }
+      if (client.assignedTo.some(id => String(id) === String(fromUser._id))) {
+        const team = client.assignedTo.filter(id => String(id) !== String(fromUser._id) && String(id) !== String(toUser._id));
+        client.assignedTo = [...team, toUser._id];
+      }
+      client.updatedBy = req.user._id;
+      await client.save({ validateBeforeSave: false });
+    }
+
+    // Hand over open work on the moved clients as well
+    let tasksReassigned = 0;
+    if (includeTasks && clients.length > 0) {
+      const result = await Task.updateMany(
+        {
+          firm: firmId,
+          client: { $in: clients.map(client => client._id) },
+          assignedTo: fromUser._id,
+          status: { $nin: ['completed', 'cancelled'] }
+        },
+        { $set: { assignedTo: toUser._id } }
+      );
+      tasksReassigned = result.modifiedCount;
+    }
+
+    await auditLogger.log({
+      userId: req.user._id,
+      firmId,
+      action: 'clients_reassigned',
+      category: 'data',
+      severity: 'medium',
+      description: `Reassigned ${clients.length} clients from ${fromUser.fullName || fromUser.email} to ${toUser.fullName || toUser.email}`,
+      details: {
+        fromUserId: fromUser._id,
+        toUserId: toUser._id,
+        clientIds: clients.map(client => client._id),
+        tasksReassigned
+      },
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent']
+    });
+
+    res.json({
+      success: true,
+      message: `Reassigned ${clients.length} clients${includeTasks ? ` and ${tasksReassigned} open tasks` : ''} to ${toUser.fullName || toUser.email}`,
+      data: {
+        clientsReassigned: clients.length,
+        tasksReassigned
+      }
+    });
+  } catch (error) {
+    console.error('Reassign clients error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error.message
+    });
+  }
+});
+
 export default router;
\ No newline at end of file
@@ -1,13 +1,15 @@
 import express from 'express';
 import ClientCommunication from '../models/ClientCommunication.js';
 import auth from '../middleware/auth.js';
+import { requireClientAccess } from '../middleware/clientAccess.js';
+import { clientScopeCondition } from '../utils/clientScope.js';
 
 const router = express.Router();
 
 // @desc    Get client communications
 // @route   GET /api/communications/client/:clientId
 // @access  Private
-router.get('/client/:clientId', auth, async (req, res) => {
+router.get('/client/:clientId', auth, requireClientAccess(), async (req, res) => {
   try {
     const { clientId } = req.params;
     const { page = 1, limit = 20, type, isInternal } = req.query;
@@ -59,7 +61,7 @@ router.get('/client/:clientId', auth, async (req, res) => {
 // @desc    Create new communication
 // @route   POST /api/communications/client/:clientId
 // @access  Private
-router.post('/client/:clientId', auth, async (req, res) => {
+router.post('/client/:clientId', auth, requireClientAccess(), async (req, res) => {
   try {
     const { clientId } = req.params;
     const {
@@ -265,10 +267,12 @@ router.delete('/:id', auth, async (req, res) => {
 // @access  Private
 router.get('/unread/count', auth, async (req, res) => {
   try {
+    const scope = await clientScopeCondition(req.user, 'clientId');
     const count = await ClientCommunication.countDocuments({
       firmId: req.user.firmId,
       isInternal: true,
-      'readBy.userId': { $ne: req.user._id }
+      'readBy.userId': { $ne: req.user._id },
+      ...(scope || {})
     });
 
     res.json({
@@ -1,13 +1,14 @@
 import express from 'express';
 import ClientContact from '../models/ClientContact.js';
 import auth from '../middleware/auth.js';
+import { requireClientAccess } from '../middleware/clientAccess.js';
 
 const router = express.Router();
 
 // @desc    Get client contacts
 // @route   GET /api/contacts/client/:clientId
 // @access  Private
-router.get('/client/:clientId', auth, async (req, res) => {
+router.get('/client/:clientId', auth, requireClientAccess(), async (req, res) => {
   try {
     const { clientId } = req.params;
     const { page = 1, limit = 20, isActive } = req.query;
@@ -54,7 +55,7 @@ router.get('/client/:clientId', auth, async (req, res) => {
 // @desc    Create new contact
 // @route   POST /api/contacts/client/:clientId
 // @access  Private
-router.post('/client/:clientId', auth, async (req, res) => {
+router.post('/client/:clientId', auth, requireClientAccess(), async (req, res) => {
   try {
     const { clientId } = req.params;
     const {
@@ -0,0 +1,525 @@
+import express from 'express';
+import { body, validationResult } from 'express-validator';
+import multer from 'multer';
+import path from 'path';
+import fs from 'fs/promises';
+import auth from '../middleware/auth.js';
+import DocumentRequest from '../models/DocumentRequest.js';
+import ClientDocument from '../models/ClientDocument.js';
+import Client from '../models/Client.js';
+import Task from '../models/Task.js';
+import User from '../models/User.js';
+import NotificationService from '../services/notificationService.js';
+import { getPortalClient } from '../utils/portalClient.js';
+import { canAccessClient, clientScopeCondition } from '../utils/clientScope.js';
+
+const router = express.Router();
+
+// Uploads land next to the rest of the client documents
+const storage = multer.diskStorage({
+  destination: async (req, file, cb) => {
+    const uploadPath = path.join(process.cwd(), 'uploads', 'client-documents');
+    try {
+      await fs.mkdir(uploadPath, { recursive: true });
+      cb(null, uploadPath);
+    } catch (error) {
+      cb(error, null);
+    }
+  },
+  filename: (req, file, cb) => {
+    const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
+    cb(null, `request-${uniqueSuffix}${path.extname(file.originalname)}`);
+  }
+});
+
+const allowedTypes = [
+  'application/pdf',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'text/csv',
+  'image/jpeg',
+  'image/png',
+  'text/plain'
+];
+
+const upload = multer({
+  storage,
+  limits: { fileSize: 10 * 1024 * 1024 }, // 10MB limit
+  fileFilter: (req, file, cb) => {
+    if (allowedTypes.includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Invalid file type. Only PDF, Word, Excel, CSV, images, and text files are allowed.'), false);
+    }
+  }
+});
+
+const getFirmId = (req) => req.user.firmId?._id || req.user.firmId;
+
+const isObjectId = (value) => typeof value === 'string' && /^[0-9a-fA-F]{24}$/.test(value);
+
+const isClientUser = (user) => user.role === 'client';
+
+const populateRequest = (query) => query
+  .populate('task', 'title taskId status dueDate')
+  .populate('client', 'name email')
+  .populate('requestedBy', 'fullName email')
+  .populate('items.document', 'documentName originalFileName fileSize mimeType createdAt')
+  .populate('items.uploadedBy', 'fullName email')
+  .populate('items.reviewedBy', 'fullName email');
+
+// Find a request the current user may see; clients only get their own open/completed requests
+// and employees only those for their assigned clients
+const findAccessibleRequest = async (req) => {
+  if (!isObjectId(req.params.id)) return null;
+  const filter = { _id: req.params.id, firm: getFirmId(req) };
+
+  if (isClientUser(req.user)) {
+    const client = await getPortalClient(req);
+    if (!client) return null;
+    filter.client = client._id;
+    filter.status = { $ne: 'cancelled' };
+  }
+
+  const request = await DocumentRequest.findOne(filter);
+  if (request && !isClientUser(req.user) && !(await canAccessClient(req.user, request.client))) {
+    return null;
+  }
+  return request;
+};
+
+const notifyPortalUsers = async (request, senderId, title, message) => {
+  const client = await Client.findById(request.client).select('email');
+  if (!client?.email) return;
+
+  const portalUsers = await User.find({ role: 'client', email: client.email, firmId: request.firm }).select('_id');
+  for (const portalUser of portalUsers) {
+    await NotificationService.createNotification({
+      recipientId: portalUser._id,
+      senderId,
+      type: 'document_requested',
+      title,
+      message,
+      relatedEntity: { entityType: 'DocumentRequest', entityId: request._id },
+      metadata: { taskId: request.task, dueDate: request.dueDate }
+    });
+  }
+};
+
+// @desc    Get document requests
+// @route   GET /api/document-requests?task=&client=&status=
+// @access  Private
+router.get('/', auth, async (req, res) => {
+  try {
+    const { task, client, status } = req.query;
+    if ((task && !isObjectId(task)) || (client && !isObjectId(client))) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid task or client id'
+      });
+    }
+
+    const filter = { firm: getFirmId(req) };
+
+    if (isClientUser(req.user)) {
+      const portalClient = await getPortalClient(req);
+      if (!portalClient) {
+        return res.json({ success: true, data: { requests: [] } });
+      }
+      filter.client = portalClient._id;
+      filter.status = status && status !== 'cancelled' ? status : { $ne: 'cancelled' };
+    } else {
+      if (client) filter.client = client;
+      if (status) filter.status = status;
+
+      const scope = await clientScopeCondition(req.user, 'client');
+      if (scope) filter.$and = [scope];
+    }
+    if (task) filter.task = task;
+
+    const requests = await populateRequest(DocumentRequest.find(filter))
+      .sort({ status: -1, dueDate: 1 });
+
+    res.json({
+      success: true,
+      data: { requests }
+    });
+  } catch (error) {
+    console.error('Get document requests error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error.message
+    });
+  }
+});
+
+// @desc    Get single document request
+// @route   GET /api/document-requests/:id
+// @access  Private
+router.get('/:id', auth, async (req, res) => {
+  try {
+    const request = await findAccessibleRequest(req);
+    if (!request) {
+      return res.status(404).json({
+        success: false,
+        message: 'Document request not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: { request: await populateRequest(DocumentRequest.findById(request._id)) }
+    });
+  } catch (error) {
+    console.error('Get document request error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error.message
+    });
+  }
+});
+
+// @desc    Ask a client for documents against a task
+// @route   POST /api/document-requests
+// @access  Private (Staff)
+router.post('/', auth, [
+  body('taskId').custom(isObjectId).withMessage('Valid task is required'),
+  body('dueDate').isISO8601().withMessage('Valid due date is required'),
+  body('items').isArray({ min: 1 }).withMessage('Add at least one requested item'),
+  body('items.*.name').trim().notEmpty().withMessage('Each item needs a name')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation errors',
+        errors: errors.array()
+      });
+    }
+
+    if (isClientUser(req.user)) {
+      return res.status(403).json({
+        success: false,
+        message: 'Only firm staff can request documents'
+      });
+    }
+
+    const task = await Task.findOne({ _id: req.body.taskId, firm: getFirmId(req) });
+    if (!task || (task.client && !(await canAccessClient(req.user, task.client)))) {
+      return res.status(404).json({
+        success: false,
+        message: 'Task not found'
+      });
+    }
+
+    if (!task.client) {
+      return res.status(400).json({
+        success: false,
+        message: 'Assign a client to the task before requesting documents'
+      });
+    }
+
+    const request = await DocumentRequest.create({
+      title: req.body.title || `Documents for ${task.title}`,
+      message: req.body.message,
+      task: task._id,
+      client: task.client,
+      firm: getFirmId(req),
+      requestedBy: req.user._id,
+      dueDate: req.body.dueDate,
+      items: req.body.items.map(({ name, description, documentType }) => ({ name, description, documentType }))
+    });
+
+    try {
+      await notifyPortalUsers(
+        request,
+        req.user._id,
+        `Documents requested: ${request.title}`,
+        `Please upload ${request.items.length} document${request.items.length === 1 ? '' : 's'} by ${request.dueDate.toLocaleDateString('en-IN')}: ${request.items.map(item => item.name).join(', ')}`
+      );
+    } catch (notificationError) {
+      console.error('Error notifying client about document request:', notificationError);
+    }
+
+    res.status(201).json({
+      success: true,
+      message: 'Document request sent to client',
+      data: { request: await populateRequest(DocumentRequest.findById(request._id)) }
+    });
+  } catch (error) {
+    console.error('Create document request error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error.message
+    });
+  }
+});
+
+// @desc    Update a document request (details, new items, cancel/reopen)
+// @route   PUT /api/document-requests/:id
+// @access  Private (Staff)
+router.put('/:id', auth, async (req, res) => {
+  try {
+    if (isClientUser(req.user)) {
+      return res.status(403).json({
+        success: false,
+        message: 'Only firm staff can update document requests'
+      });
+    }
+
+    const request = await findAccessibleRequest(req);
+    if (!request) {
+      return res.status(404).json({
+        success: false,
+        message: 'Document request not found'
+      });
+    }
+
+    ['title', 'message', 'dueDate'].forEach(field => {
+      if (req.body[field] !== undefined) request[field] = req.body[field];
+    });
+
+    if (Array.isArray(req.body.addItems)) {
+      req.body.addItems
+        .filter(item => item?.name?.trim())
+        .forEach(({ name, description, documentType }) => request.items.push({ name, description, documentType }));
+    }
+
+    // Only items nobody has uploaded against can be removed
+    if (Array.isArray(req.body.removeItems)) {
+      const removable = request.items.filter(item =>
+        req.body.removeItems.includes(item._id.toString()) && !item.document
+      );
+      removable.forEach(item => request.items.pull(item._id));
+    }
+
+    if (req.body.status === 'cancelled') {
+      request.status = 'cancelled';
+    } else if (req.body.status === 'open' && request.status === 'cancelled') {
+      request.status = 'open';
+    }
+
+    await request.save();
+
+    res.json({
+      success: true,
+      message: 'Document request updated',
+      data: { request: await populateRequest(DocumentRequest.findById(request._id)) }
+    });
+  } catch (error) {
+    console.error('Update document request error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error.message
+    });
+  }
+});
+
+// @desc    Delete a document request (uploaded files are kept)
+// @route   DELETE /api/document-requests/:id
+// @access  Private (Owner/Admin)
+router.delete('/:id', auth, async (req, res) => {
+  try {
+    if (!req.can('document.manageRequests')) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have permission to delete document requests'
+      });
+    }
+
+    const request = isObjectId(req.params.id)
+      ? await DocumentRequest.findOneAndDelete({ _id: req.params.id, firm: getFirmId(req) })
+      : null;
+    if (!request) {
+      return res.status(404).json({
+        success: false,
+        message: 'Document request not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Document request deleted'
+    });
+  } catch (error) {
+    console.error('Delete document request error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error.message
+    });
+  }
+});
+
+// @desc    Upload a file against a requested item
+// @route   POST /api/document-requests/:id/items/:itemId/upload
+// @access  Private (Client or Staff)
+router.post('/:id/items/:itemId/upload', auth, upload.single('document'), async (req, res) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({
+        success: false,
+        message: 'No file uploaded'
+      });
+    }
+
+    const request = await findAccessibleRequest(req);
+    const item = request?.items.id(req.params.itemId);
+    if (!request || !item) {
+      await fs.unlink(req.file.path).catch(() => {});
+      return res.status(404).json({
+        success: false,
+        message: 'Requested item not found'
+      });
+    }
+
+    if (request.status === 'cancelled' || item.status === 'accepted') {
+      await fs.unlink(req.file.path).catch(() => {});
+      return res.status(400).json({
+        success: false,
+        message: item.status === 'accepted' ? 'This item has already been accepted' : 'This request has been cancelled'
+      });
+    }
+
+    const document = await ClientDocument.create({
+      clientId: request.client,
+      documentName: `${item.name} - ${req.file.originalname}`.slice(0, 200),
+      documentType: item.documentType || 'other',
+      originalFileName: req.file.originalname,
+      fileName: req.file.filename,
+      filePath: req.file.path,
+      fileSize: req.file.size,
+      mimeType: req.file.mimetype,
+      fileExtension: path.extname(req.file.originalname),
+      description: `Uploaded for request "${request.title}"`,
+      tags: ['document-request'],
+      firmId: request.firm,
+      uploadedBy: req.user._id
+    });
+
+    item.document = document._id;
+    item.status = 'uploaded';
+    item.uploadedBy = req.user._id;
+    item.uploadedAt = new Date();
+    item.rejectionReason = undefined;
+    item.reviewedBy = undefined;
+    item.reviewedAt = undefined;
+    await request.save();
+
+    if (isClientUser(req.user)) {
+      try {
+        await NotificationService.createNotification({
+          recipientId: request.requestedBy,
+          senderId: req.user._id,
+          type: 'client_document_uploaded',
+          title: `Document uploaded: ${item.name}`,
+          message: `${req.user.fullName || 'The client'} uploaded "${item.name}" for "${request.title}"`,
+          relatedEntity: { entityType: 'DocumentRequest', entityId: request._id },
+          metadata: { taskId: request.task, documentId: document._id }
+        });
+      } catch (notificationError) {
+        console.error('Error notifying staff about uploaded document:', notificationError);
+      }
+    }
+
+    res.status(201).json({
+      success: true,
+      message: 'Document uploaded',
+      data: { request: await populateRequest(DocumentRequest.findById(request._id)) }
+    });
+  } catch (error) {
+    console.error('Upload requested document error:', error);
+    if (req.file) {
+      await fs.unlink(req.file.path).catch(() => {});
+    }
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error.message
+    });
+  }
+});
+
+// @desc    Accept or reject the upload for a requested item
+// @route   POST /api/document-requests/:id/items/:itemId/review
+// @access  Private (Staff)
+router.post('/:id/items/:itemId/review', auth, [
+  body('action').isIn(['accept', 'reject']).withMessage('Action must be accept or reject'),
+  body('reason').if(body('action').equals('reject')).trim().notEmpty().withMessage('A reason is required when rejecting')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation errors',
+        errors: errors.array()
+      });
+    }
+
+    if (isClientUser(req.user)) {
+      return res.status(403).json({
+        success: false,
+        message: 'Only firm staff can review uploads'
+      });
+    }
+
+    const request = await findAccessibleRequest(req);
+    const item = request?.items.id(req.params.itemId);
+    if (!request || !item) {
+      return res.status(404).json({
+        success: false,
+        message: 'Requested item not found'
+      });
+    }
+
+    if (item.status !== 'uploaded') {
+      return res.status(400).json({
+        success: false,
+        message: 'Only uploaded items can be reviewed'
+      });
+    }
+
+    const { action, reason } = req.body;
+    item.status = action === 'accept' ? 'accepted' : 'rejected';
+    item.rejectionReason = action === 'reject' ? reason : undefined;
+    item.reviewedBy = req.user._id;
+    item.reviewedAt = new Date();
+    await request.save();
+
+    if (action === 'reject') {
+      try {
+        await notifyPortalUsers(
+          request,
+          req.user._id,
+          `Please re-upload: ${item.name}`,
+          `Your upload for "${item.name}" was not accepted: ${reason}`
+        );
+      } catch (notificationError) {
+        console.error('Error notifying client about rejected document:', notificationError);
+      }
+    }
+
+    res.json({
+      success: true,
+      message: action === 'accept' ? 'Document accepted' : 'Document rejected',
+      data: { request: await populateRequest(DocumentRequest.findById(request._id)) }
+    });
+  } catch (error) {
+    console.error('Review requested document error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error.message
+    });
+  }
+});
+
+export default router;
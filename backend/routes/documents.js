@@ -4,6 +4,9 @@ import path from 'path';
 import fs from 'fs/promises';
 import ClientDocument from '../models/ClientDocument.js';
 import auth from '../middleware/auth.js';
+import { requirePermission } from '../middleware/authorize.js';
+import { requireClientAccess } from '../middleware/clientAccess.js';
+import { canAccessClient } from '../utils/clientScope.js';
 
 const router = express.Router();
 
@@ -59,7 +62,7 @@ const upload = multer({
 // @desc    Get client documents
 // @route   GET /api/documents/client/:clientId
 // @access  Private
-router.get('/client/:clientId', auth, async (req, res) => {
+router.get('/client/:clientId', auth, requireClientAccess(), async (req, res) => {
   try {
     const { clientId } = req.params;
     const { page = 1, limit = 20, documentType, status } = req.query;
@@ -79,6 +82,10 @@ router.get('/client/:clientId', auth, async (req, res) => {
       query.status = status;
     }
 
+    if (!req.can('document.viewProtected')) {
+      query.isProtected = { $ne: true };
+    }
+
     const documents = await ClientDocument.find(query)
       .populate('uploadedBy', 'name email')
       .populate('updatedBy', 'name email')
@@ -110,7 +117,7 @@ router.get('/client/:clientId', auth, async (req, res) => {
 // @desc    Upload client document
 // @route   POST /api/documents/client/:clientId/upload
 // @access  Private
-router.post('/client/:clientId/upload', auth, upload.single('document'), async (req, res) => {
+router.post('/client/:clientId/upload', auth, requirePermission('document.upload'), requireClientAccess(), upload.single('document'), async (req, res) => {
   try {
     const { clientId } = req.params;
     const { documentType, description, tags, isConfidential, expiryDate } = req.body;
@@ -187,6 +194,20 @@ router.get('/:id/download', auth, async (req, res) => {
       });
     }
 
+    if (document.isProtected && !req.can('document.viewProtected')) {
+      return res.status(403).json({
+        success: false,
+        message: 'Access denied. This document is protected and requires higher permissions.'
+      });
+    }
+
+    if (!(await canAccessClient(req.user, document.clientId))) {
+      return res.status(403).json({
+        success: false,
+        message: 'Access denied. You are not assigned to this client.'
+      });
+    }
+
     // Update download statistics
     document.downloadCount += 1;
     document.lastDownloadedAt = new Date();
@@ -222,7 +243,7 @@ router.get('/:id/download', auth, async (req, res) => {
 // @desc    Delete document
 // @route   DELETE /api/documents/:id
 // @access  Private
-router.delete('/:id', auth, async (req, res) => {
+router.delete('/:id', auth, requirePermission('document.delete'), async (req, res) => {
   try {
     const document = await ClientDocument.findOne({
       _id: req.params.id,
@@ -236,6 +257,13 @@ router.delete('/:id', auth, async (req, res) => {
       });
     }
 
+    if (!(await canAccessClient(req.user, document.clientId))) {
+      return res.status(403).json({
+        success: false,
+        message: 'Access denied. You are not assigned to this client.'
+      });
+    }
+
     // Delete file from filesystem
     try {
       await fs.unlink(document.filePath);
@@ -263,10 +291,22 @@ router.delete('/:id', auth, async (req, res) => {
 // @desc    Update document metadata
 // @route   PUT /api/documents/:id
 // @access  Private
-router.put('/:id', auth, async (req, res) => {
+router.put('/:id', auth, requirePermission('document.upload'), async (req, res) => {
   try {
     const { documentName, documentType, description, tags, isConfidential, expiryDate, status } = req.body;
 
+    const existing = await ClientDocument.findOne({
+      _id: req.params.id,
+      firmId: req.user.firmId
+    }).select('clientId');
+
+    if (existing && !(await canAccessClient(req.user, existing.clientId))) {
+      return res.status(403).json({
+        success: false,
+        message: 'Access denied. You are not assigned to this client.'
+      });
+    }
+
     const document = await ClientDocument.findOneAndUpdate(
       {
         _id: req.params.id,
@@ -0,0 +1,239 @@
+import express from 'express';
+import { body, validationResult } from 'express-validator';
+import auth from '../middleware/auth.js';
+import DueDateExtension from '../models/DueDateExtension.js';
+import dueDateService from '../services/dueDateService.js';
+
+const router = express.Router();
+
+const canManageExtensions = (req) => req.can('compliance.manage');
+
+// @desc    Get supported statutory return types
+// @route   GET /api/due-dates/rules
+// @access  Private
+router.get('/rules', auth, async (req, res) => {
+  try {
+    res.json({
+      success: true,
+      data: { returnTypes: dueDateService.getReturnTypes() }
+    });
+  } catch (error) {
+    console.error('Get due-date rules error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error.message
+    });
+  }
+});
+
+// @desc    Calculate the due date of a return for a period
+// @route   GET /api/due-dates/calculate?returnType=GSTR3B&period=2025-09
+// @access  Private
+router.get('/calculate', auth, async (req, res) => {
+  try {
+    const { returnType, period, assesseeType, agmDate } = req.query;
+    const firmId = req.user.firmId?._id || req.user.firmId;
+
+    const result = period
+      ? await dueDateService.resolveDueDate(firmId, returnType, period, { assesseeType, agmDate })
+      : await dueDateService.getNextDueDate(firmId, returnType, new Date(), { assesseeType, agmDate });
+
+    res.json({
+      success: true,
+      data: result
+    });
+  } catch (error) {
+    if (error.statusCode === 400) {
+      return res.status(400).json({
+        success: false,
+        message: error.message
+      });
+    }
+    console.error('Calculate due date error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error.message
+    });
+  }
+});
+
+// @desc    List statutory deadlines falling within a date range
+// @route   GET /api/due-dates/upcoming?from=&to=&returnTypes=GSTR1,GSTR3B
+// @access  Private
+router.get('/upcoming', auth, async (req, res) => {
+  try {
+    const from = req.query.from ? new Date(req.query.from) : new Date();
+    const to = req.query.to ? new Date(req.query.to) : new Date(from.getFullYear(), from.getMonth() + 1, from.getDate());
+
+    if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid from or to date'
+      });
+    }
+
+    const returnTypes = req.query.returnTypes ? String(req.query.returnTypes).split(',') : undefined;
+    const deadlines = await dueDateService.listDeadlines(
+      req.user.firmId?._id || req.user.firmId,
+      from,
+      to,
+      { returnTypes }
+    );
+
+    res.json({
+      success: true,
+      data: { deadlines }
+    });
+  } catch (error) {
+    if (error.statusCode === 400) {
+      return res.status(400).json({
+        success: false,
+        message: error.message
+      });
+    }
+    console.error('Get upcoming due dates error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error.message
+    });
+  }
+});
+
+// @desc    Get recorded due-date extensions
+// @route   GET /api/due-dates/extensions
+// @access  Private
+router.get('/extensions', auth, async (req, res) => {
+  try {
+    const filter = { firm: req.user.firmId?._id || req.user.firmId };
+    if (req.query.returnType) filter.returnType = String(req.query.returnType).toUpperCase();
+
+    const extensions = await DueDateExtension.find(filter)
+      .populate('createdBy', 'fullName email')
+      .sort({ extendedDueDate: -1 });
+
+    res.json({
+      success: true,
+      data: { extensions }
+    });
+  } catch (error) {
+    console.error('Get due-date extensions error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error.message
+    });
+  }
+});
+
+// @desc    Record a government extension of a due date
+// @route   POST /api/due-dates/extensions
+// @access  Private (Owner/Admin)
+router.post('/extensions', auth, [
+  body('returnType').trim().notEmpty().withMessage('Return type is required'),
+  body('period').trim().notEmpty().withMessage('Period is required'),
+  body('extendedDueDate').isISO8601().withMessage('Valid extended due date is required')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation errors',
+        errors: errors.array()
+      });
+    }
+
+    if (!canManageExtensions(req)) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have permission to record due-date extensions'
+      });
+    }
+
+    const { returnType, period, assesseeType, extendedDueDate, notification, notes } = req.body;
+    const firmId = req.user.firmId?._id || req.user.firmId;
+
+    let code;
+    let periodKey;
+    let originalDueDate;
+    try {
+      code = dueDateService.getRule(returnType).code;
+      periodKey = dueDateService.normalizePeriod(code, period);
+      originalDueDate = dueDateService.calculateDueDate(code, periodKey, { assesseeType });
+    } catch (ruleError) {
+      return res.status(400).json({
+        success: false,
+        message: ruleError.message
+      });
+    }
+
+    // Re-recording an extension for the same period replaces the earlier one
+    const extension = await DueDateExtension.findOneAndUpdate(
+      { firm: firmId, returnType: code, period: periodKey, assesseeType: assesseeType || null },
+      {
+        originalDueDate,
+        extendedDueDate,
+        notification,
+        notes,
+        createdBy: req.user._id
+      },
+      { new: true, upsert: true, runValidators: true, setDefaultsOnInsert: true }
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'Due-date extension recorded successfully',
+      data: { extension }
+    });
+  } catch (error) {
+    console.error('Create due-date extension error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error.message
+    });
+  }
+});
+
+// @desc    Delete a due-date extension
+// @route   DELETE /api/due-dates/extensions/:id
+// @access  Private (Owner/Admin)
+router.delete('/extensions/:id', auth, async (req, res) => {
+  try {
+    if (!canManageExtensions(req)) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have permission to delete due-date extensions'
+      });
+    }
+
+    const extension = await DueDateExtension.findOneAndDelete({
+      _id: req.params.id,
+      firm: req.user.firmId?._id || req.user.firmId
+    });
+
+    if (!extension) {
+      return res.status(404).json({
+        success: false,
+        message: 'Extension not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Due-date extension deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete due-date extension error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error.message
+    });
+  }
+});
+
+export default router;
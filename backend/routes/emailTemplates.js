@@ -0,0 +1,294 @@
+import express from 'express';
+import { body, validationResult } from 'express-validator';
+import auth from '../middleware/auth.js';
+import EmailTemplate from '../models/EmailTemplate.js';
+import emailTemplateDefaults from '../config/emailTemplateDefaults.js';
+import { validateTemplate, renderEmailTemplate } from '../utils/emailTemplateRenderer.js';
+
+const router = express.Router();
+
+const canManageTemplates = (req) => req.can('emailTemplate.manage');
+
+const describeProblems = ({ unknown, malformed }) => {
+  const problems = [];
+  if (unknown.length) problems.push(`unknown variables: ${unknown.map(v => `{{${v}}}`).join(', ')}`);
+  if (malformed.length) problems.push(`malformed placeholders: ${malformed.join(', ')}`);
+  return `Invalid template - ${problems.join('; ')}`;
+};
+
+// Sample values used for previews, one per known variable
+const sampleData = {
+  employee_name: 'Employee Name',
+  recipient_name: 'Recipient Name',
+  admin_name: 'Admin Name',
+  client_name: 'ABC Corporation',
+  task_title: 'GST Filing for ABC Corp',
+  task_description: 'Complete monthly GST filing and submit returns by due date.',
+  due_date: new Date(),
+  assigned_by: 'Firm Owner',
+  completed_by: 'Employee Name',
+  task_link: 'https://example.com/tasks',
+  quote_number: 'QD-2025-0001',
+  quote_date: new Date(),
+  valid_until: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
+  items: 'GST Return Filing x 1 - ₹5,000.00',
+  subtotal: 5000,
+  tax_amount: 900,
+  total_amount: 5900,
+  amount: 5900,
+  payment_link: 'https://example.com/pay/abc123',
+  approval_link: 'https://example.com/admin/quotes/pending',
+  notes: 'Documents to be shared by the 5th.',
+  terms: 'Payment due within 15 days.',
+  invoice_number: 'INV-2025-0001',
+  payment_date: new Date(),
+  payment_method: 'UPI',
+  transaction_id: 'pay_ABC123XYZ',
+  invoice_link: 'https://example.com/invoices/1',
+  invoice_date: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000),
+  amount_due: 5900,
+  days_overdue: 7,
+  period_from: new Date(Date.now() - 90 * 24 * 60 * 60 * 1000),
+  period_to: new Date(),
+  opening_balance: 12000,
+  closing_balance: 5900,
+  title: 'Notification Title',
+  message: 'Notification message',
+  dashboard_link: 'https://example.com'
+};
+
+const templateValidators = [
+  body('name').trim().notEmpty().withMessage('Template name is required'),
+  body('category').isIn(Object.keys(emailTemplateDefaults)).withMessage('Invalid template category'),
+  body('subject').trim().notEmpty().withMessage('Subject is required'),
+  body('body').notEmpty().withMessage('Body is required')
+];
+
+// @desc    Get template categories with their variables and built-in defaults
+// @route   GET /api/email-templates/categories
+// @access  Private
+router.get('/categories', auth, async (req, res) => {
+  try {
+    const categories = Object.entries(emailTemplateDefaults).map(([key, definition]) => ({
+      key,
+      ...definition
+    }));
+
+    res.json({
+      success: true,
+      data: { categories }
+    });
+  } catch (error) {
+    console.error('Get email template categories error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error.message
+    });
+  }
+});
+
+// @desc    Render a template with sample data without saving it
+// @route   POST /api/email-templates/preview
+// @access  Private
+router.post('/preview', auth, async (req, res) => {
+  try {
+    const { category = 'custom', subject = '', body: templateBody = '', isHtml = false } = req.body;
+    const validation = validateTemplate(category, { subject, body: templateBody });
+    const rendered = renderEmailTemplate({ subject, body: templateBody, isHtml }, {
+      ...sampleData,
+      company_name: req.user.firmId?.name || 'Your Firm Name'
+    });
+
+    res.json({
+      success: true,
+      data: { ...rendered, validation }
+    });
+  } catch (error) {
+    console.error('Preview email template error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error.message
+    });
+  }
+});
+
+// @desc    Get firm email templates
+// @route   GET /api/email-templates
+// @access  Private
+router.get('/', auth, async (req, res) => {
+  try {
+    const filter = { firm: req.user.firmId?._id || req.user.firmId };
+    if (req.query.category) filter.category = req.query.category;
+
+    const templates = await EmailTemplate.find(filter)
+      .populate('updatedBy', 'fullName email')
+      .sort({ category: 1, name: 1 });
+
+    res.json({
+      success: true,
+      data: { templates }
+    });
+  } catch (error) {
+    console.error('Get email templates error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error.message
+    });
+  }
+});
+
+// @desc    Create email template
+// @route   POST /api/email-templates
+// @access  Private (Owner/Admin)
+router.post('/', auth, templateValidators, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation errors',
+        errors: errors.array()
+      });
+    }
+
+    if (!canManageTemplates(req)) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have permission to manage email templates'
+      });
+    }
+
+    const { name, category, subject, body: templateBody, isHtml, isActive } = req.body;
+    const validation = validateTemplate(category, { subject, body: templateBody });
+    if (!validation.valid) {
+      return res.status(400).json({
+        success: false,
+        message: describeProblems(validation),
+        data: { validation }
+      });
+    }
+
+    const template = await EmailTemplate.create({
+      name,
+      category,
+      subject,
+      body: templateBody,
+      isHtml: !!isHtml,
+      isActive: isActive !== false,
+      firm: req.user.firmId?._id || req.user.firmId,
+      createdBy: req.user._id,
+      updatedBy: req.user._id
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Email template created successfully',
+      data: { template }
+    });
+  } catch (error) {
+    console.error('Create email template error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error.message
+    });
+  }
+});
+
+// @desc    Update email template
+// @route   PUT /api/email-templates/:id
+// @access  Private (Owner/Admin)
+router.put('/:id', auth, async (req, res) => {
+  try {
+    if (!canManageTemplates(req)) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have permission to manage email templates'
+      });
+    }
+
+    const template = await EmailTemplate.findOne({
+      _id: req.params.id,
+      firm: req.user.firmId?._id || req.user.firmId
+    });
+
+    if (!template) {
+      return res.status(404).json({
+        success: false,
+        message: 'Email template not found'
+      });
+    }
+
+    ['name', 'category', 'subject', 'body', 'isHtml', 'isActive'].forEach(field => {
+      if (req.body[field] !== undefined) template[field] = req.body[field];
+    });
+
+    const validation = validateTemplate(template.category, { subject: template.subject, body: template.body });
+    if (!validation.valid) {
+      return res.status(400).json({
+        success: false,
+        message: describeProblems(validation),
+        data: { validation }
+      });
+    }
+
+    template.updatedBy = req.user._id;
+    await template.save();
+
+    res.json({
+      success: true,
+      message: 'Email template updated successfully',
+      data: { template }
+    });
+  } catch (error) {
+    console.error('Update email template error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error.message
+    });
+  }
+});
+
+// @desc    Delete email template (the built-in default is used again)
+// @route   DELETE /api/email-templates/:id
+// @access  Private (Owner/Admin)
+router.delete('/:id', auth, async (req, res) => {
+  try {
+    if (!canManageTemplates(req)) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have permission to manage email templates'
+      });
+    }
+
+    const template = await EmailTemplate.findOneAndDelete({
+      _id: req.params.id,
+      firm: req.user.firmId?._id || req.user.firmId
+    });
+
+    if (!template) {
+      return res.status(404).json({
+        success: false,
+        message: 'Email template not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Email template deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete email template error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error.message
+    });
+  }
+});
+
+export default router;
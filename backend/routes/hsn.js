@@ -0,0 +1,142 @@
+import express from 'express';
+import multer from 'multer';
+import auth from '../middleware/auth.js';
+import { requirePermission, requireSuperAdmin } from '../middleware/authorize.js';
+import hsnService from '../services/hsnService.js';
+
+const router = express.Router();
+
+// The official HSN/SAC master download is a few MB of Excel
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 20 * 1024 * 1024, files: 1 },
+  fileFilter: (req, file, cb) => {
+    cb(null, /\.(xlsx|csv)$/i.test(file.originalname));
+  }
+});
+
+const getFirmId = (req) => req.user.firmId?._id || req.user.firmId;
+
+const sendHsnError = (res, error, label) => {
+  if (error.statusCode) {
+    return res.status(error.statusCode).json({
+      success: false,
+      message: error.message
+    });
+  }
+  console.error(`${label} error:`, error);
+  res.status(500).json({
+    success: false,
+    message: 'Server error',
+    error: error.message
+  });
+};
+
+// @desc    Search the HSN/SAC master by code or description
+// @route   GET /api/hsn/codes?q=&limit=&date=
+// @access  Private
+router.get('/codes', auth, async (req, res) => {
+  try {
+    const codes = await hsnService.search(getFirmId(req), req.query);
+
+    res.json({
+      success: true,
+      data: codes
+    });
+  } catch (error) {
+    sendHsnError(res, error, 'Search HSN codes');
+  }
+});
+
+// @desc    Get one HSN/SAC code with its rate on a date and its rate history
+// @route   GET /api/hsn/codes/:code?date=
+// @access  Private
+router.get('/codes/:code', auth, async (req, res) => {
+  try {
+    const code = await hsnService.getByCode(getFirmId(req), req.params.code, req.query.date);
+
+    res.json({
+      success: true,
+      data: code
+    });
+  } catch (error) {
+    sendHsnError(res, error, 'Get HSN code');
+  }
+});
+
+// @desc    Get the firm's favourite codes and default SAC per task category
+// @route   GET /api/hsn/preferences
+// @access  Private
+router.get('/preferences', auth, async (req, res) => {
+  try {
+    const preferences = await hsnService.getPreferences(getFirmId(req));
+
+    res.json({
+      success: true,
+      data: preferences
+    });
+  } catch (error) {
+    sendHsnError(res, error, 'Get HSN preferences');
+  }
+});
+
+// @desc    Add a code to the firm's favourites
+// @route   PUT /api/hsn/favourites/:code
+// @access  Private (settings.manage)
+router.put('/favourites/:code', auth, requirePermission('settings.manage'), async (req, res) => {
+  try {
+    const preferences = await hsnService.setFavourite(getFirmId(req), req.params.code, true);
+
+    res.json({
+      success: true,
+      message: 'Added to favourites',
+      data: preferences
+    });
+  } catch (error) {
+    sendHsnError(res, error, 'Add HSN favourite');
+  }
+});
+
+// @desc    Remove a code from the firm's favourites
+// @route   DELETE /api/hsn/favourites/:code
+// @access  Private (settings.manage)
+router.delete('/favourites/:code', auth, requirePermission('settings.manage'), async (req, res) => {
+  try {
+    const preferences = await hsnService.setFavourite(getFirmId(req), req.params.code, false);
+
+    res.json({
+      success: true,
+      message: 'Removed from favourites',
+      data: preferences
+    });
+  } catch (error) {
+    sendHsnError(res, error, 'Remove HSN favourite');
+  }
+});
+
+// @desc    Import the HSN/SAC master from the official Excel or a CSV
+// @route   POST /api/hsn/import
+// @access  Private (Super Admin)
+router.post('/import', auth, requireSuperAdmin, upload.single('file'), async (req, res) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({
+        success: false,
+        message: 'Upload an .xlsx or .csv file'
+      });
+    }
+
+    const rows = await hsnService.parseImportFile(req.file.buffer, req.file.originalname);
+    const result = await hsnService.importRows(rows);
+
+    res.json({
+      success: true,
+      message: `Imported ${result.created + result.updated} codes (${result.created} new, ${result.rateChanges} rate changes)`,
+      data: result
+    });
+  } catch (error) {
+    sendHsnError(res, error, 'Import HSN master');
+  }
+});
+
+export default router;
@@ -1,10 +1,69 @@
 import express from 'express';
+import mongoose from 'mongoose';
 import auth from '../middleware/auth.js';
+import { requirePermission } from '../middleware/authorize.js';
 import Invoice from '../models/Invoice.js';
+import Client from '../models/Client.js';
 import RazorpayService from '../services/razorpayService.js';
+import billingService from '../services/billingService.js';
+import invoiceReminderService from '../services/invoiceReminderService.js';
+import creditNoteService, { CREDITABLE_STATUSES } from '../services/creditNoteService.js';
+import hsnService from '../services/hsnService.js';
+import einvoiceService from '../services/einvoiceService.js';
+import { clientScopeCondition, canAccessClient } from '../utils/clientScope.js';
+import { previewNumberSeries } from '../utils/invoiceNumbering.js';
+import { resolvePlaceOfSupply } from '../utils/gstTax.js';
 
 const router = express.Router();
 
+// Employees see invoices for their assigned clients and ones they raised
+const invoiceScopeFor = (req) => clientScopeCondition(req.user, 'client', [{ createdBy: req.user._id }]);
+
+// Hide invoices outside the employee's scope from every /:id route
+const withInvoiceAccess = async (req, res, next) => {
+  try {
+    const scope = await invoiceScopeFor(req);
+    if (scope && !(mongoose.Types.ObjectId.isValid(req.params.id) &&
+      await Invoice.exists({ _id: req.params.id, firm: req.user.firmId._id, $and: [scope] }))) {
+      return res.status(404).json({
+        success: false,
+        message: 'Invoice not found'
+      });
+    }
+    next();
+  } catch (error) {
+    console.error('Check invoice access error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error.message
+    });
+  }
+};
+
+const clientAccessDenied = (res) => res.status(403).json({
+  success: false,
+  message: 'Access denied. You are not assigned to this client.'
+});
+
+// The CGST/SGST/IGST split and place of supply are worked out on save. Callers
+// may only switch GST on or off and pin the place of supply to a state, or send
+// { source: 'auto' } to go back to detecting it.
+const sanitizeGstFields = (body) => {
+  if (body.gst) {
+    body.gst = { applicable: body.gst.applicable !== false };
+  }
+  const requested = body.placeOfSupply;
+  if (requested?.source === 'manual' && requested.stateCode) {
+    body.placeOfSupply = { stateCode: String(requested.stateCode).padStart(2, '0'), source: 'manual' };
+  } else if (requested?.source === 'auto') {
+    body.placeOfSupply = { source: 'unknown' };
+  } else {
+    delete body.placeOfSupply;
+  }
+  return body;
+};
+
 // @desc    Get invoices with filtering and sorting
 // @route   GET /api/invoices
 // @access  Private
@@ -13,6 +72,7 @@ router.get('/', auth, async (req, res) => {
     const { 
       search, 
       status, 
+      type,
       sortBy = 'createdAt', 
       sortOrder = 'desc',
       page = 1,
@@ -22,6 +82,11 @@ router.get('/', auth, async (req, res) => {
     // Build query
     const query = { firm: req.user.firmId._id };
 
+    // Add document type filter (invoice, quotation, credit_note, ...)
+    if (type && type !== 'all') {
+      query.type = type;
+    }
+
     // Add search filter
     if (search) {
       query.$or = [
@@ -44,6 +109,11 @@ router.get('/', auth, async (req, res) => {
       }
     }
 
+    const scope = await invoiceScopeFor(req);
+    if (scope) {
+      query.$and = [scope];
+    }
+
     // Build sort object
     const sortObj = {};
     sortObj[sortBy] = sortOrder === 'desc' ? -1 : 1;
@@ -59,6 +129,7 @@ router.get('/', auth, async (req, res) => {
         // Use fullName as the primary name field, fallback to name
       })
       .populate('createdBy', 'fullName email')
+      .select('-einvoice.signedInvoice')
       .sort(sortObj)
       .skip(skip)
       .limit(parseInt(limit));
@@ -86,14 +157,173 @@ router.get('/', auth, async (req, res) => {
   }
 });
 
+const parseClientIds = (value) => {
+  if (!value) return undefined;
+  return (Array.isArray(value) ? value : String(value).split(',')).filter(Boolean);
+};
+
+// @desc    Preview draft invoices for completed, billable tasks not yet invoiced
+// @route   GET /api/invoices/unbilled?from=&to=&clients=
+// @access  Private (Owner/Admin)
+router.get('/unbilled', auth, requirePermission('invoice.billUnbilled'), async (req, res) => {
+  try {
+    const drafts = await billingService.previewUnbilled(req.user.firmId._id, {
+      from: req.query.from,
+      to: req.query.to,
+      clientIds: parseClientIds(req.query.clients)
+    });
+
+    res.json({
+      success: true,
+      data: {
+        drafts,
+        taskCount: drafts.reduce((sum, draft) => sum + draft.items.length, 0),
+        totalAmount: drafts.reduce((sum, draft) => sum + draft.totalAmount, 0)
+      }
+    });
+  } catch (error) {
+    console.error('Preview unbilled work error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error.message
+    });
+  }
+});
+
+// @desc    Create draft invoices for unbilled work and mark the tasks invoiced
+// @route   POST /api/invoices/unbilled
+// @access  Private (Owner/Admin)
+router.post('/unbilled', auth, requirePermission('invoice.billUnbilled'), async (req, res) => {
+  try {
+    const { from, to, clients, overrides, notes } = req.body;
+    const invoices = await billingService.generateInvoices(req.user.firmId._id, req.user._id, {
+      from,
+      to,
+      clientIds: parseClientIds(clients),
+      overrides,
+      notes
+    });
+
+    const populated = await Invoice.find({ _id: { $in: invoices.map(invoice => invoice._id) } })
+      .populate('client', 'name email')
+      .sort({ invoiceNumber: 1 });
+
+    res.status(201).json({
+      success: true,
+      message: `Created ${populated.length} draft invoice${populated.length === 1 ? '' : 's'}`,
+      data: { invoices: populated }
+    });
+  } catch (error) {
+    if (error.statusCode) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message
+      });
+    }
+    console.error('Bill unbilled work error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error.message
+    });
+  }
+});
+
+// @desc    Run today's scheduled payment reminders for the firm now
+// @route   POST /api/invoices/reminders/run
+// @access  Private (Owner/Admin)
+router.post('/reminders/run', auth, requirePermission('invoice.send'), async (req, res) => {
+  try {
+    const firmId = req.user.firmId._id;
+    const markedOverdue = await invoiceReminderService.markOverdueInvoices(firmId);
+    const summary = await invoiceReminderService.runForFirm(firmId);
+
+    res.json({
+      success: true,
+      message: `Sent ${summary.sent} reminder${summary.sent === 1 ? '' : 's'}`,
+      data: { ...summary, markedOverdue }
+    });
+  } catch (error) {
+    console.error('Run invoice reminders error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error.message
+    });
+  }
+});
+
+// @desc    Preview the next number of every series for the current financial year
+// @route   POST /api/invoices/number-series/preview
+// @access  Private (Owner/Admin)
+router.post('/number-series/preview', auth, requirePermission('settings.manage'), async (req, res) => {
+  try {
+    // An unsaved config from the settings screen can be previewed before saving
+    const draft = req.body?.numbering && typeof req.body.numbering === 'object' ? req.body.numbering : null;
+    const preview = await previewNumberSeries(req.user.firmId._id, draft);
+
+    res.json({
+      success: true,
+      data: preview
+    });
+  } catch (error) {
+    console.error('Preview number series error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error.message
+    });
+  }
+});
+
+// @desc    Work out the place of supply a new invoice for this client would get
+// @route   GET /api/invoices/place-of-supply?client=&collectionMethod=
+// @access  Private
+router.get('/place-of-supply', auth, requirePermission('invoice.create'), async (req, res) => {
+  try {
+    const { client, collectionMethod = 'account_1', stateCode } = req.query;
+    if (!mongoose.Types.ObjectId.isValid(client) || !(await Client.exists({ _id: client, firmId: req.user.firmId._id }))) {
+      return res.status(400).json({
+        success: false,
+        message: 'A valid client is required'
+      });
+    }
+    if (!(await canAccessClient(req.user, client))) {
+      return clientAccessDenied(res);
+    }
+
+    const placeOfSupply = await resolvePlaceOfSupply({
+      firm: req.user.firmId._id,
+      collectionMethod,
+      client,
+      manualStateCode: stateCode
+    });
+
+    res.json({
+      success: true,
+      data: placeOfSupply
+    });
+  } catch (error) {
+    console.error('Resolve place of supply error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error.message
+    });
+  }
+});
+
 // @desc    Get single invoice
 // @route   GET /api/invoices/:id
 // @access  Private
 router.get('/:id', auth, async (req, res) => {
   try {
+    const scope = await invoiceScopeFor(req);
     const invoice = await Invoice.findOne({
       _id: req.params.id,
-      firm: req.user.firmId._id
+      firm: req.user.firmId._id,
+      ...(scope || {})
     })
       .populate({
         path: 'client',
@@ -129,6 +359,9 @@ router.get('/:id', auth, async (req, res) => {
 router.get('/last-pricing/:clientId/:taskId', auth, async (req, res) => {
   try {
     const { clientId, taskId } = req.params;
+    if (!(await canAccessClient(req.user, clientId))) {
+      return clientAccessDenied(res);
+    }
 
     // Find the most recent invoice for this client with an item linked to this task
     const lastInvoice = await Invoice.findOne({
@@ -196,6 +429,9 @@ router.get('/last-pricing/:clientId', auth, async (req, res) => {
   try {
     const { clientId } = req.params;
     const { category, subCategory } = req.query;
+    if (!(await canAccessClient(req.user, clientId))) {
+      return clientAccessDenied(res);
+    }
 
     // Build query
     const query = {
@@ -275,10 +511,10 @@ router.get('/last-pricing/:clientId', auth, async (req, res) => {
 // @desc    Create invoice
 // @route   POST /api/invoices
 // @access  Private
-router.post('/', auth, async (req, res) => {
+router.post('/', auth, requirePermission('invoice.create'), async (req, res) => {
   console.log('📝 Creating new invoice:', { type: req.body.type, client: req.body.client });
   try {
-    const { collectionMethod, type, client, ...invoiceBody } = req.body;
+    const { collectionMethod, type, client, ...invoiceBody } = sanitizeGstFields({ ...req.body });
     
     if (!client) {
       console.log('❌ Validation failed: Client is missing');
@@ -287,6 +523,14 @@ router.post('/', auth, async (req, res) => {
         message: 'Client is required to create an invoice'
       });
     }
+    if (!(await canAccessClient(req.user, client))) {
+      return clientAccessDenied(res);
+    }
+
+    // Lines with an HSN/SAC code but no rate take the master's rate on the issue date
+    if (Array.isArray(invoiceBody.items)) {
+      invoiceBody.items = await hsnService.applyRates(invoiceBody.items, invoiceBody.issueDate || new Date());
+    }
 
     // Calculate subtotal if not provided
     let subtotal = invoiceBody.subtotal || 0;
@@ -311,7 +555,7 @@ router.post('/', auth, async (req, res) => {
     if (!taxAmount && invoiceBody.items && Array.isArray(invoiceBody.items)) {
       taxAmount = invoiceBody.items.reduce((sum, item) => {
         if (item.taxable) {
-          return sum + ((item.amount || 0) * (item.taxRate || 18)) / 100;
+          return sum + ((item.amount || 0) * (item.taxRate ?? 18)) / 100;
         }
         return sum;
       }, 0);
@@ -445,19 +689,22 @@ const callRazorpayWithTimeout = async (task, timeoutMs = 10000) => {
 // @desc    Update invoice
 // @route   PUT /api/invoices/:id
 // @access  Private
-router.put('/:id', auth, async (req, res) => {
+router.put('/:id', auth, requirePermission('invoice.create'), withInvoiceAccess, async (req, res) => {
   console.log('📝 Updating invoice:', req.params.id);
   try {
     const { type, collectionMethod, client } = req.body;
     
     // Remove immutable fields
-    const updateData = { ...req.body };
+    const updateData = sanitizeGstFields({ ...req.body });
     delete updateData._id;
     delete updateData.invoiceNumber;
     delete updateData.firm;
     delete updateData.createdBy;
     delete updateData.createdAt;
     delete updateData.updatedAt;
+    delete updateData.creditedAmount;
+    delete updateData.creditNote;
+    delete updateData.einvoice;
 
     // Basic validation
     if (client === '') {
@@ -466,20 +713,27 @@ router.put('/:id', auth, async (req, res) => {
         message: 'Client cannot be empty'
       });
     }
+    if (client && !(await canAccessClient(req.user, client))) {
+      return clientAccessDenied(res);
+    }
 
-    console.log('💾 Updating database record...');
-    const invoice = await Invoice.findOneAndUpdate(
-      { _id: req.params.id, firm: req.user.firmId._id },
-      updateData,
-      { new: true, runValidators: true }
-    )
-      .populate({
-        path: 'client',
-        select: 'fullName name email phone'
-      })
-      .populate('createdBy', 'fullName email');
+    if (await Invoice.exists({ _id: req.params.id, firm: req.user.firmId._id, type: 'credit_note' })) {
+      return res.status(400).json({
+        success: false,
+        message: 'Credit notes cannot be edited'
+      });
+    }
 
-    if (!invoice) {
+    // The IRP holds the registered copy; it can only be cancelled, not amended
+    if (await Invoice.exists({ _id: req.params.id, firm: req.user.firmId._id, 'einvoice.status': 'generated' })) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invoices with an IRN cannot be edited. Cancel the IRN or issue a credit note.'
+      });
+    }
+
+    const existing = await Invoice.findOne({ _id: req.params.id, firm: req.user.firmId._id });
+    if (!existing) {
       console.log('❌ Invoice not found');
       return res.status(404).json({
         success: false,
@@ -487,6 +741,18 @@ router.put('/:id', auth, async (req, res) => {
       });
     }
 
+    // Save through the document so totals, the GST split and place of supply are recalculated
+    console.log('💾 Updating database record...');
+    existing.set(updateData);
+    await existing.save();
+
+    const invoice = await Invoice.findById(existing._id)
+      .populate({
+        path: 'client',
+        select: 'fullName name email phone'
+      })
+      .populate('createdBy', 'fullName email');
+
     // Handle Razorpay link generation if it's a quotation and status is 'sent'
     let razorpayResult = null;
     if (invoice.type === 'quotation' && req.body.status === 'sent' && !invoice.razorpayData?.paymentLinkId) {
@@ -564,8 +830,28 @@ router.put('/:id', auth, async (req, res) => {
 // @desc    Delete invoice
 // @route   DELETE /api/invoices/:id
 // @access  Private
-router.delete('/:id', auth, async (req, res) => {
+router.delete('/:id', auth, requirePermission('invoice.delete'), withInvoiceAccess, async (req, res) => {
   try {
+    // Credit notes, and invoices they were issued against, stay on the books
+    const credited = await Invoice.exists({
+      _id: req.params.id,
+      firm: req.user.firmId._id,
+      $or: [{ type: 'credit_note' }, { creditedAmount: { $gt: 0 } }]
+    });
+    if (credited) {
+      return res.status(400).json({
+        success: false,
+        message: 'Credit notes and credited invoices cannot be deleted'
+      });
+    }
+
+    if (await Invoice.exists({ _id: req.params.id, firm: req.user.firmId._id, 'einvoice.status': 'generated' })) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invoices with an IRN cannot be deleted'
+      });
+    }
+
     const invoice = await Invoice.findOneAndDelete({
       _id: req.params.id,
       firm: req.user.firmId._id
@@ -594,14 +880,74 @@ router.delete('/:id', auth, async (req, res) => {
 
 // @desc    Update invoice status
 // @route   PATCH /api/invoices/:id/status
-// @access  Private
-router.patch('/:id/status', auth, async (req, res) => {
+// @access  Private (approving or rejecting needs invoice.approve)
+router.patch('/:id/status', auth, withInvoiceAccess, async (req, res) => {
   try {
-    const { status } = req.body;
+    const { status, reason } = req.body;
+
+    const current = await Invoice.findOne({ _id: req.params.id, firm: req.user.firmId._id }).select('type status');
+    if (!current) {
+      return res.status(404).json({
+        success: false,
+        message: 'Invoice not found'
+      });
+    }
+    if (current.type === 'credit_note') {
+      return res.status(400).json({
+        success: false,
+        message: 'The status of a credit note cannot be changed'
+      });
+    }
+
+    // Cancelling goes through the credit note service so issued tax is reversed
+    if (status === 'cancelled' && current.type === 'invoice') {
+      if (CREDITABLE_STATUSES.includes(current.status)) {
+        return res.status(400).json({
+          success: false,
+          message: 'Issued invoices are cancelled with a credit note. Use Cancel invoice instead.'
+        });
+      }
+      if (!req.can('invoice.adjust')) {
+        return res.status(403).json({
+          success: false,
+          message: 'Access denied. Missing permission: invoice.adjust'
+        });
+      }
+      const { invoice } = await creditNoteService.cancelInvoice(req.user.firmId._id, req.user._id, req.params.id, { reason });
+      await invoice.populate([
+        { path: 'client', select: 'fullName name email phone' },
+        { path: 'createdBy', select: 'fullName email' }
+      ]);
+      return res.json({
+        success: true,
+        data: invoice,
+        message: 'Invoice status updated successfully'
+      });
+    }
+
+    const update = { status };
+    if (['approved', 'rejected'].includes(status)) {
+      if (!req.can('invoice.approve')) {
+        return res.status(403).json({
+          success: false,
+          message: 'Access denied. Missing permission: invoice.approve'
+        });
+      }
+      if (status === 'approved') {
+        update['adminApproval.status'] = 'approved';
+        update['adminApproval.approvedBy'] = req.user._id;
+        update['adminApproval.approvedAt'] = new Date();
+      } else {
+        update['adminApproval.status'] = 'rejected';
+        update['adminApproval.rejectedBy'] = req.user._id;
+        update['adminApproval.rejectedAt'] = new Date();
+        update['adminApproval.rejectionReason'] = reason;
+      }
+    }
 
     const invoice = await Invoice.findOneAndUpdate(
       { _id: req.params.id, firm: req.user.firmId._id },
-      { status },
+      update,
       { new: true, runValidators: true }
     )
       .populate({
@@ -623,6 +969,12 @@ router.patch('/:id/status', auth, async (req, res) => {
       message: 'Invoice status updated successfully'
     });
   } catch (error) {
+    if (error.statusCode) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message
+      });
+    }
     console.error('Update invoice status error:', error);
     res.status(500).json({
       success: false,
@@ -635,7 +987,7 @@ router.patch('/:id/status', auth, async (req, res) => {
 // @desc    Add payment to invoice
 // @route   POST /api/invoices/:id/payments
 // @access  Private
-router.post('/:id/payments', auth, async (req, res) => {
+router.post('/:id/payments', auth, requirePermission('invoice.collect'), withInvoiceAccess, async (req, res) => {
   try {
     const { amount, method, reference, notes } = req.body;
 
@@ -689,10 +1041,319 @@ router.post('/:id/payments', auth, async (req, res) => {
   }
 });
 
+// @desc    Send a payment reminder for an invoice now
+// @route   POST /api/invoices/:id/send-reminder
+// @access  Private (Owner/Admin)
+router.post('/:id/send-reminder', auth, requirePermission('invoice.send'), withInvoiceAccess, async (req, res) => {
+  try {
+    const invoice = await Invoice.findOne({
+      _id: req.params.id,
+      firm: req.user.firmId._id,
+      type: 'invoice'
+    })
+      .populate('client', 'name email phone address billingAddress gstNumber')
+      .populate('firm', 'name email address gstNumber bankDetails');
+
+    if (!invoice) {
+      return res.status(404).json({
+        success: false,
+        message: 'Invoice not found'
+      });
+    }
+
+    const result = await invoiceReminderService.sendReminder(invoice, { type: 'payment_reminder' });
+    if (!result.success) {
+      return res.status(400).json({
+        success: false,
+        message: result.error || 'Failed to send reminder'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: `Reminder sent to ${result.reminder.sentTo}`,
+      data: result
+    });
+  } catch (error) {
+    console.error('Send invoice reminder error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error.message
+    });
+  }
+});
+
+const sendCreditNoteError = (res, error, label) => {
+  if (error.statusCode) {
+    return res.status(error.statusCode).json({
+      success: false,
+      message: error.message
+    });
+  }
+  console.error(`${label} error:`, error);
+  res.status(500).json({
+    success: false,
+    message: 'Server error',
+    error: error.message
+  });
+};
+
+const refundMessage = (creditNote) => {
+  const refund = creditNote?.creditNote?.refund;
+  if (!refund?.status) return '';
+  if (refund.status === 'failed') return ` - refund failed: ${refund.error}`;
+  return refund.status === 'processed' ? ` and ₹${refund.amount} refunded` : ` - refund of ₹${refund.amount} initiated`;
+};
+
+// @desc    Get credit notes issued against an invoice
+// @route   GET /api/invoices/:id/credit-notes
+// @access  Private
+router.get('/:id/credit-notes', auth, withInvoiceAccess, async (req, res) => {
+  try {
+    const creditNotes = await Invoice.find({
+      firm: req.user.firmId._id,
+      type: 'credit_note',
+      'creditNote.originalInvoice': req.params.id
+    })
+      .populate('createdBy', 'fullName email')
+      .sort({ issueDate: -1 });
+
+    res.json({
+      success: true,
+      data: creditNotes
+    });
+  } catch (error) {
+    console.error('Get credit notes error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error.message
+    });
+  }
+});
+
+// @desc    Issue a full or partial credit note against an invoice, optionally refunding the client
+// @route   POST /api/invoices/:id/credit-notes
+// @access  Private (Owner/Admin)
+router.post('/:id/credit-notes', auth, requirePermission('invoice.adjust'), withInvoiceAccess, async (req, res) => {
+  try {
+    const { full, items, reason, refund, issueDate } = req.body;
+    const { creditNote, invoice } = await creditNoteService.createCreditNote(
+      req.user.firmId._id,
+      req.user._id,
+      req.params.id,
+      { full: !!full, items, reason, refund, issueDate }
+    );
+
+    res.status(201).json({
+      success: true,
+      message: `Credit note ${creditNote.invoiceNumber} issued${refundMessage(creditNote)}`,
+      data: { creditNote, invoice }
+    });
+  } catch (error) {
+    sendCreditNoteError(res, error, 'Create credit note');
+  }
+});
+
+// @desc    Cancel an invoice (issued invoices are reversed with a full credit note)
+// @route   POST /api/invoices/:id/cancel
+// @access  Private (Owner/Admin)
+router.post('/:id/cancel', auth, requirePermission('invoice.adjust'), withInvoiceAccess, async (req, res) => {
+  try {
+    const { reason, refund } = req.body;
+    const { creditNote, invoice } = await creditNoteService.cancelInvoice(
+      req.user.firmId._id,
+      req.user._id,
+      req.params.id,
+      { reason, refund }
+    );
+
+    res.json({
+      success: true,
+      message: creditNote
+        ? `Invoice cancelled with credit note ${creditNote.invoiceNumber}${refundMessage(creditNote)}`
+        : 'Invoice cancelled',
+      data: { creditNote, invoice }
+    });
+  } catch (error) {
+    sendCreditNoteError(res, error, 'Cancel invoice');
+  }
+});
+
+// @desc    Retry a failed refund on a credit note
+// @route   POST /api/invoices/:id/refund
+// @access  Private (Owner/Admin)
+router.post('/:id/refund', auth, requirePermission('invoice.adjust'), withInvoiceAccess, async (req, res) => {
+  try {
+    const creditNote = await creditNoteService.retryRefund(req.user.firmId._id, req.params.id);
+    const refund = creditNote.creditNote.refund;
+
+    res.status(refund.status === 'failed' ? 502 : 200).json({
+      success: refund.status !== 'failed',
+      message: refund.status === 'failed' ? `Refund failed: ${refund.error}` : `Refund ${refund.status}`,
+      data: creditNote
+    });
+  } catch (error) {
+    sendCreditNoteError(res, error, 'Retry refund');
+  }
+});
+
+// IRP and schema rejections come back with the list of problems to fix
+const sendEinvoiceError = (res, error, label) => {
+  if (error.statusCode) {
+    return res.status(error.statusCode).json({
+      success: false,
+      message: error.message,
+      ...(error.details?.errors ? { errors: error.details.errors } : {})
+    });
+  }
+  console.error(`${label} error:`, error);
+  res.status(500).json({
+    success: false,
+    message: 'Server error',
+    error: error.message
+  });
+};
+
+// @desc    Get the firm's GSP settings (the client secret and password are never returned)
+// @route   GET /api/invoices/einvoice/config
+// @access  Private (Owner/Admin)
+router.get('/einvoice/config', auth, requirePermission('settings.manage'), async (req, res) => {
+  try {
+    const config = await einvoiceService.getPublicConfig(req.user.firmId._id);
+    res.json({
+      success: true,
+      data: config
+    });
+  } catch (error) {
+    sendEinvoiceError(res, error, 'Get e-invoice settings');
+  }
+});
+
+// @desc    Save the firm's GSP account and e-invoice API user
+// @route   PUT /api/invoices/einvoice/config
+// @access  Private (Owner/Admin)
+router.put('/einvoice/config', auth, requirePermission('settings.manage'), async (req, res) => {
+  try {
+    const { baseUrl, clientId, clientSecret, username, password } = req.body;
+    const config = await einvoiceService.updateConfig(req.user.firmId._id, req.user._id, {
+      baseUrl,
+      clientId,
+      clientSecret,
+      username,
+      password
+    });
+
+    res.json({
+      success: true,
+      message: 'E-invoice settings updated',
+      data: config
+    });
+  } catch (error) {
+    sendEinvoiceError(res, error, 'Update e-invoice settings');
+  }
+});
+
+// @desc    Get the e-invoice status, QR image and schema problems for an invoice
+// @route   GET /api/invoices/:id/einvoice
+// @access  Private
+router.get('/:id/einvoice', auth, withInvoiceAccess, async (req, res) => {
+  try {
+    const details = await einvoiceService.getDetails(req.user.firmId._id, req.params.id);
+
+    res.json({
+      success: true,
+      data: details
+    });
+  } catch (error) {
+    sendEinvoiceError(res, error, 'Get e-invoice');
+  }
+});
+
+// @desc    Download the e-invoice schema JSON for upload on the IRP or the offline tool
+// @route   GET /api/invoices/:id/einvoice/json
+// @access  Private
+router.get('/:id/einvoice/json', auth, withInvoiceAccess, async (req, res) => {
+  try {
+    const { invoice, payload, errors } = await einvoiceService.preparePayload(req.user.firmId._id, req.params.id);
+    if (errors.length > 0) {
+      return res.status(422).json({
+        success: false,
+        message: 'Fix the e-invoice errors before downloading the JSON',
+        errors
+      });
+    }
+
+    // The IRP bulk upload takes an array of documents
+    res.setHeader('Content-Type', 'application/json');
+    res.setHeader('Content-Disposition', `attachment; filename="einvoice_${invoice.invoiceNumber.replace(/[^\w-]/g, '_')}.json"`);
+    res.send(JSON.stringify([payload], null, 2));
+  } catch (error) {
+    sendEinvoiceError(res, error, 'Download e-invoice JSON');
+  }
+});
+
+// @desc    Generate the IRN through the configured GSP
+// @route   POST /api/invoices/:id/einvoice/generate
+// @access  Private (Owner/Admin)
+router.post('/:id/einvoice/generate', auth, requirePermission('invoice.create'), withInvoiceAccess, async (req, res) => {
+  try {
+    const invoice = await einvoiceService.generate(req.user.firmId._id, req.user._id, req.params.id);
+
+    res.json({
+      success: true,
+      message: `IRN generated, acknowledgement ${invoice.einvoice.ackNo}`,
+      data: invoice
+    });
+  } catch (error) {
+    sendEinvoiceError(res, error, 'Generate IRN');
+  }
+});
+
+// @desc    Record an IRN, acknowledgement and signed QR obtained from the portal or a GSP
+// @route   POST /api/invoices/:id/einvoice/import
+// @access  Private (Owner/Admin)
+router.post('/:id/einvoice/import', auth, requirePermission('invoice.create'), withInvoiceAccess, async (req, res) => {
+  try {
+    const invoice = await einvoiceService.importIrn(req.user.firmId._id, req.user._id, req.params.id, req.body);
+
+    res.json({
+      success: true,
+      message: 'IRN recorded',
+      data: invoice
+    });
+  } catch (error) {
+    sendEinvoiceError(res, error, 'Import IRN');
+  }
+});
+
+// @desc    Cancel an IRN through the GSP, or record a cancellation made on the portal
+// @route   POST /api/invoices/:id/einvoice/cancel
+// @access  Private (Owner/Admin)
+router.post('/:id/einvoice/cancel', auth, requirePermission('invoice.adjust'), withInvoiceAccess, async (req, res) => {
+  try {
+    const { reason, remarks, recordOnly } = req.body;
+    const invoice = await einvoiceService.cancel(req.user.firmId._id, req.params.id, {
+      reason,
+      remarks,
+      recordOnly: !!recordOnly
+    });
+
+    res.json({
+      success: true,
+      message: 'IRN cancelled',
+      data: invoice
+    });
+  } catch (error) {
+    sendEinvoiceError(res, error, 'Cancel IRN');
+  }
+});
+
 // @desc    Bulk delete invoices
 // @route   POST /api/invoices/bulk-delete
 // @access  Private
-router.post('/bulk-delete', auth, async (req, res) => {
+router.post('/bulk-delete', auth, requirePermission('invoice.delete'), async (req, res) => {
   try {
     const { invoiceIds } = req.body;
 
@@ -704,9 +1365,14 @@ router.post('/bulk-delete', auth, async (req, res) => {
     }
 
     // Delete invoices that belong to the user's firm
+    const scope = await invoiceScopeFor(req);
     const result = await Invoice.deleteMany({
       _id: { $in: invoiceIds },
-      firm: req.user.firmId._id
+      firm: req.user.firmId._id,
+      type: { $ne: 'credit_note' },
+      creditedAmount: { $not: { $gt: 0 } },
+      'einvoice.status': { $ne: 'generated' },
+      ...(scope ? { $and: [scope] } : {})
     });
 
     res.json({
@@ -754,10 +1420,16 @@ router.post('/bulk-status', auth, async (req, res) => {
     }
 
     // Update invoices that belong to the user's firm
+    const scope = await invoiceScopeFor(req);
     const result = await Invoice.updateMany(
       {
         _id: { $in: invoiceIds },
-        firm: req.user.firmId._id
+        firm: req.user.firmId._id,
+        type: { $ne: 'credit_note' },
+        'einvoice.status': { $ne: 'generated' },
+        // Issued invoices are only cancelled with a credit note (POST /:id/cancel)
+        ...(status === 'cancelled' ? { $nor: [{ type: 'invoice', status: { $in: CREDITABLE_STATUSES } }] } : {}),
+        ...(scope ? { $and: [scope] } : {})
       },
       { 
         status,
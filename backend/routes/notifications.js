@@ -2,9 +2,18 @@ import express from 'express';
 import protect from '../middleware/auth.js';
 import NotificationService from '../services/notificationService.js';
 import EmailService from '../services/emailService.js';
+import PushService from '../services/pushService.js';
 
 const router = express.Router();
 
+const sendPushError = (res, error, fallback) => {
+  if (error.statusCode) {
+    return res.status(error.statusCode).json({ message: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ message: fallback, error: error.message });
+};
+
 // Get user notifications
 router.get('/', protect, async (req, res) => {
   try {
@@ -193,4 +202,60 @@ router.post('/create', protect, async (req, res) => {
   }
 });
 
+// Public VAPID key the browser needs to create a push subscription
+router.get('/push/public-key', protect, (req, res) => {
+  const publicKey = PushService.getPublicKey();
+  res.json({ configured: !!publicKey, publicKey });
+});
+
+// List the devices subscribed to push for the current user
+router.get('/push/devices', protect, async (req, res) => {
+  try {
+    const devices = await PushService.listDevices(req.user._id);
+    res.json(devices);
+  } catch (error) {
+    sendPushError(res, error, 'Error fetching push devices');
+  }
+});
+
+// Register this browser for push notifications
+router.post('/push/devices', protect, async (req, res) => {
+  try {
+    const device = await PushService.subscribe(req.user, req.body, req.get('user-agent') || '');
+    res.status(201).json({
+      _id: device._id,
+      endpoint: device.endpoint,
+      deviceName: device.deviceName,
+      userAgent: device.userAgent,
+      createdAt: device.createdAt
+    });
+  } catch (error) {
+    sendPushError(res, error, 'Error registering push device');
+  }
+});
+
+// Revoke a device so it stops receiving push notifications
+router.delete('/push/devices/:id', protect, async (req, res) => {
+  try {
+    await PushService.revoke(req.user._id, req.params.id);
+    res.json({ message: 'Device removed' });
+  } catch (error) {
+    sendPushError(res, error, 'Error removing push device');
+  }
+});
+
+// Send a test push to all of the current user's devices
+router.post('/push/test', protect, async (req, res) => {
+  try {
+    const result = await PushService.sendToUser(req.user._id, {
+      title: 'Test notification',
+      body: 'Push notifications are working on this device.',
+      tag: 'push-test'
+    });
+    res.json({ message: `Test notification sent to ${result.sent} device(s)`, ...result });
+  } catch (error) {
+    sendPushError(res, error, 'Error sending test push');
+  }
+});
+
 export default router;
\ No newline at end of file
@@ -1,10 +1,12 @@
 import express from 'express';
 import { body, validationResult } from 'express-validator';
 import auth from '../middleware/auth.js';
-import { requireEmployeeOrAbove } from '../middleware/authorize.js';
+import { requirePermission } from '../middleware/authorize.js';
 import razorpayService from '../services/razorpayService.js';
 import Invoice from '../models/Invoice.js';
 import User from '../models/User.js';
+import emailService from '../services/emailService.js';
+import { getPortalClient } from '../utils/portalClient.js';
 
 const router = express.Router();
 
@@ -32,7 +34,18 @@ router.post('/create-order', auth, [
       .populate('client', 'fullName email phone')
       .populate('firm', 'name');
 
-    if (!invoice) {
+    // Only the firm's own invoices, and for portal users only their own payable invoices
+    const firmId = req.user.firmId?._id || req.user.firmId;
+    let canPay = !!invoice && String(invoice.firm._id) === String(firmId);
+    if (canPay && req.user.role === 'client') {
+      const portalClient = await getPortalClient(req);
+      canPay = !!portalClient
+        && String(portalClient._id) === String(invoice.client._id)
+        && invoice.type === 'invoice'
+        && ['sent', 'partially_paid', 'overdue'].includes(invoice.status);
+    }
+
+    if (!canPay) {
       return res.status(404).json({
         success: false,
         message: 'Invoice not found'
@@ -97,7 +110,7 @@ router.post('/create-order', auth, [
 // @desc    Create payment link for invoice
 // @route   POST /api/payments/create-payment-link
 // @access  Private (Employee+)
-router.post('/create-payment-link', auth, requireEmployeeOrAbove, [
+router.post('/create-payment-link', auth, requirePermission('invoice.collect'), [
   body('invoiceId').isMongoId(),
 ], async (req, res) => {
   try {
@@ -253,6 +266,32 @@ router.post('/verify', async (req, res) => {
 
     await invoice.save();
 
+    const recordedPayment = invoice.payments[invoice.payments.length - 1];
+
+    // Email the client a payment confirmation; the receipt is also downloadable from the portal
+    try {
+      await invoice.populate([
+        { path: 'client', select: 'name email' },
+        { path: 'firm', select: 'name' }
+      ]);
+      if (invoice.client?.email) {
+        await emailService.sendPaymentConfirmationToClient({
+          clientEmail: invoice.client.email,
+          clientName: invoice.client.name,
+          firmName: invoice.firm?.name,
+          invoiceNumber: invoice.invoiceNumber,
+          paymentAmount: recordedPayment.amount,
+          paymentDate: recordedPayment.date,
+          paymentMethod: payment.method,
+          transactionId: razorpay_payment_id,
+          invoiceId: invoice._id,
+          firmId: invoice.firm?._id
+        });
+      }
+    } catch (emailError) {
+      console.error('Payment confirmation email error:', emailError);
+    }
+
     res.json({
       success: true,
       message: 'Payment verified and invoice updated successfully',
@@ -263,6 +302,12 @@ router.post('/verify', async (req, res) => {
           status: invoice.status,
           paidAmount: invoice.paidAmount,
           balanceAmount: invoice.balanceAmount
+        },
+        payment: {
+          id: recordedPayment._id,
+          amount: recordedPayment.amount,
+          date: recordedPayment.date,
+          reference: recordedPayment.reference
         }
       }
     });
@@ -305,6 +350,7 @@ router.post('/webhook', express.raw({ type: 'application/json' }), async (req, r
         await handlePaymentFailed(event.payload.payment.entity);
         break;
       case 'refund.created':
+      case 'refund.processed':
         await handleRefundCreated(event.payload.refund.entity);
         break;
       default:
@@ -351,9 +397,16 @@ async function handleRefundCreated(refund) {
     const invoice = await Invoice.findOne({ 'razorpay.paymentId': refund.payment_id });
     if (invoice) {
       const refundAmount = razorpayService.formatAmount(refund.amount);
-      // Add logic to update invoice with refund information
       console.log(`Refund created for invoice ${invoice.invoiceNumber}: ₹${refundAmount}`);
     }
+
+    // Refunds issued from a credit note are confirmed here when Razorpay processes them
+    if (refund.status === 'processed') {
+      await Invoice.updateOne(
+        { type: 'credit_note', 'creditNote.refund.razorpayRefundId': refund.id },
+        { $set: { 'creditNote.refund.status': 'processed', 'creditNote.refund.processedAt': new Date() } }
+      );
+    }
   } catch (error) {
     console.error('Error handling refund created:', error);
   }
@@ -0,0 +1,155 @@
+import express from 'express';
+import auth from '../middleware/auth.js';
+import authorize from '../middleware/authorize.js';
+import permissionService from '../services/permissionService.js';
+
+const router = express.Router();
+
+// Only owners can change who may do what, so a role can never grant itself more
+const requireMatrixAccess = authorize('owner', 'superadmin');
+
+const getFirmId = (req) => req.user.firmId?._id || req.user.firmId;
+
+const requestMeta = (req) => ({
+  ipAddress: req.ip,
+  userAgent: req.headers['user-agent']
+});
+
+const sendError = (res, error, label) => {
+  if (error.statusCode) {
+    return res.status(error.statusCode).json({
+      success: false,
+      message: error.message
+    });
+  }
+  console.error(`${label} error:`, error);
+  res.status(500).json({
+    success: false,
+    message: 'Server error',
+    error: error.message
+  });
+};
+
+// @desc    Get the current user's permissions
+// @route   GET /api/permissions/me
+// @access  Private
+router.get('/me', auth, async (req, res) => {
+  try {
+    const roles = await permissionService.getFirmRoles(getFirmId(req));
+    const customRole = req.user.customRole && roles.byId.get(String(req.user.customRole));
+
+    res.json({
+      success: true,
+      data: {
+        role: req.user.role,
+        customRole: customRole ? { key: customRole.key, name: customRole.name } : null,
+        permissions: [...req.permissions]
+      }
+    });
+  } catch (error) {
+    sendError(res, error, 'Get my permissions');
+  }
+});
+
+// @desc    Get the firm's permission matrix
+// @route   GET /api/permissions
+// @access  Private (Owner)
+router.get('/', auth, requireMatrixAccess, async (req, res) => {
+  try {
+    const matrix = await permissionService.getMatrix(getFirmId(req));
+    res.json({
+      success: true,
+      data: matrix
+    });
+  } catch (error) {
+    sendError(res, error, 'Get permission matrix');
+  }
+});
+
+// @desc    Create a custom role
+// @route   POST /api/permissions/roles
+// @access  Private (Owner)
+router.post('/roles', auth, requireMatrixAccess, async (req, res) => {
+  try {
+    const { name, description, baseRole, permissions } = req.body;
+    const role = await permissionService.createRole(
+      getFirmId(req),
+      { name, description, baseRole, permissions },
+      req.user,
+      requestMeta(req)
+    );
+
+    res.status(201).json({
+      success: true,
+      message: `Role "${role.name}" created`,
+      data: role
+    });
+  } catch (error) {
+    sendError(res, error, 'Create role');
+  }
+});
+
+// @desc    Update a built-in or custom role's permissions
+// @route   PUT /api/permissions/roles/:key
+// @access  Private (Owner)
+router.put('/roles/:key', auth, requireMatrixAccess, async (req, res) => {
+  try {
+    const { name, description, permissions } = req.body;
+    const role = await permissionService.updateRole(
+      getFirmId(req),
+      req.params.key,
+      { name, description, permissions },
+      req.user,
+      requestMeta(req)
+    );
+
+    res.json({
+      success: true,
+      message: `Role "${role.name}" updated`,
+      data: role
+    });
+  } catch (error) {
+    sendError(res, error, 'Update role');
+  }
+});
+
+// @desc    Delete a custom role (its members keep their base role)
+// @route   DELETE /api/permissions/roles/:key
+// @access  Private (Owner)
+router.delete('/roles/:key', auth, requireMatrixAccess, async (req, res) => {
+  try {
+    const result = await permissionService.deleteRole(getFirmId(req), req.params.key, req.user, requestMeta(req));
+    res.json({
+      success: true,
+      message: 'Role deleted',
+      data: result
+    });
+  } catch (error) {
+    sendError(res, error, 'Delete role');
+  }
+});
+
+// @desc    Assign a staff member to a role
+// @route   PUT /api/permissions/users/:userId/role
+// @access  Private (Owner)
+router.put('/users/:userId/role', auth, requireMatrixAccess, async (req, res) => {
+  try {
+    const user = await permissionService.assignRole(
+      getFirmId(req),
+      req.params.userId,
+      req.body.role,
+      req.user,
+      requestMeta(req)
+    );
+
+    res.json({
+      success: true,
+      message: 'Role assigned',
+      data: { _id: user._id, role: user.role, customRole: user.customRole }
+    });
+  } catch (error) {
+    sendError(res, error, 'Assign role');
+  }
+});
+
+export default router;
@@ -158,11 +158,10 @@ router.delete('/:id', auth, async (req, res) => {
 // Create CA preset patterns for a firm
 router.post('/create-presets', auth, async (req, res) => {
   try {
-    // Only allow admins/owners to create presets
-    if (!['admin', 'owner', 'superadmin'].includes(req.user.role)) {
+    if (!req.can('automation.manage')) {
       return res.status(403).json({
         success: false,
-        message: 'Access denied. Admin privileges required.'
+        message: 'Access denied. Missing permission: automation.manage'
       });
     }
     
@@ -2,8 +2,13 @@ import express from 'express';
 import Client from '../models/Client.js';
 import Invoice from '../models/Invoice.js';
 import auth from '../middleware/auth.js';
-import authorize from '../middleware/authorize.js';
+import { requirePermission } from '../middleware/authorize.js';
 import gstService from '../services/gstService.js';
+import gstr1Service from '../services/gstr1Service.js';
+import { buildGstr1PortalJson, generateGstr1Excel, gstr1FileName } from '../utils/gstr1Export.js';
+import { invoiceLineTax } from '../utils/gstTax.js';
+
+const round2 = (value) => Math.round((Number(value) || 0) * 100) / 100;
 
 // Helper: robust parse of possible filing date formats (DD/MM/YYYY, YYYY-MM-DD, or timestamps)
 function parseFilingDate(raw) {
@@ -37,8 +42,23 @@ function parseFilingDate(raw) {
 
 const router = express.Router();
 
+const sendGstr1Error = (res, error, label) => {
+  if (error.statusCode) {
+    return res.status(error.statusCode).json({
+      success: false,
+      message: error.message
+    });
+  }
+  console.error(`${label} error:`, error);
+  res.status(500).json({
+    success: false,
+    message: 'Server error',
+    error: error.message
+  });
+};
+
 // GET /api/reports/gst - Get GST reports (monthly, quarterly, annual)
-router.get('/gst', auth, authorize('owner', 'superadmin'), async (req, res) => {
+router.get('/gst', auth, requirePermission('report.gst'), async (req, res) => {
   try {
     const {
       reportType = 'monthly',
@@ -221,9 +241,11 @@ router.get('/gst', auth, authorize('owner', 'superadmin'), async (req, res) => {
         client: client._id
       }).lean();
       
-      // Calculate totals
+      // Calculate totals from the tax split stored on each line
       let totalAmount = 0;
-      let taxAmount = 0;
+      let cgstAmount = 0;
+      let sgstAmount = 0;
+      let igstAmount = 0;
       let totalWithTax = 0;
       let hasPaid = false;
       let invoiceRaised = false;
@@ -232,13 +254,22 @@ router.get('/gst', auth, authorize('owner', 'superadmin'), async (req, res) => {
       
       if (clientInvoices.length > 0) {
         clientInvoices.forEach(invoice => {
-          const subtotal = invoice.subtotal || 0;
-          const tax = invoice.tax || 0;
-          const total = invoice.total || subtotal + tax;
+          const lines = invoiceLineTax(invoice);
+          const sum = (field) => lines.reduce((total, line) => total + line[field], 0);
+          const taxableValue = sum('taxableValue');
+          const cgst = sum('cgst');
+          const sgst = sum('sgst');
+          const igst = sum('igst');
+          const total = invoice.totalAmount ?? taxableValue + cgst + sgst + igst;
           
-          totalAmount += subtotal;
-          taxAmount += tax;
-          totalWithTax += total;
+          // Credit notes reverse the tax of the invoice they were issued against
+          const sign = invoice.type === 'credit_note' ? -1 : 1;
+          totalAmount += sign * taxableValue;
+          cgstAmount += sign * cgst;
+          sgstAmount += sign * sgst;
+          igstAmount += sign * igst;
+          totalWithTax += sign * total;
+          if (invoice.type === 'credit_note') return;
           
           if (invoice.status === 'paid') hasPaid = true;
           if (invoice.status !== 'draft') invoiceRaised = true;
@@ -359,9 +390,12 @@ router.get('/gst', auth, authorize('owner', 'superadmin'), async (req, res) => {
         hasPaid,
         invoiceRaised,
         quoteRaised,
-        totalAmount,
-        taxAmount,
-        totalWithTax,
+        totalAmount: round2(totalAmount),
+        cgstAmount: round2(cgstAmount),
+        sgstAmount: round2(sgstAmount),
+        igstAmount: round2(igstAmount),
+        taxAmount: round2(cgstAmount + sgstAmount + igstAmount),
+        totalWithTax: round2(totalWithTax),
         status: latestInvoice?.status || 'no_invoice',
         dueDate: latestInvoice?.dueDate,
         createdAt: latestInvoice?.createdAt || new Date(),
@@ -442,4 +476,42 @@ router.get('/gst', auth, authorize('owner', 'superadmin'), async (req, res) => {
   }
 });
 
+// @desc    GSTR-1 outward supplies for a return period, built from the firm's invoices
+// @route   GET /api/reports/gstr1?month=&year=&quarterly=&gstin=
+// @access  Private (report.gst)
+router.get('/gstr1', auth, requirePermission('report.gst'), async (req, res) => {
+  try {
+    const report = await gstr1Service.buildReturn(req.user.firmId?._id || req.user.firmId, req.query);
+
+    res.json({
+      success: true,
+      data: report
+    });
+  } catch (error) {
+    sendGstr1Error(res, error, 'GSTR-1 report');
+  }
+});
+
+// @desc    Download GSTR-1 as offline tool JSON or an Excel workbook
+// @route   GET /api/reports/gstr1/export?format=json|xlsx&month=&year=&quarterly=&gstin=
+// @access  Private (report.gst)
+router.get('/gstr1/export', auth, requirePermission('report.gst'), async (req, res) => {
+  try {
+    const format = req.query.format === 'xlsx' ? 'xlsx' : 'json';
+    const report = await gstr1Service.buildReturn(req.user.firmId?._id || req.user.firmId, req.query);
+
+    const buffer = format === 'xlsx'
+      ? Buffer.from(await generateGstr1Excel(report))
+      : Buffer.from(JSON.stringify(buildGstr1PortalJson(report)));
+
+    res.setHeader('Content-Type', format === 'xlsx'
+      ? 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+      : 'application/json');
+    res.setHeader('Content-Disposition', `attachment; filename="${gstr1FileName(report, format)}"`);
+    res.send(buffer);
+  } catch (error) {
+    sendGstr1Error(res, error, 'GSTR-1 export');
+  }
+});
+
 export default router;
@@ -1,6 +1,6 @@
 import express from 'express';
 import auth from '../middleware/auth.js';
-import { requireOwnerOrAdmin } from '../middleware/authorize.js';
+import { requirePermission } from '../middleware/authorize.js';
 import fs from 'fs/promises';
 import path from 'path';
 import Settings from '../models/Settings.js';
@@ -25,6 +25,31 @@ function mergeDeep(target, source) {
   return target;
 }
 
+// API keys kept in settings are write-only; responses only say whether one is set
+function withoutSecrets(data) {
+  if (!data) return data;
+  let result = data;
+  if (data.ai?.apiKey) {
+    const { apiKey, ...ai } = data.ai;
+    result = { ...result, ai: { ...ai, hasApiKey: true } };
+  }
+  if (data.einvoice) {
+    const { clientSecret, password, ...einvoice } = data.einvoice;
+    result = { ...result, einvoice: { ...einvoice, hasClientSecret: !!clientSecret, hasPassword: !!password } };
+  }
+  return result;
+}
+
+// Categories holding encrypted credentials are written through their own endpoints
+const MANAGED_CATEGORIES = {
+  einvoice: '/api/invoices/einvoice/config'
+};
+
+const rejectManagedCategory = (res, category) => res.status(400).json({
+  success: false,
+  message: `Use ${MANAGED_CATEGORIES[category]} to change ${category} settings`
+});
+
 async function getOrCreateSettings(firmId, userId) {
   let settings = await Settings.findOne({ firm: firmId });
   if (!settings) {
@@ -66,11 +91,11 @@ router.get('/public/branding', auth, async (req, res) => {
 // @route   GET /api/settings
 // @desc    Get all settings
 // @access  Private (Owner/Admin only)
-router.get('/', auth, requireOwnerOrAdmin, async (req, res) => {
+router.get('/', auth, requirePermission('settings.manage'), async (req, res) => {
   try {
     const firmId = req.user && req.user.firmId;
     const settings = await getOrCreateSettings(firmId, req.user && req.user._id);
-    res.json({ success: true, data: settings.data });
+    res.json({ success: true, data: withoutSecrets(settings.data) });
   } catch (error) {
     console.error('Error fetching settings:', error);
     res.status(500).json({ success: false, message: 'Server error' });
@@ -80,7 +105,7 @@ router.get('/', auth, requireOwnerOrAdmin, async (req, res) => {
 // @route   GET /api/settings/:category
 // @desc    Get settings by category
 // @access  Private (Owner/Admin only)
-router.get('/:category', auth, requireOwnerOrAdmin, async (req, res) => {
+router.get('/:category', auth, requirePermission('settings.manage'), async (req, res) => {
   try {
     const { category } = req.params;
     const firmId = req.user && req.user.firmId;
@@ -90,7 +115,7 @@ router.get('/:category', auth, requireOwnerOrAdmin, async (req, res) => {
       return res.status(404).json({ success: false, message: 'Settings category not found' });
     }
 
-    res.json({ success: true, data: settings.data[category] });
+    res.json({ success: true, data: withoutSecrets(settings.data)[category] });
   } catch (error) {
     console.error('Error fetching settings category:', error);
     res.status(500).json({ success: false, message: 'Server error' });
@@ -100,10 +125,11 @@ router.get('/:category', auth, requireOwnerOrAdmin, async (req, res) => {
 // @route   PUT /api/settings/:category
 // @desc    Update settings for a category
 // @access  Private (Owner/Admin only)
-router.put('/:category', auth, requireOwnerOrAdmin, async (req, res) => {
+router.put('/:category', auth, requirePermission('settings.manage'), async (req, res) => {
   try {
     const { category } = req.params;
     const update = req.body;
+    if (MANAGED_CATEGORIES[category]) return rejectManagedCategory(res, category);
     const firmId = req.user && req.user.firmId;
     const settings = await getOrCreateSettings(firmId, req.user && req.user._id);
 
@@ -112,15 +138,15 @@ router.put('/:category', auth, requireOwnerOrAdmin, async (req, res) => {
     }
 
     // Deep merge update into category
-    console.debug('[settings] PUT /api/settings/%s - incoming update: %o (firm=%s, user=%s)', category, update, String(firmId), String(req.user && req.user._id));
+    console.debug('[settings] PUT /api/settings/%s - incoming update: %o (firm=%s, user=%s)', category, withoutSecrets({ [category]: update })[category], String(firmId), String(req.user && req.user._id));
     settings.data[category] = mergeDeep(settings.data[category] || {}, update || {});
     settings.updatedBy = req.user && req.user._id;
     settings.markModified('data'); // Required for Mixed type fields
 
     const saved = await settings.save();
-    console.debug('[settings] PUT /api/settings/%s - saved settings id=%s, category snapshot=%o', category, String(saved._id), saved.data && saved.data[category]);
+    console.debug('[settings] PUT /api/settings/%s - saved settings id=%s, category snapshot=%o', category, String(saved._id), withoutSecrets(saved.data)[category]);
 
-    res.json({ success: true, data: settings.data[category], message: 'Settings updated successfully' });
+    res.json({ success: true, data: withoutSecrets(settings.data)[category], message: 'Settings updated successfully' });
   } catch (error) {
     console.error('Error updating settings category:', error);
     res.status(500).json({ success: false, message: 'Server error' });
@@ -130,16 +156,17 @@ router.put('/:category', auth, requireOwnerOrAdmin, async (req, res) => {
 // @route   PUT /api/settings/:category/:key
 // @desc    Update a specific setting
 // @access  Private (Owner/Admin only)
-router.put('/:category/:key', auth, requireOwnerOrAdmin, async (req, res) => {
+router.put('/:category/:key', auth, requirePermission('settings.manage'), async (req, res) => {
   try {
     const { category, key } = req.params;
     const { value } = req.body;
+    if (MANAGED_CATEGORIES[category]) return rejectManagedCategory(res, category);
     const firmId = req.user && req.user.firmId;
     // Use an atomic update for the single-key change to avoid issues with Mixed
     const doc = await Settings.findOne({ firm: firmId });
     if (!doc || !doc.data || !doc.data[category]) return res.status(404).json({ success: false, message: 'Settings category not found' });
 
-    console.debug('[settings] PUT /api/settings/%s/%s - atomic update incoming value: %o (firm=%s, user=%s)', category, key, value, String(firmId), String(req.user && req.user._id));
+    console.debug('[settings] PUT /api/settings/%s/%s - atomic update incoming value: %o (firm=%s, user=%s)', category, key, category === 'ai' && key === 'apiKey' ? '[redacted]' : value, String(firmId), String(req.user && req.user._id));
 
     const path = `data.${category}.${key}`;
     const updated = await Settings.findOneAndUpdate(
@@ -152,9 +179,10 @@ router.put('/:category/:key', auth, requireOwnerOrAdmin, async (req, res) => {
       return res.status(500).json({ success: false, message: 'Failed to update setting' });
     }
 
-    console.debug('[settings] PUT /api/settings/%s/%s - atomic saved id=%s, newValue=%o', category, key, String(updated._id), updated.data && updated.data[category] && updated.data[category][key]);
+    console.debug('[settings] PUT /api/settings/%s/%s - atomic saved id=%s, newValue=%o', category, key, String(updated._id), withoutSecrets(updated.data)?.[category]?.[key]);
 
-    res.json({ success: true, data: { category, key, value: updated.data && updated.data[category] && updated.data[category][key] }, message: 'Setting updated successfully' });
+    const savedValue = withoutSecrets(updated.data)?.[category]?.[key];
+    res.json({ success: true, data: { category, key, value: savedValue }, message: 'Setting updated successfully' });
   } catch (error) {
     console.error('Error updating setting:', error);
     res.status(500).json({ success: false, message: 'Server error' });
@@ -164,7 +192,7 @@ router.put('/:category/:key', auth, requireOwnerOrAdmin, async (req, res) => {
 // @route   POST /api/settings/reset
 // @desc    Reset settings to default values
 // @access  Private (Owner/Admin only)
-router.post('/reset', auth, requireOwnerOrAdmin, async (req, res) => {
+router.post('/reset', auth, requirePermission('settings.manage'), async (req, res) => {
   try {
     const { category } = req.body;
     const firmId = req.user && req.user.firmId;
@@ -197,11 +225,11 @@ router.post('/reset', auth, requireOwnerOrAdmin, async (req, res) => {
 // @route   POST /api/settings/export
 // @desc    Export settings
 // @access  Private (Owner/Admin only)
-router.post('/export', auth, requireOwnerOrAdmin, async (req, res) => {
+router.post('/export', auth, requirePermission('settings.manage'), async (req, res) => {
   try {
     const firmId = req.user && req.user.firmId;
     const settings = await getOrCreateSettings(firmId, req.user && req.user._id);
-    const exportData = { exportDate: new Date().toISOString(), version: '1.0', settings: settings.data };
+    const exportData = { exportDate: new Date().toISOString(), version: '1.0', settings: withoutSecrets(settings.data) };
     res.json(exportData);
   } catch (error) {
     console.error('Error exporting settings:', error);
@@ -212,12 +240,12 @@ router.post('/export', auth, requireOwnerOrAdmin, async (req, res) => {
 // @route   POST /api/settings/save-file
 // @desc    Persist settingsStore to a settings.json file on the backend (development convenience)
 // @access  Private (Owner/Admin only)
-router.post('/save-file', auth, requireOwnerOrAdmin, async (req, res) => {
+router.post('/save-file', auth, requirePermission('settings.manage'), async (req, res) => {
   try {
     const firmId = req.user && req.user.firmId;
     const settings = await getOrCreateSettings(firmId, req.user && req.user._id);
     const filePath = path.join(process.cwd(), 'backend', 'settings.json');
-    await fs.writeFile(filePath, JSON.stringify(settings.data, null, 2), { encoding: 'utf8' });
+    await fs.writeFile(filePath, JSON.stringify(withoutSecrets(settings.data), null, 2), { encoding: 'utf8' });
     return res.json({ success: true, message: `Settings saved to ${filePath}` });
   } catch (error) {
     console.error('Error saving settings to file:', error);
@@ -228,7 +256,7 @@ router.post('/save-file', auth, requireOwnerOrAdmin, async (req, res) => {
 // @route   POST /api/settings/import
 // @desc    Import settings
 // @access  Private (Owner/Admin only)
-router.post('/import', auth, requireOwnerOrAdmin, async (req, res) => {
+router.post('/import', auth, requirePermission('settings.manage'), async (req, res) => {
   try {
     const { settings: imported } = req.body;
     if (!imported || typeof imported !== 'object') return res.status(400).json({ message: 'Invalid settings data' });
@@ -248,7 +276,7 @@ router.post('/import', auth, requireOwnerOrAdmin, async (req, res) => {
     settings.markModified('data'); // Required for Mixed type fields
     await settings.save();
 
-    res.json({ message: 'Settings imported successfully', settings: settings.data });
+    res.json({ message: 'Settings imported successfully', settings: withoutSecrets(settings.data) });
   } catch (error) {
     console.error('Error importing settings:', error);
     res.status(500).json({ message: 'Server error' });
@@ -258,7 +286,7 @@ router.post('/import', auth, requireOwnerOrAdmin, async (req, res) => {
 // @route   POST /api/settings/system/restart
 // @desc    Restart application server
 // @access  Private (Owner only)
-router.post('/system/restart', auth, requireOwnerOrAdmin, async (req, res) => {
+router.post('/system/restart', auth, requirePermission('settings.manage'), async (req, res) => {
   try {
     const { totp } = req.body;
     const userId = req.user._id;
@@ -319,7 +347,7 @@ router.post('/system/restart', auth, requireOwnerOrAdmin, async (req, res) => {
 // @route   POST /api/settings/system/shutdown
 // @desc    Shutdown application
 // @access  Private (Owner only)
-router.post('/system/shutdown', auth, requireOwnerOrAdmin, async (req, res) => {
+router.post('/system/shutdown', auth, requirePermission('settings.manage'), async (req, res) => {
   try {
     const { totp } = req.body;
     const userId = req.user._id;
@@ -383,7 +411,7 @@ router.post('/system/shutdown', auth, requireOwnerOrAdmin, async (req, res) => {
 // @route   POST /api/settings/system/full-restart
 // @desc    Full system restart (application + services)
 // @access  Private (Owner only)
-router.post('/system/full-restart', auth, requireOwnerOrAdmin, async (req, res) => {
+router.post('/system/full-restart', auth, requirePermission('settings.manage'), async (req, res) => {
   try {
     const { totp } = req.body;
     const userId = req.user._id;
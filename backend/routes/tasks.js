@@ -4,12 +4,58 @@ import multer from 'multer';
 import path from 'path';
 import fs from 'fs/promises';
 import auth from '../middleware/auth.js';
+import { requirePermission } from '../middleware/authorize.js';
 import Task from '../models/Task.js';
 import TaskTemplate from '../models/TaskTemplate.js';
 import NotificationService from '../services/notificationService.js';
+import dueDateService from '../services/dueDateService.js';
+import {
+  findBlockingDependencies,
+  describeBlockers,
+  findDependencyCycles,
+  validateDependencies
+} from '../utils/taskDependencies.js';
+import {
+  findIncompleteMandatorySteps,
+  describeIncompleteSteps,
+  buildChecklistFromTemplate
+} from '../utils/taskChecklist.js';
+import { taskScopeCondition } from '../utils/clientScope.js';
+import taskChecklistService from '../services/taskChecklistService.js';
+import taskReviewService from '../services/taskReviewService.js';
+import hsnService from '../services/hsnService.js';
 
 const router = express.Router();
 
+const taskScopeFor = (req) => taskScopeCondition(req.user);
+
+const sendChecklistError = (res, error, context) => {
+  if (error.statusCode) {
+    return res.status(error.statusCode).json({
+      success: false,
+      message: error.message
+    });
+  }
+  console.error(`${context} error:`, error);
+  return res.status(500).json({
+    success: false,
+    message: 'Server error',
+    error: error.message
+  });
+};
+
+// Load a task for checklist work, hiding tasks outside the employee's scope
+const loadChecklistTask = async (req) => {
+  const task = await taskChecklistService.loadTask(req.user.firmId._id, req.params.id);
+  const scope = await taskScopeFor(req);
+  if (scope && !(await Task.exists({ _id: task._id, $and: [scope] }))) {
+    const error = new Error('Task not found');
+    error.statusCode = 404;
+    throw error;
+  }
+  return task;
+};
+
 // Configure multer for task document uploads
 const storage = multer.diskStorage({
   destination: async (req, file, cb) => {
@@ -67,13 +113,10 @@ router.get('/', auth, async (req, res) => {
     // Build filter
     const filter = { firm: req.user.firmId?._id || req.user.firmId };
     
-    // For employees, only show tasks assigned to them or where they are collaborators
-    if (req.user.role === 'employee') {
-      filter.$or = [
-        { assignedTo: req.user._id },
-        { collaborators: req.user._id },
-        { assignedBy: req.user._id }
-      ];
+    // Employees only see their own tasks and tasks for clients assigned to them
+    const scope = await taskScopeFor(req);
+    if (scope) {
+      filter.$and = [scope];
     }
     
     // Exclude archived tasks by default unless explicitly requested
@@ -116,6 +159,7 @@ router.get('/', auth, async (req, res) => {
       .populate('assignedTo', 'fullName email')
       .populate('collaborators', 'fullName email')
       .populate('assignedBy', 'fullName email')
+      .populate('reviewer', 'fullName email')
       .populate('client', 'name email phone gstNumber')
       .populate('firm', 'name')
       .limit(limit * 1)
@@ -178,7 +222,10 @@ router.post('/', auth, [
       template_id,
       is_recurring,
       recurrence_pattern,
-      subtasks
+      subtasks,
+      statutory_return_type,
+      statutory_period,
+      statutory_assessee_type
     } = req.body;
 
     // Map frontend category to backend type
@@ -238,6 +285,10 @@ router.post('/', auth, [
       taskData.fixedPrice = price;
     }
 
+    let statutoryReturnType = statutory_return_type;
+    let statutoryAssesseeType = statutory_assessee_type;
+    let sourceTemplate = null;
+
     if (template_id && template_id !== 'none' && template_id !== '') {
       // Only set template if it's a valid ObjectId format (24 hex characters)
       if (/^[0-9a-fA-F]{24}$/.test(template_id)) {
@@ -248,10 +299,13 @@ router.post('/', auth, [
           const TaskTemplate = (await import('../models/TaskTemplate.js')).default;
           const template = await TaskTemplate.findById(template_id);
           if (template) {
+            sourceTemplate = template;
             // Override category from template
             taskData.category = template.category;
             // Use sub_category from template, fallback to template title
             taskData.sub_category = template.sub_category || template.title;
+            statutoryReturnType = statutoryReturnType || template.statutory_return_type;
+            statutoryAssesseeType = statutoryAssesseeType || template.statutory_assessee_type;
           }
         } catch (err) {
           console.error('Error fetching template for category/sub_category:', err);
@@ -260,6 +314,34 @@ router.post('/', auth, [
       // If template_id is not a valid ObjectId, we'll skip it (it might be a frontend-only template)
     }
 
+    // Statutory filings take their due date from the due-date engine. Without an
+    // explicit period the next period still open for filing is used.
+    if (statutoryReturnType) {
+      try {
+        const options = { assesseeType: statutoryAssesseeType };
+        const resolved = statutory_period
+          ? await dueDateService.resolveDueDate(taskData.firm, statutoryReturnType, statutory_period, options)
+          : await dueDateService.getNextDueDate(taskData.firm, statutoryReturnType, new Date(), options);
+
+        if (resolved) {
+          taskData.dueDate = resolved.dueDate;
+          taskData.statutoryReturn = {
+            returnType: resolved.returnType,
+            period: resolved.period,
+            assesseeType: statutoryAssesseeType
+          };
+        }
+      } catch (dueDateError) {
+        if (dueDateError.statusCode === 400) {
+          return res.status(400).json({
+            success: false,
+            message: dueDateError.message
+          });
+        }
+        throw dueDateError;
+      }
+    }
+
     // Handle recurring pattern
     if (is_recurring && recurrence_pattern) {
       taskData.recurringPattern = {
@@ -274,6 +356,14 @@ router.post('/', auth, [
       taskData.customFields.set('subtasks', subtasks);
     }
 
+    // Template steps become the task's checklist
+    if (sourceTemplate?.subtasks?.length > 0) {
+      taskData.checklist = buildChecklistFromTemplate(sourceTemplate, {
+        dueDate: taskData.dueDate,
+        assignee: taskData.assignedTo
+      });
+    }
+
     const task = await Task.create(taskData);
     
     // Populate the created task
@@ -293,6 +383,9 @@ router.post('/', auth, [
         // Import Invoice model
         const Invoice = (await import('../models/Invoice.js')).default;
         
+        // The firm's default SAC for this kind of work, if it has set one
+        const categoryDefault = (await hsnService.getCategoryDefaults(req.user.firmId._id))[category];
+
         // Calculate items - main task + subtasks
         const invoiceItems = [{
           description: title + (description ? ` - ${description}` : ''),
@@ -300,7 +393,8 @@ router.post('/', auth, [
           rate: price,
           amount: price,
           taxable: true,
-          taxRate: 18,
+          hsn: categoryDefault?.hsn,
+          taxRate: categoryDefault?.taxRate ?? 18,
           task: task._id
         }];
 
@@ -321,16 +415,11 @@ router.post('/', auth, [
 
         // Calculate totals
         const subtotal = price;
-        const taxAmount = (price * 18) / 100; // 18% GST
+        const taxAmount = (price * invoiceItems[0].taxRate) / 100;
         const totalAmount = subtotal + taxAmount;
 
-        // Generate invoice number
-        const invoiceCount = await Invoice.countDocuments({ firm: req.user.firmId._id });
-        const invoiceNumber = `QD-${new Date().getFullYear()}-${String(invoiceCount + 1).padStart(4, '0')}`;
-
-        // Create quote draft
+        // Create quote draft; its number comes from the firm's quotation series
         const quoteDraft = await Invoice.create({
-          invoiceNumber,
           invoiceDate: new Date(),
           type: 'quote_draft',
           status: 'quote_draft',
@@ -348,12 +437,9 @@ router.post('/', auth, [
           paymentTerms: 'Net 30',
           notes: `Quote draft for task: ${title}${description ? '\n' + description : ''}`,
           
+          // Split into CGST/SGST or IGST by the invoice model from the place of supply
           gst: {
-            applicable: true,
-            rate: 18,
-            cgst: (taxAmount / 2),
-            sgst: (taxAmount / 2),
-            igst: 0
+            applicable: true
           },
           
           adminApproval: {
@@ -455,15 +541,89 @@ router.post('/', auth, [
   }
 });
 
+// @desc    First-pass review approval rate per assignee
+// @route   GET /api/tasks/review-stats
+// @access  Private (report.analytics)
+router.get('/review-stats', auth, requirePermission('report.analytics'), async (req, res) => {
+  try {
+    const stats = await taskReviewService.getReviewStats(req.user.firmId._id);
+
+    res.json({
+      success: true,
+      data: stats
+    });
+  } catch (error) {
+    console.error('Get review stats error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error.message
+    });
+  }
+});
+
+// @desc    Get tasks with their dependency links for a timeline/Gantt view
+// @route   GET /api/tasks/timeline?client=
+// @access  Private
+router.get('/timeline', auth, async (req, res) => {
+  try {
+    const filter = {
+      firm: req.user.firmId._id,
+      isArchived: { $ne: true }
+    };
+    if (req.query.client) {
+      if (typeof req.query.client !== 'string' || !/^[0-9a-fA-F]{24}$/.test(req.query.client)) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid client id'
+        });
+      }
+      filter.client = req.query.client;
+    }
+
+    const scope = await taskScopeFor(req);
+    if (scope) {
+      filter.$and = [scope];
+    }
+
+    const tasks = await Task.find(filter)
+      .select('title taskId status priority startDate dueDate completedDate assignedTo client dependencies')
+      .populate('assignedTo', 'fullName email')
+      .populate('client', 'name')
+      .sort({ startDate: 1, dueDate: 1 });
+
+    res.json({
+      success: true,
+      data: {
+        tasks,
+        cycles: findDependencyCycles(tasks)
+      }
+    });
+  } catch (error) {
+    console.error('Get task timeline error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error.message
+    });
+  }
+});
+
 // @desc    Get task by ID
 // @route   GET /api/tasks/:id
 // @access  Private
 router.get('/:id', auth, async (req, res) => {
   try {
-    const task = await Task.findById(req.params.id)
+    const scope = await taskScopeFor(req);
+    const task = await Task.findOne({
+      _id: req.params.id,
+      firm: req.user.firmId?._id || req.user.firmId,
+      ...(scope || {})
+    })
       .populate('assignedTo', 'fullName email')
       .populate('collaborators', 'fullName email')
       .populate('assignedBy', 'fullName email')
+      .populate('reviewer', 'fullName email')
       .populate('client', 'name email phone gstNumber')
       .populate('firm', 'name');
     
@@ -505,15 +665,17 @@ router.put('/:id', auth, async (req, res) => {
     // 1. User is assigned to the task (in assignedTo array)
     // 2. User is a collaborator on the task
     // 3. User created the task (assignedBy)
-    // 4. User is admin/owner/superadmin
+    // 4. User is the task's reviewer
+    // 5. User has the task.manageAll permission
     const isAssigned = Array.isArray(task.assignedTo) && 
                        task.assignedTo.some(assigned => assigned.toString() === req.user._id.toString());
     const isCollaborator = Array.isArray(task.collaborators) && 
                           task.collaborators.some(collab => collab.toString() === req.user._id.toString());
     const isCreator = task.assignedBy?.toString() === req.user._id.toString();
-    const isAdmin = ['admin', 'owner', 'superadmin'].includes(req.user.role);
+    const isReviewer = task.reviewer?.toString() === req.user._id.toString();
+    const isAdmin = req.can('task.manageAll');
 
-    const canUpdate = isAssigned || isCollaborator || isCreator || isAdmin;
+    const canUpdate = isAssigned || isCollaborator || isCreator || isReviewer || isAdmin;
 
     if (!canUpdate) {
       return res.status(403).json({
@@ -522,6 +684,78 @@ router.put('/:id', auth, async (req, res) => {
       });
     }
 
+    // actualHours is derived from approved time entries
+    delete req.body.actualHours;
+
+    // Checklist steps change through their own endpoints; progress follows them
+    delete req.body.checklist;
+    if (task.checklist?.length > 0) {
+      delete req.body.progressPercentage;
+    }
+
+    // Managers may confirm a status change past unfinished predecessors
+    const overrideDependencies = !!req.body.overrideDependencies && isAdmin;
+    delete req.body.overrideDependencies;
+
+    if (req.body.dependencies !== undefined) {
+      const dependencyError = await validateDependencies(task._id, task.firm, req.body.dependencies);
+      if (dependencyError) {
+        return res.status(400).json({
+          success: false,
+          message: dependencyError
+        });
+      }
+    }
+
+    if (req.body.status && req.body.status !== task.status && !overrideDependencies) {
+      const blockers = await findBlockingDependencies(task, req.body.status);
+      if (blockers.length > 0) {
+        return res.status(409).json({
+          success: false,
+          code: 'DEPENDENCY_BLOCKED',
+          message: describeBlockers(blockers),
+          data: { blockers, canOverride: isAdmin }
+        });
+      }
+    }
+
+    if (req.body.status && req.body.status !== task.status) {
+      const steps = findIncompleteMandatorySteps(task, req.body.status);
+      if (steps.length > 0) {
+        return res.status(409).json({
+          success: false,
+          code: 'CHECKLIST_INCOMPLETE',
+          message: describeIncompleteSteps(steps),
+          data: { steps }
+        });
+      }
+    }
+
+    // Review history is only written through status changes
+    delete req.body.reviewCycles;
+    delete req.body.reviewHistory;
+
+    let reviewChange = null;
+    try {
+      reviewChange = await taskReviewService.prepareStatusChange(task, req.body, req.user, isAdmin);
+      if (!reviewChange && req.body.reviewer) {
+        await taskReviewService.findReviewer(task.firm, req.body.reviewer);
+      }
+    } catch (reviewError) {
+      if (reviewError.statusCode) {
+        return res.status(reviewError.statusCode).json({
+          success: false,
+          code: reviewError.code,
+          message: reviewError.message
+        });
+      }
+      throw reviewError;
+    }
+    delete req.body.reviewPoints;
+    if (req.body.reviewer === '') {
+      req.body.reviewer = null;
+    }
+
     // Log the update request for debugging
     console.log('Task update request:', {
       taskId: req.params.id,
@@ -531,11 +765,12 @@ router.put('/:id', auth, async (req, res) => {
 
     const updatedTask = await Task.findByIdAndUpdate(
       req.params.id,
-      req.body,
-      { new: true, runValidators: true }
+      reviewChange ? taskReviewService.mergeUpdate(req.body, reviewChange) : req.body,
+      { new: true, runValidators: true, ...(reviewChange?.arrayFilters && { arrayFilters: reviewChange.arrayFilters }) }
     ).populate('assignedTo', 'fullName email')
      .populate('collaborators', 'fullName email')
      .populate('assignedBy', 'fullName email')
+     .populate('reviewer', 'fullName email')
      .populate('client', 'fullName email companyName')
      .populate('firm', 'name');
 
@@ -559,6 +794,8 @@ router.put('/:id', auth, async (req, res) => {
     }
     // ============ END WEBSOCKET BROADCAST ============
 
+    await taskReviewService.notify(reviewChange, updatedTask, req.user);
+
     // Send notifications for task updates (only for status changes to avoid spam)
     if (req.body.status && req.body.status !== task.status) {
       const oldStatus = task.status;
@@ -657,7 +894,8 @@ router.put('/:id', auth, async (req, res) => {
                 quoteNumber: quoteDraft.invoiceNumber,
                 quoteAmount: quoteDraft.totalAmount,
                 quoteId: quoteDraft._id.toString(),
-                taskId: updatedTask._id.toString()
+                taskId: updatedTask._id.toString(),
+                firmId: req.user.firmId._id
               });
 
               if (emailResult.success) {
@@ -775,11 +1013,10 @@ router.delete('/:id', auth, async (req, res) => {
       });
     }
 
-    // Only allow deletion if user is admin/owner/superadmin
-    if (!['admin', 'owner', 'superadmin'].includes(req.user.role)) {
+    if (!req.can('task.delete')) {
       return res.status(403).json({
         success: false,
-        message: 'Only administrators and owners can delete tasks'
+        message: 'Access denied. Missing permission: task.delete'
       });
     }
 
@@ -827,9 +1064,9 @@ router.put('/:id/archive', auth, async (req, res) => {
       });
     }
 
-    // Only allow archiving if user is admin/owner or assigned by user
+    // Only allow archiving if the user assigned the task or can manage all tasks
     const canArchive = task.assignedBy?.toString() === req.user._id.toString() ||
-                      ['admin', 'owner', 'superadmin'].includes(req.user.role);
+                      req.can('task.manageAll');
 
     if (!canArchive) {
       return res.status(403).json({
@@ -926,8 +1163,30 @@ router.post('/generate-recurring', auth, async (req, res) => {
       // Check if we should generate a task based on recurrence pattern
       let shouldGenerate = false;
       let dueDate = new Date();
+      let statutoryDue = null;
       
-      if (template.recurrence_pattern === 'monthly') {
+      if (template.statutory_return_type) {
+        // Statutory templates generate one task per filing period, due on the engine's date
+        statutoryDue = await dueDateService.getNextDueDate(
+          req.user.firmId._id,
+          template.statutory_return_type,
+          currentDate,
+          { assesseeType: template.statutory_assessee_type }
+        );
+
+        if (statutoryDue) {
+          const existingTask = await Task.findOne({
+            template: template._id,
+            firm: req.user.firmId._id,
+            'statutoryReturn.period': statutoryDue.period
+          });
+
+          if (!existingTask) {
+            shouldGenerate = true;
+            dueDate = statutoryDue.dueDate;
+          }
+        }
+      } else if (template.recurrence_pattern === 'monthly') {
         // For monthly tasks, check if we're in a new month
         // For demo purposes, we'll generate if no task exists this month
         const startOfMonth = new Date(currentDate.getFullYear(), currentDate.getMonth(), 1);
@@ -974,7 +1233,7 @@ router.post('/generate-recurring', auth, async (req, res) => {
         
         // Create task data
         const taskData = {
-          title: template.title,
+          title: statutoryDue ? `${template.title} - ${statutoryDue.periodLabel}` : template.title,
           description: template.description || '',
           type: template.category === 'gst' ? 'gst_filing' :
                 template.category === 'itr' ? 'income_tax_return' :
@@ -992,6 +1251,14 @@ router.post('/generate-recurring', auth, async (req, res) => {
           fixedPrice: template.price || null,
         };
 
+        if (statutoryDue) {
+          taskData.statutoryReturn = {
+            returnType: statutoryDue.returnType,
+            period: statutoryDue.period,
+            assesseeType: template.statutory_assessee_type
+          };
+        }
+
         // Add assigned user if template has one, otherwise assign to the user creating the task
         if (template.assigned_employee_id) {
           taskData.assignedTo = template.assigned_employee_id._id;
@@ -1009,6 +1276,10 @@ router.post('/generate-recurring', auth, async (req, res) => {
         if (template.subtasks && template.subtasks.length > 0) {
           taskData.customFields = new Map();
           taskData.customFields.set('subtasks', template.subtasks);
+          taskData.checklist = buildChecklistFromTemplate(template, {
+            dueDate: taskData.dueDate,
+            assignee: taskData.assignedTo
+          });
         }
 
         // Create the task
@@ -1063,11 +1334,10 @@ router.post('/bulk-delete', auth, async (req, res) => {
       });
     }
 
-    // Only allow bulk deletion if user is admin/owner/superadmin
-    if (!['admin', 'owner', 'superadmin'].includes(req.user.role)) {
+    if (!req.can('task.delete')) {
       return res.status(403).json({
         success: false,
-        message: 'Only administrators and owners can delete tasks'
+        message: 'Access denied. Missing permission: task.delete'
       });
     }
 
@@ -1138,22 +1408,64 @@ router.post('/bulk-status', auth, async (req, res) => {
       updateData.completedDate = null;
     }
 
-    const result = await Task.updateMany(
-      {
-        _id: { $in: taskIds },
-        firm: req.user.firmId._id,
-        $or: [
-          { assignedBy: req.user._id },
-          { assignedTo: req.user._id }
-        ]
-      },
-      updateData
-    );
+    const filter = {
+      _id: { $in: taskIds },
+      firm: req.user.firmId._id,
+      $or: [
+        { assignedBy: req.user._id },
+        { assignedTo: req.user._id }
+      ]
+    };
+
+    // Tasks whose predecessors are not satisfied are left unchanged
+    const overrideDependencies = !!req.body.overrideDependencies && req.can('task.manageAll');
+    const blocked = [];
+    if (!overrideDependencies) {
+      const candidates = await Task.find({ ...filter, 'dependencies.0': { $exists: true } });
+      for (const task of candidates) {
+        const blockers = await findBlockingDependencies(task, status);
+        if (blockers.length > 0) {
+          blocked.push({ _id: task._id, title: task.title, blockers });
+        }
+      }
+    }
+
+    // Mandatory checklist steps cannot be overridden
+    if (status === 'completed') {
+      const candidates = await Task.find({ ...filter, 'checklist.0': { $exists: true } });
+      for (const task of candidates) {
+        const steps = findIncompleteMandatorySteps(task, status);
+        if (steps.length > 0 && !blocked.some(b => b._id.toString() === task._id.toString())) {
+          blocked.push({ _id: task._id, title: task.title, steps, reason: describeIncompleteSteps(steps) });
+        }
+      }
+    }
+
+    // Tasks enter and leave review one at a time so the reviewer and outcome are recorded
+    const reviewFilter = status === 'review' ? { status: { $ne: 'review' } } : { status: 'review' };
+    const reviewBound = await Task.find({ $and: [filter, reviewFilter] }).select('title');
+    for (const task of reviewBound) {
+      if (!blocked.some(b => b._id.toString() === task._id.toString())) {
+        blocked.push({
+          _id: task._id,
+          title: task.title,
+          reason: status === 'review' ? 'Send the task for review with a reviewer' : 'Approve or return the task from its review'
+        });
+      }
+    }
+
+    if (blocked.length > 0) {
+      filter._id = { $in: taskIds.filter(id => !blocked.some(b => b._id.toString() === String(id))) };
+    }
+
+    const result = await Task.updateMany(filter, updateData);
 
     res.json({
       success: true,
-      message: `${result.modifiedCount} task(s) updated successfully`,
-      modifiedCount: result.modifiedCount
+      message: `${result.modifiedCount} task(s) updated successfully` +
+        (blocked.length ? `, ${blocked.length} left unchanged (dependencies, checklist or review)` : ''),
+      modifiedCount: result.modifiedCount,
+      blocked
     });
   } catch (error) {
     console.error('Bulk status update error:', error);
@@ -1194,8 +1506,8 @@ router.post('/bulk-assign', auth, async (req, res) => {
         $or: [
           { assignedBy: req.user._id },
           { assignedTo: req.user._id },
-          // Allow owners and admins to bulk assign any task
-          ...((['owner', 'admin', 'superadmin'].includes(req.user.role)) ? [{}] : [])
+          // Users who can manage all tasks may bulk assign any task
+          ...(req.can('task.manageAll') ? [{}] : [])
         ]
       },
       { 
@@ -1253,8 +1565,8 @@ router.post('/bulk-archive', auth, async (req, res) => {
         firm: req.user.firmId._id,
         $or: [
           { assignedBy: req.user._id },
-          // Allow owners and admins to bulk archive any task
-          ...((['owner', 'admin', 'superadmin'].includes(req.user.role)) ? [{}] : [])
+          // Users who can manage all tasks may bulk archive any task
+          ...(req.can('task.manageAll') ? [{}] : [])
         ]
       },
       updateData
@@ -1335,6 +1647,18 @@ router.post('/:id/documents', auth, (req, res) => {
       };
 
       task.documents.push(document);
+
+      // Uploads made from a checklist step count as that step's evidence
+      if (req.body.checklistItemId) {
+        const step = task.checklist.id(req.body.checklistItemId);
+        if (!step) {
+          return res.status(404).json({
+            success: false,
+            message: 'Checklist step not found'
+          });
+        }
+        step.evidence.push(task.documents[task.documents.length - 1]._id);
+      }
       
       // Save and handle validation errors
       try {
@@ -1375,6 +1699,131 @@ router.post('/:id/documents', auth, (req, res) => {
   });
 });
 
+// @desc    Get task checklist
+// @route   GET /api/tasks/:id/checklist
+// @access  Private
+router.get('/:id/checklist', auth, async (req, res) => {
+  try {
+    const task = await loadChecklistTask(req);
+
+    res.json({
+      success: true,
+      data: await taskChecklistService.populate(task)
+    });
+  } catch (error) {
+    sendChecklistError(res, error, 'Get task checklist');
+  }
+});
+
+// @desc    Add checklist step
+// @route   POST /api/tasks/:id/checklist
+// @access  Private (task creator or task.manageAll)
+router.post('/:id/checklist', auth, async (req, res) => {
+  try {
+    const task = await loadChecklistTask(req);
+    await taskChecklistService.addStep(task, req.body, req.user, req.can('task.manageAll'));
+
+    res.status(201).json({
+      success: true,
+      message: 'Checklist step added',
+      data: await taskChecklistService.populate(task)
+    });
+  } catch (error) {
+    sendChecklistError(res, error, 'Add checklist step');
+  }
+});
+
+// @desc    Update checklist step
+// @route   PUT /api/tasks/:id/checklist/:itemId
+// @access  Private (task creator or task.manageAll)
+router.put('/:id/checklist/:itemId', auth, async (req, res) => {
+  try {
+    const task = await loadChecklistTask(req);
+    await taskChecklistService.updateStep(task, req.params.itemId, req.body, req.user, req.can('task.manageAll'));
+
+    res.json({
+      success: true,
+      message: 'Checklist step updated',
+      data: await taskChecklistService.populate(task)
+    });
+  } catch (error) {
+    sendChecklistError(res, error, 'Update checklist step');
+  }
+});
+
+// @desc    Remove checklist step
+// @route   DELETE /api/tasks/:id/checklist/:itemId
+// @access  Private (task creator or task.manageAll)
+router.delete('/:id/checklist/:itemId', auth, async (req, res) => {
+  try {
+    const task = await loadChecklistTask(req);
+    await taskChecklistService.removeStep(task, req.params.itemId, req.user, req.can('task.manageAll'));
+
+    res.json({
+      success: true,
+      message: 'Checklist step removed',
+      data: await taskChecklistService.populate(task)
+    });
+  } catch (error) {
+    sendChecklistError(res, error, 'Remove checklist step');
+  }
+});
+
+// @desc    Mark checklist step done (maker)
+// @route   POST /api/tasks/:id/checklist/:itemId/complete
+// @access  Private (step assignee)
+router.post('/:id/checklist/:itemId/complete', auth, async (req, res) => {
+  try {
+    const task = await loadChecklistTask(req);
+    await taskChecklistService.completeStep(task, req.params.itemId, req.body, req.user, req.can('task.manageAll'));
+
+    res.json({
+      success: true,
+      message: 'Checklist step marked done',
+      data: await taskChecklistService.populate(task)
+    });
+  } catch (error) {
+    sendChecklistError(res, error, 'Complete checklist step');
+  }
+});
+
+// @desc    Reopen checklist step
+// @route   POST /api/tasks/:id/checklist/:itemId/reopen
+// @access  Private (step assignee)
+router.post('/:id/checklist/:itemId/reopen', auth, async (req, res) => {
+  try {
+    const task = await loadChecklistTask(req);
+    await taskChecklistService.reopenStep(task, req.params.itemId, req.user, req.can('task.manageAll'));
+
+    res.json({
+      success: true,
+      message: 'Checklist step reopened',
+      data: await taskChecklistService.populate(task)
+    });
+  } catch (error) {
+    sendChecklistError(res, error, 'Reopen checklist step');
+  }
+});
+
+// @desc    Sign off or send back a checklist step (checker)
+// @route   POST /api/tasks/:id/checklist/:itemId/sign-off
+// @access  Private (step reviewer)
+router.post('/:id/checklist/:itemId/sign-off', auth, async (req, res) => {
+  try {
+    const task = await loadChecklistTask(req);
+    const approved = req.body.approved !== false;
+    await taskChecklistService.signOffStep(task, req.params.itemId, { approved, note: req.body.note }, req.user, req.can('task.manageAll'));
+
+    res.json({
+      success: true,
+      message: approved ? 'Checklist step signed off' : 'Checklist step sent back for changes',
+      data: await taskChecklistService.populate(task)
+    });
+  } catch (error) {
+    sendChecklistError(res, error, 'Sign off checklist step');
+  }
+});
+
 // @desc    Get task documents
 // @route   GET /api/tasks/:id/documents
 // @access  Private
@@ -1447,8 +1896,9 @@ router.delete('/:id/documents/:documentId', auth, async (req, res) => {
       // Continue even if file deletion fails
     }
 
-    // Remove document from array
+    // Remove document from array, and from any checklist step it was evidence for
     task.documents.splice(documentIndex, 1);
+    task.checklist.forEach(step => step.evidence.pull(req.params.documentId));
     await task.save();
 
     // Broadcast via WebSocket
@@ -2,6 +2,7 @@ import express from 'express';
 import { body, validationResult } from 'express-validator';
 import auth from '../middleware/auth.js';
 import TaskTemplate from '../models/TaskTemplate.js';
+import dueDateService from '../services/dueDateService.js';
 
 const router = express.Router();
 
@@ -125,7 +126,9 @@ router.post('/', auth, [
       estimated_hours,
       complexity,
       tags,
-      custom_fields
+      custom_fields,
+      statutory_return_type,
+      statutory_assessee_type
     } = req.body;
 
     const templateData = {
@@ -160,6 +163,20 @@ router.post('/', auth, [
       templateData.deadline = deadline;
     }
 
+    if (statutory_return_type && statutory_return_type !== 'none') {
+      try {
+        templateData.statutory_return_type = dueDateService.getRule(statutory_return_type).code;
+      } catch (ruleError) {
+        return res.status(400).json({
+          success: false,
+          message: ruleError.message
+        });
+      }
+      if (statutory_assessee_type) {
+        templateData.statutory_assessee_type = statutory_assessee_type;
+      }
+    }
+
     if (subtasks && Array.isArray(subtasks)) {
       templateData.subtasks = subtasks;
     }
@@ -224,9 +241,9 @@ router.put('/:id', auth, async (req, res) => {
       });
     }
 
-    // Only allow updating if user created the template or is admin/owner
+    // Only allow updating if user created the template or can manage templates
     const canUpdate = template.created_by.toString() === req.user._id.toString() ||
-                     ['admin', 'owner', 'superadmin'].includes(req.user.role);
+                     req.can('template.manage');
 
     if (!canUpdate) {
       return res.status(403).json({
@@ -235,9 +252,27 @@ router.put('/:id', auth, async (req, res) => {
       });
     }
 
+    const updateData = { ...req.body };
+    // Same return type handling as POST; 'none' unlinks the template
+    if (updateData.statutory_return_type !== undefined) {
+      if (!updateData.statutory_return_type || updateData.statutory_return_type === 'none') {
+        updateData.statutory_return_type = null;
+        updateData.statutory_assessee_type = null;
+      } else {
+        try {
+          updateData.statutory_return_type = dueDateService.getRule(updateData.statutory_return_type).code;
+        } catch (ruleError) {
+          return res.status(400).json({
+            success: false,
+            message: ruleError.message
+          });
+        }
+      }
+    }
+
     const updatedTemplate = await TaskTemplate.findByIdAndUpdate(
       req.params.id,
-      req.body,
+      updateData,
       { new: true, runValidators: true }
     ).populate('assigned_employee_id', 'fullName email employee_id')
      .populate('client_id', 'name email')
@@ -279,9 +314,9 @@ router.delete('/:id', auth, async (req, res) => {
       });
     }
 
-    // Only allow deletion if user created the template or is admin/owner
+    // Only allow deletion if user created the template or can manage templates
     const canDelete = template.created_by.toString() === req.user._id.toString() ||
-                     ['admin', 'owner', 'superadmin'].includes(req.user.role);
+                     req.can('template.manage');
 
     if (!canDelete) {
       return res.status(403).json({
@@ -330,9 +365,9 @@ router.put('/:id/toggle-active', auth, async (req, res) => {
       });
     }
 
-    // Only allow status change if user created the template or is admin/owner
+    // Only allow status change if user created the template or can manage templates
     const canUpdate = template.created_by.toString() === req.user._id.toString() ||
-                     ['admin', 'owner', 'superadmin'].includes(req.user.role);
+                     req.can('template.manage');
 
     if (!canUpdate) {
       return res.status(403).json({
@@ -0,0 +1,676 @@
+import express from 'express';
+import { body, validationResult } from 'express-validator';
+import mongoose from 'mongoose';
+import auth from '../middleware/auth.js';
+import TimeEntry from '../models/TimeEntry.js';
+import Task from '../models/Task.js';
+import { taskScopeCondition } from '../utils/clientScope.js';
+
+const router = express.Router();
+
+const isObjectId = (value) => typeof value === 'string' && /^[0-9a-fA-F]{24}$/.test(value);
+
+// Managers see everyone's time and approve entries
+const isManager = (req) => req.can('timesheet.approve');
+
+const getFirmId = (req) => req.user.firmId?._id || req.user.firmId;
+
+// Week and day boundaries follow the firm's clock, not the server's
+const getFirmTimezone = (req) => req.user.firmId?.settings?.timezone || 'Asia/Kolkata';
+
+// Wall-clock date and time of an instant in the given timezone
+const getZonedParts = (date, timeZone) => {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+    hourCycle: 'h23'
+  }).formatToParts(date);
+  const part = (type) => Number(parts.find(p => p.type === type).value);
+  return { year: part('year'), month: part('month'), day: part('day'), hour: part('hour'), minute: part('minute'), second: part('second') };
+};
+
+// Instant at which a calendar day starts in the given timezone
+const zonedMidnight = (year, month, day, timeZone) => {
+  const wallClock = Date.UTC(year, month - 1, day);
+  let instant = wallClock;
+  // A second pass settles the offset when the day starts on the other side of a DST change
+  for (let pass = 0; pass < 2; pass++) {
+    const p = getZonedParts(new Date(instant), timeZone);
+    instant = wallClock - (Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - instant);
+  }
+  return new Date(instant);
+};
+
+// Monday-based week containing the given date (or the current week) on the firm's clock.
+// A plain YYYY-MM-DD is taken as that calendar day; anything else is converted to it.
+const getWeekRange = (weekStart, timeZone) => {
+  const match = typeof weekStart === 'string' && /^(\d{4})-(\d{2})-(\d{2})$/.exec(weekStart);
+  let date = weekStart ? new Date(weekStart) : new Date();
+  if (Number.isNaN(date.getTime())) date = new Date();
+  const { year, month, day } = match
+    ? { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) }
+    : getZonedParts(date, timeZone);
+
+  const monday = day - ((new Date(Date.UTC(year, month - 1, day)).getUTCDay() + 6) % 7);
+  const days = Array.from({ length: 8 }, (_, i) => zonedMidnight(year, month, monday + i, timeZone));
+  return { start: days[0], end: days[7], days: days.slice(0, 7) };
+};
+
+const populateEntry = (query) => query
+  .populate('task', 'title taskId status billable')
+  .populate('user', 'fullName email')
+  .populate('client', 'name')
+  .populate('approvedBy', 'fullName email');
+
+// Employees may only log time on work they are part of
+const findLoggableTask = async (req, taskId) => {
+  if (!isObjectId(taskId)) return null;
+  const task = await Task.findOne({ _id: taskId, firm: getFirmId(req) });
+  if (!task) return null;
+  if (isManager(req)) return task;
+
+  const userId = req.user._id.toString();
+  const isAssigned = task.assignedTo?.toString() === userId;
+  const isCollaborator = (task.collaborators || []).some(id => id.toString() === userId);
+  return isAssigned || isCollaborator ? task : null;
+};
+
+const stopRunningTimers = async (userId, endTime = new Date()) => {
+  const running = await TimeEntry.find({ user: userId, endTime: null });
+  for (const entry of running) {
+    entry.endTime = endTime;
+    await entry.save();
+  }
+  return running;
+};
+
+// @desc    Get time entries
+// @route   GET /api/time-entries?task=&user=&from=&to=&status=
+// @access  Private
+router.get('/', auth, async (req, res) => {
+  try {
+    const { task, user, from, to, status } = req.query;
+    const filter = { firm: getFirmId(req) };
+
+    // Everyone sees entries on a task they can open; otherwise employees only see their own
+    if (isObjectId(task)) {
+      const scope = await taskScopeCondition(req.user);
+      if (scope && !(await Task.exists({ _id: task, firm: filter.firm, $and: [scope] }))) {
+        return res.status(404).json({
+          success: false,
+          message: 'Task not found'
+        });
+      }
+      filter.task = task;
+      if (!isManager(req) && isObjectId(user)) filter.user = user;
+    } else if (!isManager(req)) {
+      filter.user = req.user._id;
+    } else if (isObjectId(user)) {
+      filter.user = user;
+    }
+
+    if (status) filter.status = status;
+    if (from || to) {
+      filter.startTime = {};
+      if (from) filter.startTime.$gte = new Date(from);
+      if (to) filter.startTime.$lt = new Date(to);
+    }
+
+    const entries = await populateEntry(TimeEntry.find(filter)).sort({ startTime: -1 });
+    const totalMinutes = entries.reduce((sum, entry) => sum + (entry.durationMinutes || 0), 0);
+
+    res.json({
+      success: true,
+      data: { entries, totalMinutes }
+    });
+  } catch (error) {
+    console.error('Get time entries error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error.message
+    });
+  }
+});
+
+// @desc    Get the current user's running timer
+// @route   GET /api/time-entries/running
+// @access  Private
+router.get('/running', auth, async (req, res) => {
+  try {
+    const entry = await populateEntry(TimeEntry.findOne({ user: req.user._id, endTime: null }));
+
+    res.json({
+      success: true,
+      data: { entry }
+    });
+  } catch (error) {
+    console.error('Get running timer error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error.message
+    });
+  }
+});
+
+// @desc    Start a timer on a task (stops any timer already running)
+// @route   POST /api/time-entries/start
+// @access  Private
+router.post('/start', auth, [
+  body('taskId').notEmpty().withMessage('Task is required')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation errors',
+        errors: errors.array()
+      });
+    }
+
+    const task = await findLoggableTask(req, req.body.taskId);
+    if (!task) {
+      return res.status(404).json({
+        success: false,
+        message: 'Task not found or you are not assigned to it'
+      });
+    }
+
+    const stopped = await stopRunningTimers(req.user._id);
+
+    const entry = await TimeEntry.create({
+      task: task._id,
+      user: req.user._id,
+      firm: getFirmId(req),
+      client: task.client,
+      startTime: new Date(),
+      note: req.body.note,
+      billable: req.body.billable ?? task.billable ?? true
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Timer started',
+      data: {
+        entry: await populateEntry(TimeEntry.findById(entry._id)),
+        stopped: stopped.map(e => e._id)
+      }
+    });
+  } catch (error) {
+    console.error('Start timer error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error.message
+    });
+  }
+});
+
+// @desc    Stop a running timer
+// @route   POST /api/time-entries/:id/stop
+// @access  Private
+router.post('/:id/stop', auth, async (req, res) => {
+  try {
+    const entry = await TimeEntry.findOne({ _id: req.params.id, user: req.user._id });
+
+    if (!entry) {
+      return res.status(404).json({
+        success: false,
+        message: 'Time entry not found'
+      });
+    }
+
+    if (entry.endTime) {
+      return res.status(400).json({
+        success: false,
+        message: 'Timer is not running'
+      });
+    }
+
+    entry.endTime = new Date();
+    if (req.body.note !== undefined) entry.note = req.body.note;
+    await entry.save();
+
+    res.json({
+      success: true,
+      message: 'Timer stopped',
+      data: { entry: await populateEntry(TimeEntry.findById(entry._id)) }
+    });
+  } catch (error) {
+    console.error('Stop timer error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error.message
+    });
+  }
+});
+
+// @desc    Log a completed time entry manually
+// @route   POST /api/time-entries
+// @access  Private
+router.post('/', auth, [
+  body('taskId').notEmpty().withMessage('Task is required'),
+  body('startTime').isISO8601().withMessage('Valid start time is required'),
+  body('endTime').isISO8601().withMessage('Valid end time is required'),
+  body('note').optional().isString()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation errors',
+        errors: errors.array()
+      });
+    }
+
+    const task = await findLoggableTask(req, req.body.taskId);
+    if (!task) {
+      return res.status(404).json({
+        success: false,
+        message: 'Task not found or you are not assigned to it'
+      });
+    }
+
+    const { startTime, endTime, note, billable } = req.body;
+    if (new Date(endTime) <= new Date(startTime)) {
+      return res.status(400).json({
+        success: false,
+        message: 'End time must be after start time'
+      });
+    }
+
+    const entry = await TimeEntry.create({
+      task: task._id,
+      user: req.user._id,
+      firm: getFirmId(req),
+      client: task.client,
+      startTime,
+      endTime,
+      note,
+      billable: billable ?? task.billable ?? true
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Time entry added',
+      data: { entry: await populateEntry(TimeEntry.findById(entry._id)) }
+    });
+  } catch (error) {
+    console.error('Create time entry error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error.message
+    });
+  }
+});
+
+// @desc    Update own time entry (draft or rejected only)
+// @route   PUT /api/time-entries/:id
+// @access  Private
+router.put('/:id', auth, async (req, res) => {
+  try {
+    const entry = await TimeEntry.findOne({ _id: req.params.id, user: req.user._id });
+
+    if (!entry) {
+      return res.status(404).json({
+        success: false,
+        message: 'Time entry not found'
+      });
+    }
+
+    if (!['draft', 'rejected'].includes(entry.status)) {
+      return res.status(400).json({
+        success: false,
+        message: `Cannot edit a ${entry.status} time entry`
+      });
+    }
+
+    ['startTime', 'endTime', 'note', 'billable'].forEach(field => {
+      if (req.body[field] !== undefined) entry[field] = req.body[field];
+    });
+    // Editing a rejected entry puts it back into the draft for resubmission
+    entry.status = 'draft';
+    await entry.save();
+
+    res.json({
+      success: true,
+      message: 'Time entry updated',
+      data: { entry: await populateEntry(TimeEntry.findById(entry._id)) }
+    });
+  } catch (error) {
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({
+        success: false,
+        message: error.message
+      });
+    }
+    console.error('Update time entry error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error.message
+    });
+  }
+});
+
+// @desc    Delete time entry
+// @route   DELETE /api/time-entries/:id
+// @access  Private (own unapproved entries, or Owner/Admin)
+router.delete('/:id', auth, async (req, res) => {
+  try {
+    const entry = await TimeEntry.findOne({ _id: req.params.id, firm: getFirmId(req) });
+
+    if (!entry) {
+      return res.status(404).json({
+        success: false,
+        message: 'Time entry not found'
+      });
+    }
+
+    const isOwn = entry.user.toString() === req.user._id.toString();
+    if (!isManager(req) && !(isOwn && entry.status !== 'approved')) {
+      return res.status(403).json({
+        success: false,
+        message: 'Not authorized to delete this time entry'
+      });
+    }
+
+    await entry.deleteOne();
+    if (entry.status === 'approved') {
+      await TimeEntry.recalculateTaskHours(entry.task);
+    }
+
+    res.json({
+      success: true,
+      message: 'Time entry deleted'
+    });
+  } catch (error) {
+    console.error('Delete time entry error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error.message
+    });
+  }
+});
+
+// @desc    Get a weekly timesheet
+// @route   GET /api/time-entries/timesheet?weekStart=YYYY-MM-DD&user=
+// @access  Private
+router.get('/timesheet', auth, async (req, res) => {
+  try {
+    const { start, end, days } = getWeekRange(req.query.weekStart, getFirmTimezone(req));
+    const userId = isManager(req) && isObjectId(req.query.user) ? req.query.user : req.user._id;
+
+    const entries = await populateEntry(TimeEntry.find({
+      firm: getFirmId(req),
+      user: userId,
+      startTime: { $gte: start, $lt: end }
+    })).sort({ startTime: 1 });
+
+    // One row per task with minutes per weekday
+    const rows = new Map();
+    entries.forEach(entry => {
+      const key = entry.task?._id?.toString() || 'unknown';
+      if (!rows.has(key)) {
+        rows.set(key, { task: entry.task, client: entry.client, minutesByDay: Array(7).fill(0), totalMinutes: 0 });
+      }
+      const row = rows.get(key);
+      const dayIndex = Math.max(0, days.findLastIndex(day => new Date(entry.startTime) >= day));
+      row.minutesByDay[dayIndex] += entry.durationMinutes || 0;
+      row.totalMinutes += entry.durationMinutes || 0;
+    });
+
+    const statusCounts = entries.reduce((counts, entry) => {
+      counts[entry.status] = (counts[entry.status] || 0) + 1;
+      return counts;
+    }, {});
+
+    res.json({
+      success: true,
+      data: {
+        weekStart: start,
+        weekEnd: end,
+        user: userId,
+        days,
+        entries,
+        rows: [...rows.values()],
+        totalMinutes: entries.reduce((sum, entry) => sum + (entry.durationMinutes || 0), 0),
+        billableMinutes: entries.filter(e => e.billable).reduce((sum, entry) => sum + (entry.durationMinutes || 0), 0),
+        statusCounts
+      }
+    });
+  } catch (error) {
+    console.error('Get timesheet error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error.message
+    });
+  }
+});
+
+// @desc    Submit own timesheet for a week
+// @route   POST /api/time-entries/timesheet/submit
+// @access  Private
+router.post('/timesheet/submit', auth, async (req, res) => {
+  try {
+    const { start, end } = getWeekRange(req.body.weekStart, getFirmTimezone(req));
+    const filter = {
+      firm: getFirmId(req),
+      user: req.user._id,
+      startTime: { $gte: start, $lt: end }
+    };
+
+    const running = await TimeEntry.countDocuments({ ...filter, endTime: null });
+    if (running > 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Stop your running timer before submitting the timesheet'
+      });
+    }
+
+    const result = await TimeEntry.updateMany(
+      { ...filter, status: { $in: ['draft', 'rejected'] } },
+      { status: 'submitted', submittedAt: new Date(), rejectionReason: null }
+    );
+
+    res.json({
+      success: true,
+      message: `Submitted ${result.modifiedCount} time entries for approval`,
+      data: { count: result.modifiedCount }
+    });
+  } catch (error) {
+    console.error('Submit timesheet error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error.message
+    });
+  }
+});
+
+// @desc    List submitted timesheets awaiting approval
+// @route   GET /api/time-entries/timesheet/pending
+// @access  Private (Owner/Admin)
+router.get('/timesheet/pending', auth, async (req, res) => {
+  try {
+    if (!isManager(req)) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have permission to review timesheets'
+      });
+    }
+
+    const pending = await TimeEntry.aggregate([
+      { $match: { firm: new mongoose.Types.ObjectId(String(getFirmId(req))), status: 'submitted' } },
+      {
+        $group: {
+          _id: {
+            user: '$user',
+            // ISO week starts on Monday, matching getWeekRange
+            week: { $dateTrunc: { date: '$startTime', unit: 'week', startOfWeek: 'monday', timezone: getFirmTimezone(req) } }
+          },
+          entries: { $sum: 1 },
+          totalMinutes: { $sum: '$durationMinutes' },
+          submittedAt: { $max: '$submittedAt' }
+        }
+      },
+      { $lookup: { from: 'users', localField: '_id.user', foreignField: '_id', as: 'user' } },
+      { $unwind: '$user' },
+      {
+        $project: {
+          _id: 0,
+          user: { _id: '$user._id', fullName: '$user.fullName', email: '$user.email' },
+          weekStart: '$_id.week',
+          entries: 1,
+          totalMinutes: 1,
+          submittedAt: 1
+        }
+      },
+      { $sort: { submittedAt: 1 } }
+    ]);
+
+    res.json({
+      success: true,
+      data: { timesheets: pending }
+    });
+  } catch (error) {
+    console.error('Get pending timesheets error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error.message
+    });
+  }
+});
+
+// @desc    Approve or reject a submitted timesheet
+// @route   POST /api/time-entries/timesheet/review
+// @access  Private (Owner/Admin)
+router.post('/timesheet/review', auth, [
+  body('userId').custom(isObjectId).withMessage('Valid user is required'),
+  body('action').isIn(['approve', 'reject']).withMessage('Action must be approve or reject'),
+  body('reason').optional().isString()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation errors',
+        errors: errors.array()
+      });
+    }
+
+    if (!isManager(req)) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have permission to review timesheets'
+      });
+    }
+
+    const { userId, action, reason } = req.body;
+    const { start, end } = getWeekRange(req.body.weekStart, getFirmTimezone(req));
+    const filter = {
+      firm: getFirmId(req),
+      user: userId,
+      status: 'submitted',
+      startTime: { $gte: start, $lt: end }
+    };
+
+    const taskIds = await TimeEntry.distinct('task', filter);
+    const update = action === 'approve'
+      ? { status: 'approved', approvedBy: req.user._id, approvedAt: new Date() }
+      : { status: 'rejected', rejectionReason: reason || '' };
+    const result = await TimeEntry.updateMany(filter, update);
+
+    if (action === 'approve') {
+      for (const taskId of taskIds) {
+        await TimeEntry.recalculateTaskHours(taskId);
+      }
+    }
+
+    res.json({
+      success: true,
+      message: `${action === 'approve' ? 'Approved' : 'Rejected'} ${result.modifiedCount} time entries`,
+      data: { count: result.modifiedCount }
+    });
+  } catch (error) {
+    console.error('Review timesheet error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error.message
+    });
+  }
+});
+
+// @desc    Approved hours per employee for a period
+// @route   GET /api/time-entries/summary?from=&to=
+// @access  Private (Owner/Admin)
+router.get('/summary', auth, async (req, res) => {
+  try {
+    if (!isManager(req)) {
+      return res.status(403).json({
+        success: false,
+        message: 'Not authorized'
+      });
+    }
+
+    const match = {
+      firm: new mongoose.Types.ObjectId(String(getFirmId(req))),
+      status: 'approved'
+    };
+    if (req.query.from || req.query.to) {
+      match.startTime = {};
+      if (req.query.from) match.startTime.$gte = new Date(req.query.from);
+      if (req.query.to) match.startTime.$lt = new Date(req.query.to);
+    }
+
+    const summary = await TimeEntry.aggregate([
+      { $match: match },
+      {
+        $group: {
+          _id: '$user',
+          totalMinutes: { $sum: '$durationMinutes' },
+          billableMinutes: { $sum: { $cond: ['$billable', '$durationMinutes', 0] } },
+          tasks: { $addToSet: '$task' }
+        }
+      },
+      {
+        $project: {
+          _id: 0,
+          user: '$_id',
+          totalHours: { $round: [{ $divide: ['$totalMinutes', 60] }, 2] },
+          billableHours: { $round: [{ $divide: ['$billableMinutes', 60] }, 2] },
+          taskCount: { $size: '$tasks' }
+        }
+      }
+    ]);
+
+    res.json({
+      success: true,
+      data: { summary }
+    });
+  } catch (error) {
+    console.error('Get time summary error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error.message
+    });
+  }
+});
+
+export default router;
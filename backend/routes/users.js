@@ -1,15 +1,20 @@
 import express from 'express';
 import { body, validationResult } from 'express-validator';
 import auth from '../middleware/auth.js';
-import { requireOwnerOrAdmin, requireUserManagementAccess } from '../middleware/authorize.js';
+import { requirePermission, requireUserManagementAccess } from '../middleware/authorize.js';
 import User from '../models/User.js';
 
 const router = express.Router();
 
+// Base roles from least to most privileged. Creating a user never grants a
+// role above the caller's own, so only admins and above can add admins.
+const ROLE_RANK = { client: 0, employee: 1, admin: 2, owner: 3, superadmin: 4 };
+const canGrantRole = (user, role) => ROLE_RANK[role] !== undefined && ROLE_RANK[role] <= (ROLE_RANK[user.role] ?? -1);
+
 // @desc    Get all users
 // @route   GET /api/users
 // @access  Private (Admin/Owner)
-router.get('/', auth, requireOwnerOrAdmin, async (req, res) => {
+router.get('/', auth, requirePermission('user.view'), async (req, res) => {
   try {
     const { page = 1, limit = 10, role, search, isActive } = req.query;
     
@@ -128,7 +133,7 @@ router.get('/:id', auth, requireUserManagementAccess, async (req, res) => {
 // @desc    Create new user
 // @route   POST /api/users
 // @access  Private (Admin/Owner)
-router.post('/', auth, requireOwnerOrAdmin, [
+router.post('/', auth, requirePermission('user.manage'), [
   body('username').optional().isLength({ min: 3 }).trim().matches(/^[a-zA-Z0-9._-]{3,30}$/),
   body('password').isLength({ min: 6 }),
   body('fullName').trim().isLength({ min: 2 }),
@@ -146,6 +151,13 @@ router.post('/', auth, requireOwnerOrAdmin, [
 
     let { username, email, password, fullName, role, phone, department, expertise, companyName } = req.body;
 
+    if (!canGrantRole(req.user, role)) {
+      return res.status(403).json({
+        success: false,
+        message: `Your role cannot create ${role} accounts`
+      });
+    }
+
     // Auto-generate username from fullName if not provided
     if (!username && fullName) {
       const firstName = fullName.trim().split(/\s+/)[0];
@@ -219,8 +231,8 @@ router.put('/:id', auth, requireUserManagementAccess, async (req, res) => {
       });
     }
 
-    // Only admin/owner can change isActive status
-    if (isActive !== undefined && !['admin', 'owner', 'superadmin'].includes(req.user.role)) {
+    // Only team managers can change isActive status, and not for roles above their own
+    if (isActive !== undefined && (!req.can('user.manage') || !canGrantRole(req.user, user.role))) {
       return res.status(403).json({
         success: false,
         message: 'Insufficient permissions to change user status'
@@ -264,7 +276,7 @@ router.put('/:id', auth, requireUserManagementAccess, async (req, res) => {
 // @desc    Delete user
 // @route   DELETE /api/users/:id
 // @access  Private (Admin/Owner)
-router.delete('/:id', auth, requireOwnerOrAdmin, async (req, res) => {
+router.delete('/:id', auth, requirePermission('user.manage'), async (req, res) => {
   try {
     const user = await User.findById(req.params.id);
     if (!user) {
@@ -300,7 +312,7 @@ router.delete('/:id', auth, requireOwnerOrAdmin, async (req, res) => {
 // @desc    Bulk delete users
 // @route   POST /api/users/bulk-delete
 // @access  Private (Admin/Owner)
-router.post('/bulk-delete', auth, requireOwnerOrAdmin, async (req, res) => {
+router.post('/bulk-delete', auth, requirePermission('user.manage'), async (req, res) => {
   try {
     const { userIds } = req.body;
     
@@ -344,7 +356,7 @@ router.post('/bulk-delete', auth, requireOwnerOrAdmin, async (req, res) => {
 // @desc    Bulk update user status
 // @route   POST /api/users/bulk-status
 // @access  Private (Admin/Owner)
-router.post('/bulk-status', auth, requireOwnerOrAdmin, async (req, res) => {
+router.post('/bulk-status', auth, requirePermission('user.manage'), async (req, res) => {
   try {
     const { userIds, isActive } = req.body;
     
@@ -387,7 +399,7 @@ router.post('/bulk-status', auth, requireOwnerOrAdmin, async (req, res) => {
 // @desc    Bulk update user department
 // @route   POST /api/users/bulk-department
 // @access  Private (Admin/Owner)
-router.post('/bulk-department', auth, requireOwnerOrAdmin, async (req, res) => {
+router.post('/bulk-department', auth, requirePermission('user.manage'), async (req, res) => {
   try {
     const { userIds, department } = req.body;
     
@@ -431,7 +443,7 @@ router.post('/bulk-department', auth, requireOwnerOrAdmin, async (req, res) => {
 // @desc    Bulk import users (employees, admins, owners)
 // @route   POST /api/users/bulk-import
 // @access  Private (Admin/Owner)
-router.post('/bulk-import', auth, requireOwnerOrAdmin, async (req, res) => {
+router.post('/bulk-import', auth, requirePermission('user.manage'), async (req, res) => {
   try {
     const { users: usersData } = req.body;
 
@@ -535,6 +547,13 @@ router.post('/bulk-import', auth, requireOwnerOrAdmin, async (req, res) => {
           });
           continue;
         }
+        if (!canGrantRole(req.user, processedData.role)) {
+          results.failed.push({
+            data: userData,
+            error: `Your role cannot create ${processedData.role} accounts`
+          });
+          continue;
+        }
 
         // Create and save user
         const user = new User(processedData);
@@ -0,0 +1,44 @@
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import hsnService from '../services/hsnService.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Load environment variables
+dotenv.config({ path: path.join(__dirname, '../.env') });
+
+// Load the HSN/SAC master from the GST portal's HSN_SAC.xlsx (or a CSV with
+// code, description and optional rate / effective from columns).
+// Usage: npm run import:hsn -- /path/to/HSN_SAC.xlsx
+async function importHsnMaster() {
+  const file = process.argv[2];
+  if (!file) {
+    console.error('❌ Pass the path of the HSN/SAC Excel or CSV file');
+    process.exit(1);
+  }
+
+  try {
+    console.log('🔌 Connecting to MongoDB...');
+    await mongoose.connect(process.env.MONGODB_URI);
+    console.log('✅ Connected to MongoDB');
+
+    const rows = await hsnService.parseImportFile(await fs.readFile(file), path.basename(file));
+    console.log(`📄 Read ${rows.length} rows from ${path.basename(file)}`);
+
+    const result = await hsnService.importRows(rows);
+    console.log(`✅ ${result.created} new codes, ${result.updated} updated, ${result.rateChanges} rate changes, ${result.skipped} skipped`);
+    result.errors.slice(0, 20).forEach(error => console.log(`⚠️  ${error.sheet} row ${error.row}: ${error.message}`));
+
+    await mongoose.disconnect();
+    console.log('✅ Disconnected from MongoDB');
+  } catch (error) {
+    console.error('❌ Error:', error);
+    process.exit(1);
+  }
+}
+
+importHsnMaster();
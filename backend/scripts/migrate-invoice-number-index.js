@@ -0,0 +1,41 @@
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import Invoice from '../models/Invoice.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Load environment variables
+dotenv.config({ path: path.join(__dirname, '../.env') });
+
+// Invoice numbers used to be unique across all firms. Number series now repeat
+// between firms (ACC1/2026-27/0001), so the old global index has to go and the
+// per-firm one takes its place.
+async function migrateInvoiceNumberIndex() {
+  try {
+    console.log('🔌 Connecting to MongoDB...');
+    await mongoose.connect(process.env.MONGODB_URI);
+    console.log('✅ Connected to MongoDB');
+
+    const indexes = await Invoice.collection.indexes();
+    if (indexes.some(index => index.name === 'invoiceNumber_1')) {
+      await Invoice.collection.dropIndex('invoiceNumber_1');
+      console.log('🗑️  Dropped global invoiceNumber_1 index');
+    } else {
+      console.log('ℹ️  Global invoiceNumber_1 index not present');
+    }
+
+    await Invoice.syncIndexes();
+    console.log('✅ Invoice indexes in sync (firm + invoiceNumber unique)');
+
+    await mongoose.disconnect();
+    console.log('✅ Disconnected from MongoDB');
+  } catch (error) {
+    console.error('❌ Error:', error);
+    process.exit(1);
+  }
+}
+
+migrateInvoiceNumberIndex();
@@ -47,6 +47,14 @@ import reportsRoutes from './routes/reports.js';
 import logsRoutes from './routes/logs.js';
 import twoFactorRoutes from './routes/twoFactor.js';
 import auditLogsRoutes from './routes/auditLogs.js';
+import calendarRoutes from './routes/calendar.js';
+import dueDateRoutes from './routes/dueDates.js';
+import emailTemplateRoutes from './routes/emailTemplates.js';
+import timeEntryRoutes from './routes/timeEntries.js';
+import documentRequestRoutes from './routes/documentRequests.js';
+import clientPortalRoutes from './routes/clientPortal.js';
+import permissionRoutes from './routes/permissions.js';
+import hsnRoutes from './routes/hsn.js';
 import { errorHandler } from './middleware/errorHandler.js';
 import { notFound } from './middleware/notFound.js';
 import { seedTemplatesForAllFirms } from './seeds/index.js';
@@ -54,6 +62,8 @@ import chatWebSocketService from './services/chatWebSocket.js';
 import taskWebSocketService from './services/taskWebSocket.js';
 import automationScheduler from './services/automationScheduler.js';
 import recurringTaskService from './services/recurringTaskService.js';
+import invoiceReminderService from './services/invoiceReminderService.js';
+import escalationService from './services/escalationService.js';
 import { createServer } from 'http';
 
 const app = express();
@@ -108,6 +118,14 @@ const initializeApp = async () => {
     // Initialize recurring task service
     console.log('🔄 Starting recurring task service...');
     await recurringTaskService.initialize();
+
+    // Initialize invoice reminder service
+    console.log('💸 Starting invoice reminder service...');
+    await invoiceReminderService.initialize();
+
+    // Initialize SLA escalation rules
+    console.log('🚨 Starting escalation service...');
+    await escalationService.initialize();
   } catch (error) {
     console.error('❌ App initialization failed:', error);
   }
@@ -147,6 +165,8 @@ const startServer = async () => {
     console.log('📛 Shutdown signal received: closing HTTP server and stopping schedulers');
     automationScheduler.stopAll();
     recurringTaskService.stopAll();
+    invoiceReminderService.stopAll();
+    escalationService.stopAll();
     server.close(() => {
       console.log('✅ HTTP server closed');
       process.exit(0);
@@ -281,6 +301,14 @@ app.use('/api/reports', reportsRoutes);
 app.use('/api/logs', logsRoutes);
 app.use('/api/2fa', twoFactorRoutes);
 app.use('/api/audit-logs', auditLogsRoutes);
+app.use('/api/calendar', calendarRoutes);
+app.use('/api/due-dates', dueDateRoutes);
+app.use('/api/email-templates', emailTemplateRoutes);
+app.use('/api/time-entries', timeEntryRoutes);
+app.use('/api/document-requests', documentRequestRoutes);
+app.use('/api/client-portal', clientPortalRoutes);
+app.use('/api/permissions', permissionRoutes);
+app.use('/api/hsn', hsnRoutes);
 
 // Health check endpoint
 app.get('/api/health', (req, res) => {
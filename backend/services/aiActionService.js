@@ -0,0 +1,520 @@
+import AIAction from '../models/AIAction.js';
+import Client from '../models/Client.js';
+import ClientCommunication from '../models/ClientCommunication.js';
+import Invoice from '../models/Invoice.js';
+import Task from '../models/Task.js';
+import TaskTemplate from '../models/TaskTemplate.js';
+import User from '../models/User.js';
+import dueDateService from './dueDateService.js';
+import NotificationService from './notificationService.js';
+import permissionService from './permissionService.js';
+import auditLogger from '../utils/auditLogger.js';
+import { isScopedToAssignedClients, assignedClientFilter } from '../utils/clientScope.js';
+import { buildChecklistFromTemplate } from '../utils/taskChecklist.js';
+
+// Unconfirmed proposals stop being actionable after this long
+const PROPOSAL_TTL_MS = 60 * 60 * 1000;
+
+const MANAGER_ROLES = ['owner', 'admin', 'superadmin'];
+const STAFF_ROLES = ['owner', 'admin', 'employee'];
+const COMMUNICATION_TYPES = ['email', 'phone', 'whatsapp', 'meeting', 'document', 'internal_note'];
+const TASK_PRIORITIES = ['low', 'medium', 'high', 'urgent'];
+
+// Same category -> task type mapping as POST /api/tasks
+const TASK_TYPES = { gst: 'gst_filing', itr: 'income_tax_return', roc: 'compliance', other: 'other' };
+
+// Creating a task from a template hands work to anyone in the firm, so it needs
+// task.manageAll; reassigning is checked per task by assertCanUpdateTask
+const ACTION_PERMISSIONS = {
+  create_task_from_template: 'task.manageAll',
+  draft_invoice: 'invoice.create',
+  log_communication: 'client.edit'
+};
+
+// A proposal can be confirmed while it is in one of these states
+const CONFIRMABLE_STATUSES = ['proposed', 'failed'];
+
+const OBJECT_ID = /^[0-9a-fA-F]{24}$/;
+
+const createError = (message, statusCode) => {
+  const error = new Error(message);
+  error.statusCode = statusCode;
+  return error;
+};
+
+const escapeRegex = (value) => String(value).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const formatDate = (date) => new Date(date).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' });
+
+const formatCurrency = (amount) => `₹${Number(amount || 0).toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
+
+const getFirmId = (user) => user.firmId?._id || user.firmId;
+
+class AIActionService {
+  // The assistant only proposes changes on behalf of firm staff
+  assertStaff(user) {
+    if (!['employee', ...MANAGER_ROLES].includes(user.role)) {
+      throw createError('The assistant can only make changes for firm staff', 403);
+    }
+  }
+
+  // Same permissions the matching REST endpoints require
+  async assertActionPermission(type, user) {
+    const required = ACTION_PERMISSIONS[type];
+    if (!required) return;
+    const permissions = await permissionService.getUserPermissions(user);
+    if (!permissions.has(required)) {
+      throw createError(`Access denied. Missing permission: ${required}`, 403);
+    }
+  }
+
+  // Employees only reach the clients they are assigned to (utils/clientScope.js)
+  async findClient(user, nameOrId) {
+    if (!nameOrId) return null;
+    const filter = {
+      firmId: getFirmId(user),
+      isDeleted: false,
+      ...(isScopedToAssignedClients(user) ? assignedClientFilter(user._id) : {})
+    };
+    const client = OBJECT_ID.test(nameOrId)
+      ? await Client.findOne({ ...filter, _id: nameOrId })
+      : await Client.findOne({ ...filter, name: { $regex: escapeRegex(nameOrId), $options: 'i' } });
+    if (!client) {
+      throw createError(`Client "${nameOrId}" not found`, 404);
+    }
+    return client;
+  }
+
+  async findStaff(firmId, nameOrId) {
+    const filter = { firmId, role: { $in: STAFF_ROLES }, isActive: { $ne: false } };
+    const pattern = { $regex: escapeRegex(nameOrId), $options: 'i' };
+    const member = OBJECT_ID.test(nameOrId)
+      ? await User.findOne({ ...filter, _id: nameOrId })
+      : await User.findOne({ ...filter, $or: [{ fullName: pattern }, { email: pattern }, { username: pattern }] });
+    if (!member) {
+      throw createError(`Team member "${nameOrId}" not found`, 404);
+    }
+    return member;
+  }
+
+  async findTemplate(firmId, nameOrId) {
+    const filter = { firm: firmId, is_active: true, is_deleted: false };
+    const template = OBJECT_ID.test(nameOrId)
+      ? await TaskTemplate.findOne({ ...filter, _id: nameOrId })
+      : await TaskTemplate.findOne({ ...filter, title: { $regex: escapeRegex(nameOrId), $options: 'i' } });
+    if (!template) {
+      throw createError(`Task template "${nameOrId}" not found`, 404);
+    }
+    return template;
+  }
+
+  async findTask(firmId, titleOrId) {
+    const filter = { firm: firmId, isArchived: { $ne: true } };
+    const task = OBJECT_ID.test(titleOrId)
+      ? await Task.findOne({ ...filter, _id: titleOrId })
+      : await Task.findOne({ ...filter, title: { $regex: escapeRegex(titleOrId), $options: 'i' }, status: { $nin: ['completed', 'cancelled'] } });
+    if (!task) {
+      throw createError(`Task "${titleOrId}" not found`, 404);
+    }
+    return task;
+  }
+
+  // Mirrors PUT /api/tasks/:id: assignee, collaborator, creator or task.manageAll
+  async assertCanUpdateTask(task, user) {
+    const userId = user._id.toString();
+    const permissions = await permissionService.getUserPermissions(user);
+    const canUpdate = task.assignedTo?.toString() === userId
+      || (task.collaborators || []).some(id => id.toString() === userId)
+      || task.assignedBy?.toString() === userId
+      || permissions.has('task.manageAll');
+    if (!canUpdate) {
+      throw createError('Not authorized to update this task', 403);
+    }
+  }
+
+  /**
+   * Validate a proposal from the assistant and store it for confirmation.
+   * Names are resolved to ids here so the card shows exactly what will change.
+   */
+  async propose(type, args, user) {
+    this.assertStaff(user);
+    await this.assertActionPermission(type, user);
+    const firmId = getFirmId(user);
+    const builders = {
+      create_task_from_template: () => this.buildCreateTask(args, firmId, user),
+      reassign_task: () => this.buildReassignTask(args, firmId, user),
+      draft_invoice: () => this.buildDraftInvoice(args, user),
+      log_communication: () => this.buildLogCommunication(args, user)
+    };
+    if (!builders[type]) {
+      throw createError(`Unknown action ${type}`, 400);
+    }
+
+    const { params, title, details } = await builders[type]();
+    return AIAction.create({
+      user: user._id,
+      firm: firmId,
+      type,
+      params,
+      title,
+      details,
+      expiresAt: new Date(Date.now() + PROPOSAL_TTL_MS)
+    });
+  }
+
+  async buildCreateTask({ template, client, assignee, dueDate, priority = 'medium', title }, firmId, user) {
+    const taskTemplate = await this.findTemplate(firmId, template);
+    const taskClient = await this.findClient(user, client);
+    const member = assignee ? await this.findStaff(firmId, assignee) : null;
+    if (!TASK_PRIORITIES.includes(priority)) {
+      throw createError(`Priority must be one of ${TASK_PRIORITIES.join(', ')}`, 400);
+    }
+    if (dueDate && isNaN(new Date(dueDate))) {
+      throw createError('Invalid due date', 400);
+    }
+
+    const taskTitle = title?.trim() || (taskClient ? `${taskTemplate.title} - ${taskClient.name}` : taskTemplate.title);
+    return {
+      params: {
+        templateId: taskTemplate._id,
+        clientId: taskClient?._id,
+        assigneeId: member?._id,
+        dueDate: dueDate ? new Date(dueDate) : undefined,
+        priority,
+        title: taskTitle
+      },
+      title: `Create task "${taskTitle}"`,
+      details: [
+        { label: 'Template', value: taskTemplate.title },
+        { label: 'Client', value: taskClient?.name || 'None' },
+        { label: 'Assign to', value: member?.fullName || 'Unassigned' },
+        { label: 'Priority', value: priority },
+        {
+          label: 'Due',
+          value: dueDate
+            ? formatDate(dueDate)
+            : taskTemplate.statutory_return_type ? `Next ${taskTemplate.statutory_return_type} due date` : 'In 7 days'
+        }
+      ]
+    };
+  }
+
+  async buildReassignTask({ task, assignee }, firmId, user) {
+    const existing = await this.findTask(firmId, task);
+    await this.assertCanUpdateTask(existing, user);
+    const member = await this.findStaff(firmId, assignee);
+    const current = existing.assignedTo ? await User.findById(existing.assignedTo).select('fullName') : null;
+    if (current && current._id.equals(member._id)) {
+      throw createError(`"${existing.title}" is already assigned to ${member.fullName}`, 400);
+    }
+
+    return {
+      params: { taskId: existing._id, assigneeId: member._id },
+      title: `Reassign "${existing.title}"`,
+      details: [
+        { label: 'From', value: current?.fullName || 'Unassigned' },
+        { label: 'To', value: member.fullName },
+        { label: 'Due', value: formatDate(existing.dueDate) }
+      ]
+    };
+  }
+
+  async buildDraftInvoice({ client, items, dueInDays, notes }, user) {
+    const invoiceClient = await this.findClient(user, client);
+    if (!invoiceClient) {
+      throw createError('A client is required to draft an invoice', 400);
+    }
+    if (!Array.isArray(items) || items.length === 0) {
+      throw createError('Add at least one line item', 400);
+    }
+
+    const lines = items.map(item => {
+      const quantity = Number(item.quantity ?? 1);
+      const rate = Number(item.rate);
+      if (!item.description?.trim() || !(quantity > 0) || !(rate >= 0) || isNaN(rate)) {
+        throw createError('Each line item needs a description, quantity and rate', 400);
+      }
+      return {
+        description: item.description.trim(),
+        quantity,
+        rate,
+        amount: Math.round(quantity * rate * 100) / 100,
+        taxable: item.taxable ?? true,
+        taxRate: Number(item.taxRate ?? 18)
+      };
+    });
+    const subtotal = lines.reduce((sum, line) => sum + line.amount, 0);
+    const tax = lines.reduce((sum, line) => (line.taxable ? sum + (line.amount * line.taxRate) / 100 : sum), 0);
+    const terms = Number(dueInDays ?? invoiceClient.paymentTerms ?? 30);
+
+    return {
+      params: { clientId: invoiceClient._id, items: lines, dueInDays: terms, notes: notes?.trim() },
+      title: `Draft invoice for ${invoiceClient.name}`,
+      details: [
+        ...lines.map(line => ({ label: line.description, value: `${line.quantity} x ${formatCurrency(line.rate)}` })),
+        { label: 'Estimated total', value: `${formatCurrency(subtotal + tax)} incl. GST` },
+        { label: 'Due', value: `${terms} days after issue` }
+      ]
+    };
+  }
+
+  async buildLogCommunication({ client, communicationType, subject, message }, user) {
+    const commClient = await this.findClient(user, client);
+    if (!commClient) {
+      throw createError('A client is required to log a communication', 400);
+    }
+    if (!COMMUNICATION_TYPES.includes(communicationType)) {
+      throw createError(`Communication type must be one of ${COMMUNICATION_TYPES.join(', ')}`, 400);
+    }
+    if (!subject?.trim() || !message?.trim()) {
+      throw createError('Subject and message are required', 400);
+    }
+
+    return {
+      params: { clientId: commClient._id, communicationType, subject: subject.trim(), message: message.trim() },
+      title: `Log ${communicationType.replace('_', ' ')} with ${commClient.name}`,
+      details: [
+        { label: 'Subject', value: subject.trim() },
+        { label: 'Summary', value: message.trim() }
+      ]
+    };
+  }
+
+  async getProposal(actionId, user) {
+    const action = await AIAction.findOne({ _id: actionId, user: user._id, firm: getFirmId(user) });
+    if (!action) {
+      throw createError('Action not found', 404);
+    }
+    if (!CONFIRMABLE_STATUSES.includes(action.status)) {
+      throw createError(action.status === 'executing' ? 'This action is already running' : `This action was already ${action.status}`, 400);
+    }
+    return action;
+  }
+
+  /**
+   * Move a confirmable proposal to `status` in one write, so two confirmations
+   * (double click, two tabs) cannot both run it. Explains why when it cannot.
+   */
+  async claimProposal(actionId, user, status, { unexpired = false } = {}) {
+    const action = await AIAction.findOneAndUpdate(
+      {
+        _id: actionId,
+        user: user._id,
+        firm: getFirmId(user),
+        status: { $in: CONFIRMABLE_STATUSES },
+        ...(unexpired ? { expiresAt: { $gt: new Date() } } : {})
+      },
+      { $set: { status } },
+      { new: true }
+    );
+    if (!action) {
+      await this.getProposal(actionId, user);
+      throw createError('This proposal has expired - ask the assistant again', 410);
+    }
+    return action;
+  }
+
+  /**
+   * Run a confirmed proposal. Permissions are checked again at this point since
+   * the user's role or the records involved may have changed since it was proposed.
+   */
+  async confirm(actionId, user, { ipAddress, userAgent, taskWS } = {}) {
+    const action = await this.claimProposal(actionId, user, 'executing', { unexpired: true });
+
+    try {
+      this.assertStaff(user);
+      await this.assertActionPermission(action.type, user);
+      const executors = {
+        create_task_from_template: () => this.createTask(action.params, user, taskWS),
+        reassign_task: () => this.reassignTask(action.params, user, taskWS),
+        draft_invoice: () => this.draftInvoice(action.params, user),
+        log_communication: () => this.logCommunication(action.params, user)
+      };
+      action.result = await executors[action.type]();
+      action.status = 'executed';
+      action.executedAt = new Date();
+      action.errorMessage = undefined;
+      await action.save();
+    } catch (error) {
+      if (error.name === 'ValidationError') {
+        error.statusCode = 400;
+      }
+      action.status = 'failed';
+      action.errorMessage = error.message;
+      await action.save();
+      await this.audit(action, user, { ipAddress, userAgent, status: 'failure', errorMessage: error.message });
+      throw error;
+    }
+
+    await this.audit(action, user, { ipAddress, userAgent });
+    return action;
+  }
+
+  async cancel(actionId, user) {
+    return this.claimProposal(actionId, user, 'cancelled');
+  }
+
+  audit(action, user, { ipAddress, userAgent, status = 'success', errorMessage } = {}) {
+    return auditLogger.log({
+      userId: user._id,
+      firmId: action.firm,
+      action: 'ai_action_executed',
+      category: 'data',
+      severity: 'medium',
+      description: `AI assistant action: ${action.title}`,
+      details: {
+        actionId: action._id,
+        type: action.type,
+        params: action.params,
+        result: action.result
+      },
+      ipAddress,
+      userAgent,
+      status,
+      errorMessage
+    });
+  }
+
+  // Same task shape POST /api/tasks builds from a template
+  async createTask({ templateId, clientId, assigneeId, dueDate, priority, title }, user, taskWS) {
+    const firmId = getFirmId(user);
+    const template = await this.findTemplate(firmId, String(templateId));
+    if (clientId) await this.findClient(user, String(clientId));
+    if (assigneeId) await this.findStaff(firmId, String(assigneeId));
+
+    const taskData = {
+      title,
+      description: template.description || '',
+      type: TASK_TYPES[template.category] || 'other',
+      category: template.category,
+      sub_category: template.sub_category || template.title,
+      priority,
+      status: 'todo',
+      dueDate: dueDate ? new Date(dueDate) : new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+      assignedBy: user._id,
+      firm: firmId,
+      client: clientId,
+      assignedTo: assigneeId,
+      template: template._id,
+      billable: template.is_payable_task || false,
+      fixedPrice: template.price
+    };
+
+    if (template.statutory_return_type && !dueDate) {
+      const resolved = await dueDateService.getNextDueDate(firmId, template.statutory_return_type, new Date(), {
+        assesseeType: template.statutory_assessee_type
+      });
+      if (resolved) {
+        taskData.dueDate = resolved.dueDate;
+        taskData.statutoryReturn = {
+          returnType: resolved.returnType,
+          period: resolved.period,
+          assesseeType: template.statutory_assessee_type
+        };
+      }
+    }
+
+    if (template.subtasks?.length > 0) {
+      taskData.customFields = new Map([['subtasks', template.subtasks.map(({ title: subtask, description }) => ({ title: subtask, description }))]]);
+      taskData.checklist = buildChecklistFromTemplate(template, { dueDate: taskData.dueDate, assignee: assigneeId });
+    }
+
+    const task = await Task.create(taskData);
+    template.usage_count = (template.usage_count || 0) + 1;
+    template.last_used = new Date();
+    await template.save();
+
+    await this.announceTask(task, 'create', user, taskWS);
+    return { entityType: 'Task', entityId: task._id, message: `Task "${task.title}" created` };
+  }
+
+  async reassignTask({ taskId, assigneeId }, user, taskWS) {
+    const firmId = getFirmId(user);
+    const task = await this.findTask(firmId, String(taskId));
+    await this.assertCanUpdateTask(task, user);
+    const member = await this.findStaff(firmId, String(assigneeId));
+
+    task.assignedTo = member._id;
+    await task.save();
+
+    await this.announceTask(task, 'update', user, taskWS);
+    return { entityType: 'Task', entityId: task._id, message: `"${task.title}" reassigned to ${member.fullName}` };
+  }
+
+  async draftInvoice({ clientId, items, dueInDays, notes }, user) {
+    const firmId = getFirmId(user);
+    const client = await this.findClient(user, String(clientId));
+    const issueDate = new Date();
+    const dueDate = new Date(issueDate);
+    dueDate.setDate(dueDate.getDate() + dueInDays);
+
+    // Totals are worked out by the Invoice pre-save hook
+    const invoice = await Invoice.create({
+      type: 'invoice',
+      status: 'draft',
+      client: client._id,
+      firm: firmId,
+      createdBy: user._id,
+      issueDate,
+      dueDate,
+      items,
+      subtotal: 0,
+      totalAmount: 0,
+      paymentTerms: `Net ${dueInDays}`,
+      notes
+    });
+
+    return { entityType: 'Invoice', entityId: invoice._id, message: `Draft invoice ${invoice.invoiceNumber} created for ${formatCurrency(invoice.totalAmount)}` };
+  }
+
+  async logCommunication({ clientId, communicationType, subject, message }, user) {
+    const firmId = getFirmId(user);
+    const client = await this.findClient(user, String(clientId));
+
+    const communication = await ClientCommunication.create({
+      clientId: client._id,
+      communicationType,
+      subject,
+      message,
+      status: 'sent',
+      isInternal: communicationType === 'internal_note',
+      metadata: { source: 'ai_assistant' },
+      firmId,
+      createdBy: user._id
+    });
+
+    return { entityType: 'ClientCommunication', entityId: communication._id, message: `Communication logged for ${client.name}` };
+  }
+
+  // Broadcast the change and tell a new assignee, as the task routes do
+  async announceTask(task, wsAction, user, taskWS) {
+    const populated = await Task.findById(task._id)
+      .populate('assignedTo', 'fullName email')
+      .populate('assignedBy', 'fullName email')
+      .populate('client', 'name email');
+
+    try {
+      taskWS?.broadcastTaskUpdate(populated, wsAction, user._id.toString());
+    } catch (wsError) {
+      console.error('WebSocket broadcast error:', wsError);
+    }
+
+    if (populated.assignedTo && !populated.assignedTo._id.equals(user._id)) {
+      try {
+        await NotificationService.notifyTaskAssignment(populated._id, populated.assignedTo._id, user._id, {
+          title: populated.title,
+          description: populated.description,
+          priority: populated.priority,
+          dueDate: populated.dueDate,
+          category: populated.type
+        });
+      } catch (notificationError) {
+        console.error('Error sending task assignment notification:', notificationError);
+      }
+    }
+  }
+}
+
+const aiActionService = new AIActionService();
+
+export default aiActionService;
@@ -0,0 +1,195 @@
+import mongoose from 'mongoose';
+import AIUsage from '../models/AIUsage.js';
+import Firm from '../models/Firm.js';
+
+// Monthly token allowances by subscription plan. `firm` caps the whole firm,
+// `roles` caps each individual user of that role. null means unlimited.
+export const PLAN_QUOTAS = {
+  free: {
+    firm: 200000,
+    roles: { owner: 100000, admin: 75000, employee: 40000, client: 10000 }
+  },
+  basic: {
+    firm: 1000000,
+    roles: { owner: 400000, admin: 300000, employee: 150000, client: 25000 }
+  },
+  premium: {
+    firm: 5000000,
+    roles: { owner: 1500000, admin: 1000000, employee: 500000, client: 100000 }
+  },
+  enterprise: {
+    firm: null,
+    roles: { owner: null, admin: null, employee: 2000000, client: 250000 }
+  }
+};
+
+// Share of a quota at which users start seeing a warning
+export const WARNING_THRESHOLD = 0.8;
+
+// Approximate list prices in INR per million tokens, matched by model name
+// prefix (first match wins). Only used for estimates shown to firm owners.
+const MODEL_RATES = [
+  { match: 'local', input: 0, output: 0 },
+  { match: 'gemini-1.5-pro', input: 106, output: 425 },
+  { match: 'gemini-2.5-pro', input: 106, output: 850 },
+  { match: 'gemini', input: 8.5, output: 34 },
+  { match: 'gpt-4o-mini', input: 12.75, output: 51 },
+  { match: 'gpt-4o', input: 212.5, output: 850 },
+  { match: 'gpt-4.1-mini', input: 34, output: 136 },
+  { match: '', input: 25, output: 100 }
+];
+
+const toObjectId = (id) => new mongoose.Types.ObjectId(String(id));
+
+const monthBounds = (now = new Date()) => {
+  const start = new Date(now.getFullYear(), now.getMonth(), 1);
+  const end = new Date(now.getFullYear(), now.getMonth() + 1, 1);
+  return { start, end };
+};
+
+const round = (value, places = 2) => {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+};
+
+const quotaState = (used, limit) => {
+  if (!limit) {
+    return { used, limit: null, remaining: null, percent: 0, status: 'ok' };
+  }
+  const ratio = used / limit;
+  return {
+    used,
+    limit,
+    remaining: Math.max(limit - used, 0),
+    percent: round(ratio * 100, 1),
+    status: ratio >= 1 ? 'exceeded' : ratio >= WARNING_THRESHOLD ? 'warning' : 'ok'
+  };
+};
+
+class AIQuotaService {
+  // Labels are "provider:model" (see modelLabel in routes/ai.js)
+  getRates(label) {
+    const [provider, ...rest] = (label || '').toLowerCase().split(':');
+    const model = rest.length > 0 ? rest.join(':') : provider;
+    if (provider === 'local') return MODEL_RATES[0];
+    return MODEL_RATES.find(rate => model.startsWith(rate.match));
+  }
+
+  estimateCost(model, promptTokens = 0, completionTokens = 0) {
+    const rates = this.getRates(model);
+    return round((promptTokens * rates.input + completionTokens * rates.output) / 1000000, 4);
+  }
+
+  // Copy a provider's token counts onto an AIUsage record and price them
+  applyUsage(usageRecord, usage) {
+    const promptTokens = usage?.promptTokens || 0;
+    const completionTokens = usage?.completionTokens || 0;
+    usageRecord.promptTokens = promptTokens;
+    usageRecord.completionTokens = completionTokens;
+    usageRecord.tokensUsed = usage?.totalTokens || promptTokens + completionTokens;
+    usageRecord.estimatedCost = this.estimateCost(usageRecord.metadata?.model, promptTokens, completionTokens);
+  }
+
+  async getPlan(firmId) {
+    const firm = await Firm.findById(firmId).select('subscription.plan').lean();
+    const plan = firm?.subscription?.plan || 'free';
+    return PLAN_QUOTAS[plan] ? plan : 'free';
+  }
+
+  /**
+   * Current month's token consumption for the user's firm and for the user,
+   * measured against their plan. `status` is the worse of the two.
+   */
+  async getQuotaStatus(user) {
+    const firmId = user.firmId?._id || user.firmId;
+    const plan = await this.getPlan(firmId);
+    const quotas = PLAN_QUOTAS[plan];
+    const { start, end } = monthBounds();
+
+    const [totals] = await AIUsage.aggregate([
+      { $match: { firm: toObjectId(firmId), createdAt: { $gte: start, $lt: end } } },
+      {
+        $group: {
+          _id: null,
+          firmTokens: { $sum: { $ifNull: ['$tokensUsed', 0] } },
+          userTokens: {
+            $sum: { $cond: [{ $eq: ['$user', toObjectId(user._id)] }, { $ifNull: ['$tokensUsed', 0] }, 0] }
+          }
+        }
+      }
+    ]);
+
+    const firm = quotaState(totals?.firmTokens || 0, quotas.firm);
+    const own = quotaState(totals?.userTokens || 0, quotas.roles[user.role] ?? null);
+    const order = ['ok', 'warning', 'exceeded'];
+    const status = order[Math.max(order.indexOf(firm.status), order.indexOf(own.status))];
+
+    let message = null;
+    if (status === 'exceeded') {
+      message = firm.status === 'exceeded'
+        ? 'Your firm has used its AI assistant allowance for this month. Ask the firm owner to upgrade the plan, or try again next month.'
+        : 'You have used your AI assistant allowance for this month. It resets on the 1st.';
+    } else if (status === 'warning') {
+      const percent = Math.max(firm.percent, own.percent);
+      message = `You have used ${Math.floor(percent)}% of this month's AI assistant allowance.`;
+    }
+
+    return { plan, status, message, firm, user: own, resetsAt: end };
+  }
+
+  /**
+   * Month-to-date quota consumption and spend for a firm, with a straight-line
+   * projection to month end based on the average daily usage so far.
+   */
+  async getFirmSummary(firmId) {
+    const plan = await this.getPlan(firmId);
+    const quotas = PLAN_QUOTAS[plan];
+    const now = new Date();
+    const { start, end } = monthBounds(now);
+
+    const rows = await AIUsage.aggregate([
+      { $match: { firm: toObjectId(firmId), createdAt: { $gte: start, $lt: end } } },
+      {
+        $lookup: { from: 'users', localField: 'user', foreignField: '_id', as: 'userDoc' }
+      },
+      {
+        $group: {
+          _id: { $ifNull: [{ $arrayElemAt: ['$userDoc.role', 0] }, 'unknown'] },
+          tokens: { $sum: { $ifNull: ['$tokensUsed', 0] } },
+          cost: { $sum: { $ifNull: ['$estimatedCost', 0] } },
+          users: { $addToSet: '$user' }
+        }
+      }
+    ]);
+
+    const tokens = rows.reduce((sum, row) => sum + row.tokens, 0);
+    const cost = rows.reduce((sum, row) => sum + row.cost, 0);
+    const elapsedDays = Math.max((now - start) / 86400000, 1);
+    const monthDays = (end - start) / 86400000;
+    const projectedTokens = Math.round(tokens / elapsedDays * monthDays);
+
+    return {
+      plan,
+      period: { start, end },
+      firm: quotaState(tokens, quotas.firm),
+      byRole: rows.map(row => ({
+        role: row._id,
+        tokens: row.tokens,
+        cost: round(row.cost),
+        users: row.users.length,
+        perUserLimit: quotas.roles[row._id] ?? null
+      })).sort((a, b) => b.tokens - a.tokens),
+      cost: {
+        currency: 'INR',
+        monthToDate: round(cost),
+        projectedMonthEnd: round(cost / elapsedDays * monthDays)
+      },
+      projectedTokens,
+      projectedStatus: quotaState(projectedTokens, quotas.firm).status
+    };
+  }
+}
+
+const aiQuotaService = new AIQuotaService();
+
+export default aiQuotaService;
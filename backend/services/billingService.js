@@ -0,0 +1,255 @@
+import mongoose from 'mongoose';
+import Task from '../models/Task.js';
+import Invoice from '../models/Invoice.js';
+import hsnService from './hsnService.js';
+import { runInTransaction } from '../utils/transactions.js';
+
+const DEFAULT_TAX_RATE = 18;
+const DEFAULT_PAYMENT_DAYS = 30;
+const FINALIZED_STATUSES = ['sent', 'paid', 'partially_paid', 'overdue'];
+
+const round2 = (value) => Math.round((Number(value) || 0) * 100) / 100;
+
+const toObjectIds = (ids = []) => ids
+  .filter(id => mongoose.Types.ObjectId.isValid(id))
+  .map(id => new mongoose.Types.ObjectId(String(id)));
+
+class BillingService {
+  // Completed, billable tasks that have not been put on an invoice yet
+  buildUnbilledFilter(firmId, { from, to, clientIds } = {}) {
+    const filter = {
+      firm: firmId,
+      status: 'completed',
+      billable: true,
+      invoiced: { $ne: true },
+      isArchived: { $ne: true },
+      client: { $ne: null }
+    };
+
+    if (from || to) {
+      filter.completedDate = {};
+      if (from) filter.completedDate.$gte = new Date(from);
+      if (to) {
+        const end = new Date(to);
+        end.setHours(23, 59, 59, 999);
+        filter.completedDate.$lte = end;
+      }
+    }
+
+    if (clientIds?.length) {
+      filter.client = { $in: toObjectIds(clientIds) };
+    }
+
+    return filter;
+  }
+
+  // Most recent finalized price per task and per task category for each client
+  async getLastPricing(firmId, clientIds, session) {
+    const invoices = await Invoice.find({
+      firm: firmId,
+      client: { $in: clientIds },
+      status: { $in: FINALIZED_STATUSES }
+    })
+      .sort({ createdAt: -1 })
+      .populate({ path: 'items.task', select: 'category sub_category' })
+      .select('client items')
+      .session(session || null);
+
+    const pricing = new Map();
+    invoices.forEach(invoice => {
+      const clientKey = invoice.client.toString();
+      if (!pricing.has(clientKey)) pricing.set(clientKey, { byTask: new Map(), byCategory: new Map() });
+      const { byTask, byCategory } = pricing.get(clientKey);
+
+      invoice.items.forEach(item => {
+        if (!item.task) return;
+        const taskKey = item.task._id.toString();
+        const categoryKey = `${item.task.category || ''}|${item.task.sub_category || ''}`;
+        // Invoices are sorted newest first, so the first hit wins
+        if (!byTask.has(taskKey)) byTask.set(taskKey, item);
+        if (!byCategory.has(categoryKey)) byCategory.set(categoryKey, item);
+      });
+    });
+
+    return pricing;
+  }
+
+  priceTask(task, clientPricing, override = {}, categoryDefault = null) {
+    let quantity = 1;
+    let rate = 0;
+    let source = 'none';
+    let hsn;
+    let taxRate = DEFAULT_TAX_RATE;
+
+    const previous = clientPricing?.byTask.get(task._id.toString())
+      || clientPricing?.byCategory.get(`${task.category || ''}|${task.sub_category || ''}`);
+
+    if (task.fixedPrice) {
+      rate = task.fixedPrice;
+      source = 'fixed_price';
+    } else if (task.hourlyRate && task.actualHours) {
+      quantity = task.actualHours;
+      rate = task.hourlyRate;
+      source = 'logged_hours';
+    } else if (task.hourlyRate && task.estimatedHours) {
+      quantity = task.estimatedHours;
+      rate = task.hourlyRate;
+      source = 'estimated_hours';
+    } else if (previous) {
+      quantity = previous.quantity;
+      rate = previous.rate;
+      source = 'last_invoice';
+    }
+
+    if (previous) {
+      hsn = previous.hsn;
+      taxRate = previous.taxRate ?? DEFAULT_TAX_RATE;
+    } else if (categoryDefault) {
+      // First time this work is billed to the client: the firm's SAC for the task category
+      hsn = categoryDefault.hsn;
+      taxRate = categoryDefault.taxRate ?? DEFAULT_TAX_RATE;
+    }
+
+    if (override.rate !== undefined) {
+      rate = Number(override.rate);
+      source = 'manual';
+    }
+    if (override.quantity !== undefined) quantity = Number(override.quantity);
+
+    quantity = round2(quantity) || 1;
+    rate = round2(rate);
+
+    return {
+      task: task._id,
+      taskId: task.taskId,
+      description: override.description || (task.taskId ? `${task.title} (${task.taskId})` : task.title),
+      quantity,
+      rate,
+      amount: round2(quantity * rate),
+      taxable: true,
+      hsn: override.hsn || hsn,
+      taxRate: override.taxRate !== undefined ? Number(override.taxRate) : taxRate,
+      completedDate: task.completedDate,
+      pricingSource: source
+    };
+  }
+
+  async buildDrafts(firmId, options = {}, session) {
+    const tasks = await Task.find(this.buildUnbilledFilter(firmId, options))
+      .populate('client', 'name email')
+      .sort({ completedDate: 1 })
+      .session(session || null);
+
+    const clientIds = [...new Set(tasks.map(task => task.client?._id?.toString()).filter(Boolean))];
+    const pricing = await this.getLastPricing(firmId, toObjectIds(clientIds), session);
+    const categoryDefaults = await hsnService.getCategoryDefaults(firmId);
+    const overrides = options.overrides || {};
+
+    const groups = new Map();
+    tasks.forEach(task => {
+      if (!task.client) return;
+      const clientKey = task.client._id.toString();
+      if (!groups.has(clientKey)) {
+        groups.set(clientKey, { client: task.client, items: [] });
+      }
+      groups.get(clientKey).items.push(
+        this.priceTask(task, pricing.get(clientKey), overrides[task._id.toString()], categoryDefaults[task.category])
+      );
+    });
+
+    return [...groups.values()].map(({ client, items }) => {
+      const subtotal = round2(items.reduce((sum, item) => sum + item.amount, 0));
+      const taxAmount = round2(items.reduce((sum, item) => sum + (item.taxable ? item.amount * item.taxRate / 100 : 0), 0));
+      return {
+        client: { _id: client._id, name: client.name, email: client.email },
+        items,
+        unpricedCount: items.filter(item => item.amount <= 0).length,
+        subtotal,
+        taxAmount,
+        totalAmount: round2(subtotal + taxAmount)
+      };
+    });
+  }
+
+  async previewUnbilled(firmId, options = {}) {
+    return this.buildDrafts(firmId, options);
+  }
+
+  /**
+   * Creates one draft invoice per client and marks the tasks invoiced, in a
+   * single transaction on a replica set. A standalone server has no
+   * transactions, so the tasks are tagged with a run id and a failed run
+   * releases its own tasks and deletes the invoices it created.
+   */
+  async generateInvoices(firmId, userId, options = {}) {
+    const runId = new mongoose.Types.ObjectId().toString();
+    const created = [];
+
+    const rollback = async () => {
+      await Invoice.deleteMany({ _id: { $in: created.map(invoice => invoice._id) }, firm: firmId });
+      await Task.updateMany({ firm: firmId, billingRun: runId }, { $set: { invoiced: false, billingRun: null } });
+    };
+
+    await runInTransaction(async (session) => {
+      created.length = 0;
+      const drafts = await this.buildDrafts(firmId, options, session);
+
+      if (drafts.length === 0) {
+        const error = new Error('No unbilled completed tasks found for the selected period');
+        error.statusCode = 400;
+        throw error;
+      }
+
+      const unpriced = drafts.filter(draft => draft.unpricedCount > 0);
+      if (unpriced.length > 0) {
+        const error = new Error(`Set a rate for unpriced tasks before generating invoices (${unpriced.map(d => d.client.name).join(', ')})`);
+        error.statusCode = 400;
+        throw error;
+      }
+
+      const taskIds = drafts.flatMap(draft => draft.items.map(item => item.task));
+      const result = await Task.updateMany(
+        { _id: { $in: taskIds }, firm: firmId, invoiced: { $ne: true } },
+        { $set: { invoiced: true, ...(session ? {} : { billingRun: runId }) } },
+        { session }
+      );
+
+      // Another request billed some of these tasks in the meantime
+      if (result.modifiedCount !== taskIds.length) {
+        const error = new Error('Some tasks were invoiced by someone else - refresh the preview and try again');
+        error.statusCode = 409;
+        throw error;
+      }
+
+      const issueDate = new Date();
+      const dueDate = new Date(issueDate);
+      dueDate.setDate(dueDate.getDate() + DEFAULT_PAYMENT_DAYS);
+
+      for (const draft of drafts) {
+        const invoice = new Invoice({
+          type: 'invoice',
+          status: 'draft',
+          client: draft.client._id,
+          firm: firmId,
+          createdBy: userId,
+          issueDate,
+          dueDate,
+          paymentTerms: `Net ${DEFAULT_PAYMENT_DAYS}`,
+          items: draft.items.map(({ description, quantity, rate, amount, task, taxable, hsn, taxRate }) => ({
+            description, quantity, rate, amount, task, taxable, hsn, taxRate
+          })),
+          subtotal: draft.subtotal,
+          taxAmount: draft.taxAmount,
+          totalAmount: draft.totalAmount,
+          notes: options.notes
+        });
+        await invoice.save({ session });
+        created.push(invoice);
+      }
+    }, { rollback });
+
+    return created;
+  }
+}
+
+export default new BillingService();
@@ -0,0 +1,293 @@
+import Invoice from '../models/Invoice.js';
+import razorpayService from './razorpayService.js';
+import { calculateInvoiceTax } from '../utils/gstTax.js';
+import { releaseInvoiceNumber } from '../utils/invoiceNumbering.js';
+import { runInTransaction } from '../utils/transactions.js';
+
+// Only invoices that have been issued to the client can be credited
+export const CREDITABLE_STATUSES = ['sent', 'paid', 'partially_paid', 'overdue'];
+const REFUND_METHODS = ['razorpay', 'cash', 'cheque', 'bank_transfer', 'upi'];
+
+const round2 = (value) => Math.round((Number(value) || 0) * 100) / 100;
+
+const createError = (message, statusCode) => {
+  const error = new Error(message);
+  error.statusCode = statusCode;
+  return error;
+};
+
+class CreditNoteService {
+  // Mirrors the Invoice pre-save calculation so limits can be checked before saving
+  calculateTotal(items, discount = {}, taxApplicable = true, interState = false) {
+    const subtotal = items.reduce((sum, item) => sum + item.amount, 0);
+    const discountAmount = discount.type === 'fixed'
+      ? (discount.value || 0)
+      : (subtotal * (discount.value || 0)) / 100;
+    const { taxAmount } = calculateInvoiceTax(items, discountAmount, { applicable: taxApplicable, interState });
+    return round2(subtotal - discountAmount + taxAmount);
+  }
+
+  /**
+   * Credit note lines: a copy of every invoice line for a full credit, or the
+   * given lines (taking tax settings from the matching invoice line) for a partial one
+   */
+  buildItems(original, { full, items }) {
+    if (full) {
+      return original.items.map(({ description, quantity, rate, amount, task, taxable, hsn, taxRate }) => ({
+        description, quantity, rate, amount, task, taxable, hsn, taxRate
+      }));
+    }
+
+    if (!Array.isArray(items) || items.length === 0) {
+      throw createError('Add at least one line to credit', 400);
+    }
+
+    return items.map(item => {
+      const source = item.invoiceItem ? original.items.id(item.invoiceItem) : null;
+      const quantity = Number(item.quantity ?? source?.quantity ?? 1);
+      const rate = Number(item.rate ?? source?.rate);
+      const description = (item.description || source?.description || '').trim();
+
+      if (!description || !(quantity > 0) || !(rate >= 0) || isNaN(rate)) {
+        throw createError('Each credited line needs a description, quantity and rate', 400);
+      }
+
+      return {
+        description,
+        quantity,
+        rate,
+        amount: round2(quantity * rate),
+        task: source?.task,
+        taxable: item.taxable ?? source?.taxable ?? true,
+        hsn: item.hsn ?? source?.hsn,
+        taxRate: Number(item.taxRate ?? source?.taxRate ?? 18)
+      };
+    });
+  }
+
+  // Refunds already issued (or in flight) against an invoice's credit notes
+  async getRefundedAmount(invoiceId, session = null) {
+    const creditNotes = await Invoice.find({
+      type: 'credit_note',
+      'creditNote.originalInvoice': invoiceId,
+      'creditNote.refund.status': { $in: ['pending', 'processed'] }
+    })
+      .select('creditNote.refund.amount')
+      .session(session)
+      .lean();
+    return round2(creditNotes.reduce((sum, note) => sum + (note.creditNote?.refund?.amount || 0), 0));
+  }
+
+  validateRefund(refund, original, creditTotal, alreadyRefunded) {
+    if (!refund || !(Number(refund.amount) > 0)) return null;
+
+    const amount = round2(refund.amount);
+    const method = refund.method || 'razorpay';
+    if (!REFUND_METHODS.includes(method)) {
+      throw createError('Invalid refund method', 400);
+    }
+    if (amount > creditTotal) {
+      throw createError('Refund cannot exceed the credit note amount', 400);
+    }
+    if (amount > round2(original.paidAmount - alreadyRefunded)) {
+      throw createError(`Only ₹${round2(original.paidAmount - alreadyRefunded)} received on this invoice can be refunded`, 400);
+    }
+    if (method === 'razorpay' && !original.razorpay?.paymentId) {
+      throw createError('This invoice was not paid through Razorpay - record the refund method used instead', 400);
+    }
+    return { amount, method, reference: refund.reference };
+  }
+
+  /**
+   * Issue a credit note against an invoice. Reduces the invoice balance (cancelling it
+   * when fully credited) and optionally refunds money already received.
+   * Without a transaction (standalone server) the invoice is saved with a version
+   * check, and the credit note is deleted again if another request changed it first.
+   */
+  async createCreditNote(firmId, userId, invoiceId, { full = false, items, reason, refund, issueDate } = {}) {
+    if (!reason?.trim()) {
+      throw createError('A reason is required for a credit note', 400);
+    }
+
+    let creditNote;
+    let original;
+    let refundRequest = null;
+
+    const rollback = async () => {
+      if (!creditNote || creditNote.isNew) return;
+      await Invoice.deleteOne({ _id: creditNote._id, firm: firmId });
+      if (creditNote.$locals.numberAllocation) {
+        await releaseInvoiceNumber(creditNote.$locals.numberAllocation);
+      }
+    };
+
+    await runInTransaction(async (session) => {
+      original = await Invoice.findOne({ _id: invoiceId, firm: firmId, type: 'invoice' }).session(session);
+      if (!original) {
+        throw createError('Invoice not found', 404);
+      }
+      if (!CREDITABLE_STATUSES.includes(original.status)) {
+        throw createError(`A ${original.status.replace('_', ' ')} invoice cannot be credited`, 400);
+      }
+      if (full && original.creditedAmount > 0) {
+        throw createError('This invoice already has credit notes - credit the remaining lines individually', 400);
+      }
+
+      const creditItems = this.buildItems(original, { full, items });
+      const discount = full ? { type: original.discount.type, value: original.discount.value } : { type: 'fixed', value: 0 };
+      // A credit note reverses tax under the same heads as the invoice it corrects
+      const interState = original.placeOfSupply?.stateCode
+        ? original.placeOfSupply.interState
+        : (original.gst?.igst || 0) > 0;
+      const creditTotal = this.calculateTotal(creditItems, discount, original.gst.applicable, interState);
+      const creditable = round2(original.totalAmount - original.creditedAmount);
+
+      if (creditTotal <= 0) {
+        throw createError('Credit note amount must be greater than zero', 400);
+      }
+      if (creditTotal > creditable + 0.01) {
+        throw createError(`Credit note total ₹${creditTotal} exceeds the ₹${creditable} still creditable on this invoice`, 400);
+      }
+
+      const alreadyRefunded = await this.getRefundedAmount(original._id, session);
+      refundRequest = this.validateRefund(refund, original, creditTotal, alreadyRefunded);
+
+      creditNote = new Invoice({
+        type: 'credit_note',
+        status: 'sent',
+        client: original.client,
+        firm: firmId,
+        createdBy: userId,
+        issueDate: issueDate ? new Date(issueDate) : new Date(),
+        dueDate: issueDate ? new Date(issueDate) : new Date(),
+        items: creditItems,
+        discount,
+        subtotal: 0,
+        totalAmount: 0,
+        gst: { applicable: original.gst.applicable },
+        placeOfSupply: original.placeOfSupply?.stateCode ? original.toObject().placeOfSupply : undefined,
+        notes: reason.trim(),
+        creditNote: {
+          originalInvoice: original._id,
+          reason: reason.trim(),
+          interState,
+          refund: refundRequest
+            ? { amount: refundRequest.amount, method: refundRequest.method, reference: refundRequest.reference, status: 'pending' }
+            : undefined
+        }
+      });
+      await creditNote.save({ session });
+
+      original.creditedAmount = round2(original.creditedAmount + creditNote.totalAmount);
+      if (!session) original.increment();
+      try {
+        await original.save({ session });
+      } catch (error) {
+        if (error.name === 'VersionError') {
+          throw createError('The invoice was changed by someone else - reload it and try again', 409);
+        }
+        throw error;
+      }
+    }, { rollback });
+
+    // Money goes back to the client only once the credit note is on the books
+    if (refundRequest) {
+      await this.processRefund(creditNote, original);
+    }
+
+    return { creditNote, invoice: original };
+  }
+
+  /**
+   * Complete the refund recorded on a credit note. Razorpay refunds go back to the
+   * original payment; other methods are recorded as paid out by the firm.
+   */
+  async processRefund(creditNote, original) {
+    const refund = creditNote.creditNote.refund;
+
+    if (refund.method !== 'razorpay') {
+      refund.status = 'processed';
+      refund.processedAt = new Date();
+      refund.error = undefined;
+      await creditNote.save();
+      return creditNote;
+    }
+
+    try {
+      const result = await razorpayService.createRefund(original.razorpay.paymentId, refund.amount, {
+        invoice_number: original.invoiceNumber,
+        credit_note_number: creditNote.invoiceNumber
+      });
+
+      if (result.success) {
+        refund.razorpayRefundId = result.refund.id;
+        refund.status = result.refund.status === 'processed' ? 'processed' : 'pending';
+        refund.processedAt = result.refund.status === 'processed' ? new Date() : undefined;
+        refund.error = undefined;
+      } else {
+        refund.status = 'failed';
+        refund.error = result.error;
+      }
+    } catch (error) {
+      refund.status = 'failed';
+      refund.error = error.message;
+    }
+
+    await creditNote.save();
+    return creditNote;
+  }
+
+  // Retry a failed refund on a credit note
+  async retryRefund(firmId, creditNoteId) {
+    const creditNote = await Invoice.findOne({ _id: creditNoteId, firm: firmId, type: 'credit_note' });
+    if (!creditNote) {
+      throw createError('Credit note not found', 404);
+    }
+    if (creditNote.creditNote?.refund?.status !== 'failed') {
+      throw createError('Only failed refunds can be retried', 400);
+    }
+
+    const original = await Invoice.findById(creditNote.creditNote.originalInvoice);
+    const alreadyRefunded = await this.getRefundedAmount(original._id);
+    const { amount, method, reference } = creditNote.creditNote.refund;
+    this.validateRefund({ amount, method, reference }, original, creditNote.totalAmount, alreadyRefunded);
+
+    creditNote.creditNote.refund.status = 'pending';
+    return this.processRefund(creditNote, original);
+  }
+
+  /**
+   * Cancel an invoice. Drafts are simply cancelled; issued invoices are reversed
+   * with a full credit note so the tax already reported is reversed too.
+   */
+  async cancelInvoice(firmId, userId, invoiceId, { reason, refund } = {}) {
+    const invoice = await Invoice.findOne({ _id: invoiceId, firm: firmId, type: 'invoice' });
+    if (!invoice) {
+      throw createError('Invoice not found', 404);
+    }
+    if (invoice.status === 'cancelled') {
+      throw createError('Invoice is already cancelled', 400);
+    }
+
+    if (!CREDITABLE_STATUSES.includes(invoice.status)) {
+      invoice.status = 'cancelled';
+      invoice.internalNotes = [invoice.internalNotes, reason && `Cancelled: ${reason}`].filter(Boolean).join('\n');
+      await invoice.save();
+      return { invoice, creditNote: null };
+    }
+
+    if (invoice.creditedAmount > 0) {
+      throw createError('This invoice already has credit notes - credit the remaining lines to cancel it', 400);
+    }
+
+    return this.createCreditNote(firmId, userId, invoiceId, {
+      full: true,
+      reason: reason || 'Invoice cancelled',
+      refund
+    });
+  }
+}
+
+const creditNoteService = new CreditNoteService();
+
+export default creditNoteService;
@@ -0,0 +1,280 @@
+import statutoryDueDates from '../config/statutoryDueDates.js';
+import DueDateExtension from '../models/DueDateExtension.js';
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+// Last calendar month of each FY quarter (Q1 = Apr-Jun ... Q4 = Jan-Mar)
+const QUARTER_END_MONTH = { 1: 6, 2: 9, 3: 12, 4: 3 };
+
+const pad = (value) => String(value).padStart(2, '0');
+
+const fyKey = (fyStart) => `${fyStart}-${pad((fyStart + 1) % 100)}`;
+
+const startOfDay = (date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+class DueDateService {
+  constructor() {
+    this.rules = statutoryDueDates;
+  }
+
+  getRule(returnType) {
+    const code = String(returnType || '').toUpperCase().replace(/-/g, '');
+    const rule = this.rules[code];
+    if (!rule) {
+      const error = new Error(`Unknown return type: ${returnType}`);
+      error.statusCode = 400;
+      throw error;
+    }
+    return { code, ...rule };
+  }
+
+  getReturnTypes() {
+    return Object.entries(this.rules).map(([code, rule]) => ({
+      code,
+      label: rule.label,
+      category: rule.category,
+      frequency: rule.frequency,
+      assesseeTypes: rule.assesseeTypes || []
+    }));
+  }
+
+  // Accepts a Date, "YYYY-MM", "YYYY-YY-Qn", "YYYY-YY" or "YYYY" and returns the
+  // period for the return's frequency, e.g. a month of a quarterly return
+  // resolves to the FY quarter containing it.
+  parsePeriod(returnType, period) {
+    const { frequency } = this.getRule(returnType);
+    let year;
+    let month;
+    let fyStart;
+    let quarter;
+
+    if (period instanceof Date) {
+      year = period.getFullYear();
+      month = period.getMonth() + 1;
+    } else {
+      const value = String(period || '').trim();
+      let match;
+      if ((match = value.match(/^(\d{4})-(\d{2})-Q([1-4])$/i))) {
+        fyStart = Number(match[1]);
+        quarter = Number(match[3]);
+      } else if ((match = value.match(/^(\d{4})-(\d{2})$/)) && Number(match[2]) >= 1 && Number(match[2]) <= 12
+        && (frequency === 'monthly' || Number(match[2]) !== (Number(match[1]) + 1) % 100)) {
+        year = Number(match[1]);
+        month = Number(match[2]);
+      } else if ((match = value.match(/^(\d{4})(?:-(\d{2}))?$/))) {
+        fyStart = Number(match[1]);
+      } else {
+        const error = new Error(`Invalid period: ${period}`);
+        error.statusCode = 400;
+        throw error;
+      }
+    }
+
+    if (month) {
+      fyStart = month >= 4 ? year : year - 1;
+      quarter = Math.floor(((month + 8) % 12) / 3) + 1;
+    }
+
+    if (frequency === 'monthly') {
+      if (!month) {
+        const error = new Error(`${returnType} is filed monthly; use a YYYY-MM period`);
+        error.statusCode = 400;
+        throw error;
+      }
+      return { frequency, year, month, fyStart, quarter, key: `${year}-${pad(month)}` };
+    }
+
+    if (frequency === 'quarterly') {
+      if (!quarter) {
+        const error = new Error(`${returnType} is filed quarterly; use a YYYY-YY-Qn period`);
+        error.statusCode = 400;
+        throw error;
+      }
+      return { frequency, fyStart, quarter, key: `${fyKey(fyStart)}-Q${quarter}` };
+    }
+
+    return { frequency, fyStart, key: fyKey(fyStart) };
+  }
+
+  normalizePeriod(returnType, period) {
+    return this.parsePeriod(returnType, period).key;
+  }
+
+  getPeriodLabel(returnType, period) {
+    const parsed = this.parsePeriod(returnType, period);
+    if (parsed.frequency === 'monthly') return `${MONTH_NAMES[parsed.month - 1]} ${parsed.year}`;
+    if (parsed.frequency === 'quarterly') return `Q${parsed.quarter} FY ${fyKey(parsed.fyStart)}`;
+    return `FY ${fyKey(parsed.fyStart)}`;
+  }
+
+  // Move a period forwards (or backwards) by a number of filing cycles
+  shiftPeriod(returnType, period, count = 1) {
+    const parsed = this.parsePeriod(returnType, period);
+    if (parsed.frequency === 'monthly') {
+      const date = new Date(parsed.year, parsed.month - 1 + count, 1);
+      return `${date.getFullYear()}-${pad(date.getMonth() + 1)}`;
+    }
+    if (parsed.frequency === 'quarterly') {
+      const index = parsed.fyStart * 4 + (parsed.quarter - 1) + count;
+      return `${fyKey(Math.floor(index / 4))}-Q${(index % 4) + 1}`;
+    }
+    return fyKey(parsed.fyStart + count);
+  }
+
+  // Statutory due date as per the rules table, before any extension
+  calculateDueDate(returnType, period, options = {}) {
+    const { rule } = this.getRule(returnType);
+    const parsed = this.parsePeriod(returnType, period);
+    const { assesseeType, agmDate } = options;
+    const fromFy = ([month, day, yearOffset = 0]) => new Date(parsed.fyStart + yearOffset, month - 1, day);
+
+    switch (rule.type) {
+      case 'next_month': {
+        const override = rule.overrides?.[parsed.month];
+        if (override) {
+          const [month, day] = override;
+          return new Date(parsed.year + (month < parsed.month ? 1 : 0), month - 1, day);
+        }
+        return new Date(parsed.year, parsed.month, rule.day);
+      }
+      case 'after_quarter': {
+        const endMonth = QUARTER_END_MONTH[parsed.quarter];
+        const endYear = parsed.quarter === 4 ? parsed.fyStart + 1 : parsed.fyStart;
+        const day = rule.byAssesseeType?.[assesseeType] || rule.day;
+        return new Date(endYear, endMonth, day);
+      }
+      case 'quarter_fixed':
+        return fromFy(rule.dates[parsed.quarter]);
+      case 'annual_fixed':
+        return fromFy(rule.byAssesseeType?.[assesseeType] || rule.date);
+      case 'after_agm': {
+        const fixed = rule.byAssesseeType?.[assesseeType]?.fixed;
+        if (fixed) return fromFy(fixed);
+        const agm = agmDate ? new Date(agmDate) : new Date(parsed.fyStart + 1, 8, 30);
+        if (isNaN(agm.getTime())) {
+          const error = new Error('Invalid AGM date');
+          error.statusCode = 400;
+          throw error;
+        }
+        return new Date(agm.getFullYear(), agm.getMonth(), agm.getDate() + rule.days);
+      }
+      default:
+        throw new Error(`Unsupported due-date rule: ${rule.type}`);
+    }
+  }
+
+  // Statutory period whose due date falls on or after `fromDate`, ignoring extensions.
+  // Used where no firm context is available (e.g. recurrence previews).
+  calculateNextDueDate(returnType, fromDate = new Date(), options = {}) {
+    const { code } = this.getRule(returnType);
+    const from = new Date(fromDate);
+    let period = this.shiftPeriod(code, from, -2);
+
+    for (let i = 0; i < 16; i++) {
+      const dueDate = this.calculateDueDate(code, period, options);
+      if (dueDate >= from) return { returnType: code, period, dueDate };
+      period = this.shiftPeriod(code, period, 1);
+    }
+    return null;
+  }
+
+  // Most specific extension wins: one recorded for the assessee type, then a general one
+  async findExtension(firmId, returnType, periodKey, assesseeType) {
+    const { code } = this.getRule(returnType);
+    const extensions = await DueDateExtension.find({
+      firm: firmId,
+      returnType: code,
+      period: periodKey,
+      assesseeType: { $in: assesseeType ? [assesseeType, null] : [null] }
+    }).lean();
+
+    return extensions.find(ext => ext.assesseeType === assesseeType && assesseeType)
+      || extensions.find(ext => !ext.assesseeType)
+      || null;
+  }
+
+  // Due date for a firm, honouring any recorded government extension
+  async resolveDueDate(firmId, returnType, period, options = {}) {
+    const { code, label } = this.getRule(returnType);
+    const key = this.normalizePeriod(code, period);
+    const originalDueDate = this.calculateDueDate(code, key, options);
+    const extension = firmId
+      ? await this.findExtension(firmId, code, key, options.assesseeType || null)
+      : null;
+
+    return {
+      returnType: code,
+      label,
+      period: key,
+      periodLabel: this.getPeriodLabel(code, key),
+      assesseeType: options.assesseeType || null,
+      originalDueDate,
+      dueDate: extension ? new Date(extension.extendedDueDate) : originalDueDate,
+      extension
+    };
+  }
+
+  // First period whose (possibly extended) due date falls on or after `fromDate`.
+  // Starts a couple of cycles back because e.g. last quarter's return may still be due.
+  async getNextDueDate(firmId, returnType, fromDate = new Date(), options = {}) {
+    const { code } = this.getRule(returnType);
+    const from = startOfDay(new Date(fromDate));
+    let period = this.shiftPeriod(code, from, -2);
+
+    for (let i = 0; i < 16; i++) {
+      const resolved = await this.resolveDueDate(firmId, code, period, options);
+      if (resolved.dueDate >= from) return resolved;
+      period = this.shiftPeriod(code, period, 1);
+    }
+    return null;
+  }
+
+  // All statutory deadlines falling within [from, to], optionally limited to some return types
+  async listDeadlines(firmId, from, to, options = {}) {
+    const rangeStart = startOfDay(new Date(from));
+    const rangeEnd = new Date(to);
+    const codes = options.returnTypes?.length
+      ? options.returnTypes.map(type => this.getRule(type).code)
+      : Object.keys(this.rules);
+
+    const extensions = firmId
+      ? await DueDateExtension.find({ firm: firmId, returnType: { $in: codes }, assesseeType: null }).lean()
+      : [];
+    const extensionMap = new Map(extensions.map(ext => [`${ext.returnType}|${ext.period}`, ext]));
+
+    const deadlines = [];
+    codes.forEach(code => {
+      const { label, category } = this.rules[code];
+      let period = this.shiftPeriod(code, rangeStart, -2);
+
+      // Walk forward until the statutory date is well past the window
+      for (let i = 0; i < 120; i++) {
+        const originalDueDate = this.calculateDueDate(code, period);
+        const extension = extensionMap.get(`${code}|${period}`) || null;
+        const dueDate = extension ? new Date(extension.extendedDueDate) : originalDueDate;
+
+        if (dueDate >= rangeStart && dueDate <= rangeEnd) {
+          deadlines.push({
+            returnType: code,
+            label,
+            category,
+            period,
+            periodLabel: this.getPeriodLabel(code, period),
+            originalDueDate,
+            dueDate,
+            extension
+          });
+        }
+        if (originalDueDate > rangeEnd && (!extension || dueDate > rangeEnd)) break;
+        period = this.shiftPeriod(code, period, 1);
+      }
+    });
+
+    return deadlines.sort((a, b) => a.dueDate - b.dueDate);
+  }
+}
+
+export default new DueDateService();
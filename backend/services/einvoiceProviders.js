@@ -0,0 +1,229 @@
+import crypto from 'crypto';
+import axios from 'axios';
+
+/**
+ * E-invoice (IRP) adapters. Every provider takes the NIC schema JSON built by
+ * utils/einvoiceSchema.js and the seller GSTIN it is filed under:
+ *
+ *   generate(payload)                     -> { irn, ackNo, ackDate, signedInvoice, signedQrCode }
+ *   cancel({ gstin, irn, reason, remarks }) -> { irn, cancelledAt }
+ *
+ * Rejections throw with statusCode 422 and the IRP's messages in `details`.
+ */
+
+const createError = (message, statusCode, details) => {
+  const error = new Error(message);
+  error.statusCode = statusCode;
+  if (details) error.details = details;
+  return error;
+};
+
+// The IRP reports times as "yyyy-MM-dd HH:mm:ss" in IST
+export const parseIrpDate = (value) => {
+  if (!value) return new Date();
+  const date = new Date(`${String(value).trim().replace(' ', 'T')}+05:30`);
+  return isNaN(date) ? new Date(value) : date;
+};
+
+// Financial year (2026-27) of a dd/mm/yyyy document date
+const financialYear = (documentDate) => {
+  const [, month, year] = String(documentDate).split('/').map(Number);
+  const start = month >= 4 ? year : year - 1;
+  return `${start}-${String(start + 1).slice(2)}`;
+};
+
+/**
+ * A GSP that exposes the IRP API as plain JSON, with its own client id and
+ * secret in headers and the taxpayer's e-invoice API user for the token.
+ */
+class GspProvider {
+  constructor({ baseUrl, clientId, clientSecret, username, password }) {
+    this.name = 'gsp';
+    this.baseUrl = (baseUrl || '').replace(/\/+$/, '');
+    this.clientId = clientId;
+    this.clientSecret = clientSecret;
+    this.username = username;
+    this.password = password;
+    // Auth tokens per GSTIN, valid for six hours on the IRP
+    this.tokens = new Map();
+  }
+
+  isConfigured() {
+    return !!this.baseUrl && !!this.clientId && !!this.clientSecret && !!this.username && !!this.password;
+  }
+
+  headers(gstin, token) {
+    return {
+      'Content-Type': 'application/json',
+      client_id: this.clientId,
+      client_secret: this.clientSecret,
+      gstin,
+      user_name: this.username,
+      ...(token ? { authtoken: token } : {})
+    };
+  }
+
+  // IRP envelope: { Status: 1, Data } on success, { Status: 0, ErrorDetails } otherwise
+  unwrap(body) {
+    if (String(body?.Status) === '1') {
+      return typeof body.Data === 'string' ? JSON.parse(body.Data) : body.Data;
+    }
+    const details = (body?.ErrorDetails || []).map(error => ({
+      code: String(error.ErrorCode),
+      message: error.ErrorMessage
+    }));
+    throw createError(details[0]?.message || 'The IRP rejected the request', 422, {
+      errors: details,
+      info: body?.InfoDtls
+    });
+  }
+
+  async request(method, path, gstin, data) {
+    if (!this.isConfigured()) {
+      throw createError('E-invoice GSP credentials are not configured', 400);
+    }
+    try {
+      const token = await this.getToken(gstin);
+      const response = await axios({
+        method,
+        url: `${this.baseUrl}${path}`,
+        data,
+        headers: this.headers(gstin, token),
+        timeout: 30000
+      });
+      return this.unwrap(response.data);
+    } catch (error) {
+      if (error.statusCode) throw error;
+      throw createError(`GSP request failed: ${error.response?.status || error.message}`, 502);
+    }
+  }
+
+  async getToken(gstin) {
+    const cached = this.tokens.get(gstin);
+    if (cached && cached.expiresAt > Date.now() + 60 * 1000) {
+      return cached.token;
+    }
+
+    const response = await axios.post(`${this.baseUrl}/eivital/v1.04/auth`, {
+      UserName: this.username,
+      Password: this.password,
+      ForceRefreshAccessToken: false
+    }, { headers: this.headers(gstin), timeout: 30000 });
+    const data = this.unwrap(response.data);
+
+    const token = data.AuthToken;
+    this.tokens.set(gstin, {
+      token,
+      expiresAt: data.TokenExpiry ? parseIrpDate(data.TokenExpiry).getTime() : Date.now() + 5 * 60 * 60 * 1000
+    });
+    return token;
+  }
+
+  mapIrn(data) {
+    return {
+      irn: data.Irn,
+      ackNo: String(data.AckNo),
+      ackDate: parseIrpDate(data.AckDt),
+      signedInvoice: data.SignedInvoice,
+      signedQrCode: data.SignedQRCode
+    };
+  }
+
+  async generate(payload) {
+    const gstin = payload.SellerDtls.Gstin;
+    try {
+      return this.mapIrn(await this.request('post', '/eicore/v1.03/Invoice', gstin, payload));
+    } catch (error) {
+      // 2150: already registered, e.g. a retry after a timeout. Fetch the existing IRN.
+      const duplicate = error.details?.errors?.some(entry => entry.code === '2150');
+      const irn = error.details?.info?.[0]?.Desc?.Irn;
+      if (duplicate && irn) {
+        return this.mapIrn(await this.request('get', `/eicore/v1.03/Invoice/irn/${irn}`, gstin));
+      }
+      throw error;
+    }
+  }
+
+  async cancel({ gstin, irn, reason, remarks }) {
+    const data = await this.request('post', '/eicore/v1.03/Invoice/Cancel', gstin, {
+      Irn: irn,
+      CnlRsn: String(reason),
+      CnlRem: remarks
+    });
+    return { irn: data.Irn, cancelledAt: parseIrpDate(data.CancelDate) };
+  }
+}
+
+/**
+ * Offline stand-in for development and tests. The IRN is worked out the way
+ * the IRP does it (SHA-256 of GSTIN, financial year, type and number), and
+ * the QR is a JWT in the IRP's shape signed with a local key, so it decodes
+ * like a real one but will not verify against the NIC certificate.
+ */
+class MockProvider {
+  constructor() {
+    this.name = 'mock';
+    this.issued = new Map();
+  }
+
+  isConfigured() {
+    return true;
+  }
+
+  sign(claims) {
+    const encode = (value) => Buffer.from(JSON.stringify(value)).toString('base64url');
+    const unsigned = `${encode({ alg: 'HS256', kid: 'MOCK-IRP', typ: 'JWT' })}.${encode(claims)}`;
+    const signature = crypto.createHmac('sha256', 'mock-irp').update(unsigned).digest('base64url');
+    return `${unsigned}.${signature}`;
+  }
+
+  async generate(payload) {
+    const { SellerDtls, BuyerDtls, DocDtls, ItemList, ValDtls } = payload;
+    const irn = crypto.createHash('sha256')
+      .update(`${SellerDtls.Gstin}${financialYear(DocDtls.Dt)}${DocDtls.Typ}${DocDtls.No.toUpperCase()}`)
+      .digest('hex');
+    if (this.issued.has(irn)) return this.issued.get(irn);
+
+    const ackDate = new Date();
+    const irnDate = ackDate.toLocaleString('sv-SE', { timeZone: 'Asia/Kolkata' });
+    const qrData = {
+      SellerGstin: SellerDtls.Gstin,
+      BuyerGstin: BuyerDtls.Gstin,
+      DocNo: DocDtls.No,
+      DocTyp: DocDtls.Typ,
+      DocDt: DocDtls.Dt,
+      TotInvVal: ValDtls.TotInvVal,
+      ItemCnt: ItemList.length,
+      MainHsnCode: ItemList[0]?.HsnCd,
+      Irn: irn,
+      IrnDt: irnDate
+    };
+
+    const result = {
+      irn,
+      ackNo: String(ackDate.getTime()).padStart(15, '1').slice(-15),
+      ackDate,
+      signedInvoice: this.sign({ data: JSON.stringify({ ...payload, Irn: irn }), iss: 'MOCK-IRP' }),
+      signedQrCode: this.sign({ data: JSON.stringify(qrData), iss: 'MOCK-IRP' })
+    };
+    this.issued.set(irn, result);
+    return result;
+  }
+
+  async cancel({ irn }) {
+    return { irn, cancelledAt: new Date() };
+  }
+}
+
+export const PROVIDERS = {
+  gsp: GspProvider,
+  mock: MockProvider
+};
+
+export const createProvider = ({ provider, ...options }) => {
+  const Provider = PROVIDERS[provider];
+  if (!Provider) {
+    throw new Error(`Unknown e-invoice provider "${provider}"`);
+  }
+  return new Provider(options);
+};
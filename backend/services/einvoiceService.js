@@ -0,0 +1,409 @@
+import QRCode from 'qrcode';
+import Invoice from '../models/Invoice.js';
+import Settings from '../models/Settings.js';
+import Firm from '../models/Firm.js';
+import { formatGstDate } from './gstr1Service.js';
+import { createProvider, parseIrpDate } from './einvoiceProviders.js';
+import { supplierGSTIN, invoiceLineTax } from '../utils/gstTax.js';
+import { canEncryptSecrets, encryptSecret, decryptSecret } from '../utils/secrets.js';
+import { runInTransaction } from '../utils/transactions.js';
+import { buildEinvoicePayload, validateEinvoicePayload, splitAddress, decodeSignedQr } from '../utils/einvoiceSchema.js';
+
+// Documents the IRP registers; drafts may be registered just before they are sent
+const EINVOICE_TYPES = ['invoice', 'credit_note'];
+
+// IRP cancellation reason codes
+export const CANCEL_REASONS = {
+  1: 'Duplicate',
+  2: 'Data entry mistake',
+  3: 'Order cancelled',
+  4: 'Other'
+};
+
+// The IRP only cancels an IRN within 24 hours of its acknowledgement
+const CANCEL_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const createError = (message, statusCode, details) => {
+  const error = new Error(message);
+  error.statusCode = statusCode;
+  if (details) error.details = details;
+  return error;
+};
+
+const round2 = (value) => Math.round((Number(value) || 0) * 100) / 100;
+
+const documentDate = (date) => formatGstDate(date).replace(/-/g, '/');
+
+// Stored encrypted in the firm's settings and never sent back to the browser
+const SECRET_FIELDS = ['clientSecret', 'password'];
+
+class EinvoiceService {
+  constructor() {
+    // Provider instances keyed by their configuration, so IRP tokens are reused
+    this.providers = new Map();
+  }
+
+  /**
+   * The firm's GSP account and e-invoice API user, with the secrets decrypted.
+   * EINVOICE_PROVIDER=mock uses the offline stand-in for every firm (tests, demos).
+   */
+  async getConfig(firmId) {
+    if (process.env.EINVOICE_PROVIDER === 'mock') {
+      return { provider: 'mock' };
+    }
+
+    const settings = await Settings.findOne({ firm: firmId }).select('data.einvoice').lean();
+    const stored = settings?.data?.einvoice || {};
+    return {
+      provider: 'gsp',
+      baseUrl: stored.baseUrl,
+      clientId: stored.clientId,
+      clientSecret: decryptSecret(stored.clientSecret),
+      username: stored.username,
+      password: decryptSecret(stored.password)
+    };
+  }
+
+  async getProvider(firmId) {
+    const config = await this.getConfig(firmId);
+    const key = JSON.stringify(config);
+    if (!this.providers.has(key)) {
+      this.providers.set(key, createProvider(config));
+    }
+    return this.providers.get(key);
+  }
+
+  // Settings as shown to owners; the client secret and password never leave the server
+  async getPublicConfig(firmId) {
+    const settings = await Settings.findOne({ firm: firmId }).select('data.einvoice').lean();
+    const stored = settings?.data?.einvoice || {};
+    const provider = await this.getProvider(firmId);
+
+    return {
+      baseUrl: stored.baseUrl || '',
+      clientId: stored.clientId || '',
+      username: stored.username || '',
+      hasClientSecret: !!stored.clientSecret,
+      hasPassword: !!stored.password,
+      provider: provider.name,
+      configured: provider.isConfigured()
+    };
+  }
+
+  /**
+   * Save the firm's GSP credentials. An omitted secret keeps the stored one;
+   * an empty string clears it.
+   */
+  async updateConfig(firmId, userId, { baseUrl, clientId, clientSecret, username, password }) {
+    if (baseUrl?.trim() && !/^https:\/\//i.test(baseUrl.trim())) {
+      throw createError('The GSP URL must start with https://', 400);
+    }
+
+    let settings = await Settings.findOne({ firm: firmId });
+    if (!settings) {
+      settings = new Settings({ firm: firmId, data: {}, createdBy: userId });
+    }
+
+    const current = settings.data?.einvoice || {};
+    const secrets = { clientSecret, password };
+    const next = {
+      baseUrl: baseUrl?.trim() || '',
+      clientId: clientId?.trim() || '',
+      username: username?.trim() || ''
+    };
+    for (const field of SECRET_FIELDS) {
+      if (secrets[field] === undefined) {
+        next[field] = current[field] || '';
+      } else if (!String(secrets[field]).trim()) {
+        next[field] = '';
+      } else if (!canEncryptSecrets()) {
+        throw createError('SETTINGS_ENCRYPTION_KEY must be set on the server before GSP credentials can be saved', 503);
+      } else {
+        next[field] = encryptSecret(String(secrets[field]).trim());
+      }
+    }
+
+    settings.data = { ...(settings.data || {}), einvoice: next };
+    settings.updatedBy = userId;
+    settings.markModified('data'); // Required for Mixed type fields
+    await settings.save();
+
+    return this.getPublicConfig(firmId);
+  }
+
+  async loadInvoice(firmId, invoiceId) {
+    const invoice = await Invoice.findOne({ _id: invoiceId, firm: firmId })
+      .populate('client', 'name email phone gstNumber gstData billingAddress address')
+      .populate('creditNote.originalInvoice', 'invoiceNumber issueDate');
+    if (!invoice) {
+      throw createError('Invoice not found', 404);
+    }
+    if (!EINVOICE_TYPES.includes(invoice.type)) {
+      throw createError('Only invoices and credit notes are registered for e-invoicing', 400);
+    }
+    return invoice;
+  }
+
+  /**
+   * Seller: the collection account's GSTIN, name and address, falling back to
+   * the company settings and the firm. Buyer: the client's GST registration.
+   */
+  async getParties(firmId, invoice) {
+    const [settings, firm] = await Promise.all([
+      Settings.findOne({ firm: firmId }).select('data.company').lean(),
+      Firm.findById(firmId).select('name gstNumber address email phone').lean()
+    ]);
+    const company = settings?.data?.company || {};
+    const account = company.invoiceAccounts?.[invoice.collectionMethod] || {};
+    const client = invoice.client || {};
+
+    const sellerAddress = account.address || company.address
+      ? splitAddress(account.address || company.address)
+      : splitAddress(firm?.address?.street, firm?.address);
+
+    return {
+      seller: {
+        gstin: supplierGSTIN(company, firm?.gstNumber, invoice.collectionMethod),
+        legalName: account.companyName || company.name || firm?.name,
+        address: sellerAddress,
+        phone: account.phone || company.phone || firm?.phone,
+        email: account.email || company.email || firm?.email
+      },
+      buyer: {
+        gstin: String(client.gstNumber || '').trim().toUpperCase() || undefined,
+        legalName: client.gstData?.legalName || client.name,
+        tradeName: client.gstData?.tradeName,
+        address: splitAddress(client.billingAddress || client.gstData?.address || client.address),
+        phone: client.phone,
+        email: client.email
+      }
+    };
+  }
+
+  /**
+   * Schema JSON for an invoice with the problems that would stop the IRP
+   * accepting it. Built from the stored tax split, so it matches the PDF.
+   */
+  async preparePayload(firmId, invoiceId) {
+    const invoice = await this.loadInvoice(firmId, invoiceId);
+    const { seller, buyer } = await this.getParties(firmId, invoice);
+    const original = invoice.creditNote?.originalInvoice;
+
+    const payload = buildEinvoicePayload({
+      invoice,
+      lines: invoiceLineTax(invoice),
+      seller,
+      buyer,
+      documentDate: documentDate(invoice.issueDate),
+      originalInvoice: original?.invoiceNumber
+        ? { invoiceNumber: original.invoiceNumber, documentDate: documentDate(original.issueDate) }
+        : null
+    });
+
+    const errors = validateEinvoicePayload(payload);
+    if (!buyer.gstin) {
+      errors.unshift({ path: 'BuyerDtls.Gstin', message: 'the client has no GSTIN; e-invoices are only for registered clients' });
+    }
+    return { invoice, payload, errors };
+  }
+
+  async getDetails(firmId, invoiceId) {
+    const { invoice, errors } = await this.preparePayload(firmId, invoiceId);
+    const provider = await this.getProvider(firmId);
+    const einvoice = invoice.einvoice?.irn ? invoice.toObject().einvoice : null;
+
+    return {
+      einvoice,
+      qrImage: einvoice?.signedQrCode ? await QRCode.toDataURL(einvoice.signedQrCode, { errorCorrectionLevel: 'M', margin: 1 }) : null,
+      errors,
+      provider: { name: provider.name, configured: provider.isConfigured() },
+      cancelReasons: CANCEL_REASONS
+    };
+  }
+
+  assertNotRegistered(invoice) {
+    if (invoice.einvoice?.status === 'generated') {
+      throw createError(`This ${invoice.type === 'credit_note' ? 'credit note' : 'invoice'} already has an IRN`, 409);
+    }
+  }
+
+  async generate(firmId, userId, invoiceId) {
+    const { invoice, payload, errors } = await this.preparePayload(firmId, invoiceId);
+    this.assertNotRegistered(invoice);
+    if (errors.length > 0) {
+      throw createError('Fix the e-invoice errors before generating an IRN', 422, { errors });
+    }
+
+    const provider = await this.getProvider(firmId);
+    if (!provider.isConfigured()) {
+      throw createError('No GSP is set up in Settings. Upload the JSON on the e-invoice portal and import the IRN instead.', 400);
+    }
+
+    const result = await provider.generate(payload);
+    invoice.einvoice = {
+      ...result,
+      status: 'generated',
+      source: provider.name,
+      generatedBy: userId
+    };
+    await invoice.save();
+    return invoice;
+  }
+
+  /**
+   * Record an IRN obtained outside the app: from the e-invoice portal or a GSP
+   * dashboard. Accepts our field names or the IRP's (Irn, AckNo, AckDt, SignedQRCode).
+   */
+  async importIrn(firmId, userId, invoiceId, body = {}) {
+    const invoice = await this.loadInvoice(firmId, invoiceId);
+    this.assertNotRegistered(invoice);
+
+    const irn = String(body.irn ?? body.Irn ?? '').trim().toLowerCase();
+    const ackNo = String(body.ackNo ?? body.AckNo ?? '').trim();
+    const ackDate = body.ackDate ?? body.AckDt;
+    const signedQrCode = String(body.signedQrCode ?? body.SignedQRCode ?? '').trim();
+    const signedInvoice = body.signedInvoice ?? body.SignedInvoice;
+
+    if (!/^[0-9a-f]{64}$/.test(irn)) {
+      throw createError('The IRN must be the 64-character reference from the IRP', 400);
+    }
+    if (!/^\d{1,20}$/.test(ackNo)) {
+      throw createError('The acknowledgement number must be numeric', 400);
+    }
+    if (!ackDate) {
+      throw createError('The acknowledgement date is required', 400);
+    }
+    if (!signedQrCode) {
+      throw createError('The signed QR code is required', 400);
+    }
+
+    const qr = decodeSignedQr(signedQrCode);
+    if (!qr) {
+      throw createError('The signed QR code could not be read', 400);
+    }
+    if (qr.Irn && qr.Irn.toLowerCase() !== irn) {
+      throw createError('The signed QR code belongs to a different IRN', 400);
+    }
+    if (qr.DocNo && qr.DocNo.toUpperCase() !== String(invoice.invoiceNumber).toUpperCase()) {
+      throw createError(`The signed QR code is for document ${qr.DocNo}, not ${invoice.invoiceNumber}`, 400);
+    }
+
+    if (await Invoice.exists({ firm: firmId, 'einvoice.irn': irn, _id: { $ne: invoice._id } })) {
+      throw createError('This IRN is already recorded against another invoice', 409);
+    }
+
+    const acknowledgedAt = parseIrpDate(ackDate);
+    if (isNaN(acknowledgedAt)) {
+      throw createError('The acknowledgement date could not be read', 400);
+    }
+
+    invoice.einvoice = {
+      status: 'generated',
+      irn,
+      ackNo,
+      ackDate: acknowledgedAt,
+      signedQrCode,
+      signedInvoice,
+      source: 'import',
+      generatedBy: userId
+    };
+    await invoice.save();
+    return invoice;
+  }
+
+  /**
+   * A cancelled IRN voids the document, so it may not have money against it:
+   * payments or credit notes on an invoice, or a refund on a credit note.
+   */
+  assertVoidable(invoice) {
+    if (invoice.type === 'credit_note') {
+      if (invoice.creditNote?.refund?.amount > 0) {
+        throw createError('This credit note has a refund recorded, so its IRN cannot be cancelled', 400);
+      }
+    } else if (invoice.paidAmount > 0 || invoice.creditedAmount > 0) {
+      throw createError('This invoice has payments or credit notes against it. Issue a credit note instead of cancelling the IRN.', 400);
+    }
+  }
+
+  /**
+   * Cancel the document along with its IRN. A voided credit note no longer
+   * reduces the invoice it was raised against.
+   */
+  async voidDocument(firmId, invoice) {
+    invoice.status = 'cancelled';
+    invoice.internalNotes = [invoice.internalNotes, `IRN cancelled - ${invoice.einvoice.cancelReason}`].filter(Boolean).join('\n');
+    const originalId = invoice.type === 'credit_note' ? invoice.creditNote?.originalInvoice : null;
+    if (!originalId) {
+      await invoice.save();
+      return;
+    }
+
+    let released = false;
+    const rollback = async () => {
+      if (!released) return;
+      const original = await Invoice.findOne({ _id: originalId, firm: firmId });
+      original.creditedAmount = round2(original.creditedAmount + invoice.totalAmount);
+      await original.save();
+    };
+
+    await runInTransaction(async (session) => {
+      const original = await Invoice.findOne({ _id: originalId, firm: firmId }).session(session);
+      if (original) {
+        original.creditedAmount = round2(Math.max(0, original.creditedAmount - invoice.totalAmount));
+        // A fully credited invoice was cancelled by the credit note; reopen it
+        if (original.status === 'cancelled' && original.creditedAmount < original.totalAmount) {
+          original.status = 'sent';
+        }
+        await original.save({ session });
+        released = !session;
+      }
+      await invoice.save({ session });
+    }, { rollback });
+  }
+
+  /**
+   * Cancel an IRN through the GSP, or record that it was cancelled on the
+   * portal, and void the invoice or credit note with it. After 24 hours the
+   * IRP refuses; a credit note is needed instead.
+   */
+  async cancel(firmId, invoiceId, { reason, remarks, recordOnly } = {}) {
+    const invoice = await this.loadInvoice(firmId, invoiceId);
+    if (invoice.einvoice?.status !== 'generated') {
+      throw createError('There is no IRN to cancel', 400);
+    }
+    this.assertVoidable(invoice);
+    if (!CANCEL_REASONS[reason]) {
+      throw createError('Choose a cancellation reason', 400);
+    }
+    if (!remarks || String(remarks).trim().length === 0 || String(remarks).length > 100) {
+      throw createError('Cancellation remarks are required (up to 100 characters)', 400);
+    }
+
+    let cancelledAt = new Date();
+    if (!recordOnly) {
+      if (Date.now() - new Date(invoice.einvoice.ackDate).getTime() > CANCEL_WINDOW_MS) {
+        throw createError('IRNs can only be cancelled within 24 hours. Issue a credit note instead.', 400);
+      }
+      const provider = await this.getProvider(firmId);
+      if (!provider.isConfigured()) {
+        throw createError('No GSP is set up in Settings. Cancel the IRN on the e-invoice portal and record it here.', 400);
+      }
+      const { payload } = await this.preparePayload(firmId, invoiceId);
+      ({ cancelledAt } = await provider.cancel({
+        gstin: payload.SellerDtls.Gstin,
+        irn: invoice.einvoice.irn,
+        reason,
+        remarks: String(remarks).trim()
+      }));
+    }
+
+    invoice.einvoice.status = 'cancelled';
+    invoice.einvoice.cancelledAt = cancelledAt;
+    invoice.einvoice.cancelReason = `${CANCEL_REASONS[reason]}: ${String(remarks).trim()}`;
+    await this.voidDocument(firmId, invoice);
+    return invoice;
+  }
+}
+
+const einvoiceService = new EinvoiceService();
+export default einvoiceService;
@@ -1,5 +1,8 @@
 import nodemailer from 'nodemailer';
 import dotenv from 'dotenv';
+import EmailTemplate from '../models/EmailTemplate.js';
+import Firm from '../models/Firm.js';
+import { renderEmailTemplate, escapeHtml } from '../utils/emailTemplateRenderer.js';
 
 dotenv.config();
 
@@ -89,8 +92,39 @@ class EmailService {
     }
   }
 
+  // Render the firm's active template for a category. Returns null when the firm
+  // has none (or it cannot be loaded) so callers fall back to the built-in email.
+  async renderFirmTemplate(firmId, category, data) {
+    if (!firmId) return null;
+
+    try {
+      const template = await EmailTemplate.findOne({ firm: firmId, category, isActive: true })
+        .sort({ updatedAt: -1 })
+        .lean();
+      if (!template) return null;
+
+      const firm = await Firm.findById(firmId).select('name').lean();
+      return renderEmailTemplate(template, { company_name: firm?.name, ...data });
+    } catch (error) {
+      console.error(`⚠️  Failed to load ${category} email template, using default:`, error.message);
+      return null;
+    }
+  }
+
   // Template methods for different notification types
-  async sendTaskAssignmentEmail(userEmail, userName, taskTitle, taskDescription, dueDate, assignedBy) {
+  async sendTaskAssignmentEmail(userEmail, userName, taskTitle, taskDescription, dueDate, assignedBy, firmId = null) {
+    const custom = await this.renderFirmTemplate(firmId, 'task_assignment', {
+      employee_name: userName,
+      task_title: taskTitle,
+      task_description: taskDescription,
+      due_date: dueDate ? new Date(dueDate) : '',
+      assigned_by: assignedBy,
+      task_link: `${process.env.FRONTEND_URL || 'http://localhost:5173'}/tasks`
+    });
+    if (custom) {
+      return this.sendEmail({ to: userEmail, ...custom });
+    }
+
     const subject = `New Task Assigned: ${taskTitle}`;
     const html = `
       <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
@@ -133,7 +167,17 @@ class EmailService {
     });
   }
 
-  async sendTaskDueReminderEmail(userEmail, userName, taskTitle, dueDate) {
+  async sendTaskDueReminderEmail(userEmail, userName, taskTitle, dueDate, firmId = null) {
+    const custom = await this.renderFirmTemplate(firmId, 'task_due_reminder', {
+      employee_name: userName,
+      task_title: taskTitle,
+      due_date: new Date(dueDate),
+      task_link: `${process.env.FRONTEND_URL || 'http://localhost:5173'}/tasks`
+    });
+    if (custom) {
+      return this.sendEmail({ to: userEmail, ...custom });
+    }
+
     const subject = `Task Due Reminder: ${taskTitle}`;
     const html = `
       <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
@@ -171,7 +215,17 @@ class EmailService {
     });
   }
 
-  async sendTaskCompletionEmail(userEmail, userName, taskTitle, completedBy) {
+  async sendTaskCompletionEmail(userEmail, userName, taskTitle, completedBy, firmId = null) {
+    const custom = await this.renderFirmTemplate(firmId, 'task_completion', {
+      recipient_name: userName,
+      task_title: taskTitle,
+      completed_by: completedBy,
+      task_link: `${process.env.FRONTEND_URL || 'http://localhost:5173'}/tasks`
+    });
+    if (custom) {
+      return this.sendEmail({ to: userEmail, ...custom });
+    }
+
     const subject = `Task Completed: ${taskTitle}`;
     const html = `
       <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
@@ -209,6 +263,40 @@ class EmailService {
     });
   }
 
+  async sendGeneralNotificationEmail(userEmail, userName, title, message, firmId = null) {
+    const custom = await this.renderFirmTemplate(firmId, 'general_notification', {
+      recipient_name: userName,
+      title,
+      message,
+      dashboard_link: process.env.FRONTEND_URL || 'http://localhost:5173'
+    });
+    if (custom) {
+      return this.sendEmail({ to: userEmail, ...custom });
+    }
+
+    return this.sendEmail({
+      to: userEmail,
+      subject: title,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <div style="background: #667eea; padding: 20px; text-align: center;">
+            <h1 style="color: white; margin: 0;">CA Flow Board</h1>
+          </div>
+          <div style="padding: 30px; background: #f8f9fa;">
+            <h2>Hello ${userName},</h2>
+            <p>${message}</p>
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${process.env.FRONTEND_URL || 'http://localhost:5173'}" 
+                 style="background: #667eea; color: white; padding: 12px 30px; text-decoration: none; border-radius: 5px; display: inline-block;">
+                View Dashboard
+              </a>
+            </div>
+          </div>
+        </div>
+      `
+    });
+  }
+
   // Test email configuration
   async testConnection() {
     try {
@@ -256,10 +344,23 @@ class EmailService {
     quoteNumber,
     quoteAmount,
     quoteId,
-    taskId
+    taskId,
+    firmId = null
   }) {
     const subject = `🔔 Action Required: Quote Ready for Approval - ${taskTitle}`;
     const approvalUrl = `${process.env.FRONTEND_URL || 'http://localhost:5173'}/admin/quotes/pending`;
+
+    const custom = await this.renderFirmTemplate(firmId, 'quote_approval', {
+      admin_name: adminName,
+      task_title: taskTitle,
+      client_name: clientName,
+      quote_number: quoteNumber,
+      amount: quoteAmount,
+      approval_link: approvalUrl
+    });
+    if (custom) {
+      return this.sendEmail({ to: adminEmail, ...custom });
+    }
     
     const html = `
       <div style="font-family: Arial, sans-serif; max-width: 700px; margin: 0 auto; background: #ffffff;">
@@ -349,8 +450,27 @@ class EmailService {
     paymentLink,
     notes,
     terms,
-    quoteId
+    quoteId,
+    firmId = null
   }) {
+    const custom = await this.renderFirmTemplate(firmId, 'quote_to_client', {
+      client_name: clientName,
+      company_name: firmName,
+      quote_number: quoteNumber,
+      quote_date: new Date(quoteDate),
+      valid_until: new Date(validUntil),
+      items: items.map(item => `${item.description} x ${item.quantity} - ₹${item.amount.toLocaleString('en-IN', { minimumFractionDigits: 2 })}`).join('\n'),
+      subtotal,
+      tax_amount: taxAmount,
+      total_amount: totalAmount,
+      payment_link: paymentLink,
+      notes,
+      terms
+    });
+    if (custom) {
+      return this.sendEmail({ to: clientEmail, ...custom });
+    }
+
     const subject = `Quotation from ${firmName} - ${quoteNumber}`;
     const itemsHtml = items.map(item => `
       <tr>
@@ -482,8 +602,23 @@ class EmailService {
     paymentDate,
     paymentMethod,
     transactionId,
-    invoiceId
+    invoiceId,
+    firmId = null
   }) {
+    const custom = await this.renderFirmTemplate(firmId, 'payment_confirmation', {
+      client_name: clientName,
+      company_name: firmName,
+      invoice_number: invoiceNumber,
+      amount: paymentAmount,
+      payment_date: new Date(paymentDate).toLocaleString('en-IN'),
+      payment_method: paymentMethod,
+      transaction_id: transactionId,
+      invoice_link: `${process.env.FRONTEND_URL || 'http://localhost:5173'}/invoices/${invoiceId}`
+    });
+    if (custom) {
+      return this.sendEmail({ to: clientEmail, ...custom });
+    }
+
     const subject = `Payment Received - Invoice ${invoiceNumber} from ${firmName}`;
     
     const html = `
@@ -572,8 +707,23 @@ class EmailService {
     paymentDate,
     paymentMethod,
     transactionId,
-    invoiceId
+    invoiceId,
+    firmId = null
   }) {
+    const custom = await this.renderFirmTemplate(firmId, 'payment_received_admin', {
+      admin_name: adminName,
+      client_name: clientName,
+      invoice_number: invoiceNumber,
+      amount: paymentAmount,
+      payment_date: new Date(paymentDate).toLocaleString('en-IN'),
+      payment_method: paymentMethod,
+      transaction_id: transactionId,
+      invoice_link: `${process.env.FRONTEND_URL || 'http://localhost:5173'}/invoices/${invoiceId}`
+    });
+    if (custom) {
+      return this.sendEmail({ to: adminEmail, ...custom });
+    }
+
     const subject = `💰 Payment Received - ${clientName} - ₹${paymentAmount.toLocaleString('en-IN')}`;
     
     const html = `
@@ -649,6 +799,179 @@ class EmailService {
       html
     });
   }
+
+  // 5. Payment reminder to client (scheduled dunning), with the invoice PDF attached
+  async sendInvoiceReminderEmail({
+    clientEmail,
+    clientName,
+    firmName,
+    invoiceNumber,
+    invoiceDate,
+    dueDate,
+    amountDue,
+    daysOverdue,
+    paymentLink,
+    invoiceId,
+    attachments = [],
+    firmId = null
+  }) {
+    const invoiceLink = `${process.env.FRONTEND_URL || 'http://localhost:5173'}/invoices/${invoiceId}`;
+    const custom = await this.renderFirmTemplate(firmId, 'invoice_reminder', {
+      client_name: clientName,
+      company_name: firmName,
+      invoice_number: invoiceNumber,
+      invoice_date: new Date(invoiceDate),
+      due_date: new Date(dueDate),
+      amount_due: amountDue,
+      days_overdue: Math.max(0, daysOverdue),
+      payment_link: paymentLink || invoiceLink,
+      invoice_link: invoiceLink
+    });
+    if (custom) {
+      return this.sendEmail({ to: clientEmail, ...custom, attachments });
+    }
+
+    const overdue = daysOverdue > 0;
+    const formattedDue = new Date(dueDate).toLocaleDateString('en-IN');
+    const subject = overdue
+      ? `Overdue: Invoice ${invoiceNumber} from ${firmName} - ${daysOverdue} day${daysOverdue === 1 ? '' : 's'} past due`
+      : `Payment Reminder - Invoice ${invoiceNumber} from ${firmName} due ${formattedDue}`;
+
+    const html = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; background: #ffffff;">
+        <div style="background: ${overdue ? '#c0392b' : '#2c3e50'}; padding: 30px; text-align: center;">
+          <h1 style="color: white; margin: 0; font-size: 24px;">${overdue ? 'Payment Overdue' : 'Payment Reminder'}</h1>
+          <p style="color: #ecf0f1; margin: 10px 0 0;">Invoice ${invoiceNumber}</p>
+        </div>
+
+        <div style="padding: 40px 30px;">
+          <h2 style="color: #333; margin-bottom: 20px;">Dear ${clientName},</h2>
+
+          <p style="color: #666; font-size: 16px; line-height: 1.6;">
+            ${overdue
+              ? `Our records show that the invoice below is ${daysOverdue} day${daysOverdue === 1 ? '' : 's'} past its due date.`
+              : `This is a friendly reminder that the invoice below is due on ${formattedDue}.`}
+          </p>
+
+          <div style="background: #f8f9fa; padding: 25px; border-radius: 8px; border-left: 4px solid ${overdue ? '#c0392b' : '#3498db'}; margin: 25px 0;">
+            <table style="width: 100%; border-collapse: collapse;">
+              <tr>
+                <td style="padding: 10px 0; color: #666; font-weight: 600;">Invoice Number:</td>
+                <td style="padding: 10px 0; color: #333; text-align: right;">${invoiceNumber}</td>
+              </tr>
+              <tr>
+                <td style="padding: 10px 0; color: #666; font-weight: 600;">Invoice Date:</td>
+                <td style="padding: 10px 0; color: #333; text-align: right;">${new Date(invoiceDate).toLocaleDateString('en-IN')}</td>
+              </tr>
+              <tr>
+                <td style="padding: 10px 0; color: #666; font-weight: 600;">Due Date:</td>
+                <td style="padding: 10px 0; color: #333; text-align: right;">${formattedDue}</td>
+              </tr>
+              <tr>
+                <td style="padding: 10px 0; color: #666; font-weight: 600;">Amount Due:</td>
+                <td style="padding: 10px 0; color: #c0392b; text-align: right; font-size: 20px; font-weight: 700;">₹${amountDue.toLocaleString('en-IN', { minimumFractionDigits: 2 })}</td>
+              </tr>
+            </table>
+          </div>
+
+          <div style="text-align: center; margin: 35px 0;">
+            <a href="${paymentLink || invoiceLink}"
+               style="background: #27ae60; color: white; padding: 15px 40px; text-decoration: none; border-radius: 6px; display: inline-block; font-weight: 600; font-size: 16px;">
+              Pay Now
+            </a>
+          </div>
+
+          <p style="color: #666; font-size: 14px; line-height: 1.6;">
+            A copy of the invoice is attached. If you have already made this payment, please ignore this reminder.
+          </p>
+
+          <p style="color: #999; font-size: 13px; margin-top: 30px; text-align: center;">${firmName}</p>
+        </div>
+      </div>
+    `;
+
+    return this.sendEmail({
+      to: clientEmail,
+      subject,
+      html,
+      attachments
+    });
+  }
+
+  // 6. Statement of account to client, with the statement attached
+  async sendStatementEmail({
+    clientEmail,
+    clientName,
+    firmName,
+    periodFrom,
+    periodTo,
+    openingBalance,
+    closingBalance,
+    message,
+    attachments = [],
+    firmId = null
+  }) {
+    const custom = await this.renderFirmTemplate(firmId, 'statement_of_account', {
+      client_name: clientName,
+      company_name: firmName,
+      period_from: new Date(periodFrom),
+      period_to: new Date(periodTo),
+      opening_balance: openingBalance,
+      closing_balance: closingBalance
+    });
+    if (custom) {
+      return this.sendEmail({ to: clientEmail, ...custom, attachments });
+    }
+
+    const from = new Date(periodFrom).toLocaleDateString('en-IN');
+    const to = new Date(periodTo).toLocaleDateString('en-IN');
+    const subject = `Statement of Account from ${firmName} - ${from} to ${to}`;
+    const amount = (value) => `₹${Math.abs(value).toLocaleString('en-IN', { minimumFractionDigits: 2 })} ${value < 0 ? 'Cr' : 'Dr'}`;
+
+    const html = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; background: #ffffff;">
+        <div style="background: #1e3a8a; padding: 30px; text-align: center;">
+          <h1 style="color: white; margin: 0; font-size: 24px;">Statement of Account</h1>
+          <p style="color: #dbeafe; margin: 10px 0 0;">${from} - ${to}</p>
+        </div>
+
+        <div style="padding: 40px 30px;">
+          <h2 style="color: #333; margin-bottom: 20px;">Dear ${clientName},</h2>
+
+          <p style="color: #666; font-size: 16px; line-height: 1.6;">
+            Please find attached your statement of account for the period above.
+          </p>
+          ${message ? `<p style="color: #666; font-size: 15px; line-height: 1.6;">${escapeHtml(message).replace(/\n/g, '<br>')}</p>` : ''}
+
+          <div style="background: #f8f9fa; padding: 25px; border-radius: 8px; border-left: 4px solid #1e3a8a; margin: 25px 0;">
+            <table style="width: 100%; border-collapse: collapse;">
+              <tr>
+                <td style="padding: 10px 0; color: #666; font-weight: 600;">Opening Balance:</td>
+                <td style="padding: 10px 0; color: #333; text-align: right;">${amount(openingBalance)}</td>
+              </tr>
+              <tr>
+                <td style="padding: 10px 0; color: #666; font-weight: 600;">Closing Balance:</td>
+                <td style="padding: 10px 0; color: #1e3a8a; text-align: right; font-size: 18px; font-weight: 700;">${amount(closingBalance)}</td>
+              </tr>
+            </table>
+          </div>
+
+          <p style="color: #666; font-size: 14px; line-height: 1.6;">
+            Kindly review the statement and let us know if anything does not match your records.
+          </p>
+
+          <p style="color: #999; font-size: 13px; margin-top: 30px; text-align: center;">${firmName}</p>
+        </div>
+      </div>
+    `;
+
+    return this.sendEmail({
+      to: clientEmail,
+      subject,
+      html,
+      attachments
+    });
+  }
 }
 
-export default new EmailService();
\ No newline at end of file
+export default new EmailService();
@@ -0,0 +1,259 @@
+import cron from 'node-cron';
+import EscalationRule from '../models/EscalationRule.js';
+import Task from '../models/Task.js';
+import User from '../models/User.js';
+import Client from '../models/Client.js';
+import NotificationService from './notificationService.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const PRIORITY_LADDER = ['low', 'medium', 'high', 'urgent'];
+
+const formatHours = (hours) => {
+  if (hours % 24 === 0) {
+    const days = hours / 24;
+    return `${days} day${days === 1 ? '' : 's'}`;
+  }
+  return `${hours} hour${hours === 1 ? '' : 's'}`;
+};
+
+class EscalationService {
+  constructor() {
+    this.scheduledJobs = new Map();
+    this.isRunning = false;
+    this.lastRun = null;
+  }
+
+  /**
+   * Initialize the escalation service
+   * Rules are measured in hours, so they are evaluated every hour
+   */
+  async initialize() {
+    try {
+      console.log('🚨 Initializing Escalation Service...');
+
+      const job = cron.schedule('15 * * * *', async () => {
+        await this.runAll();
+      }, {
+        scheduled: true,
+        timezone: "Asia/Kolkata"
+      });
+
+      this.scheduledJobs.set('main', job);
+      this.isRunning = true;
+
+      console.log('✅ Escalation Service initialized successfully');
+      console.log('📅 Escalation rules evaluated hourly');
+    } catch (error) {
+      console.error('❌ Failed to initialize Escalation Service:', error);
+    }
+  }
+
+  /**
+   * Query for the open tasks a rule matches right now and has not escalated yet
+   */
+  buildTaskFilter(rule, now = new Date()) {
+    const cutoff = new Date(now.getTime() - rule.thresholdHours * HOUR_MS);
+    const filter = {
+      firm: rule.firm,
+      isArchived: { $ne: true },
+      'escalations.rule': { $ne: rule._id }
+    };
+
+    if (rule.priorities?.length > 0) {
+      filter.priority = { $in: rule.priorities };
+    }
+
+    if (rule.trigger === 'not_started') {
+      filter.status = 'todo';
+      filter.createdAt = { $lte: cutoff };
+    } else if (rule.trigger === 'stalled') {
+      filter.status = { $in: ['inprogress', 'review'] };
+      filter.updatedAt = { $lte: cutoff };
+    } else {
+      filter.status = { $in: ['todo', 'inprogress', 'review'] };
+      filter.dueDate = { $lte: cutoff };
+    }
+
+    return filter;
+  }
+
+  describe(rule, task) {
+    const span = formatHours(rule.thresholdHours);
+    if (rule.trigger === 'not_started') return `"${task.title}" has not been started ${span} after it was created`;
+    if (rule.trigger === 'stalled') return `"${task.title}" has had no activity for ${span}`;
+    return `"${task.title}" is overdue by ${span}`;
+  }
+
+  /**
+   * Staff to notify for one task, per the rule's targets. Admins and owners are
+   * looked up once per firm run and passed in through `firmStaff`.
+   */
+  async resolveRecipients(rule, task, firmStaff) {
+    const recipients = [];
+    for (const target of rule.notify || []) {
+      if (target === 'assignee') recipients.push(task.assignedTo);
+      if (target === 'creator') recipients.push(task.assignedBy);
+      if (target === 'reviewer') recipients.push(task.reviewer);
+      if (target === 'admins') recipients.push(...firmStaff.admins);
+      if (target === 'owner') recipients.push(...firmStaff.owners);
+      if (target === 'client_partner' && task.client) {
+        const client = await Client.findById(task.client).select('partner').lean();
+        recipients.push(client?.partner);
+      }
+    }
+    return [...new Set(recipients.filter(Boolean).map(String))];
+  }
+
+  /**
+   * Fire one rule for one task: record it, raise the priority if asked, notify.
+   * Returns null when another run recorded the same escalation first.
+   */
+  async escalateTask(rule, task, firmStaff, now = new Date()) {
+    const recipients = await this.resolveRecipients(rule, task, firmStaff);
+
+    const currentLevel = PRIORITY_LADDER.indexOf(task.priority);
+    const raisedPriority = rule.raisePriority && currentLevel >= 0 && currentLevel < PRIORITY_LADDER.length - 1
+      ? PRIORITY_LADDER[currentLevel + 1]
+      : null;
+
+    const escalation = {
+      rule: rule._id,
+      ruleName: rule.name,
+      trigger: rule.trigger,
+      triggeredAt: now,
+      notified: recipients,
+      priorityFrom: task.priority,
+      priorityTo: raisedPriority || task.priority
+    };
+
+    // Leave updatedAt alone so the escalation itself does not count as activity
+    const result = await Task.updateOne(
+      { _id: task._id, 'escalations.rule': { $ne: rule._id } },
+      {
+        $push: { escalations: escalation },
+        ...(raisedPriority && { $set: { priority: raisedPriority } })
+      },
+      { timestamps: false }
+    );
+    if (result.modifiedCount === 0) return null;
+
+    const message = this.describe(rule, task) +
+      (raisedPriority ? `. Priority raised to ${raisedPriority}.` : '.');
+    for (const recipientId of recipients) {
+      try {
+        await NotificationService.createNotification({
+          recipientId,
+          type: 'task_escalated',
+          title: `Escalation: ${task.title}`,
+          message,
+          relatedEntity: {
+            entityType: 'Task',
+            entityId: task._id
+          },
+          priority: raisedPriority === 'urgent' || task.priority === 'urgent' ? 'urgent' : 'high',
+          metadata: {
+            taskId: task._id,
+            ruleId: rule._id,
+            trigger: rule.trigger
+          }
+        });
+      } catch (error) {
+        console.error(`Failed to send escalation for task ${task._id}:`, error);
+      }
+    }
+
+    return escalation;
+  }
+
+  /**
+   * Evaluate every active rule for one firm
+   */
+  async runForFirm(firmId, now = new Date()) {
+    const summary = { firm: firmId, rules: 0, escalated: 0, errors: [] };
+    const rules = await EscalationRule.find({ firm: firmId, isActive: true });
+    if (rules.length === 0) return summary;
+    summary.rules = rules.length;
+
+    const staff = await User.find({ firmId, role: { $in: ['admin', 'owner'] }, isActive: true }).select('role').lean();
+    const firmStaff = {
+      admins: staff.filter(member => member.role === 'admin').map(member => member._id),
+      owners: staff.filter(member => member.role === 'owner').map(member => member._id)
+    };
+
+    for (const rule of rules) {
+      const tasks = await Task.find(this.buildTaskFilter(rule, now))
+        .select('title priority status assignedTo assignedBy reviewer client dueDate')
+        .lean();
+
+      let fired = 0;
+      for (const task of tasks) {
+        try {
+          if (await this.escalateTask(rule, task, firmStaff, now)) fired++;
+        } catch (error) {
+          console.error(`Escalation rule ${rule.name} failed for task ${task._id}:`, error);
+          summary.errors.push({ rule: rule.name, task: task._id, error: error.message });
+        }
+      }
+
+      if (fired > 0) {
+        await EscalationRule.updateOne({ _id: rule._id }, { $set: { lastTriggeredAt: now } });
+        summary.escalated += fired;
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Hourly job: evaluate the rules of every firm that has any
+   */
+  async runAll() {
+    try {
+      const firmIds = await EscalationRule.distinct('firm', { isActive: true });
+
+      const results = [];
+      for (const firmId of firmIds) {
+        results.push(await this.runForFirm(firmId));
+      }
+
+      const escalated = results.reduce((sum, result) => sum + result.escalated, 0);
+      this.lastRun = { at: new Date(), firms: results.length, escalated };
+      if (escalated > 0) {
+        console.log(`🚨 Escalated ${escalated} task(s) across ${results.length} firm(s)`);
+      }
+      return results;
+    } catch (error) {
+      console.error('Error running escalation rules:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get status of the escalation job
+   */
+  getStatus() {
+    return {
+      isRunning: this.isRunning,
+      activeJobs: this.scheduledJobs.size,
+      lastRun: this.lastRun
+    };
+  }
+
+  /**
+   * Stop all scheduled jobs
+   */
+  stopAll() {
+    for (const job of this.scheduledJobs.values()) {
+      job.stop();
+    }
+    this.scheduledJobs.clear();
+    this.isRunning = false;
+    console.log('🛑 Escalation schedule stopped');
+  }
+}
+
+// Create singleton instance
+const escalationService = new EscalationService();
+
+export default escalationService;
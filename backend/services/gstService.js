@@ -1,4 +1,22 @@
 import axios from 'axios';
+import dueDateService from './dueDateService.js';
+
+// State and union territory codes that open every GSTIN
+export const GST_STATE_CODES = {
+  '01': 'Jammu and Kashmir', '02': 'Himachal Pradesh', '03': 'Punjab',
+  '04': 'Chandigarh', '05': 'Uttarakhand', '06': 'Haryana',
+  '07': 'Delhi', '08': 'Rajasthan', '09': 'Uttar Pradesh',
+  '10': 'Bihar', '11': 'Sikkim', '12': 'Arunachal Pradesh',
+  '13': 'Nagaland', '14': 'Manipur', '15': 'Mizoram',
+  '16': 'Tripura', '17': 'Meghalaya', '18': 'Assam',
+  '19': 'West Bengal', '20': 'Jharkhand', '21': 'Odisha',
+  '22': 'Chhattisgarh', '23': 'Madhya Pradesh', '24': 'Gujarat',
+  '25': 'Daman and Diu', '26': 'Dadra and Nagar Haveli', '27': 'Maharashtra',
+  '28': 'Andhra Pradesh', '29': 'Karnataka', '30': 'Goa',
+  '31': 'Lakshadweep', '32': 'Kerala', '33': 'Tamil Nadu',
+  '34': 'Puducherry', '35': 'Andaman and Nicobar Islands', '36': 'Telangana',
+  '37': 'Andhra Pradesh', '38': 'Ladakh'
+};
 
 class GSTService {
   constructor() {
@@ -17,27 +35,19 @@ class GSTService {
     const month = monthMap[taxPeriod];
     if (!month) return 'N/A';
     
-    const year = parseInt(financialYear);
-    let dueMonth = month + 1;
-    let dueYear = year;
+    // Financial year "2024-25": January-March belong to the second calendar year
+    const fyStart = parseInt(financialYear);
+    const year = month >= 4 ? fyStart : fyStart + 1;
     
-    // Handle year boundary
-    if (dueMonth > 12) {
-      dueMonth = 1;
-      dueYear = year + 1;
-    }
-    
-    // Due dates based on return type
-    let dueDay;
-    if (returnType === 'GSTR1') {
-      dueDay = 11; // 11th of next month
-    } else if (returnType === 'GSTR3B') {
-      dueDay = 20; // 20th of next month
-    } else {
-      dueDay = 15; // Default
+    let dueDate;
+    try {
+      dueDate = dueDateService.calculateDueDate(returnType, `${year}-${String(month).padStart(2, '0')}`);
+    } catch (error) {
+      // Return types without a rule keep the old 15th-of-next-month default
+      dueDate = new Date(year, month, 15);
     }
     
-    return `${dueDay.toString().padStart(2, '0')}/${dueMonth.toString().padStart(2, '0')}/${dueYear}`;
+    return `${String(dueDate.getDate()).padStart(2, '0')}/${String(dueDate.getMonth() + 1).padStart(2, '0')}/${dueDate.getFullYear()}`;
   }
 
   // Get financial years from GST government API
@@ -204,23 +214,7 @@ class GSTService {
     if (!this.validateGSTIN(gstin)) return null;
     
     const stateCode = gstin.substring(0, 2);
-    const stateCodes = {
-      '01': 'Jammu and Kashmir', '02': 'Himachal Pradesh', '03': 'Punjab',
-      '04': 'Chandigarh', '05': 'Uttarakhand', '06': 'Haryana',
-      '07': 'Delhi', '08': 'Rajasthan', '09': 'Uttar Pradesh',
-      '10': 'Bihar', '11': 'Sikkim', '12': 'Arunachal Pradesh',
-      '13': 'Nagaland', '14': 'Manipur', '15': 'Mizoram',
-      '16': 'Tripura', '17': 'Meghalaya', '18': 'Assam',
-      '19': 'West Bengal', '20': 'Jharkhand', '21': 'Odisha',
-      '22': 'Chhattisgarh', '23': 'Madhya Pradesh', '24': 'Gujarat',
-      '25': 'Daman and Diu', '26': 'Dadra and Nagar Haveli', '27': 'Maharashtra',
-      '28': 'Andhra Pradesh', '29': 'Karnataka', '30': 'Goa',
-      '31': 'Lakshadweep', '32': 'Kerala', '33': 'Tamil Nadu',
-      '34': 'Puducherry', '35': 'Andaman and Nicobar Islands', '36': 'Telangana',
-      '37': 'Andhra Pradesh', '38': 'Ladakh'
-    };
-    
-    return stateCodes[stateCode] || 'Unknown State';
+    return GST_STATE_CODES[stateCode] || 'Unknown State';
   }
 
   // Get taxpayer details from multiple sources with fallbacks
@@ -0,0 +1,341 @@
+import Invoice from '../models/Invoice.js';
+import Settings from '../models/Settings.js';
+import Firm from '../models/Firm.js';
+import defaultSettings from '../config/defaultSettings.js';
+import { SERIES_ACCOUNTS } from '../utils/invoiceNumbering.js';
+import { isValidGSTIN, supplierGSTIN, invoiceLineTax, stateName } from '../utils/gstTax.js';
+
+// Issued documents only; drafts and cancelled invoices are not outward supplies
+const REPORTABLE_STATUSES = ['sent', 'paid', 'partially_paid', 'overdue'];
+
+// Issued invoices cancelled through a credit note stay in the return; the
+// credit note is what reverses them
+const reportableFilter = () => ({
+  $or: [
+    { status: { $in: REPORTABLE_STATUSES } },
+    { status: 'cancelled', creditedAmount: { $gt: 0 } }
+  ]
+});
+
+// Unregistered inter-state invoices above this value are reported one by one (B2CL)
+const B2CL_LIMIT = 100000;
+const B2CL_LIMIT_BEFORE_AUG_2024 = 250000;
+
+const TIME_ZONE = defaultSettings.company.timeZone;
+const IST_OFFSET_MS = 330 * 60 * 1000;
+
+const round2 = (value) => Math.round((Number(value) || 0) * 100) / 100;
+
+const createError = (message, statusCode) => {
+  const error = new Error(message);
+  error.statusCode = statusCode;
+  return error;
+};
+
+// Midnight IST on the first of a month, as a UTC instant
+const istMonthStart = (year, monthIndex) => new Date(Date.UTC(year, monthIndex, 1) - IST_OFFSET_MS);
+
+const b2clLimitOn = (date) => (new Date(date) < istMonthStart(2024, 7) ? B2CL_LIMIT_BEFORE_AUG_2024 : B2CL_LIMIT);
+
+// dd-mm-yyyy in IST, the date format the GST portal expects
+export const formatGstDate = (date) => {
+  const parts = new Intl.DateTimeFormat('en-GB', { timeZone: TIME_ZONE, day: '2-digit', month: '2-digit', year: 'numeric' })
+    .formatToParts(new Date(date));
+  const part = (type) => parts.find(entry => entry.type === type).value;
+  return `${part('day')}-${part('month')}-${part('year')}`;
+};
+
+const emptyTotals = () => ({ txval: 0, iamt: 0, camt: 0, samt: 0, csamt: 0 });
+
+const addTax = (totals, { txval, iamt, camt, samt }, sign = 1) => {
+  totals.txval = round2(totals.txval + sign * txval);
+  totals.iamt = round2(totals.iamt + sign * iamt);
+  totals.camt = round2(totals.camt + sign * camt);
+  totals.samt = round2(totals.samt + sign * samt);
+  return totals;
+};
+
+const lineRate = (invoice, item) =>
+  invoice.gst?.applicable !== false && item.taxable !== false ? Number(item.taxRate ?? 18) : 0;
+
+// SAC codes (services) start with 99 and are reported without a quantity unit
+const unitFor = (hsn) => (String(hsn).startsWith('99') ? 'NA' : 'OTH');
+
+class Gstr1Service {
+  /**
+   * Return period for a month, or the quarter that month falls in for
+   * quarterly (QRMP) filers. `fp` is the portal's MMYYYY for the last month.
+   */
+  getPeriod({ month, year, quarterly } = {}) {
+    const monthNum = parseInt(month);
+    const yearNum = parseInt(year);
+    if (!(monthNum >= 1 && monthNum <= 12) || !(yearNum >= 2017 && yearNum <= 2100)) {
+      throw createError('A valid month and year are required', 400);
+    }
+
+    const isQuarterly = quarterly === true || quarterly === 'true';
+    // Quarters follow the financial year: Apr-Jun, Jul-Sep, Oct-Dec, Jan-Mar
+    const lastMonth = isQuarterly ? Math.ceil(monthNum / 3) * 3 : monthNum;
+    const firstMonth = isQuarterly ? lastMonth - 2 : monthNum;
+    const fp = `${String(lastMonth).padStart(2, '0')}${yearNum}`;
+    const from = istMonthStart(yearNum, firstMonth - 1);
+    const to = new Date(istMonthStart(yearNum, lastMonth).getTime() - 1);
+
+    const label = new Intl.DateTimeFormat('en-IN', { timeZone: TIME_ZONE, month: 'short', year: 'numeric' });
+    return {
+      frequency: isQuarterly ? 'quarterly' : 'monthly',
+      fp,
+      from,
+      to,
+      label: isQuarterly ? `${label.format(from)} - ${label.format(to)}` : label.format(from)
+    };
+  }
+
+  /**
+   * GSTINs the firm invoices under, with the collection accounts that use each.
+   * Accounts without their own GSTIN fall back to the firm's.
+   */
+  async getRegistrations(firmId) {
+    const [settings, firm] = await Promise.all([
+      Settings.findOne({ firm: firmId }).select('data.company.gstNumber data.company.invoiceAccounts').lean(),
+      Firm.findById(firmId).select('name gstNumber').lean()
+    ]);
+    const company = settings?.data?.company || {};
+
+    const registrations = [];
+    for (const account of SERIES_ACCOUNTS) {
+      const gstin = supplierGSTIN(company, firm?.gstNumber, account);
+      if (!gstin) continue;
+      const existing = registrations.find(entry => entry.gstin === gstin);
+      if (existing) {
+        existing.accounts.push(account);
+      } else {
+        registrations.push({ gstin, stateCode: gstin.slice(0, 2), state: stateName(gstin.slice(0, 2)), accounts: [account] });
+      }
+    }
+    return { firm, registrations };
+  }
+
+  /**
+   * Classify a GSTIN's invoices and credit notes for the period into the
+   * GSTR-1 tables. Amounts come from the tax split stored on each line, so
+   * the return matches the invoices the clients received.
+   */
+  async buildReturn(firmId, { gstin, ...periodQuery } = {}) {
+    const period = this.getPeriod(periodQuery);
+    const { firm, registrations } = await this.getRegistrations(firmId);
+    if (registrations.length === 0) {
+      throw createError('Add the firm GSTIN in company settings before preparing GSTR-1', 400);
+    }
+
+    const registration = gstin
+      ? registrations.find(entry => entry.gstin === String(gstin).toUpperCase())
+      : registrations[0];
+    if (!registration) {
+      throw createError('This GSTIN is not used by any of the firm\'s collection accounts', 400);
+    }
+
+    const documents = await Invoice.find({
+      firm: firmId,
+      type: { $in: ['invoice', 'credit_note'] },
+      ...reportableFilter(),
+      issueDate: { $gte: period.from, $lte: period.to }
+    })
+      .populate('client', 'name gstNumber gstData')
+      .populate('creditNote.originalInvoice', 'invoiceNumber issueDate collectionMethod totalAmount placeOfSupply')
+      .sort({ issueDate: 1, invoiceNumber: 1 })
+      .lean();
+
+    const b2clLimit = b2clLimitOn(period.from);
+    const report = {
+      period,
+      supplier: { ...registration, name: firm?.name || '' },
+      registrations,
+      b2b: [],
+      b2cl: [],
+      b2cs: [],
+      cdnr: [],
+      cdnur: [],
+      hsn: { b2b: [], b2c: [] },
+      issues: []
+    };
+
+    if (!isValidGSTIN(registration.gstin)) {
+      report.issues.push({
+        severity: 'error',
+        code: 'invalid_supplier_gstin',
+        message: `The supplier GSTIN ${registration.gstin} fails the GSTIN check digit; the portal will reject this return`
+      });
+    }
+
+    const flag = (doc, severity, code, message) => report.issues.push({
+      severity,
+      code,
+      message,
+      invoiceId: doc._id,
+      invoiceNumber: doc.invoiceNumber
+    });
+
+    const b2cs = new Map();
+    const hsnRows = { b2b: new Map(), b2c: new Map() };
+
+    for (const doc of documents) {
+      const isCreditNote = doc.type === 'credit_note';
+      const original = isCreditNote ? doc.creditNote?.originalInvoice : null;
+      if (isCreditNote && !original?._id) {
+        flag(doc, 'error', 'missing_original_invoice', 'Credit note is not linked to an invoice and was left out');
+        continue;
+      }
+
+      const account = (isCreditNote ? original.collectionMethod : doc.collectionMethod) || 'account_1';
+      if (!registration.accounts.includes(account)) continue;
+
+      const receiverGstin = String(doc.client?.gstNumber || '').trim().toUpperCase();
+      const registered = !!receiverGstin && isValidGSTIN(receiverGstin);
+      if (receiverGstin && !registered) {
+        flag(doc, 'error', 'invalid_gstin', `Client GSTIN ${receiverGstin} is invalid, so this is reported as a B2C supply until it is corrected`);
+      } else if (registered && /cancel/i.test(doc.client?.gstData?.status || '')) {
+        flag(doc, 'warning', 'cancelled_gstin', `Client GSTIN ${receiverGstin} is marked as cancelled on the GST portal`);
+      }
+
+      const placeOfSupply = doc.placeOfSupply?.stateCode || original?.placeOfSupply?.stateCode;
+      if (!placeOfSupply) {
+        flag(doc, 'warning', 'missing_place_of_supply', 'No place of supply was recorded; the client GSTIN or supplier state was assumed');
+      }
+      const pos = placeOfSupply || (registered ? receiverGstin.slice(0, 2) : registration.stateCode);
+      const interState = pos !== registration.stateCode;
+
+      // Lines grouped by tax rate, as each GSTR-1 table wants them
+      const lineTax = invoiceLineTax(doc);
+      const byRate = new Map();
+      let missingHsn = false;
+      (doc.items || []).forEach((item, index) => {
+        const rt = lineRate(doc, item);
+        const tax = {
+          txval: lineTax[index]?.taxableValue || 0,
+          iamt: lineTax[index]?.igst || 0,
+          camt: lineTax[index]?.cgst || 0,
+          samt: lineTax[index]?.sgst || 0
+        };
+        if (!byRate.has(rt)) byRate.set(rt, { rt, ...emptyTotals() });
+        addTax(byRate.get(rt), tax);
+
+        const hsn = String(item.hsn || '').trim();
+        if (!hsn) {
+          missingHsn = true;
+          return;
+        }
+        const rows = hsnRows[registered ? 'b2b' : 'b2c'];
+        const key = `${hsn}:${rt}`;
+        if (!rows.has(key)) rows.set(key, { hsn_sc: hsn, desc: '', uqc: unitFor(hsn), qty: 0, rt, val: 0, ...emptyTotals() });
+        const row = rows.get(key);
+        const sign = isCreditNote ? -1 : 1;
+        if (!isCreditNote && row.uqc !== 'NA') row.qty = round2(row.qty + (Number(item.quantity) || 0));
+        addTax(row, tax, sign);
+        row.val = round2(row.val + sign * (tax.txval + tax.iamt + tax.camt + tax.samt));
+      });
+      if (missingHsn) {
+        flag(doc, 'warning', 'missing_hsn', 'Some lines have no HSN/SAC code and are missing from the HSN summary');
+      }
+
+      const items = [...byRate.values()];
+      const entry = {
+        invoiceId: doc._id,
+        idt: formatGstDate(doc.issueDate),
+        val: round2(doc.totalAmount),
+        pos,
+        items
+      };
+
+      if (isCreditNote) {
+        const note = {
+          ...entry,
+          nt_num: doc.invoiceNumber,
+          nt_dt: entry.idt,
+          ntty: 'C',
+          originalInvoiceNumber: original.invoiceNumber,
+          originalInvoiceDate: original.issueDate ? formatGstDate(original.issueDate) : null
+        };
+        if (registered) {
+          this.addToParty(report.cdnr, receiverGstin, doc.client?.name, 'notes', { ...note, rchrg: 'N', inv_typ: 'R' });
+        } else if (interState && (original.totalAmount || 0) > b2clLimitOn(original.issueDate || doc.issueDate)) {
+          // The invoice was reported on its own under B2CL, so the note is too (CDNUR), not netted off B2CS
+          report.cdnur.push({ ...note, typ: 'B2CL' });
+        } else {
+          items.forEach(rateGroup => this.addToB2cs(b2cs, pos, interState, rateGroup, -1));
+        }
+        continue;
+      }
+
+      const invoice = { ...entry, inum: doc.invoiceNumber, rchrg: 'N', inv_typ: 'R' };
+      if (registered) {
+        this.addToParty(report.b2b, receiverGstin, doc.client?.name, 'invoices', invoice);
+      } else if (interState && entry.val > b2clLimit) {
+        let group = report.b2cl.find(row => row.pos === pos);
+        if (!group) {
+          group = { pos, invoices: [] };
+          report.b2cl.push(group);
+        }
+        group.invoices.push(invoice);
+      } else {
+        items.forEach(rateGroup => this.addToB2cs(b2cs, pos, interState, rateGroup, 1));
+      }
+    }
+
+    report.b2cs = [...b2cs.values()]
+      .filter(row => row.txval !== 0)
+      .sort((a, b) => a.pos.localeCompare(b.pos) || a.rt - b.rt);
+    report.hsn.b2b = [...hsnRows.b2b.values()].sort((a, b) => a.hsn_sc.localeCompare(b.hsn_sc) || a.rt - b.rt);
+    report.hsn.b2c = [...hsnRows.b2c.values()].sort((a, b) => a.hsn_sc.localeCompare(b.hsn_sc) || a.rt - b.rt);
+    report.summary = this.summarize(report);
+
+    return report;
+  }
+
+  addToParty(list, ctin, name, key, document) {
+    let party = list.find(entry => entry.ctin === ctin);
+    if (!party) {
+      party = { ctin, receiverName: name || '', [key]: [] };
+      list.push(party);
+    }
+    party[key].push(document);
+  }
+
+  // B2CS is reported in aggregate per place of supply and rate
+  addToB2cs(rows, pos, interState, rateGroup, sign) {
+    const supplyType = interState ? 'INTER' : 'INTRA';
+    const key = `${pos}:${rateGroup.rt}:${supplyType}`;
+    if (!rows.has(key)) rows.set(key, { sply_ty: supplyType, pos, typ: 'OE', rt: rateGroup.rt, ...emptyTotals() });
+    addTax(rows.get(key), rateGroup, sign);
+  }
+
+  summarize(report) {
+    const documentTotals = (documents) => documents.reduce((totals, document) => {
+      document.items.forEach(item => addTax(totals, item));
+      totals.val = round2(totals.val + document.val);
+      totals.count += 1;
+      return totals;
+    }, { count: 0, val: 0, ...emptyTotals() });
+
+    const rowTotals = (rows) => rows.reduce((totals, row) => {
+      addTax(totals, row);
+      totals.count += 1;
+      return totals;
+    }, { count: 0, val: 0, ...emptyTotals() });
+
+    return {
+      b2b: documentTotals(report.b2b.flatMap(party => party.invoices)),
+      b2cl: documentTotals(report.b2cl.flatMap(group => group.invoices)),
+      b2cs: rowTotals(report.b2cs),
+      cdnr: documentTotals(report.cdnr.flatMap(party => party.notes)),
+      cdnur: documentTotals(report.cdnur),
+      hsn: rowTotals([...report.hsn.b2b, ...report.hsn.b2c]),
+      errors: report.issues.filter(issue => issue.severity === 'error').length,
+      warnings: report.issues.filter(issue => issue.severity === 'warning').length
+    };
+  }
+}
+
+const gstr1Service = new Gstr1Service();
+
+export default gstr1Service;
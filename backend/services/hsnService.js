@@ -0,0 +1,373 @@
+import { Readable } from 'stream';
+import ExcelJS from 'exceljs';
+import HsnCode from '../models/HsnCode.js';
+import Settings from '../models/Settings.js';
+
+// Rates imported without a date are taken to have applied since GST began
+const GST_START_DATE = new Date('2017-07-01T00:00:00+05:30');
+const MIN_SIMILARITY = 0.35;
+const IMPORT_BATCH_SIZE = 500;
+
+// Header spellings seen in the GST portal and CBIC downloads, with spaces and punctuation removed
+const IMPORT_COLUMNS = {
+  code: ['hsncd', 'saccd', 'hsn', 'sac', 'hsncode', 'saccode', 'hsnsac', 'hsnsaccode', 'code'],
+  description: ['hsndescription', 'sacdescription', 'description', 'desc', 'descriptionofgoods', 'descriptionofservices'],
+  category: ['category', 'chapter', 'heading'],
+  rate: ['rate', 'gstrate', 'igst', 'igstrate', 'gst', 'taxrate'],
+  cess: ['cess', 'cessrate', 'compensationcess'],
+  effectiveFrom: ['effectivefrom', 'effectivedate', 'wef', 'applicablefrom'],
+  notification: ['notification', 'notificationno', 'notificationnumber']
+};
+
+const TASK_CATEGORIES = ['gst', 'itr', 'roc', 'other'];
+
+const createError = (message, statusCode) => {
+  const error = new Error(message);
+  error.statusCode = statusCode;
+  return error;
+};
+
+const normalizeHeader = (value) => String(value || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export const kindFor = (code) => (String(code).startsWith('99') ? 'SAC' : 'HSN');
+
+/**
+ * Three-letter slices of every word, padded so word starts and ends count.
+ * Two spellings of a word share most of their trigrams even with a typo.
+ */
+export const trigrams = (text) => {
+  const grams = new Set();
+  String(text || '').toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length >= 2).forEach(word => {
+    const padded = ` ${word} `;
+    for (let i = 0; i < padded.length - 2; i += 1) grams.add(padded.slice(i, i + 3));
+  });
+  return [...grams];
+};
+
+// Spreadsheets drop the leading zero of chapters 01-09 (0101 becomes 101)
+const normalizeCode = (value) => {
+  const code = String(value ?? '').replace(/\s/g, '').replace(/\.0+$/, '');
+  if (!/^\d+$/.test(code)) return null;
+  const padded = code.length % 2 === 1 ? `0${code}` : code;
+  return padded.length >= 2 && padded.length <= 8 ? padded : null;
+};
+
+const parseDate = (value) => {
+  if (!value) return null;
+  if (value instanceof Date) return isNaN(value) ? null : value;
+  const text = String(value).trim();
+  const dmy = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+  const date = dmy
+    ? new Date(`${dmy[3]}-${dmy[2].padStart(2, '0')}-${dmy[1].padStart(2, '0')}T00:00:00+05:30`)
+    : new Date(text);
+  return isNaN(date) ? null : date;
+};
+
+const parseNumber = (value) => {
+  if (value === null || value === undefined || value === '') return null;
+  const number = Number(String(value).replace(/%/g, '').trim());
+  return isNaN(number) ? null : number;
+};
+
+const cellValue = (cell) => {
+  const { value } = cell;
+  if (value instanceof Date) return value;
+  if (value && typeof value === 'object') return cell.text;
+  return value;
+};
+
+class HsnService {
+  /**
+   * The rate in force on a date: the latest entry that had started by then.
+   */
+  rateOn(hsnCode, date = new Date()) {
+    const when = new Date(date);
+    return [...(hsnCode.rates || [])]
+      .sort((a, b) => new Date(b.effectiveFrom) - new Date(a.effectiveFrom))
+      .find(entry => new Date(entry.effectiveFrom) <= when) || null;
+  }
+
+  // Shape used by the invoice screens: the rate split into its CGST/SGST/IGST parts
+  present(hsnCode, date = new Date(), favourites = []) {
+    const current = this.rateOn(hsnCode, date);
+    const rate = current?.rate ?? null;
+    return {
+      hsn: hsnCode.code,
+      kind: hsnCode.kind,
+      description: hsnCode.description,
+      category: hsnCode.category || (hsnCode.kind === 'SAC' ? 'Services' : 'Goods'),
+      igst: rate,
+      cgst: rate === null ? null : rate / 2,
+      sgst: rate === null ? null : rate / 2,
+      cess: current?.cess || 0,
+      effectiveFrom: current?.effectiveFrom || null,
+      rates: [...(hsnCode.rates || [])].sort((a, b) => new Date(b.effectiveFrom) - new Date(a.effectiveFrom)),
+      isFavourite: favourites.includes(hsnCode.code)
+    };
+  }
+
+  async getPreferences(firmId) {
+    const settings = await Settings.findOne({ firm: firmId })
+      .select('data.company.hsnFavourites data.company.hsnCategoryDefaults')
+      .lean();
+    const company = settings?.data?.company || {};
+    return {
+      favourites: Array.isArray(company.hsnFavourites) ? company.hsnFavourites : [],
+      categoryDefaults: company.hsnCategoryDefaults || {}
+    };
+  }
+
+  /**
+   * Search by code prefix or by description, tolerating misspellings.
+   * The firm's favourites rank first and an empty query lists them.
+   */
+  async search(firmId, { q = '', limit = 10, date } = {}) {
+    const query = String(q).trim();
+    const max = Math.min(Math.max(parseInt(limit) || 10, 1), 50);
+    const { favourites } = await this.getPreferences(firmId);
+
+    if (!query) {
+      const codes = await HsnCode.find({ code: { $in: favourites }, isActive: true }).sort({ code: 1 }).limit(max).lean();
+      return codes.map(code => this.present(code, date, favourites));
+    }
+
+    if (/^\d+$/.test(query)) {
+      const codes = await HsnCode.find({ code: { $regex: `^${query}` }, isActive: true })
+        .sort({ code: 1 })
+        .limit(max * 2)
+        .lean();
+      return codes
+        .sort((a, b) => Number(favourites.includes(b.code)) - Number(favourites.includes(a.code)) || a.code.length - b.code.length)
+        .slice(0, max)
+        .map(code => this.present(code, date, favourites));
+    }
+
+    const grams = trigrams(query);
+    if (grams.length === 0) return [];
+
+    const candidates = await HsnCode.aggregate([
+      { $match: { searchGrams: { $in: grams }, isActive: true } },
+      { $addFields: { shared: { $size: { $setIntersection: ['$searchGrams', grams] } } } },
+      { $sort: { shared: -1 } },
+      { $limit: 200 },
+      { $project: { searchGrams: 0 } }
+    ]);
+
+    const phrase = query.toLowerCase();
+    return candidates
+      .map(code => {
+        const contains = code.description.toLowerCase().includes(phrase);
+        const score = code.shared / grams.length + (contains ? 1 : 0) + (favourites.includes(code.code) ? 0.25 : 0);
+        return { code, score, similarity: code.shared / grams.length, contains };
+      })
+      .filter(({ similarity, contains }) => contains || similarity >= MIN_SIMILARITY)
+      // Prefer the more specific 6/8-digit codes that can go on an invoice
+      .sort((a, b) => b.score - a.score || b.code.code.length - a.code.code.length)
+      .slice(0, max)
+      .map(({ code }) => this.present(code, date, favourites));
+  }
+
+  async getByCode(firmId, code, date) {
+    const hsnCode = await HsnCode.findOne({ code: String(code).trim() }).lean();
+    if (!hsnCode) {
+      throw createError('HSN/SAC code not found', 404);
+    }
+    const { favourites } = await this.getPreferences(firmId);
+    return this.present(hsnCode, date, favourites);
+  }
+
+  /**
+   * Fill in the rate of lines that name an HSN/SAC code but no rate, using
+   * the rate in force on the invoice date. Lines with a rate are left alone.
+   */
+  async applyRates(items = [], date = new Date()) {
+    const codes = [...new Set(items
+      .filter(item => item.hsn && (item.taxRate === undefined || item.taxRate === null || item.taxRate === ''))
+      .map(item => String(item.hsn).trim()))];
+    if (codes.length === 0) return items;
+
+    const hsnCodes = await HsnCode.find({ code: { $in: codes } }).select('code rates').lean();
+    const rates = new Map(hsnCodes.map(hsnCode => [hsnCode.code, this.rateOn(hsnCode, date)?.rate]));
+    return items.map(item => {
+      const rate = item.hsn ? rates.get(String(item.hsn).trim()) : undefined;
+      return rate !== undefined && rate !== null && (item.taxRate === undefined || item.taxRate === null || item.taxRate === '')
+        ? { ...item, taxRate: rate }
+        : item;
+    });
+  }
+
+  // Default SAC code and its current rate for each task category the firm has set one for
+  async getCategoryDefaults(firmId, date = new Date()) {
+    const { categoryDefaults } = await this.getPreferences(firmId);
+    const codes = Object.values(categoryDefaults).filter(Boolean);
+    const hsnCodes = await HsnCode.find({ code: { $in: codes } }).select('code rates').lean();
+    const byCode = new Map(hsnCodes.map(hsnCode => [hsnCode.code, hsnCode]));
+
+    return Object.fromEntries(TASK_CATEGORIES
+      .filter(category => categoryDefaults[category])
+      .map(category => {
+        const hsnCode = byCode.get(categoryDefaults[category]);
+        return [category, { hsn: categoryDefaults[category], taxRate: hsnCode ? this.rateOn(hsnCode, date)?.rate ?? null : null }];
+      }));
+  }
+
+  async setFavourite(firmId, code, favourite) {
+    if (favourite && !(await HsnCode.exists({ code }))) {
+      throw createError('HSN/SAC code not found', 404);
+    }
+    await Settings.updateOne(
+      { firm: firmId },
+      favourite
+        ? { $addToSet: { 'data.company.hsnFavourites': code } }
+        : { $pull: { 'data.company.hsnFavourites': code } },
+      { upsert: true }
+    );
+    return this.getPreferences(firmId);
+  }
+
+  /**
+   * Read the rows of an HSN/SAC master download (Excel or CSV). Every sheet
+   * with a code column is read, so the portal's separate HSN and SAC sheets
+   * both come through.
+   */
+  async parseImportFile(buffer, fileName = '') {
+    const workbook = new ExcelJS.Workbook();
+    if (/\.csv$/i.test(fileName)) {
+      await workbook.csv.read(Readable.from(buffer));
+    } else {
+      await workbook.xlsx.load(buffer);
+    }
+
+    const rows = [];
+    workbook.eachSheet(worksheet => {
+      let columns = null;
+      worksheet.eachRow((row, rowNumber) => {
+        if (!columns) {
+          const headers = {};
+          row.eachCell((cell, col) => {
+            const header = normalizeHeader(cell.text);
+            const field = Object.keys(IMPORT_COLUMNS).find(key => IMPORT_COLUMNS[key].includes(header));
+            if (field && !headers[field]) headers[field] = col;
+          });
+          if (headers.code && headers.description) columns = headers;
+          return;
+        }
+
+        const value = (field) => (columns[field] ? cellValue(row.getCell(columns[field])) : null);
+        rows.push({
+          sheet: worksheet.name,
+          row: rowNumber,
+          code: value('code'),
+          description: value('description'),
+          category: value('category'),
+          rate: value('rate'),
+          cess: value('cess'),
+          effectiveFrom: value('effectiveFrom'),
+          notification: value('notification')
+        });
+      });
+    });
+
+    if (rows.length === 0) {
+      throw createError('No HSN/SAC rows found. The file needs a code column (HSN_CD, SAC_CD or HSN) and a description column', 400);
+    }
+    return rows;
+  }
+
+  /**
+   * Upsert parsed rows into the master. A rate that differs from the one in
+   * force on its effective date is added as a new entry, never overwriting
+   * history, so invoices raised earlier keep the rate that applied then.
+   */
+  async importRows(rawRows) {
+    const result = { created: 0, updated: 0, rateChanges: 0, skipped: 0, errors: [] };
+
+    // A code listed twice keeps its last description and the last rate given for it
+    const rowsByCode = new Map();
+    rawRows.forEach(raw => {
+      const code = normalizeCode(raw.code);
+      const description = String(raw.description || '').replace(/\s+/g, ' ').trim();
+      const rate = parseNumber(raw.rate);
+      if (!code || !description) {
+        result.skipped += 1;
+        if (raw.code || raw.description) {
+          result.errors.push({ sheet: raw.sheet, row: raw.row, message: 'Missing or invalid code or description' });
+        }
+        return;
+      }
+      if (rate !== null && (rate < 0 || rate > 40)) {
+        result.errors.push({ sheet: raw.sheet, row: raw.row, message: `Rate ${raw.rate} is outside 0-40%` });
+        return;
+      }
+      const previous = rowsByCode.get(code);
+      const row = {
+        code,
+        description,
+        category: raw.category ? String(raw.category).trim() : null,
+        rate,
+        cess: parseNumber(raw.cess) || 0,
+        effectiveFrom: parseDate(raw.effectiveFrom),
+        notification: raw.notification ? String(raw.notification).trim() : undefined
+      };
+      rowsByCode.set(code, previous && rate === null
+        ? { ...row, rate: previous.rate, cess: previous.cess, effectiveFrom: previous.effectiveFrom, notification: previous.notification }
+        : row);
+    });
+    const rows = [...rowsByCode.values()];
+
+    // Headings (4 digits) and chapters (2 digits) in the file name the group each code belongs to
+    const headings = new Map(rows.filter(row => row.code.length <= 4).map(row => [row.code, row.description]));
+
+    for (let start = 0; start < rows.length; start += IMPORT_BATCH_SIZE) {
+      const batch = rows.slice(start, start + IMPORT_BATCH_SIZE);
+      const existing = await HsnCode.find({ code: { $in: batch.map(row => row.code) } }).select('code rates').lean();
+      const existingByCode = new Map(existing.map(hsnCode => [hsnCode.code, hsnCode]));
+
+      const operations = batch.map(row => {
+        const current = existingByCode.get(row.code);
+        const rates = [...(current?.rates || [])];
+
+        if (row.rate !== null) {
+          // Undated rates start at GST launch for new codes and today for changed ones
+          const effectiveFrom = row.effectiveFrom || (rates.length === 0 ? GST_START_DATE : new Date());
+          const inForce = this.rateOn({ rates }, effectiveFrom);
+          if (!inForce || inForce.rate !== row.rate || (inForce.cess || 0) !== row.cess) {
+            const sameDay = rates.findIndex(entry => new Date(entry.effectiveFrom).getTime() === effectiveFrom.getTime());
+            const entry = { rate: row.rate, cess: row.cess, effectiveFrom, notification: row.notification };
+            if (sameDay >= 0) rates[sameDay] = entry;
+            else rates.push(entry);
+            result.rateChanges += 1;
+          }
+        }
+
+        if (current) result.updated += 1;
+        else result.created += 1;
+
+        return {
+          updateOne: {
+            filter: { code: row.code },
+            update: {
+              $set: {
+                kind: kindFor(row.code),
+                description: row.description,
+                category: row.category || headings.get(row.code.slice(0, 4)) || headings.get(row.code.slice(0, 2)) || undefined,
+                rates: rates.sort((a, b) => new Date(a.effectiveFrom) - new Date(b.effectiveFrom)),
+                searchGrams: trigrams(row.description),
+                isActive: true
+              }
+            },
+            upsert: true
+          }
+        };
+      });
+
+      await HsnCode.bulkWrite(operations, { ordered: false });
+    }
+
+    return result;
+  }
+}
+
+const hsnService = new HsnService();
+
+export default hsnService;
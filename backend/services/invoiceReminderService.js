@@ -0,0 +1,326 @@
+import cron from 'node-cron';
+import Invoice from '../models/Invoice.js';
+import Settings from '../models/Settings.js';
+import defaultSettings from '../config/defaultSettings.js';
+import emailService from './emailService.js';
+import razorpayService from './razorpayService.js';
+import { generateInvoicePdf } from '../utils/invoicePdf.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Invoices that still have money outstanding and can be chased
+const OPEN_STATUSES = ['sent', 'partially_paid', 'overdue'];
+
+const startOfDay = (date = new Date()) => {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+};
+
+const daysBetween = (from, to) => Math.round((startOfDay(to) - startOfDay(from)) / DAY_MS);
+
+class InvoiceReminderService {
+  constructor() {
+    this.scheduledJobs = new Map();
+    this.isRunning = false;
+    this.lastRun = null;
+  }
+
+  /**
+   * Initialize the invoice reminder service
+   * Schedules a daily job that marks overdue invoices and sends dunning emails
+   */
+  async initialize() {
+    try {
+      console.log('💸 Initializing Invoice Reminder Service...');
+
+      const job = cron.schedule('0 10 * * *', async () => {
+        console.log('💸 Running invoice reminders...');
+        await this.runDailyReminders();
+      }, {
+        scheduled: true,
+        timezone: "Asia/Kolkata"
+      });
+
+      this.scheduledJobs.set('main', job);
+      this.isRunning = true;
+
+      console.log('✅ Invoice Reminder Service initialized successfully');
+      console.log('📅 Daily reminders scheduled at 10:00 AM IST');
+    } catch (error) {
+      console.error('❌ Failed to initialize Invoice Reminder Service:', error);
+    }
+  }
+
+  /**
+   * Read a firm's reminder settings, falling back to the defaults
+   * @returns {{ enabled: boolean, schedule: number[] }} schedule sorted ascending
+   */
+  async getFirmSchedule(firmId) {
+    const settings = await Settings.findOne({ firm: firmId }).lean();
+    const automation = { ...defaultSettings.automation, ...(settings?.data?.automation || {}) };
+
+    const schedule = [...new Set(
+      (Array.isArray(automation.invoiceReminderSchedule) ? automation.invoiceReminderSchedule : [])
+        .map(Number)
+        .filter(Number.isInteger)
+    )].sort((a, b) => a - b);
+
+    return {
+      enabled: automation.enableInvoiceReminders !== false && schedule.length > 0,
+      schedule
+    };
+  }
+
+  /**
+   * Move sent invoices past their due date to "overdue"
+   */
+  async markOverdueInvoices(firmId = null) {
+    const filter = {
+      type: 'invoice',
+      status: 'sent',
+      dueDate: { $lt: startOfDay() }
+    };
+    if (firmId) filter.firm = firmId;
+
+    const result = await Invoice.updateMany(filter, { $set: { status: 'overdue' } });
+    if (result.modifiedCount) {
+      console.log(`⏰ Marked ${result.modifiedCount} invoice(s) as overdue`);
+    }
+    return result.modifiedCount;
+  }
+
+  /**
+   * Pick the schedule step to send today, if any. Only the latest step that has
+   * come due is sent, so an invoice that was missed for a while gets one
+   * reminder rather than the whole backlog at once.
+   */
+  getDueStep(invoice, schedule, today = new Date()) {
+    const daysFromDue = daysBetween(invoice.dueDate, today);
+    const sentSteps = (invoice.reminders || [])
+      .filter(reminder => reminder.automatic !== false && typeof reminder.daysAfterDue === 'number')
+      .map(reminder => reminder.daysAfterDue);
+    const lastSent = sentSteps.length ? Math.max(...sentSteps) : -Infinity;
+
+    const step = schedule.filter(s => s <= daysFromDue && s > lastSent).pop();
+    return step === undefined ? null : { step, daysFromDue };
+  }
+
+  /**
+   * Reuse the invoice's Razorpay link when it was created for the current
+   * balance, otherwise create a new one. Returns null if Razorpay is not set up.
+   */
+  async getPaymentLink(invoice) {
+    const existing = invoice.razorpayData;
+    if (existing?.shortUrl && existing.amount === invoice.balanceAmount && existing.status !== 'paid') {
+      return existing.shortUrl;
+    }
+
+    if (!razorpayService.razorpay) return null;
+
+    const client = invoice.client || {};
+    const result = await razorpayService.createPaymentLink({
+      amount: invoice.balanceAmount,
+      description: `Payment for Invoice ${invoice.invoiceNumber} - ${invoice.firm?.name || ''}`.trim(),
+      customer: {
+        name: client.name,
+        email: client.email,
+        contact: client.phone || ''
+      },
+      // We send our own reminders, so Razorpay should not email the client as well
+      notify: { sms: false, email: false },
+      reminder_enable: false,
+      callback_url: `${process.env.FRONTEND_URL || 'http://localhost:5173'}/payment-success`
+    });
+
+    if (!result.success) {
+      console.error(`⚠️  Could not create payment link for invoice ${invoice.invoiceNumber}:`, result.error);
+      return null;
+    }
+
+    await Invoice.updateOne({ _id: invoice._id }, {
+      $set: {
+        razorpayData: {
+          ...(existing || {}),
+          paymentLinkId: result.paymentLink.id,
+          shortUrl: result.paymentLink.short_url,
+          amount: invoice.balanceAmount,
+          status: 'created',
+          createdAt: new Date()
+        },
+        'razorpay.paymentLinkId': result.paymentLink.id
+      }
+    });
+
+    return result.paymentLink.short_url;
+  }
+
+  /**
+   * Email a reminder for one invoice and record it in `reminders[]`
+   * @param {Object} invoice - Invoice with client and firm populated
+   * @param {Object} options - { step, type, automatic }
+   */
+  async sendReminder(invoice, { step = null, type = 'payment_reminder', automatic = false } = {}) {
+    const client = invoice.client || {};
+    if (!client.email) {
+      return { success: false, error: 'Client has no email address' };
+    }
+
+    if (!OPEN_STATUSES.includes(invoice.status) || invoice.balanceAmount <= 0) {
+      return { success: false, error: 'Invoice has no outstanding balance' };
+    }
+
+    const paymentLink = await this.getPaymentLink(invoice);
+
+    const attachments = [];
+    try {
+      const pdf = await generateInvoicePdf(invoice, { paymentLink });
+      attachments.push({
+        filename: `${invoice.invoiceNumber || 'invoice'}.pdf`,
+        content: pdf,
+        contentType: 'application/pdf'
+      });
+    } catch (error) {
+      console.error(`⚠️  Could not render PDF for invoice ${invoice.invoiceNumber}, sending without it:`, error.message);
+    }
+
+    const daysFromDue = daysBetween(invoice.dueDate, new Date());
+    const result = await emailService.sendInvoiceReminderEmail({
+      clientEmail: client.email,
+      clientName: client.name,
+      firmName: invoice.firm?.name || 'CA Flow Board',
+      invoiceNumber: invoice.invoiceNumber,
+      invoiceDate: invoice.issueDate,
+      dueDate: invoice.dueDate,
+      amountDue: invoice.balanceAmount,
+      daysOverdue: daysFromDue,
+      paymentLink,
+      invoiceId: invoice._id,
+      attachments,
+      firmId: invoice.firm?._id || invoice.firm
+    });
+
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+
+    const reminder = {
+      sentAt: new Date(),
+      type,
+      daysAfterDue: step ?? daysFromDue,
+      sentTo: client.email,
+      automatic
+    };
+    // $push keeps the invoice's totals and numbering hooks out of this write
+    await Invoice.updateOne({ _id: invoice._id }, {
+      $push: {
+        reminders: reminder,
+        emailHistory: { sentTo: client.email, sentAt: reminder.sentAt, subject: `Payment reminder - ${invoice.invoiceNumber}` }
+      }
+    });
+
+    return { success: true, reminder, paymentLink };
+  }
+
+  /**
+   * Send today's scheduled reminders for one firm
+   */
+  async runForFirm(firmId, today = new Date()) {
+    const summary = { firm: firmId, sent: 0, skipped: 0, failed: 0, errors: [] };
+    const { enabled, schedule } = await this.getFirmSchedule(firmId);
+    if (!enabled) return summary;
+
+    // Nothing is due before the earliest step, so only look at invoices inside the window
+    const windowEnd = new Date(startOfDay(today).getTime() - schedule[0] * DAY_MS + DAY_MS - 1);
+    const invoices = await Invoice.find({
+      firm: firmId,
+      type: 'invoice',
+      status: { $in: OPEN_STATUSES },
+      balanceAmount: { $gt: 0 },
+      dueDate: { $lte: windowEnd }
+    })
+      .populate('client', 'name email phone address billingAddress gstNumber')
+      .populate('firm', 'name email address gstNumber bankDetails');
+
+    for (const invoice of invoices) {
+      const due = this.getDueStep(invoice, schedule, today);
+      if (!due) continue;
+
+      try {
+        const result = await this.sendReminder(invoice, {
+          step: due.step,
+          type: due.step > 0 ? 'overdue_reminder' : 'due_reminder',
+          automatic: true
+        });
+        if (result.success) {
+          summary.sent++;
+        } else {
+          summary.skipped++;
+          summary.errors.push({ invoice: invoice.invoiceNumber, error: result.error });
+        }
+      } catch (error) {
+        console.error(`Failed to send reminder for invoice ${invoice.invoiceNumber}:`, error);
+        summary.failed++;
+        summary.errors.push({ invoice: invoice.invoiceNumber, error: error.message });
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Daily job: mark overdue invoices, then send reminders for every firm
+   */
+  async runDailyReminders() {
+    try {
+      await this.markOverdueInvoices();
+
+      const firmIds = await Invoice.distinct('firm', {
+        type: 'invoice',
+        status: { $in: OPEN_STATUSES },
+        balanceAmount: { $gt: 0 }
+      });
+
+      const results = [];
+      for (const firmId of firmIds) {
+        results.push(await this.runForFirm(firmId));
+      }
+
+      const sent = results.reduce((sum, result) => sum + result.sent, 0);
+      this.lastRun = { at: new Date(), firms: results.length, sent };
+      console.log(`📨 Sent ${sent} invoice reminder(s) across ${results.length} firm(s)`);
+      return results;
+    } catch (error) {
+      console.error('Error running invoice reminders:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get status of the reminder job
+   */
+  getStatus() {
+    return {
+      isRunning: this.isRunning,
+      activeJobs: this.scheduledJobs.size,
+      lastRun: this.lastRun
+    };
+  }
+
+  /**
+   * Stop all scheduled jobs
+   */
+  stopAll() {
+    for (const job of this.scheduledJobs.values()) {
+      job.stop();
+    }
+    this.scheduledJobs.clear();
+    this.isRunning = false;
+    console.log('🛑 Invoice reminder schedule stopped');
+  }
+}
+
+// Create singleton instance
+const invoiceReminderService = new InvoiceReminderService();
+
+export default invoiceReminderService;
@@ -0,0 +1,326 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+
+/**
+ * LLM provider adapters. Every provider takes conversations in the Gemini
+ * "contents" shape the AI routes already build:
+ *
+ *   [{ role: 'user' | 'model', parts: [{ text } | { inlineData } | { functionCall } | { functionResponse }] }]
+ *
+ * and function declarations as { name, description, parameters } JSON schemas.
+ *
+ *   generate({ contents, tools }) -> { text, functionCalls: [{ name, args }], usage }
+ *   stream({ contents, tools })   -> async iterable of { text } | { functionCalls } | { usage }
+ *
+ * usage is { promptTokens, completionTokens, totalTokens }.
+ */
+
+const emptyUsage = () => ({ promptTokens: 0, completionTokens: 0, totalTokens: 0 });
+
+class GeminiProvider {
+  constructor({ apiKey, model }) {
+    this.name = 'gemini';
+    this.apiKey = apiKey;
+    this.model = model || 'gemini-2.0-flash';
+    this.client = new GoogleGenerativeAI(apiKey || '');
+  }
+
+  isConfigured() {
+    return !!this.apiKey && this.apiKey !== 'YOUR_GEMINI_API_KEY_HERE';
+  }
+
+  getModel(tools) {
+    return this.client.getGenerativeModel({
+      model: this.model,
+      ...(tools?.length ? { tools: [{ functionDeclarations: tools }] } : {})
+    });
+  }
+
+  mapUsage(metadata) {
+    if (!metadata) return emptyUsage();
+    return {
+      promptTokens: metadata.promptTokenCount || 0,
+      completionTokens: metadata.candidatesTokenCount || 0,
+      totalTokens: metadata.totalTokenCount || 0
+    };
+  }
+
+  mapFunctionCalls(calls) {
+    return (calls || []).map(fc => ({ name: fc.name, args: fc.args || {} }));
+  }
+
+  async generate({ contents, tools }) {
+    const result = await this.getModel(tools).generateContent({ contents });
+    const response = result.response;
+    const functionCalls = this.mapFunctionCalls(response.functionCalls());
+    return {
+      text: functionCalls.length > 0 ? '' : response.text(),
+      functionCalls,
+      usage: this.mapUsage(response.usageMetadata)
+    };
+  }
+
+  async *stream({ contents, tools }) {
+    const result = await this.getModel(tools).generateContentStream({ contents });
+    for await (const chunk of result.stream) {
+      const functionCalls = this.mapFunctionCalls(chunk.functionCalls());
+      if (functionCalls.length > 0) {
+        yield { functionCalls };
+        continue;
+      }
+      const text = chunk.text();
+      if (text) yield { text };
+    }
+    const response = await result.response;
+    yield { usage: this.mapUsage(response.usageMetadata) };
+  }
+}
+
+// Any server speaking the OpenAI chat completions API (OpenAI, Azure, vLLM, Ollama, LM Studio...)
+class OpenAICompatibleProvider {
+  constructor({ apiKey, model, baseUrl }) {
+    this.name = 'openai';
+    this.apiKey = apiKey;
+    this.model = model || 'gpt-4o-mini';
+    this.baseUrl = (baseUrl || 'https://api.openai.com/v1').replace(/\/+$/, '');
+  }
+
+  // Self-hosted servers usually need no key, only a URL and model
+  isConfigured() {
+    return !!this.baseUrl && !!this.model;
+  }
+
+  // Gemini contents -> chat completion messages; function calls get ids so the
+  // following function responses can be matched to them as tool messages
+  toMessages(contents) {
+    const messages = [];
+    let pendingCallIds = [];
+
+    contents.forEach((content, index) => {
+      const parts = content.parts || [];
+      const text = parts.filter(part => part.text).map(part => part.text).join('\n');
+
+      if (content.role === 'model') {
+        const calls = parts.filter(part => part.functionCall);
+        pendingCallIds = calls.map((_, i) => `call_${index}_${i}`);
+        messages.push({
+          role: 'assistant',
+          content: text || null,
+          ...(calls.length > 0 ? {
+            tool_calls: calls.map((part, i) => ({
+              id: pendingCallIds[i],
+              type: 'function',
+              function: { name: part.functionCall.name, arguments: JSON.stringify(part.functionCall.args || {}) }
+            }))
+          } : {})
+        });
+        return;
+      }
+
+      const responses = parts.filter(part => part.functionResponse);
+      if (responses.length > 0) {
+        responses.forEach((part, i) => {
+          messages.push({
+            role: 'tool',
+            tool_call_id: pendingCallIds[i] || `call_${index}_${i}`,
+            content: JSON.stringify(part.functionResponse.response)
+          });
+        });
+        pendingCallIds = [];
+        return;
+      }
+
+      const images = parts.filter(part => part.inlineData);
+      messages.push({
+        role: 'user',
+        content: images.length === 0 ? text : [
+          { type: 'text', text },
+          ...images.map(part => ({
+            type: 'image_url',
+            image_url: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` }
+          }))
+        ]
+      });
+    });
+
+    return messages;
+  }
+
+  toTools(tools) {
+    return tools.map(tool => ({
+      type: 'function',
+      function: { name: tool.name, description: tool.description, parameters: tool.parameters }
+    }));
+  }
+
+  mapUsage(usage) {
+    if (!usage) return emptyUsage();
+    return {
+      promptTokens: usage.prompt_tokens || 0,
+      completionTokens: usage.completion_tokens || 0,
+      totalTokens: usage.total_tokens || 0
+    };
+  }
+
+  parseArgs(raw) {
+    try {
+      return raw ? JSON.parse(raw) : {};
+    } catch {
+      return {};
+    }
+  }
+
+  async request(body) {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {})
+      },
+      body: JSON.stringify({ model: this.model, ...body })
+    });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`LLM request failed (${response.status}): ${detail.substring(0, 200)}`);
+    }
+    return response;
+  }
+
+  async generate({ contents, tools }) {
+    const response = await this.request({
+      messages: this.toMessages(contents),
+      ...(tools?.length ? { tools: this.toTools(tools) } : {})
+    });
+    const data = await response.json();
+    const message = data.choices?.[0]?.message || {};
+    return {
+      text: message.content || '',
+      functionCalls: (message.tool_calls || []).map(call => ({
+        name: call.function.name,
+        args: this.parseArgs(call.function.arguments)
+      })),
+      usage: this.mapUsage(data.usage)
+    };
+  }
+
+  async *stream({ contents, tools }) {
+    const response = await this.request({
+      messages: this.toMessages(contents),
+      ...(tools?.length ? { tools: this.toTools(tools) } : {}),
+      stream: true,
+      stream_options: { include_usage: true }
+    });
+
+    // Tool call names and arguments arrive in fragments keyed by index
+    const calls = [];
+    let usage = emptyUsage();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    for await (const chunk of response.body) {
+      buffer += decoder.decode(chunk, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop();
+
+      for (const line of lines) {
+        const payload = line.replace(/^data:\s*/, '').trim();
+        if (!payload || payload === '[DONE]' || !line.startsWith('data:')) continue;
+
+        const data = JSON.parse(payload);
+        if (data.usage) usage = this.mapUsage(data.usage);
+        const delta = data.choices?.[0]?.delta || {};
+        if (delta.content) yield { text: delta.content };
+        for (const fragment of delta.tool_calls || []) {
+          const call = calls[fragment.index] || (calls[fragment.index] = { name: '', args: '' });
+          call.name += fragment.function?.name || '';
+          call.args += fragment.function?.arguments || '';
+        }
+      }
+    }
+
+    if (calls.length > 0) {
+      yield { functionCalls: calls.filter(Boolean).map(call => ({ name: call.name, args: this.parseArgs(call.args) })) };
+    }
+    yield { usage };
+  }
+}
+
+/**
+ * Deterministic offline provider for development and tests. It echoes the last
+ * prompt, calls a declared function when asked with "call <name> {json args}",
+ * and summarises function results. Token counts are estimated at 4 chars/token.
+ */
+class LocalStubProvider {
+  constructor({ model } = {}) {
+    this.name = 'local';
+    this.model = model || 'local-stub';
+  }
+
+  isConfigured() {
+    return true;
+  }
+
+  countTokens(value) {
+    return Math.ceil(JSON.stringify(value || '').length / 4);
+  }
+
+  respond(contents, tools) {
+    const last = contents[contents.length - 1] || { parts: [] };
+    const results = last.parts.filter(part => part.functionResponse);
+
+    if (results.length > 0) {
+      const lines = results.map(part => `- ${part.functionResponse.name}: ${JSON.stringify(part.functionResponse.response).substring(0, 300)}`);
+      return { text: `Here is what I found:\n${lines.join('\n')}`, functionCalls: [] };
+    }
+
+    const prompt = last.parts.filter(part => part.text).map(part => part.text).join(' ').trim();
+    const match = prompt.match(/\bcall\s+(\w+)\s*(\{.*\})?/is);
+    const tool = match && (tools || []).find(declaration => declaration.name === match[1]);
+    if (tool) {
+      let args = {};
+      try {
+        args = match[2] ? JSON.parse(match[2]) : {};
+      } catch {
+        args = {};
+      }
+      return { text: '', functionCalls: [{ name: tool.name, args }] };
+    }
+
+    return { text: `Local assistant reply to: "${prompt}"`, functionCalls: [] };
+  }
+
+  usageFor(contents, reply) {
+    const promptTokens = this.countTokens(contents);
+    const completionTokens = this.countTokens(reply.text || reply.functionCalls);
+    return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+  }
+
+  async generate({ contents, tools }) {
+    const reply = this.respond(contents, tools);
+    return { ...reply, usage: this.usageFor(contents, reply) };
+  }
+
+  async *stream({ contents, tools }) {
+    const reply = this.respond(contents, tools);
+    if (reply.functionCalls.length > 0) {
+      yield { functionCalls: reply.functionCalls };
+    }
+    for (const word of reply.text.split(/(?<=\s)/)) {
+      if (word) yield { text: word };
+    }
+    yield { usage: this.usageFor(contents, reply) };
+  }
+}
+
+export const PROVIDERS = {
+  gemini: GeminiProvider,
+  openai: OpenAICompatibleProvider,
+  local: LocalStubProvider
+};
+
+export const createProvider = ({ provider, ...options }) => {
+  const Provider = PROVIDERS[provider];
+  if (!Provider) {
+    throw new Error(`Unknown LLM provider "${provider}"`);
+  }
+  return new Provider(options);
+};
@@ -0,0 +1,146 @@
+import Settings from '../models/Settings.js';
+import defaultSettings from '../config/defaultSettings.js';
+import { PROVIDERS, createProvider } from './llmProviders.js';
+
+const createError = (message, statusCode) => {
+  const error = new Error(message);
+  error.statusCode = statusCode;
+  return error;
+};
+
+// Server-wide fallbacks for firms that have not configured their own provider.
+// LLM_PROVIDER=local forces the offline stub for every firm (tests, demos).
+const envConfig = (provider) => {
+  if (provider === 'openai') {
+    return {
+      model: process.env.OPENAI_MODEL,
+      baseUrl: process.env.OPENAI_BASE_URL,
+      apiKey: process.env.OPENAI_API_KEY
+    };
+  }
+  if (provider === 'gemini') {
+    return {
+      model: process.env.GEMINI_MODEL,
+      apiKey: process.env.GEMINI_API_KEY
+    };
+  }
+  return {};
+};
+
+const sameEndpoint = (a, b) =>
+  !!a && !!b && a.trim().replace(/\/+$/, '').toLowerCase() === b.trim().replace(/\/+$/, '').toLowerCase();
+
+class LLMService {
+  constructor() {
+    // Provider instances keyed by their configuration
+    this.providers = new Map();
+  }
+
+  async getConfig(firmId) {
+    if (process.env.LLM_PROVIDER === 'local') {
+      return { provider: 'local' };
+    }
+
+    const settings = firmId ? await Settings.findOne({ firm: firmId }).lean() : null;
+    const firmConfig = { ...defaultSettings.ai, ...(settings?.data?.ai || {}) };
+    const provider = firmConfig.provider || process.env.LLM_PROVIDER || 'gemini';
+    const fallback = envConfig(provider);
+
+    // The server's key only ever goes to the server's own endpoint; a firm that
+    // points at its own URL has to bring its own key
+    const ownEndpoint = !!firmConfig.baseUrl && !sameEndpoint(firmConfig.baseUrl, fallback.baseUrl);
+
+    return {
+      provider,
+      model: firmConfig.model || fallback.model,
+      baseUrl: firmConfig.baseUrl || fallback.baseUrl,
+      apiKey: ownEndpoint ? firmConfig.apiKey : firmConfig.apiKey || fallback.apiKey
+    };
+  }
+
+  async getProvider(firmId) {
+    const config = await this.getConfig(firmId);
+    const key = JSON.stringify(config);
+    if (!this.providers.has(key)) {
+      this.providers.set(key, createProvider(config));
+    }
+    return this.providers.get(key);
+  }
+
+  // Settings as shown to owners; the API key itself never leaves the server
+  async getPublicConfig(firmId) {
+    const settings = await Settings.findOne({ firm: firmId }).lean();
+    const stored = { ...defaultSettings.ai, ...(settings?.data?.ai || {}) };
+    const provider = await this.getProvider(firmId);
+
+    return {
+      provider: stored.provider,
+      model: stored.model,
+      baseUrl: stored.baseUrl,
+      hasApiKey: !!stored.apiKey,
+      active: { provider: provider.name, model: provider.model },
+      configured: provider.isConfigured()
+    };
+  }
+
+  /**
+   * Save a firm's provider settings. An omitted apiKey keeps the stored one;
+   * an empty string clears it.
+   */
+  async updateConfig(firmId, userId, { provider, model, baseUrl, apiKey }) {
+    if (!PROVIDERS[provider]) {
+      throw createError(`Provider must be one of ${Object.keys(PROVIDERS).join(', ')}`, 400);
+    }
+    if (baseUrl && !/^https?:\/\//i.test(baseUrl)) {
+      throw createError('Base URL must start with http:// or https://', 400);
+    }
+
+    let settings = await Settings.findOne({ firm: firmId });
+    if (!settings) {
+      settings = new Settings({ firm: firmId, data: {}, createdBy: userId });
+    }
+
+    const current = { ...defaultSettings.ai, ...(settings.data?.ai || {}) };
+    const nextApiKey = apiKey === undefined ? current.apiKey : apiKey.trim();
+    if (baseUrl?.trim() && !sameEndpoint(baseUrl, envConfig(provider).baseUrl) && !nextApiKey) {
+      throw createError('A custom base URL needs its own API key', 400);
+    }
+    settings.data = {
+      ...(settings.data || {}),
+      ai: {
+        provider,
+        model: model?.trim() || '',
+        baseUrl: baseUrl?.trim() || '',
+        apiKey: nextApiKey
+      }
+    };
+    settings.updatedBy = userId;
+    settings.markModified('data'); // Required for Mixed type fields
+    await settings.save();
+
+    return this.getPublicConfig(firmId);
+  }
+
+  // Send a one-line prompt to check the firm's provider settings work
+  async testProvider(firmId) {
+    const provider = await this.getProvider(firmId);
+    if (!provider.isConfigured()) {
+      throw createError('The AI provider is missing an API key or model', 400);
+    }
+
+    const startTime = Date.now();
+    const result = await provider.generate({
+      contents: [{ role: 'user', parts: [{ text: 'Reply with the single word OK.' }] }]
+    });
+    return {
+      provider: provider.name,
+      model: provider.model,
+      reply: result.text.substring(0, 200),
+      responseTime: Date.now() - startTime
+    };
+  }
+}
+
+const llmService = new LLMService();
+
+export default llmService;
@@ -1,6 +1,17 @@
 import Notification from '../models/Notification.js';
 import User from '../models/User.js';
+import Settings from '../models/Settings.js';
+import defaultSettings from '../config/defaultSettings.js';
 import EmailService from './emailService.js';
+import PushService from './pushService.js';
+
+// task_due_soon -> taskDueSoon, the key used in User.notificationPreferences
+const preferenceKey = (type) => type.replace(/_([a-z])/g, (_, letter) => letter.toUpperCase());
+
+const toMinutes = (time) => {
+  const [hours, minutes] = String(time || '').split(':').map(Number);
+  return Number.isInteger(hours) && Number.isInteger(minutes) ? hours * 60 + minutes : null;
+};
 
 class NotificationService {
   // Create a new notification
@@ -31,7 +42,7 @@ class NotificationService {
       await notification.save();
 
       // Populate recipient data for email sending
-      await notification.populate('recipient', 'email fullName notificationPreferences');
+      await notification.populate('recipient', 'email fullName notificationPreferences firmId');
       await notification.populate('sender', 'fullName email');
 
       // Send email if user preferences allow and sendEmail is true
@@ -39,6 +50,10 @@ class NotificationService {
         await this.sendEmailNotification(notification);
       }
 
+      if (await this.shouldSendPush(notification)) {
+        await this.sendPushNotification(notification);
+      }
+
       // TODO: Send real-time notification via websocket
 
       return notification;
@@ -61,6 +76,66 @@ class NotificationService {
     return preferences.email[typeKey] !== false;
   }
 
+  // Check if a browser push should be sent: the firm allows push, the user has
+  // not turned this type off in-app, and it is not their quiet hours
+  async shouldSendPush(notification) {
+    if (!PushService.isConfigured) return false;
+
+    const user = notification.recipient;
+    if (user.firmId) {
+      const settings = await Settings.findOne({ firm: user.firmId }).select('data.notifications').lean();
+      const firmNotifications = { ...defaultSettings.notifications, ...(settings?.data?.notifications || {}) };
+      if (firmNotifications.push === false) return false;
+    }
+
+    const preferences = user.notificationPreferences || {};
+    if (preferences.inApp?.[preferenceKey(notification.type)] === false) return false;
+
+    // Urgent notifications still go out during quiet hours
+    if (preferences.quietHours?.enabled && notification.priority !== 'urgent') {
+      return !this.isWithinQuietHours(preferences.quietHours);
+    }
+    return true;
+  }
+
+  isWithinQuietHours({ startTime, endTime }, now = new Date()) {
+    const start = toMinutes(startTime);
+    const end = toMinutes(endTime);
+    if (start === null || end === null || start === end) return false;
+
+    const [hours, minutes] = now
+      .toLocaleTimeString('en-GB', { timeZone: defaultSettings.company.timeZone, hour: '2-digit', minute: '2-digit', hour12: false })
+      .split(':')
+      .map(Number);
+    const current = (hours % 24) * 60 + minutes;
+
+    // Windows like 22:00-08:00 wrap past midnight
+    return start < end
+      ? current >= start && current < end
+      : current >= start || current < end;
+  }
+
+  // Send browser push notification to every device the recipient subscribed
+  async sendPushNotification(notification) {
+    try {
+      return await PushService.sendToUser(notification.recipient._id, {
+        title: notification.title,
+        body: notification.message,
+        tag: String(notification._id),
+        priority: notification.priority,
+        data: {
+          notificationId: notification._id,
+          type: notification.type,
+          entityType: notification.relatedEntity?.entityType,
+          entityId: notification.relatedEntity?.entityId
+        }
+      });
+    } catch (error) {
+      console.error('Error sending push notification:', error);
+      return { sent: 0, removed: 0 };
+    }
+  }
+
   // Send email notification
   async sendEmailNotification(notification) {
     try {
@@ -77,7 +152,8 @@ class NotificationService {
             notification.title,
             notification.message,
             notification.metadata.dueDate,
-            sender ? sender.fullName : 'System'
+            sender ? sender.fullName : 'System',
+            user.firmId
           );
           break;
           
@@ -87,7 +163,8 @@ class NotificationService {
             user.email,
             user.fullName,
             notification.title,
-            notification.metadata.dueDate
+            notification.metadata.dueDate,
+            user.firmId
           );
           break;
           
@@ -96,33 +173,20 @@ class NotificationService {
             user.email,
             user.fullName,
             notification.title,
-            sender ? sender.fullName : 'System'
+            sender ? sender.fullName : 'System',
+            user.firmId
           );
           break;
           
         default:
           // Generic email for other notification types
-          emailResult = await EmailService.sendEmail({
-            to: user.email,
-            subject: notification.title,
-            html: `
-              <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-                <div style="background: #667eea; padding: 20px; text-align: center;">
-                  <h1 style="color: white; margin: 0;">CA Flow Board</h1>
-                </div>
-                <div style="padding: 30px; background: #f8f9fa;">
-                  <h2>Hello ${user.fullName},</h2>
-                  <p>${notification.message}</p>
-                  <div style="text-align: center; margin: 30px 0;">
-                    <a href="${process.env.FRONTEND_URL || 'http://localhost:5173'}" 
-                       style="background: #667eea; color: white; padding: 12px 30px; text-decoration: none; border-radius: 5px; display: inline-block;">
-                      View Dashboard
-                    </a>
-                  </div>
-                </div>
-              </div>
-            `
-          });
+          emailResult = await EmailService.sendGeneralNotificationEmail(
+            user.email,
+            user.fullName,
+            notification.title,
+            notification.message,
+            user.firmId
+          );
       }
 
       if (emailResult.success) {
@@ -323,7 +387,7 @@ class NotificationService {
       const notification = await Notification.findOne({
         _id: notificationId,
         recipient: userId
-      }).populate('recipient', 'email fullName');
+      }).populate('recipient', 'email fullName firmId');
 
       if (!notification) {
         throw new Error('Notification not found');
@@ -0,0 +1,293 @@
+import Role from '../models/Role.js';
+import User from '../models/User.js';
+import auditLogger from '../utils/auditLogger.js';
+import {
+  PERMISSIONS,
+  PERMISSION_KEYS,
+  EDITABLE_ROLES,
+  DEFAULT_ROLE_PERMISSIONS
+} from '../config/permissions.js';
+
+// Roles checked on every request are cached per firm for this long
+const CACHE_TTL_MS = 60 * 1000;
+
+// Roles that always hold every permission, so a firm cannot lock itself out
+const UNRESTRICTED_ROLES = ['owner', 'superadmin'];
+
+const RESERVED_KEYS = ['owner', 'superadmin', 'admin', 'employee', 'client'];
+
+const createError = (message, statusCode) => {
+  const error = new Error(message);
+  error.statusCode = statusCode;
+  return error;
+};
+
+const toKey = (name) => name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+const validatePermissions = (permissions) => {
+  if (!Array.isArray(permissions)) {
+    throw createError('Permissions must be a list', 400);
+  }
+  const unknown = permissions.filter(key => !PERMISSION_KEYS.includes(key));
+  if (unknown.length > 0) {
+    throw createError(`Unknown permissions: ${unknown.join(', ')}`, 400);
+  }
+  return [...new Set(permissions)];
+};
+
+class PermissionService {
+  constructor() {
+    // firmId -> { byKey, byId, loadedAt }
+    this.cache = new Map();
+  }
+
+  async getFirmRoles(firmId) {
+    const cacheKey = String(firmId);
+    const cached = this.cache.get(cacheKey);
+    if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) {
+      return cached;
+    }
+
+    const roles = await Role.find({ firm: firmId }).lean();
+    const entry = {
+      byKey: new Map(roles.map(role => [role.key, role])),
+      byId: new Map(roles.map(role => [String(role._id), role])),
+      loadedAt: Date.now()
+    };
+    this.cache.set(cacheKey, entry);
+    return entry;
+  }
+
+  invalidate(firmId) {
+    this.cache.delete(String(firmId));
+  }
+
+  /**
+   * Effective permissions for a user: a custom role's list if one is assigned,
+   * otherwise the firm's settings for the built-in role (or its defaults).
+   */
+  async getUserPermissions(user) {
+    if (UNRESTRICTED_ROLES.includes(user.role)) {
+      return new Set(PERMISSION_KEYS);
+    }
+
+    const firmId = user.firmId?._id || user.firmId;
+    if (!firmId) return new Set();
+
+    const roles = await this.getFirmRoles(firmId);
+    const customRole = user.customRole && roles.byId.get(String(user.customRole._id || user.customRole));
+    if (customRole) {
+      return new Set(customRole.permissions);
+    }
+
+    const systemRole = roles.byKey.get(user.role);
+    return new Set(systemRole?.isSystem ? systemRole.permissions : DEFAULT_ROLE_PERMISSIONS[user.role] || []);
+  }
+
+  // Permission catalogue plus every role the firm can see, for the settings screen
+  async getMatrix(firmId) {
+    const roles = await this.getFirmRoles(firmId);
+    const staff = await User.find({ firmId, role: { $in: EDITABLE_ROLES } })
+      .select('fullName email role customRole isActive')
+      .sort({ fullName: 1 })
+      .lean();
+
+    // Members whose custom role was deleted elsewhere count under their base role
+    const roleKeyOf = (member) => roles.byId.get(String(member.customRole))?.key || member.role;
+    const countFor = (key) => staff.filter(member => roleKeyOf(member) === key).length;
+
+    const builtIn = EDITABLE_ROLES.map(key => {
+      const stored = roles.byKey.get(key);
+      return {
+        key,
+        name: stored?.name || key.charAt(0).toUpperCase() + key.slice(1),
+        description: stored?.description || '',
+        baseRole: key,
+        isSystem: true,
+        permissions: stored ? stored.permissions : DEFAULT_ROLE_PERMISSIONS[key],
+        userCount: countFor(key)
+      };
+    });
+
+    const custom = [...roles.byKey.values()]
+      .filter(role => !role.isSystem)
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(role => ({
+        key: role.key,
+        name: role.name,
+        description: role.description || '',
+        baseRole: role.baseRole,
+        isSystem: false,
+        permissions: role.permissions,
+        userCount: countFor(role.key)
+      }));
+
+    return {
+      permissions: PERMISSIONS,
+      roles: [
+        {
+          key: 'owner',
+          name: 'Owner',
+          description: 'Always has every permission',
+          baseRole: 'owner',
+          isSystem: true,
+          locked: true,
+          permissions: PERMISSION_KEYS,
+          userCount: null
+        },
+        ...builtIn,
+        ...custom
+      ],
+      members: staff.map(member => ({
+        _id: member._id,
+        fullName: member.fullName,
+        email: member.email,
+        isActive: member.isActive,
+        role: roleKeyOf(member)
+      }))
+    };
+  }
+
+  async createRole(firmId, { name, description, baseRole, permissions }, actor, meta = {}) {
+    if (!name?.trim()) {
+      throw createError('Role name is required', 400);
+    }
+    if (!EDITABLE_ROLES.includes(baseRole)) {
+      throw createError(`Base role must be one of ${EDITABLE_ROLES.join(', ')}`, 400);
+    }
+
+    const key = toKey(name);
+    if (!key || RESERVED_KEYS.includes(key)) {
+      throw createError('Choose a different role name', 400);
+    }
+    if (await Role.exists({ firm: firmId, key })) {
+      throw createError('A role with this name already exists', 409);
+    }
+
+    const role = await Role.create({
+      firm: firmId,
+      key,
+      name: name.trim(),
+      description,
+      baseRole,
+      permissions: validatePermissions(permissions || DEFAULT_ROLE_PERMISSIONS[baseRole]),
+      createdBy: actor._id,
+      updatedBy: actor._id
+    });
+    this.invalidate(firmId);
+
+    await this.logChange(actor, firmId, `Created role "${role.name}"`, { role: key, permissions: role.permissions }, meta);
+    return role;
+  }
+
+  // Update a built-in role's permissions or a custom role's name and permissions
+  async updateRole(firmId, key, { name, description, permissions }, actor, meta = {}) {
+    const isBuiltIn = EDITABLE_ROLES.includes(key);
+    let role = await Role.findOne({ firm: firmId, key });
+
+    if (!role && !isBuiltIn) {
+      throw createError('Role not found', 404);
+    }
+    if (!role) {
+      role = new Role({
+        firm: firmId,
+        key,
+        name: key.charAt(0).toUpperCase() + key.slice(1),
+        baseRole: key,
+        permissions: DEFAULT_ROLE_PERMISSIONS[key],
+        isSystem: true,
+        createdBy: actor._id
+      });
+    }
+
+    if (permissions !== undefined) {
+      role.permissions = validatePermissions(permissions);
+    }
+    if (!role.isSystem && name?.trim()) {
+      role.name = name.trim();
+    }
+    if (description !== undefined) {
+      role.description = description;
+    }
+    role.updatedBy = actor._id;
+    await role.save();
+    this.invalidate(firmId);
+
+    await this.logChange(actor, firmId, `Updated permissions for role "${role.name}"`, { role: key, permissions: role.permissions }, meta);
+    return role;
+  }
+
+  // Members of a deleted custom role fall back to its base role's permissions
+  async deleteRole(firmId, key, actor, meta = {}) {
+    const role = await Role.findOne({ firm: firmId, key, isSystem: false });
+    if (!role) {
+      throw createError('Role not found', 404);
+    }
+
+    const { modifiedCount } = await User.updateMany(
+      { firmId, customRole: role._id },
+      { $set: { customRole: null } }
+    );
+    await role.deleteOne();
+    this.invalidate(firmId);
+
+    await this.logChange(actor, firmId, `Deleted role "${role.name}"`, { role: key, usersReset: modifiedCount }, meta);
+    return { usersReset: modifiedCount };
+  }
+
+  // Move a staff member to a built-in role or a custom role
+  async assignRole(firmId, userId, key, actor, meta = {}) {
+    const user = await User.findOne({ _id: userId, firmId });
+    if (!user) {
+      throw createError('User not found', 404);
+    }
+    if (!EDITABLE_ROLES.includes(user.role)) {
+      throw createError('Only admins and employees can be given a role', 400);
+    }
+
+    const previous = user.customRole ? String(user.customRole) : user.role;
+    if (EDITABLE_ROLES.includes(key)) {
+      user.role = key;
+      user.customRole = null;
+    } else {
+      const role = await Role.findOne({ firm: firmId, key, isSystem: false });
+      if (!role) {
+        throw createError('Role not found', 404);
+      }
+      user.role = role.baseRole;
+      user.customRole = role._id;
+    }
+    await user.save({ validateBeforeSave: false });
+
+    await auditLogger.log({
+      userId: actor._id,
+      firmId,
+      action: 'user_role_changed',
+      category: 'user',
+      severity: 'high',
+      description: `Changed role of ${user.fullName || user.email} to ${key}`,
+      details: { targetUserId: user._id, previous, role: key },
+      ipAddress: meta.ipAddress,
+      userAgent: meta.userAgent
+    });
+    return user;
+  }
+
+  async logChange(actor, firmId, description, details, { ipAddress, userAgent } = {}) {
+    await auditLogger.log({
+      userId: actor._id,
+      firmId,
+      action: 'permissions_changed',
+      category: 'security',
+      severity: 'high',
+      description,
+      details,
+      ipAddress,
+      userAgent
+    });
+  }
+}
+
+const permissionService = new PermissionService();
+
+export default permissionService;
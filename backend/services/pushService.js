@@ -0,0 +1,168 @@
+import webpush from 'web-push';
+import dotenv from 'dotenv';
+import mongoose from 'mongoose';
+import PushSubscription from '../models/PushSubscription.js';
+
+dotenv.config();
+
+// Subscriptions that keep failing for reasons other than expiry are dropped after this many attempts
+const MAX_FAILURES = 5;
+
+// Push services the major browsers subscribe with (Chrome, Firefox, Safari, Edge).
+// The server posts to the endpoint, so anything else is refused.
+const PUSH_SERVICE_HOSTS = [
+  'fcm.googleapis.com',
+  'android.googleapis.com',
+  'push.services.mozilla.com',
+  'push.apple.com',
+  'notify.windows.com'
+];
+
+const isPushServiceEndpoint = (endpoint) => {
+  let url;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    return false;
+  }
+  if (url.protocol !== 'https:' || url.port || url.username || url.password) {
+    return false;
+  }
+  const host = url.hostname.toLowerCase();
+  return PUSH_SERVICE_HOSTS.some(known => host === known || host.endsWith(`.${known}`));
+};
+
+const createError = (message, statusCode) => {
+  const error = new Error(message);
+  error.statusCode = statusCode;
+  return error;
+};
+
+class PushService {
+  constructor() {
+    this.isConfigured = false;
+    this.setupVapid();
+  }
+
+  setupVapid() {
+    if (!process.env.VAPID_PUBLIC_KEY || !process.env.VAPID_PRIVATE_KEY) {
+      console.warn('⚠️  Push service not configured - VAPID keys missing');
+      console.warn('💡 Run "npx web-push generate-vapid-keys" and add VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY to .env');
+      return;
+    }
+
+    try {
+      webpush.setVapidDetails(
+        process.env.VAPID_SUBJECT || `mailto:${process.env.SMTP_USER || 'admin@localhost'}`,
+        process.env.VAPID_PUBLIC_KEY,
+        process.env.VAPID_PRIVATE_KEY
+      );
+      this.isConfigured = true;
+    } catch (error) {
+      console.error('❌ Invalid VAPID configuration:', error.message);
+    }
+  }
+
+  getPublicKey() {
+    return this.isConfigured ? process.env.VAPID_PUBLIC_KEY : null;
+  }
+
+  /**
+   * Store the browser subscription for this user's device. A browser only has
+   * one endpoint, so signing in as someone else on it moves the subscription.
+   */
+  async subscribe(user, { subscription, deviceName } = {}, userAgent = '') {
+    if (!this.isConfigured) {
+      throw createError('Push notifications are not configured on this server', 503);
+    }
+    if (!subscription?.endpoint || !subscription?.keys?.p256dh || !subscription?.keys?.auth) {
+      throw createError('A valid push subscription is required', 400);
+    }
+    if (!isPushServiceEndpoint(subscription.endpoint)) {
+      throw createError('The subscription endpoint is not a known browser push service', 400);
+    }
+
+    return PushSubscription.findOneAndUpdate(
+      { endpoint: subscription.endpoint },
+      {
+        $set: {
+          user: user._id,
+          firm: user.firmId?._id || user.firmId,
+          keys: { p256dh: subscription.keys.p256dh, auth: subscription.keys.auth },
+          deviceName: deviceName || undefined,
+          userAgent,
+          failureCount: 0
+        }
+      },
+      { new: true, upsert: true, runValidators: true, setDefaultsOnInsert: true }
+    );
+  }
+
+  async listDevices(userId) {
+    return PushSubscription.find({ user: userId })
+      .select('endpoint deviceName userAgent lastUsedAt createdAt')
+      .sort({ createdAt: -1 })
+      .lean();
+  }
+
+  async revoke(userId, subscriptionId) {
+    if (!mongoose.isValidObjectId(subscriptionId)) {
+      throw createError('Invalid device id', 400);
+    }
+    const removed = await PushSubscription.findOneAndDelete({ _id: subscriptionId, user: userId });
+    if (!removed) {
+      throw createError('Device not found', 404);
+    }
+    return removed;
+  }
+
+  /**
+   * Deliver a payload to every device the user has subscribed.
+   * Expired subscriptions (404/410 from the push service) are removed.
+   */
+  async sendToUser(userId, payload) {
+    if (!this.isConfigured) return { sent: 0, removed: 0 };
+
+    const subscriptions = await PushSubscription.find({ user: userId });
+    const body = JSON.stringify(payload);
+    let sent = 0;
+    let removed = 0;
+
+    for (const subscription of subscriptions) {
+      // Stored before endpoints were checked; never post to it
+      if (!isPushServiceEndpoint(subscription.endpoint)) {
+        await PushSubscription.deleteOne({ _id: subscription._id });
+        removed++;
+        continue;
+      }
+      try {
+        await webpush.sendNotification(
+          { endpoint: subscription.endpoint, keys: subscription.keys },
+          body,
+          { TTL: 24 * 60 * 60 }
+        );
+        await PushSubscription.updateOne(
+          { _id: subscription._id },
+          { $set: { lastUsedAt: new Date(), failureCount: 0 } }
+        );
+        sent++;
+      } catch (error) {
+        const expired = error.statusCode === 404 || error.statusCode === 410;
+        if (expired || subscription.failureCount + 1 >= MAX_FAILURES) {
+          await PushSubscription.deleteOne({ _id: subscription._id });
+          removed++;
+        } else {
+          await PushSubscription.updateOne({ _id: subscription._id }, { $inc: { failureCount: 1 } });
+          console.error(`Push delivery failed for subscription ${subscription._id}:`, error.message);
+        }
+      }
+    }
+
+    return { sent, removed };
+  }
+}
+
+// Create singleton instance
+const pushService = new PushService();
+
+export default pushService;
@@ -1,5 +1,7 @@
 import cron from 'node-cron';
 import Task from '../models/Task.js';
+import dueDateService from './dueDateService.js';
+import { resetChecklist } from '../utils/taskChecklist.js';
 
 class RecurringTaskService {
   constructor() {
@@ -45,7 +47,10 @@ class RecurringTaskService {
       // Find all recurring tasks
       const recurringTasks = await Task.find({
         isRecurring: true,
-        recurrence_interval: { $exists: true, $ne: null }
+        $or: [
+          { recurrence_interval: { $exists: true, $ne: null } },
+          { 'statutoryReturn.returnType': { $exists: true, $ne: null } }
+        ]
       }).populate('client').populate('assignedTo').populate('collaborators');
 
       console.log(`📊 Found ${recurringTasks.length} recurring tasks to check`);
@@ -55,8 +60,9 @@ class RecurringTaskService {
 
       for (const task of recurringTasks) {
         try {
-          // Calculate next due date based on recurrence_interval
-          const nextDueDate = this.calculateNextDueDate(task);
+          // Statutory tasks follow the due-date engine, others their recurrence_interval
+          const statutoryDue = await this.getNextStatutoryDue(task, today);
+          const nextDueDate = statutoryDue ? statutoryDue.dueDate : this.calculateNextDueDate(task);
           
           if (!nextDueDate) {
             continue;
@@ -69,18 +75,24 @@ class RecurringTaskService {
             continue;
           }
 
-          // Check if task for this date already exists
-          const existingTask = await Task.findOne({
-            title: task.title,
-            client: task.client?._id,
-            category: task.category,
-            sub_category: task.sub_category,
-            dueDate: {
-              $gte: nextDueDate,
-              $lt: new Date(nextDueDate.getTime() + 24 * 60 * 60 * 1000)
-            },
-            firm: task.firm
-          });
+          // Check if task for this date (or statutory period) already exists
+          const existingTask = statutoryDue
+            ? await Task.findOne({
+              parentTask: task._id,
+              'statutoryReturn.period': statutoryDue.period,
+              firm: task.firm
+            })
+            : await Task.findOne({
+              title: task.title,
+              client: task.client?._id,
+              category: task.category,
+              sub_category: task.sub_category,
+              dueDate: {
+                $gte: nextDueDate,
+                $lt: new Date(nextDueDate.getTime() + 24 * 60 * 60 * 1000)
+              },
+              firm: task.firm
+            });
 
           if (existingTask) {
             console.log(`⏭️ Task already exists: ${task.title} for ${nextDueDate.toDateString()}`);
@@ -109,7 +121,13 @@ class RecurringTaskService {
             estimatedHours: task.estimatedHours,
             hourlyRate: task.hourlyRate,
             fixedPrice: task.fixedPrice,
-            subtasks: task.subtasks || []
+            subtasks: task.subtasks || [],
+            checklist: resetChecklist(task.checklist, { previousDueDate: task.dueDate, dueDate: nextDueDate }),
+            statutoryReturn: statutoryDue ? {
+              returnType: statutoryDue.returnType,
+              period: statutoryDue.period,
+              assesseeType: task.statutoryReturn.assesseeType
+            } : undefined
           });
 
           createdTasks.push(newTask);
@@ -129,6 +147,25 @@ class RecurringTaskService {
     }
   }
 
+  /**
+   * Next statutory filing period for a task linked to a return type, or null
+   * Honours due-date extensions recorded by the firm
+   */
+  async getNextStatutoryDue(task, today) {
+    if (!task.statutoryReturn?.returnType) {
+      return null;
+    }
+
+    const options = { assesseeType: task.statutoryReturn.assesseeType };
+    const next = await dueDateService.getNextDueDate(task.firm, task.statutoryReturn.returnType, today, options);
+
+    // The recurring task is itself the work for its own period; generate the one after it
+    if (next && next.period === task.statutoryReturn.period) {
+      return dueDateService.resolveDueDate(task.firm, next.returnType, dueDateService.shiftPeriod(next.returnType, next.period, 1), options);
+    }
+    return next;
+  }
+
   /**
    * Calculate next due date for a recurring task
    */
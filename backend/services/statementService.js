@@ -0,0 +1,237 @@
+import Client from '../models/Client.js';
+import Invoice from '../models/Invoice.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Drafts, cancelled invoices and quotes never hit the client's account
+const POSTED_STATUSES = ['sent', 'paid', 'partially_paid', 'overdue'];
+
+const AGEING_BUCKETS = [
+  { key: 'days0to30', label: '0-30 days', max: 30 },
+  { key: 'days31to60', label: '31-60 days', max: 60 },
+  { key: 'days61to90', label: '61-90 days', max: 90 },
+  { key: 'over90', label: '90+ days', max: Infinity }
+];
+
+const round = (value) => Math.round(value * 100) / 100;
+
+const startOfDay = (date) => {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+};
+
+const endOfDay = (date) => {
+  const day = new Date(date);
+  day.setHours(23, 59, 59, 999);
+  return day;
+};
+
+const createError = (message, statusCode) => {
+  const error = new Error(message);
+  error.statusCode = statusCode;
+  return error;
+};
+
+class StatementService {
+  /**
+   * Resolve the statement period. Defaults to the current financial year
+   * (1 April - today) when no range is given.
+   */
+  getPeriod(from, to) {
+    const today = new Date();
+    const fyStartYear = today.getMonth() >= 3 ? today.getFullYear() : today.getFullYear() - 1;
+    const periodFrom = startOfDay(from ? new Date(from) : new Date(fyStartYear, 3, 1));
+    const periodTo = endOfDay(to ? new Date(to) : today);
+
+    if (isNaN(periodFrom) || isNaN(periodTo)) {
+      throw createError('Invalid statement period', 400);
+    }
+    if (periodFrom > periodTo) {
+      throw createError('Statement start date must be before the end date', 400);
+    }
+    return { from: periodFrom, to: periodTo };
+  }
+
+  /**
+   * Flatten a client's invoices and credit notes into ledger transactions (debits for
+   * invoices and refunds, credits for payments and credit notes), oldest first.
+   */
+  buildTransactions(invoices, creditNotes = []) {
+    const transactions = [];
+
+    for (const invoice of invoices) {
+      transactions.push({
+        date: invoice.issueDate,
+        type: 'invoice',
+        reference: invoice.invoiceNumber,
+        description: `Invoice ${invoice.invoiceNumber}${invoice.items?.[0]?.description ? ` - ${invoice.items[0].description}` : ''}`,
+        debit: round(invoice.totalAmount || 0),
+        credit: 0,
+        invoice: invoice._id,
+        dueDate: invoice.dueDate
+      });
+
+      let recorded = 0;
+      for (const payment of invoice.payments || []) {
+        recorded += payment.amount;
+        transactions.push({
+          date: payment.date,
+          type: 'payment',
+          reference: payment.reference || invoice.invoiceNumber,
+          description: `Payment received (${(payment.method || 'online').replace('_', ' ')}) against ${invoice.invoiceNumber}`,
+          debit: 0,
+          credit: round(payment.amount),
+          invoice: invoice._id
+        });
+      }
+
+      // Invoices marked paid without a payment entry still need to be credited
+      const unrecorded = round((invoice.paidAmount || 0) - recorded);
+      if (unrecorded > 0) {
+        transactions.push({
+          date: invoice.paidDate || invoice.updatedAt || invoice.issueDate,
+          type: 'payment',
+          reference: invoice.invoiceNumber,
+          description: `Payment received against ${invoice.invoiceNumber}`,
+          debit: 0,
+          credit: unrecorded,
+          invoice: invoice._id
+        });
+      }
+    }
+
+    for (const note of creditNotes) {
+      const original = note.creditNote?.originalInvoice;
+      transactions.push({
+        date: note.issueDate,
+        type: 'credit_note',
+        reference: note.invoiceNumber,
+        description: `Credit note ${note.invoiceNumber}${original?.invoiceNumber ? ` against ${original.invoiceNumber}` : ''}${note.creditNote?.reason ? ` - ${note.creditNote.reason}` : ''}`,
+        debit: 0,
+        credit: round(note.totalAmount || 0),
+        invoice: original?._id || original
+      });
+
+      // Money paid back to the client puts the credit back on their account
+      const refund = note.creditNote?.refund;
+      if (refund?.amount > 0 && refund.status === 'processed') {
+        transactions.push({
+          date: refund.processedAt || note.issueDate,
+          type: 'refund',
+          reference: refund.razorpayRefundId || refund.reference || note.invoiceNumber,
+          description: `Refund (${refund.method.replace('_', ' ')}) against credit note ${note.invoiceNumber}`,
+          debit: round(refund.amount),
+          credit: 0,
+          invoice: original?._id || original
+        });
+      }
+    }
+
+    const order = { invoice: 0, payment: 1, credit_note: 2, refund: 3 };
+    return transactions.sort((a, b) =>
+      new Date(a.date) - new Date(b.date) || (order[a.type] ?? 4) - (order[b.type] ?? 4)
+    );
+  }
+
+  /**
+   * Age each invoice's balance as at the statement date by invoice date
+   */
+  buildAgeing(invoices, transactions, asOf) {
+    const ageing = Object.fromEntries(AGEING_BUCKETS.map(bucket => [bucket.key, 0]));
+
+    for (const invoice of invoices) {
+      if (new Date(invoice.issueDate) > asOf) continue;
+
+      const credited = transactions
+        .filter(t => t.type !== 'invoice' && String(t.invoice) === String(invoice._id) && new Date(t.date) <= asOf)
+        .reduce((sum, t) => sum + t.credit - t.debit, 0);
+      const outstanding = round((invoice.totalAmount || 0) - credited);
+      if (outstanding <= 0) continue;
+
+      const age = Math.floor((startOfDay(asOf) - startOfDay(invoice.issueDate)) / DAY_MS);
+      const bucket = AGEING_BUCKETS.find(b => age <= b.max);
+      ageing[bucket.key] = round(ageing[bucket.key] + outstanding);
+    }
+
+    ageing.total = round(AGEING_BUCKETS.reduce((sum, bucket) => sum + ageing[bucket.key], 0));
+    return ageing;
+  }
+
+  /**
+   * Build a statement of account for a client over a period
+   * @returns {Object} client, period, opening/closing balance, entries with running balance and ageing
+   */
+  async buildStatement(firmId, clientId, { from, to } = {}) {
+    const client = await Client.findOne({ _id: clientId, firmId, isDeleted: { $ne: true } })
+      .select('name clientCode email phone address billingAddress gstNumber panNumber paymentTerms creditLimit')
+      .lean();
+    if (!client) {
+      throw createError('Client not found', 404);
+    }
+
+    const period = this.getPeriod(from, to);
+
+    const invoices = await Invoice.find({
+      firm: firmId,
+      client: clientId,
+      type: 'invoice',
+      // Invoices cancelled by a credit note stay on the ledger alongside the reversal
+      $or: [
+        { status: { $in: POSTED_STATUSES } },
+        { status: 'cancelled', creditedAmount: { $gt: 0 } }
+      ],
+      issueDate: { $lte: period.to }
+    })
+      .select('invoiceNumber issueDate dueDate paidDate updatedAt totalAmount paidAmount payments items.description status')
+      .lean();
+
+    const creditNotes = await Invoice.find({
+      firm: firmId,
+      client: clientId,
+      type: 'credit_note',
+      issueDate: { $lte: period.to }
+    })
+      .select('invoiceNumber issueDate totalAmount creditNote')
+      .populate('creditNote.originalInvoice', 'invoiceNumber')
+      .lean();
+
+    const transactions = this.buildTransactions(invoices, creditNotes)
+      .filter(t => new Date(t.date) <= period.to);
+
+    const before = transactions.filter(t => new Date(t.date) < period.from);
+    const openingBalance = round(before.reduce((sum, t) => sum + t.debit - t.credit, 0));
+
+    let balance = openingBalance;
+    const entries = transactions
+      .filter(t => new Date(t.date) >= period.from)
+      .map(t => {
+        balance = round(balance + t.debit - t.credit);
+        return { ...t, balance };
+      });
+
+    const totals = {
+      debit: round(entries.reduce((sum, e) => sum + e.debit, 0)),
+      credit: round(entries.reduce((sum, e) => sum + e.credit, 0))
+    };
+    const ageing = this.buildAgeing(invoices, transactions, period.to);
+
+    return {
+      client,
+      period,
+      openingBalance,
+      entries,
+      totals,
+      closingBalance: balance,
+      ageing,
+      ageingBuckets: AGEING_BUCKETS.map(({ key, label }) => ({ key, label })),
+      creditLimit: client.creditLimit || 0,
+      overCreditLimit: !!client.creditLimit && balance > client.creditLimit,
+      generatedAt: new Date()
+    };
+  }
+}
+
+const statementService = new StatementService();
+
+export default statementService;
@@ -0,0 +1,242 @@
+import mongoose from 'mongoose';
+import Task from '../models/Task.js';
+import NotificationService from './notificationService.js';
+
+const createError = (message, statusCode) => {
+  const error = new Error(message);
+  error.statusCode = statusCode;
+  return error;
+};
+
+const sameId = (a, b) => !!a && !!b && String(a._id || a) === String(b._id || b);
+
+const EDITABLE_FIELDS = ['title', 'description', 'order', 'assignee', 'reviewer', 'dueDate', 'estimatedHours', 'mandatory', 'requiresEvidence', 'requiresSignOff'];
+
+class TaskChecklistService {
+  async loadTask(firmId, taskId) {
+    if (!mongoose.Types.ObjectId.isValid(taskId)) {
+      throw createError('Task not found', 404);
+    }
+    const task = await Task.findOne({ _id: taskId, firm: firmId });
+    if (!task) {
+      throw createError('Task not found', 404);
+    }
+    return task;
+  }
+
+  async populate(task) {
+    await task.populate([
+      { path: 'checklist.assignee', select: 'fullName email' },
+      { path: 'checklist.reviewer', select: 'fullName email' },
+      { path: 'checklist.completedBy', select: 'fullName email' },
+      { path: 'checklist.signedOffBy', select: 'fullName email' }
+    ]);
+    return {
+      checklist: [...task.checklist].sort((a, b) => (a.order || 0) - (b.order || 0)),
+      progressPercentage: task.progressPercentage,
+      documents: (task.documents || []).map(doc => ({ _id: doc._id, name: doc.name, url: doc.url }))
+    };
+  }
+
+  getStep(task, stepId) {
+    const step = task.checklist.id(stepId);
+    if (!step) {
+      throw createError('Checklist step not found', 404);
+    }
+    return step;
+  }
+
+  isOnTask(task, user) {
+    return sameId(task.assignedTo, user) ||
+      sameId(task.assignedBy, user) ||
+      (task.collaborators || []).some(collaborator => sameId(collaborator, user));
+  }
+
+  // Adding, editing and removing steps is for the task's creator and managers
+  assertCanEdit(task, user, canManageAll) {
+    if (!canManageAll && !sameId(task.assignedBy, user)) {
+      throw createError('Only the task creator or a manager can change the checklist', 403);
+    }
+  }
+
+  // Makers: the step's assignee, or anyone on the task when the step is unassigned
+  assertCanComplete(task, step, user, canManageAll) {
+    if (canManageAll) return;
+    const allowed = step.assignee ? sameId(step.assignee, user) : this.isOnTask(task, user);
+    if (!allowed) {
+      throw createError('This step is assigned to someone else', 403);
+    }
+  }
+
+  // Checkers: the step's reviewer, or the task creator when no reviewer is set, never the maker
+  assertCanSignOff(task, step, user, canManageAll) {
+    if (sameId(step.completedBy, user)) {
+      throw createError('A step cannot be signed off by the person who completed it', 403);
+    }
+    if (canManageAll) return;
+    const allowed = step.reviewer ? sameId(step.reviewer, user) : sameId(task.assignedBy, user);
+    if (!allowed) {
+      throw createError('You are not the reviewer for this step', 403);
+    }
+  }
+
+  assertUnlocked(task) {
+    if (task.status === 'completed') {
+      throw createError('Reopen the task before changing its checklist', 400);
+    }
+  }
+
+  pickStepFields(data) {
+    const fields = {};
+    for (const key of EDITABLE_FIELDS) {
+      if (data[key] !== undefined) {
+        fields[key] = data[key] === '' ? null : data[key];
+      }
+    }
+    return fields;
+  }
+
+  async addStep(task, data, user, canManageAll) {
+    this.assertCanEdit(task, user, canManageAll);
+    this.assertUnlocked(task);
+    if (!data.title?.trim()) {
+      throw createError('Step title is required', 400);
+    }
+
+    const order = task.checklist.reduce((max, step) => Math.max(max, step.order || 0), 0) + 1;
+    task.checklist.push({ order, ...this.pickStepFields(data) });
+    await task.save();
+    return task;
+  }
+
+  async updateStep(task, stepId, data, user, canManageAll) {
+    this.assertCanEdit(task, user, canManageAll);
+    this.assertUnlocked(task);
+    const step = this.getStep(task, stepId);
+
+    step.set(this.pickStepFields(data));
+    // A step that no longer needs sign-off is complete once done
+    if (!step.requiresSignOff && step.status === 'signed_off') {
+      step.status = 'done';
+    }
+    await task.save();
+    return task;
+  }
+
+  async removeStep(task, stepId, user, canManageAll) {
+    this.assertCanEdit(task, user, canManageAll);
+    this.assertUnlocked(task);
+    this.getStep(task, stepId).deleteOne();
+    if (task.checklist.length === 0) {
+      task.progressPercentage = 0;
+    }
+    await task.save();
+    return task;
+  }
+
+  // Link documents already uploaded to the task as evidence for a step
+  attachEvidence(task, step, documentIds = []) {
+    const known = new Set((task.documents || []).map(doc => String(doc._id)));
+    const unknown = documentIds.filter(id => !known.has(String(id)));
+    if (unknown.length > 0) {
+      throw createError('Evidence must be a document uploaded to this task', 400);
+    }
+    const existing = new Set(step.evidence.map(String));
+    documentIds.filter(id => !existing.has(String(id))).forEach(id => step.evidence.push(id));
+  }
+
+  async completeStep(task, stepId, { note, evidenceIds } = {}, user, canManageAll) {
+    this.assertUnlocked(task);
+    const step = this.getStep(task, stepId);
+    this.assertCanComplete(task, step, user, canManageAll);
+
+    if (step.status !== 'pending') {
+      throw createError('This step is already done', 400);
+    }
+    if (Array.isArray(evidenceIds) && evidenceIds.length > 0) {
+      this.attachEvidence(task, step, evidenceIds);
+    }
+    if (step.requiresEvidence && step.evidence.length === 0) {
+      throw createError('Attach evidence before marking this step done', 400);
+    }
+
+    step.status = 'done';
+    step.completedBy = user._id;
+    step.completedAt = new Date();
+    step.completionNote = note;
+    step.reviewNote = undefined;
+    await task.save();
+
+    if (step.requiresSignOff) {
+      const reviewerId = step.reviewer || task.assignedBy;
+      if (reviewerId && !sameId(reviewerId, user)) {
+        try {
+          await NotificationService.notifyTaskUpdate(task._id, reviewerId, user._id, `updated: step "${step.title}" is ready for your sign-off`, task);
+        } catch (notifyError) {
+          console.error('Checklist sign-off notification error:', notifyError);
+        }
+      }
+    }
+    return task;
+  }
+
+  async reopenStep(task, stepId, user, canManageAll) {
+    this.assertUnlocked(task);
+    const step = this.getStep(task, stepId);
+    this.assertCanComplete(task, step, user, canManageAll);
+
+    if (step.status === 'signed_off' && !canManageAll) {
+      throw createError('Only a manager can reopen a signed-off step', 403);
+    }
+
+    step.status = 'pending';
+    step.completedBy = undefined;
+    step.completedAt = undefined;
+    step.signedOffBy = undefined;
+    step.signedOffAt = undefined;
+    await task.save();
+    return task;
+  }
+
+  // Approve a done step, or send it back to the maker with a note
+  async signOffStep(task, stepId, { approved = true, note } = {}, user, canManageAll) {
+    this.assertUnlocked(task);
+    const step = this.getStep(task, stepId);
+
+    if (!step.requiresSignOff) {
+      throw createError('This step does not need sign-off', 400);
+    }
+    if (step.status !== 'done') {
+      throw createError('Only steps marked done can be reviewed', 400);
+    }
+    this.assertCanSignOff(task, step, user, canManageAll);
+
+    if (approved) {
+      step.status = 'signed_off';
+      step.signedOffBy = user._id;
+      step.signedOffAt = new Date();
+      step.reviewNote = note;
+    } else {
+      if (!note?.trim()) {
+        throw createError('Add a note explaining what needs to change', 400);
+      }
+      step.status = 'pending';
+      step.reviewNote = note;
+      step.completedAt = undefined;
+    }
+    await task.save();
+
+    if (!approved && step.completedBy && !sameId(step.completedBy, user)) {
+      try {
+        await NotificationService.notifyTaskUpdate(task._id, step.completedBy, user._id, `updated: step "${step.title}" was sent back for changes`, task);
+      } catch (notifyError) {
+        console.error('Checklist rejection notification error:', notifyError);
+      }
+    }
+    return task;
+  }
+}
+
+const taskChecklistService = new TaskChecklistService();
+
+export default taskChecklistService;
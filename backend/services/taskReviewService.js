@@ -0,0 +1,182 @@
+import mongoose from 'mongoose';
+import Task from '../models/Task.js';
+import User from '../models/User.js';
+import NotificationService from './notificationService.js';
+
+const createError = (message, statusCode, code) => {
+  const error = new Error(message);
+  error.statusCode = statusCode;
+  if (code) error.code = code;
+  return error;
+};
+
+const sameId = (a, b) => !!a && !!b && String(a._id || a) === String(b._id || b);
+
+const assigneeIds = (task) => (Array.isArray(task.assignedTo) ? task.assignedTo : [task.assignedTo]).filter(Boolean);
+
+class TaskReviewService {
+  async findReviewer(firmId, reviewerId) {
+    if (!mongoose.Types.ObjectId.isValid(String(reviewerId))) {
+      throw createError('Reviewer not found', 400, 'REVIEWER_REQUIRED');
+    }
+    const reviewer = await User.findOne({ _id: reviewerId, firmId, isActive: true, role: { $ne: 'client' } });
+    if (!reviewer) {
+      throw createError('Reviewer not found in this firm', 400, 'REVIEWER_REQUIRED');
+    }
+    return reviewer;
+  }
+
+  openCycle(task) {
+    return [...(task.reviewHistory || [])].reverse().find(cycle => cycle.outcome === 'pending');
+  }
+
+  cleanPoints(points) {
+    if (!Array.isArray(points)) return [];
+    return points.map(point => String(point || '').trim()).filter(Boolean);
+  }
+
+  /**
+   * Work out the extra update a status change into or out of `review` needs.
+   * Returns null when the change does not touch the review stage. A return
+   * with review points always sends the task back to `inprogress`, so
+   * `body.status` is rewritten in that case.
+   */
+  async prepareStatusChange(task, body, user, canManageAll) {
+    const from = task.status;
+    const points = this.cleanPoints(body.reviewPoints);
+    if (from === 'review' && points.length > 0) {
+      body.status = 'inprogress';
+    }
+    const to = body.status;
+    if (!to || to === from) return null;
+
+    const now = new Date();
+
+    if (to === 'review') {
+      const reviewerId = body.reviewer || task.reviewer;
+      if (!reviewerId) {
+        throw createError('Choose a reviewer before sending this task for review', 400, 'REVIEWER_REQUIRED');
+      }
+      const reviewer = await this.findReviewer(task.firm, reviewerId);
+      if (assigneeIds(task).some(id => sameId(id, reviewer))) {
+        throw createError('The reviewer must be someone other than the task assignee', 400, 'REVIEWER_REQUIRED');
+      }
+
+      return {
+        update: {
+          $set: { reviewer: reviewer._id },
+          $inc: { reviewCycles: 1 },
+          $push: {
+            reviewHistory: {
+              cycle: (task.reviewCycles || 0) + 1,
+              submittedBy: user._id,
+              submittedAt: now,
+              reviewer: reviewer._id,
+              outcome: 'pending'
+            }
+          }
+        },
+        notify: { recipientId: reviewer._id, updateType: 'submitted for your review' }
+      };
+    }
+
+    if (from !== 'review') return null;
+
+    const isReviewer = sameId(task.reviewer, user);
+    let outcome = 'withdrawn';
+    let notify = null;
+    const comments = [];
+
+    if (to === 'completed') {
+      if (!isReviewer && !canManageAll) {
+        throw createError('Only the reviewer can approve this task', 403, 'REVIEWER_ONLY');
+      }
+      outcome = 'approved';
+    } else if (points.length > 0) {
+      if (!isReviewer && !canManageAll) {
+        throw createError('Only the reviewer can return this task', 403, 'REVIEWER_ONLY');
+      }
+      outcome = 'returned';
+      points.forEach(point => comments.push({ text: `Review point: ${point}`, author: user._id, createdAt: now, isInternal: true }));
+      const [assignee] = assigneeIds(task);
+      if (assignee && !sameId(assignee, user)) {
+        notify = {
+          recipientId: assignee,
+          updateType: `returned for rework with ${points.length} review point${points.length === 1 ? '' : 's'}`
+        };
+      }
+    } else if (isReviewer && !canManageAll) {
+      throw createError('Add review points when returning a task', 400, 'REVIEW_POINTS_REQUIRED');
+    }
+
+    const update = {};
+    if (comments.length > 0) {
+      update.$push = { comments: { $each: comments } };
+    }
+
+    // Tasks sent to review before cycles were tracked have nothing to close
+    if (!this.openCycle(task)) {
+      return { update, notify };
+    }
+
+    update.$set = {
+      'reviewHistory.$[open].outcome': outcome,
+      'reviewHistory.$[open].decidedBy': user._id,
+      'reviewHistory.$[open].decidedAt': now,
+      'reviewHistory.$[open].points': points
+    };
+    return { update, arrayFilters: [{ 'open.outcome': 'pending' }], notify };
+  }
+
+  // Combine the plain field updates from the request with the review operators
+  mergeUpdate(body, change) {
+    const { $set = {}, ...operators } = change.update;
+    return { ...operators, $set: { ...body, ...$set } };
+  }
+
+  async notify(change, task, user) {
+    if (!change?.notify) return;
+    try {
+      await NotificationService.notifyTaskUpdate(task._id, change.notify.recipientId, user._id, change.notify.updateType, task);
+    } catch (notifyError) {
+      console.error('Review notification error:', notifyError);
+    }
+  }
+
+  /**
+   * First-pass approval rate per assignee: of the tasks that have had at least
+   * one review decision, the share approved on their first cycle.
+   */
+  async getReviewStats(firmId) {
+    const tasks = await Task.find({ firm: firmId, reviewCycles: { $gt: 0 } })
+      .select('assignedTo reviewCycles reviewHistory')
+      .lean();
+
+    const byUser = new Map();
+    for (const task of tasks) {
+      const decided = (task.reviewHistory || []).filter(cycle => ['approved', 'returned'].includes(cycle.outcome));
+      for (const userId of assigneeIds(task)) {
+        const key = String(userId);
+        const stats = byUser.get(key) || { user: key, reviewedTasks: 0, firstPassApproved: 0, returns: 0, reviewCycles: 0 };
+        stats.reviewCycles += task.reviewCycles || 0;
+        stats.returns += decided.filter(cycle => cycle.outcome === 'returned').length;
+        if (decided.length > 0) {
+          stats.reviewedTasks += 1;
+          if (decided[0].outcome === 'approved') stats.firstPassApproved += 1;
+        }
+        byUser.set(key, stats);
+      }
+    }
+
+    return [...byUser.values()].map(stats => ({
+      ...stats,
+      firstPassRate: stats.reviewedTasks > 0
+        ? Math.round((stats.firstPassApproved / stats.reviewedTasks) * 1000) / 10
+        : null
+    }));
+  }
+}
+
+const taskReviewService = new TaskReviewService();
+
+export default taskReviewService;
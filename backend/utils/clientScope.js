@@ -0,0 +1,53 @@
+import Client from '../models/Client.js';
+
+const getFirmId = (user) => user.firmId?._id || user.firmId;
+
+// Employees work only on clients where they are the partner or on the team;
+// owners and admins see the whole firm
+export const isScopedToAssignedClients = (user) => user.role === 'employee';
+
+export const assignedClientFilter = (userId) => ({
+  $or: [{ partner: userId }, { assignedTo: userId }]
+});
+
+export const getAssignedClientIds = async (user) => {
+  const clients = await Client.find({
+    firmId: getFirmId(user),
+    isDeleted: false,
+    ...assignedClientFilter(user._id)
+  }).select('_id').lean();
+
+  return clients.map(client => client._id);
+};
+
+export const canAccessClient = async (user, clientId) => {
+  if (!isScopedToAssignedClients(user)) return true;
+  if (!clientId) return false;
+
+  const client = await Client.exists({
+    _id: clientId?._id || clientId,
+    firmId: getFirmId(user),
+    ...assignedClientFilter(user._id)
+  });
+  return !!client;
+};
+
+/**
+ * Query condition limiting a collection to the user's assigned clients.
+ * Returns null for users who are not scoped. `ownFilter` keeps records the
+ * employee is personally on (e.g. tasks assigned to them) visible as well.
+ */
+export const clientScopeCondition = async (user, clientField, ownFilter = []) => {
+  if (!isScopedToAssignedClients(user)) return null;
+
+  const clientIds = await getAssignedClientIds(user);
+  return { $or: [{ [clientField]: { $in: clientIds } }, ...ownFilter] };
+};
+
+// Employees see tasks they are on plus every task for their assigned clients
+export const taskScopeCondition = (user) => clientScopeCondition(user, 'client', [
+  { assignedTo: user._id },
+  { collaborators: user._id },
+  { assignedBy: user._id },
+  { reviewer: user._id }
+]);
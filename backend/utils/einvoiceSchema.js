@@ -0,0 +1,281 @@
+import { isValidGSTIN } from './gstTax.js';
+import { GST_STATE_CODES } from '../services/gstService.js';
+
+/**
+ * NIC e-invoice schema (INV-01, version 1.1): the JSON the IRP and the
+ * offline JSON preparation tool accept. Only the parts a professional
+ * services firm issues are built: regular B2B tax invoices and credit
+ * notes, without e-way bill, export or payment details.
+ */
+export const EINVOICE_SCHEMA_VERSION = '1.1';
+
+// GST rates the IRP accepts on an item
+const GST_RATES = [0, 0.1, 0.25, 1, 1.5, 3, 5, 6, 7.5, 12, 18, 28, 40];
+
+const DOC_NUMBER_PATTERN = /^[A-Za-z1-9][A-Za-z0-9/-]{0,15}$/;
+const DATE_PATTERN = /^(0[1-9]|[12]\d|3[01])\/(0[1-9]|1[0-2])\/20\d{2}$/;
+
+// The IRP allows a difference of up to one rupee between stated and computed values
+const TOLERANCE = 1;
+
+const round2 = (value) => Math.round((Number(value) || 0) * 100) / 100;
+
+const clip = (value, length) => {
+  const text = String(value ?? '').replace(/\s+/g, ' ').trim();
+  return text ? text.slice(0, length) : undefined;
+};
+
+/**
+ * Split a free-text address into the schema's address fields. The six-digit
+ * PIN and the state are taken out; the last remaining part is the location.
+ */
+export const splitAddress = (address, { city, pincode } = {}) => {
+  const text = String(address || '');
+  const pins = text.match(/\b[1-9]\d{5}\b/g);
+  const pin = Number(pincode || pins?.[pins.length - 1]) || undefined;
+  const stateNames = Object.values(GST_STATE_CODES).map(name => name.toLowerCase());
+
+  const parts = text
+    .replace(/\b[1-9]\d{5}\b/g, '')
+    .split(/[,\n]/)
+    .map(part => part.replace(/[\s-]+$/, '').replace(/^[\s-]+/, ''))
+    .filter(part => part && !stateNames.includes(part.toLowerCase()) && part.toLowerCase() !== 'india');
+
+  const location = city || (parts.length > 1 ? parts.pop() : parts[0]);
+  return {
+    Addr1: clip(parts.slice(0, Math.max(1, Math.ceil(parts.length / 2))).join(', '), 100),
+    Addr2: clip(parts.slice(Math.max(1, Math.ceil(parts.length / 2))).join(', '), 100),
+    Loc: clip(location, 50),
+    Pin: pin
+  };
+};
+
+const party = ({ gstin, legalName, tradeName, address, phone, email }) => {
+  const phoneDigits = String(phone || '').replace(/\D/g, '').slice(-12);
+  return {
+    Gstin: gstin || undefined,
+    LglNm: clip(legalName, 100),
+    TrdNm: tradeName && tradeName !== legalName ? clip(tradeName, 100) : undefined,
+    ...address,
+    Stcd: gstin ? gstin.slice(0, 2) : undefined,
+    Ph: phoneDigits.length >= 6 ? phoneDigits : undefined,
+    Em: email && String(email).length >= 6 ? clip(email, 100) : undefined
+  };
+};
+
+// Drop unset optional fields; the IRP rejects nulls in some of them
+const compact = (value) => {
+  if (Array.isArray(value)) return value.map(compact);
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(Object.entries(value)
+      .filter(([, entry]) => entry !== undefined && entry !== null && entry !== '')
+      .map(([key, entry]) => [key, compact(entry)]));
+  }
+  return value;
+};
+
+/**
+ * Build the schema JSON for an invoice or credit note. `lines` is the stored
+ * per-line tax split; the invoice-level discount is shown against each item,
+ * as it was apportioned, so item assessable values match the GST charged.
+ */
+export const buildEinvoicePayload = ({ invoice, lines, seller, buyer, documentDate, originalInvoice }) => {
+  const isCreditNote = invoice.type === 'credit_note';
+  const interState = lines.some(line => line.igst > 0) || !!invoice.placeOfSupply?.interState;
+
+  const items = (invoice.items || []).map((item, index) => {
+    const line = lines[index] || { taxableValue: item.amount, cgst: 0, sgst: 0, igst: 0 };
+    const hsn = String(item.hsn || '').trim();
+    const rate = invoice.gst?.applicable !== false && item.taxable !== false ? Number(item.taxRate ?? 18) : 0;
+    const totalAmount = round2(item.amount);
+    return {
+      SlNo: String(index + 1),
+      PrdDesc: clip(item.description, 300),
+      IsServc: hsn.startsWith('99') ? 'Y' : 'N',
+      HsnCd: hsn,
+      Qty: round2(item.quantity),
+      Unit: hsn.startsWith('99') ? undefined : 'OTH',
+      UnitPrice: round2(item.rate),
+      TotAmt: totalAmount,
+      Discount: round2(totalAmount - line.taxableValue),
+      AssAmt: round2(line.taxableValue),
+      GstRt: rate,
+      IgstAmt: round2(line.igst),
+      CgstAmt: round2(line.cgst),
+      SgstAmt: round2(line.sgst),
+      CesRt: 0,
+      CesAmt: 0,
+      CesNonAdvlAmt: 0,
+      StateCesRt: 0,
+      StateCesAmt: 0,
+      StateCesNonAdvlAmt: 0,
+      OthChrg: 0,
+      TotItemVal: round2(line.taxableValue + line.igst + line.cgst + line.sgst)
+    };
+  });
+
+  const sum = (field) => round2(items.reduce((total, item) => total + item[field], 0));
+  const itemTotal = sum('TotItemVal');
+
+  return compact({
+    Version: EINVOICE_SCHEMA_VERSION,
+    TranDtls: {
+      TaxSch: 'GST',
+      SupTyp: 'B2B',
+      RegRev: 'N',
+      IgstOnIntra: 'N'
+    },
+    DocDtls: {
+      Typ: isCreditNote ? 'CRN' : 'INV',
+      No: invoice.invoiceNumber,
+      Dt: documentDate
+    },
+    SellerDtls: party(seller),
+    BuyerDtls: {
+      ...party(buyer),
+      Pos: invoice.placeOfSupply?.stateCode || undefined
+    },
+    ItemList: items,
+    ValDtls: {
+      AssVal: sum('AssAmt'),
+      CgstVal: interState ? 0 : sum('CgstAmt'),
+      SgstVal: interState ? 0 : sum('SgstAmt'),
+      IgstVal: sum('IgstAmt'),
+      CesVal: 0,
+      StCesVal: 0,
+      Discount: 0,
+      OthChrg: 0,
+      RndOffAmt: round2(round2(invoice.totalAmount) - itemTotal),
+      TotInvVal: round2(invoice.totalAmount)
+    },
+    RefDtls: isCreditNote && originalInvoice ? {
+      PrecDocDtls: [{ InvNo: originalInvoice.invoiceNumber, InvDt: originalInvoice.documentDate }]
+    } : undefined
+  });
+};
+
+const checkText = (errors, path, value, { min = 1, max, required = true } = {}) => {
+  if (value === undefined || value === null || value === '') {
+    if (required) errors.push({ path, message: 'is required' });
+    return;
+  }
+  const length = String(value).length;
+  if (length < min || length > max) {
+    errors.push({ path, message: `must be ${min} to ${max} characters` });
+  }
+};
+
+const checkParty = (errors, prefix, details = {}) => {
+  if (!isValidGSTIN(details.Gstin)) {
+    errors.push({ path: `${prefix}.Gstin`, message: 'is not a valid GSTIN' });
+  }
+  checkText(errors, `${prefix}.LglNm`, details.LglNm, { min: 3, max: 100 });
+  checkText(errors, `${prefix}.Addr1`, details.Addr1, { max: 100 });
+  checkText(errors, `${prefix}.Addr2`, details.Addr2, { min: 3, max: 100, required: false });
+  checkText(errors, `${prefix}.Loc`, details.Loc, { min: 3, max: 50 });
+  if (!(Number.isInteger(details.Pin) && details.Pin >= 100000 && details.Pin <= 999999)) {
+    errors.push({ path: `${prefix}.Pin`, message: 'must be a six-digit PIN code' });
+  }
+  if (!GST_STATE_CODES[details.Stcd]) {
+    errors.push({ path: `${prefix}.Stcd`, message: 'is not a valid state code' });
+  }
+};
+
+/**
+ * Check a payload against the schema and the IRP's value rules before it
+ * is uploaded. Returns a list of { path, message }; empty when valid.
+ */
+export const validateEinvoicePayload = (payload) => {
+  const errors = [];
+  const { DocDtls = {}, SellerDtls, BuyerDtls = {}, ItemList = [], ValDtls = {} } = payload || {};
+
+  if (payload?.Version !== EINVOICE_SCHEMA_VERSION) {
+    errors.push({ path: 'Version', message: `must be ${EINVOICE_SCHEMA_VERSION}` });
+  }
+  if (!['INV', 'CRN', 'DBN'].includes(DocDtls.Typ)) {
+    errors.push({ path: 'DocDtls.Typ', message: 'must be INV, CRN or DBN' });
+  }
+  if (!DOC_NUMBER_PATTERN.test(DocDtls.No || '')) {
+    errors.push({
+      path: 'DocDtls.No',
+      message: 'must be at most 16 characters of letters, digits, / and -, not starting with 0 or a symbol'
+    });
+  }
+  if (!DATE_PATTERN.test(DocDtls.Dt || '')) {
+    errors.push({ path: 'DocDtls.Dt', message: 'must be a date in dd/mm/yyyy' });
+  }
+
+  checkParty(errors, 'SellerDtls', SellerDtls);
+  checkParty(errors, 'BuyerDtls', BuyerDtls);
+  if (!GST_STATE_CODES[BuyerDtls.Pos]) {
+    errors.push({ path: 'BuyerDtls.Pos', message: 'place of supply is not set' });
+  }
+  if (SellerDtls?.Gstin && SellerDtls.Gstin === BuyerDtls.Gstin) {
+    errors.push({ path: 'BuyerDtls.Gstin', message: 'cannot be the same as the seller GSTIN' });
+  }
+
+  if (ItemList.length === 0 || ItemList.length > 1000) {
+    errors.push({ path: 'ItemList', message: 'must have 1 to 1000 items' });
+  }
+  const interState = SellerDtls?.Stcd !== BuyerDtls.Pos;
+  ItemList.forEach((item, index) => {
+    const path = `ItemList[${index}]`;
+    if (!/^\d{4}$|^\d{6}$|^\d{8}$/.test(item.HsnCd || '')) {
+      errors.push({ path: `${path}.HsnCd`, message: 'HSN/SAC code of 4, 6 or 8 digits is required' });
+    }
+    checkText(errors, `${path}.PrdDesc`, item.PrdDesc, { min: 3, max: 300, required: false });
+    if (!GST_RATES.includes(item.GstRt)) {
+      errors.push({ path: `${path}.GstRt`, message: `${item.GstRt}% is not a GST rate` });
+    }
+    if (Math.abs(item.AssAmt - (item.TotAmt - item.Discount)) > TOLERANCE) {
+      errors.push({ path: `${path}.AssAmt`, message: 'must equal the total amount less discount' });
+    }
+    const tax = item.IgstAmt + item.CgstAmt + item.SgstAmt;
+    if (Math.abs(tax - (item.AssAmt * item.GstRt) / 100) > TOLERANCE) {
+      errors.push({ path: `${path}.GstRt`, message: 'tax amounts do not match the rate on the assessable value' });
+    }
+    if (interState ? item.CgstAmt + item.SgstAmt > 0 : item.IgstAmt > 0) {
+      errors.push({
+        path: `${path}.${interState ? 'CgstAmt' : 'IgstAmt'}`,
+        message: interState ? 'inter-state supplies are charged IGST only' : 'intra-state supplies are charged CGST and SGST'
+      });
+    }
+    if (Math.abs(item.TotItemVal - (item.AssAmt + tax + item.CesAmt + item.StateCesAmt + item.OthChrg)) > TOLERANCE) {
+      errors.push({ path: `${path}.TotItemVal`, message: 'must equal the assessable value plus taxes' });
+    }
+  });
+
+  const sum = (field) => ItemList.reduce((total, item) => total + (item[field] || 0), 0);
+  if (Math.abs(ValDtls.AssVal - sum('AssAmt')) > TOLERANCE) {
+    errors.push({ path: 'ValDtls.AssVal', message: 'must equal the sum of item assessable values' });
+  }
+  const computedTotal = sum('TotItemVal') - (ValDtls.Discount || 0) + (ValDtls.OthChrg || 0) + (ValDtls.RndOffAmt || 0);
+  if (Math.abs(ValDtls.TotInvVal - computedTotal) > TOLERANCE) {
+    errors.push({ path: 'ValDtls.TotInvVal', message: 'must equal the sum of item values after round-off' });
+  }
+  if (Math.abs(ValDtls.RndOffAmt || 0) > 99.99) {
+    errors.push({ path: 'ValDtls.RndOffAmt', message: 'round-off cannot exceed 99.99' });
+  }
+
+  if (DocDtls.Typ === 'CRN' && !payload.RefDtls?.PrecDocDtls?.length) {
+    errors.push({ path: 'RefDtls.PrecDocDtls', message: 'credit notes must refer to the original invoice' });
+  }
+
+  return errors;
+};
+
+/**
+ * Read the payload of a signed QR code (a JWT issued by the IRP). Returns the
+ * QR fields such as Irn, DocNo and TotInvVal, or null when it cannot be read.
+ * The signature is not verified here; that needs the IRP's public key.
+ */
+export const decodeSignedQr = (signedQrCode) => {
+  try {
+    const [, body] = String(signedQrCode || '').split('.');
+    if (!body) return null;
+    const claims = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+    return typeof claims.data === 'string' ? JSON.parse(claims.data) : claims.data || null;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,102 @@
+import emailTemplateDefaults from '../config/emailTemplateDefaults.js';
+
+const PLACEHOLDER = /{{\s*([a-zA-Z][a-zA-Z0-9_]*)\s*}}/g;
+
+export const escapeHtml = (value) => String(value)
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+const formatValue = (value) => {
+  if (value === undefined || value === null) return '';
+  if (value instanceof Date) return value.toLocaleDateString('en-IN');
+  if (typeof value === 'number') return value.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  return String(value);
+};
+
+/**
+ * List the distinct placeholder names used in a piece of template text
+ */
+export const extractPlaceholders = (text = '') => {
+  const names = new Set();
+  for (const match of String(text).matchAll(PLACEHOLDER)) {
+    names.add(match[1]);
+  }
+  return [...names];
+};
+
+/**
+ * Validate a template's subject and body against the variables of its category
+ * @returns {{ valid: boolean, variables: string[], unknown: string[], malformed: string[] }}
+ */
+export const validateTemplate = (category, { subject = '', body = '' }) => {
+  const definition = emailTemplateDefaults[category];
+  const text = `${subject}\n${body}`;
+  const variables = extractPlaceholders(text);
+
+  // Anything left with braces after removing well-formed placeholders is a typo like "{{name}" or "{{ }}"
+  const malformed = (text.replace(PLACEHOLDER, '').match(/{{[^}]*}?}?|}}/g) || []).map(m => m.trim());
+
+  const allowed = definition?.variables || [];
+  const unknown = category === 'custom' ? [] : variables.filter(name => !allowed.includes(name));
+
+  return {
+    valid: !!definition && unknown.length === 0 && malformed.length === 0,
+    variables,
+    unknown,
+    malformed
+  };
+};
+
+/**
+ * Substitute `{{variable}}` placeholders; missing values render as empty strings
+ */
+export const renderText = (text = '', data = {}, { escape = false } = {}) => String(text).replace(PLACEHOLDER, (_, name) => {
+  const value = formatValue(data[name]);
+  return escape ? escapeHtml(value) : value;
+});
+
+/**
+ * Render a stored template into an email. Plain-text bodies are escaped and
+ * wrapped in the standard layout; HTML bodies bring their own layout and only
+ * have their values escaped.
+ */
+export const renderEmailTemplate = (template, data = {}) => {
+  const subject = renderText(template.subject, data).replace(/\s+/g, ' ').trim();
+
+  if (template.isHtml) {
+    return {
+      subject,
+      html: renderText(template.body, data, { escape: true }),
+      text: undefined
+    };
+  }
+
+  const content = escapeHtml(template.body)
+    .replace(PLACEHOLDER, (_, name) => escapeHtml(formatValue(data[name])))
+    .replace(/\n/g, '<br>');
+
+  const html = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <div style="padding: 30px; background: #f8f9fa; color: #333; font-size: 15px; line-height: 1.6;">
+          ${content}
+        </div>
+      </div>
+    `;
+
+  return {
+    subject,
+    html,
+    text: renderText(template.body, data)
+  };
+};
+
+export default {
+  escapeHtml,
+  extractPlaceholders,
+  validateTemplate,
+  renderText,
+  renderEmailTemplate
+};
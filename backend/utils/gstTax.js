@@ -0,0 +1,165 @@
+import Settings from '../models/Settings.js';
+import Firm from '../models/Firm.js';
+import Client from '../models/Client.js';
+import gstService, { GST_STATE_CODES } from '../services/gstService.js';
+
+export const PLACE_OF_SUPPLY_SOURCES = ['client_gstin', 'client_address', 'manual', 'supplier', 'unknown'];
+
+const round2 = (value) => Math.round((Number(value) || 0) * 100) / 100;
+
+const normalizeState = (name) => String(name || '').toLowerCase().replace(/&/g, 'and').replace(/[^a-z]/g, '');
+
+// Name -> code; the later code wins for states that were re-coded (Andhra Pradesh is 37 now)
+const STATE_CODE_BY_NAME = Object.entries(GST_STATE_CODES)
+  .reduce((codes, [code, name]) => ({ ...codes, [normalizeState(name)]: code }), {});
+
+export const stateName = (stateCode) => GST_STATE_CODES[stateCode] || null;
+
+const stateCodeFromGSTIN = (gstin) => {
+  const state = gstService.getStateFromGSTIN(String(gstin || '').trim().toUpperCase());
+  return state ? STATE_CODE_BY_NAME[normalizeState(state)] || null : null;
+};
+
+const GSTIN_PATTERN = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+const GSTIN_CHARSET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+/**
+ * Format, state code and check digit. The format check alone lets through
+ * typos that the GST portal rejects when the return is uploaded.
+ */
+export const isValidGSTIN = (gstin) => {
+  const value = String(gstin || '').trim().toUpperCase();
+  if (!GSTIN_PATTERN.test(value) || !GST_STATE_CODES[value.slice(0, 2)]) return false;
+
+  const sum = value.slice(0, 14).split('').reduce((total, char, index) => {
+    const product = GSTIN_CHARSET.indexOf(char) * (index % 2 === 0 ? 1 : 2);
+    return total + Math.floor(product / 36) + (product % 36);
+  }, 0);
+  return GSTIN_CHARSET[(36 - (sum % 36)) % 36] === value[14];
+};
+
+// The GSTIN an invoice is issued under: the collection account's own, else the firm's
+export const supplierGSTIN = (company = {}, firmGstNumber, collectionMethod) =>
+  [company.invoiceAccounts?.[collectionMethod]?.gstNumber, company.gstNumber, firmGstNumber]
+    .map(gstin => String(gstin || '').trim().toUpperCase())
+    .find(gstin => stateCodeFromGSTIN(gstin)) || null;
+
+// Free-text billing addresses: pick the longest state name that appears in them
+const stateCodeFromAddress = (address) => {
+  const text = normalizeState(address);
+  if (!text) return null;
+  const match = Object.keys(STATE_CODE_BY_NAME)
+    .filter(name => text.includes(name))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? STATE_CODE_BY_NAME[match] : null;
+};
+
+/**
+ * Work out where the supply is made and whether it crosses a state line.
+ * The supplier state comes from the GSTIN of the account issuing the invoice;
+ * the recipient state from the client's GSTIN, then their billing address.
+ * A recipient we cannot place is treated as being in the supplier's state.
+ */
+export const resolvePlaceOfSupply = async ({ firm, collectionMethod, client, manualStateCode }) => {
+  const [settings, firmDoc, clientDoc] = await Promise.all([
+    Settings.findOne({ firm }).select('data.company.gstNumber data.company.invoiceAccounts').lean(),
+    Firm.findById(firm).select('gstNumber').lean(),
+    client ? Client.findById(client).select('gstNumber gstData billingAddress address').lean() : null
+  ]);
+
+  const company = settings?.data?.company || {};
+  const supplierStateCode = stateCodeFromGSTIN(supplierGSTIN(company, firmDoc?.gstNumber, collectionMethod));
+
+  let stateCode = null;
+  let source = 'unknown';
+  if (manualStateCode && GST_STATE_CODES[manualStateCode]) {
+    stateCode = manualStateCode;
+    source = 'manual';
+  } else if (stateCodeFromGSTIN(clientDoc?.gstNumber)) {
+    stateCode = stateCodeFromGSTIN(clientDoc.gstNumber);
+    source = 'client_gstin';
+  } else if (GST_STATE_CODES[clientDoc?.gstData?.stateCode]) {
+    stateCode = clientDoc.gstData.stateCode;
+    source = 'client_gstin';
+  } else if (stateCodeFromAddress(clientDoc?.billingAddress) || stateCodeFromAddress(clientDoc?.address)) {
+    stateCode = stateCodeFromAddress(clientDoc.billingAddress) || stateCodeFromAddress(clientDoc.address);
+    source = 'client_address';
+  } else if (supplierStateCode) {
+    stateCode = supplierStateCode;
+    source = 'supplier';
+  }
+
+  return {
+    stateCode,
+    state: stateName(stateCode),
+    supplierStateCode: supplierStateCode || null,
+    supplierState: stateName(supplierStateCode),
+    interState: !!stateCode && !!supplierStateCode && stateCode !== supplierStateCode,
+    source
+  };
+};
+
+/**
+ * Split an invoice's tax line by line. An invoice-level discount lowers each
+ * line's taxable value in proportion to its amount. Each tax head is rounded
+ * to the paisa per line and the invoice totals are the sum of those lines, so
+ * CGST and SGST always match and the lines add up to the totals exactly.
+ */
+export const calculateInvoiceTax = (items, discountAmount = 0, { applicable = true, interState = false } = {}) => {
+  const subtotal = round2(items.reduce((sum, item) => sum + (Number(item.amount) || 0), 0));
+  const discount = Math.min(round2(discountAmount), subtotal);
+
+  let discountLeft = discount;
+  const lines = items.map((item, index) => {
+    const amount = Number(item.amount) || 0;
+    const share = index === items.length - 1
+      ? discountLeft
+      : subtotal > 0 ? round2((discount * amount) / subtotal) : 0;
+    discountLeft = round2(discountLeft - share);
+
+    const taxableValue = round2(amount - share);
+    const rate = applicable && item.taxable !== false ? Number(item.taxRate ?? 18) : 0;
+    if (interState) {
+      return { taxableValue, cgst: 0, sgst: 0, igst: round2((taxableValue * rate) / 100) };
+    }
+    const half = round2((taxableValue * rate) / 200);
+    return { taxableValue, cgst: half, sgst: half, igst: 0 };
+  });
+
+  const cgst = round2(lines.reduce((sum, line) => sum + line.cgst, 0));
+  const sgst = round2(lines.reduce((sum, line) => sum + line.sgst, 0));
+  const igst = round2(lines.reduce((sum, line) => sum + line.igst, 0));
+
+  return {
+    subtotal,
+    discount,
+    lines,
+    cgst,
+    sgst,
+    igst,
+    taxAmount: round2(cgst + sgst + igst)
+  };
+};
+
+/**
+ * Per-line split of a saved invoice. Invoices saved before the split was
+ * stored on each line are worked out again from their items.
+ */
+export const invoiceLineTax = (invoice) => {
+  const items = invoice.items || [];
+  if (items.length > 0 && items.every(item => item.taxableValue !== undefined && item.taxableValue !== null)) {
+    return items.map(item => ({
+      taxableValue: item.taxableValue || 0,
+      cgst: item.cgst || 0,
+      sgst: item.sgst || 0,
+      igst: item.igst || 0
+    }));
+  }
+  const interState = invoice.placeOfSupply?.source
+    ? !!invoice.placeOfSupply.interState
+    : (invoice.gst?.igst || 0) > 0;
+  return calculateInvoiceTax(items, invoice.discount?.amount || 0, {
+    applicable: invoice.gst?.applicable !== false,
+    interState
+  }).lines;
+};
@@ -0,0 +1,198 @@
+import ExcelJS from 'exceljs';
+import { stateName } from './gstTax.js';
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// The offline tool's Excel template writes places of supply as "27-Maharashtra"
+const formatPos = (pos) => `${pos}-${stateName(pos) || ''}`;
+
+// dd-mm-yyyy (portal JSON) to dd-Mon-yyyy (offline tool Excel)
+const excelDate = (date) => {
+  const [day, month, year] = date.split('-');
+  return `${day}-${MONTHS[Number(month) - 1]}-${year}`;
+};
+
+const itemDetails = ({ rt, txval, iamt, camt, samt, csamt }, interState) => (interState
+  ? { txval, rt, iamt, csamt }
+  : { txval, rt, camt, samt, csamt });
+
+const portalItems = (items, interState) =>
+  items.map((item, index) => ({ num: index + 1, itm_det: itemDetails(item, interState) }));
+
+const portalHsn = (rows) => rows.map((row, index) => ({
+  num: index + 1,
+  hsn_sc: row.hsn_sc,
+  desc: row.desc,
+  uqc: row.uqc,
+  qty: row.qty,
+  rt: row.rt,
+  txval: row.txval,
+  iamt: row.iamt,
+  camt: row.camt,
+  samt: row.samt,
+  csamt: row.csamt
+}));
+
+export const gstr1FileName = (report, extension) =>
+  `GSTR1-${report.supplier.gstin}-${report.period.fp}.${extension}`;
+
+/**
+ * The return in the JSON layout the GST offline tool and portal import.
+ * Empty tables are left out, as the offline tool does.
+ */
+export const buildGstr1PortalJson = (report) => {
+  const { supplier, period } = report;
+  const isInterState = (pos) => pos !== supplier.stateCode;
+
+  const json = {
+    gstin: supplier.gstin,
+    fp: period.fp,
+    b2b: report.b2b.map(party => ({
+      ctin: party.ctin,
+      inv: party.invoices.map(invoice => ({
+        inum: invoice.inum,
+        idt: invoice.idt,
+        val: invoice.val,
+        pos: invoice.pos,
+        rchrg: invoice.rchrg,
+        inv_typ: invoice.inv_typ,
+        itms: portalItems(invoice.items, isInterState(invoice.pos))
+      }))
+    })),
+    b2cl: report.b2cl.map(group => ({
+      pos: group.pos,
+      inv: group.invoices.map(invoice => ({
+        inum: invoice.inum,
+        idt: invoice.idt,
+        val: invoice.val,
+        itms: portalItems(invoice.items, true)
+      }))
+    })),
+    b2cs: report.b2cs.map(row => ({
+      sply_ty: row.sply_ty,
+      pos: row.pos,
+      typ: row.typ,
+      ...itemDetails(row, row.sply_ty === 'INTER')
+    })),
+    cdnr: report.cdnr.map(party => ({
+      ctin: party.ctin,
+      nt: party.notes.map(note => ({
+        ntty: note.ntty,
+        nt_num: note.nt_num,
+        nt_dt: note.nt_dt,
+        val: note.val,
+        pos: note.pos,
+        rchrg: note.rchrg,
+        inv_typ: note.inv_typ,
+        itms: portalItems(note.items, isInterState(note.pos))
+      }))
+    })),
+    cdnur: report.cdnur.map(note => ({
+      typ: note.typ,
+      ntty: note.ntty,
+      nt_num: note.nt_num,
+      nt_dt: note.nt_dt,
+      val: note.val,
+      pos: note.pos,
+      itms: portalItems(note.items, true)
+    })),
+    hsn: {
+      hsn_b2b: portalHsn(report.hsn.b2b),
+      hsn_b2c: portalHsn(report.hsn.b2c)
+    }
+  };
+
+  ['b2b', 'b2cl', 'b2cs', 'cdnr', 'cdnur'].forEach(section => {
+    if (json[section].length === 0) delete json[section];
+  });
+  if (json.hsn.hsn_b2b.length === 0) delete json.hsn.hsn_b2b;
+  if (json.hsn.hsn_b2c.length === 0) delete json.hsn.hsn_b2c;
+  if (Object.keys(json.hsn).length === 0) delete json.hsn;
+
+  return json;
+};
+
+const addSheet = (workbook, name, columns, rows) => {
+  const worksheet = workbook.addWorksheet(name);
+  worksheet.columns = columns.map(([header, width, numFmt]) => ({
+    header,
+    width,
+    style: numFmt ? { numFmt } : {}
+  }));
+  const header = worksheet.getRow(1);
+  header.font = { bold: true, color: { argb: 'FFFFFFFF' } };
+  header.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FF1E3A8A' } };
+  rows.forEach(row => worksheet.addRow(row));
+  return worksheet;
+};
+
+const AMOUNT = '#,##0.00';
+
+/**
+ * The return as a workbook with one sheet per table, using the column
+ * headings of the GST offline tool's Excel template, plus the issues found.
+ */
+export const generateGstr1Excel = async (report) => {
+  const workbook = new ExcelJS.Workbook();
+
+  addSheet(workbook, 'b2b', [
+    ['GSTIN/UIN of Recipient', 20], ['Receiver Name', 28], ['Invoice Number', 20], ['Invoice date', 13],
+    ['Invoice Value', 14, AMOUNT], ['Place Of Supply', 22], ['Reverse Charge', 9], ['Applicable % of Tax Rate', 10],
+    ['Invoice Type', 14], ['E-Commerce GSTIN', 16], ['Rate', 7], ['Taxable Value', 14, AMOUNT], ['Cess Amount', 12, AMOUNT]
+  ], report.b2b.flatMap(party => party.invoices.flatMap(invoice => invoice.items.map(item => [
+    party.ctin, party.receiverName, invoice.inum, excelDate(invoice.idt), invoice.val, formatPos(invoice.pos),
+    invoice.rchrg, '', 'Regular B2B', '', item.rt, item.txval, item.csamt
+  ]))));
+
+  addSheet(workbook, 'b2cl', [
+    ['Invoice Number', 20], ['Invoice date', 13], ['Invoice Value', 14, AMOUNT], ['Place Of Supply', 22],
+    ['Applicable % of Tax Rate', 10], ['Rate', 7], ['Taxable Value', 14, AMOUNT], ['Cess Amount', 12, AMOUNT],
+    ['E-Commerce GSTIN', 16]
+  ], report.b2cl.flatMap(group => group.invoices.flatMap(invoice => invoice.items.map(item => [
+    invoice.inum, excelDate(invoice.idt), invoice.val, formatPos(group.pos), '', item.rt, item.txval, item.csamt, ''
+  ]))));
+
+  addSheet(workbook, 'b2cs', [
+    ['Type', 8], ['Place Of Supply', 22], ['Applicable % of Tax Rate', 10], ['Rate', 7],
+    ['Taxable Value', 14, AMOUNT], ['Cess Amount', 12, AMOUNT], ['E-Commerce GSTIN', 16]
+  ], report.b2cs.map(row => [row.typ, formatPos(row.pos), '', row.rt, row.txval, row.csamt, '']));
+
+  addSheet(workbook, 'cdnr', [
+    ['GSTIN/UIN of Recipient', 20], ['Receiver Name', 28], ['Note Number', 20], ['Note Date', 13],
+    ['Note Type', 8], ['Place Of Supply', 22], ['Reverse Charge', 9], ['Note Supply Type', 14],
+    ['Note Value', 14, AMOUNT], ['Applicable % of Tax Rate', 10], ['Rate', 7], ['Taxable Value', 14, AMOUNT],
+    ['Cess Amount', 12, AMOUNT]
+  ], report.cdnr.flatMap(party => party.notes.flatMap(note => note.items.map(item => [
+    party.ctin, party.receiverName, note.nt_num, excelDate(note.nt_dt), note.ntty, formatPos(note.pos),
+    note.rchrg, 'Regular B2B', note.val, '', item.rt, item.txval, item.csamt
+  ]))));
+
+  addSheet(workbook, 'cdnur', [
+    ['UR Type', 8], ['Note Number', 20], ['Note Date', 13], ['Note Type', 8], ['Place Of Supply', 22],
+    ['Note Value', 14, AMOUNT], ['Applicable % of Tax Rate', 10], ['Rate', 7], ['Taxable Value', 14, AMOUNT],
+    ['Cess Amount', 12, AMOUNT]
+  ], report.cdnur.flatMap(note => note.items.map(item => [
+    note.typ, note.nt_num, excelDate(note.nt_dt), note.ntty, formatPos(note.pos), note.val, '', item.rt, item.txval, item.csamt
+  ])));
+
+  const hsnColumns = [
+    ['HSN', 12], ['Description', 28], ['UQC', 8], ['Total Quantity', 12], ['Total Value', 14, AMOUNT], ['Rate', 7],
+    ['Taxable Value', 14, AMOUNT], ['Integrated Tax Amount', 14, AMOUNT], ['Central Tax Amount', 14, AMOUNT],
+    ['State/UT Tax Amount', 14, AMOUNT], ['Cess Amount', 12, AMOUNT]
+  ];
+  const hsnRow = (row) => [row.hsn_sc, row.desc, row.uqc, row.qty, row.val, row.rt, row.txval, row.iamt, row.camt, row.samt, row.csamt];
+  addSheet(workbook, 'hsn(b2b)', hsnColumns, report.hsn.b2b.map(hsnRow));
+  addSheet(workbook, 'hsn(b2c)', hsnColumns, report.hsn.b2c.map(hsnRow));
+
+  addSheet(workbook, 'Issues', [
+    ['Severity', 10], ['Document', 20], ['Issue', 90]
+  ], report.issues.map(issue => [issue.severity, issue.invoiceNumber || '', issue.message]));
+
+  return workbook.xlsx.writeBuffer();
+};
+
+export default {
+  buildGstr1PortalJson,
+  generateGstr1Excel,
+  gstr1FileName
+};
@@ -0,0 +1,188 @@
+import Counter from '../models/Counter.js';
+import Settings from '../models/Settings.js';
+import Firm from '../models/Firm.js';
+import defaultSettings from '../config/defaultSettings.js';
+
+// Each document type has its own series; the quote workflow states share the quotation series
+export const SERIES_TYPES = ['invoice', 'quotation', 'proforma', 'credit_note'];
+export const SERIES_ACCOUNTS = ['account_1', 'account_2', 'cash', 'cheque'];
+
+const REQUIRED_TOKENS = ['{ACC}', '{FY}', '{SEQ}'];
+const TIME_ZONE = defaultSettings.company.timeZone;
+
+export const seriesFor = (type) => {
+  if (type === 'credit_note' || type === 'proforma' || type === 'invoice') return type;
+  if (type === 'quotation' || String(type).startsWith('quote_')) return 'quotation';
+  return 'invoice';
+};
+
+/**
+ * Indian financial year (April to March) that a date falls in, judged in IST.
+ * @returns {{ label: string, start: number }} e.g. { label: '2026-27', start: 2026 }
+ */
+export const financialYear = (date = new Date()) => {
+  const parts = new Intl.DateTimeFormat('en-GB', { timeZone: TIME_ZONE, year: 'numeric', month: 'numeric' })
+    .formatToParts(new Date(date));
+  const year = Number(parts.find(part => part.type === 'year').value);
+  const month = Number(parts.find(part => part.type === 'month').value);
+  const start = month >= 4 ? year : year - 1;
+  return { label: `${start}-${String(start + 1).slice(-2)}`, start };
+};
+
+export const getNumberingConfig = (settingsData) => {
+  const defaults = defaultSettings.company.invoiceNumbering;
+  const stored = settingsData?.company?.invoiceNumbering || {};
+  const accountCodes = { ...defaults.accountCodes, ...(stored.accountCodes || {}) };
+  return {
+    padding: Number(stored.padding ?? defaults.padding),
+    templates: { ...defaults.templates, ...(stored.templates || {}) },
+    accountCodes: Object.fromEntries(Object.entries(accountCodes).map(([account, code]) => [account, String(code || '').trim()]))
+  };
+};
+
+export const typePrefixes = (firm) => ({
+  invoice: firm?.settings?.invoicePrefix || 'INV',
+  quotation: firm?.settings?.quotationPrefix || 'QUO',
+  proforma: 'PRO',
+  credit_note: firm?.settings?.creditNotePrefix || 'CN'
+});
+
+export const formatNumber = (template, { prefix, account, fy, seq, padding }) =>
+  template
+    .replace(/\{PREFIX\}/g, prefix)
+    .replace(/\{ACC\}/g, account)
+    .replace(/\{FY\}/g, fy)
+    .replace(/\{SEQ\}/g, String(seq).padStart(padding, '0'));
+
+/**
+ * Problems that would make the configured series unusable or let two series
+ * produce the same number. Returns an empty list when the config is fine.
+ */
+export const validateNumberingConfig = (config, prefixes = typePrefixes()) => {
+  const errors = [];
+  const { padding } = config;
+  if (!Number.isInteger(padding) || padding < 1 || padding > 8) {
+    errors.push('Sequence padding must be a whole number from 1 to 8');
+  }
+
+  for (const type of SERIES_TYPES) {
+    const template = String(config.templates?.[type] || '');
+    const missing = REQUIRED_TOKENS.filter(token => !template.includes(token));
+    if (missing.length > 0) {
+      errors.push(`The ${type.replace('_', ' ')} template must include ${missing.join(', ')}`);
+    }
+  }
+
+  const codes = SERIES_ACCOUNTS.map(account => config.accountCodes[account]);
+  if (codes.some(code => !code)) {
+    errors.push('Every account needs a code');
+  } else if (new Set(codes).size !== codes.length) {
+    errors.push('Account codes must be different from each other');
+  }
+
+  if (errors.length === 0) {
+    const samples = SERIES_TYPES.map(type => formatNumber(config.templates[type], {
+      prefix: prefixes[type], account: codes[0], fy: '2000-01', seq: 1, padding
+    }));
+    if (new Set(samples).size !== samples.length) {
+      errors.push('Two document types would produce the same number; give them different templates or prefixes');
+    }
+  }
+
+  return errors;
+};
+
+const counterKey = (firmId, series, account, fy) => `invoice-series:${firmId}:${series}:${account}:${fy}`;
+
+const loadSeriesContext = async (firmId) => {
+  const [settings, firm] = await Promise.all([
+    Settings.findOne({ firm: firmId }).select('data.company.invoiceNumbering').lean(),
+    Firm.findById(firmId).select('settings').lean()
+  ]);
+  const config = getNumberingConfig(settings?.data);
+  const prefixes = typePrefixes(firm);
+  // A broken stored config must never block invoicing; fall back to the defaults
+  const usable = validateNumberingConfig(config, prefixes).length === 0
+    ? config
+    : getNumberingConfig(null);
+  return { config: usable, prefixes };
+};
+
+/**
+ * Take the next number in the series for this document. The counter lives in
+ * its own document per firm, type, account and financial year, so the
+ * increment is atomic and each year starts again from 1.
+ */
+export const allocateInvoiceNumber = async ({ firm, type, collectionMethod, issueDate }, session = null) => {
+  const series = seriesFor(type);
+  const account = SERIES_ACCOUNTS.includes(collectionMethod) ? collectionMethod : 'account_1';
+  const fy = financialYear(issueDate || new Date()).label;
+  const { config, prefixes } = await loadSeriesContext(firm);
+
+  const counterId = counterKey(firm, series, account, fy);
+  const counter = await Counter.findOneAndUpdate(
+    { _id: counterId },
+    { $inc: { seq: 1 } },
+    { new: true, upsert: true, session }
+  );
+
+  return {
+    counterId,
+    seq: counter.seq,
+    invoiceNumber: formatNumber(config.templates[series], {
+      prefix: prefixes[series],
+      account: config.accountCodes[account],
+      fy,
+      seq: counter.seq,
+      padding: config.padding
+    })
+  };
+};
+
+/**
+ * Give a number back after the document failed to save. Only the latest
+ * number can be returned; if someone else has taken a later one already the
+ * gap is unavoidable and the counter is left alone.
+ */
+export const releaseInvoiceNumber = async ({ counterId, seq }) => {
+  await Counter.updateOne({ _id: counterId, seq }, { $inc: { seq: -1 } });
+};
+
+/**
+ * The next number every series would issue, without consuming any.
+ * `draft` lets the settings screen preview a config before it is saved.
+ */
+export const previewNumberSeries = async (firmId, draft = null, date = new Date()) => {
+  const [settings, firm] = await Promise.all([
+    Settings.findOne({ firm: firmId }).select('data.company.invoiceNumbering').lean(),
+    Firm.findById(firmId).select('settings').lean()
+  ]);
+  const config = draft
+    ? getNumberingConfig({ company: { invoiceNumbering: draft } })
+    : getNumberingConfig(settings?.data);
+  const prefixes = typePrefixes(firm);
+  const errors = validateNumberingConfig(config, prefixes);
+  const fy = financialYear(date).label;
+
+  const ids = SERIES_TYPES.flatMap(series => SERIES_ACCOUNTS.map(account => counterKey(firmId, series, account, fy)));
+  const counters = await Counter.find({ _id: { $in: ids } }).lean();
+  const lastBySeries = new Map(counters.map(counter => [counter._id, counter.seq]));
+
+  const series = SERIES_TYPES.flatMap(type => SERIES_ACCOUNTS.map(account => {
+    const lastSequence = lastBySeries.get(counterKey(firmId, type, account, fy)) || 0;
+    return {
+      type,
+      account,
+      lastSequence,
+      nextNumber: errors.length > 0 ? null : formatNumber(config.templates[type], {
+        prefix: prefixes[type],
+        account: config.accountCodes[account],
+        fy,
+        seq: lastSequence + 1,
+        padding: config.padding
+      })
+    };
+  }));
+
+  return { financialYear: fy, errors, series };
+};
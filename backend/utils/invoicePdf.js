@@ -0,0 +1,208 @@
+import PDFDocument from 'pdfkit';
+import QRCode from 'qrcode';
+
+const formatAmount = (amount) =>
+  `Rs. ${(amount || 0).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (date) => (date ? new Date(date).toLocaleDateString('en-IN') : '-');
+
+// IRP acknowledgement times are shown in IST, as on the e-invoice portal
+const formatDateTime = (date) => (date ? new Date(date).toLocaleString('en-IN', { timeZone: 'Asia/Kolkata' }) : '-');
+
+const formatAddress = (address) => {
+  if (!address) return '';
+  if (typeof address === 'string') return address;
+  return [address.street, address.city, address.state, address.pincode].filter(Boolean).join(', ');
+};
+
+const documentLabel = (type) => {
+  if (type === 'credit_note') return 'Credit Note';
+  if (type === 'quotation' || type?.startsWith('quote_')) return 'Quotation';
+  return 'Invoice';
+};
+
+const renderInvoicePdf = (invoice, { paymentLink, einvoice, qrImage }) => new Promise((resolve, reject) => {
+  try {
+    const doc = new PDFDocument({ margin: 50, size: 'A4' });
+    const chunks = [];
+    doc.on('data', chunk => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    const firm = invoice.firm || {};
+    const client = invoice.client || {};
+
+    // Header
+    doc.fontSize(20).fillColor('#1e3a8a').text(firm.name || 'Invoice', { align: 'left' });
+    doc.fontSize(9).fillColor('#555');
+    if (formatAddress(firm.address)) doc.text(formatAddress(firm.address));
+    if (firm.gstNumber) doc.text(`GSTIN: ${firm.gstNumber}`);
+    if (firm.email) doc.text(firm.email);
+
+    const label = documentLabel(invoice.type);
+    doc.fontSize(16).fillColor('#000').text(label === 'Invoice' ? 'TAX INVOICE' : label.toUpperCase(), 50, 50, { align: 'right' });
+    doc.fontSize(10).fillColor('#333')
+      .text(`${label} #: ${invoice.invoiceNumber || '-'}`, { align: 'right' })
+      .text(`Date: ${formatDate(invoice.issueDate)}`, { align: 'right' })
+      .text(`Due: ${formatDate(invoice.dueDate)}`, { align: 'right' });
+
+    // Bill to
+    doc.moveDown(2);
+    doc.fontSize(11).fillColor('#000').text('Bill To', 50);
+    doc.fontSize(10).fillColor('#333').text(client.name || '-');
+    const billingAddress = formatAddress(client.billingAddress) || formatAddress(client.address);
+    if (billingAddress) doc.text(billingAddress);
+    if (client.gstNumber) doc.text(`GSTIN: ${client.gstNumber}`);
+    if (client.email) doc.text(client.email);
+    if (invoice.placeOfSupply?.stateCode) {
+      doc.text(`Place of Supply: ${invoice.placeOfSupply.state} (${invoice.placeOfSupply.stateCode})`);
+    }
+
+    // E-invoice registration
+    if (einvoice) {
+      doc.moveDown(1);
+      const top = doc.y;
+      if (qrImage) doc.image(qrImage, 445, top, { width: 100 });
+      doc.fontSize(9).fillColor('#333')
+        .text(`IRN: ${einvoice.irn}`, 50, top, { width: 380 })
+        .text(`Ack No: ${einvoice.ackNo}`)
+        .text(`Ack Date: ${formatDateTime(einvoice.ackDate)}`);
+      if (qrImage) doc.y = Math.max(doc.y, top + 100);
+    }
+
+    // Items table
+    doc.moveDown(1.5);
+    const columns = { description: 50, quantity: 320, rate: 380, amount: 470 };
+    let y = doc.y;
+    doc.fontSize(10).fillColor('#fff').rect(50, y - 4, 495, 20).fill('#1e3a8a');
+    doc.fillColor('#fff')
+      .text('Description', columns.description + 5, y, { width: 260 })
+      .text('Qty', columns.quantity, y, { width: 50, align: 'right' })
+      .text('Rate', columns.rate, y, { width: 80, align: 'right' })
+      .text('Amount', columns.amount, y, { width: 75, align: 'right' });
+    y += 22;
+
+    doc.fillColor('#333');
+    for (const item of invoice.items || []) {
+      const description = item.hsn
+        ? `${item.description || ''}\nHSN/SAC ${item.hsn} | GST ${item.taxRate ?? 0}%`
+        : item.description || '';
+      const height = Math.max(16, doc.heightOfString(description, { width: 260 }) + 4);
+      if (y + height > doc.page.height - 150) {
+        doc.addPage();
+        y = 50;
+      }
+      doc.text(description, columns.description + 5, y, { width: 260 })
+        .text(String(item.quantity ?? ''), columns.quantity, y, { width: 50, align: 'right' })
+        .text(formatAmount(item.rate), columns.rate, y, { width: 80, align: 'right' })
+        .text(formatAmount(item.amount), columns.amount, y, { width: 75, align: 'right' });
+      y += height;
+      doc.moveTo(50, y - 2).lineTo(545, y - 2).strokeColor('#e5e7eb').stroke();
+    }
+
+    // Totals
+    y += 10;
+    const totalRow = (label, value, bold = false) => {
+      doc.font(bold ? 'Helvetica-Bold' : 'Helvetica')
+        .text(label, 350, y, { width: 110, align: 'right' })
+        .text(value, columns.amount, y, { width: 75, align: 'right' });
+      y += 16;
+    };
+    totalRow('Subtotal', formatAmount(invoice.subtotal));
+    if (invoice.discount?.amount) totalRow('Discount', `- ${formatAmount(invoice.discount.amount)}`);
+    if (invoice.gst?.igst) {
+      totalRow('IGST', formatAmount(invoice.gst.igst));
+    } else if (invoice.taxAmount) {
+      totalRow('CGST', formatAmount(invoice.gst?.cgst));
+      totalRow('SGST', formatAmount(invoice.gst?.sgst));
+    }
+    totalRow('Total', formatAmount(invoice.totalAmount), true);
+    if (invoice.creditedAmount) totalRow('Credited', `- ${formatAmount(invoice.creditedAmount)}`);
+    if (invoice.paidAmount) totalRow('Paid', formatAmount(invoice.paidAmount));
+    totalRow('Balance Due', formatAmount(invoice.balanceAmount), true);
+
+    // Payment details
+    doc.font('Helvetica').fontSize(10).fillColor('#333');
+    doc.moveDown(2);
+    doc.x = 50;
+    if (paymentLink) {
+      doc.fillColor('#1d4ed8').text(`Pay online: ${paymentLink}`, 50, y + 20, { link: paymentLink, underline: true });
+      doc.fillColor('#333');
+    }
+    const bank = invoice.bankDetails?.accountNumber ? invoice.bankDetails : firm.bankDetails;
+    if (bank?.accountNumber) {
+      doc.moveDown(0.5).text('Bank transfer:', 50)
+        .text(`${bank.accountName || ''} - ${bank.bankName || ''}`)
+        .text(`A/c ${bank.accountNumber}  IFSC ${bank.ifscCode || '-'}`);
+    }
+    if (invoice.terms) {
+      doc.moveDown(0.5).text(`Terms: ${invoice.terms}`, 50);
+    }
+
+    doc.end();
+  } catch (error) {
+    reject(error);
+  }
+});
+
+/**
+ * Render an invoice to a PDF buffer for email attachments and the client portal.
+ * Expects `invoice.client` and `invoice.firm` to be populated. Registered
+ * e-invoices carry the IRN, acknowledgement and the IRP's signed QR code.
+ */
+export const generateInvoicePdf = async (invoice, { paymentLink } = {}) => {
+  const einvoice = invoice.einvoice?.status === 'generated' ? invoice.einvoice : null;
+  const qrImage = einvoice?.signedQrCode
+    ? await QRCode.toBuffer(einvoice.signedQrCode, { errorCorrectionLevel: 'M', margin: 1 })
+    : null;
+  return renderInvoicePdf(invoice, { paymentLink, einvoice, qrImage });
+};
+
+/**
+ * Render a receipt for a single payment recorded against an invoice.
+ * Expects `invoice.client` and `invoice.firm` to be populated.
+ */
+export const generatePaymentReceiptPdf = (invoice, payment) => new Promise((resolve, reject) => {
+  try {
+    const doc = new PDFDocument({ margin: 50, size: 'A5', layout: 'landscape' });
+    const chunks = [];
+    doc.on('data', chunk => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    const firm = invoice.firm || {};
+    const client = invoice.client || {};
+
+    doc.fontSize(18).fillColor('#1e3a8a').text(firm.name || 'Payment Receipt');
+    doc.fontSize(9).fillColor('#555');
+    if (formatAddress(firm.address)) doc.text(formatAddress(firm.address));
+    if (firm.gstNumber) doc.text(`GSTIN: ${firm.gstNumber}`);
+
+    doc.fontSize(14).fillColor('#000').text('PAYMENT RECEIPT', 50, 50, { align: 'right' });
+    doc.fontSize(9).fillColor('#333')
+      .text(`Receipt #: ${invoice.invoiceNumber}-${String(payment._id).slice(-6).toUpperCase()}`, { align: 'right' })
+      .text(`Date: ${formatDate(payment.date)}`, { align: 'right' });
+
+    doc.moveDown(3);
+    doc.x = 50;
+    doc.fontSize(11).fillColor('#000')
+      .text(`Received with thanks from ${client.name || '-'} the sum of ${formatAmount(payment.amount)}`, { width: 495 })
+      .text(`against invoice ${invoice.invoiceNumber} dated ${formatDate(invoice.issueDate)}.`, { width: 495 });
+
+    doc.moveDown(1.5).fontSize(10).fillColor('#333');
+    const row = (label, value) => doc.font('Helvetica-Bold').text(`${label}: `, { continued: true }).font('Helvetica').text(value || '-');
+    row('Payment method', (payment.method || '').replace('_', ' '));
+    row('Reference', payment.reference);
+    row('Invoice total', formatAmount(invoice.totalAmount));
+    row('Total received', formatAmount(invoice.paidAmount));
+    row('Balance due', formatAmount(invoice.balanceAmount));
+
+    doc.moveDown(2).fontSize(8).fillColor('#777').text('This is a computer generated receipt and does not require a signature.');
+
+    doc.end();
+  } catch (error) {
+    reject(error);
+  }
+});
+
+export default generateInvoicePdf;
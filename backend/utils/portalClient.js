@@ -0,0 +1,12 @@
+import Client from '../models/Client.js';
+
+const getFirmId = (req) => req.user.firmId?._id || req.user.firmId;
+
+// Portal users are linked to their client record by email, as in the client portal pages
+export const getPortalClient = (req) => Client.findOne({
+  firmId: getFirmId(req),
+  email: req.user.email?.toLowerCase(),
+  isDeleted: { $ne: true }
+});
+
+export default getPortalClient;
@@ -0,0 +1,52 @@
+import crypto from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const PREFIX = 'enc:v1';
+
+let cachedKey = null;
+
+// Key for credentials stored in the database, derived from SETTINGS_ENCRYPTION_KEY
+const getKey = () => {
+  const secret = process.env.SETTINGS_ENCRYPTION_KEY;
+  if (!secret) {
+    return null;
+  }
+  if (cachedKey?.secret !== secret) {
+    cachedKey = { secret, key: crypto.scryptSync(secret, 'settings-secrets', 32) };
+  }
+  return cachedKey.key;
+};
+
+export const canEncryptSecrets = () => !!getKey();
+
+// "enc:v1:<iv>:<tag>:<ciphertext>", all base64
+export const encryptSecret = (plainText) => {
+  if (!plainText) return '';
+  const key = getKey();
+  if (!key) {
+    throw new Error('SETTINGS_ENCRYPTION_KEY is not set');
+  }
+
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const encrypted = Buffer.concat([cipher.update(String(plainText), 'utf8'), cipher.final()]);
+  return [PREFIX, iv.toString('base64'), cipher.getAuthTag().toString('base64'), encrypted.toString('base64')].join(':');
+};
+
+// Returns null when the value cannot be decrypted, e.g. after the key was changed
+export const decryptSecret = (value) => {
+  if (!value) return '';
+  const key = getKey();
+  if (!key || !String(value).startsWith(`${PREFIX}:`)) {
+    return null;
+  }
+
+  try {
+    const [iv, tag, encrypted] = String(value).slice(PREFIX.length + 1).split(':');
+    const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+    return Buffer.concat([decipher.update(Buffer.from(encrypted, 'base64')), decipher.final()]).toString('utf8');
+  } catch {
+    return null;
+  }
+};
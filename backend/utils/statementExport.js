@@ -0,0 +1,170 @@
+import PDFDocument from 'pdfkit';
+import ExcelJS from 'exceljs';
+
+const formatAmount = (amount) =>
+  (amount || 0).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+// Balances are shown as Dr (client owes) / Cr (in credit)
+const formatBalance = (amount) => `${formatAmount(Math.abs(amount))} ${amount < 0 ? 'Cr' : 'Dr'}`;
+
+const formatDate = (date) => (date ? new Date(date).toLocaleDateString('en-IN') : '');
+
+const formatAddress = (address) => {
+  if (!address) return '';
+  if (typeof address === 'string') return address;
+  return [address.street, address.city, address.state, address.pincode].filter(Boolean).join(', ');
+};
+
+export const statementFileName = (statement, extension) =>
+  `Statement-${(statement.client.name || 'client').replace(/[^a-z0-9]+/gi, '_')}-${formatDate(statement.period.to).replace(/\//g, '-')}.${extension}`;
+
+/**
+ * Render a statement of account to a PDF buffer
+ */
+export const generateStatementPdf = (statement, firm = {}) => new Promise((resolve, reject) => {
+  try {
+    const doc = new PDFDocument({ margin: 40, size: 'A4' });
+    const chunks = [];
+    doc.on('data', chunk => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    const { client, period } = statement;
+
+    doc.fontSize(18).fillColor('#1e3a8a').text(firm.name || 'Statement of Account');
+    doc.fontSize(9).fillColor('#555');
+    if (formatAddress(firm.address)) doc.text(formatAddress(firm.address));
+    if (firm.gstNumber) doc.text(`GSTIN: ${firm.gstNumber}`);
+
+    doc.fontSize(14).fillColor('#000').text('STATEMENT OF ACCOUNT', 40, 40, { align: 'right' });
+    doc.fontSize(9).fillColor('#333')
+      .text(`Period: ${formatDate(period.from)} - ${formatDate(period.to)}`, { align: 'right' })
+      .text(`Generated: ${formatDate(statement.generatedAt)}`, { align: 'right' });
+
+    doc.moveDown(2);
+    doc.fontSize(10).fillColor('#000').text(client.name, 40);
+    doc.fontSize(9).fillColor('#333');
+    const address = client.billingAddress || formatAddress(client.address);
+    if (address) doc.text(address);
+    if (client.gstNumber) doc.text(`GSTIN: ${client.gstNumber}`);
+    doc.text(`Payment terms: ${client.paymentTerms ?? 30} days${statement.creditLimit ? `  |  Credit limit: Rs. ${formatAmount(statement.creditLimit)}` : ''}`);
+
+    // Ledger table
+    const cols = [
+      { label: 'Date', x: 40, width: 60 },
+      { label: 'Particulars', x: 100, width: 205 },
+      { label: 'Debit', x: 305, width: 75, align: 'right' },
+      { label: 'Credit', x: 380, width: 75, align: 'right' },
+      { label: 'Balance', x: 455, width: 100, align: 'right' }
+    ];
+    let y = doc.y + 15;
+
+    const header = () => {
+      doc.rect(40, y - 3, 515, 16).fill('#1e3a8a');
+      doc.fillColor('#fff').fontSize(9);
+      cols.forEach(col => doc.text(col.label, col.x + 2, y, { width: col.width - 4, align: col.align || 'left' }));
+      doc.fillColor('#333');
+      y += 18;
+    };
+
+    const row = (values, bold = false) => {
+      doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(8.5);
+      const height = Math.max(14, doc.heightOfString(values[1] || '', { width: cols[1].width - 4 }) + 4);
+      if (y + height > doc.page.height - 60) {
+        doc.addPage();
+        y = 40;
+        header();
+        doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(8.5);
+      }
+      cols.forEach((col, i) => doc.text(values[i] ?? '', col.x + 2, y, { width: col.width - 4, align: col.align || 'left' }));
+      y += height;
+      doc.moveTo(40, y - 2).lineTo(555, y - 2).strokeColor('#e5e7eb').stroke();
+    };
+
+    header();
+    row([formatDate(period.from), 'Opening balance', '', '', formatBalance(statement.openingBalance)], true);
+    statement.entries.forEach(entry => row([
+      formatDate(entry.date),
+      entry.description,
+      entry.debit ? formatAmount(entry.debit) : '',
+      entry.credit ? formatAmount(entry.credit) : '',
+      formatBalance(entry.balance)
+    ]));
+    row(['', 'Total', formatAmount(statement.totals.debit), formatAmount(statement.totals.credit), ''], true);
+    row([formatDate(period.to), 'Closing balance', '', '', formatBalance(statement.closingBalance)], true);
+
+    // Ageing summary
+    y += 15;
+    if (y > doc.page.height - 100) {
+      doc.addPage();
+      y = 40;
+    }
+    doc.font('Helvetica-Bold').fontSize(10).fillColor('#000').text('Ageing of outstanding balance', 40, y);
+    y += 16;
+    const buckets = [...statement.ageingBuckets, { key: 'total', label: 'Total' }];
+    const bucketWidth = 515 / buckets.length;
+    buckets.forEach((bucket, i) => {
+      doc.font('Helvetica').fontSize(8.5).fillColor('#555')
+        .text(bucket.label, 40 + i * bucketWidth, y, { width: bucketWidth - 4, align: 'right' });
+      doc.font('Helvetica-Bold').fillColor('#000')
+        .text(formatAmount(statement.ageing[bucket.key]), 40 + i * bucketWidth, y + 12, { width: bucketWidth - 4, align: 'right' });
+    });
+
+    doc.end();
+  } catch (error) {
+    reject(error);
+  }
+});
+
+/**
+ * Render a statement of account to an Excel workbook buffer
+ */
+export const generateStatementExcel = async (statement, firm = {}) => {
+  const workbook = new ExcelJS.Workbook();
+  const worksheet = workbook.addWorksheet('Statement');
+
+  worksheet.addRow([firm.name || '']).font = { bold: true, size: 14 };
+  worksheet.addRow([`Statement of account - ${statement.client.name}`]).font = { bold: true };
+  worksheet.addRow([`Period: ${formatDate(statement.period.from)} to ${formatDate(statement.period.to)}`]);
+  worksheet.addRow([]);
+
+  const header = worksheet.addRow(['Date', 'Type', 'Reference', 'Particulars', 'Debit', 'Credit', 'Balance']);
+  header.font = { bold: true, color: { argb: 'FFFFFFFF' } };
+  header.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FF1E3A8A' } };
+
+  worksheet.addRow([new Date(statement.period.from), '', '', 'Opening balance', null, null, statement.openingBalance]).font = { bold: true };
+  statement.entries.forEach(entry => worksheet.addRow([
+    new Date(entry.date),
+    entry.type.replace('_', ' '),
+    entry.reference || '',
+    entry.description,
+    entry.debit || null,
+    entry.credit || null,
+    entry.balance
+  ]));
+  worksheet.addRow(['', '', '', 'Total', statement.totals.debit, statement.totals.credit, null]).font = { bold: true };
+  worksheet.addRow([new Date(statement.period.to), '', '', 'Closing balance', null, null, statement.closingBalance]).font = { bold: true };
+
+  worksheet.addRow([]);
+  worksheet.addRow(['Ageing']).font = { bold: true };
+  statement.ageingBuckets.forEach(bucket => worksheet.addRow(['', '', '', bucket.label, null, null, statement.ageing[bucket.key]]));
+  worksheet.addRow(['', '', '', 'Total outstanding', null, null, statement.ageing.total]).font = { bold: true };
+
+  worksheet.columns = [
+    { width: 12, style: { numFmt: 'dd/mm/yyyy' } },
+    { width: 12 },
+    { width: 18 },
+    { width: 50 },
+    { width: 14, style: { numFmt: '#,##0.00' } },
+    { width: 14, style: { numFmt: '#,##0.00' } },
+    { width: 16, style: { numFmt: '#,##0.00;[Red]-#,##0.00' } }
+  ];
+
+  return workbook.xlsx.writeBuffer();
+};
+
+export default {
+  generateStatementPdf,
+  generateStatementExcel,
+  statementFileName
+};
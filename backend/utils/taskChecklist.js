@@ -0,0 +1,77 @@
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A step counts as complete once its maker has finished it, or once a
+ * reviewer has signed it off when sign-off is required.
+ */
+export const isStepComplete = (step) =>
+  step.requiresSignOff ? step.status === 'signed_off' : step.status !== 'pending';
+
+export const checklistProgress = (checklist = []) => {
+  if (checklist.length === 0) return 0;
+  const completed = checklist.filter(isStepComplete).length;
+  return Math.round((completed / checklist.length) * 100);
+};
+
+/**
+ * List the mandatory steps holding a task back from being completed.
+ * Returns an empty array when the task may be completed.
+ */
+export const findIncompleteMandatorySteps = (task, toStatus) => {
+  if (toStatus !== 'completed' || task.status === 'completed') return [];
+
+  return (task.checklist || [])
+    .filter(step => step.mandatory && !isStepComplete(step))
+    .map(step => ({
+      _id: step._id,
+      title: step.title,
+      status: step.status,
+      reason: step.status === 'done'
+        ? `"${step.title}" is waiting for reviewer sign-off`
+        : `"${step.title}" is not done`
+    }));
+};
+
+export const describeIncompleteSteps = (steps) =>
+  `Mandatory checklist steps are not signed off: ${steps.map(step => step.reason).join('; ')}`;
+
+/**
+ * Turn a template's sub-tasks into checklist items for a new task. Step due
+ * dates are offset from the task due date; unassigned steps go to the task assignee.
+ */
+export const buildChecklistFromTemplate = (template, { dueDate, assignee } = {}) =>
+  [...(template.subtasks || [])]
+    .sort((a, b) => (a.order || 0) - (b.order || 0))
+    .map((step, index) => ({
+      title: step.title,
+      description: step.description,
+      order: step.order || index + 1,
+      templateStep: step._id,
+      assignee: step.assignee || assignee || undefined,
+      dueDate: dueDate ? new Date(new Date(dueDate).getTime() + (step.dueOffsetDays || 0) * DAY_MS) : undefined,
+      estimatedHours: step.estimatedHours,
+      mandatory: step.mandatory !== false,
+      requiresEvidence: !!step.requiresEvidence,
+      requiresSignOff: !!step.requiresSignOff
+    }));
+
+/**
+ * Fresh copy of a checklist for the next occurrence of a recurring task
+ */
+export const resetChecklist = (checklist = [], { previousDueDate, dueDate } = {}) => {
+  const shift = previousDueDate && dueDate ? new Date(dueDate) - new Date(previousDueDate) : 0;
+
+  return checklist.map(step => ({
+    title: step.title,
+    description: step.description,
+    order: step.order,
+    templateStep: step.templateStep,
+    assignee: step.assignee,
+    reviewer: step.reviewer,
+    dueDate: step.dueDate ? new Date(new Date(step.dueDate).getTime() + shift) : undefined,
+    estimatedHours: step.estimatedHours,
+    mandatory: step.mandatory,
+    requiresEvidence: step.requiresEvidence,
+    requiresSignOff: step.requiresSignOff
+  }));
+};
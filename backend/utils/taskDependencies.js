@@ -0,0 +1,166 @@
+import Task from '../models/Task.js';
+
+const STARTED_STATUSES = ['inprogress', 'review', 'completed'];
+
+const DEPENDENCY_LABELS = {
+  finish_to_start: 'must be completed before this task can start',
+  start_to_start: 'must be started before this task can start',
+  finish_to_finish: 'must be completed before this task can be completed',
+  start_to_finish: 'must be started before this task can be completed'
+};
+
+const DEPENDENCY_TYPES = Object.keys(DEPENDENCY_LABELS);
+
+const isObjectId = (value) => /^[0-9a-fA-F]{24}$/.test(String(value ?? ''));
+
+const isStarted = (task) => STARTED_STATUSES.includes(task.status);
+const isFinished = (task) => task.status === 'completed';
+// A cancelled predecessor will never finish, so it no longer holds anything up
+const isCancelled = (task) => task.status === 'cancelled';
+
+/**
+ * Check whether a predecessor satisfies a dependency for the given status change.
+ * Start-type links gate leaving "todo"; finish-type links gate "completed".
+ */
+const isSatisfied = (type, predecessor, fromStatus, toStatus) => {
+  if (isCancelled(predecessor)) return true;
+
+  const starting = fromStatus === 'todo' && STARTED_STATUSES.includes(toStatus);
+  const finishing = toStatus === 'completed' && fromStatus !== 'completed';
+
+  switch (type) {
+    case 'start_to_start':
+      return !starting || isStarted(predecessor);
+    case 'finish_to_finish':
+      return !finishing || isFinished(predecessor);
+    case 'start_to_finish':
+      return !finishing || isStarted(predecessor);
+    case 'finish_to_start':
+    default:
+      return !starting || isFinished(predecessor);
+  }
+};
+
+/**
+ * List the predecessors blocking a task from moving to a new status.
+ * Returns an empty array when the change is allowed.
+ */
+export const findBlockingDependencies = async (task, toStatus) => {
+  if (!toStatus || toStatus === task.status || !task.dependencies?.length) return [];
+
+  const predecessorIds = task.dependencies.map(dep => dep.task).filter(Boolean);
+  const predecessors = await Task.find({ _id: { $in: predecessorIds } })
+    .select('title taskId status');
+  const byId = new Map(predecessors.map(p => [p._id.toString(), p]));
+
+  return task.dependencies
+    .filter(dep => dep.task && byId.has(dep.task.toString()))
+    .filter(dep => !isSatisfied(dep.type, byId.get(dep.task.toString()), task.status, toStatus))
+    .map(dep => {
+      const predecessor = byId.get(dep.task.toString());
+      return {
+        task: {
+          _id: predecessor._id,
+          title: predecessor.title,
+          taskId: predecessor.taskId,
+          status: predecessor.status
+        },
+        type: dep.type,
+        reason: `"${predecessor.title}" ${DEPENDENCY_LABELS[dep.type] || DEPENDENCY_LABELS.finish_to_start}`
+      };
+    });
+};
+
+export const describeBlockers = (blockers) =>
+  `Blocked by unfinished dependencies: ${blockers.map(b => b.reason).join('; ')}`;
+
+/**
+ * Find dependency cycles in a set of tasks. Each cycle is returned as an
+ * ordered list of task ids where the last task depends on the first.
+ */
+export const findDependencyCycles = (tasks) => {
+  const graph = new Map(tasks.map(task => [
+    task._id.toString(),
+    (task.dependencies || []).map(dep => dep.task?._id?.toString() || dep.task?.toString()).filter(Boolean)
+  ]));
+
+  const cycles = [];
+  const seen = new Set();
+  const state = new Map(); // 1 = on the current path, 2 = done
+
+  const visit = (id, path) => {
+    state.set(id, 1);
+    path.push(id);
+
+    for (const next of graph.get(id) || []) {
+      if (!graph.has(next)) continue;
+      if (state.get(next) === 1) {
+        const cycle = path.slice(path.indexOf(next));
+        const key = [...cycle].sort().join(',');
+        if (!seen.has(key)) {
+          seen.add(key);
+          cycles.push(cycle);
+        }
+      } else if (!state.get(next)) {
+        visit(next, path);
+      }
+    }
+
+    path.pop();
+    state.set(id, 2);
+  };
+
+  for (const id of graph.keys()) {
+    if (!state.get(id)) visit(id, []);
+  }
+
+  return cycles;
+};
+
+/**
+ * Validate a new dependency list for a task: each entry needs a task id and a known
+ * type, predecessors must exist in the same firm, cannot include the task itself
+ * and must not create a cycle.
+ * Returns an error message, or null when the list is valid.
+ */
+export const validateDependencies = async (taskId, firmId, dependencies = []) => {
+  if (!Array.isArray(dependencies) || !dependencies.every(dep =>
+    dep && typeof dep === 'object' && isObjectId(dep.task) && DEPENDENCY_TYPES.includes(dep.type))) {
+    return 'Each dependency needs a valid task and dependency type';
+  }
+
+  const predecessorIds = dependencies.map(dep => String(dep?.task || '')).filter(Boolean);
+
+  if (taskId && predecessorIds.includes(String(taskId))) {
+    return 'A task cannot depend on itself';
+  }
+
+  const found = await Task.countDocuments({ _id: { $in: predecessorIds }, firm: firmId });
+  if (found !== new Set(predecessorIds).size) {
+    return 'One or more dependency tasks were not found';
+  }
+
+  if (!taskId) return null;
+
+  // Walk the predecessor graph; reaching this task again means a cycle
+  const target = String(taskId);
+  const visited = new Set();
+  let frontier = predecessorIds;
+  while (frontier.length) {
+    const tasks = await Task.find({ _id: { $in: frontier }, firm: firmId }).select('dependencies');
+    frontier = [];
+    for (const task of tasks) {
+      for (const dep of task.dependencies || []) {
+        const id = dep.task?.toString();
+        if (!id) continue;
+        if (id === target) return 'These dependencies would create a cycle';
+        if (!visited.has(id)) {
+          visited.add(id);
+          frontier.push(id);
+        }
+      }
+    }
+  }
+
+  return null;
+};
@@ -0,0 +1,39 @@
+import mongoose from 'mongoose';
+
+let transactionsSupported = null;
+
+// Transactions need a replica set or a sharded cluster; a standalone mongod rejects them
+export const supportsTransactions = async () => {
+  if (transactionsSupported === null) {
+    const hello = await mongoose.connection.db.admin().command({ hello: 1 });
+    transactionsSupported = !!hello.setName || hello.msg === 'isdbgrid';
+  }
+  return transactionsSupported;
+};
+
+/**
+ * Run `work(session)` in a transaction when the server supports one. On a
+ * standalone server it runs with a null session instead, and `rollback` is
+ * called to undo whatever was written if the work throws.
+ */
+export const runInTransaction = async (work, { rollback } = {}) => {
+  if (!(await supportsTransactions())) {
+    try {
+      return await work(null);
+    } catch (error) {
+      if (rollback) await rollback();
+      throw error;
+    }
+  }
+
+  const session = await mongoose.startSession();
+  try {
+    let result;
+    await session.withTransaction(async () => {
+      result = await work(session);
+    });
+    return result;
+  } finally {
+    await session.endSession();
+  }
+};
@@ -0,0 +1,47 @@
+// Service worker for Web Push notifications.
+// Registered from src/hooks/usePushNotifications.tsx.
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('push', (event) => {
+  let payload = {};
+  try {
+    payload = event.data ? event.data.json() : {};
+  } catch {
+    payload = { body: event.data ? event.data.text() : '' };
+  }
+
+  const title = payload.title || 'CA Flow Board';
+  event.waitUntil(
+    self.registration.showNotification(title, {
+      body: payload.body || '',
+      tag: payload.tag,
+      icon: '/favicon.ico',
+      badge: '/favicon.ico',
+      requireInteraction: payload.priority === 'urgent',
+      data: payload.data || {},
+    })
+  );
+});
+
+// Focus an open tab of the app if there is one, otherwise open a new one
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const existing = windows.find((client) => client.url.startsWith(self.location.origin));
+      if (existing) {
+        existing.postMessage({ type: 'notification-click', data: event.notification.data });
+        return existing.focus();
+      }
+      return self.clients.openWindow('/');
+    })
+  );
+});
@@ -21,6 +21,7 @@ import OwnerClients from './pages/owner/OwnerClients';
 import OwnerEmployees from './pages/owner/OwnerEmployees';
 import OwnerInvoices from './pages/owner/OwnerInvoices';
 import OwnerCalendar from './pages/owner/OwnerCalendar';
+import OwnerTimesheets from './pages/owner/OwnerTimesheets';
 import OwnerViews from './pages/owner/OwnerViews';
 import OwnerAnalytics from './pages/owner/OwnerAnalytics';
 import OwnerSettings from './pages/owner/OwnerSettings';
@@ -29,6 +30,7 @@ import RecycleBin from './pages/owner/RecycleBin';
 import GSTReportMonthly from './pages/owner/reports/GSTReportMonthly';
 import GSTReportQuarterly from './pages/owner/reports/GSTReportQuarterly';
 import GSTReportAnnual from './pages/owner/reports/GSTReportAnnual';
+import GSTR1Report from './pages/owner/reports/GSTR1Report';
 
 // Admin routes
 import AdminDashboard from './pages/admin/AdminDashboard';
@@ -44,11 +46,13 @@ import EmployeeTasks from './pages/employee/EmployeeTasks';
 import EmployeeClients from './pages/employee/EmployeeClients';
 import EmployeeChat from './pages/employee/EmployeeChat';
 import EmployeeProfile from './pages/employee/EmployeeProfile';
+import EmployeeTimesheet from './pages/employee/EmployeeTimesheet';
 
 // Client routes
 import ClientDashboard from './pages/client/ClientDashboard';
 import ClientTasks from './pages/client/ClientTasks';
 import ClientDocuments from './pages/client/ClientDocuments';
+import ClientInvoices from './pages/client/ClientInvoices';
 
 const queryClient = new QueryClient();
 
@@ -80,6 +84,8 @@ const App = () => (
                 <Route path="clients" element={<OwnerClients />} />
                 <Route path="employees" element={<OwnerEmployees />} />
                 <Route path="invoices" element={<OwnerInvoices />} />
+                <Route path="calendar" element={<OwnerCalendar />} />
+                <Route path="timesheets" element={<OwnerTimesheets />} />
                 <Route path="views" element={<OwnerViews />} />
                 <Route path="analytics" element={<OwnerAnalytics />} />
                 <Route path="recycle-bin" element={<RecycleBin />} />
@@ -87,6 +93,7 @@ const App = () => (
                 <Route path="reports/gst/monthly" element={<GSTReportMonthly />} />
                 <Route path="reports/gst/quarterly" element={<GSTReportQuarterly />} />
                 <Route path="reports/gst/annual" element={<GSTReportAnnual />} />
+                <Route path="reports/gst/gstr1" element={<GSTR1Report />} />
               </Route>
               
               {/* Super Admin routes */}
@@ -98,12 +105,14 @@ const App = () => (
                 <Route path="dashboard" element={<AdminDashboard />} />
                 <Route path="tasks" element={<AdminTasks />} />
                 <Route path="templates" element={<AdminTemplates />} />
-                <Route path="employees" element={<AdminEmployees />} />
+                <Route path="employees" element={<ProtectedRoute permission="user.view"><AdminEmployees /></ProtectedRoute>} />
                 <Route path="invoices" element={<AdminInvoices />} />
-                <Route path="analytics" element={<AdminAnalytics />} />
-                <Route path="reports/gst/monthly" element={<GSTReportMonthly />} />
-                <Route path="reports/gst/quarterly" element={<GSTReportQuarterly />} />
-                <Route path="reports/gst/annual" element={<GSTReportAnnual />} />
+                <Route path="timesheets" element={<ProtectedRoute permission="timesheet.approve"><OwnerTimesheets /></ProtectedRoute>} />
+                <Route path="analytics" element={<ProtectedRoute permission="report.analytics"><AdminAnalytics /></ProtectedRoute>} />
+                <Route path="reports/gst/monthly" element={<ProtectedRoute permission="report.gst"><GSTReportMonthly /></ProtectedRoute>} />
+                <Route path="reports/gst/quarterly" element={<ProtectedRoute permission="report.gst"><GSTReportQuarterly /></ProtectedRoute>} />
+                <Route path="reports/gst/annual" element={<ProtectedRoute permission="report.gst"><GSTReportAnnual /></ProtectedRoute>} />
+                <Route path="reports/gst/gstr1" element={<ProtectedRoute permission="report.gst"><GSTR1Report /></ProtectedRoute>} />
               </Route>
               
               {/* Employee routes */}
@@ -114,6 +123,7 @@ const App = () => (
               }>
                 <Route path="dashboard" element={<EmployeeDashboard />} />
                 <Route path="tasks" element={<EmployeeTasks />} />
+                <Route path="timesheet" element={<EmployeeTimesheet />} />
                 <Route path="clients" element={<EmployeeClients />} />
                 <Route path="chat" element={<EmployeeChat />} />
                 <Route path="profile" element={<EmployeeProfile />} />
@@ -129,7 +139,7 @@ const App = () => (
                 <Route path="dashboard" element={<ClientDashboard />} />
                 <Route path="tasks" element={<ClientTasks />} />
                 <Route path="documents" element={<ClientDocuments />} />
-                <Route path="invoices" element={<div>My Invoices</div>} />
+                <Route path="invoices" element={<ClientInvoices />} />
                 <Route path="chat" element={<div>Messages</div>} />
               </Route>
               
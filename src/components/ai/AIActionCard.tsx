@@ -0,0 +1,103 @@
+import { useState } from 'react';
+import { Check, ClipboardList, FileText, MessageSquare, UserCheck, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { toast } from 'sonner';
+import {
+  AIActionProposal,
+  AIActionStatus,
+  AIActionType,
+  useCancelAIAction,
+  useConfirmAIAction,
+} from '@/hooks/useAIActions';
+
+const actionIcons: Record<AIActionType, typeof ClipboardList> = {
+  create_task_from_template: ClipboardList,
+  reassign_task: UserCheck,
+  draft_invoice: FileText,
+  log_communication: MessageSquare,
+};
+
+const statusBadges: Partial<Record<AIActionStatus, { label: string; className: string }>> = {
+  executed: { label: 'Done', className: 'bg-green-100 text-green-800' },
+  cancelled: { label: 'Cancelled', className: 'bg-gray-100 text-gray-700' },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-800' },
+};
+
+export const AIActionCard = ({ action }: { action: AIActionProposal }) => {
+  const [status, setStatus] = useState<AIActionStatus>('proposed');
+  const [outcome, setOutcome] = useState('');
+  const confirmMutation = useConfirmAIAction();
+  const cancelMutation = useCancelAIAction();
+  const Icon = actionIcons[action.type] || ClipboardList;
+  const badge = statusBadges[status];
+  const busy = confirmMutation.isPending || cancelMutation.isPending;
+
+  const handleConfirm = async () => {
+    try {
+      const result = await confirmMutation.mutateAsync(action);
+      setStatus('executed');
+      setOutcome(result.message);
+      toast.success(result.message);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to run action';
+      setStatus('failed');
+      setOutcome(message);
+      toast.error(message);
+    }
+  };
+
+  const handleCancel = async () => {
+    try {
+      await cancelMutation.mutateAsync(action);
+      setStatus('cancelled');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to cancel action';
+      setOutcome(message);
+      toast.error(message);
+    }
+  };
+
+  return (
+    <div className="my-2 rounded-xl border border-blue-200 dark:border-blue-800 bg-blue-50/60 dark:bg-blue-950/20 p-3">
+      <div className="flex items-start justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <div className="p-1.5 rounded-lg bg-gradient-to-br from-blue-500 to-purple-500">
+            <Icon className="h-3.5 w-3.5 text-white" />
+          </div>
+          <p className="text-sm font-semibold">{action.title}</p>
+        </div>
+        {badge && <Badge className={badge.className}>{badge.label}</Badge>}
+      </div>
+
+      <dl className="mt-2 space-y-1 text-xs">
+        {action.details.map((detail, idx) => (
+          <div key={idx} className="flex justify-between gap-3">
+            <dt className="text-gray-500 dark:text-gray-400">{detail.label}</dt>
+            <dd className="text-right font-medium">{detail.value}</dd>
+          </div>
+        ))}
+      </dl>
+
+      {outcome && <p className="mt-2 text-xs text-gray-600 dark:text-gray-300">{outcome}</p>}
+
+      {(status === 'proposed' || status === 'failed') && (
+        <div className="mt-3 flex justify-end gap-2">
+          <Button size="sm" variant="outline" className="h-7 text-xs" disabled={busy} onClick={handleCancel}>
+            <X className="h-3 w-3 mr-1" />
+            Cancel
+          </Button>
+          <Button
+            size="sm"
+            className="h-7 text-xs bg-gradient-to-r from-blue-500 to-purple-500 hover:from-blue-600 hover:to-purple-600"
+            disabled={busy}
+            onClick={handleConfirm}
+          >
+            <Check className="h-3 w-3 mr-1" />
+            {confirmMutation.isPending ? 'Running...' : status === 'failed' ? 'Retry' : 'Confirm'}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,14 +1,18 @@
 import { useState, useRef, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Paperclip, Send, X, Bot, User, Loader, Sparkles, Trash2, Lock, LockOpen, Users, ClipboardList, TrendingUp, FileText, Calendar, DollarSign } from 'lucide-react';
+import { Paperclip, Send, X, Bot, User, Loader, Sparkles, Trash2, Lock, LockOpen, AlertTriangle, Users, ClipboardList, TrendingUp, FileText, Calendar, DollarSign } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Badge } from '@/components/ui/badge';
 import { Switch } from '@/components/ui/switch';
 import { toast } from 'sonner';
+import { useQueryClient } from '@tanstack/react-query';
 import { getValidatedToken } from '@/lib/auth';
 import { API_BASE_URL } from '@/config/api.config';
+import { parseAIMessage } from '@/hooks/useAIActions';
+import { useAIQuota } from '@/hooks/useAIQuota';
+import { AIActionCard } from './AIActionCard';
 
 
 interface Message {
@@ -17,6 +21,19 @@ interface Message {
   createdAt?: string;
 }
 
+// Request failures whose message is meant for the user
+class AIRequestError extends Error {}
+
+const getRequestError = async (resp: Response) => {
+  if (resp.status === 503) return new AIRequestError('AI service is not configured. Please contact your administrator.');
+  if (resp.status === 429) {
+    // Either the monthly AI quota (code AI_QUOTA_EXCEEDED) or the per-minute rate limit
+    const body = await resp.json().catch(() => null) as { message?: string } | null;
+    return new AIRequestError(body?.message || 'Too many requests. Please wait a moment and try again.');
+  }
+  return new Error('Failed to get response from AI');
+};
+
 export const AIChatbox = ({ isOpen, onClose }: { isOpen: boolean; onClose: () => void }) => {
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState('');
@@ -24,6 +41,9 @@ export const AIChatbox = ({ isOpen, onClose }: { isOpen: boolean; onClose: () =>
   const [privacyOn, setPrivacyOn] = useState(true);
   const [attachments, setAttachments] = useState<File[]>([]);
   const scrollAreaRef = useRef<HTMLDivElement>(null);
+  const queryClient = useQueryClient();
+  const { data: quota } = useAIQuota(isOpen);
+  const quotaExceeded = quota?.status === 'exceeded';
 
   // Quick action prompts with icons
   const quickActions = [
@@ -73,8 +93,7 @@ export const AIChatbox = ({ isOpen, onClose }: { isOpen: boolean; onClose: () =>
         });
 
         if (!resp.ok || !resp.body) {
-          if (resp.status === 503) throw new Error('AI service is not configured. Please contact your administrator.');
-          throw new Error('Failed to get response from AI');
+          throw await getRequestError(resp);
         }
 
         // Start a placeholder AI message and stream into it
@@ -112,8 +131,7 @@ export const AIChatbox = ({ isOpen, onClose }: { isOpen: boolean; onClose: () =>
         });
 
         if (!resp.ok || !resp.body) {
-          if (resp.status === 503) throw new Error('AI service is not configured. Please contact your administrator.');
-          throw new Error('Failed to get response from AI');
+          throw await getRequestError(resp);
         }
 
         // Stream even for attachments (server supports it)
@@ -138,12 +156,14 @@ export const AIChatbox = ({ isOpen, onClose }: { isOpen: boolean; onClose: () =>
       }
     } catch (error) {
       console.error('AI Chat error:', error);
-      toast.error('Failed to get response from AI.', { duration: 3000 });
-      const errorMessage: Message = { sender: 'ai', text: 'Sorry, I am having trouble connecting. Please try again later.' };
+      const requestError = error instanceof AIRequestError ? error.message : null;
+      toast.error(requestError || 'Failed to get response from AI.', { duration: 3000 });
+      const errorMessage: Message = { sender: 'ai', text: requestError || 'Sorry, I am having trouble connecting. Please try again later.' };
       setMessages((prev) => [...prev, errorMessage]);
     } finally {
       setIsLoading(false);
       setAttachments([]);
+      queryClient.invalidateQueries({ queryKey: ['ai-quota'] });
     }
   };
 
@@ -263,6 +283,18 @@ export const AIChatbox = ({ isOpen, onClose }: { isOpen: boolean; onClose: () =>
                   </div>
                 </div>
               )}
+
+              {/* Monthly quota warning */}
+              {quota && quota.status !== 'ok' && quota.message && (
+                <div className="px-6 pb-3">
+                  <div className={`flex items-center gap-2 px-3 py-2 border rounded-lg ${quotaExceeded ? 'bg-red-50 dark:bg-red-950/20 border-red-200 dark:border-red-800' : 'bg-yellow-50 dark:bg-yellow-950/20 border-yellow-200 dark:border-yellow-800'}`}>
+                    <AlertTriangle className={`h-3.5 w-3.5 flex-shrink-0 ${quotaExceeded ? 'text-red-600' : 'text-yellow-600'}`} />
+                    <p className={`text-xs ${quotaExceeded ? 'text-red-700 dark:text-red-400' : 'text-yellow-700 dark:text-yellow-400'}`}>
+                      {quota.message}
+                    </p>
+                  </div>
+                </div>
+              )}
             </div>
 
             {/* Messages Area */}
@@ -338,7 +370,17 @@ export const AIChatbox = ({ isOpen, onClose }: { isOpen: boolean; onClose: () =>
                           ? 'bg-gradient-to-r from-blue-500 via-blue-600 to-purple-600 text-white group-hover:shadow-xl group-hover:scale-[1.02]' 
                           : 'bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 border border-gray-100 dark:border-gray-700 group-hover:shadow-xl group-hover:border-blue-200 dark:group-hover:border-blue-800'
                       }`}>
-                        <p className="text-sm leading-relaxed whitespace-pre-wrap">{msg.text}</p>
+                        {msg.sender === 'ai' ? (
+                          parseAIMessage(msg.text).map((segment, idx) =>
+                            segment.kind === 'action' ? (
+                              <AIActionCard key={segment.action.id} action={segment.action} />
+                            ) : (
+                              <p key={idx} className="text-sm leading-relaxed whitespace-pre-wrap">{segment.text}</p>
+                            )
+                          )
+                        ) : (
+                          <p className="text-sm leading-relaxed whitespace-pre-wrap">{msg.text}</p>
+                        )}
                       </div>
                       {msg.createdAt && (
                         <p className={`text-[10px] text-gray-400 mt-1.5 px-1 ${msg.sender === 'user' ? 'text-right' : 'text-left'}`}>
@@ -498,7 +540,7 @@ export const AIChatbox = ({ isOpen, onClose }: { isOpen: boolean; onClose: () =>
                   <Button 
                     size="icon"
                     onClick={handleSend} 
-                    disabled={isLoading || !input.trim()}
+                    disabled={isLoading || quotaExceeded || !input.trim()}
                     className="h-8 w-8 rounded-lg bg-gradient-to-r from-blue-500 via-purple-500 to-pink-500 hover:from-blue-600 hover:via-purple-600 hover:to-pink-600 disabled:opacity-50 disabled:cursor-not-allowed shadow-lg hover:shadow-xl transition-all"
                   >
                     <Send className="h-4 w-4 text-white" />
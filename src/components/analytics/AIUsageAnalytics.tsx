@@ -1,11 +1,29 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { useQuery } from '@tanstack/react-query';
-import { Bot, MessageSquare, Clock, TrendingUp, Zap, CheckCircle2, AlertCircle } from 'lucide-react';
+import { Bot, MessageSquare, Clock, TrendingUp, Zap, CheckCircle2, AlertCircle, Gauge, IndianRupee } from 'lucide-react';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Progress } from '@/components/ui/progress';
+import { Badge } from '@/components/ui/badge';
 import { useState } from 'react';
+import { AIQuotaLevel, AIQuotaSummary } from '@/hooks/useAIQuota';
 
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5001/api';
 
+const quotaBadges: Record<AIQuotaLevel, { label: string; className: string }> = {
+  ok: { label: 'On track', className: 'bg-green-100 text-green-800' },
+  warning: { label: 'Nearing limit', className: 'bg-yellow-100 text-yellow-800' },
+  exceeded: { label: 'Limit reached', className: 'bg-red-100 text-red-800' },
+};
+
+const formatTokens = (tokens: number) => {
+  if (tokens >= 1000000) return `${(tokens / 1000000).toFixed(1)}M`;
+  if (tokens >= 1000) return `${(tokens / 1000).toFixed(1)}K`;
+  return String(tokens);
+};
+
+const formatINR = (amount: number) =>
+  new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR', maximumFractionDigits: 2 }).format(amount);
+
 const getValidatedToken = () => {
   const token = localStorage.getItem('ca_flow_token');
   if (!token) {
@@ -72,6 +90,7 @@ export const AIUsageAnalytics = () => {
   };
 
   const hasData = stats.totalQueries > 0;
+  const quota: AIQuotaSummary | undefined = data?.quota;
 
   return (
     <div className="space-y-6">
@@ -90,6 +109,82 @@ export const AIUsageAnalytics = () => {
         </Select>
       </div>
 
+      {/* Monthly quota and spend (always the current calendar month) */}
+      {quota && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="flex items-center justify-between text-sm font-medium">
+                <span className="flex items-center gap-2">
+                  <Gauge className="h-4 w-4 text-muted-foreground" />
+                  Monthly Token Quota
+                </span>
+                <Badge className={quotaBadges[quota.firm.status].className}>{quotaBadges[quota.firm.status].label}</Badge>
+              </CardTitle>
+              <CardDescription className="capitalize">{quota.plan} plan</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div>
+                <div className="flex items-baseline justify-between text-sm">
+                  <span className="text-2xl font-bold">{formatTokens(quota.firm.used)}</span>
+                  <span className="text-muted-foreground">
+                    {quota.firm.limit ? `of ${formatTokens(quota.firm.limit)} tokens` : 'Unlimited'}
+                  </span>
+                </div>
+                {quota.firm.limit && <Progress value={Math.min(quota.firm.percent, 100)} className="mt-2 h-2" />}
+              </div>
+              {quota.byRole.length > 0 && (
+                <div className="space-y-2">
+                  {quota.byRole.map(row => (
+                    <div key={row.role} className="flex items-center justify-between text-sm">
+                      <span className="capitalize">{row.role} <span className="text-muted-foreground">({row.users})</span></span>
+                      <span className="text-muted-foreground">
+                        {formatTokens(row.tokens)} tokens
+                        {row.perUserLimit ? ` · ${formatTokens(row.perUserLimit)}/user limit` : ''}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="flex items-center justify-between text-sm font-medium">
+                <span className="flex items-center gap-2">
+                  <IndianRupee className="h-4 w-4 text-muted-foreground" />
+                  Estimated Spend
+                </span>
+                {quota.firm.limit && (
+                  <Badge className={quotaBadges[quota.projectedStatus].className}>
+                    {quota.projectedStatus === 'ok' ? 'Within quota' : quota.projectedStatus === 'warning' ? 'Projected near limit' : 'Projected over limit'}
+                  </Badge>
+                )}
+              </CardTitle>
+              <CardDescription>Based on provider token prices</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="flex items-baseline justify-between">
+                <span className="text-sm text-muted-foreground">Month to date</span>
+                <span className="text-2xl font-bold">{formatINR(quota.cost.monthToDate)}</span>
+              </div>
+              <div className="flex items-baseline justify-between">
+                <span className="text-sm text-muted-foreground">Projected month end</span>
+                <span className="text-lg font-semibold">{formatINR(quota.cost.projectedMonthEnd)}</span>
+              </div>
+              <div className="flex items-baseline justify-between">
+                <span className="text-sm text-muted-foreground">Projected tokens</span>
+                <span className="text-sm font-medium">
+                  {formatTokens(quota.projectedTokens)}
+                  {quota.firm.limit ? ` of ${formatTokens(quota.firm.limit)}` : ''}
+                </span>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
       {!hasData && (
         <Card className="border-dashed">
           <CardContent className="p-8 text-center">
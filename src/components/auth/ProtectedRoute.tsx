@@ -2,14 +2,18 @@
 import { useSelector } from 'react-redux';
 import { Navigate, useLocation } from 'react-router-dom';
 import { RootState } from '@/store';
+import { usePermissions } from '@/hooks/usePermissions';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
   allowedRoles?: string[];
+  // Firm-configurable permission key (see the Roles settings tab)
+  permission?: string;
 }
 
-export function ProtectedRoute({ children, allowedRoles }: ProtectedRouteProps) {
+export function ProtectedRoute({ children, allowedRoles, permission }: ProtectedRouteProps) {
   const { isAuthenticated, role, loading } = useSelector((state: RootState) => state.auth);
+  const { can, isLoading: permissionsLoading } = usePermissions();
   const location = useLocation();
 
   console.log('🛡️ ProtectedRoute check:', { 
@@ -20,7 +24,7 @@ export function ProtectedRoute({ children, allowedRoles }: ProtectedRouteProps)
     allowedRoles 
   });
 
-  if (loading) {
+  if (loading || (permission && permissionsLoading)) {
     console.log('⏳ Auth loading, showing spinner');
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -40,6 +44,11 @@ export function ProtectedRoute({ children, allowedRoles }: ProtectedRouteProps)
     return <Navigate to="/unauthorized" replace />;
   }
 
+  if (permission && !can(permission)) {
+    console.log('🚫 Permission missing:', permission);
+    return <Navigate to="/unauthorized" replace />;
+  }
+
   console.log('✅ Access granted');
   return <>{children}</>;
 }
@@ -6,9 +6,254 @@ import { Switch } from '@/components/ui/switch';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useAutomation } from '@/hooks/useAutomation';
+import {
+  useEscalationRules,
+  EscalationRule,
+  EscalationRuleInput,
+  EscalationPriority,
+  EscalationTarget,
+  EscalationTrigger,
+  ESCALATION_TARGET_LABELS,
+  ESCALATION_TRIGGER_LABELS,
+} from '@/hooks/useEscalationRules';
 import { useToast } from '@/hooks/use-toast';
-import { Clock, Bot, MessageCircle, FileText, RefreshCw } from 'lucide-react';
+import { Clock, Bot, MessageCircle, FileText, RefreshCw, Siren, Plus, Edit, Trash2, Play } from 'lucide-react';
+
+const PRIORITIES: EscalationPriority[] = ['low', 'medium', 'high', 'urgent'];
+
+const EMPTY_RULE: EscalationRuleInput = {
+  name: '',
+  trigger: 'overdue',
+  thresholdHours: 72,
+  priorities: [],
+  notify: ['creator'],
+  raisePriority: false,
+  isActive: true,
+};
+
+const describeThreshold = (hours: number) =>
+  hours % 24 === 0 ? `${hours / 24} day${hours === 24 ? '' : 's'}` : `${hours} hour${hours === 1 ? '' : 's'}`;
+
+const describeRule = (rule: EscalationRuleInput) => {
+  const span = describeThreshold(rule.thresholdHours);
+  const scope = rule.priorities.length > 0 ? `${rule.priorities.join('/')} tasks` : 'Tasks';
+  if (rule.trigger === 'not_started') return `${scope} not started within ${span}`;
+  if (rule.trigger === 'stalled') return `${scope} with no activity for ${span}`;
+  return `${scope} overdue by ${span}`;
+};
+
+const EscalationRules = () => {
+  const { rules, isLoading, saveRule, isSaving, deleteRule, runRules, isRunning } = useEscalationRules();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [draft, setDraft] = useState<EscalationRuleInput>(EMPTY_RULE);
+  const [unit, setUnit] = useState<'hours' | 'days'>('days');
+
+  const openEditor = (rule?: EscalationRule) => {
+    const base = rule ? { ...EMPTY_RULE, ...rule } : EMPTY_RULE;
+    setEditingId(rule?._id || null);
+    setDraft(base);
+    setUnit(base.thresholdHours % 24 === 0 ? 'days' : 'hours');
+    setIsEditorOpen(true);
+  };
+
+  const toggleIn = <T extends string>(list: T[], value: T, checked: boolean) =>
+    checked ? [...list, value] : list.filter(item => item !== value);
+
+  const amount = unit === 'days' ? draft.thresholdHours / 24 : draft.thresholdHours;
+
+  const handleSave = () => {
+    saveRule(
+      { id: editingId || undefined, ...draft },
+      { onSuccess: () => setIsEditorOpen(false) }
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2">
+            <Siren className="h-5 w-5 text-red-600" />
+            SLA Escalation Rules
+          </CardTitle>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => runRules()} disabled={isRunning || rules.length === 0}>
+              <Play className="h-4 w-4 mr-1" />
+              {isRunning ? 'Running...' : 'Run now'}
+            </Button>
+            <Button size="sm" onClick={() => openEditor()}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add rule
+            </Button>
+          </div>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Rules are checked every hour. Each rule escalates a task once and the escalation is recorded on the task.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading rules...</p>
+        ) : rules.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            No escalation rules yet. For example: urgent tasks not started within 24 hours notify the task creator.
+          </p>
+        ) : (
+          rules.map(rule => (
+            <div key={rule._id} className="flex items-center justify-between gap-3 p-3 border rounded-lg">
+              <div className="min-w-0 space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{rule.name}</span>
+                  <Badge variant="outline">{ESCALATION_TRIGGER_LABELS[rule.trigger]}</Badge>
+                  {rule.raisePriority && <Badge className="bg-orange-100 text-orange-800">Raises priority</Badge>}
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {describeRule(rule)} → notify {rule.notify.map(target => ESCALATION_TARGET_LABELS[target]).join(', ') || 'nobody'}
+                </p>
+                {rule.lastTriggeredAt && (
+                  <p className="text-xs text-muted-foreground">
+                    Last escalated {new Date(rule.lastTriggeredAt).toLocaleString()}
+                  </p>
+                )}
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <Switch
+                  checked={rule.isActive}
+                  onCheckedChange={(checked) => saveRule({ id: rule._id, isActive: checked })}
+                />
+                <Button variant="ghost" size="icon" onClick={() => openEditor(rule)}>
+                  <Edit className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" onClick={() => deleteRule(rule._id)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+
+      <Dialog open={isEditorOpen} onOpenChange={setIsEditorOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit Escalation Rule' : 'New Escalation Rule'}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="rule-name">Name</Label>
+              <Input
+                id="rule-name"
+                value={draft.name}
+                placeholder="e.g. Overdue 3 days"
+                onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+              />
+            </div>
+
+            <div className="grid grid-cols-3 gap-2 items-end">
+              <div className="space-y-2">
+                <Label>When a task is</Label>
+                <Select
+                  value={draft.trigger}
+                  onValueChange={(value) => setDraft(prev => ({ ...prev, trigger: value as EscalationTrigger }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(ESCALATION_TRIGGER_LABELS) as EscalationTrigger[]).map(trigger => (
+                      <SelectItem key={trigger} value={trigger}>{ESCALATION_TRIGGER_LABELS[trigger]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rule-threshold">For</Label>
+                <Input
+                  id="rule-threshold"
+                  type="number"
+                  min="1"
+                  value={amount}
+                  onChange={(e) => {
+                    const value = Math.max(1, parseInt(e.target.value) || 1);
+                    setDraft(prev => ({ ...prev, thresholdHours: unit === 'days' ? value * 24 : value }));
+                  }}
+                />
+              </div>
+              <Select
+                value={unit}
+                onValueChange={(value) => {
+                  const next = value as 'hours' | 'days';
+                  setUnit(next);
+                  setDraft(prev => ({ ...prev, thresholdHours: next === 'days' ? Math.max(1, Math.round(prev.thresholdHours / 24)) * 24 : prev.thresholdHours }));
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="hours">hours</SelectItem>
+                  <SelectItem value="days">days</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Priorities (none ticked means all)</Label>
+              <div className="flex flex-wrap gap-4">
+                {PRIORITIES.map(priority => (
+                  <label key={priority} className="flex items-center gap-2 text-sm capitalize">
+                    <Checkbox
+                      checked={draft.priorities.includes(priority)}
+                      onCheckedChange={(checked) => setDraft(prev => ({ ...prev, priorities: toggleIn(prev.priorities, priority, checked === true) }))}
+                    />
+                    {priority}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Notify</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {(Object.keys(ESCALATION_TARGET_LABELS) as EscalationTarget[]).map(target => (
+                  <label key={target} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={draft.notify.includes(target)}
+                      onCheckedChange={(checked) => setDraft(prev => ({ ...prev, notify: toggleIn(prev.notify, target, checked === true) }))}
+                    />
+                    {ESCALATION_TARGET_LABELS[target]}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="rule-raise">Raise the task's priority one level</Label>
+              <Switch
+                id="rule-raise"
+                checked={draft.raisePriority}
+                onCheckedChange={(checked) => setDraft(prev => ({ ...prev, raisePriority: checked }))}
+              />
+            </div>
+
+            <p className="text-sm text-muted-foreground">{describeRule(draft)}</p>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsEditorOpen(false)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={isSaving || !draft.name.trim() || draft.notify.length === 0}>
+              {isSaving ? 'Saving...' : 'Save rule'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
 
 export const AutomationSettings = () => {
   const { settings, updateSettings, isUpdatingSettings, generateRecurringTasks, isGenerating } = useAutomation();
@@ -232,6 +477,8 @@ export const AutomationSettings = () => {
         </Card>
       </div>
 
+      <EscalationRules />
+
       <div className="flex justify-end">
         <Button 
           onClick={handleSave} 
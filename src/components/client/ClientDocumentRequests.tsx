@@ -0,0 +1,140 @@
+import { useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { ClipboardList, Upload, CheckCircle2, Clock, AlertCircle } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import {
+  useDocumentRequests,
+  DocumentRequestItem,
+  DocumentRequestItemStatus,
+} from '@/hooks/useDocumentRequests';
+
+const itemStatusLabels: Record<DocumentRequestItemStatus, { label: string; className: string }> = {
+  pending: { label: 'To upload', className: 'bg-gray-100 text-gray-700' },
+  uploaded: { label: 'Under review', className: 'bg-blue-100 text-blue-700' },
+  accepted: { label: 'Accepted', className: 'bg-green-100 text-green-700' },
+  rejected: { label: 'Re-upload needed', className: 'bg-red-100 text-red-700' },
+};
+
+export const ClientDocumentRequests = () => {
+  const { requests, isLoading, uploadItem, isUploading } = useDocumentRequests({ status: 'open' });
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [target, setTarget] = useState<{ requestId: string; itemId: string } | null>(null);
+
+  const chooseFile = (requestId: string, item: DocumentRequestItem) => {
+    setTarget({ requestId, itemId: item._id });
+    fileInputRef.current?.click();
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || !target) return;
+
+    try {
+      await uploadItem({ ...target, file });
+    } catch {
+      // Toast already shown by the mutation
+    } finally {
+      setTarget(null);
+    }
+  };
+
+  if (isLoading || requests.length === 0) return null;
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardList className="h-5 w-5" />
+          Documents requested by your CA
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <input
+          ref={fileInputRef}
+          type="file"
+          className="hidden"
+          accept=".pdf,.doc,.docx,.xls,.xlsx,.csv,.jpg,.jpeg,.png,.txt"
+          onChange={handleFileChange}
+        />
+        {requests.map(request => {
+          const done = request.items.length - request.outstandingCount;
+          return (
+            <div key={request._id} className="rounded-lg border">
+              <div className="p-4 space-y-2 bg-muted/50">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div>
+                    <p className="font-medium">{request.title}</p>
+                    {request.task && (
+                      <p className="text-xs text-muted-foreground">For: {request.task.title}</p>
+                    )}
+                  </div>
+                  <span className={`flex items-center gap-1 text-sm ${request.isOverdue ? 'text-red-600' : 'text-muted-foreground'}`}>
+                    {request.isOverdue ? <AlertCircle className="h-4 w-4" /> : <Clock className="h-4 w-4" />}
+                    Due {format(new Date(request.dueDate), 'MMM dd, yyyy')}
+                  </span>
+                </div>
+                {request.message && <p className="text-sm">{request.message}</p>}
+                <div className="flex items-center gap-3">
+                  <Progress value={(done / request.items.length) * 100} className="h-2" />
+                  <span className="text-xs text-muted-foreground whitespace-nowrap">
+                    {done} of {request.items.length} done
+                  </span>
+                </div>
+              </div>
+              <div className="divide-y">
+                {request.items.map(item => {
+                  const status = itemStatusLabels[item.status];
+                  const canUpload = item.status === 'pending' || item.status === 'rejected';
+                  const uploadingThis = isUploading && target?.itemId === item._id;
+                  return (
+                    <div key={item._id} className="flex flex-wrap items-center justify-between gap-3 p-4">
+                      <div className="flex items-start gap-3 min-w-0">
+                        {item.status === 'accepted' ? (
+                          <CheckCircle2 className="h-5 w-5 text-green-600 mt-0.5 shrink-0" />
+                        ) : (
+                          <div className="h-5 w-5 rounded-full border-2 mt-0.5 shrink-0" />
+                        )}
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium">{item.name}</p>
+                          {item.description && <p className="text-xs text-muted-foreground">{item.description}</p>}
+                          {item.document && (
+                            <p className="text-xs text-muted-foreground truncate">
+                              Uploaded: {item.document.originalFileName}
+                            </p>
+                          )}
+                          {item.status === 'rejected' && item.rejectionReason && (
+                            <p className="text-xs text-red-600">{item.rejectionReason}</p>
+                          )}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Badge className={status.className}>{status.label}</Badge>
+                        {canUpload && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={isUploading}
+                            onClick={() => chooseFile(request._id, item)}
+                          >
+                            <Upload className="h-4 w-4 mr-1" />
+                            {uploadingThis ? 'Uploading...' : item.status === 'rejected' ? 'Upload again' : 'Upload'}
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ClientDocumentRequests;
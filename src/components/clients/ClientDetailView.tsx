@@ -12,6 +12,9 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { useClients, useClientCommunications, useClientDocuments, useClientContacts } from '@/hooks/useClients';
 import { Edit, Save, X, Plus, Phone, Mail, MessageSquare, Calendar, FileText, Upload, Download, Trash2, User, Star, Building, Users } from 'lucide-react';
 import { toast } from 'sonner';
+import { TaskGantt } from '@/components/tasks/TaskGantt';
+import { ClientStatement } from '@/components/clients/ClientStatement';
+import { ClientTeamCard } from '@/components/clients/ClientTeamCard';
 import { format } from 'date-fns';
 
 interface ClientDetailViewProps {
@@ -43,7 +46,9 @@ export const ClientDetailView: React.FC<ClientDetailViewProps> = ({ client, onCl
   });
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const { updateClient, isUpdating } = useClients();
+  const { clients, updateClient, isUpdating } = useClients();
+  // The team card reads the cached list so assignment changes show straight away
+  const latestClient = clients.find(c => c.id === client.id) || client;
   const { communications, addCommunication, isAdding: isAddingCommunication } = useClientCommunications(client.id);
   const { documents, uploadDocument, deleteDocument, isUploading, isDeleting } = useClientDocuments(client.id);
   const { contacts, addContact, deleteContact, setPrimary, isAdding: isAddingContact } = useClientContacts(client.id);
@@ -155,11 +160,13 @@ export const ClientDetailView: React.FC<ClientDetailViewProps> = ({ client, onCl
           </div>
 
           <Tabs defaultValue="details" className="space-y-6">
-            <TabsList className="grid w-full grid-cols-4">
+            <TabsList className="grid w-full grid-cols-6">
               <TabsTrigger value="details">Details</TabsTrigger>
               <TabsTrigger value="communications">Communications</TabsTrigger>
               <TabsTrigger value="documents">Documents</TabsTrigger>
               <TabsTrigger value="contacts">Contacts</TabsTrigger>
+              <TabsTrigger value="timeline">Timeline</TabsTrigger>
+              <TabsTrigger value="statement">Statement</TabsTrigger>
             </TabsList>
 
             <TabsContent value="details">
@@ -298,6 +305,12 @@ export const ClientDetailView: React.FC<ClientDetailViewProps> = ({ client, onCl
                     </div>
                   </CardContent>
                 </Card>
+
+                <ClientTeamCard
+                  clientId={client.id}
+                  partner={latestClient.partner}
+                  team={latestClient.assigned_to}
+                />
               </div>
             </TabsContent>
 
@@ -693,6 +706,14 @@ export const ClientDetailView: React.FC<ClientDetailViewProps> = ({ client, onCl
                 </CardContent>
               </Card>
             </TabsContent>
+
+            <TabsContent value="timeline">
+              <TaskGantt clientId={client._id || client.id} title={`${client.name} - Task Timeline`} />
+            </TabsContent>
+
+            <TabsContent value="statement">
+              <ClientStatement clientId={client._id || client.id} clientEmail={client.email} />
+            </TabsContent>
           </Tabs>
         </div>
       </div>
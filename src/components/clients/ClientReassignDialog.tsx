@@ -0,0 +1,117 @@
+import { useState } from 'react';
+import { ArrowRight } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useClientAssignment } from '@/hooks/useClients';
+import { useEmployees } from '@/hooks/useEmployees';
+
+interface ClientReassignDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Clients ticked in the list; when given, the handover can be limited to them
+  selectedClientIds?: string[];
+}
+
+export const ClientReassignDialog = ({ isOpen, onClose, selectedClientIds = [] }: ClientReassignDialogProps) => {
+  const { employees } = useEmployees();
+  const { reassignClients, isReassigning } = useClientAssignment();
+
+  const [fromUserId, setFromUserId] = useState('');
+  const [toUserId, setToUserId] = useState('');
+  const [includeTasks, setIncludeTasks] = useState(true);
+  const [onlySelected, setOnlySelected] = useState(false);
+
+  const handleClose = () => {
+    setFromUserId('');
+    setToUserId('');
+    setOnlySelected(false);
+    onClose();
+  };
+
+  const handleReassign = async () => {
+    try {
+      await reassignClients({
+        fromUserId,
+        toUserId,
+        includeTasks,
+        clientIds: onlySelected ? selectedClientIds : undefined,
+      });
+      handleClose();
+    } catch {
+      // Error toast is shown by the hook
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Reassign Clients</DialogTitle>
+          <DialogDescription>
+            Hand over every client where one staff member is the partner or on the team, for example when they leave.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-[1fr_auto_1fr] items-end gap-2">
+            <div className="space-y-2">
+              <Label>From</Label>
+              <Select value={fromUserId} onValueChange={setFromUserId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select staff" />
+                </SelectTrigger>
+                <SelectContent>
+                  {employees.map(member => (
+                    <SelectItem key={member._id} value={member._id}>
+                      {member.fullName}{!member.isActive ? ' (inactive)' : ''}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <ArrowRight className="h-4 w-4 mb-3 text-muted-foreground" />
+            <div className="space-y-2">
+              <Label>To</Label>
+              <Select value={toUserId} onValueChange={setToUserId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select staff" />
+                </SelectTrigger>
+                <SelectContent>
+                  {employees
+                    .filter(member => member.isActive && member._id !== fromUserId)
+                    .map(member => (
+                      <SelectItem key={member._id} value={member._id}>{member.fullName}</SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox checked={includeTasks} onCheckedChange={(checked) => setIncludeTasks(checked === true)} />
+            Also move their open tasks for these clients
+          </label>
+
+          {selectedClientIds.length > 0 && (
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox checked={onlySelected} onCheckedChange={(checked) => setOnlySelected(checked === true)} />
+              Only the {selectedClientIds.length} selected client{selectedClientIds.length !== 1 ? 's' : ''}
+            </label>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose}>Cancel</Button>
+          <Button onClick={handleReassign} disabled={!fromUserId || !toUserId || isReassigning}>
+            {isReassigning ? 'Reassigning...' : 'Reassign'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ClientReassignDialog;
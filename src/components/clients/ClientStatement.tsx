@@ -0,0 +1,237 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { FileText, FileSpreadsheet, Mail, AlertTriangle } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  useClientStatement,
+  useEmailClientStatement,
+  downloadClientStatement,
+} from '@/hooks/useClientStatement';
+import { toast } from 'sonner';
+
+interface ClientStatementProps {
+  clientId: string;
+  clientEmail?: string;
+}
+
+const formatCurrency = (amount: number) =>
+  `₹${Math.abs(amount || 0).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatBalance = (amount: number) => `${formatCurrency(amount)} ${amount < 0 ? 'Cr' : 'Dr'}`;
+
+// Default to the current financial year (April - March)
+const financialYearStart = () => {
+  const today = new Date();
+  const year = today.getMonth() >= 3 ? today.getFullYear() : today.getFullYear() - 1;
+  return format(new Date(year, 3, 1), 'yyyy-MM-dd');
+};
+
+export function ClientStatement({ clientId, clientEmail }: ClientStatementProps) {
+  const [from, setFrom] = useState(financialYearStart());
+  const [to, setTo] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [downloading, setDownloading] = useState<'pdf' | 'xlsx' | null>(null);
+  const [showEmail, setShowEmail] = useState(false);
+  const [email, setEmail] = useState(clientEmail || '');
+  const [message, setMessage] = useState('');
+
+  const { data: statement, isLoading, error } = useClientStatement(clientId, { from, to });
+  const emailMutation = useEmailClientStatement();
+
+  const handleDownload = async (fileFormat: 'pdf' | 'xlsx') => {
+    setDownloading(fileFormat);
+    try {
+      await downloadClientStatement(clientId, fileFormat, { from, to });
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to download statement');
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  const handleEmail = async () => {
+    try {
+      const result = await emailMutation.mutateAsync({ clientId, from, to, email: email || undefined, message: message || undefined });
+      toast.success(result.message || 'Statement emailed');
+      setShowEmail(false);
+      setMessage('');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to email statement');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <CardTitle>Statement of Account</CardTitle>
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="statement-from">From</Label>
+              <Input id="statement-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="statement-to">To</Label>
+              <Input id="statement-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+            </div>
+            <Button variant="outline" onClick={() => handleDownload('pdf')} disabled={!statement || !!downloading}>
+              <FileText className="h-4 w-4 mr-2" />
+              {downloading === 'pdf' ? 'Preparing...' : 'PDF'}
+            </Button>
+            <Button variant="outline" onClick={() => handleDownload('xlsx')} disabled={!statement || !!downloading}>
+              <FileSpreadsheet className="h-4 w-4 mr-2" />
+              {downloading === 'xlsx' ? 'Preparing...' : 'Excel'}
+            </Button>
+            <Button onClick={() => setShowEmail(true)} disabled={!statement}>
+              <Mail className="h-4 w-4 mr-2" />
+              Email to client
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading statement...</p>
+        ) : error ? (
+          <p className="text-sm text-red-600">{(error as Error).message}</p>
+        ) : statement && (
+          <>
+            <div className="grid gap-4 sm:grid-cols-4">
+              <div className="rounded-lg border p-3">
+                <p className="text-xs text-muted-foreground">Opening balance</p>
+                <p className="text-lg font-semibold">{formatBalance(statement.openingBalance)}</p>
+              </div>
+              <div className="rounded-lg border p-3">
+                <p className="text-xs text-muted-foreground">Invoiced</p>
+                <p className="text-lg font-semibold">{formatCurrency(statement.totals.debit)}</p>
+              </div>
+              <div className="rounded-lg border p-3">
+                <p className="text-xs text-muted-foreground">Received</p>
+                <p className="text-lg font-semibold text-green-700">{formatCurrency(statement.totals.credit)}</p>
+              </div>
+              <div className="rounded-lg border p-3">
+                <p className="text-xs text-muted-foreground">Closing balance</p>
+                <p className="text-lg font-semibold">{formatBalance(statement.closingBalance)}</p>
+              </div>
+            </div>
+
+            {statement.overCreditLimit && (
+              <div className="flex items-center gap-2 rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+                <AlertTriangle className="h-4 w-4" />
+                Balance exceeds the client's credit limit of {formatCurrency(statement.creditLimit)}
+              </div>
+            )}
+
+            <div>
+              <p className="text-sm font-medium mb-2">Ageing as at {format(new Date(statement.period.to), 'dd MMM yyyy')}</p>
+              <div className="grid gap-2 grid-cols-2 sm:grid-cols-5">
+                {statement.ageingBuckets.map(bucket => (
+                  <div key={bucket.key} className="rounded-lg bg-muted/50 p-3">
+                    <p className="text-xs text-muted-foreground">{bucket.label}</p>
+                    <p className={`font-semibold ${bucket.key === 'over90' && statement.ageing[bucket.key] > 0 ? 'text-red-600' : ''}`}>
+                      {formatCurrency(statement.ageing[bucket.key])}
+                    </p>
+                  </div>
+                ))}
+                <div className="rounded-lg bg-muted p-3">
+                  <p className="text-xs text-muted-foreground">Total outstanding</p>
+                  <p className="font-semibold">{formatCurrency(statement.ageing.total)}</p>
+                </div>
+              </div>
+            </div>
+
+            <div className="border rounded-lg overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Particulars</TableHead>
+                    <TableHead className="text-right">Debit</TableHead>
+                    <TableHead className="text-right">Credit</TableHead>
+                    <TableHead className="text-right">Balance</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  <TableRow className="bg-muted/30 font-medium">
+                    <TableCell>{format(new Date(statement.period.from), 'dd MMM yyyy')}</TableCell>
+                    <TableCell>Opening balance</TableCell>
+                    <TableCell />
+                    <TableCell />
+                    <TableCell className="text-right">{formatBalance(statement.openingBalance)}</TableCell>
+                  </TableRow>
+                  {statement.entries.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center text-muted-foreground py-6">
+                        No transactions in this period
+                      </TableCell>
+                    </TableRow>
+                  ) : statement.entries.map((entry, index) => (
+                    <TableRow key={`${entry.invoice}-${entry.type}-${index}`}>
+                      <TableCell className="whitespace-nowrap">{format(new Date(entry.date), 'dd MMM yyyy')}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <Badge variant="outline" className="capitalize">{entry.type.replace('_', ' ')}</Badge>
+                          <span>{entry.description}</span>
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">{entry.debit ? formatCurrency(entry.debit) : ''}</TableCell>
+                      <TableCell className="text-right text-green-700">{entry.credit ? formatCurrency(entry.credit) : ''}</TableCell>
+                      <TableCell className="text-right">{formatBalance(entry.balance)}</TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow className="bg-muted/30 font-medium">
+                    <TableCell>{format(new Date(statement.period.to), 'dd MMM yyyy')}</TableCell>
+                    <TableCell>Closing balance</TableCell>
+                    <TableCell className="text-right">{formatCurrency(statement.totals.debit)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(statement.totals.credit)}</TableCell>
+                    <TableCell className="text-right">{formatBalance(statement.closingBalance)}</TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+            </div>
+          </>
+        )}
+      </CardContent>
+
+      <Dialog open={showEmail} onOpenChange={setShowEmail}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Email statement</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor="statement-email">Send to</Label>
+              <Input id="statement-email" type="email" value={email} onChange={(e) => setEmail(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="statement-message">Message (optional)</Label>
+              <Textarea id="statement-message" rows={3} value={message} onChange={(e) => setMessage(e.target.value)} />
+            </div>
+            <p className="text-xs text-muted-foreground">The statement is attached as PDF and Excel.</p>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowEmail(false)}>Cancel</Button>
+            <Button onClick={handleEmail} disabled={emailMutation.isPending || !email}>
+              {emailMutation.isPending ? 'Sending...' : 'Send'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
+
+export default ClientStatement;
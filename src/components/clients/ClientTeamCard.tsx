@@ -0,0 +1,132 @@
+import { useState } from 'react';
+import { Edit, Save, UserCheck, Users, X } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useClientAssignment, ClientStaff } from '@/hooks/useClients';
+import { useEmployees } from '@/hooks/useEmployees';
+import { usePermissions } from '@/hooks/usePermissions';
+
+interface ClientTeamCardProps {
+  clientId: string;
+  partner?: ClientStaff | null;
+  team?: ClientStaff[];
+}
+
+const NO_PARTNER = 'none';
+
+export const ClientTeamCard = ({ clientId, partner, team = [] }: ClientTeamCardProps) => {
+  const { can } = usePermissions();
+  const canAssign = can('client.assign');
+  const { employees } = useEmployees();
+  const { updateAssignment, isUpdatingAssignment } = useClientAssignment();
+
+  const [isEditing, setIsEditing] = useState(false);
+  const [partnerId, setPartnerId] = useState(partner?.id || NO_PARTNER);
+  const [teamIds, setTeamIds] = useState<string[]>(team.map(member => member.id));
+
+  const activeStaff = employees.filter(member => member.isActive);
+
+  const startEditing = () => {
+    setPartnerId(partner?.id || NO_PARTNER);
+    setTeamIds(team.map(member => member.id));
+    setIsEditing(true);
+  };
+
+  const handleSave = () => {
+    updateAssignment(
+      { id: clientId, partner: partnerId === NO_PARTNER ? null : partnerId, assignedTo: teamIds },
+      { onSuccess: () => setIsEditing(false) }
+    );
+  };
+
+  const toggleMember = (id: string, checked: boolean) => {
+    setTeamIds(prev => (checked ? [...prev, id] : prev.filter(memberId => memberId !== id)));
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <Users className="h-5 w-5" />
+          Engagement Team
+        </CardTitle>
+        {canAssign && !isEditing && (
+          <Button variant="outline" size="sm" onClick={startEditing}>
+            <Edit className="h-4 w-4 mr-1" />
+            Edit
+          </Button>
+        )}
+        {isEditing && (
+          <div className="flex gap-2">
+            <Button size="sm" onClick={handleSave} disabled={isUpdatingAssignment}>
+              <Save className="h-4 w-4 mr-1" />
+              Save
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setIsEditing(false)}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isEditing ? (
+          <>
+            <div className="space-y-2">
+              <Label>Partner / Manager</Label>
+              <Select value={partnerId} onValueChange={setPartnerId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select partner" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_PARTNER}>No partner</SelectItem>
+                  {activeStaff.map(member => (
+                    <SelectItem key={member._id} value={member._id}>{member.fullName}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Team</Label>
+              <div className="max-h-48 overflow-y-auto rounded-md border p-2 space-y-2">
+                {activeStaff.map(member => (
+                  <label key={member._id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={teamIds.includes(member._id)}
+                      onCheckedChange={(checked) => toggleMember(member._id, checked === true)}
+                    />
+                    <span>{member.fullName}</span>
+                    <span className="text-xs text-muted-foreground capitalize">{member.role}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          </>
+        ) : (
+          <>
+            <div>
+              <Label className="text-muted-foreground">Partner / Manager</Label>
+              <div className="mt-1 flex items-center gap-2 text-sm">
+                <UserCheck className="h-4 w-4 text-muted-foreground" />
+                {partner ? partner.name : <span className="text-muted-foreground">Not assigned</span>}
+              </div>
+            </div>
+            <div>
+              <Label className="text-muted-foreground">Team</Label>
+              <div className="mt-1 flex flex-wrap gap-2">
+                {team.length > 0
+                  ? team.map(member => <Badge key={member.id} variant="secondary">{member.name}</Badge>)
+                  : <span className="text-sm text-muted-foreground">No team members</span>}
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ClientTeamCard;
@@ -6,285 +6,248 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
-import { 
+import {
+  useEmailTemplates,
+  type EmailTemplate,
+  type EmailTemplateCategory,
+  type EmailTemplatePreview
+} from '@/hooks/useEmailTemplates';
+import {
   Mail,
   Edit,
   Eye,
   Copy,
   Trash2,
   Plus,
-  Send,
-  FileText
+  FileText,
+  Loader2
 } from 'lucide-react';
 
-interface EmailTemplate {
-  id: string;
+type EditForm = {
   name: string;
   subject: string;
   body: string;
-  category: 'notification' | 'reminder' | 'quotation' | 'invoice' | 'custom';
-  variables: string[];
+  category: EmailTemplateCategory;
   isActive: boolean;
-  createdAt: string;
-  updatedAt: string;
-}
+};
+
+const NEW_TEMPLATE = 'new';
 
 export const EmailTemplateManager = () => {
   const { toast } = useToast();
-  
-  const [selectedTemplate, setSelectedTemplate] = useState<EmailTemplate | null>(null);
+  const {
+    templates,
+    categories,
+    isLoading,
+    createTemplate,
+    updateTemplate,
+    deleteTemplate,
+    previewTemplate,
+    isSaving,
+    isPreviewing
+  } = useEmailTemplates();
+
+  const [selectedId, setSelectedId] = useState<string | null>(null);
   const [isEditing, setIsEditing] = useState(false);
-  const [isPreview, setIsPreview] = useState(false);
-  const [templates, setTemplates] = useState<EmailTemplate[]>([
-    {
-      id: '1',
-      name: 'Task Assignment Notification',
-      subject: 'New Task Assigned: {{task_title}}',
-      body: `Dear {{employee_name}},
-
-A new task has been assigned to you:
-
-Task: {{task_title}}
-Client: {{client_name}}
-Due Date: {{due_date}}
-Priority: {{priority}}
-
-Description:
-{{task_description}}
-
-Please login to your dashboard to view the complete details and start working on this task.
-
-Best regards,
-{{company_name}} Team`,
-      category: 'notification',
-      variables: ['employee_name', 'task_title', 'client_name', 'due_date', 'priority', 'task_description', 'company_name'],
-      isActive: true,
-      createdAt: '2025-01-15T10:00:00Z',
-      updatedAt: '2025-01-15T10:00:00Z'
-    },
-    {
-      id: '2',
-      name: 'Deadline Reminder',
-      subject: 'Reminder: Task Due Soon - {{task_title}}',
-      body: `Dear {{employee_name}},
-
-This is a reminder that the following task is due in {{days_remaining}} days:
-
-Task: {{task_title}}
-Client: {{client_name}}
-Due Date: {{due_date}}
-Current Status: {{task_status}}
-
-Please ensure this task is completed on time to avoid any delays.
-
-If you need any assistance or have concerns about meeting the deadline, please contact your supervisor immediately.
-
-Best regards,
-{{company_name}} Team`,
-      category: 'reminder',
-      variables: ['employee_name', 'task_title', 'client_name', 'due_date', 'days_remaining', 'task_status', 'company_name'],
-      isActive: true,
-      createdAt: '2025-01-16T11:00:00Z',
-      updatedAt: '2025-01-16T11:00:00Z'
-    },
-    {
-      id: '3',
-      name: 'Quotation Sent',
-      subject: 'Quotation for {{service_type}} - {{quotation_number}}',
-      body: `Dear {{client_name}},
-
-Thank you for your interest in our services. Please find attached the quotation for {{service_type}}.
-
-Quotation Details:
-- Quotation Number: {{quotation_number}}
-- Service: {{service_type}}
-- Amount: ₹{{amount}}
-- Valid Until: {{valid_until}}
-
-To proceed with this quotation, please click the link below:
-{{payment_link}}
-
-If you have any questions or need clarification on any aspect of this quotation, please don't hesitate to contact us.
-
-We look forward to serving you.
-
-Best regards,
-{{company_name}}
-{{contact_details}}`,
-      category: 'quotation',
-      variables: ['client_name', 'service_type', 'quotation_number', 'amount', 'valid_until', 'payment_link', 'company_name', 'contact_details'],
-      isActive: true,
-      createdAt: '2025-01-17T09:00:00Z',
-      updatedAt: '2025-01-17T09:00:00Z'
-    },
-    {
-      id: '4',
-      name: 'Invoice Generated',
-      subject: 'Invoice {{invoice_number}} - Payment Due',
-      body: `Dear {{client_name}},
-
-Your invoice has been generated and is ready for payment.
-
-Invoice Details:
-- Invoice Number: {{invoice_number}}
-- Amount: ₹{{total_amount}}
-- Due Date: {{due_date}}
-
-You can download your invoice and make payment using the link below:
-{{invoice_link}}
-
-Payment can be made via:
-- Online payment (Credit/Debit Card, UPI, Net Banking)
-- Bank transfer to our account
-
-For any queries regarding this invoice, please contact us at {{contact_email}} or {{contact_phone}}.
-
-Thank you for your business.
-
-Best regards,
-{{company_name}}`,
-      category: 'invoice',
-      variables: ['client_name', 'invoice_number', 'total_amount', 'due_date', 'invoice_link', 'contact_email', 'contact_phone', 'company_name'],
-      isActive: true,
-      createdAt: '2025-01-18T14:00:00Z',
-      updatedAt: '2025-01-18T14:00:00Z'
-    }
-  ]);
-
-  const [editForm, setEditForm] = useState({
+  const [preview, setPreview] = useState<EmailTemplatePreview | null>(null);
+  const [editForm, setEditForm] = useState<EditForm>({
     name: '',
     subject: '',
     body: '',
-    category: 'custom' as 'notification' | 'reminder' | 'quotation' | 'invoice' | 'custom'
+    category: 'custom',
+    isActive: true
   });
 
+  const selectedTemplate = templates.find(t => t._id === selectedId) || null;
+  const isNew = selectedId === NEW_TEMPLATE;
+  const categoryInfo = categories.find(c => c.key === editForm.category);
+  // Categories still sending the built-in email
+  const defaultCategories = categories.filter(c =>
+    c.key !== 'custom' && !templates.some(t => t.category === c.key && t.isActive)
+  );
+
   const getCategoryColor = (category: string) => {
-    switch (category) {
-      case 'notification': return 'bg-blue-100 text-blue-800';
-      case 'reminder': return 'bg-orange-100 text-orange-800';
-      case 'quotation': return 'bg-green-100 text-green-800';
-      case 'invoice': return 'bg-purple-100 text-purple-800';
-      default: return 'bg-gray-100 text-gray-800';
-    }
+    if (category.startsWith('task_')) return 'bg-blue-100 text-blue-800';
+    if (category.startsWith('quote_')) return 'bg-green-100 text-green-800';
+    if (category.startsWith('payment_')) return 'bg-purple-100 text-purple-800';
+    if (category === 'general_notification') return 'bg-orange-100 text-orange-800';
+    return 'bg-gray-100 text-gray-800';
+  };
+
+  const getCategoryLabel = (category: string) =>
+    categories.find(c => c.key === category)?.label || category;
+
+  const showError = (title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : 'Something went wrong',
+      variant: 'destructive',
+    });
   };
 
   const handleSelectTemplate = (template: EmailTemplate) => {
-    setSelectedTemplate(template);
+    setSelectedId(template._id);
     setIsEditing(false);
-    setIsPreview(false);
+    setPreview(null);
     setEditForm({
       name: template.name,
       subject: template.subject,
       body: template.body,
-      category: template.category
+      category: template.category,
+      isActive: template.isActive
     });
   };
 
-  const handleEdit = () => {
+  const startNewTemplate = (category: EmailTemplateCategory = 'custom') => {
+    const defaults = categories.find(c => c.key === category);
+    setSelectedId(NEW_TEMPLATE);
     setIsEditing(true);
-    setIsPreview(false);
+    setPreview(null);
+    setEditForm({
+      name: defaults && category !== 'custom' ? defaults.label : '',
+      subject: defaults?.subject || '',
+      body: defaults?.body || '',
+      category,
+      isActive: true
+    });
   };
 
-  const handlePreview = () => {
-    setIsPreview(true);
-    setIsEditing(false);
+  const handleCategoryChange = (category: EmailTemplateCategory) => {
+    const defaults = categories.find(c => c.key === category);
+    setEditForm(prev => ({
+      ...prev,
+      category,
+      // Start from the built-in content when nothing has been written yet
+      subject: prev.subject || defaults?.subject || '',
+      body: prev.body || defaults?.body || ''
+    }));
   };
 
-  const handleSave = () => {
-    if (!selectedTemplate) return;
+  const handleEdit = () => {
+    setIsEditing(true);
+    setPreview(null);
+  };
 
-    const updatedTemplate = {
-      ...selectedTemplate,
-      ...editForm,
-      updatedAt: new Date().toISOString()
-    };
+  const handlePreview = async () => {
+    try {
+      const result = await previewTemplate({
+        category: editForm.category,
+        subject: editForm.subject,
+        body: editForm.body
+      });
+      setPreview(result || null);
+      setIsEditing(false);
+    } catch (error) {
+      showError('Preview Failed', error);
+    }
+  };
 
-    setTemplates(prev => prev.map(t => 
-      t.id === selectedTemplate.id ? updatedTemplate : t
-    ));
+  const handleSave = async () => {
+    try {
+      if (isNew) {
+        const created = await createTemplate(editForm);
+        if (created) setSelectedId(created._id);
+      } else if (selectedTemplate) {
+        await updateTemplate({ id: selectedTemplate._id, ...editForm });
+      }
+      setIsEditing(false);
+
+      toast({
+        title: isNew ? "Template Created" : "Template Updated",
+        description: "Email template has been saved successfully.",
+      });
+    } catch (error) {
+      showError('Save Failed', error);
+    }
+  };
 
-    setSelectedTemplate(updatedTemplate);
+  const handleCancel = () => {
+    if (isNew) {
+      setSelectedId(null);
+    } else if (selectedTemplate) {
+      handleSelectTemplate(selectedTemplate);
+    }
     setIsEditing(false);
-
-    toast({
-      title: "Template Updated",
-      description: "Email template has been saved successfully.",
-    });
   };
 
-  const handleDuplicate = (template: EmailTemplate) => {
-    const newTemplate = {
-      ...template,
-      id: Date.now().toString(),
-      name: `${template.name} (Copy)`,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString()
-    };
-
-    setTemplates(prev => [...prev, newTemplate]);
-
-    toast({
-      title: "Template Duplicated",
-      description: "Template has been duplicated successfully.",
-    });
+  const handleDuplicate = async (template: EmailTemplate) => {
+    try {
+      await createTemplate({
+        name: `${template.name} (Copy)`,
+        category: template.category,
+        subject: template.subject,
+        body: template.body,
+        isHtml: template.isHtml,
+        // Copies start inactive so they don't replace the template in use
+        isActive: false
+      });
+
+      toast({
+        title: "Template Duplicated",
+        description: "Template has been duplicated successfully.",
+      });
+    } catch (error) {
+      showError('Duplicate Failed', error);
+    }
   };
 
-  const handleDelete = (templateId: string) => {
-    setTemplates(prev => prev.filter(t => t.id !== templateId));
-    if (selectedTemplate?.id === templateId) {
-      setSelectedTemplate(null);
+  const handleDelete = async (templateId: string) => {
+    try {
+      await deleteTemplate(templateId);
+      if (selectedId === templateId) {
+        setSelectedId(null);
+      }
+
+      toast({
+        title: "Template Deleted",
+        description: "Email template has been deleted successfully.",
+      });
+    } catch (error) {
+      showError('Delete Failed', error);
     }
-
-    toast({
-      title: "Template Deleted",
-      description: "Email template has been deleted successfully.",
-    });
   };
 
   const renderPreview = () => {
-    if (!selectedTemplate) return null;
-
-    const previewData = {
-      employee_name: 'Employee Name',
-      task_title: 'GST Filing for ABC Corp',
-      client_name: 'ABC Corporation',
-      due_date: '2025-02-15',
-      priority: 'High',
-      task_description: 'Complete monthly GST filing and submit returns by due date.',
-      company_name: 'Your Firm Name',
-      days_remaining: '3',
-      task_status: 'In Progress',
-      quotation_number: 'QUO-2025-001',
-      amount: '15000',
-      valid_until: '2025-02-28',
-      payment_link: 'https://example.com/pay/abc123',
-      contact_details: 'Email: contact@yourfirm.com | Phone: +91 00000 00000'
-    };
-
-    let previewSubject = editForm.subject;
-    let previewBody = editForm.body;
-
-    Object.entries(previewData).forEach(([key, value]) => {
-      const regex = new RegExp(`{{${key}}}`, 'g');
-      previewSubject = previewSubject.replace(regex, value);
-      previewBody = previewBody.replace(regex, value);
-    });
+    if (!preview) return null;
+    const { validation } = preview;
 
     return (
       <div className="space-y-4">
+        {!validation.valid && (
+          <div className="p-3 border border-red-200 bg-red-50 rounded text-sm text-red-700">
+            {validation.unknown.length > 0 && (
+              <p>Unknown variables: {validation.unknown.map(v => `{{${v}}}`).join(', ')}</p>
+            )}
+            {validation.malformed.length > 0 && (
+              <p>Malformed placeholders: {validation.malformed.join(', ')}</p>
+            )}
+          </div>
+        )}
         <div>
           <Label className="font-medium">Subject:</Label>
-          <div className="p-3 bg-gray-50 border rounded mt-1">{previewSubject}</div>
+          <div className="p-3 bg-gray-50 border rounded mt-1">{preview.subject}</div>
         </div>
         <div>
           <Label className="font-medium">Body:</Label>
-          <div className="p-3 bg-gray-50 border rounded mt-1 whitespace-pre-wrap">{previewBody}</div>
+          <div className="p-3 bg-gray-50 border rounded mt-1 whitespace-pre-wrap">{preview.text ?? editForm.body}</div>
         </div>
       </div>
     );
   };
 
+  const renderVariables = (variables: string[]) => (
+    <div className="flex flex-wrap gap-1 mt-2">
+      {variables.map((variable) => (
+        <Badge key={variable} variant="outline" className="text-xs">
+          {`{{${variable}}}`}
+        </Badge>
+      ))}
+    </div>
+  );
+
   return (
     <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
       {/* Template List */}
@@ -295,18 +258,24 @@ Best regards,
               <Mail className="h-5 w-5 text-blue-600" />
               Email Templates
             </CardTitle>
-            <Button size="sm" variant="outline">
+            <Button size="sm" variant="outline" onClick={() => startNewTemplate()}>
               <Plus className="h-4 w-4 mr-1" />
               New
             </Button>
           </div>
         </CardHeader>
         <CardContent className="space-y-3">
+          {isLoading && (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          )}
+
           {templates.map((template) => (
             <div
-              key={template.id}
+              key={template._id}
               className={`p-3 border rounded-lg cursor-pointer transition-colors ${
-                selectedTemplate?.id === template.id
+                selectedId === template._id
                   ? 'border-blue-500 bg-blue-50'
                   : 'border-gray-200 hover:border-gray-300'
               }`}
@@ -314,11 +283,11 @@ Best regards,
             >
               <div className="flex items-start justify-between mb-2">
                 <h4 className="font-medium text-sm">{template.name}</h4>
-                <Badge 
-                  variant="secondary" 
+                <Badge
+                  variant="secondary"
                   className={`text-xs ${getCategoryColor(template.category)}`}
                 >
-                  {template.category}
+                  {getCategoryLabel(template.category)}
                 </Badge>
               </div>
               <p className="text-xs text-muted-foreground truncate">
@@ -326,7 +295,7 @@ Best regards,
               </p>
               <div className="flex items-center justify-between mt-2">
                 <span className="text-xs text-muted-foreground">
-                  {template.variables.length} variables
+                  {template.isActive ? 'Active' : 'Inactive'} · {template.variables.length} variables
                 </span>
                 <div className="flex items-center gap-1">
                   <Button
@@ -345,7 +314,7 @@ Best regards,
                     variant="ghost"
                     onClick={(e) => {
                       e.stopPropagation();
-                      handleDelete(template.id);
+                      handleDelete(template._id);
                     }}
                     className="h-6 w-6 p-0 text-red-600 hover:text-red-700"
                   >
@@ -355,6 +324,21 @@ Best regards,
               </div>
             </div>
           ))}
+
+          {defaultCategories.length > 0 && (
+            <>
+              <Separator />
+              <p className="text-xs font-medium text-muted-foreground">Using built-in email</p>
+              {defaultCategories.map((category) => (
+                <div key={category.key} className="flex items-center justify-between p-2 border border-dashed rounded-lg">
+                  <span className="text-sm">{category.label}</span>
+                  <Button size="sm" variant="ghost" onClick={() => startNewTemplate(category.key)}>
+                    Customize
+                  </Button>
+                </div>
+              ))}
+            </>
+          )}
         </CardContent>
       </Card>
 
@@ -363,58 +347,85 @@ Best regards,
         <CardHeader>
           <div className="flex items-center justify-between">
             <CardTitle>
-              {selectedTemplate ? (
-                isEditing ? 'Edit Template' : isPreview ? 'Preview Template' : 'View Template'
+              {selectedId ? (
+                isEditing ? (isNew ? 'New Template' : 'Edit Template') : preview ? 'Preview Template' : 'View Template'
               ) : (
                 'Select a template'
               )}
             </CardTitle>
-            {selectedTemplate && (
+            {selectedId && (
               <div className="flex items-center gap-2">
                 <Button
                   size="sm"
                   variant="outline"
                   onClick={handlePreview}
-                  disabled={isPreview}
+                  disabled={isPreviewing}
                 >
                   <Eye className="h-4 w-4 mr-1" />
                   Preview
                 </Button>
-                <Button
-                  size="sm"
-                  variant="outline"
-                  onClick={handleEdit}
-                  disabled={isEditing}
-                >
-                  <Edit className="h-4 w-4 mr-1" />
-                  Edit
-                </Button>
-                {isEditing && (
-                  <Button size="sm" onClick={handleSave}>
-                    Save
+                {!isNew && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={handleEdit}
+                    disabled={isEditing}
+                  >
+                    <Edit className="h-4 w-4 mr-1" />
+                    Edit
                   </Button>
                 )}
+                {isEditing && (
+                  <>
+                    <Button size="sm" variant="ghost" onClick={handleCancel}>
+                      Cancel
+                    </Button>
+                    <Button size="sm" onClick={handleSave} disabled={isSaving}>
+                      {isSaving ? 'Saving...' : 'Save'}
+                    </Button>
+                  </>
+                )}
               </div>
             )}
           </div>
         </CardHeader>
         <CardContent>
-          {!selectedTemplate ? (
+          {!selectedId ? (
             <div className="text-center text-muted-foreground py-12">
               <FileText className="h-12 w-12 mx-auto mb-4 opacity-50" />
               <p>Select a template from the list to view or edit</p>
             </div>
-          ) : isPreview ? (
+          ) : preview && !isEditing ? (
             renderPreview()
           ) : isEditing ? (
             <div className="space-y-4">
-              <div>
-                <Label htmlFor="templateName">Template Name</Label>
-                <Input
-                  id="templateName"
-                  value={editForm.name}
-                  onChange={(e) => setEditForm(prev => ({ ...prev, name: e.target.value }))}
-                />
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="templateName">Template Name</Label>
+                  <Input
+                    id="templateName"
+                    value={editForm.name}
+                    onChange={(e) => setEditForm(prev => ({ ...prev, name: e.target.value }))}
+                  />
+                </div>
+                <div>
+                  <Label>Used For</Label>
+                  <Select
+                    value={editForm.category}
+                    onValueChange={(value) => handleCategoryChange(value as EmailTemplateCategory)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {categories.map((category) => (
+                        <SelectItem key={category.key} value={category.key}>
+                          {category.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
               </div>
               <div>
                 <Label htmlFor="templateSubject">Subject Line</Label>
@@ -435,20 +446,36 @@ Best regards,
                   rows={12}
                 />
               </div>
+              <div className="flex items-center space-x-2">
+                <Switch
+                  checked={editForm.isActive}
+                  onCheckedChange={(checked) => setEditForm(prev => ({ ...prev, isActive: checked }))}
+                />
+                <Label>Use this template for outgoing emails</Label>
+              </div>
+              {categoryInfo && categoryInfo.variables.length > 0 && (
+                <div>
+                  <Label className="font-medium">Available Variables:</Label>
+                  {renderVariables(categoryInfo.variables)}
+                </div>
+              )}
             </div>
-          ) : (
+          ) : selectedTemplate ? (
             <div className="space-y-4">
               <div>
                 <Label className="font-medium">Template Name:</Label>
                 <p className="text-muted-foreground">{selectedTemplate.name}</p>
               </div>
               <div>
-                <Label className="font-medium">Category:</Label>
-                <Badge 
-                  variant="secondary" 
+                <Label className="font-medium">Used For:</Label>
+                <Badge
+                  variant="secondary"
                   className={`ml-2 ${getCategoryColor(selectedTemplate.category)}`}
                 >
-                  {selectedTemplate.category}
+                  {getCategoryLabel(selectedTemplate.category)}
+                </Badge>
+                <Badge variant="outline" className="ml-2">
+                  {selectedTemplate.isActive ? 'Active' : 'Inactive'}
                 </Badge>
               </div>
               <Separator />
@@ -463,19 +490,13 @@ Best regards,
                 </div>
               </div>
               <div>
-                <Label className="font-medium">Available Variables:</Label>
-                <div className="flex flex-wrap gap-1 mt-2">
-                  {selectedTemplate.variables.map((variable) => (
-                    <Badge key={variable} variant="outline" className="text-xs">
-                      {`{{${variable}}}`}
-                    </Badge>
-                  ))}
-                </div>
+                <Label className="font-medium">Variables Used:</Label>
+                {renderVariables(selectedTemplate.variables)}
               </div>
             </div>
-          )}
+          ) : null}
         </CardContent>
       </Card>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -5,14 +5,31 @@ import { Progress } from '@/components/ui/progress';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, LineChart, Line } from 'recharts';
 import { useAnalytics } from '@/hooks/useAnalytics';
-import { TrendingUp, Award, Target, Users } from 'lucide-react';
+import { useTimeSummary } from '@/hooks/useTimeEntries';
+import { useReviewStats } from '@/hooks/useTasks';
+import { TrendingUp, Award, Target, Users, Timer, ClipboardCheck } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Download } from 'lucide-react';
 import { useState } from 'react';
 
 export const EmployeePerformanceMetrics = () => {
   const analytics = useAnalytics();
-  const employeePerformance = Array.isArray(analytics?.employeePerformance) ? analytics.employeePerformance : [];
+  const { summary: timeSummary } = useTimeSummary();
+  const { data: reviewStats = [] } = useReviewStats();
+  // Hours come from approved timesheet entries, matched on employee id
+  const hoursByEmployee = new Map(timeSummary.map(entry => [String(entry.user), entry]));
+  const reviewsByEmployee = new Map(reviewStats.map(entry => [String(entry.user), entry]));
+  const employeePerformance = (Array.isArray(analytics?.employeePerformance) ? analytics.employeePerformance : []).map(emp => ({
+    ...emp,
+    hoursLogged: hoursByEmployee.get(String(emp?.employeeId))?.totalHours ?? 0,
+    billableHours: hoursByEmployee.get(String(emp?.employeeId))?.billableHours ?? 0,
+    reviewedTasks: reviewsByEmployee.get(String(emp?.employeeId))?.reviewedTasks ?? 0,
+    firstPassRate: reviewsByEmployee.get(String(emp?.employeeId))?.firstPassRate ?? null,
+  }));
+  // Share of reviewed tasks approved on their first review cycle, across the firm
+  const reviewedTotal = reviewStats.reduce((sum, entry) => sum + entry.reviewedTasks, 0);
+  const firstPassTotal = reviewStats.reduce((sum, entry) => sum + entry.firstPassApproved, 0);
+  const formatRate = (rate: number | null) => (rate === null ? '—' : `${rate.toFixed(1)}%`);
   const [exporting, setExporting] = useState(false);
 
   const getEmployeeInitials = (name?: string) => {
@@ -67,7 +84,7 @@ export const EmployeePerformanceMetrics = () => {
   const exportAsCSV = () => {
     try {
       setExporting(true);
-      const headers = ['employeeId', 'employeeName', 'totalTasks', 'completedTasks', 'onTimeTasks', 'efficiency', 'workload'];
+      const headers = ['employeeId', 'employeeName', 'totalTasks', 'completedTasks', 'onTimeTasks', 'efficiency', 'workload', 'hoursLogged', 'billableHours', 'reviewedTasks', 'firstPassRate'];
       const rows = employeePerformance.map(emp => [
   String(emp?.employeeId ?? ''),
         String(emp?.employeeName ?? ''),
@@ -76,6 +93,10 @@ export const EmployeePerformanceMetrics = () => {
         String(safeNum(emp?.onTimeTasks)),
         String(safeNum(emp?.efficiency)),
         String(safeNum(emp?.workload)),
+        String(safeNum(emp?.hoursLogged)),
+        String(safeNum(emp?.billableHours)),
+        String(safeNum(emp?.reviewedTasks)),
+        emp?.firstPassRate === null ? '' : String(emp.firstPassRate),
       ]);
       const csv = [headers.join(','), ...rows.map(r => r.map(cell => `"${String(cell).replace(/"/g, '""')}"`).join(','))].join('\n');
       const blob = new Blob([csv], { type: 'text/csv' });
@@ -95,7 +116,7 @@ export const EmployeePerformanceMetrics = () => {
   return (
     <div className="space-y-6">
       {/* Performance Overview */}
-      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-6 gap-4">
         <Card>
           <CardContent className="p-4">
             <div className="flex items-center gap-2">
@@ -149,6 +170,34 @@ export const EmployeePerformanceMetrics = () => {
             </div>
           </CardContent>
         </Card>
+
+        <Card>
+          <CardContent className="p-4">
+            <div className="flex items-center gap-2">
+              <Timer className="h-5 w-5 text-teal-600" />
+              <div>
+                <p className="text-sm font-medium">Approved Hours</p>
+                <p className="text-2xl font-bold">
+                  {employeePerformance.reduce((sum, emp) => sum + safeNum(emp.hoursLogged), 0).toFixed(1)}
+                </p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="p-4">
+            <div className="flex items-center gap-2">
+              <ClipboardCheck className="h-5 w-5 text-indigo-600" />
+              <div>
+                <p className="text-sm font-medium">First-Pass Approval</p>
+                <p className="text-2xl font-bold">
+                  {formatRate(reviewedTotal > 0 ? (firstPassTotal / reviewedTotal) * 100 : null)}
+                </p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
       </div>
 
       {/* Performance Charts */}
@@ -268,7 +317,7 @@ export const EmployeePerformanceMetrics = () => {
                   </Badge>
                 </div>
 
-                <div className="grid grid-cols-4 gap-4 mb-3">
+                <div className="grid grid-cols-3 md:grid-cols-7 gap-4 mb-3">
                   <div className="text-center">
                     <p className="text-sm text-gray-600">Total Tasks</p>
                     <p className="text-lg font-bold">{safeNum(employee.totalTasks)}</p>
@@ -285,6 +334,19 @@ export const EmployeePerformanceMetrics = () => {
                     <p className="text-sm text-gray-600">Workload</p>
                     <p className="text-lg font-bold text-orange-600">{safeNum(employee.workload)}</p>
                   </div>
+                  <div className="text-center">
+                    <p className="text-sm text-gray-600">Hours Logged</p>
+                    <p className="text-lg font-bold">{safeNum(employee.hoursLogged).toFixed(1)}h</p>
+                  </div>
+                  <div className="text-center">
+                    <p className="text-sm text-gray-600">Billable</p>
+                    <p className="text-lg font-bold text-teal-600">{safeNum(employee.billableHours).toFixed(1)}h</p>
+                  </div>
+                  <div className="text-center">
+                    <p className="text-sm text-gray-600">First Pass</p>
+                    <p className="text-lg font-bold text-indigo-600">{formatRate(employee.firstPassRate)}</p>
+                    <p className="text-xs text-gray-500">{safeNum(employee.reviewedTasks)} reviewed</p>
+                  </div>
                 </div>
 
                 <div className="space-y-2">
@@ -17,6 +17,7 @@ import { useToast } from '@/hooks/use-toast';
 import { useSelector } from 'react-redux';
 import { RootState } from '@/store';
 import api from '@/services/api';
+import { PushDeviceSettings } from '@/components/notifications/PushDeviceSettings';
 
 interface EmployeeSettingsModalProps {
   isOpen: boolean;
@@ -332,6 +333,8 @@ export const EmployeeSettingsModal = ({ isOpen, onClose }: EmployeeSettingsModal
                   onCheckedChange={setChatNotifications}
                 />
               </div>
+
+              <PushDeviceSettings />
             </div>
           </TabsContent>
 
@@ -1,73 +1,76 @@
 
-import { useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
+import { format } from 'date-fns';
 import { Form, FormField, FormItem, FormLabel, FormControl, FormMessage } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Button } from '@/components/ui/button';
-import { toast } from 'sonner';
+import { useClients } from '@/hooks/useClients';
+import { useEmployees } from '@/hooks/useEmployees';
+import { useCreateCalendarEvent } from '@/hooks/useCalendar';
 
 const formSchema = z.object({
   title: z.string().min(2, "Title must be at least 2 characters"),
   date: z.string().min(1, "Date is required"),
   time: z.string().min(1, "Time is required"),
-  type: z.string(),
+  endTime: z.string().optional(),
+  type: z.enum(['meeting', 'deadline', 'internal', 'other']),
   description: z.string().optional(),
   clientId: z.string().optional(),
+  attendeeId: z.string().optional(),
+}).refine(values => !values.endTime || values.endTime > values.time, {
+  message: "End time must be after the start time",
+  path: ['endTime'],
 });
 
-export function AddEventForm({ onSuccess }: { onSuccess: () => void }) {
-  const [isSubmitting, setIsSubmitting] = useState(false);
+interface AddEventFormProps {
+  onSuccess: () => void;
+  defaultDate?: Date;
+}
+
+export function AddEventForm({ onSuccess, defaultDate }: AddEventFormProps) {
+  const { clients = [] } = useClients();
+  const { employees = [] } = useEmployees();
+  const createEvent = useCreateCalendarEvent();
   
   const form = useForm<z.infer<typeof formSchema>>({
     resolver: zodResolver(formSchema),
     defaultValues: {
       title: '',
-      date: new Date().toISOString().slice(0, 10),
+      date: format(defaultDate || new Date(), 'yyyy-MM-dd'),
       time: '09:00',
+      endTime: '10:00',
       type: 'meeting',
       description: '',
       clientId: undefined,
+      attendeeId: undefined,
     },
   });
   
-  // Sample clients data
-  const clients = [
-    { id: '101', name: 'ABC Corp' },
-    { id: '102', name: 'XYZ Industries' },
-    { id: '103', name: 'Smith & Co.' },
-    { id: '104', name: 'Johnson LLC' },
-    { id: '105', name: 'Patel Enterprises' },
-  ];
-  
   const onSubmit = async (values: z.infer<typeof formSchema>) => {
     try {
-      setIsSubmitting(true);
-      
       // Combine date and time
-      const dateTime = new Date(`${values.date}T${values.time}:00`);
+      const startDate = new Date(`${values.date}T${values.time}:00`);
+      const endDate = values.endTime ? new Date(`${values.date}T${values.endTime}:00`) : undefined;
       
-      const eventData = {
-        ...values,
-        dateTime,
-      };
-      
-      console.log('Creating event:', eventData);
-      
-      // Simulate API call
-      setTimeout(() => {
-        toast.success("Event created successfully");
-        setIsSubmitting(false);
-        form.reset();
-        onSuccess();
-      }, 1000);
+      await createEvent.mutateAsync({
+        title: values.title,
+        description: values.description,
+        type: values.type,
+        startDate: startDate.toISOString(),
+        endDate: endDate?.toISOString(),
+        client: values.clientId,
+        attendees: values.attendeeId ? [values.attendeeId] : [],
+      });
+
+      form.reset();
+      onSuccess();
     } catch (error) {
+      // Toast is raised by the mutation
       console.error('Error creating event:', error);
-      toast.error("Failed to create event");
-      setIsSubmitting(false);
     }
   };
   
@@ -88,7 +91,7 @@ export function AddEventForm({ onSuccess }: { onSuccess: () => void }) {
           )}
         />
         
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
           <FormField
             control={form.control}
             name="date"
@@ -108,7 +111,21 @@ export function AddEventForm({ onSuccess }: { onSuccess: () => void }) {
             name="time"
             render={({ field }) => (
               <FormItem>
-                <FormLabel>Time</FormLabel>
+                <FormLabel>Start Time</FormLabel>
+                <FormControl>
+                  <Input type="time" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="endTime"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>End Time</FormLabel>
                 <FormControl>
                   <Input type="time" {...field} />
                 </FormControl>
@@ -156,7 +173,7 @@ export function AddEventForm({ onSuccess }: { onSuccess: () => void }) {
                     </SelectTrigger>
                   </FormControl>
                   <SelectContent>
-                    {clients.map(client => (
+                    {clients.map((client) => (
                       <SelectItem key={client.id} value={client.id}>{client.name}</SelectItem>
                     ))}
                   </SelectContent>
@@ -166,6 +183,29 @@ export function AddEventForm({ onSuccess }: { onSuccess: () => void }) {
             )}
           />
         </div>
+
+        <FormField
+          control={form.control}
+          name="attendeeId"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Attendee (Optional)</FormLabel>
+              <Select onValueChange={field.onChange} value={field.value}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select team member (optional)" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {employees.map((employee) => (
+                    <SelectItem key={employee._id} value={employee._id}>{employee.fullName}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
         
         <FormField
           control={form.control}
@@ -185,9 +225,9 @@ export function AddEventForm({ onSuccess }: { onSuccess: () => void }) {
           <Button 
             type="submit" 
             className="bg-ca-blue hover:bg-ca-blue-dark"
-            disabled={isSubmitting}
+            disabled={createEvent.isPending}
           >
-            {isSubmitting ? "Creating..." : "Create Event"}
+            {createEvent.isPending ? "Creating..." : "Create Event"}
           </Button>
         </div>
       </form>
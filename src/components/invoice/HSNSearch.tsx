@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { Search, Calculator, Info } from 'lucide-react';
+import { Search, Info, Star } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
@@ -9,6 +9,8 @@ import { hsnService, HSNCode } from '@/services/hsn';
 
 interface HSNSearchProps {
   value?: string;
+  // Invoice date, so the rate shown is the one in force then
+  date?: string;
   onSelect?: (hsn: HSNCode) => void;
   onHSNChange?: (hsnCode: string) => void;
   placeholder?: string;
@@ -17,6 +19,7 @@ interface HSNSearchProps {
 
 export const HSNSearch: React.FC<HSNSearchProps> = ({
   value = '',
+  date,
   onSelect,
   onHSNChange,
   placeholder = 'Search HSN/SAC codes...',
@@ -31,7 +34,7 @@ export const HSNSearch: React.FC<HSNSearchProps> = ({
   // Initialize with value if provided
   useEffect(() => {
     if (value && !selectedHSN) {
-      hsnService.getHSNByCode(value).then(hsn => {
+      hsnService.getHSNByCode(value, date).then(hsn => {
         if (hsn) {
           setSelectedHSN(hsn);
           setSearchQuery(`${hsn.hsn} - ${hsn.description}`);
@@ -40,7 +43,7 @@ export const HSNSearch: React.FC<HSNSearchProps> = ({
         }
       });
     }
-  }, [value, selectedHSN]);
+  }, [value, date, selectedHSN]);
 
   // Search HSN codes
   useEffect(() => {
@@ -53,7 +56,7 @@ export const HSNSearch: React.FC<HSNSearchProps> = ({
 
       setIsSearching(true);
       try {
-        const results = await hsnService.searchHSN(searchQuery);
+        const results = await hsnService.searchHSN(searchQuery, date);
         setSearchResults(results);
         setShowResults(results.length > 0);
       } catch (error) {
@@ -66,7 +69,32 @@ export const HSNSearch: React.FC<HSNSearchProps> = ({
 
     const debounceTimeout = setTimeout(searchHSN, 300);
     return () => clearTimeout(debounceTimeout);
-  }, [searchQuery]);
+  }, [searchQuery, date]);
+
+  // Before anything is typed, offer the firm's favourite codes
+  const showFavourites = async () => {
+    if (searchResults.length > 0) {
+      setShowResults(true);
+      return;
+    }
+    if (searchQuery) return;
+    const favourites = await hsnService.getFavourites();
+    setSearchResults(favourites);
+    setShowResults(favourites.length > 0);
+  };
+
+  const toggleFavourite = async (hsn: HSNCode) => {
+    try {
+      await hsnService.setFavourite(hsn.hsn, !hsn.isFavourite);
+      setSearchResults(results => results.map(result =>
+        result.hsn === hsn.hsn ? { ...result, isFavourite: !hsn.isFavourite } : result
+      ));
+    } catch (error) {
+      console.error('Error updating HSN favourites:', error);
+    }
+  };
+
+  const formatRate = (rate: number | null) => (rate === null ? 'rate not set' : `${rate}%`);
 
   const handleHSNSelect = (hsn: HSNCode) => {
     setSelectedHSN(hsn);
@@ -114,7 +142,7 @@ export const HSNSearch: React.FC<HSNSearchProps> = ({
           onChange={handleInputChange}
           placeholder={placeholder}
           className="pl-10 pr-10"
-          onFocus={() => searchResults.length > 0 && setShowResults(true)}
+          onFocus={showFavourites}
         />
         
         {selectedHSN && (
@@ -161,9 +189,9 @@ export const HSNSearch: React.FC<HSNSearchProps> = ({
                         {hsn.category}
                       </Badge>
                       <span className="text-xs text-green-600 font-medium">
-                        GST: {hsn.igst}%
+                        GST: {formatRate(hsn.igst)}
                       </span>
-                      {hsn.cess && (
+                      {!!hsn.cess && (
                         <span className="text-xs text-orange-600 font-medium">
                           Cess: {hsn.cess}%
                         </span>
@@ -171,6 +199,19 @@ export const HSNSearch: React.FC<HSNSearchProps> = ({
                     </div>
                   </div>
                   
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0"
+                    title={hsn.isFavourite ? 'Remove from favourites' : 'Add to favourites'}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      toggleFavourite(hsn);
+                    }}
+                  >
+                    <Star className={`h-3 w-3 ${hsn.isFavourite ? 'fill-yellow-400 text-yellow-500' : ''}`} />
+                  </Button>
+
                   <Popover>
                     <PopoverTrigger asChild>
                       <Button
@@ -186,11 +227,22 @@ export const HSNSearch: React.FC<HSNSearchProps> = ({
                       <div className="space-y-2">
                         <h4 className="font-medium text-sm">Tax Breakdown</h4>
                         <div className="grid grid-cols-2 gap-2 text-xs">
-                          <div>CGST: {hsn.cgst}%</div>
-                          <div>SGST: {hsn.sgst}%</div>
-                          <div>IGST: {hsn.igst}%</div>
-                          {hsn.cess && <div>Cess: {hsn.cess}%</div>}
+                          <div>CGST: {formatRate(hsn.cgst)}</div>
+                          <div>SGST: {formatRate(hsn.sgst)}</div>
+                          <div>IGST: {formatRate(hsn.igst)}</div>
+                          {!!hsn.cess && <div>Cess: {hsn.cess}%</div>}
                         </div>
+                        {hsn.rates && hsn.rates.length > 1 && (
+                          <div className="space-y-1 pt-2 border-t">
+                            <h4 className="font-medium text-xs">Rate history</h4>
+                            {hsn.rates.map(entry => (
+                              <div key={entry.effectiveFrom} className="flex justify-between text-xs text-gray-600">
+                                <span>From {new Date(entry.effectiveFrom).toLocaleDateString('en-IN')}</span>
+                                <span>{entry.rate}%</span>
+                              </div>
+                            ))}
+                          </div>
+                        )}
                       </div>
                     </PopoverContent>
                   </Popover>
@@ -216,9 +268,9 @@ export const HSNSearch: React.FC<HSNSearchProps> = ({
             
             <div className="flex items-center gap-2">
               <Badge variant="outline" className="bg-white text-xs">
-                GST: {selectedHSN.igst}%
+                GST: {formatRate(selectedHSN.igst)}
               </Badge>
-              {selectedHSN.cess && (
+              {!!selectedHSN.cess && (
                 <Badge variant="outline" className="bg-white text-xs">
                   Cess: {selectedHSN.cess}%
                 </Badge>
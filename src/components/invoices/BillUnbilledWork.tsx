@@ -0,0 +1,218 @@
+import { useEffect, useMemo, useState } from 'react';
+import { format, startOfMonth } from 'date-fns';
+import { FileText, AlertCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  useUnbilledWork,
+  useBillUnbilledWork,
+  UnbilledDraftItem,
+  UnbilledItemOverride,
+} from '@/hooks/useInvoices';
+import { toast } from 'sonner';
+
+interface BillUnbilledWorkProps {
+  onSuccess?: () => void;
+}
+
+const pricingSourceLabels: Record<UnbilledDraftItem['pricingSource'], string> = {
+  fixed_price: 'Fixed price',
+  logged_hours: 'Logged hours',
+  estimated_hours: 'Estimated hours',
+  last_invoice: 'Last invoice',
+  manual: 'Manual',
+  none: 'Needs rate',
+};
+
+const formatCurrency = (amount: number) =>
+  `₹${(amount || 0).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export const BillUnbilledWork = ({ onSuccess }: BillUnbilledWorkProps) => {
+  const [from, setFrom] = useState(format(startOfMonth(new Date()), 'yyyy-MM-dd'));
+  const [to, setTo] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [excludedClients, setExcludedClients] = useState<string[]>([]);
+  const [rates, setRates] = useState<Record<string, string>>({});
+
+  const { data, isLoading, error } = useUnbilledWork({ from, to });
+  const billMutation = useBillUnbilledWork();
+  const drafts = useMemo(() => data?.drafts || [], [data]);
+
+  useEffect(() => {
+    setExcludedClients([]);
+    setRates({});
+  }, [from, to]);
+
+  const itemRate = (item: UnbilledDraftItem) =>
+    rates[String(item.task)] !== undefined ? Number(rates[String(item.task)]) || 0 : item.rate;
+
+  const selectedDrafts = drafts
+    .filter(draft => !excludedClients.includes(draft.client._id))
+    .map(draft => {
+      const items = draft.items.map(item => {
+        const rate = itemRate(item);
+        return { ...item, rate, amount: Math.round(rate * item.quantity * 100) / 100 };
+      });
+      const subtotal = items.reduce((sum, item) => sum + item.amount, 0);
+      const taxAmount = items.reduce((sum, item) => sum + (item.taxable ? item.amount * (item.taxRate ?? 18) / 100 : 0), 0);
+      return { ...draft, items, subtotal, taxAmount, totalAmount: subtotal + taxAmount };
+    });
+
+  const unpricedItems = selectedDrafts.flatMap(draft => draft.items).filter(item => item.amount <= 0);
+  const grandTotal = selectedDrafts.reduce((sum, draft) => sum + draft.totalAmount, 0);
+
+  const toggleClient = (clientId: string, included: boolean) => {
+    setExcludedClients(prev => included ? prev.filter(id => id !== clientId) : [...prev, clientId]);
+  };
+
+  const handleGenerate = async () => {
+    const overrides: Record<string, UnbilledItemOverride> = {};
+    Object.entries(rates).forEach(([taskId, rate]) => {
+      overrides[taskId] = { rate: Number(rate) || 0 };
+    });
+
+    try {
+      const result = await billMutation.mutateAsync({
+        from,
+        to,
+        clients: selectedDrafts.map(draft => draft.client._id),
+        overrides,
+      });
+      toast.success(result.message || 'Draft invoices created');
+      onSuccess?.();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to create invoices');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="space-y-1">
+          <Label htmlFor="unbilled-from">Completed from</Label>
+          <Input id="unbilled-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="unbilled-to">Completed to</Label>
+          <Input id="unbilled-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+        </div>
+        {data && (
+          <p className="text-sm text-muted-foreground pb-2">
+            {data.taskCount} unbilled task{data.taskCount === 1 ? '' : 's'} across {drafts.length} client{drafts.length === 1 ? '' : 's'}
+          </p>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="p-8 text-center text-muted-foreground">Loading unbilled work...</div>
+      ) : error ? (
+        <div className="p-8 text-center text-red-600">{(error as Error).message}</div>
+      ) : drafts.length === 0 ? (
+        <div className="p-8 text-center text-muted-foreground">
+          No completed billable tasks waiting to be invoiced in this period
+        </div>
+      ) : (
+        <div className="space-y-4 max-h-[55vh] overflow-y-auto pr-1">
+          {drafts.map(draft => {
+            const included = !excludedClients.includes(draft.client._id);
+            const preview = selectedDrafts.find(d => d.client._id === draft.client._id);
+            return (
+              <div key={draft.client._id} className="border rounded-lg">
+                <div className="flex items-center justify-between p-3 bg-muted/50">
+                  <div className="flex items-center gap-3">
+                    <Checkbox
+                      checked={included}
+                      onCheckedChange={(checked) => toggleClient(draft.client._id, !!checked)}
+                    />
+                    <div>
+                      <p className="font-medium">{draft.client.name}</p>
+                      <p className="text-xs text-muted-foreground">{draft.items.length} task{draft.items.length === 1 ? '' : 's'}</p>
+                    </div>
+                  </div>
+                  <p className="font-semibold">{formatCurrency(preview?.totalAmount ?? draft.totalAmount)}</p>
+                </div>
+                {included && (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Task</TableHead>
+                        <TableHead>Pricing</TableHead>
+                        <TableHead className="text-right">Qty</TableHead>
+                        <TableHead className="text-right w-36">Rate</TableHead>
+                        <TableHead className="text-right">Amount</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {(preview?.items || []).map(item => (
+                        <TableRow key={String(item.task)}>
+                          <TableCell>
+                            <div className="font-medium">{item.description}</div>
+                            {item.completedDate && (
+                              <div className="text-xs text-muted-foreground">
+                                Completed {format(new Date(item.completedDate), 'MMM dd, yyyy')}
+                              </div>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant={item.amount > 0 ? 'outline' : 'destructive'}>
+                              {rates[String(item.task)] !== undefined ? 'Manual' : pricingSourceLabels[item.pricingSource]}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="text-right">{item.quantity}</TableCell>
+                          <TableCell className="text-right">
+                            <Input
+                              type="number"
+                              min={0}
+                              className="h-8 text-right"
+                              value={rates[String(item.task)] ?? String(item.rate)}
+                              onChange={(e) => setRates(prev => ({ ...prev, [String(item.task)]: e.target.value }))}
+                            />
+                          </TableCell>
+                          <TableCell className="text-right">{formatCurrency(item.amount)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {unpricedItems.length > 0 && (
+        <div className="flex items-center gap-2 text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-lg p-3">
+          <AlertCircle className="h-4 w-4" />
+          {unpricedItems.length} task{unpricedItems.length === 1 ? ' has' : 's have'} no price yet - enter a rate before generating
+        </div>
+      )}
+
+      <div className="flex items-center justify-between border-t pt-4">
+        <p className="text-sm">
+          {selectedDrafts.length} draft invoice{selectedDrafts.length === 1 ? '' : 's'} · Total incl. GST{' '}
+          <span className="font-semibold">{formatCurrency(grandTotal)}</span>
+        </p>
+        <Button
+          className="bg-ca-blue hover:bg-ca-blue-dark"
+          onClick={handleGenerate}
+          disabled={billMutation.isPending || selectedDrafts.length === 0 || unpricedItems.length > 0}
+        >
+          <FileText className="mr-2 h-4 w-4" />
+          {billMutation.isPending ? 'Creating...' : 'Create draft invoices'}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default BillUnbilledWork;
@@ -0,0 +1,353 @@
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Invoice,
+  RefundMethod,
+  CreditNoteRefund,
+  useCreditNotes,
+  useCreateCreditNote,
+  useCancelInvoice,
+  useRetryCreditNoteRefund,
+} from '@/hooks/useInvoices';
+import { toast } from 'sonner';
+
+interface CreditNoteFormProps {
+  invoice: Invoice;
+  // 'cancel' reverses the whole invoice; 'credit' allows partial credit
+  mode?: 'credit' | 'cancel';
+  onSuccess?: () => void;
+}
+
+const refundMethodLabels: Record<RefundMethod, string> = {
+  razorpay: 'Razorpay (original payment)',
+  bank_transfer: 'Bank transfer',
+  upi: 'UPI',
+  cheque: 'Cheque',
+  cash: 'Cash',
+};
+
+const refundStatusClasses: Record<NonNullable<CreditNoteRefund['status']>, string> = {
+  processed: 'bg-green-100 text-green-800',
+  pending: 'bg-yellow-100 text-yellow-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+const formatCurrency = (amount: number) =>
+  `₹${(amount || 0).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export const CreditNoteForm = ({ invoice, mode = 'credit', onSuccess }: CreditNoteFormProps) => {
+  const creditedAmount = invoice.creditedAmount || 0;
+  const creditable = round2(invoice.totalAmount - creditedAmount);
+  const [full, setFull] = useState(mode === 'cancel' || creditedAmount === 0);
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [reason, setReason] = useState('');
+  const [refundEnabled, setRefundEnabled] = useState(false);
+  const [refundAmount, setRefundAmount] = useState('');
+  const [refundMethod, setRefundMethod] = useState<RefundMethod>('razorpay');
+  const [refundReference, setRefundReference] = useState('');
+
+  const { data: creditNotesResponse } = useCreditNotes(invoice._id);
+  const createMutation = useCreateCreditNote();
+  const cancelMutation = useCancelInvoice();
+  const retryMutation = useRetryCreditNoteRefund();
+  const creditNotes = creditNotesResponse?.data || [];
+
+  const selectedLines = useMemo(() => invoice.items
+    .filter(item => item._id && Number(quantities[item._id]) > 0)
+    .map(item => ({ item, quantity: Math.min(Number(quantities[item._id as string]), item.quantity) })), [invoice.items, quantities]);
+
+  // Mirrors the server calculation; a full credit carries the invoice discount across
+  const creditTotal = useMemo(() => {
+    if (full) return creditable;
+    return round2(selectedLines.reduce((sum, { item, quantity }) => {
+      const amount = quantity * item.rate;
+      const tax = invoice.gst?.applicable !== false && item.taxable !== false ? amount * (item.taxRate ?? 18) / 100 : 0;
+      return sum + amount + tax;
+    }, 0));
+  }, [full, creditable, selectedLines, invoice.gst]);
+
+  const refundable = round2(invoice.paidAmount - creditNotes.reduce((sum, note) => {
+    const refund = note.creditNote?.refund;
+    return refund?.status && refund.status !== 'failed' ? sum + refund.amount : sum;
+  }, 0));
+  const maxRefund = Math.max(0, Math.min(refundable, creditTotal));
+
+  const handleSubmit = async () => {
+    if (!reason.trim()) {
+      toast.error('Enter a reason for the credit note');
+      return;
+    }
+    if (!full && selectedLines.length === 0) {
+      toast.error('Select at least one line to credit');
+      return;
+    }
+    if (creditTotal > creditable + 0.01) {
+      toast.error(`Only ${formatCurrency(creditable)} can still be credited on this invoice`);
+      return;
+    }
+
+    const refund = refundEnabled && Number(refundAmount) > 0
+      ? { amount: Number(refundAmount), method: refundMethod, reference: refundReference || undefined }
+      : undefined;
+
+    try {
+      const result = mode === 'cancel'
+        ? await cancelMutation.mutateAsync({ invoiceId: invoice._id, reason, refund })
+        : await createMutation.mutateAsync({
+            invoiceId: invoice._id,
+            full,
+            items: full ? undefined : selectedLines.map(({ item, quantity }) => ({ invoiceItem: item._id, quantity })),
+            reason,
+            refund,
+          });
+      if (result.data.creditNote?.creditNote?.refund?.status === 'failed') {
+        toast.warning(result.message);
+      } else {
+        toast.success(result.message);
+      }
+      onSuccess?.();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to issue credit note');
+    }
+  };
+
+  const handleRetryRefund = async (creditNoteId: string) => {
+    try {
+      const result = await retryMutation.mutateAsync({ creditNoteId, invoiceId: invoice._id });
+      toast.success(result.message);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to retry refund');
+    }
+  };
+
+  const isSubmitting = createMutation.isPending || cancelMutation.isPending;
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-3 sm:grid-cols-4">
+        <div className="rounded-lg border p-3">
+          <p className="text-xs text-muted-foreground">Invoice {invoice.invoiceNumber}</p>
+          <p className="font-semibold">{formatCurrency(invoice.totalAmount)}</p>
+        </div>
+        <div className="rounded-lg border p-3">
+          <p className="text-xs text-muted-foreground">Received</p>
+          <p className="font-semibold">{formatCurrency(invoice.paidAmount)}</p>
+        </div>
+        <div className="rounded-lg border p-3">
+          <p className="text-xs text-muted-foreground">Already credited</p>
+          <p className="font-semibold">{formatCurrency(creditedAmount)}</p>
+        </div>
+        <div className="rounded-lg border p-3">
+          <p className="text-xs text-muted-foreground">Can be credited</p>
+          <p className="font-semibold">{formatCurrency(creditable)}</p>
+        </div>
+      </div>
+
+      {mode === 'credit' && (
+        <div className="flex items-center justify-between rounded-lg border p-3">
+          <div>
+            <Label>Credit the full invoice</Label>
+            <p className="text-sm text-muted-foreground">
+              {creditedAmount > 0 ? 'This invoice already has credit notes - select the lines to credit' : 'Reverses every line, the discount and the tax'}
+            </p>
+          </div>
+          <Switch checked={full} disabled={creditedAmount > 0} onCheckedChange={setFull} />
+        </div>
+      )}
+
+      {!full && (
+        <div className="border rounded-lg overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-12" />
+                <TableHead>Line</TableHead>
+                <TableHead className="text-right">Invoiced qty</TableHead>
+                <TableHead className="text-right">Rate</TableHead>
+                <TableHead className="w-28">Credit qty</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {invoice.items.map((item, index) => {
+                const key = item._id || String(index);
+                const selected = Number(quantities[key]) > 0;
+                return (
+                  <TableRow key={key}>
+                    <TableCell>
+                      <Checkbox
+                        checked={selected}
+                        disabled={!item._id}
+                        onCheckedChange={(checked) => setQuantities(prev => ({ ...prev, [key]: checked ? String(item.quantity) : '' }))}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <div>{item.description}</div>
+                      <div className="text-xs text-muted-foreground">GST {item.taxable === false ? 'exempt' : `${item.taxRate ?? 18}%`}</div>
+                    </TableCell>
+                    <TableCell className="text-right">{item.quantity}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(item.rate)}</TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={item.quantity}
+                        step="0.01"
+                        value={quantities[key] || ''}
+                        disabled={!item._id}
+                        onChange={(e) => setQuantities(prev => ({ ...prev, [key]: e.target.value }))}
+                      />
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="credit-note-reason">Reason</Label>
+        <Textarea
+          id="credit-note-reason"
+          rows={2}
+          value={reason}
+          placeholder={mode === 'cancel' ? 'Why is this invoice being cancelled?' : 'e.g. Fee revised after engagement review'}
+          onChange={(e) => setReason(e.target.value)}
+        />
+      </div>
+
+      {invoice.paidAmount > 0 && (
+        <div className="space-y-3 rounded-lg border p-3">
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="credit-note-refund"
+              checked={refundEnabled}
+              disabled={maxRefund <= 0}
+              onCheckedChange={(checked) => {
+                setRefundEnabled(!!checked);
+                if (checked && !refundAmount) setRefundAmount(String(maxRefund));
+              }}
+            />
+            <Label htmlFor="credit-note-refund">
+              Refund the client (up to {formatCurrency(maxRefund)})
+            </Label>
+          </div>
+          {refundEnabled && (
+            <div className="grid gap-3 sm:grid-cols-3">
+              <div className="space-y-1">
+                <Label htmlFor="refund-amount">Amount</Label>
+                <Input
+                  id="refund-amount"
+                  type="number"
+                  min={0}
+                  max={maxRefund}
+                  step="0.01"
+                  value={refundAmount}
+                  onChange={(e) => setRefundAmount(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Method</Label>
+                <Select value={refundMethod} onValueChange={(value) => setRefundMethod(value as RefundMethod)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(refundMethodLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {refundMethod !== 'razorpay' && (
+                <div className="space-y-1">
+                  <Label htmlFor="refund-reference">Reference</Label>
+                  <Input id="refund-reference" value={refundReference} onChange={(e) => setRefundReference(e.target.value)} />
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {creditNotes.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Credit notes issued</p>
+          {creditNotes.map(note => {
+            const refund = note.creditNote?.refund;
+            return (
+              <div key={note._id} className="flex flex-wrap items-center justify-between gap-2 rounded-lg bg-muted/50 p-3 text-sm">
+                <div>
+                  <span className="font-medium">{note.invoiceNumber}</span>
+                  <span className="text-muted-foreground"> · {format(new Date(note.issueDate), 'dd/MM/yyyy')} · {note.creditNote?.reason}</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{formatCurrency(note.totalAmount)}</span>
+                  {refund?.status && (
+                    <Badge className={refundStatusClasses[refund.status]}>
+                      Refund {formatCurrency(refund.amount)} {refund.status}
+                    </Badge>
+                  )}
+                  {refund?.status === 'failed' && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={retryMutation.isPending}
+                      onClick={() => handleRetryRefund(note._id)}
+                    >
+                      <RotateCcw className="h-3 w-3 mr-1" />
+                      Retry
+                    </Button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between border-t pt-4">
+        <p className="text-sm">
+          Credit note total: <span className="font-semibold">{formatCurrency(creditTotal)}</span>
+          {invoice.gst?.applicable !== false && (
+            <span className="text-muted-foreground"> (incl. reversed {invoice.gst?.igst ? 'IGST' : 'CGST/SGST'})</span>
+          )}
+        </p>
+        <Button
+          onClick={handleSubmit}
+          disabled={isSubmitting || creditable <= 0}
+          variant={mode === 'cancel' ? 'destructive' : 'default'}
+        >
+          {isSubmitting ? 'Saving...' : mode === 'cancel' ? 'Cancel Invoice' : 'Issue Credit Note'}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default CreditNoteForm;
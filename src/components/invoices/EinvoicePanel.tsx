@@ -0,0 +1,308 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { AlertTriangle, FileJson, QrCode, Send, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Separator } from '@/components/ui/separator';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Invoice,
+  EinvoiceImportPayload,
+  useEinvoice,
+  useGenerateIrn,
+  useImportIrn,
+  useCancelIrn,
+  downloadEinvoiceJson,
+} from '@/hooks/useInvoices';
+import { toast } from 'sonner';
+
+interface EinvoicePanelProps {
+  invoice: Invoice;
+}
+
+const sourceLabels: Record<string, string> = {
+  gsp: 'Generated through GSP',
+  mock: 'Generated by the test IRP',
+  import: 'Imported from the portal',
+};
+
+const emptyImport: EinvoiceImportPayload = { irn: '', ackNo: '', ackDate: '', signedQrCode: '' };
+
+export const EinvoicePanel = ({ invoice }: EinvoicePanelProps) => {
+  const { data: details, isLoading } = useEinvoice(invoice._id);
+  const generateMutation = useGenerateIrn();
+  const importMutation = useImportIrn();
+  const cancelMutation = useCancelIrn();
+
+  const [imported, setImported] = useState<EinvoiceImportPayload>(emptyImport);
+  const [cancelReason, setCancelReason] = useState('');
+  const [cancelRemarks, setCancelRemarks] = useState('');
+  const [cancelledOnPortal, setCancelledOnPortal] = useState(false);
+
+  if (isLoading || !details) {
+    return <div className="p-8 text-center text-muted-foreground">Loading e-invoice details...</div>;
+  }
+
+  const registered = details.einvoice?.status === 'generated' ? details.einvoice : null;
+  const hasErrors = details.errors.length > 0;
+
+  const handleDownloadJson = async () => {
+    try {
+      await downloadEinvoiceJson(invoice._id);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to download e-invoice JSON');
+    }
+  };
+
+  const handleGenerate = async () => {
+    try {
+      const result = await generateMutation.mutateAsync({ invoiceId: invoice._id });
+      toast.success(result.message);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to generate IRN');
+    }
+  };
+
+  // The portal and GSPs return { Irn, AckNo, AckDt, SignedQRCode, ... }; paste it to fill the fields
+  const handlePasteResponse = (text: string) => {
+    try {
+      const parsed = JSON.parse(text);
+      const response = Array.isArray(parsed) ? parsed[0] : parsed?.Data || parsed;
+      setImported({
+        irn: response.Irn || response.irn || '',
+        ackNo: String(response.AckNo || response.ackNo || ''),
+        ackDate: response.AckDt || response.ackDate || '',
+        signedQrCode: response.SignedQRCode || response.signedQrCode || '',
+      });
+    } catch {
+      toast.error('That is not the JSON response from the e-invoice portal');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!imported.irn || !imported.ackNo || !imported.ackDate || !imported.signedQrCode) {
+      toast.error('Enter the IRN, acknowledgement number, date and signed QR code');
+      return;
+    }
+    try {
+      const result = await importMutation.mutateAsync({ invoiceId: invoice._id, ...imported });
+      toast.success(result.message);
+      setImported(emptyImport);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to record IRN');
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!cancelReason || !cancelRemarks.trim()) {
+      toast.error('Choose a reason and enter remarks for the cancellation');
+      return;
+    }
+    try {
+      const result = await cancelMutation.mutateAsync({
+        invoiceId: invoice._id,
+        reason: cancelReason,
+        remarks: cancelRemarks.trim(),
+        recordOnly: cancelledOnPortal,
+      });
+      toast.success(result.message);
+      setCancelReason('');
+      setCancelRemarks('');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to cancel IRN');
+    }
+  };
+
+  if (registered) {
+    return (
+      <div className="space-y-6">
+        <div className="flex flex-col md:flex-row gap-6">
+          {details.qrImage && (
+            <img src={details.qrImage} alt="Signed e-invoice QR code" className="h-40 w-40 border rounded" />
+          )}
+          <div className="space-y-2 text-sm min-w-0">
+            <Badge className="bg-green-100 text-green-800">{sourceLabels[registered.source] || 'Registered'}</Badge>
+            <div>
+              <span className="text-muted-foreground">IRN</span>
+              <p className="font-mono text-xs break-all">{registered.irn}</p>
+            </div>
+            <div className="flex gap-6">
+              <div>
+                <span className="text-muted-foreground">Ack No</span>
+                <p className="font-mono">{registered.ackNo}</p>
+              </div>
+              <div>
+                <span className="text-muted-foreground">Ack Date</span>
+                <p>{format(new Date(registered.ackDate), 'dd/MM/yyyy HH:mm')}</p>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <Separator />
+
+        <div className="space-y-3">
+          <h4 className="text-sm font-semibold">Cancel IRN</h4>
+          <p className="text-sm text-muted-foreground">
+            Cancelling the IRN also cancels this {invoice.type === 'credit_note' ? 'credit note' : 'invoice'}. The IRP only
+            cancels an IRN within 24 hours of acknowledgement, and not once payments or credit notes are recorded;
+            after that, issue a credit note.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <Select value={cancelReason} onValueChange={setCancelReason}>
+              <SelectTrigger>
+                <SelectValue placeholder="Reason" />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(details.cancelReasons).map(([code, label]) => (
+                  <SelectItem key={code} value={code}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              className="md:col-span-2"
+              value={cancelRemarks}
+              maxLength={100}
+              onChange={(e) => setCancelRemarks(e.target.value)}
+              placeholder="Remarks"
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Switch id="cancelled-on-portal" checked={cancelledOnPortal} onCheckedChange={setCancelledOnPortal} />
+              <Label htmlFor="cancelled-on-portal" className="font-normal">Already cancelled on the portal, only record it</Label>
+            </div>
+            <Button variant="destructive" onClick={handleCancel} disabled={cancelMutation.isPending}>
+              {cancelMutation.isPending ? 'Cancelling...' : 'Cancel IRN'}
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {details.einvoice?.status === 'cancelled' && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>IRN cancelled</AlertTitle>
+          <AlertDescription>
+            {details.einvoice.irn} was cancelled
+            {details.einvoice.cancelledAt && ` on ${format(new Date(details.einvoice.cancelledAt), 'dd/MM/yyyy HH:mm')}`}
+            {details.einvoice.cancelReason && ` (${details.einvoice.cancelReason})`}.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {hasErrors ? (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>The IRP would reject this {invoice.type === 'credit_note' ? 'credit note' : 'invoice'}</AlertTitle>
+          <AlertDescription>
+            <ul className="list-disc pl-4 mt-1 space-y-0.5">
+              {details.errors.map(issue => (
+                <li key={`${issue.path}-${issue.message}`}>
+                  <span className="font-mono text-xs">{issue.path}</span> {issue.message}
+                </li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          The e-invoice JSON passes schema validation. Generate the IRN through the GSP, or download the JSON
+          and upload it on the e-invoice portal, then record the IRN below.
+        </p>
+      )}
+
+      <div className="flex gap-2 justify-end">
+        <Button variant="outline" onClick={handleDownloadJson} disabled={hasErrors}>
+          <FileJson className="h-4 w-4 mr-2" />
+          Download JSON
+        </Button>
+        <Button
+          onClick={handleGenerate}
+          disabled={hasErrors || !details.provider.configured || generateMutation.isPending}
+          title={details.provider.configured ? undefined : 'No GSP is set up in Settings'}
+        >
+          <Send className="h-4 w-4 mr-2" />
+          {generateMutation.isPending ? 'Generating...' : 'Generate IRN'}
+        </Button>
+      </div>
+
+      <Separator />
+
+      <div className="space-y-3">
+        <h4 className="text-sm font-semibold flex items-center gap-2">
+          <QrCode className="h-4 w-4" />
+          Record an IRN from the portal
+        </h4>
+        <div className="space-y-1">
+          <Label htmlFor="irp-response">Portal response JSON (optional)</Label>
+          <Textarea
+            id="irp-response"
+            rows={2}
+            placeholder='Paste { "Irn": ..., "AckNo": ..., "AckDt": ..., "SignedQRCode": ... } to fill the fields'
+            onChange={(e) => e.target.value.trim() && handlePasteResponse(e.target.value)}
+          />
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <div className="space-y-1 md:col-span-3">
+            <Label htmlFor="irn">IRN</Label>
+            <Input
+              id="irn"
+              className="font-mono text-xs"
+              value={imported.irn}
+              onChange={(e) => setImported(prev => ({ ...prev, irn: e.target.value }))}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="ack-no">Ack No</Label>
+            <Input
+              id="ack-no"
+              value={imported.ackNo}
+              onChange={(e) => setImported(prev => ({ ...prev, ackNo: e.target.value }))}
+            />
+          </div>
+          <div className="space-y-1 md:col-span-2">
+            <Label htmlFor="ack-date">Ack Date</Label>
+            <Input
+              id="ack-date"
+              placeholder="yyyy-mm-dd hh:mm:ss"
+              value={imported.ackDate}
+              onChange={(e) => setImported(prev => ({ ...prev, ackDate: e.target.value }))}
+            />
+          </div>
+          <div className="space-y-1 md:col-span-3">
+            <Label htmlFor="signed-qr">Signed QR code</Label>
+            <Textarea
+              id="signed-qr"
+              rows={3}
+              className="font-mono text-xs"
+              value={imported.signedQrCode}
+              onChange={(e) => setImported(prev => ({ ...prev, signedQrCode: e.target.value }))}
+            />
+          </div>
+        </div>
+        <div className="flex justify-end">
+          <Button variant="outline" onClick={handleImport} disabled={importMutation.isPending}>
+            <Upload className="h-4 w-4 mr-2" />
+            {importMutation.isPending ? 'Recording...' : 'Record IRN'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
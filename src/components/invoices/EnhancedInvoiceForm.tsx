@@ -22,8 +22,8 @@ import { Calendar } from '@/components/ui/calendar';
 import { Separator } from '@/components/ui/separator';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Switch } from '@/components/ui/switch';
-import { useCreateInvoice, useUpdateInvoice } from '@/hooks/useInvoices';
+import { useCreateInvoice, useUpdateInvoice, usePlaceOfSupply } from '@/hooks/useInvoices';
+import { GST_STATE_CODES } from '@/services/gst';
 import { useQuery } from '@tanstack/react-query';
 import { useAuth } from '@/hooks/useAuth';
 import { useClients } from '@/hooks/useClients';
@@ -60,6 +60,10 @@ interface InvoiceFormData {
   terms: string;
   paymentTerms: string;
   collectionMethod: 'account_1' | 'account_2' | 'cash' | 'cheque';
+  placeOfSupply?: {
+    stateCode?: string | null;
+    source?: string;
+  };
   bankDetails: {
     accountName: string;
     accountNumber: string;
@@ -81,7 +85,10 @@ export const EnhancedInvoiceForm = ({
 }: EnhancedInvoiceFormProps) => {
   const [issueDateOpen, setIssueDateOpen] = useState(false);
   const [dueDateOpen, setDueDateOpen] = useState(false);
-  const [isInterState, setIsInterState] = useState(false);
+  // Empty means the server works the state out from the client and account GSTINs
+  const [placeOfSupplyOverride, setPlaceOfSupplyOverride] = useState(
+    initialData?.placeOfSupply?.source === 'manual' ? initialData.placeOfSupply.stateCode || '' : ''
+  );
   const [showPreview, setShowPreview] = useState(false);
   const [calculations, setCalculations] = useState({
     subtotal: 0,
@@ -138,6 +145,13 @@ export const EnhancedInvoiceForm = ({
     name: 'items'
   });
 
+  const { data: placeOfSupply, isLoading: placeOfSupplyLoading } = usePlaceOfSupply(
+    form.watch('client') || undefined,
+    form.watch('collectionMethod'),
+    placeOfSupplyOverride || undefined
+  );
+  const isInterState = placeOfSupply?.interState ?? false;
+
   // Watch items and discount for calculations
   const watchedItems = form.watch('items');
   const watchedDiscount = form.watch('discount');
@@ -204,12 +218,11 @@ export const EnhancedInvoiceForm = ({
         },
         totalAmount: calculations.total,
         balanceAmount: calculations.total,
-        gst: {
-          cgst: isInterState ? 0 : calculations.taxAmount / 2,
-          sgst: isInterState ? 0 : calculations.taxAmount / 2,
-          igst: isInterState ? calculations.taxAmount : 0,
-          applicable: true
-        }
+        // The CGST/SGST/IGST split is worked out by the server from the place of supply
+        gst: { applicable: true },
+        placeOfSupply: placeOfSupplyOverride
+          ? { source: 'manual', stateCode: placeOfSupplyOverride }
+          : { source: 'auto' }
       };
 
       // Clean up data for PUT request
@@ -362,20 +375,49 @@ export const EnhancedInvoiceForm = ({
                 </div>
               </div>
               
-              <div className="flex items-center space-x-3 p-4 border border-gray-200 rounded-lg">
-                <Switch
-                  id="inter-state"
-                  checked={isInterState}
-                  onCheckedChange={setIsInterState}
-                  className="mt-0.5"
-                />
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 p-4 border border-gray-200 rounded-lg">
                 <div className="space-y-1">
-                  <Label htmlFor="inter-state" className="text-sm font-medium text-gray-700">
-                    Inter-state transaction (IGST)
-                  </Label>
-                  <p className="text-xs text-gray-500">
-                    Enable if this is an inter-state transaction requiring IGST instead of CGST/SGST
-                  </p>
+                  <Label className="text-sm font-medium text-gray-700">Place of Supply</Label>
+                  {!form.watch('client') ? (
+                    <p className="text-xs text-gray-500">Select a client to work out the place of supply</p>
+                  ) : placeOfSupplyLoading ? (
+                    <p className="text-xs text-gray-500">Working out place of supply...</p>
+                  ) : placeOfSupply?.stateCode ? (
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="text-sm text-gray-900">
+                        {placeOfSupply.state} ({placeOfSupply.stateCode})
+                      </span>
+                      <Badge variant={isInterState ? 'default' : 'secondary'}>
+                        {isInterState ? 'Inter-state · IGST' : 'Intra-state · CGST + SGST'}
+                      </Badge>
+                    </div>
+                  ) : (
+                    <p className="text-xs text-amber-600">
+                      Could not tell the client's state; add their GSTIN or billing address, or pick the state
+                    </p>
+                  )}
+                  {placeOfSupply && !placeOfSupply.supplierStateCode && (
+                    <p className="text-xs text-amber-600">
+                      Add a GSTIN for this collection account so the supplier state is known
+                    </p>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  <Label className="text-sm font-medium text-gray-700">State Override</Label>
+                  <Select
+                    value={placeOfSupplyOverride || 'auto'}
+                    onValueChange={(value) => setPlaceOfSupplyOverride(value === 'auto' ? '' : value)}
+                  >
+                    <SelectTrigger className="h-11 border-gray-300 focus:border-blue-500 focus:ring-1 focus:ring-blue-500">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="auto">Detect automatically</SelectItem>
+                      {Object.entries(GST_STATE_CODES).map(([code, name]) => (
+                        <SelectItem key={code} value={code}>{code} · {name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                 </div>
               </div>
             </div>
@@ -15,13 +15,15 @@ import {
   User,
   ChevronDown,
   ChevronRight,
-  FileBarChart
+  FileBarChart,
+  Timer
 } from 'lucide-react';
 import { RootState } from '@/store';
 import { cn } from '@/lib/utils';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Button } from '@/components/ui/button';
 import { UserRole } from '@/store/slices/authSlice';
+import { usePermissions } from '@/hooks/usePermissions';
 
 interface SidebarLinkProps {
   to: string;
@@ -142,13 +144,24 @@ const SidebarLink = ({ to, icon, label, end = false }: SidebarLinkProps) => {
   );
 };
 
-const ownerLinks = [
+interface NavItem {
+  to: string;
+  icon: React.ReactNode;
+  label: string;
+  end?: boolean;
+  // Hidden unless the user's role grants this permission
+  permission?: string;
+}
+
+const ownerLinks: NavItem[] = [
   { to: '/owner/dashboard', icon: <LayoutDashboard className="h-5 w-5" />, label: 'Dashboard', end: true },
   { to: '/owner/clients', icon: <Users className="h-5 w-5" />, label: 'Clients' },
   { to: '/owner/employees', icon: <Users className="h-5 w-5" />, label: 'Employees' },
   { to: '/owner/tasks', icon: <ClipboardCheck className="h-5 w-5" />, label: 'Tasks' },
   { to: '/owner/templates', icon: <FileText className="h-5 w-5" />, label: 'Templates' },
   { to: '/owner/invoices', icon: <FileText className="h-5 w-5" />, label: 'Invoices' },
+  { to: '/owner/calendar', icon: <Calendar className="h-5 w-5" />, label: 'Calendar' },
+  { to: '/owner/timesheets', icon: <Timer className="h-5 w-5" />, label: 'Timesheets' },
   { to: '/owner/views', icon: <LayoutDashboard className="h-5 w-5" />, label: 'Views' },
   { to: '/owner/analytics', icon: <PieChart className="h-5 w-5" />, label: 'Analytics' },
   { to: '/owner/recycle-bin', icon: <Trash2 className="h-5 w-5" />, label: 'Recycle Bin' },
@@ -162,21 +175,24 @@ const ownerGSTReportsMenu = {
     { to: '/owner/reports/gst/monthly', label: 'Monthly Report' },
     { to: '/owner/reports/gst/quarterly', label: 'Quarterly Report' },
     { to: '/owner/reports/gst/annual', label: 'Annual Report' },
+    { to: '/owner/reports/gst/gstr1', label: 'GSTR-1 Return' },
   ],
 };
 
-const adminLinks = [
+const adminLinks: NavItem[] = [
   { to: '/admin/dashboard', icon: <LayoutDashboard className="h-5 w-5" />, label: 'Dashboard', end: true },
-  { to: '/admin/employees', icon: <Users className="h-5 w-5" />, label: 'Employees' },
+  { to: '/admin/employees', icon: <Users className="h-5 w-5" />, label: 'Employees', permission: 'user.view' },
   { to: '/admin/tasks', icon: <ClipboardCheck className="h-5 w-5" />, label: 'Tasks' },
   { to: '/admin/templates', icon: <FileText className="h-5 w-5" />, label: 'Templates' },
   { to: '/admin/invoices', icon: <FileText className="h-5 w-5" />, label: 'Invoices' },
-  { to: '/admin/analytics', icon: <PieChart className="h-5 w-5" />, label: 'Analytics' },
+  { to: '/admin/timesheets', icon: <Timer className="h-5 w-5" />, label: 'Timesheets', permission: 'timesheet.approve' },
+  { to: '/admin/analytics', icon: <PieChart className="h-5 w-5" />, label: 'Analytics', permission: 'report.analytics' },
 ];
 
 const employeeLinks = [
   { to: '/employee/dashboard', icon: <LayoutDashboard className="h-5 w-5" />, label: 'Dashboard', end: true },
   { to: '/employee/tasks', icon: <ClipboardCheck className="h-5 w-5" />, label: 'My Tasks' },
+  { to: '/employee/timesheet', icon: <Timer className="h-5 w-5" />, label: 'Timesheet' },
   { to: '/employee/clients', icon: <Users className="h-5 w-5" />, label: 'Clients' },
   { to: '/employee/chat', icon: <MessageSquare className="h-5 w-5" />, label: 'Messages' },
   { to: '/employee/profile', icon: <User className="h-5 w-5" />, label: 'Profile' },
@@ -197,8 +213,9 @@ interface AppSidebarProps {
 const AppSidebar = ({ onChatToggle }: AppSidebarProps = {}) => {
   const { role } = useSelector((state: RootState) => state.auth);
   const { sidebarCollapsed } = useSelector((state: RootState) => state.ui);
+  const { can } = usePermissions();
 
-  const getLinksByRole = (role: UserRole | null) => {
+  const getLinksByRole = (role: UserRole | null): NavItem[] => {
     switch (role) {
       case 'owner':
         return ownerLinks;
@@ -214,7 +231,8 @@ const AppSidebar = ({ onChatToggle }: AppSidebarProps = {}) => {
     }
   };
 
-  const links = getLinksByRole(role);
+  const links = getLinksByRole(role).filter(link => can(link.permission));
+  const showGSTReports = (role === 'owner' || role === 'admin' || role === 'superadmin') && can('report.gst');
 
   if (!role) return null;
 
@@ -248,7 +266,7 @@ const AppSidebar = ({ onChatToggle }: AppSidebarProps = {}) => {
                 </NavLink>
               ))}
               {/* GST Reports in collapsed mode */}
-              {(role === 'owner' || role === 'admin' || role === 'superadmin') && (
+              {showGSTReports && (
                 <SidebarMenuItem
                   icon={ownerGSTReportsMenu.icon}
                   label={ownerGSTReportsMenu.label}
@@ -271,7 +289,7 @@ const AppSidebar = ({ onChatToggle }: AppSidebarProps = {}) => {
                 />
               ))}
               {/* GST Reports menu (after Views) */}
-              {(role === 'owner' || role === 'admin' || role === 'superadmin') && (
+              {showGSTReports && (
                 <SidebarMenuItem
                   icon={ownerGSTReportsMenu.icon}
                   label={ownerGSTReportsMenu.label}
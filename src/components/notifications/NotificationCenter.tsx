@@ -16,7 +16,8 @@ import {
   FileText,
   DollarSign,
   Settings,
-  MoreVertical
+  MoreVertical,
+  TrendingUp
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -52,6 +53,8 @@ const NotificationIcon = ({ type }: { type: Notification['type'] }) => {
       return <CheckCircle2 {...iconProps} className="h-4 w-4 text-green-600" />;
     case 'task_updated':
       return <FileText {...iconProps} className="h-4 w-4 text-indigo-600" />;
+    case 'task_escalated':
+      return <TrendingUp {...iconProps} className="h-4 w-4 text-red-600" />;
     case 'client_document_uploaded':
       return <FileText {...iconProps} className="h-4 w-4 text-purple-600" />;
     case 'payment_received':
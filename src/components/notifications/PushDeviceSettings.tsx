@@ -0,0 +1,102 @@
+import { formatDistanceToNow } from 'date-fns';
+import { BellRing, Monitor, Send, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { describeDevice, usePushNotifications } from '@/hooks/usePushNotifications';
+
+export function PushDeviceSettings() {
+  const {
+    isSupported,
+    isConfigured,
+    permission,
+    devices,
+    isLoading,
+    currentEndpoint,
+    isThisDeviceSubscribed,
+    enableThisDevice,
+    isEnabling,
+    revokeDevice,
+    isRevoking,
+    sendTest,
+    isSendingTest,
+  } = usePushNotifications();
+
+  const unavailableReason = !isSupported
+    ? 'This browser does not support push notifications.'
+    : !isConfigured
+      ? 'Push notifications have not been set up on the server yet.'
+      : permission === 'denied'
+        ? 'Notifications are blocked for this site. Allow them in your browser settings to enable push.'
+        : null;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="space-y-0.5">
+          <Label className="flex items-center gap-2">
+            <BellRing className="h-4 w-4" />
+            Browser Push Devices
+          </Label>
+          <p className="text-sm text-muted-foreground">
+            Devices that show your alerts even when the app is closed
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {devices.length > 0 && (
+            <Button variant="outline" size="sm" onClick={() => sendTest()} disabled={isSendingTest}>
+              <Send className="h-4 w-4 mr-1" />
+              Send test
+            </Button>
+          )}
+          {!isThisDeviceSubscribed && !unavailableReason && (
+            <Button size="sm" onClick={() => enableThisDevice()} disabled={isEnabling}>
+              {isEnabling ? 'Enabling...' : 'Enable on this device'}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {unavailableReason && (
+        <p className="text-sm text-amber-600">{unavailableReason}</p>
+      )}
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading devices...</p>
+      ) : devices.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No devices are receiving push notifications.</p>
+      ) : (
+        <div className="space-y-2">
+          {devices.map(device => (
+            <div key={device._id} className="flex items-center justify-between gap-3 p-3 border rounded-lg">
+              <div className="flex items-center gap-3 min-w-0">
+                <Monitor className="h-4 w-4 text-muted-foreground shrink-0" />
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium truncate">
+                      {device.deviceName || describeDevice(device.userAgent)}
+                    </span>
+                    {device.endpoint === currentEndpoint && <Badge variant="secondary">This device</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Added {formatDistanceToNow(new Date(device.createdAt), { addSuffix: true })}
+                    {device.lastUsedAt && ` · last alert ${formatDistanceToNow(new Date(device.lastUsedAt), { addSuffix: true })}`}
+                  </p>
+                </div>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => revokeDevice(device)}
+                disabled={isRevoking}
+              >
+                <Trash2 className="h-4 w-4 mr-1" />
+                Revoke
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
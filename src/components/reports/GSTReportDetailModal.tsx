@@ -395,6 +395,9 @@ export const GSTReportDetailModal = ({ row, open, onOpenChange }: GSTReportDetai
                     <span className="text-sm">Tax Amount</span>
                   </div>
                   <div className="text-2xl font-bold">{formatCurrency(row.taxAmount)}</div>
+                  <div className="text-xs text-muted-foreground mt-1">
+                    CGST {formatCurrency(row.cgstAmount)} · SGST {formatCurrency(row.sgstAmount)} · IGST {formatCurrency(row.igstAmount)}
+                  </div>
                 </div>
                 <div className="border rounded-lg p-4">
                   <div className="flex items-center gap-2 text-muted-foreground mb-2">
@@ -46,6 +46,9 @@ export interface GSTReportRow {
   invoiceRaised: boolean;
   quoteRaised: boolean;
   totalAmount: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
   taxAmount: number;
   totalWithTax: number;
   status: string;
@@ -378,6 +381,13 @@ export const GSTReportTable = ({
                 </TableCell>
                 <TableCell className="text-right font-medium">
                   {formatCurrency(row.taxAmount)}
+                  <div className="text-xs font-normal text-muted-foreground whitespace-nowrap">
+                    {row.igstAmount ? `IGST ${formatCurrency(row.igstAmount)}` : ''}
+                    {row.igstAmount && (row.cgstAmount || row.sgstAmount) ? ' · ' : ''}
+                    {row.cgstAmount || row.sgstAmount
+                      ? `CGST ${formatCurrency(row.cgstAmount)} · SGST ${formatCurrency(row.sgstAmount)}`
+                      : ''}
+                  </div>
                 </TableCell>
                 <TableCell className="text-right font-bold">
                   {formatCurrency(row.totalWithTax)}
@@ -444,6 +454,9 @@ export const GSTReportTable = ({
                       GSTR3B: (row.gstReturnStatuses||[]).find(r=>r.type==='GSTR3B')?.status || 'Unknown',
                       GSTR9: (row.gstReturnStatuses||[]).find(r=>r.type==='GSTR9')?.status || '—',
                       Total_Amount: row.totalAmount,
+                      CGST: row.cgstAmount,
+                      SGST: row.sgstAmount,
+                      IGST: row.igstAmount,
                       Tax_Amount: row.taxAmount,
                       Total_With_Tax: row.totalWithTax,
                     }));
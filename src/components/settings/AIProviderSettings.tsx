@@ -0,0 +1,168 @@
+import { useEffect, useState } from 'react';
+import { Bot, TestTube } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import {
+  AIProviderName,
+  useAIProvider,
+  useTestAIProvider,
+  useUpdateAIProvider,
+} from '@/hooks/useAIProvider';
+
+const PROVIDERS: { value: AIProviderName; label: string; modelPlaceholder: string }[] = [
+  { value: 'gemini', label: 'Google Gemini', modelPlaceholder: 'gemini-2.0-flash' },
+  { value: 'openai', label: 'OpenAI-compatible (OpenAI, vLLM, Ollama...)', modelPlaceholder: 'gpt-4o-mini' },
+  { value: 'local', label: 'Local stub (offline testing)', modelPlaceholder: 'local-stub' },
+];
+
+export const AIProviderSettings = () => {
+  const { data: config, isLoading } = useAIProvider();
+  const updateMutation = useUpdateAIProvider();
+  const testMutation = useTestAIProvider();
+  const [provider, setProvider] = useState<AIProviderName>('gemini');
+  const [model, setModel] = useState('');
+  const [baseUrl, setBaseUrl] = useState('');
+  const [apiKey, setApiKey] = useState('');
+
+  useEffect(() => {
+    if (!config) return;
+    setProvider(config.provider || config.active.provider);
+    setModel(config.model);
+    setBaseUrl(config.baseUrl);
+  }, [config]);
+
+  const selected = PROVIDERS.find(option => option.value === provider);
+
+  const handleSave = async () => {
+    try {
+      await updateMutation.mutateAsync({
+        provider,
+        model,
+        baseUrl: provider === 'openai' ? baseUrl : '',
+        ...(apiKey ? { apiKey } : {}),
+      });
+      setApiKey('');
+      toast.success('AI provider saved');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save AI provider');
+    }
+  };
+
+  const handleClearKey = async () => {
+    try {
+      await updateMutation.mutateAsync({ provider, model, baseUrl, apiKey: '' });
+      toast.success('API key removed');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to remove API key');
+    }
+  };
+
+  const handleTest = async () => {
+    try {
+      const result = await testMutation.mutateAsync();
+      toast.success(`${result.model} replied in ${result.responseTime} ms: "${result.reply}"`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Provider test failed');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Bot className="h-5 w-5" />
+          AI Assistant Provider
+        </CardTitle>
+        <CardDescription>
+          Choose the language model behind the AI assistant. Empty fields fall back to the server defaults.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {config && (
+          <div className="flex items-center gap-2 text-sm">
+            <span className="text-muted-foreground">In use:</span>
+            <Badge variant="outline">{config.active.provider} / {config.active.model}</Badge>
+            <Badge className={config.configured ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}>
+              {config.configured ? 'Ready' : 'Not configured'}
+            </Badge>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Provider</Label>
+            <Select value={provider} onValueChange={(value) => setProvider(value as AIProviderName)} disabled={isLoading}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PROVIDERS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="ai-model">Model</Label>
+            <Input
+              id="ai-model"
+              value={model}
+              placeholder={selected?.modelPlaceholder}
+              onChange={(e) => setModel(e.target.value)}
+            />
+          </div>
+        </div>
+
+        {provider === 'openai' && (
+          <div className="space-y-2">
+            <Label htmlFor="ai-base-url">Base URL</Label>
+            <Input
+              id="ai-base-url"
+              value={baseUrl}
+              placeholder="https://api.openai.com/v1"
+              onChange={(e) => setBaseUrl(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">For self-hosted models use the server's /v1 endpoint, e.g. http://localhost:11434/v1</p>
+          </div>
+        )}
+
+        {provider !== 'local' && (
+          <div className="space-y-2">
+            <Label htmlFor="ai-api-key">API key</Label>
+            <div className="flex gap-2">
+              <Input
+                id="ai-api-key"
+                type="password"
+                value={apiKey}
+                placeholder={config?.hasApiKey ? 'Saved - leave blank to keep' : 'Not set'}
+                onChange={(e) => setApiKey(e.target.value)}
+              />
+              {config?.hasApiKey && (
+                <Button variant="outline" onClick={handleClearKey} disabled={updateMutation.isPending}>
+                  Remove
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={handleTest} disabled={testMutation.isPending}>
+            <TestTube className="h-4 w-4 mr-2" />
+            {testMutation.isPending ? 'Testing...' : 'Test'}
+          </Button>
+          <Button onClick={handleSave} disabled={updateMutation.isPending}>
+            {updateMutation.isPending ? 'Saving...' : 'Save'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AIProviderSettings;
@@ -0,0 +1,141 @@
+import { useEffect, useState } from 'react';
+import { QrCode } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { toast } from 'sonner';
+import { EinvoiceConfigUpdate, useEinvoiceConfig, useUpdateEinvoiceConfig } from '@/hooks/useInvoices';
+
+type SecretField = 'clientSecret' | 'password';
+
+export const EinvoiceSettings = () => {
+  const { data: config, isLoading } = useEinvoiceConfig();
+  const updateMutation = useUpdateEinvoiceConfig();
+  const [baseUrl, setBaseUrl] = useState('');
+  const [clientId, setClientId] = useState('');
+  const [username, setUsername] = useState('');
+  const [clientSecret, setClientSecret] = useState('');
+  const [password, setPassword] = useState('');
+
+  useEffect(() => {
+    if (!config) return;
+    setBaseUrl(config.baseUrl);
+    setClientId(config.clientId);
+    setUsername(config.username);
+  }, [config]);
+
+  const save = async (update: EinvoiceConfigUpdate, successMessage: string) => {
+    try {
+      await updateMutation.mutateAsync(update);
+      setClientSecret('');
+      setPassword('');
+      toast.success(successMessage);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save e-invoice settings');
+    }
+  };
+
+  const handleSave = () => save({
+    baseUrl,
+    clientId,
+    username,
+    ...(clientSecret ? { clientSecret } : {}),
+    ...(password ? { password } : {}),
+  }, 'E-invoice settings saved');
+
+  const handleClear = (field: SecretField) => save(
+    { baseUrl, clientId, username, [field]: '' },
+    field === 'password' ? 'API password removed' : 'Client secret removed'
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <QrCode className="h-5 w-5" />
+          E-Invoicing (IRN)
+        </CardTitle>
+        <CardDescription>
+          Your GSP account and e-invoice API user, used to generate and cancel IRNs. The client secret and
+          password are stored encrypted and are never shown again.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {config && (
+          <div className="flex items-center gap-2 text-sm">
+            <span className="text-muted-foreground">Status:</span>
+            <Badge className={config.configured ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}>
+              {config.provider === 'mock' ? 'Test IRP' : config.configured ? 'Ready' : 'Not configured'}
+            </Badge>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="einvoice-base-url">GSP API URL</Label>
+          <Input
+            id="einvoice-base-url"
+            value={baseUrl}
+            placeholder="https://gsp.example.com/eivital"
+            disabled={isLoading}
+            onChange={(e) => setBaseUrl(e.target.value)}
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="einvoice-client-id">GSP client ID</Label>
+            <Input id="einvoice-client-id" value={clientId} onChange={(e) => setClientId(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="einvoice-client-secret">GSP client secret</Label>
+            <div className="flex gap-2">
+              <Input
+                id="einvoice-client-secret"
+                type="password"
+                value={clientSecret}
+                placeholder={config?.hasClientSecret ? 'Saved - leave blank to keep' : 'Not set'}
+                onChange={(e) => setClientSecret(e.target.value)}
+              />
+              {config?.hasClientSecret && (
+                <Button variant="outline" onClick={() => handleClear('clientSecret')} disabled={updateMutation.isPending}>
+                  Remove
+                </Button>
+              )}
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="einvoice-username">E-invoice API username</Label>
+            <Input id="einvoice-username" value={username} onChange={(e) => setUsername(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="einvoice-password">E-invoice API password</Label>
+            <div className="flex gap-2">
+              <Input
+                id="einvoice-password"
+                type="password"
+                value={password}
+                placeholder={config?.hasPassword ? 'Saved - leave blank to keep' : 'Not set'}
+                onChange={(e) => setPassword(e.target.value)}
+              />
+              {config?.hasPassword && (
+                <Button variant="outline" onClick={() => handleClear('password')} disabled={updateMutation.isPending}>
+                  Remove
+                </Button>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={updateMutation.isPending}>
+            {updateMutation.isPending ? 'Saving...' : 'Save'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default EinvoiceSettings;
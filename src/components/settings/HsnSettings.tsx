@@ -0,0 +1,157 @@
+import { useRef } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Separator } from '@/components/ui/separator';
+import { BookOpen, Star, Upload, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { HSNSearch } from '@/components/invoice/HSNSearch';
+import { hsnService, type TaskCategory } from '@/services/hsn';
+import { useAuth } from '@/hooks/useAuth';
+
+interface HsnSettingsProps {
+  getSetting: (category: string, key: string) => unknown;
+  updateSetting: (category: string, key: string, value: unknown) => void;
+}
+
+const CATEGORY_LABELS: Record<TaskCategory, string> = {
+  gst: 'GST',
+  itr: 'Income Tax',
+  roc: 'ROC',
+  other: 'Other',
+};
+
+export const HsnSettings = ({ getSetting, updateSetting }: HsnSettingsProps) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const categoryDefaults = (getSetting('company', 'hsnCategoryDefaults') || {}) as Partial<Record<TaskCategory, string>>;
+
+  const { data: favourites = [] } = useQuery({
+    queryKey: ['hsn', 'favourites'],
+    queryFn: async () => (await hsnService.getFavourites()).filter(code => code.isFavourite),
+  });
+
+  const removeFavourite = useMutation({
+    mutationFn: (code: string) => hsnService.setFavourite(code, false),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['hsn'] }),
+    onError: (error: Error) => toast.error(error.message || 'Failed to update favourites'),
+  });
+
+  const importMaster = useMutation({
+    mutationFn: (file: File) => hsnService.importMaster(file),
+    onSuccess: (result) => {
+      toast.success(result.message);
+      if (result.data.errors.length > 0) {
+        toast.warning(`${result.data.errors.length} rows could not be read`, {
+          description: result.data.errors.slice(0, 3).map(error => `${error.sheet} row ${error.row}: ${error.message}`).join('\n'),
+        });
+      }
+      queryClient.invalidateQueries({ queryKey: ['hsn'] });
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to import the HSN master'),
+  });
+
+  const setCategoryDefault = (category: TaskCategory, code: string) => {
+    updateSetting('company', 'hsnCategoryDefaults', { ...categoryDefaults, [category]: code });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BookOpen className="h-5 w-5" />
+          HSN/SAC Codes
+        </CardTitle>
+        <CardDescription>
+          The SAC each kind of task is billed under when a client has not been invoiced for it before.
+          Its GST rate comes from the HSN/SAC master as of the invoice date.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {(Object.keys(CATEGORY_LABELS) as TaskCategory[]).map(category => (
+            <div key={category} className="space-y-2">
+              <Label>{CATEGORY_LABELS[category]} tasks</Label>
+              <HSNSearch
+                value={categoryDefaults[category] || ''}
+                onHSNChange={(code) => setCategoryDefault(category, code)}
+                placeholder="Search SAC code or service..."
+              />
+            </div>
+          ))}
+        </div>
+
+        <Separator />
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold flex items-center gap-2">
+            <Star className="h-4 w-4" />
+            Favourite codes
+          </h4>
+          <p className="text-sm text-muted-foreground">
+            Star codes in any HSN/SAC search to list them first for everyone in the firm.
+          </p>
+          {favourites.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No favourites yet.</p>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {favourites.map(code => (
+                <Badge key={code.hsn} variant="secondary" className="gap-1 py-1">
+                  <span className="font-mono">{code.hsn}</span>
+                  <span className="max-w-[200px] truncate font-normal">{code.description}</span>
+                  <button
+                    type="button"
+                    className="ml-1 rounded-full hover:bg-muted-foreground/20"
+                    onClick={() => removeFavourite.mutate(code.hsn)}
+                    disabled={removeFavourite.isPending}
+                    aria-label={`Remove ${code.hsn} from favourites`}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {user?.role === 'superadmin' && (
+          <>
+            <Separator />
+            <div className="flex items-center justify-between gap-4">
+              <div className="space-y-0.5">
+                <h4 className="text-sm font-semibold">HSN/SAC master</h4>
+                <p className="text-sm text-muted-foreground">
+                  Import the official HSN_SAC.xlsx from the GST portal, or a CSV with code, description, rate and
+                  effective-from columns. Rate changes are added to each code's history.
+                </p>
+              </div>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".xlsx,.csv"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) importMaster.mutate(file);
+                  e.target.value = '';
+                }}
+              />
+              <Button
+                variant="outline"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={importMaster.isPending}
+              >
+                <Upload className="h-4 w-4 mr-2" />
+                {importMaster.isPending ? 'Importing...' : 'Import master'}
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -7,6 +7,8 @@ import { Separator } from '@/components/ui/separator';
 import { Button } from '@/components/ui/button';
 import { CreditCard, Upload, X, Image as ImageIcon } from 'lucide-react';
 import type { InvoiceAccount } from '@/services/settings';
+import { InvoiceNumberingSettings } from '@/components/settings/InvoiceNumberingSettings';
+import { HsnSettings } from '@/components/settings/HsnSettings';
 
 interface InvoiceAccountsSettingsProps {
   getSetting: (category: string, key: string) => any;
@@ -309,6 +311,10 @@ export const InvoiceAccountsSettings = ({ getSetting, updateSetting }: InvoiceAc
         title="Account 2" 
         description="Secondary invoice account configuration" 
       />
+
+      <InvoiceNumberingSettings getSetting={getSetting} updateSetting={updateSetting} />
+
+      <HsnSettings getSetting={getSetting} updateSetting={updateSetting} />
     </div>
   );
 };
@@ -0,0 +1,162 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Hash, AlertTriangle } from 'lucide-react';
+import { settingsService, type InvoiceNumberingSettings as NumberingConfig } from '@/services/settings';
+import { useNumberSeriesPreview, type NumberSeriesAccount, type NumberSeriesType } from '@/hooks/useInvoices';
+
+interface InvoiceNumberingSettingsProps {
+  getSetting: (category: string, key: string) => unknown;
+  updateSetting: (category: string, key: string, value: unknown) => void;
+}
+
+const TYPE_LABELS: Record<NumberSeriesType, string> = {
+  invoice: 'Invoice',
+  quotation: 'Quotation',
+  proforma: 'Proforma',
+  credit_note: 'Credit Note',
+};
+
+const ACCOUNT_LABELS: Record<NumberSeriesAccount, string> = {
+  account_1: 'Account 1',
+  account_2: 'Account 2',
+  cash: 'Cash',
+  cheque: 'Cheque',
+};
+
+const SERIES_TYPES = Object.keys(TYPE_LABELS) as NumberSeriesType[];
+const SERIES_ACCOUNTS = Object.keys(ACCOUNT_LABELS) as NumberSeriesAccount[];
+
+export const InvoiceNumberingSettings = ({ getSetting, updateSetting }: InvoiceNumberingSettingsProps) => {
+  const defaults = settingsService.getDefaultSettings().company.invoiceNumbering as NumberingConfig;
+  const stored = (getSetting('company', 'invoiceNumbering') || {}) as Partial<NumberingConfig>;
+  const config: NumberingConfig = {
+    padding: stored.padding ?? defaults.padding,
+    templates: { ...defaults.templates, ...(stored.templates || {}) },
+    accountCodes: { ...defaults.accountCodes, ...(stored.accountCodes || {}) },
+  };
+
+  // Only ask the server for a preview once typing pauses
+  const [previewConfig, setPreviewConfig] = useState(config);
+  const configKey = JSON.stringify(config);
+  useEffect(() => {
+    const timeout = setTimeout(() => setPreviewConfig(JSON.parse(configKey)), 400);
+    return () => clearTimeout(timeout);
+  }, [configKey]);
+
+  const { data: preview, isLoading } = useNumberSeriesPreview(previewConfig);
+
+  const update = (next: Partial<NumberingConfig>) => {
+    updateSetting('company', 'invoiceNumbering', { ...config, ...next });
+  };
+
+  const nextNumber = (type: NumberSeriesType, account: NumberSeriesAccount) =>
+    preview?.series.find(entry => entry.type === type && entry.account === account);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Hash className="h-5 w-5" />
+          Document Number Series
+        </CardTitle>
+        <CardDescription>
+          Each document type has its own gapless series per collection account, restarting every financial year on 1 April.
+          Use {'{ACC}'} for the account code, {'{FY}'} for the financial year, {'{SEQ}'} for the running number
+          and {'{PREFIX}'} for the document prefix.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {SERIES_TYPES.map(type => (
+            <div key={type} className="space-y-2">
+              <Label>{TYPE_LABELS[type]} Template</Label>
+              <Input
+                value={config.templates[type]}
+                onChange={(e) => update({ templates: { ...config.templates, [type]: e.target.value } })}
+                placeholder="{ACC}/{FY}/{SEQ}"
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+          {SERIES_ACCOUNTS.map(account => (
+            <div key={account} className="space-y-2">
+              <Label>{ACCOUNT_LABELS[account]} Code</Label>
+              <Input
+                value={config.accountCodes[account]}
+                onChange={(e) => update({ accountCodes: { ...config.accountCodes, [account]: e.target.value.toUpperCase() } })}
+              />
+            </div>
+          ))}
+          <div className="space-y-2">
+            <Label>Sequence Digits</Label>
+            <Input
+              type="number"
+              min="1"
+              max="8"
+              value={config.padding}
+              onChange={(e) => update({ padding: parseInt(e.target.value) || 1 })}
+            />
+          </div>
+        </div>
+
+        {preview && preview.errors.length > 0 && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              <ul className="list-disc pl-4">
+                {preview.errors.map(error => <li key={error}>{error}</li>)}
+              </ul>
+              <p className="mt-1">Until this is fixed, new documents keep using the default format.</p>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <h4 className="text-sm font-semibold">Next numbers</h4>
+            {preview && <Badge variant="outline">FY {preview.financialYear}</Badge>}
+          </div>
+          {isLoading && !preview ? (
+            <p className="text-sm text-muted-foreground">Loading preview...</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Document</TableHead>
+                  {SERIES_ACCOUNTS.map(account => (
+                    <TableHead key={account}>{ACCOUNT_LABELS[account]}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {SERIES_TYPES.map(type => (
+                  <TableRow key={type}>
+                    <TableCell className="font-medium">{TYPE_LABELS[type]}</TableCell>
+                    {SERIES_ACCOUNTS.map(account => {
+                      const entry = nextNumber(type, account);
+                      return (
+                        <TableCell key={account} className="font-mono text-xs">
+                          {entry?.nextNumber || '—'}
+                          {!!entry?.lastSequence && (
+                            <span className="block text-muted-foreground font-sans">{entry.lastSequence} issued</span>
+                          )}
+                        </TableCell>
+                      );
+                    })}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
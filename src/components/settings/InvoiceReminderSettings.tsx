@@ -0,0 +1,95 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { BellRing } from 'lucide-react';
+
+const DEFAULT_SCHEDULE = [-3, 1, 7, 15];
+
+interface InvoiceReminderSettingsProps {
+  getSetting: (category: 'automation', key: string) => unknown;
+  updateSetting: (category: 'automation', key: string, value: unknown) => void;
+}
+
+const describeStep = (day: number) => {
+  if (day < 0) return `${Math.abs(day)} day${day === -1 ? '' : 's'} before due`;
+  if (day === 0) return 'On the due date';
+  return `${day} day${day === 1 ? '' : 's'} overdue`;
+};
+
+const parseSchedule = (value: string) => [...new Set(
+  value
+    .split(',')
+    .map(part => part.trim())
+    .filter(part => /^[+-]?\d+$/.test(part))
+    .map(Number)
+)].sort((a, b) => a - b);
+
+export const InvoiceReminderSettings = ({ getSetting, updateSetting }: InvoiceReminderSettingsProps) => {
+  const storedSchedule = getSetting('automation', 'invoiceReminderSchedule');
+  const schedule = Array.isArray(storedSchedule) ? (storedSchedule as number[]) : DEFAULT_SCHEDULE;
+  const enabled = getSetting('automation', 'enableInvoiceReminders') !== false;
+  const [draft, setDraft] = useState(schedule.join(', '));
+
+  useEffect(() => {
+    setDraft(schedule.join(', '));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [schedule.join(',')]);
+
+  const commitSchedule = () => {
+    const parsed = parseSchedule(draft);
+    if (parsed.length === 0) {
+      setDraft(schedule.join(', '));
+      return;
+    }
+    setDraft(parsed.join(', '));
+    updateSetting('automation', 'invoiceReminderSchedule', parsed);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BellRing className="h-5 w-5" />
+          Invoice Payment Reminders
+        </CardTitle>
+        <CardDescription>
+          Unpaid invoices are marked overdue and clients are emailed the invoice PDF with a payment link
+          on each day of the schedule. Reminders stop once the invoice is paid.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <div className="space-y-0.5">
+            <Label>Send automatic reminders</Label>
+            <p className="text-sm text-muted-foreground">Runs every morning at 10:00 AM IST</p>
+          </div>
+          <Switch
+            checked={enabled}
+            onCheckedChange={(checked) => updateSetting('automation', 'enableInvoiceReminders', checked)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="invoice-reminder-schedule">Schedule (days relative to due date)</Label>
+          <Input
+            id="invoice-reminder-schedule"
+            value={draft}
+            disabled={!enabled}
+            placeholder="-3, 1, 7, 15"
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={commitSchedule}
+          />
+          <div className="flex flex-wrap gap-2">
+            {schedule.map(day => (
+              <Badge key={day} variant="outline">{describeStep(day)}</Badge>
+            ))}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default InvoiceReminderSettings;
@@ -0,0 +1,310 @@
+import { Fragment, useEffect, useMemo, useState } from 'react';
+import { KeyRound, Lock, Plus, Trash2, Users } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import {
+  PermissionDefinition,
+  useAssignRole,
+  useCreateRole,
+  useDeleteRole,
+  usePermissionMatrix,
+  useUpdateRole,
+} from '@/hooks/usePermissions';
+
+type Drafts = Record<string, string[]>;
+
+const sameSet = (a: string[], b: string[]) => a.length === b.length && a.every(key => b.includes(key));
+
+export const PermissionMatrixSettings = () => {
+  const { data: matrix, isLoading } = usePermissionMatrix();
+  const updateRole = useUpdateRole();
+  const createRole = useCreateRole();
+  const deleteRole = useDeleteRole();
+  const assignRole = useAssignRole();
+
+  const [drafts, setDrafts] = useState<Drafts>({});
+  const [showCreate, setShowCreate] = useState(false);
+  const [newRole, setNewRole] = useState<{ name: string; description: string; baseRole: 'admin' | 'employee' }>({
+    name: '',
+    description: '',
+    baseRole: 'employee',
+  });
+
+  useEffect(() => {
+    if (!matrix) return;
+    setDrafts(Object.fromEntries(matrix.roles.map(role => [role.key, role.permissions])));
+  }, [matrix]);
+
+  const groups = useMemo(() => {
+    const byGroup = new Map<string, PermissionDefinition[]>();
+    matrix?.permissions.forEach(permission => {
+      byGroup.set(permission.group, [...(byGroup.get(permission.group) || []), permission]);
+    });
+    return [...byGroup.entries()];
+  }, [matrix]);
+
+  if (isLoading || !matrix) {
+    return (
+      <Card>
+        <CardContent className="p-6 text-sm text-muted-foreground">Loading roles and permissions...</CardContent>
+      </Card>
+    );
+  }
+
+  const changedRoles = matrix.roles.filter(role => !role.locked && drafts[role.key] && !sameSet(drafts[role.key], role.permissions));
+
+  const toggle = (roleKey: string, permission: string, checked: boolean) => {
+    setDrafts(prev => {
+      const current = prev[roleKey] || [];
+      return {
+        ...prev,
+        [roleKey]: checked ? [...current, permission] : current.filter(key => key !== permission),
+      };
+    });
+  };
+
+  const handleSave = async () => {
+    try {
+      await Promise.all(changedRoles.map(role => updateRole.mutateAsync({ key: role.key, permissions: drafts[role.key] })));
+      toast.success(`Saved permissions for ${changedRoles.map(role => role.name).join(', ')}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save permissions');
+    }
+  };
+
+  const handleCreate = async () => {
+    try {
+      const result = await createRole.mutateAsync(newRole);
+      toast.success(result.message);
+      setShowCreate(false);
+      setNewRole({ name: '', description: '', baseRole: 'employee' });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to create role');
+    }
+  };
+
+  const handleDelete = async (key: string, name: string) => {
+    if (!window.confirm(`Delete the "${name}" role? Its members go back to their base role.`)) return;
+    try {
+      await deleteRole.mutateAsync(key);
+      toast.success(`Deleted role "${name}"`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete role');
+    }
+  };
+
+  const handleAssign = async (userId: string, role: string) => {
+    try {
+      const result = await assignRole.mutateAsync({ userId, role });
+      toast.success(result.message);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to assign role');
+    }
+  };
+
+  const assignableRoles = matrix.roles.filter(role => !role.locked);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <KeyRound className="h-5 w-5" />
+              Roles & Permissions
+            </CardTitle>
+            <CardDescription>
+              Choose what each role can do. Custom roles start from a base role, which decides the dashboard they see.
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => setShowCreate(true)}>
+            <Plus className="h-4 w-4 mr-1" />
+            New role
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="overflow-x-auto rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="min-w-[240px]">Permission</TableHead>
+                  {matrix.roles.map(role => (
+                    <TableHead key={role.key} className="text-center min-w-[110px]">
+                      <div className="flex items-center justify-center gap-1">
+                        {role.locked && <Lock className="h-3 w-3" />}
+                        <span>{role.name}</span>
+                        {!role.isSystem && (
+                          <button
+                            type="button"
+                            className="text-muted-foreground hover:text-destructive"
+                            title={`Delete ${role.name}`}
+                            onClick={() => handleDelete(role.key, role.name)}
+                          >
+                            <Trash2 className="h-3 w-3" />
+                          </button>
+                        )}
+                      </div>
+                      {role.userCount !== null && (
+                        <div className="text-xs font-normal text-muted-foreground">
+                          {role.userCount} {role.userCount === 1 ? 'member' : 'members'}
+                        </div>
+                      )}
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {groups.map(([group, permissions]) => (
+                  <Fragment key={group}>
+                    <TableRow className="bg-muted/40 hover:bg-muted/40">
+                      <TableCell colSpan={matrix.roles.length + 1} className="py-2 text-xs font-semibold uppercase tracking-wide">
+                        {group}
+                      </TableCell>
+                    </TableRow>
+                    {permissions.map(permission => (
+                      <TableRow key={permission.key}>
+                        <TableCell>
+                          <div className="text-sm">{permission.label}</div>
+                          <div className="text-xs text-muted-foreground font-mono">{permission.key}</div>
+                        </TableCell>
+                        {matrix.roles.map(role => (
+                          <TableCell key={role.key} className="text-center">
+                            <Checkbox
+                              checked={role.locked || (drafts[role.key] || []).includes(permission.key)}
+                              disabled={role.locked}
+                              onCheckedChange={(checked) => toggle(role.key, permission.key, checked === true)}
+                              aria-label={`${role.name}: ${permission.label}`}
+                            />
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </Fragment>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="flex items-center justify-end gap-2">
+            {changedRoles.length > 0 && (
+              <>
+                <span className="text-sm text-muted-foreground">Unsaved changes</span>
+                <Button
+                  variant="outline"
+                  onClick={() => setDrafts(Object.fromEntries(matrix.roles.map(role => [role.key, role.permissions])))}
+                >
+                  Discard
+                </Button>
+              </>
+            )}
+            <Button onClick={handleSave} disabled={changedRoles.length === 0 || updateRole.isPending}>
+              {updateRole.isPending ? 'Saving...' : 'Save permissions'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            Team Roles
+          </CardTitle>
+          <CardDescription>Assign admins and employees to a built-in or custom role.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {matrix.members.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No admins or employees yet.</p>
+          ) : (
+            <div className="space-y-2">
+              {matrix.members.map(member => (
+                <div key={member._id} className="flex items-center justify-between gap-4 rounded-md border p-3">
+                  <div>
+                    <p className="text-sm font-medium">
+                      {member.fullName}
+                      {!member.isActive && <Badge variant="outline" className="ml-2">Inactive</Badge>}
+                    </p>
+                    <p className="text-xs text-muted-foreground">{member.email}</p>
+                  </div>
+                  <Select
+                    value={member.role}
+                    onValueChange={(role) => handleAssign(member._id, role)}
+                    disabled={assignRole.isPending}
+                  >
+                    <SelectTrigger className="w-48">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {assignableRoles.map(role => (
+                        <SelectItem key={role.key} value={role.key}>{role.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={showCreate} onOpenChange={setShowCreate}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New role</DialogTitle>
+            <DialogDescription>The role starts with its base role's current permissions.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="role-name">Name</Label>
+              <Input
+                id="role-name"
+                value={newRole.name}
+                placeholder="e.g. Billing Clerk"
+                onChange={(e) => setNewRole(prev => ({ ...prev, name: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="role-description">Description</Label>
+              <Input
+                id="role-description"
+                value={newRole.description}
+                onChange={(e) => setNewRole(prev => ({ ...prev, description: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Base role</Label>
+              <Select
+                value={newRole.baseRole}
+                onValueChange={(value) => setNewRole(prev => ({ ...prev, baseRole: value as 'admin' | 'employee' }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="employee">Employee</SelectItem>
+                  <SelectItem value="admin">Admin</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowCreate(false)}>Cancel</Button>
+            <Button onClick={handleCreate} disabled={!newRole.name.trim() || createRole.isPending}>
+              {createRole.isPending ? 'Creating...' : 'Create role'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default PermissionMatrixSettings;
@@ -0,0 +1,216 @@
+import { useMemo, useState } from 'react';
+import { addDays, format } from 'date-fns';
+import { CalendarClock, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  ResolvedDueDate,
+  DueDateExtensionInput,
+  useDueDateExtensions,
+  useUpcomingDueDates,
+} from '@/hooks/useDueDates';
+import { usePermissions } from '@/hooks/usePermissions';
+
+// Deadlines shown ahead of today
+const WINDOW_DAYS = 60;
+
+const formatDate = (date: string) => format(new Date(date), 'dd MMM yyyy');
+
+export const StatutoryDueDateSettings = () => {
+  const { can } = usePermissions();
+  const canManage = can('compliance.manage');
+
+  const range = useMemo(() => {
+    const from = new Date();
+    from.setHours(0, 0, 0, 0);
+    return { from, to: addDays(from, WINDOW_DAYS) };
+  }, []);
+  const { deadlines, isLoading } = useUpcomingDueDates(range.from, range.to);
+  const { extensions, createExtension, isCreating, deleteExtension, isDeleting } = useDueDateExtensions();
+
+  const [extending, setExtending] = useState<ResolvedDueDate | null>(null);
+  const [form, setForm] = useState<Pick<DueDateExtensionInput, 'extendedDueDate' | 'notification' | 'notes'>>({
+    extendedDueDate: '',
+  });
+
+  const openExtension = (deadline: ResolvedDueDate) => {
+    setExtending(deadline);
+    setForm({ extendedDueDate: format(new Date(deadline.dueDate), 'yyyy-MM-dd'), notification: '', notes: '' });
+  };
+
+  const handleSave = async () => {
+    if (!extending || !form.extendedDueDate) return;
+    try {
+      await createExtension({
+        returnType: extending.returnType,
+        period: extending.period,
+        extendedDueDate: form.extendedDueDate,
+        notification: form.notification?.trim() || undefined,
+        notes: form.notes?.trim() || undefined,
+      });
+      setExtending(null);
+    } catch {
+      // useDueDateExtensions already reports the error
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteExtension(id);
+    } catch {
+      // useDueDateExtensions already reports the error
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarClock className="h-5 w-5" />
+          Statutory Due Dates
+        </CardTitle>
+        <CardDescription>
+          Filing deadlines in the next {WINDOW_DAYS} days. When the government extends one, record it here and
+          statutory tasks and recurring returns move to the new date.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Return</TableHead>
+              <TableHead>Period</TableHead>
+              <TableHead>Due</TableHead>
+              {canManage && <TableHead className="w-[120px]" />}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center text-muted-foreground py-6">Loading due dates...</TableCell>
+              </TableRow>
+            ) : deadlines.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center text-muted-foreground py-6">No filings due in this window</TableCell>
+              </TableRow>
+            ) : deadlines.map(deadline => (
+              <TableRow key={`${deadline.returnType}-${deadline.period}`}>
+                <TableCell>{deadline.label}</TableCell>
+                <TableCell>{deadline.periodLabel}</TableCell>
+                <TableCell>
+                  {formatDate(deadline.dueDate)}
+                  {deadline.extension && (
+                    <>
+                      <span className="ml-2 text-xs text-muted-foreground line-through">{formatDate(deadline.originalDueDate)}</span>
+                      <Badge variant="secondary" className="ml-2">Extended</Badge>
+                    </>
+                  )}
+                </TableCell>
+                {canManage && (
+                  <TableCell className="text-right">
+                    <Button variant="outline" size="sm" onClick={() => openExtension(deadline)}>
+                      {deadline.extension ? 'Change' : 'Extend'}
+                    </Button>
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <Separator />
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold">Recorded extensions</h4>
+          {extensions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No extensions recorded.</p>
+          ) : (
+            <div className="space-y-2">
+              {extensions.map(extension => (
+                <div key={extension._id} className="flex items-center justify-between gap-4 rounded border p-3 text-sm">
+                  <div className="min-w-0">
+                    <span className="font-medium">{extension.returnType}</span>
+                    <span className="text-muted-foreground"> {extension.period}</span>
+                    <span> extended to {formatDate(extension.extendedDueDate)}</span>
+                    {extension.notification && (
+                      <span className="block truncate text-xs text-muted-foreground">{extension.notification}</span>
+                    )}
+                  </div>
+                  {canManage && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(extension._id)}
+                      disabled={isDeleting}
+                      aria-label={`Delete the ${extension.returnType} ${extension.period} extension`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </CardContent>
+
+      <Dialog open={!!extending} onOpenChange={(open) => !open && setExtending(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Extend {extending?.label}</DialogTitle>
+            <DialogDescription>
+              {extending?.periodLabel}, originally due {extending && formatDate(extending.originalDueDate)}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor="extended-due-date">Extended due date</Label>
+              <Input
+                id="extended-due-date"
+                type="date"
+                value={form.extendedDueDate}
+                onChange={(e) => setForm(prev => ({ ...prev, extendedDueDate: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="extension-notification">Notification or circular</Label>
+              <Input
+                id="extension-notification"
+                placeholder="e.g. Notification No. 12/2026-Central Tax"
+                value={form.notification || ''}
+                onChange={(e) => setForm(prev => ({ ...prev, notification: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="extension-notes">Notes</Label>
+              <Input
+                id="extension-notes"
+                value={form.notes || ''}
+                onChange={(e) => setForm(prev => ({ ...prev, notes: e.target.value }))}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setExtending(null)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={isCreating || !form.extendedDueDate}>
+              {isCreating ? 'Saving...' : 'Save extension'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
@@ -42,7 +42,7 @@ import { Label } from '@/components/ui/label';
 import TaskColumn from './TaskColumn';
 import { setBoardView } from '@/store/slices/uiSlice';
 import TaskFilters from './TaskFilters';
-import { useTasks } from '@/hooks/useTasks';
+import { useTasks, TaskDependencyError } from '@/hooks/useTasks';
 import { useTaskWebSocket } from '@/hooks/useTaskWebSocket';
 import { useEmployees } from '@/hooks/useEmployees';
 import { useAuth } from '@/hooks/useAuth';
@@ -76,7 +76,7 @@ const TaskBoard = ({ tasks, basePath }: TaskBoardProps) => {
   const [selectedTask, setSelectedTask] = useState<Task | null>(null);
   
   const { 
-    updateTaskStatus, 
+    updateTaskStatusAsync, 
     bulkDeleteTasks, 
     isBulkDeleting,
     bulkUpdateTaskStatus, 
@@ -235,7 +235,12 @@ const TaskBoard = ({ tasks, basePath }: TaskBoardProps) => {
     if (selectedTasks.length === 0) return;
 
     try {
-      await bulkUpdateTaskStatus({ taskIds: selectedTasks, status });
+      const result = await bulkUpdateTaskStatus({ taskIds: selectedTasks, status });
+      if (result.blocked?.length) {
+        toast.warning(`${result.blocked.length} task${result.blocked.length > 1 ? 's were' : ' was'} not moved`, {
+          description: result.blocked.map(b => `${b.title}: ${b.reason || b.blockers?.map(x => x.task.title).join(', ')}`).join('\n')
+        });
+      }
       setSelectedTasks([]);
       setIsSelectAllChecked(false);
     } catch (error) {
@@ -385,7 +390,7 @@ const TaskBoard = ({ tasks, basePath }: TaskBoardProps) => {
     }
     
     // Check if user has permission to update this task
-    // Allow: task creator, assigned users, collaborators, owner/admin
+    // Allow: task creator, assigned users, collaborators, reviewer, owner/admin
     const isTaskCreator = task.createdBy === user?.id || task.createdBy === user?._id;
     const isAssignedToTask = task.assignedTo.some(assignee => {
       if (typeof assignee === 'string') {
@@ -400,16 +405,53 @@ const TaskBoard = ({ tasks, basePath }: TaskBoardProps) => {
       return (collab as any)._id === user?._id || (collab as any)._id === user?.id;
     });
     
-    const hasPermission = isTaskCreator || isAssignedToTask || isCollaborator || isOwnerOrAdmin;
+    const isReviewer = !!task.reviewer && [user?.id, (user as { _id?: string } | null)?._id].includes(task.reviewer._id);
+    
+    const hasPermission = isTaskCreator || isAssignedToTask || isCollaborator || isReviewer || isOwnerOrAdmin;
     
     if (!hasPermission) {
       toast.error('You do not have permission to update this task', {
-        description: 'Only task creator, assigned members, or admins can change task status'
+        description: 'Only task creator, assigned members, the reviewer, or admins can change task status'
       });
       return;
     }
     
-    updateTaskStatus({ taskId, status: newStatus });
+    moveTask(taskId, newStatus);
+  };
+
+  const moveTask = async (taskId: string, newStatus: TaskStatus) => {
+    try {
+      await updateTaskStatusAsync({ taskId, status: newStatus });
+    } catch (error) {
+      if (!(error instanceof TaskDependencyError)) {
+        toast.error(error instanceof Error ? error.message : 'Failed to update task');
+        return;
+      }
+
+      if (!error.canOverride) {
+        toast.error('This task is waiting on other tasks', {
+          description: error.blockers.map(b => b.reason).join('\n')
+        });
+        return;
+      }
+
+      const result = await Swal.fire({
+        title: 'Unfinished dependencies',
+        html: `<ul style="text-align:left">${error.blockers
+          .map(b => `<li>${b.reason.replace(/</g, '&lt;')}</li>`)
+          .join('')}</ul><p>Move the task anyway?</p>`,
+        icon: 'warning',
+        showCancelButton: true,
+        confirmButtonColor: '#3085d6',
+        cancelButtonColor: '#d33',
+        confirmButtonText: 'Move anyway'
+      });
+
+      if (result.isConfirmed) {
+        updateTaskStatusAsync({ taskId, status: newStatus, overrideDependencies: true })
+          .catch((err: Error) => toast.error(err.message || 'Failed to update task'));
+      }
+    }
   };
 
   return (
@@ -38,6 +38,7 @@ import { useTasks } from '@/hooks/useTasks';
 import { useAuth } from '@/hooks/useAuth';
 import { cn } from '@/lib/utils';
 import { toast } from 'sonner';
+import { TaskTimer } from './TaskTimer';
 import TaskDetailModal from './TaskDetailModal';
 
 interface TaskCardProps {
@@ -375,6 +376,8 @@ const getCategoryBadgeStyles = (category: string) => {
               {isPastDue ? 'Overdue: ' : ''}{formattedDate}
             </span>
           </div>
+
+          {user?.role !== 'client' && <TaskTimer taskId={task.id} />}
           
           <TooltipProvider>
             <Tooltip>
@@ -0,0 +1,330 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { ListChecks, Plus, Trash2, CheckCircle2, Circle, Clock, Paperclip, RotateCcw, ShieldCheck, Undo2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useTaskChecklist, ChecklistStep, ChecklistStepStatus } from '@/hooks/useTaskChecklist';
+import { useEmployees } from '@/hooks/useEmployees';
+import { useAuth } from '@/hooks/useAuth';
+import { usePermissions } from '@/hooks/usePermissions';
+
+interface TaskChecklistProps {
+  taskId: string;
+  createdBy?: string;
+}
+
+const NOBODY = 'none';
+
+const statusStyles: Record<ChecklistStepStatus, string> = {
+  pending: 'bg-gray-100 text-gray-700',
+  done: 'bg-blue-100 text-blue-700',
+  signed_off: 'bg-green-100 text-green-700',
+};
+
+const statusLabels: Record<ChecklistStepStatus, string> = {
+  pending: 'Pending',
+  done: 'Done',
+  signed_off: 'Signed off',
+};
+
+export function TaskChecklist({ taskId, createdBy }: TaskChecklistProps) {
+  const { user } = useAuth();
+  const { can } = usePermissions();
+  const { employees } = useEmployees();
+  const {
+    checklist, progress, documents, isLoading,
+    addStep, removeStep, completeStep, reopenStep, signOffStep, uploadEvidence,
+    isAdding, isSaving, isUploading,
+  } = useTaskChecklist(taskId);
+
+  const [showForm, setShowForm] = useState(false);
+  const [title, setTitle] = useState('');
+  const [assignee, setAssignee] = useState(NOBODY);
+  const [reviewer, setReviewer] = useState(NOBODY);
+  const [mandatory, setMandatory] = useState(true);
+  const [requiresEvidence, setRequiresEvidence] = useState(false);
+  const [requiresSignOff, setRequiresSignOff] = useState(false);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+
+  const currentUserId = user?.id || (user as { _id?: string } | null)?._id;
+  const canManage = can('task.manageAll');
+  const canEdit = canManage || (!!createdBy && createdBy === currentUserId);
+  const activeStaff = employees.filter(member => member.isActive);
+  const documentName = (id: string) => documents.find(doc => doc._id === id)?.name || 'Document';
+
+  const resetForm = () => {
+    setTitle('');
+    setAssignee(NOBODY);
+    setReviewer(NOBODY);
+    setMandatory(true);
+    setRequiresEvidence(false);
+    setRequiresSignOff(false);
+    setShowForm(false);
+  };
+
+  const handleAdd = () => {
+    addStep(
+      {
+        title: title.trim(),
+        assignee: assignee === NOBODY ? null : assignee,
+        reviewer: reviewer === NOBODY ? null : reviewer,
+        mandatory,
+        requiresEvidence,
+        requiresSignOff,
+      },
+      { onSuccess: resetForm }
+    );
+  };
+
+  const clearNote = (stepId: string) => setNotes(prev => ({ ...prev, [stepId]: '' }));
+
+  // The server has the final say; these only hide buttons that would be refused
+  const canComplete = (step: ChecklistStep) =>
+    canManage || !step.assignee || step.assignee._id === currentUserId;
+  const canReview = (step: ChecklistStep) =>
+    step.completedBy?._id !== currentUserId &&
+    (canManage || (step.reviewer ? step.reviewer._id === currentUserId : createdBy === currentUserId));
+
+  if (isLoading) {
+    return <div className="text-sm text-muted-foreground">Loading checklist...</div>;
+  }
+
+  return (
+    <Card className="shadow-md">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2">
+            <ListChecks className="h-5 w-5" />
+            Checklist
+          </CardTitle>
+          {canEdit && (
+            <Button variant="outline" size="sm" onClick={() => setShowForm(!showForm)}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add step
+            </Button>
+          )}
+        </div>
+        {checklist.length > 0 && (
+          <div className="space-y-1">
+            <Progress value={progress} />
+            <p className="text-sm text-muted-foreground">{progress}% complete</p>
+          </div>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {showForm && (
+          <div className="space-y-3 p-3 border rounded-lg bg-muted/30">
+            <div className="space-y-1">
+              <Label>Step</Label>
+              <Input value={title} onChange={(e) => setTitle(e.target.value)} placeholder="e.g. Reconcile bank statements" />
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label>Assignee</Label>
+                <Select value={assignee} onValueChange={setAssignee}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NOBODY}>Task assignee</SelectItem>
+                    {activeStaff.map(member => (
+                      <SelectItem key={member._id} value={member._id}>{member.fullName}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Reviewer</Label>
+                <Select value={reviewer} onValueChange={setReviewer}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NOBODY}>Task creator</SelectItem>
+                    {activeStaff.map(member => (
+                      <SelectItem key={member._id} value={member._id}>{member.fullName}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-4 text-sm">
+              <label className="flex items-center gap-2">
+                <Checkbox checked={mandatory} onCheckedChange={(checked) => setMandatory(checked === true)} />
+                Mandatory
+              </label>
+              <label className="flex items-center gap-2">
+                <Checkbox checked={requiresEvidence} onCheckedChange={(checked) => setRequiresEvidence(checked === true)} />
+                Evidence required
+              </label>
+              <label className="flex items-center gap-2">
+                <Checkbox checked={requiresSignOff} onCheckedChange={(checked) => setRequiresSignOff(checked === true)} />
+                Reviewer sign-off
+              </label>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" size="sm" onClick={resetForm}>Cancel</Button>
+              <Button size="sm" onClick={handleAdd} disabled={!title.trim() || isAdding}>
+                {isAdding ? 'Adding...' : 'Add step'}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {checklist.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">No checklist steps for this task.</p>
+        ) : (
+          <div className="space-y-3">
+            {checklist.map(step => (
+              <div key={step._id} className="p-3 border rounded-lg space-y-2">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="flex items-start gap-2 min-w-0">
+                    {step.status === 'signed_off' ? (
+                      <ShieldCheck className="h-5 w-5 text-green-600 shrink-0" />
+                    ) : step.status === 'done' ? (
+                      <CheckCircle2 className="h-5 w-5 text-blue-600 shrink-0" />
+                    ) : (
+                      <Circle className="h-5 w-5 text-gray-400 shrink-0" />
+                    )}
+                    <div className="min-w-0">
+                      <p className="font-medium text-sm">{step.title}</p>
+                      <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground mt-1">
+                        <span>{step.assignee?.fullName || 'Task assignee'}</span>
+                        {step.dueDate && (
+                          <span className="flex items-center gap-1">
+                            <Clock className="h-3 w-3" />
+                            {format(new Date(step.dueDate), 'dd MMM yyyy')}
+                          </span>
+                        )}
+                        {step.requiresSignOff && <span>Reviewer: {step.reviewer?.fullName || 'Task creator'}</span>}
+                      </div>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    {step.mandatory && <Badge variant="outline">Mandatory</Badge>}
+                    <Badge className={statusStyles[step.status]}>{statusLabels[step.status]}</Badge>
+                    {canEdit && (
+                      <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => removeStep(step._id)} disabled={isSaving}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+
+                {(step.evidence.length > 0 || step.requiresEvidence) && (
+                  <div className="flex flex-wrap items-center gap-2 text-xs">
+                    <Paperclip className="h-3 w-3 text-muted-foreground" />
+                    {step.evidence.length > 0
+                      ? step.evidence.map(id => <Badge key={id} variant="secondary">{documentName(id)}</Badge>)
+                      : <span className="text-muted-foreground">Evidence required</span>}
+                  </div>
+                )}
+
+                {step.completedBy && (
+                  <p className="text-xs text-muted-foreground">
+                    Done by {step.completedBy.fullName}
+                    {step.completedAt && ` on ${format(new Date(step.completedAt), 'dd MMM yyyy')}`}
+                    {step.completionNote && ` - ${step.completionNote}`}
+                  </p>
+                )}
+                {step.signedOffBy && step.status === 'signed_off' && (
+                  <p className="text-xs text-green-700">
+                    Signed off by {step.signedOffBy.fullName}
+                    {step.signedOffAt && ` on ${format(new Date(step.signedOffAt), 'dd MMM yyyy')}`}
+                  </p>
+                )}
+                {step.reviewNote && step.status === 'pending' && (
+                  <p className="text-xs text-red-600">Sent back: {step.reviewNote}</p>
+                )}
+
+                {step.status === 'pending' && canComplete(step) && (
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Input
+                      className="h-8 flex-1 min-w-[160px]"
+                      placeholder="Note (optional)"
+                      value={notes[step._id] || ''}
+                      onChange={(e) => setNotes(prev => ({ ...prev, [step._id]: e.target.value }))}
+                    />
+                    <Button variant="outline" size="sm" asChild disabled={isUploading}>
+                      <label className="cursor-pointer">
+                        <Paperclip className="h-4 w-4 mr-1" />
+                        Attach
+                        <input
+                          type="file"
+                          className="hidden"
+                          onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) uploadEvidence({ stepId: step._id, file });
+                            e.target.value = '';
+                          }}
+                        />
+                      </label>
+                    </Button>
+                    <Button
+                      size="sm"
+                      disabled={isSaving || (step.requiresEvidence && step.evidence.length === 0)}
+                      onClick={() => completeStep(
+                        { stepId: step._id, note: notes[step._id] || undefined },
+                        { onSuccess: () => clearNote(step._id) }
+                      )}
+                    >
+                      <CheckCircle2 className="h-4 w-4 mr-1" />
+                      Mark done
+                    </Button>
+                  </div>
+                )}
+
+                {step.status === 'done' && step.requiresSignOff && canReview(step) && (
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Input
+                      className="h-8 flex-1 min-w-[160px]"
+                      placeholder="Review note (required to send back)"
+                      value={notes[step._id] || ''}
+                      onChange={(e) => setNotes(prev => ({ ...prev, [step._id]: e.target.value }))}
+                    />
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={isSaving || !notes[step._id]?.trim()}
+                      onClick={() => signOffStep(
+                        { stepId: step._id, approved: false, note: notes[step._id] },
+                        { onSuccess: () => clearNote(step._id) }
+                      )}
+                    >
+                      <Undo2 className="h-4 w-4 mr-1" />
+                      Send back
+                    </Button>
+                    <Button
+                      size="sm"
+                      disabled={isSaving}
+                      onClick={() => signOffStep(
+                        { stepId: step._id, approved: true, note: notes[step._id] || undefined },
+                        { onSuccess: () => clearNote(step._id) }
+                      )}
+                    >
+                      <ShieldCheck className="h-4 w-4 mr-1" />
+                      Sign off
+                    </Button>
+                  </div>
+                )}
+
+                {step.status !== 'pending' && canComplete(step) && (step.status === 'done' || canManage) && (
+                  <Button variant="ghost" size="sm" onClick={() => reopenStep(step._id)} disabled={isSaving}>
+                    <RotateCcw className="h-4 w-4 mr-1" />
+                    Reopen
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { X, FileText, MessageSquare, Receipt, Quote, User, Building2, Calendar, AlertCircle } from 'lucide-react';
+import { X, FileText, MessageSquare, Receipt, Timer, ListChecks, Quote, User, Building2, Calendar, AlertCircle } from 'lucide-react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -17,6 +17,10 @@ import TaskOverview from './TaskOverview';
 import TaskDocuments from './TaskDocuments';
 import TaskChat from './TaskChat';
 import { TaskInvoicing } from './TaskInvoicing';
+import { TaskTimeEntries } from './TaskTimeEntries';
+import { TaskChecklist } from './TaskChecklist';
+import { TaskReviewPanel } from './TaskReviewPanel';
+import { TaskDocumentRequests } from './TaskDocumentRequests';
 
 interface TaskDetailModalProps {
   task: Task | null;
@@ -166,12 +170,16 @@ export default function TaskDetailModal({ task, open, onOpenChange }: TaskDetail
           <Tabs value={activeTab} onValueChange={setActiveTab} className="h-full flex flex-col">
             <TabsList className={cn(
               "w-full bg-gray-50 m-0 rounded-none",
-              canAccessInvoicing ? "grid grid-cols-4" : "grid grid-cols-3"
+              canAccessInvoicing ? "grid grid-cols-6" : "grid grid-cols-5"
             )}>
               <TabsTrigger value="overview" className="flex items-center gap-2">
                 <FileText className="h-4 w-4" />
                 Overview
               </TabsTrigger>
+              <TabsTrigger value="checklist" className="flex items-center gap-2">
+                <ListChecks className="h-4 w-4" />
+                Checklist
+              </TabsTrigger>
               <TabsTrigger value="documents" className="flex items-center gap-2">
                 <FileText className="h-4 w-4" />
                 Documents
@@ -180,6 +188,10 @@ export default function TaskDetailModal({ task, open, onOpenChange }: TaskDetail
                 <MessageSquare className="h-4 w-4" />
                 Chat
               </TabsTrigger>
+              <TabsTrigger value="time" className="flex items-center gap-2">
+                <Timer className="h-4 w-4" />
+                Time
+              </TabsTrigger>
               {canAccessInvoicing && (
                 <TabsTrigger value="invoicing" className="flex items-center gap-2">
                   <Receipt className="h-4 w-4" />
@@ -190,6 +202,11 @@ export default function TaskDetailModal({ task, open, onOpenChange }: TaskDetail
 
             <div className="flex-1 overflow-auto">
               <TabsContent value="overview" className="h-full m-0">
+                {user?.role !== 'client' && (
+                  <div className="p-4 pb-0">
+                    <TaskReviewPanel task={task} />
+                  </div>
+                )}
                 <TaskOverview 
                   task={task} 
                   client={client} 
@@ -198,13 +215,26 @@ export default function TaskDetailModal({ task, open, onOpenChange }: TaskDetail
                 />
               </TabsContent>
               
+              <TabsContent value="checklist" className="h-full m-0 p-4">
+                <TaskChecklist taskId={task.id} createdBy={task.createdBy} />
+              </TabsContent>
+
               <TabsContent value="documents" className="h-full m-0">
+                {user?.role !== 'client' && task.clientId && (
+                  <div className="p-4 pb-0">
+                    <TaskDocumentRequests taskId={task.id} />
+                  </div>
+                )}
                 <TaskDocuments task={task} />
               </TabsContent>
               
               <TabsContent value="chat" className="h-full m-0">
                 <TaskChat task={task} />
               </TabsContent>
+
+              <TabsContent value="time" className="h-full m-0 p-4">
+                <TaskTimeEntries taskId={task.id} />
+              </TabsContent>
               
               {canAccessInvoicing && (
                 <TabsContent value="invoicing" className="h-full m-0">
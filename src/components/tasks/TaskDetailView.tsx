@@ -22,6 +22,7 @@ import { Progress } from '@/components/ui/progress';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { Task, updateSubtaskStatus } from '@/store/slices/tasksSlice';
 import { cn } from '@/lib/utils';
+import { TaskTimeEntries } from './TaskTimeEntries';
 
 interface TaskDetailViewProps {
   task: Task;
@@ -203,6 +204,9 @@ export function TaskDetailView({ task, userRole = 'employee' }: TaskDetailViewPr
         </Card>
       )}
 
+      {/* Time Tracking */}
+      {userRole !== 'client' && <TaskTimeEntries taskId={task.id} />}
+
       {/* Comments Section */}
       <Card className="shadow-md">
         <CardHeader>
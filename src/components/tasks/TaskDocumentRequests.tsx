@@ -0,0 +1,328 @@
+import { useState } from 'react';
+import { format, addDays } from 'date-fns';
+import { ClipboardList, Plus, Trash2, Download, Check, X, Ban } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  useDocumentRequests,
+  downloadRequestedDocument,
+  requestedDocumentTypeLabels,
+  DocumentRequestItem,
+  DocumentRequestItemInput,
+  DocumentRequestItemStatus,
+  RequestedDocumentType,
+} from '@/hooks/useDocumentRequests';
+import { toast } from 'sonner';
+
+interface TaskDocumentRequestsProps {
+  taskId: string;
+}
+
+const itemStatusStyles: Record<DocumentRequestItemStatus, string> = {
+  pending: 'bg-gray-100 text-gray-700',
+  uploaded: 'bg-blue-100 text-blue-700',
+  accepted: 'bg-green-100 text-green-700',
+  rejected: 'bg-red-100 text-red-700',
+};
+
+const emptyItem = (): DocumentRequestItemInput => ({ name: '', description: '', documentType: 'other' });
+
+export function TaskDocumentRequests({ taskId }: TaskDocumentRequestsProps) {
+  const {
+    requests,
+    outstandingCount,
+    isLoading,
+    createRequest,
+    cancelRequest,
+    reviewItem,
+    isCreating,
+    isReviewing,
+  } = useDocumentRequests({ task: taskId }, !!taskId);
+
+  const [showForm, setShowForm] = useState(false);
+  const [title, setTitle] = useState('');
+  const [message, setMessage] = useState('');
+  const [dueDate, setDueDate] = useState(format(addDays(new Date(), 7), 'yyyy-MM-dd'));
+  const [items, setItems] = useState<DocumentRequestItemInput[]>([emptyItem()]);
+  const [rejecting, setRejecting] = useState<{ requestId: string; itemId: string } | null>(null);
+  const [rejectReason, setRejectReason] = useState('');
+
+  const visibleRequests = requests.filter(request => request.status !== 'cancelled');
+
+  const updateItem = (index: number, changes: Partial<DocumentRequestItemInput>) => {
+    setItems(prev => prev.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const resetForm = () => {
+    setTitle('');
+    setMessage('');
+    setItems([emptyItem()]);
+    setShowForm(false);
+  };
+
+  const handleCreate = async () => {
+    const filledItems = items.filter(item => item.name.trim());
+    if (filledItems.length === 0) {
+      toast.error('Add at least one document to request');
+      return;
+    }
+
+    try {
+      await createRequest({
+        taskId,
+        title: title || undefined,
+        message: message || undefined,
+        dueDate: new Date(`${dueDate}T23:59:59`).toISOString(),
+        items: filledItems,
+      });
+      resetForm();
+    } catch {
+      // Toast already shown by the mutation
+    }
+  };
+
+  const handleReject = async () => {
+    if (!rejecting || !rejectReason.trim()) return;
+    try {
+      await reviewItem({ ...rejecting, action: 'reject', reason: rejectReason.trim() });
+      setRejecting(null);
+      setRejectReason('');
+    } catch {
+      // Toast already shown by the mutation
+    }
+  };
+
+  const handleDownload = async (item: DocumentRequestItem) => {
+    if (!item.document) return;
+    try {
+      await downloadRequestedDocument(item.document._id, item.document.originalFileName);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to download document');
+    }
+  };
+
+  return (
+    <Card className="shadow-md">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2">
+            <ClipboardList className="h-5 w-5" />
+            Requested from Client
+            {outstandingCount > 0 && (
+              <Badge variant="outline" className="bg-amber-50 text-amber-700 border-amber-200">
+                {outstandingCount} outstanding
+              </Badge>
+            )}
+          </CardTitle>
+          {!showForm && (
+            <Button size="sm" variant="outline" onClick={() => setShowForm(true)}>
+              <Plus className="h-4 w-4 mr-1" />
+              Request documents
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {showForm && (
+          <div className="space-y-3 rounded-lg border p-4 bg-muted/30">
+            <div className="grid gap-3 sm:grid-cols-2">
+              <div className="space-y-1">
+                <Label htmlFor="request-title">Title</Label>
+                <Input
+                  id="request-title"
+                  placeholder="Documents for this task"
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="request-due">Due date</Label>
+                <Input id="request-due" type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="request-message">Message to client</Label>
+              <Textarea
+                id="request-message"
+                rows={2}
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Documents</Label>
+              {items.map((item, index) => (
+                <div key={index} className="flex flex-wrap items-start gap-2">
+                  <Input
+                    className="flex-1 min-w-[160px]"
+                    placeholder="e.g. Bank statement Apr-Mar"
+                    value={item.name}
+                    onChange={(e) => updateItem(index, { name: e.target.value })}
+                  />
+                  <Select
+                    value={item.documentType}
+                    onValueChange={(value) => updateItem(index, { documentType: value as RequestedDocumentType })}
+                  >
+                    <SelectTrigger className="w-44">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(requestedDocumentTypeLabels).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    className="flex-1 min-w-[160px]"
+                    placeholder="Notes (optional)"
+                    value={item.description}
+                    onChange={(e) => updateItem(index, { description: e.target.value })}
+                  />
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    disabled={items.length === 1}
+                    onClick={() => setItems(prev => prev.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button size="sm" variant="ghost" onClick={() => setItems(prev => [...prev, emptyItem()])}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add another
+              </Button>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button size="sm" variant="outline" onClick={resetForm}>Cancel</Button>
+              <Button size="sm" onClick={handleCreate} disabled={isCreating}>
+                {isCreating ? 'Sending...' : 'Send request'}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading requests...</p>
+        ) : visibleRequests.length === 0 ? (
+          !showForm && <p className="text-sm text-muted-foreground">No documents have been requested for this task</p>
+        ) : (
+          visibleRequests.map(request => (
+            <div key={request._id} className="rounded-lg border">
+              <div className="flex items-center justify-between gap-2 p-3 bg-muted/50">
+                <div>
+                  <p className="font-medium">{request.title}</p>
+                  <p className={`text-xs ${request.isOverdue ? 'text-red-600' : 'text-muted-foreground'}`}>
+                    Due {format(new Date(request.dueDate), 'MMM dd, yyyy')}
+                    {request.isOverdue && ' · overdue'}
+                    {request.requestedBy && ` · requested by ${request.requestedBy.fullName}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Badge variant={request.status === 'completed' ? 'default' : 'outline'}>
+                    {request.status === 'completed'
+                      ? 'Complete'
+                      : `${request.items.length - request.outstandingCount}/${request.items.length} accepted`}
+                  </Badge>
+                  {request.status === 'open' && (
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      title="Cancel request"
+                      onClick={() => cancelRequest(request._id).catch(() => undefined)}
+                    >
+                      <Ban className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+              <div className="divide-y">
+                {request.items.map(item => {
+                  const isRejecting = rejecting?.requestId === request._id && rejecting.itemId === item._id;
+                  return (
+                    <div key={item._id} className="p-3 space-y-2">
+                      <div className="flex flex-wrap items-center justify-between gap-2">
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium">{item.name}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {requestedDocumentTypeLabels[item.documentType]}
+                            {item.description && ` · ${item.description}`}
+                          </p>
+                          {item.status === 'rejected' && item.rejectionReason && (
+                            <p className="text-xs text-red-600">Rejected: {item.rejectionReason}</p>
+                          )}
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <Badge className={itemStatusStyles[item.status]}>{item.status}</Badge>
+                          {item.document && (
+                            <Button size="icon" variant="ghost" title="Download" onClick={() => handleDownload(item)}>
+                              <Download className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {item.status === 'uploaded' && (
+                            <>
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                title="Accept"
+                                disabled={isReviewing}
+                                onClick={() => reviewItem({ requestId: request._id, itemId: item._id, action: 'accept' }).catch(() => undefined)}
+                              >
+                                <Check className="h-4 w-4 text-green-600" />
+                              </Button>
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                title="Reject"
+                                disabled={isReviewing}
+                                onClick={() => {
+                                  setRejecting({ requestId: request._id, itemId: item._id });
+                                  setRejectReason('');
+                                }}
+                              >
+                                <X className="h-4 w-4 text-red-600" />
+                              </Button>
+                            </>
+                          )}
+                        </div>
+                      </div>
+                      {isRejecting && (
+                        <div className="flex gap-2">
+                          <Input
+                            autoFocus
+                            placeholder="Why is this document not acceptable?"
+                            value={rejectReason}
+                            onChange={(e) => setRejectReason(e.target.value)}
+                          />
+                          <Button size="sm" variant="destructive" disabled={!rejectReason.trim() || isReviewing} onClick={handleReject}>
+                            Reject
+                          </Button>
+                          <Button size="sm" variant="outline" onClick={() => setRejecting(null)}>Cancel</Button>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default TaskDocumentRequests;
@@ -0,0 +1,231 @@
+import { useMemo } from 'react';
+import { addDays, differenceInCalendarDays, format, startOfDay } from 'date-fns';
+import { AlertTriangle } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { useTaskTimeline, TimelineTask } from '@/hooks/useTasks';
+import { cn } from '@/lib/utils';
+
+interface TaskGanttProps {
+  clientId?: string;
+  title?: string;
+}
+
+const ROW_HEIGHT = 36;
+const BAR_HEIGHT = 18;
+const LABEL_WIDTH = 220;
+const HEADER_HEIGHT = 28;
+
+const statusColors: Record<string, string> = {
+  todo: '#94a3b8',
+  inprogress: '#3b82f6',
+  review: '#8b5cf6',
+  completed: '#10b981',
+  cancelled: '#d1d5db',
+};
+
+const dependencyLabels: Record<TimelineTask['dependencies'][number]['type'], string> = {
+  finish_to_start: 'Finish → Start',
+  start_to_start: 'Start → Start',
+  finish_to_finish: 'Finish → Finish',
+  start_to_finish: 'Start → Finish',
+};
+
+const taskRange = (task: TimelineTask) => {
+  const start = startOfDay(new Date(task.startDate || task.dueDate));
+  const endSource = task.status === 'completed' && task.completedDate ? task.completedDate : task.dueDate;
+  let end = startOfDay(new Date(endSource));
+  if (end < start) end = start;
+  // Bars cover whole days, so the end is exclusive
+  return { start, end: addDays(end, 1) };
+};
+
+export function TaskGantt({ clientId, title = 'Task Timeline' }: TaskGanttProps) {
+  const { data, isLoading, error } = useTaskTimeline(clientId);
+  const tasks = useMemo(() => data?.tasks || [], [data]);
+  const cycles = useMemo(() => data?.cycles || [], [data]);
+
+  const layout = useMemo(() => {
+    if (tasks.length === 0) return null;
+
+    const ranges = new Map(tasks.map(task => [task._id, taskRange(task)]));
+    const allRanges = [...ranges.values()];
+    const chartStart = addDays(new Date(Math.min(...allRanges.map(r => r.start.getTime()))), -2);
+    const chartEnd = addDays(new Date(Math.max(...allRanges.map(r => r.end.getTime()))), 2);
+    const totalDays = Math.max(1, differenceInCalendarDays(chartEnd, chartStart));
+    const dayWidth = Math.max(6, Math.min(32, Math.floor(900 / totalDays)));
+    const rowIndex = new Map(tasks.map((task, index) => [task._id, index]));
+
+    const x = (date: Date) => differenceInCalendarDays(date, chartStart) * dayWidth;
+    const bars = tasks.map((task, index) => {
+      const range = ranges.get(task._id)!;
+      return {
+        task,
+        x: x(range.start),
+        width: Math.max(dayWidth, x(range.end) - x(range.start)),
+        y: HEADER_HEIGHT + index * ROW_HEIGHT + (ROW_HEIGHT - BAR_HEIGHT) / 2,
+      };
+    });
+    const barById = new Map(bars.map(bar => [bar.task._id, bar]));
+
+    const arrows = tasks.flatMap(task => (task.dependencies || [])
+      .filter(dep => rowIndex.has(String(dep.task)))
+      .map(dep => {
+        const from = barById.get(String(dep.task))!;
+        const to = barById.get(task._id)!;
+        const fromX = dep.type === 'start_to_start' || dep.type === 'start_to_finish' ? from.x : from.x + from.width;
+        const toX = dep.type === 'finish_to_finish' || dep.type === 'start_to_finish' ? to.x + to.width : to.x;
+        const fromY = from.y + BAR_HEIGHT / 2;
+        const toY = to.y + BAR_HEIGHT / 2;
+        const elbow = Math.max(fromX, toX - 8) + 8;
+        return {
+          key: `${dep.task}-${task._id}-${dep.type}`,
+          path: `M ${fromX} ${fromY} H ${elbow} V ${toY} H ${toX}`,
+          label: dependencyLabels[dep.type] || dependencyLabels.finish_to_start,
+        };
+      }));
+
+    const weeks: Date[] = [];
+    for (let day = chartStart; day < chartEnd; day = addDays(day, 7)) weeks.push(day);
+
+    return {
+      bars,
+      arrows,
+      weeks,
+      x,
+      width: totalDays * dayWidth,
+      height: HEADER_HEIGHT + tasks.length * ROW_HEIGHT,
+      today: x(startOfDay(new Date())),
+    };
+  }, [tasks]);
+
+  const cycleTaskIds = new Set(cycles.flat());
+  const titleById = new Map(tasks.map(task => [task._id, task.title]));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+        <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+          {Object.entries(statusColors).map(([status, color]) => (
+            <span key={status} className="flex items-center gap-1">
+              <span className="inline-block h-2 w-4 rounded" style={{ backgroundColor: color }} />
+              {status}
+            </span>
+          ))}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {cycles.length > 0 && (
+          <div className="flex gap-2 p-3 rounded-lg border border-red-200 bg-red-50 text-sm text-red-700">
+            <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+            <div>
+              <p className="font-medium">Circular dependencies found - these tasks can never all start:</p>
+              {cycles.map(cycle => (
+                <p key={cycle.join('-')}>
+                  {[...cycle, cycle[0]].map(id => titleById.get(id) || id).join(' → ')}
+                </p>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading timeline...</p>
+        ) : error ? (
+          <p className="text-sm text-red-600">{(error as Error).message}</p>
+        ) : !layout ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No tasks to show</p>
+        ) : (
+          <div className="flex border rounded-lg overflow-hidden">
+            <div className="shrink-0 border-r bg-muted/30" style={{ width: LABEL_WIDTH }}>
+              <div style={{ height: HEADER_HEIGHT }} className="border-b" />
+              {layout.bars.map(({ task }) => (
+                <div
+                  key={task._id}
+                  style={{ height: ROW_HEIGHT }}
+                  className={cn(
+                    'flex items-center gap-2 px-2 text-sm border-b',
+                    cycleTaskIds.has(task._id) && 'bg-red-50'
+                  )}
+                  title={task.title}
+                >
+                  <span className="truncate flex-1">{task.title}</span>
+                  {task.dependencies?.length > 0 && (
+                    <Badge variant="outline" className="text-[10px] px-1">{task.dependencies.length}</Badge>
+                  )}
+                </div>
+              ))}
+            </div>
+            <div className="overflow-x-auto flex-1">
+              <svg width={layout.width} height={layout.height} className="block">
+                <defs>
+                  <marker id="gantt-arrow" markerWidth="8" markerHeight="8" refX="7" refY="4" orient="auto">
+                    <path d="M 0 0 L 8 4 L 0 8 z" fill="#64748b" />
+                  </marker>
+                </defs>
+
+                {layout.weeks.map(week => (
+                  <g key={week.toISOString()}>
+                    <line x1={layout.x(week)} x2={layout.x(week)} y1={0} y2={layout.height} stroke="#e5e7eb" />
+                    <text x={layout.x(week) + 4} y={18} fontSize="11" fill="#64748b">
+                      {format(week, 'dd MMM')}
+                    </text>
+                  </g>
+                ))}
+
+                {layout.bars.map((_, index) => (
+                  <line
+                    key={index}
+                    x1={0}
+                    x2={layout.width}
+                    y1={HEADER_HEIGHT + (index + 1) * ROW_HEIGHT}
+                    y2={HEADER_HEIGHT + (index + 1) * ROW_HEIGHT}
+                    stroke="#f1f5f9"
+                  />
+                ))}
+
+                {layout.today >= 0 && layout.today <= layout.width && (
+                  <line x1={layout.today} x2={layout.today} y1={HEADER_HEIGHT} y2={layout.height} stroke="#f97316" strokeDasharray="4 3" />
+                )}
+
+                {layout.bars.map(({ task, x, width, y }) => (
+                  <g key={task._id}>
+                    <title>
+                      {`${task.title} (${task.status})\nDue ${format(new Date(task.dueDate), 'dd MMM yyyy')}`}
+                    </title>
+                    <rect
+                      x={x}
+                      y={y}
+                      width={width}
+                      height={BAR_HEIGHT}
+                      rx={4}
+                      fill={statusColors[task.status] || statusColors.todo}
+                      stroke={cycleTaskIds.has(task._id) ? '#dc2626' : 'none'}
+                      strokeWidth={2}
+                    />
+                  </g>
+                ))}
+
+                {layout.arrows.map(arrow => (
+                  <path
+                    key={arrow.key}
+                    d={arrow.path}
+                    fill="none"
+                    stroke="#64748b"
+                    strokeWidth={1.5}
+                    markerEnd="url(#gantt-arrow)"
+                  >
+                    <title>{arrow.label}</title>
+                  </path>
+                ))}
+              </svg>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default TaskGantt;
@@ -0,0 +1,167 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { ClipboardCheck, Send, CheckCircle2, Undo2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Task, TaskReviewCycle } from '@/store/slices/tasksSlice';
+import { useTasks } from '@/hooks/useTasks';
+import { useEmployees } from '@/hooks/useEmployees';
+import { useAuth } from '@/hooks/useAuth';
+import { usePermissions } from '@/hooks/usePermissions';
+import { toast } from 'sonner';
+
+interface TaskReviewPanelProps {
+  task: Task;
+}
+
+const outcomeStyles: Record<TaskReviewCycle['outcome'], string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-700',
+  returned: 'bg-red-100 text-red-700',
+  withdrawn: 'bg-gray-100 text-gray-700',
+};
+
+export function TaskReviewPanel({ task }: TaskReviewPanelProps) {
+  const { user } = useAuth();
+  const { can } = usePermissions();
+  const { employees } = useEmployees();
+  const { updateTaskAsync, updateTaskStatusAsync, isUpdatingTask, isUpdating } = useTasks();
+
+  const [reviewerId, setReviewerId] = useState(task.reviewer?._id || '');
+  const [points, setPoints] = useState('');
+
+  const currentUserId = user?.id || (user as { _id?: string } | null)?._id;
+  const isReviewer = !!task.reviewer && task.reviewer._id === currentUserId;
+  const canDecide = isReviewer || can('task.manageAll');
+  const history = [...(task.reviewHistory || [])].reverse();
+  const staffName = (id?: string) => employees.find(member => member._id === id)?.fullName || 'Unknown';
+  // assignedTo holds ids or populated users depending on where the task came from
+  const assigneeIds = task.assignedTo.map(assignee => (typeof assignee === 'string' ? assignee : (assignee as { _id: string })._id));
+  const reviewers = employees.filter(member => member.isActive && !assigneeIds.includes(member._id));
+  const isBusy = isUpdatingTask || isUpdating;
+
+  const handleSubmit = async () => {
+    try {
+      await updateTaskAsync({ taskId: task.id, updates: { status: 'review', reviewer: reviewerId } });
+      toast.success('Task sent for review');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to send for review');
+    }
+  };
+
+  const handleApprove = async () => {
+    try {
+      await updateTaskStatusAsync({ taskId: task.id, status: 'completed' });
+      toast.success('Task approved');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to approve task');
+    }
+  };
+
+  const handleReturn = async () => {
+    const reviewPoints = points.split('\n').map(point => point.trim()).filter(Boolean);
+    try {
+      await updateTaskAsync({ taskId: task.id, updates: { status: 'inprogress', reviewPoints } });
+      setPoints('');
+      toast.success('Task returned for rework');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to return task');
+    }
+  };
+
+  return (
+    <Card className="shadow-md">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2">
+            <ClipboardCheck className="h-5 w-5" />
+            Review
+          </CardTitle>
+          {(task.reviewCycles || 0) > 0 && (
+            <Badge variant="outline">
+              {task.reviewCycles} review cycle{task.reviewCycles === 1 ? '' : 's'}
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {task.status === 'review' ? (
+          <div className="space-y-3">
+            <p className="text-sm">
+              Awaiting review by <span className="font-medium">{task.reviewer?.fullName || 'the reviewer'}</span>
+            </p>
+            {canDecide && (
+              <>
+                <div className="space-y-1">
+                  <Label>Review points</Label>
+                  <Textarea
+                    rows={3}
+                    placeholder="One point per line. Required to return the task."
+                    value={points}
+                    onChange={(e) => setPoints(e.target.value)}
+                  />
+                </div>
+                <div className="flex justify-end gap-2">
+                  <Button variant="outline" size="sm" onClick={handleReturn} disabled={isBusy || !points.trim()}>
+                    <Undo2 className="h-4 w-4 mr-1" />
+                    Return for rework
+                  </Button>
+                  <Button size="sm" onClick={handleApprove} disabled={isBusy}>
+                    <CheckCircle2 className="h-4 w-4 mr-1" />
+                    Approve
+                  </Button>
+                </div>
+              </>
+            )}
+          </div>
+        ) : task.status !== 'completed' && (
+          <div className="flex flex-wrap items-end gap-2">
+            <div className="space-y-1 flex-1 min-w-[200px]">
+              <Label>Reviewer</Label>
+              <Select value={reviewerId} onValueChange={setReviewerId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select reviewer" />
+                </SelectTrigger>
+                <SelectContent>
+                  {reviewers.map(member => (
+                    <SelectItem key={member._id} value={member._id}>{member.fullName}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button size="sm" onClick={handleSubmit} disabled={isBusy || !reviewerId}>
+              <Send className="h-4 w-4 mr-1" />
+              Send for review
+            </Button>
+          </div>
+        )}
+
+        {history.length > 0 && (
+          <div className="space-y-2">
+            {history.map(cycle => (
+              <div key={cycle._id} className="p-3 border rounded-lg space-y-1">
+                <div className="flex items-center justify-between gap-2 text-sm">
+                  <span className="font-medium">Cycle {cycle.cycle}</span>
+                  <Badge className={outcomeStyles[cycle.outcome]}>{cycle.outcome}</Badge>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Sent by {staffName(cycle.submittedBy)} to {staffName(cycle.reviewer)} on {format(new Date(cycle.submittedAt), 'dd MMM yyyy')}
+                  {cycle.decidedAt && ` · decided ${format(new Date(cycle.decidedAt), 'dd MMM yyyy')}`}
+                </p>
+                {cycle.points.length > 0 && (
+                  <ul className="list-disc pl-5 text-sm">
+                    {cycle.points.map((point, index) => <li key={index}>{point}</li>)}
+                  </ul>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,161 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Timer, Plus, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useTaskTimeEntries, formatMinutes, TimeEntryStatus } from '@/hooks/useTimeEntries';
+import { useAuth } from '@/hooks/useAuth';
+import { TaskTimer } from './TaskTimer';
+
+interface TaskTimeEntriesProps {
+  taskId: string;
+}
+
+const statusStyles: Record<TimeEntryStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  submitted: 'bg-blue-100 text-blue-700',
+  approved: 'bg-green-100 text-green-700',
+  rejected: 'bg-red-100 text-red-700',
+};
+
+export function TaskTimeEntries({ taskId }: TaskTimeEntriesProps) {
+  const { user } = useAuth();
+  const { entries, totalMinutes, isLoading, addEntry, deleteEntry, isAdding } = useTaskTimeEntries(taskId);
+  const [showForm, setShowForm] = useState(false);
+  const [date, setDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [start, setStart] = useState('09:00');
+  const [end, setEnd] = useState('10:00');
+  const [note, setNote] = useState('');
+  const [billable, setBillable] = useState(true);
+
+  const isManager = user?.role === 'owner' || user?.role === 'admin';
+  const currentUserId = user?.id || (user as { _id?: string } | null)?._id;
+  const approvedMinutes = entries
+    .filter(entry => entry.status === 'approved')
+    .reduce((sum, entry) => sum + entry.durationMinutes, 0);
+
+  const handleAdd = async () => {
+    try {
+      await addEntry({
+        taskId,
+        startTime: new Date(`${date}T${start}`).toISOString(),
+        endTime: new Date(`${date}T${end}`).toISOString(),
+        note: note || undefined,
+        billable,
+      });
+      setNote('');
+      setShowForm(false);
+    } catch {
+      // Toast already shown by the mutation
+    }
+  };
+
+  return (
+    <Card className="shadow-md">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2">
+            <Timer className="h-5 w-5" />
+            Time Logged
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            <TaskTimer taskId={taskId} size="default" />
+            <Button variant="outline" size="sm" onClick={() => setShowForm(!showForm)}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add entry
+            </Button>
+          </div>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          {formatMinutes(totalMinutes)} logged · {formatMinutes(approvedMinutes)} approved
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {showForm && (
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3 p-3 border rounded-lg bg-muted/30">
+            <div className="space-y-1">
+              <Label htmlFor="time-entry-date">Date</Label>
+              <Input id="time-entry-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="time-entry-start">Start</Label>
+              <Input id="time-entry-start" type="time" value={start} onChange={(e) => setStart(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="time-entry-end">End</Label>
+              <Input id="time-entry-end" type="time" value={end} onChange={(e) => setEnd(e.target.value)} />
+            </div>
+            <div className="flex items-center gap-2 pt-6">
+              <Switch id="time-entry-billable" checked={billable} onCheckedChange={setBillable} />
+              <Label htmlFor="time-entry-billable">Billable</Label>
+            </div>
+            <div className="md:col-span-3 space-y-1">
+              <Label htmlFor="time-entry-note">Note</Label>
+              <Input
+                id="time-entry-note"
+                placeholder="What did you work on?"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+              />
+            </div>
+            <div className="flex items-end">
+              <Button className="w-full" onClick={handleAdd} disabled={isAdding}>
+                {isAdding ? 'Saving...' : 'Save'}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading time entries...</p>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No time logged yet</p>
+        ) : (
+          <div className="space-y-2">
+            {entries.map(entry => {
+              const canDelete = isManager || (entry.user?._id === currentUserId && entry.status !== 'approved');
+              return (
+                <div key={entry._id} className="flex items-center justify-between gap-3 p-2 border rounded-lg text-sm">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{entry.user?.fullName}</span>
+                      <span className="text-muted-foreground">
+                        {format(new Date(entry.startTime), 'MMM dd, HH:mm')}
+                        {entry.endTime ? ` – ${format(new Date(entry.endTime), 'HH:mm')}` : ' – running'}
+                      </span>
+                    </div>
+                    {entry.note && <p className="text-muted-foreground truncate">{entry.note}</p>}
+                    {entry.status === 'rejected' && entry.rejectionReason && (
+                      <p className="text-red-600 text-xs">Rejected: {entry.rejectionReason}</p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    {!entry.billable && <Badge variant="outline">Non-billable</Badge>}
+                    <Badge className={statusStyles[entry.status]}>{entry.status}</Badge>
+                    <span className="font-medium tabular-nums">{formatMinutes(entry.durationMinutes)}</span>
+                    {canDelete && !entry.isRunning && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-0"
+                        onClick={() => deleteEntry(entry._id).catch(() => undefined)}
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default TaskTimeEntries;
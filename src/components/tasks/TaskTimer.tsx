@@ -0,0 +1,74 @@
+import { useEffect, useState } from 'react';
+import { Play, Square } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useRunningTimer } from '@/hooks/useTimeEntries';
+import { cn } from '@/lib/utils';
+
+interface TaskTimerProps {
+  taskId: string;
+  size?: 'sm' | 'default';
+  className?: string;
+}
+
+const formatElapsed = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${pad(minutes)}:${pad(seconds)}`;
+};
+
+export function TaskTimer({ taskId, size = 'sm', className }: TaskTimerProps) {
+  const { runningEntry, startTimer, stopTimer, isPending } = useRunningTimer();
+  const isRunningHere = !!runningEntry && runningEntry.task?._id === taskId;
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (!isRunningHere) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isRunningHere]);
+
+  const handleClick = async (e: React.MouseEvent) => {
+    // Timers live inside clickable/draggable cards
+    e.stopPropagation();
+    try {
+      if (isRunningHere && runningEntry) {
+        await stopTimer(runningEntry._id);
+      } else {
+        await startTimer({ taskId });
+      }
+    } catch {
+      // Errors are surfaced by the mutation toasts
+    }
+  };
+
+  const compact = size === 'sm';
+
+  return (
+    <Button
+      type="button"
+      variant={isRunningHere ? 'destructive' : 'outline'}
+      size="sm"
+      disabled={isPending}
+      onClick={handleClick}
+      title={isRunningHere ? 'Stop timer' : 'Start timer'}
+      className={cn(compact ? 'h-6 px-2 text-[11px] gap-1' : 'gap-2', className)}
+    >
+      {isRunningHere ? (
+        <>
+          <Square className={compact ? 'h-3 w-3' : 'h-4 w-4'} />
+          <span className="tabular-nums">{formatElapsed(now - new Date(runningEntry.startTime).getTime())}</span>
+        </>
+      ) : (
+        <>
+          <Play className={compact ? 'h-3 w-3' : 'h-4 w-4'} />
+          {!compact && 'Start timer'}
+        </>
+      )}
+    </Button>
+  );
+}
+
+export default TaskTimer;
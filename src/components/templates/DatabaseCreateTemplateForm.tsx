@@ -13,6 +13,8 @@ import { Switch } from '@/components/ui/switch';
 import { ClientSelector } from '@/components/clients/ClientSelector';
 import { useTemplates } from '@/hooks/useTemplates';
 import { useEmployees } from '@/hooks/useEmployees';
+import { useStatutoryReturnTypes, useStatutoryDueDate } from '@/hooks/useDueDates';
+import { format } from 'date-fns';
 import { toast } from 'sonner';
 import { Plus, Trash2, GripVertical } from 'lucide-react';
 
@@ -21,6 +23,11 @@ const subtaskSchema = z.object({
   description: z.string().optional(),
   dueDate: z.string().optional(),
   order: z.number(),
+  assignee: z.string().nullable().optional(),
+  dueOffsetDays: z.number().optional(),
+  mandatory: z.boolean().optional(),
+  requiresEvidence: z.boolean().optional(),
+  requiresSignOff: z.boolean().optional(),
 });
 
 const templateSchema = z.object({
@@ -28,6 +35,8 @@ const templateSchema = z.object({
   description: z.string().optional(),
   category: z.enum(['gst', 'itr', 'roc', 'other']),
   deadline: z.string().optional(),
+  statutoryReturnType: z.string().optional(),
+  statutoryAssesseeType: z.string().optional(),
   isRecurring: z.boolean().default(false),
   recurrencePattern: z.enum(['monthly', 'yearly', 'custom']).optional(),
   isPayableTask: z.boolean().default(false),
@@ -48,6 +57,7 @@ export const DatabaseCreateTemplateForm: React.FC<Props> = ({ onSuccess, templat
   const [selectedClient, setSelectedClient] = useState<any>(null);
   const { createTemplate, isCreating, updateTemplate, isUpdating, useTemplate } = useTemplates();
   const { employees } = useEmployees();
+  const { returnTypes } = useStatutoryReturnTypes();
   
   // Fetch template data if editing
   const { data: templateData, isLoading: isLoadingTemplate } = useTemplate(templateId || null);
@@ -87,6 +97,8 @@ export const DatabaseCreateTemplateForm: React.FC<Props> = ({ onSuccess, templat
         description: templateData.description || '',
         category: templateData.category,
         deadline: templateData.deadline || '',
+        statutoryReturnType: templateData.statutory_return_type || '',
+        statutoryAssesseeType: templateData.statutory_assessee_type || '',
         isRecurring: templateData.is_recurring || false,
         recurrencePattern: templateData.recurrence_pattern,
         isPayableTask: templateData.is_payable_task || false,
@@ -109,6 +121,14 @@ export const DatabaseCreateTemplateForm: React.FC<Props> = ({ onSuccess, templat
 
   const isRecurring = watch('isRecurring');
   const isPayableTask = watch('isPayableTask');
+  const statutoryReturnType = watch('statutoryReturnType');
+  const statutoryAssesseeType = watch('statutoryAssesseeType');
+  const selectedReturnType = returnTypes.find((rt) => rt.code === statutoryReturnType);
+  const { data: nextDueDate } = useStatutoryDueDate(
+    statutoryReturnType || undefined,
+    undefined,
+    statutoryAssesseeType || undefined
+  );
 
   // Helper function to add subtask with proper order
   const addSubtask = () => {
@@ -116,7 +136,12 @@ export const DatabaseCreateTemplateForm: React.FC<Props> = ({ onSuccess, templat
       title: '', 
       description: '', 
       dueDate: '', 
-      order: fields.length + 1 
+      order: fields.length + 1,
+      assignee: null,
+      dueOffsetDays: 0,
+      mandatory: true,
+      requiresEvidence: false,
+      requiresSignOff: false,
     });
   };
 
@@ -131,6 +156,8 @@ export const DatabaseCreateTemplateForm: React.FC<Props> = ({ onSuccess, templat
         payable_task_type: data.isPayableTask ? data.payableTaskType : null,
         recurrence_pattern: data.isRecurring ? data.recurrencePattern : null,
         deadline: data.deadline,
+        statutory_return_type: data.statutoryReturnType || null,
+        statutory_assessee_type: data.statutoryReturnType ? data.statutoryAssesseeType || null : null,
         is_recurring: data.isRecurring,
         is_payable_task: data.isPayableTask,
         assigned_employee_id: data.assignedEmployeeId,
@@ -243,6 +270,55 @@ export const DatabaseCreateTemplateForm: React.FC<Props> = ({ onSuccess, templat
             </Select>
           </div>
 
+          <div className="space-y-2">
+            <Label>Statutory Filing (Optional)</Label>
+            <Select
+              value={statutoryReturnType || 'none'}
+              onValueChange={(value) => {
+                setValue('statutoryReturnType', value === 'none' ? '' : value);
+                setValue('statutoryAssesseeType', '');
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Not linked to a statutory return" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Not linked to a statutory return</SelectItem>
+                {returnTypes
+                  .filter((rt) => watch('category') === 'other' || rt.category === watch('category'))
+                  .map((rt) => (
+                    <SelectItem key={rt.code} value={rt.code}>
+                      {rt.label}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+            {selectedReturnType && selectedReturnType.assesseeTypes.length > 0 && (
+              <Select
+                value={statutoryAssesseeType || 'default'}
+                onValueChange={(value) => setValue('statutoryAssesseeType', value === 'default' ? '' : value)}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Assessee type" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="default">Default</SelectItem>
+                  {selectedReturnType.assesseeTypes.map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {type.replace(/_/g, ' ')}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            {nextDueDate && (
+              <p className="text-sm text-muted-foreground">
+                Next due: {format(new Date(nextDueDate.dueDate), 'dd MMM yyyy')} ({nextDueDate.periodLabel})
+                {nextDueDate.extension && ' - extended'}. Tasks from this template get the statutory due date automatically.
+              </p>
+            )}
+          </div>
+
           <div className="space-y-2">
             <Label htmlFor="deadline">Deadline (Optional)</Label>
             <Input
@@ -302,6 +378,55 @@ export const DatabaseCreateTemplateForm: React.FC<Props> = ({ onSuccess, templat
                           placeholder="Due date"
                           {...register(`subtasks.${index}.dueDate`)}
                         />
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                          <div className="space-y-1">
+                            <Label className="text-xs">Step assignee</Label>
+                            <Select
+                              value={watch(`subtasks.${index}.assignee`) || 'task'}
+                              onValueChange={(value) => setValue(`subtasks.${index}.assignee`, value === 'task' ? null : value)}
+                            >
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="task">Task assignee</SelectItem>
+                                {employees.map((employee) => (
+                                  <SelectItem key={employee._id} value={employee._id}>{employee.fullName}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          <div className="space-y-1">
+                            <Label className="text-xs">Due (days from task due date)</Label>
+                            <Input
+                              type="number"
+                              {...register(`subtasks.${index}.dueOffsetDays`, { valueAsNumber: true })}
+                            />
+                          </div>
+                        </div>
+                        <div className="flex flex-wrap gap-4 text-sm">
+                          <label className="flex items-center gap-2">
+                            <Switch
+                              checked={watch(`subtasks.${index}.mandatory`) !== false}
+                              onCheckedChange={(checked) => setValue(`subtasks.${index}.mandatory`, checked)}
+                            />
+                            Mandatory
+                          </label>
+                          <label className="flex items-center gap-2">
+                            <Switch
+                              checked={!!watch(`subtasks.${index}.requiresEvidence`)}
+                              onCheckedChange={(checked) => setValue(`subtasks.${index}.requiresEvidence`, checked)}
+                            />
+                            Evidence required
+                          </label>
+                          <label className="flex items-center gap-2">
+                            <Switch
+                              checked={!!watch(`subtasks.${index}.requiresSignOff`)}
+                              onCheckedChange={(checked) => setValue(`subtasks.${index}.requiresSignOff`, checked)}
+                            />
+                            Reviewer sign-off
+                          </label>
+                        </div>
                       </div>
                     </div>
                     {errors.subtasks?.[index] && (
@@ -0,0 +1,154 @@
+import { useState } from 'react';
+import { addDays, addWeeks, format, startOfWeek } from 'date-fns';
+import { ChevronLeft, ChevronRight, Send } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useTimesheet, formatMinutes, TimeEntryStatus } from '@/hooks/useTimeEntries';
+
+interface WeeklyTimesheetProps {
+  // Managers can view another employee's week; defaults to the current user
+  userId?: string;
+  allowSubmit?: boolean;
+  initialWeekStart?: Date;
+}
+
+const WEEK_OPTIONS = { weekStartsOn: 1 as const };
+
+const statusStyles: Record<TimeEntryStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  submitted: 'bg-blue-100 text-blue-700',
+  approved: 'bg-green-100 text-green-700',
+  rejected: 'bg-red-100 text-red-700',
+};
+
+export function WeeklyTimesheet({ userId, allowSubmit = false, initialWeekStart }: WeeklyTimesheetProps) {
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(initialWeekStart || new Date(), WEEK_OPTIONS));
+  const weekKey = format(weekStart, 'yyyy-MM-dd');
+  const { timesheet, isLoading, submitTimesheet, isSubmitting } = useTimesheet(weekKey, userId);
+
+  const days = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+  const dayTotals = days.map((_, i) =>
+    (timesheet?.rows || []).reduce((sum, row) => sum + (row.minutesByDay[i] || 0), 0)
+  );
+  const statusCounts = timesheet?.statusCounts || {};
+  const submittable = (statusCounts.draft || 0) + (statusCounts.rejected || 0);
+  const rejectedEntries = (timesheet?.entries || []).filter(entry => entry.status === 'rejected' && entry.rejectionReason);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div>
+            <CardTitle>
+              Week of {format(weekStart, 'MMM dd')} – {format(addDays(weekStart, 6), 'MMM dd, yyyy')}
+            </CardTitle>
+            <div className="flex flex-wrap gap-2 mt-2">
+              {(Object.keys(statusStyles) as TimeEntryStatus[])
+                .filter(status => statusCounts[status])
+                .map(status => (
+                  <Badge key={status} className={statusStyles[status]}>
+                    {statusCounts[status]} {status}
+                  </Badge>
+                ))}
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="icon" onClick={() => setWeekStart(addWeeks(weekStart, -1))}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" onClick={() => setWeekStart(startOfWeek(new Date(), WEEK_OPTIONS))}>
+              This week
+            </Button>
+            <Button variant="outline" size="icon" onClick={() => setWeekStart(addWeeks(weekStart, 1))}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+            {allowSubmit && (
+              <Button
+                onClick={() => submitTimesheet().catch(() => undefined)}
+                disabled={isSubmitting || submittable === 0}
+              >
+                <Send className="h-4 w-4 mr-2" />
+                {isSubmitting ? 'Submitting...' : 'Submit for approval'}
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {rejectedEntries.length > 0 && (
+          <div className="p-3 rounded-lg border border-red-200 bg-red-50 text-sm text-red-700">
+            <p className="font-medium">Some entries were rejected:</p>
+            {rejectedEntries.map(entry => (
+              <p key={entry._id}>{entry.task?.title}: {entry.rejectionReason}</p>
+            ))}
+          </div>
+        )}
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading timesheet...</p>
+        ) : !timesheet || timesheet.rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No time logged this week</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Task</TableHead>
+                {days.map(day => (
+                  <TableHead key={day.toISOString()} className="text-right">
+                    {format(day, 'EEE dd')}
+                  </TableHead>
+                ))}
+                <TableHead className="text-right">Total</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {timesheet.rows.map((row, index) => (
+                <TableRow key={row.task?._id || index}>
+                  <TableCell>
+                    <div className="font-medium">{row.task?.title || 'Deleted task'}</div>
+                    {row.client?.name && <div className="text-xs text-muted-foreground">{row.client.name}</div>}
+                  </TableCell>
+                  {row.minutesByDay.map((minutes, i) => (
+                    <TableCell key={i} className="text-right tabular-nums">
+                      {minutes > 0 ? formatMinutes(minutes) : '–'}
+                    </TableCell>
+                  ))}
+                  <TableCell className="text-right font-medium tabular-nums">{formatMinutes(row.totalMinutes)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell>Total</TableCell>
+                {dayTotals.map((minutes, i) => (
+                  <TableCell key={i} className="text-right tabular-nums">
+                    {minutes > 0 ? formatMinutes(minutes) : '–'}
+                  </TableCell>
+                ))}
+                <TableCell className="text-right tabular-nums">{formatMinutes(timesheet.totalMinutes)}</TableCell>
+              </TableRow>
+            </TableFooter>
+          </Table>
+        )}
+
+        {timesheet && timesheet.totalMinutes > 0 && (
+          <p className="text-sm text-muted-foreground">
+            Billable: {formatMinutes(timesheet.billableMinutes)} of {formatMinutes(timesheet.totalMinutes)}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default WeeklyTimesheet;
@@ -0,0 +1,70 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import api from '@/services/api';
+
+export type AIActionType = 'create_task_from_template' | 'reassign_task' | 'draft_invoice' | 'log_communication';
+export type AIActionStatus = 'proposed' | 'executing' | 'executed' | 'cancelled' | 'failed';
+
+// Proposal card streamed by /ai/chat/stream as [[ACTION:{...}]]
+export interface AIActionProposal {
+  id: string;
+  type: AIActionType;
+  title: string;
+  details: { label: string; value: string }[];
+}
+
+export type AIMessageSegment =
+  | { kind: 'text'; text: string }
+  | { kind: 'action'; action: AIActionProposal };
+
+const ACTION_MARKER = /\[\[ACTION:(\{.*?\})\]\]/g;
+
+/**
+ * Split an assistant message into text and action cards. A marker still being
+ * streamed (no closing brackets yet) is hidden until it completes.
+ */
+export const parseAIMessage = (text: string): AIMessageSegment[] => {
+  const segments: AIMessageSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(ACTION_MARKER)) {
+    const before = text.slice(lastIndex, match.index);
+    if (before.trim()) segments.push({ kind: 'text', text: before.trim() });
+    try {
+      segments.push({ kind: 'action', action: JSON.parse(match[1]) as AIActionProposal });
+    } catch {
+      segments.push({ kind: 'text', text: match[0] });
+    }
+    lastIndex = (match.index ?? 0) + match[0].length;
+  }
+
+  const rest = text.slice(lastIndex).split('[[ACTION:')[0];
+  if (rest.trim()) segments.push({ kind: 'text', text: rest.trim() });
+  return segments;
+};
+
+// Queries touched by each action type
+const AFFECTED_QUERIES: Record<AIActionType, string[]> = {
+  create_task_from_template: ['tasks'],
+  reassign_task: ['tasks'],
+  draft_invoice: ['invoices'],
+  log_communication: ['client-communications'],
+};
+
+export const useConfirmAIAction = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (action: AIActionProposal) =>
+      api.post(`/ai/actions/${action.id}/confirm`) as Promise<{ message: string }>,
+    onSuccess: (_data, action) => {
+      AFFECTED_QUERIES[action.type]?.forEach(key => queryClient.invalidateQueries({ queryKey: [key] }));
+    },
+  });
+};
+
+export const useCancelAIAction = () => {
+  return useMutation({
+    mutationFn: async (action: AIActionProposal) =>
+      api.post(`/ai/actions/${action.id}/cancel`) as Promise<{ message: string }>,
+  });
+};
@@ -0,0 +1,62 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import api from '@/services/api';
+
+export type AIProviderName = 'gemini' | 'openai' | 'local';
+
+export interface AIProviderConfig {
+  // Empty when the firm uses the server's default provider
+  provider: AIProviderName | '';
+  model: string;
+  baseUrl: string;
+  hasApiKey: boolean;
+  active: { provider: AIProviderName; model: string };
+  configured: boolean;
+}
+
+export interface AIProviderUpdate {
+  provider: AIProviderName;
+  model: string;
+  baseUrl: string;
+  // Omit to keep the stored key, '' to clear it
+  apiKey?: string;
+}
+
+export interface AIProviderTestResult {
+  provider: AIProviderName;
+  model: string;
+  reply: string;
+  responseTime: number;
+}
+
+export const useAIProvider = () => {
+  return useQuery({
+    queryKey: ['ai-provider'],
+    queryFn: async () => {
+      const response = await api.get('/ai/provider') as { data: AIProviderConfig };
+      return response.data;
+    },
+  });
+};
+
+export const useUpdateAIProvider = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (update: AIProviderUpdate) => {
+      const response = await api.put('/ai/provider', update) as { data: AIProviderConfig };
+      return response.data;
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(['ai-provider'], data);
+    },
+  });
+};
+
+export const useTestAIProvider = () => {
+  return useMutation({
+    mutationFn: async () => {
+      const response = await api.post('/ai/provider/test') as { data: AIProviderTestResult };
+      return response.data;
+    },
+  });
+};
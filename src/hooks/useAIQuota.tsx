@@ -0,0 +1,45 @@
+import { useQuery } from '@tanstack/react-query';
+import api from '@/services/api';
+
+export type AIQuotaLevel = 'ok' | 'warning' | 'exceeded';
+
+export interface AIQuotaState {
+  used: number;
+  // null when the plan has no limit
+  limit: number | null;
+  remaining: number | null;
+  percent: number;
+  status: AIQuotaLevel;
+}
+
+export interface AIQuotaStatus {
+  plan: string;
+  status: AIQuotaLevel;
+  message: string | null;
+  firm: AIQuotaState;
+  user: AIQuotaState;
+  resetsAt: string;
+}
+
+// Month-to-date firm consumption, returned as `quota` by GET /ai/analytics
+export interface AIQuotaSummary {
+  plan: string;
+  period: { start: string; end: string };
+  firm: AIQuotaState;
+  byRole: { role: string; tokens: number; cost: number; users: number; perUserLimit: number | null }[];
+  cost: { currency: string; monthToDate: number; projectedMonthEnd: number };
+  projectedTokens: number;
+  projectedStatus: AIQuotaLevel;
+}
+
+export const useAIQuota = (enabled = true) => {
+  return useQuery({
+    queryKey: ['ai-quota'],
+    queryFn: async () => {
+      const response = await api.get('/ai/quota') as { data: AIQuotaStatus };
+      return response.data;
+    },
+    enabled,
+    staleTime: 60 * 1000,
+  });
+};
@@ -0,0 +1,108 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import api from '@/services/api';
+import { toast } from 'sonner';
+
+export type CalendarItemSource = 'event' | 'task' | 'milestone' | 'invoice';
+
+export interface CalendarItem {
+  id: string;
+  source: CalendarItemSource;
+  type: 'meeting' | 'deadline' | 'internal' | 'other';
+  title: string;
+  description?: string;
+  reference?: string;
+  start: string;
+  end: string;
+  allDay: boolean;
+  location?: string;
+  status?: string;
+  priority?: string;
+  category?: string;
+  amount?: number;
+  client: { _id: string; name: string } | null;
+  assignee?: { _id: string; fullName: string; email: string } | null;
+  attendees?: { _id: string; fullName: string; email: string }[];
+  link: { entityType: 'Task' | 'Invoice'; entityId: string } | null;
+}
+
+export interface CalendarFilters {
+  start: Date;
+  end: Date;
+  employee?: string;
+  client?: string;
+}
+
+export interface CalendarEventInput {
+  title: string;
+  description?: string;
+  type: 'meeting' | 'deadline' | 'internal' | 'other';
+  startDate: string;
+  endDate?: string;
+  allDay?: boolean;
+  location?: string;
+  client?: string;
+  task?: string;
+  attendees?: string[];
+}
+
+export const useCalendar = (filters: CalendarFilters) => {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: ['calendar', filters.start.toISOString(), filters.end.toISOString(), filters.employee, filters.client],
+    queryFn: async () => {
+      const params: Record<string, string> = {
+        start: filters.start.toISOString(),
+        end: filters.end.toISOString(),
+      };
+      if (filters.employee && filters.employee !== 'all') params.employee = filters.employee;
+      if (filters.client && filters.client !== 'all') params.client = filters.client;
+
+      const response = await api.get('/calendar', params) as { data?: { items?: CalendarItem[] } };
+      return response.data?.items || [];
+    },
+  });
+
+  const deleteEventMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await api.delete(`/calendar/events/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['calendar'] });
+      toast.success('Event deleted successfully');
+    },
+    onError: (error: Error) => {
+      toast.error(error?.message || 'Failed to delete event');
+      console.error('Delete event error:', error);
+    }
+  });
+
+  return {
+    items: data || [],
+    isLoading,
+    error,
+    refetch,
+    deleteEvent: deleteEventMutation.mutateAsync,
+    isDeleting: deleteEventMutation.isPending,
+  };
+};
+
+// Used by AddEventForm, which doesn't need the item list
+export const useCreateCalendarEvent = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (eventData: CalendarEventInput) => {
+      const response = await api.post('/calendar/events', eventData) as { data?: { event?: unknown } };
+      return response.data?.event;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['calendar'] });
+      toast.success('Event created successfully');
+    },
+    onError: (error: Error) => {
+      toast.error(error?.message || 'Failed to create event');
+      console.error('Create event error:', error);
+    }
+  });
+};
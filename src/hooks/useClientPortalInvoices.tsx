@@ -0,0 +1,139 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import api, { paymentsAPI } from '@/services/api';
+import razorpayService, { RazorpayResponse } from '@/services/razorpay';
+import { getValidatedToken } from '@/lib/auth';
+import { API_BASE_URL } from '@/config/api.config';
+import { Invoice } from '@/hooks/useInvoices';
+
+export interface PortalPayment {
+  _id: string;
+  amount: number;
+  date: string;
+  method: string;
+  reference?: string;
+}
+
+export type PortalInvoiceType = Invoice['type'] | 'quote_sent';
+
+export interface PortalInvoice extends Omit<Invoice, 'type' | 'status' | 'firm' | 'client' | 'createdBy'> {
+  type: PortalInvoiceType;
+  status: Invoice['status'] | 'quote_sent' | 'approved' | 'rejected';
+  firm: { _id: string; name: string };
+  client: string;
+  payments: PortalPayment[];
+  clientResponse?: {
+    status: 'accepted' | 'rejected';
+    respondedAt: string;
+    reason?: string;
+    invoice?: string;
+  };
+}
+
+export interface PortalInvoiceSummary {
+  outstanding: number;
+  overdue: number;
+  paid: number;
+  openQuotations: number;
+}
+
+export interface PaymentResult {
+  invoice: { id: string; invoiceNumber: string; status: string; paidAmount: number; balanceAmount: number };
+  payment: { id: string; amount: number; date: string; reference?: string };
+}
+
+export const QUOTE_TYPES: PortalInvoiceType[] = ['quotation', 'quote_sent'];
+export const PAYABLE_STATUSES = ['sent', 'partially_paid', 'overdue'];
+
+export const usePortalInvoices = () => {
+  return useQuery({
+    queryKey: ['portal-invoices'],
+    queryFn: async () => {
+      const response = await api.get('/client-portal/invoices') as {
+        data: { invoices: PortalInvoice[]; summary: PortalInvoiceSummary };
+      };
+      return response.data;
+    },
+  });
+};
+
+// PDFs are streamed with the auth header, then saved from a blob
+const downloadPdf = async (path: string, fallbackName: string) => {
+  const token = getValidatedToken();
+  const response = await fetch(`${API_BASE_URL}/client-portal/${path}`, {
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    throw new Error(data?.message || 'Failed to download file');
+  }
+
+  const disposition = response.headers.get('content-disposition') || '';
+  const fileName = disposition.match(/filename="([^"]+)"/)?.[1] || fallbackName;
+  const url = window.URL.createObjectURL(await response.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  window.URL.revokeObjectURL(url);
+};
+
+export const downloadPortalInvoicePdf = (invoice: Pick<PortalInvoice, '_id' | 'invoiceNumber'>) =>
+  downloadPdf(`invoices/${invoice._id}/pdf`, `${invoice.invoiceNumber}.pdf`);
+
+export const downloadPaymentReceipt = (invoiceId: string, paymentId: string) =>
+  downloadPdf(`invoices/${invoiceId}/payments/${paymentId}/receipt`, 'receipt.pdf');
+
+export const useRespondToQuotation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, action, reason }: { id: string; action: 'accept' | 'reject'; reason?: string }) =>
+      api.post(`/client-portal/invoices/${id}/${action}`, { reason }) as Promise<{ message: string }>,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['portal-invoices'] });
+    },
+  });
+};
+
+// Opens Razorpay checkout for the invoice balance; resolves with the checkout response
+const openCheckout = (invoice: PortalInvoice, order: { orderId: string; amount: number; currency: string }, key: string, prefill: { name: string; email: string; contact: string }) =>
+  new Promise<RazorpayResponse>((resolve, reject) => {
+    razorpayService.initializePayment({
+      key,
+      amount: order.amount,
+      currency: order.currency,
+      name: invoice.firm?.name || 'Invoice payment',
+      description: `Payment for Invoice ${invoice.invoiceNumber}`,
+      order_id: order.orderId,
+      handler: resolve,
+      prefill,
+      notes: { invoice_number: invoice.invoiceNumber },
+      theme: { color: '#2563eb' },
+      modal: { ondismiss: () => reject(new Error('Payment cancelled')) },
+    }).catch(reject);
+  });
+
+export const usePayInvoice = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ invoice, prefill }: { invoice: PortalInvoice; prefill: { name: string; email: string; contact: string } }) => {
+      const config = await paymentsAPI.getConfig() as { data: { razorpayKeyId?: string; enabled: boolean } };
+      if (!config.data.enabled || !config.data.razorpayKeyId) {
+        throw new Error('Online payments are not available - please contact your CA firm');
+      }
+
+      const order = await paymentsAPI.createOrder({ invoiceId: invoice._id, amount: invoice.balanceAmount }) as {
+        data: { orderId: string; amount: number; currency: string };
+      };
+      const checkout = await openCheckout(invoice, order.data, config.data.razorpayKeyId, prefill);
+      const verified = await paymentsAPI.verifyPayment(checkout) as { data: PaymentResult };
+      return verified.data;
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['portal-invoices'] });
+    },
+  });
+};
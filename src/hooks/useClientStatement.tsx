@@ -0,0 +1,95 @@
+import { useQuery, useMutation } from '@tanstack/react-query';
+import api from '@/services/api';
+import { getValidatedToken } from '@/lib/auth';
+import { API_BASE_URL } from '@/config/api.config';
+
+export type StatementEntryType = 'invoice' | 'payment' | 'credit_note' | 'refund';
+
+export interface StatementEntry {
+  date: string;
+  type: StatementEntryType;
+  reference?: string;
+  description: string;
+  debit: number;
+  credit: number;
+  balance: number;
+  invoice: string;
+  dueDate?: string;
+}
+
+export type AgeingBucketKey = 'days0to30' | 'days31to60' | 'days61to90' | 'over90';
+
+export interface ClientStatement {
+  client: {
+    _id: string;
+    name: string;
+    email?: string;
+    paymentTerms?: number;
+    creditLimit?: number;
+  };
+  period: { from: string; to: string };
+  openingBalance: number;
+  entries: StatementEntry[];
+  totals: { debit: number; credit: number };
+  closingBalance: number;
+  ageing: Record<AgeingBucketKey | 'total', number>;
+  ageingBuckets: { key: AgeingBucketKey; label: string }[];
+  creditLimit: number;
+  overCreditLimit: boolean;
+  generatedAt: string;
+}
+
+export interface StatementPeriod {
+  from?: string;
+  to?: string;
+}
+
+export const useClientStatement = (clientId: string | undefined, period: StatementPeriod) => {
+  return useQuery({
+    queryKey: ['client-statement', clientId, period],
+    queryFn: async () => {
+      const params: Record<string, string> = {};
+      if (period.from) params.from = period.from;
+      if (period.to) params.to = period.to;
+      const response = await api.get(`/clients/${clientId}/statement`, params) as { data: ClientStatement };
+      return response.data;
+    },
+    enabled: !!clientId,
+  });
+};
+
+// Downloads go through fetch so the auth header is sent, then save the blob
+export const downloadClientStatement = async (clientId: string, format: 'pdf' | 'xlsx', period: StatementPeriod) => {
+  const params = new URLSearchParams({ format });
+  if (period.from) params.append('from', period.from);
+  if (period.to) params.append('to', period.to);
+
+  const token = getValidatedToken();
+  const response = await fetch(`${API_BASE_URL}/clients/${clientId}/statement/export?${params.toString()}`, {
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    throw new Error(data?.message || 'Failed to download statement');
+  }
+
+  const disposition = response.headers.get('content-disposition') || '';
+  const fileName = disposition.match(/filename="([^"]+)"/)?.[1] || `statement.${format}`;
+  const url = window.URL.createObjectURL(await response.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  window.URL.revokeObjectURL(url);
+};
+
+export const useEmailClientStatement = () => {
+  return useMutation({
+    mutationFn: async ({ clientId, ...payload }: StatementPeriod & { clientId: string; email?: string; message?: string }) => {
+      const response = await api.post(`/clients/${clientId}/statement/email`, payload) as { message?: string };
+      return response;
+    },
+  });
+};
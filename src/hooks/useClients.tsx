@@ -5,6 +5,12 @@ import { supabase } from '@/integrations/supabase/client';
 import { clientsAPI, communicationsAPI, documentsAPI, contactsAPI } from '@/services/api';
 import { toast } from 'sonner';
 
+export interface ClientStaff {
+  id: string;
+  name: string;
+  email?: string;
+}
+
 interface Client {
   id: string;
   name: string;
@@ -27,6 +33,9 @@ interface Client {
   payment_terms?: number;
   credit_limit?: number;
   is_deleted?: boolean;
+  // Responsible partner/manager and the staff working on the client
+  partner?: ClientStaff | null;
+  assigned_to?: ClientStaff[];
   created_at: string;
   updated_at: string;
 }
@@ -70,6 +79,11 @@ interface ClientContact {
   notes?: string;
 }
 
+const mapStaff = (user: { _id?: string; id?: string; fullName?: string; email?: string } | string): ClientStaff =>
+  typeof user === 'string'
+    ? { id: user, name: '' }
+    : { id: user._id || user.id || '', name: user.fullName || user.email || '', email: user.email };
+
 // Function to map backend camelCase fields to frontend snake_case fields
 const mapClientData = (backendClient: any) => {
   return {
@@ -94,6 +108,8 @@ const mapClientData = (backendClient: any) => {
     credit_limit: backendClient.creditLimit,
     status: backendClient.status,
     is_deleted: backendClient.isDeleted,
+    partner: backendClient.partner ? mapStaff(backendClient.partner) : null,
+    assigned_to: (backendClient.assignedTo || []).map(mapStaff),
     created_at: backendClient.createdAt,
     updated_at: backendClient.updatedAt,
   };
@@ -175,7 +191,9 @@ export const useClients = () => {
   const updateClient = useMutation({
     mutationFn: async ({ id, ...updates }: Partial<Client> & { id: string }) => {
       try {
-        const response = await clientsAPI.updateClient(id, updates) as any;
+        // Team changes go through useClientAssignment
+        const { partner, assigned_to, ...details } = updates;
+        const response = await clientsAPI.updateClient(id, details) as any;
         if (response.success) {
           return mapClientData(response.data);
         } else {
@@ -348,6 +366,53 @@ export const useClients = () => {
   };
 };
 
+// Partner/team assignment for a single client and bulk handover between staff
+export const useClientAssignment = () => {
+  const queryClient = useQueryClient();
+
+  const updateAssignment = useMutation({
+    mutationFn: async ({ id, partner, assignedTo }: { id: string; partner: string | null; assignedTo: string[] }) => {
+      const response = await clientsAPI.updateClient(id, { partner, assignedTo }) as { success: boolean; message?: string };
+      if (!response.success) {
+        throw new Error(response.message || 'Failed to update client team');
+      }
+      return response;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['clients'] });
+      toast.success('Client team updated');
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to update client team');
+    },
+  });
+
+  const reassignClients = useMutation({
+    mutationFn: async (data: { fromUserId: string; toUserId: string; clientIds?: string[]; includeTasks?: boolean }) => {
+      const response = await clientsAPI.reassign(data) as { success: boolean; message: string };
+      if (!response.success) {
+        throw new Error(response.message || 'Failed to reassign clients');
+      }
+      return response;
+    },
+    onSuccess: (response) => {
+      queryClient.invalidateQueries({ queryKey: ['clients'] });
+      queryClient.invalidateQueries({ queryKey: ['tasks'] });
+      toast.success(response.message);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to reassign clients');
+    },
+  });
+
+  return {
+    updateAssignment: updateAssignment.mutate,
+    reassignClients: reassignClients.mutateAsync,
+    isUpdatingAssignment: updateAssignment.isPending,
+    isReassigning: reassignClients.isPending,
+  };
+};
+
 // Hook for client communications
 export const useClientCommunications = (clientId?: string) => {
   const queryClient = useQueryClient();
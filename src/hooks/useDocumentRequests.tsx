@@ -0,0 +1,223 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import api from '@/services/api';
+import { getValidatedToken } from '@/lib/auth';
+import { API_BASE_URL } from '@/config/api.config';
+import { toast } from 'sonner';
+
+export type DocumentRequestItemStatus = 'pending' | 'uploaded' | 'accepted' | 'rejected';
+export type DocumentRequestStatus = 'open' | 'completed' | 'cancelled';
+
+export type RequestedDocumentType =
+  | 'identity_proof'
+  | 'address_proof'
+  | 'business_registration'
+  | 'tax_document'
+  | 'financial_statement'
+  | 'contract'
+  | 'invoice'
+  | 'receipt'
+  | 'correspondence'
+  | 'other';
+
+interface RequestUser {
+  _id: string;
+  fullName: string;
+  email: string;
+}
+
+export interface DocumentRequestItem {
+  _id: string;
+  name: string;
+  description?: string;
+  documentType: RequestedDocumentType;
+  status: DocumentRequestItemStatus;
+  document?: {
+    _id: string;
+    documentName: string;
+    originalFileName: string;
+    fileSize: number;
+    mimeType: string;
+    createdAt: string;
+  } | null;
+  uploadedBy?: RequestUser | null;
+  uploadedAt?: string;
+  reviewedBy?: RequestUser | null;
+  reviewedAt?: string;
+  rejectionReason?: string;
+}
+
+export interface DocumentRequest {
+  _id: string;
+  title: string;
+  message?: string;
+  task: { _id: string; title: string; taskId?: string; status?: string; dueDate?: string } | null;
+  client: { _id: string; name: string; email?: string } | null;
+  requestedBy: RequestUser | null;
+  dueDate: string;
+  items: DocumentRequestItem[];
+  status: DocumentRequestStatus;
+  completedAt?: string;
+  outstandingCount: number;
+  isOverdue: boolean;
+  createdAt: string;
+}
+
+export interface DocumentRequestItemInput {
+  name: string;
+  description?: string;
+  documentType?: RequestedDocumentType;
+}
+
+export interface CreateDocumentRequestInput {
+  taskId: string;
+  title?: string;
+  message?: string;
+  dueDate: string;
+  items: DocumentRequestItemInput[];
+}
+
+export const requestedDocumentTypeLabels: Record<RequestedDocumentType, string> = {
+  identity_proof: 'Identity proof',
+  address_proof: 'Address proof',
+  business_registration: 'Business registration',
+  tax_document: 'Tax document',
+  financial_statement: 'Financial statement',
+  contract: 'Contract',
+  invoice: 'Invoice',
+  receipt: 'Receipt',
+  correspondence: 'Correspondence',
+  other: 'Other',
+};
+
+interface DocumentRequestFilters {
+  task?: string;
+  client?: string;
+  status?: DocumentRequestStatus;
+}
+
+// Fetch the file with the auth header; a plain link would be rejected by the API
+export const downloadRequestedDocument = async (documentId: string, fileName: string) => {
+  const token = getValidatedToken();
+  const response = await fetch(`${API_BASE_URL}/documents/${documentId}/download`, {
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+  });
+  if (!response.ok) {
+    throw new Error('Failed to download document');
+  }
+
+  const url = window.URL.createObjectURL(await response.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  window.URL.revokeObjectURL(url);
+};
+
+export const useDocumentRequests = (filters: DocumentRequestFilters = {}, enabled = true) => {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['document-requests', filters],
+    queryFn: async () => {
+      const params: Record<string, string> = {};
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value) params[key] = value;
+      });
+      const response = await api.get('/document-requests', params) as { data?: { requests?: DocumentRequest[] } };
+      return response.data?.requests || [];
+    },
+    enabled,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['document-requests'] });
+    queryClient.invalidateQueries({ queryKey: ['documents'] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (input: CreateDocumentRequestInput) => {
+      const response = await api.post('/document-requests', input) as { data?: { request?: DocumentRequest } };
+      return response.data?.request;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success('Document request sent to client');
+    },
+    onError: (error: Error) => {
+      toast.error(error?.message || 'Failed to create document request');
+    }
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await api.put(`/document-requests/${id}`, { status: 'cancelled' }) as { data?: { request?: DocumentRequest } };
+      return response.data?.request;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success('Document request cancelled');
+    },
+    onError: (error: Error) => {
+      toast.error(error?.message || 'Failed to cancel document request');
+    }
+  });
+
+  const uploadMutation = useMutation({
+    mutationFn: async ({ requestId, itemId, file }: { requestId: string; itemId: string; file: File }) => {
+      const formData = new FormData();
+      formData.append('document', file);
+      const response = await api.upload(`/document-requests/${requestId}/items/${itemId}/upload`, formData) as {
+        data?: { request?: DocumentRequest };
+      };
+      return response.data?.request;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success('Document uploaded');
+    },
+    onError: (error: Error) => {
+      toast.error(error?.message || 'Failed to upload document');
+    }
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ requestId, itemId, action, reason }: {
+      requestId: string;
+      itemId: string;
+      action: 'accept' | 'reject';
+      reason?: string;
+    }) => {
+      const response = await api.post(`/document-requests/${requestId}/items/${itemId}/review`, { action, reason }) as {
+        data?: { request?: DocumentRequest };
+      };
+      return response.data?.request;
+    },
+    onSuccess: (_, { action }) => {
+      invalidate();
+      toast.success(action === 'accept' ? 'Document accepted' : 'Document rejected - client has been asked to re-upload');
+    },
+    onError: (error: Error) => {
+      toast.error(error?.message || 'Failed to review document');
+    }
+  });
+
+  const requests = data || [];
+
+  return {
+    requests,
+    outstandingCount: requests
+      .filter(request => request.status === 'open')
+      .reduce((sum, request) => sum + request.outstandingCount, 0),
+    isLoading,
+    error,
+    createRequest: createMutation.mutateAsync,
+    cancelRequest: cancelMutation.mutateAsync,
+    uploadItem: uploadMutation.mutateAsync,
+    reviewItem: reviewMutation.mutateAsync,
+    isCreating: createMutation.isPending,
+    isUploading: uploadMutation.isPending,
+    isReviewing: reviewMutation.isPending,
+  };
+};
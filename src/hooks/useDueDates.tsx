@@ -0,0 +1,144 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import api from '@/services/api';
+import { toast } from 'sonner';
+
+export interface StatutoryReturnType {
+  code: string;
+  label: string;
+  category: 'gst' | 'itr' | 'roc';
+  frequency: 'monthly' | 'quarterly' | 'annual';
+  assesseeTypes: string[];
+}
+
+export interface DueDateExtension {
+  _id: string;
+  returnType: string;
+  period: string;
+  assesseeType?: string | null;
+  originalDueDate?: string;
+  extendedDueDate: string;
+  notification?: string;
+  notes?: string;
+  createdAt: string;
+}
+
+export interface ResolvedDueDate {
+  returnType: string;
+  label: string;
+  category?: string;
+  period: string;
+  periodLabel: string;
+  originalDueDate: string;
+  dueDate: string;
+  extension: DueDateExtension | null;
+}
+
+export interface DueDateExtensionInput {
+  returnType: string;
+  period: string;
+  assesseeType?: string;
+  extendedDueDate: string;
+  notification?: string;
+  notes?: string;
+}
+
+export const useStatutoryReturnTypes = () => {
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['due-dates', 'rules'],
+    queryFn: async () => {
+      const response = await api.get('/due-dates/rules') as { data?: { returnTypes?: StatutoryReturnType[] } };
+      return response.data?.returnTypes || [];
+    },
+    staleTime: Infinity,
+  });
+
+  return {
+    returnTypes: data || [],
+    isLoading,
+    error,
+  };
+};
+
+// Without a period this resolves the next due date still ahead of today
+export const useStatutoryDueDate = (returnType?: string, period?: string, assesseeType?: string) => {
+  return useQuery({
+    queryKey: ['due-dates', 'calculate', returnType, period, assesseeType],
+    queryFn: async () => {
+      const params: Record<string, string> = { returnType: returnType as string };
+      if (period) params.period = period;
+      if (assesseeType) params.assesseeType = assesseeType;
+
+      const response = await api.get('/due-dates/calculate', params) as { data?: ResolvedDueDate };
+      return response.data || null;
+    },
+    enabled: !!returnType,
+  });
+};
+
+export const useUpcomingDueDates = (from: Date, to: Date, returnTypes?: string[]) => {
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['due-dates', 'upcoming', from.toISOString(), to.toISOString(), returnTypes?.join(',')],
+    queryFn: async () => {
+      const params: Record<string, string> = { from: from.toISOString(), to: to.toISOString() };
+      if (returnTypes?.length) params.returnTypes = returnTypes.join(',');
+
+      const response = await api.get('/due-dates/upcoming', params) as { data?: { deadlines?: ResolvedDueDate[] } };
+      return response.data?.deadlines || [];
+    },
+  });
+
+  return {
+    deadlines: data || [],
+    isLoading,
+    error,
+  };
+};
+
+export const useDueDateExtensions = () => {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['due-dates', 'extensions'],
+    queryFn: async () => {
+      const response = await api.get('/due-dates/extensions') as { data?: { extensions?: DueDateExtension[] } };
+      return response.data?.extensions || [];
+    },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (extension: DueDateExtensionInput) => {
+      const response = await api.post('/due-dates/extensions', extension) as { data?: { extension?: DueDateExtension } };
+      return response.data?.extension;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['due-dates'] });
+      toast.success('Due-date extension recorded');
+    },
+    onError: (error: Error) => {
+      toast.error(error?.message || 'Failed to record extension');
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await api.delete(`/due-dates/extensions/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['due-dates'] });
+      toast.success('Due-date extension deleted');
+    },
+    onError: (error: Error) => {
+      toast.error(error?.message || 'Failed to delete extension');
+    }
+  });
+
+  return {
+    extensions: data || [],
+    isLoading,
+    error,
+    createExtension: createMutation.mutateAsync,
+    isCreating: createMutation.isPending,
+    deleteExtension: deleteMutation.mutateAsync,
+    isDeleting: deleteMutation.isPending,
+  };
+};
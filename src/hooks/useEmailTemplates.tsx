@@ -0,0 +1,124 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import api from '@/services/api';
+
+export type EmailTemplateCategory =
+  | 'task_assignment'
+  | 'task_due_reminder'
+  | 'task_completion'
+  | 'quote_approval'
+  | 'quote_to_client'
+  | 'payment_confirmation'
+  | 'payment_received_admin'
+  | 'invoice_reminder'
+  | 'statement_of_account'
+  | 'general_notification'
+  | 'custom';
+
+export interface EmailTemplate {
+  _id: string;
+  name: string;
+  category: EmailTemplateCategory;
+  subject: string;
+  body: string;
+  isHtml: boolean;
+  variables: string[];
+  isActive: boolean;
+  updatedBy?: { _id: string; fullName: string; email: string };
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface EmailTemplateCategoryInfo {
+  key: EmailTemplateCategory;
+  label: string;
+  variables: string[];
+  subject: string;
+  body: string;
+}
+
+export interface EmailTemplateInput {
+  name: string;
+  category: EmailTemplateCategory;
+  subject: string;
+  body: string;
+  isHtml?: boolean;
+  isActive?: boolean;
+}
+
+export interface EmailTemplatePreview {
+  subject: string;
+  html: string;
+  text?: string;
+  validation: {
+    valid: boolean;
+    variables: string[];
+    unknown: string[];
+    malformed: string[];
+  };
+}
+
+export const useEmailTemplates = () => {
+  const queryClient = useQueryClient();
+
+  const templatesQuery = useQuery({
+    queryKey: ['email-templates'],
+    queryFn: async () => {
+      const response = await api.get('/email-templates') as { data?: { templates?: EmailTemplate[] } };
+      return response.data?.templates || [];
+    },
+  });
+
+  const categoriesQuery = useQuery({
+    queryKey: ['email-templates', 'categories'],
+    queryFn: async () => {
+      const response = await api.get('/email-templates/categories') as { data?: { categories?: EmailTemplateCategoryInfo[] } };
+      return response.data?.categories || [];
+    },
+    staleTime: Infinity,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['email-templates'] });
+
+  const createMutation = useMutation({
+    mutationFn: async (template: EmailTemplateInput) => {
+      const response = await api.post('/email-templates', template) as { data?: { template?: EmailTemplate } };
+      return response.data?.template;
+    },
+    onSuccess: invalidate,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, ...template }: Partial<EmailTemplateInput> & { id: string }) => {
+      const response = await api.put(`/email-templates/${id}`, template) as { data?: { template?: EmailTemplate } };
+      return response.data?.template;
+    },
+    onSuccess: invalidate,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await api.delete(`/email-templates/${id}`);
+    },
+    onSuccess: invalidate,
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async (template: Pick<EmailTemplateInput, 'category' | 'subject' | 'body' | 'isHtml'>) => {
+      const response = await api.post('/email-templates/preview', template) as { data?: EmailTemplatePreview };
+      return response.data;
+    },
+  });
+
+  return {
+    templates: templatesQuery.data || [],
+    categories: categoriesQuery.data || [],
+    isLoading: templatesQuery.isLoading || categoriesQuery.isLoading,
+    error: templatesQuery.error,
+    createTemplate: createMutation.mutateAsync,
+    updateTemplate: updateMutation.mutateAsync,
+    deleteTemplate: deleteMutation.mutateAsync,
+    previewTemplate: previewMutation.mutateAsync,
+    isSaving: createMutation.isPending || updateMutation.isPending,
+    isPreviewing: previewMutation.isPending,
+  };
+};
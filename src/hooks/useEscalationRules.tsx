@@ -0,0 +1,101 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import api from '@/services/api';
+import { toast } from 'sonner';
+
+export type EscalationTrigger = 'not_started' | 'stalled' | 'overdue';
+export type EscalationTarget = 'assignee' | 'creator' | 'reviewer' | 'client_partner' | 'admins' | 'owner';
+export type EscalationPriority = 'low' | 'medium' | 'high' | 'urgent';
+
+export interface EscalationRule {
+  _id: string;
+  name: string;
+  trigger: EscalationTrigger;
+  thresholdHours: number;
+  priorities: EscalationPriority[];
+  notify: EscalationTarget[];
+  raisePriority: boolean;
+  isActive: boolean;
+  lastTriggeredAt?: string;
+}
+
+export type EscalationRuleInput = Omit<EscalationRule, '_id' | 'lastTriggeredAt'>;
+
+export const ESCALATION_TRIGGER_LABELS: Record<EscalationTrigger, string> = {
+  not_started: 'Not started',
+  stalled: 'No activity',
+  overdue: 'Overdue',
+};
+
+export const ESCALATION_TARGET_LABELS: Record<EscalationTarget, string> = {
+  assignee: 'Assignee',
+  creator: 'Task creator',
+  reviewer: 'Reviewer',
+  client_partner: 'Client partner',
+  admins: 'Admins',
+  owner: 'Owner',
+};
+
+export const useEscalationRules = () => {
+  const queryClient = useQueryClient();
+
+  const { data: rules = [], isLoading } = useQuery({
+    queryKey: ['escalation-rules'],
+    queryFn: async () => {
+      const response = await api.get('/automation/escalation-rules') as { data?: EscalationRule[] };
+      return response.data || [];
+    },
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['escalation-rules'] });
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, ...rule }: Partial<EscalationRuleInput> & { id?: string }) => {
+      return id
+        ? api.put(`/automation/escalation-rules/${id}`, rule)
+        : api.post('/automation/escalation-rules', rule);
+    },
+    onSuccess: (_, { id }) => {
+      invalidate();
+      toast.success(id ? 'Escalation rule updated' : 'Escalation rule created');
+    },
+    onError: (error: Error) => {
+      toast.error(error?.message || 'Failed to save escalation rule');
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => api.delete(`/automation/escalation-rules/${id}`),
+    onSuccess: () => {
+      invalidate();
+      toast.success('Escalation rule deleted');
+    },
+    onError: (error: Error) => {
+      toast.error(error?.message || 'Failed to delete escalation rule');
+    },
+  });
+
+  const runMutation = useMutation({
+    mutationFn: async () => {
+      const response = await api.post('/automation/escalation-rules/run') as { data?: { escalated: number } };
+      return response.data;
+    },
+    onSuccess: (summary) => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ['tasks'] });
+      toast.success(`Escalated ${summary?.escalated ?? 0} task(s)`);
+    },
+    onError: (error: Error) => {
+      toast.error(error?.message || 'Failed to run escalation rules');
+    },
+  });
+
+  return {
+    rules,
+    isLoading,
+    saveRule: saveMutation.mutate,
+    isSaving: saveMutation.isPending,
+    deleteRule: deleteMutation.mutate,
+    runRules: runMutation.mutate,
+    isRunning: runMutation.isPending,
+  };
+};
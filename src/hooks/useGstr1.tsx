@@ -0,0 +1,152 @@
+import { useQuery } from '@tanstack/react-query';
+import api from '@/services/api';
+import { getValidatedToken } from '@/lib/auth';
+import { API_BASE_URL } from '@/config/api.config';
+
+export interface Gstr1TaxTotals {
+  txval: number;
+  iamt: number;
+  camt: number;
+  samt: number;
+  csamt: number;
+}
+
+export interface Gstr1RateLine extends Gstr1TaxTotals {
+  rt: number;
+}
+
+interface Gstr1Document {
+  invoiceId: string;
+  idt: string;
+  val: number;
+  pos: string;
+  items: Gstr1RateLine[];
+}
+
+export interface Gstr1Invoice extends Gstr1Document {
+  inum: string;
+  rchrg: 'Y' | 'N';
+  inv_typ: string;
+}
+
+export interface Gstr1CreditNote extends Gstr1Document {
+  nt_num: string;
+  nt_dt: string;
+  ntty: 'C' | 'D';
+  rchrg: 'Y' | 'N';
+  inv_typ: string;
+  originalInvoiceNumber: string;
+  originalInvoiceDate: string | null;
+}
+
+// Credit notes to unregistered clients against B2CL invoices
+export interface Gstr1UnregisteredCreditNote extends Gstr1Document {
+  nt_num: string;
+  nt_dt: string;
+  ntty: 'C' | 'D';
+  typ: 'B2CL';
+  originalInvoiceNumber: string;
+  originalInvoiceDate: string | null;
+}
+
+export interface Gstr1B2csRow extends Gstr1RateLine {
+  sply_ty: 'INTRA' | 'INTER';
+  pos: string;
+  typ: string;
+}
+
+export interface Gstr1HsnRow extends Gstr1RateLine {
+  hsn_sc: string;
+  desc: string;
+  uqc: string;
+  qty: number;
+  val: number;
+}
+
+export interface Gstr1Issue {
+  severity: 'error' | 'warning';
+  code: string;
+  message: string;
+  invoiceId?: string;
+  invoiceNumber?: string;
+}
+
+export interface Gstr1Registration {
+  gstin: string;
+  stateCode: string;
+  state: string | null;
+  accounts: string[];
+}
+
+export type Gstr1SectionTotals = Gstr1TaxTotals & { count: number; val: number };
+
+export interface Gstr1Report {
+  period: {
+    frequency: 'monthly' | 'quarterly';
+    fp: string;
+    from: string;
+    to: string;
+    label: string;
+  };
+  supplier: Gstr1Registration & { name: string };
+  registrations: Gstr1Registration[];
+  b2b: { ctin: string; receiverName: string; invoices: Gstr1Invoice[] }[];
+  b2cl: { pos: string; invoices: Gstr1Invoice[] }[];
+  b2cs: Gstr1B2csRow[];
+  cdnr: { ctin: string; receiverName: string; notes: Gstr1CreditNote[] }[];
+  cdnur: Gstr1UnregisteredCreditNote[];
+  hsn: { b2b: Gstr1HsnRow[]; b2c: Gstr1HsnRow[] };
+  issues: Gstr1Issue[];
+  summary: Record<'b2b' | 'b2cl' | 'b2cs' | 'cdnr' | 'cdnur' | 'hsn', Gstr1SectionTotals> & {
+    errors: number;
+    warnings: number;
+  };
+}
+
+export interface Gstr1Period {
+  month: string;
+  year: string;
+  quarterly: boolean;
+  gstin?: string;
+}
+
+const periodParams = ({ month, year, quarterly, gstin }: Gstr1Period) => {
+  const params: Record<string, string> = { month, year, quarterly: String(quarterly) };
+  if (gstin) params.gstin = gstin;
+  return params;
+};
+
+export const useGstr1Report = (period: Gstr1Period) => {
+  return useQuery({
+    queryKey: ['gstr1', period],
+    queryFn: async () => {
+      const response = await api.get('/reports/gstr1', periodParams(period)) as { data: Gstr1Report };
+      return response.data;
+    },
+  });
+};
+
+// Downloads go through fetch so the auth header is sent, then save the blob
+export const downloadGstr1 = async (format: 'json' | 'xlsx', period: Gstr1Period) => {
+  const params = new URLSearchParams({ format, ...periodParams(period) });
+
+  const token = getValidatedToken();
+  const response = await fetch(`${API_BASE_URL}/reports/gstr1/export?${params.toString()}`, {
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    throw new Error(data?.message || 'Failed to download GSTR-1');
+  }
+
+  const disposition = response.headers.get('content-disposition') || '';
+  const fileName = disposition.match(/filename="([^"]+)"/)?.[1] || `gstr1.${format}`;
+  const url = window.URL.createObjectURL(await response.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  window.URL.revokeObjectURL(url);
+};
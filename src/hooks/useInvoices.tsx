@@ -2,10 +2,12 @@ import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { useAuth } from './useAuth';
 import { getValidatedToken } from '@/lib/auth';
 import { API_BASE_URL } from '@/config/api.config';
+import type { InvoiceNumberingSettings } from '@/services/settings';
 
 interface InvoiceFilters {
   search?: string;
   status?: string;
+  type?: string;
   sortBy?: string;
   sortOrder?: 'asc' | 'desc';
   page?: number;
@@ -13,6 +15,7 @@ interface InvoiceFilters {
 }
 
 interface InvoiceItem {
+  _id?: string;
   description: string;
   quantity: number;
   rate: number;
@@ -21,12 +24,59 @@ interface InvoiceItem {
   taxable?: boolean;
   hsn?: string;
   taxRate?: number;
+  taxableValue?: number;
+  cgst?: number;
+  sgst?: number;
+  igst?: number;
 }
 
-interface Invoice {
+export type PlaceOfSupplySource = 'client_gstin' | 'client_address' | 'manual' | 'supplier' | 'unknown';
+
+export interface PlaceOfSupply {
+  stateCode: string | null;
+  state: string | null;
+  supplierStateCode: string | null;
+  supplierState: string | null;
+  interState: boolean;
+  source: PlaceOfSupplySource;
+}
+
+export interface InvoiceReminder {
+  _id: string;
+  sentAt: string;
+  type: 'due_reminder' | 'overdue_reminder' | 'payment_reminder';
+  daysAfterDue?: number;
+  sentTo?: string;
+  automatic?: boolean;
+}
+
+export type RefundMethod = 'razorpay' | 'cash' | 'cheque' | 'bank_transfer' | 'upi';
+
+export interface CreditNoteRefund {
+  amount: number;
+  method?: RefundMethod;
+  reference?: string;
+  razorpayRefundId?: string;
+  status?: 'pending' | 'processed' | 'failed';
+  processedAt?: string;
+  error?: string;
+}
+
+export interface EinvoiceRecord {
+  status: 'generated' | 'cancelled';
+  irn: string;
+  ackNo: string;
+  ackDate: string;
+  signedQrCode: string;
+  source: 'gsp' | 'mock' | 'import';
+  cancelledAt?: string;
+  cancelReason?: string;
+}
+
+export interface Invoice {
   _id: string;
   invoiceNumber: string;
-  type: 'invoice' | 'quotation' | 'proforma';
+  type: 'invoice' | 'quotation' | 'proforma' | 'credit_note';
   status: 'draft' | 'sent' | 'paid' | 'partially_paid' | 'overdue' | 'cancelled';
   client: {
     _id: string;
@@ -54,18 +104,28 @@ interface Invoice {
   totalAmount: number;
   paidAmount: number;
   balanceAmount: number;
+  creditedAmount?: number;
+  creditNote?: {
+    originalInvoice?: string | { _id: string; invoiceNumber: string };
+    reason?: string;
+    interState?: boolean;
+    refund?: CreditNoteRefund;
+  };
   gst: {
     cgst: number;
     sgst: number;
     igst: number;
     applicable: boolean;
   };
+  placeOfSupply?: PlaceOfSupply;
+  einvoice?: EinvoiceRecord;
   paymentTerms: string;
   paymentMethod: string;
   notes?: string;
   terms?: string;
   isOverdue?: boolean;
   daysOverdue?: number;
+  reminders?: InvoiceReminder[];
   createdAt: string;
   updatedAt: string;
 }
@@ -98,6 +158,7 @@ export const useInvoices = (filters: InvoiceFilters = {}) => {
       
       if (filters.search) searchParams.append('search', filters.search);
       if (filters.status) searchParams.append('status', filters.status);
+      if (filters.type) searchParams.append('type', filters.type);
       if (filters.sortBy) searchParams.append('sortBy', filters.sortBy);
       if (filters.sortOrder) searchParams.append('sortOrder', filters.sortOrder);
       if (filters.page) searchParams.append('page', filters.page.toString());
@@ -443,4 +504,502 @@ export const useBulkUpdateInvoiceStatus = () => {
       queryClient.invalidateQueries({ queryKey: ['invoices'] });
     },
   });
-};
\ No newline at end of file
+};
+export interface UnbilledDraftItem extends InvoiceItem {
+  taskId?: string;
+  completedDate?: string;
+  pricingSource: 'fixed_price' | 'logged_hours' | 'estimated_hours' | 'last_invoice' | 'manual' | 'none';
+}
+
+export interface UnbilledDraft {
+  client: { _id: string; name: string; email?: string };
+  items: UnbilledDraftItem[];
+  unpricedCount: number;
+  subtotal: number;
+  taxAmount: number;
+  totalAmount: number;
+}
+
+export interface UnbilledFilters {
+  from?: string;
+  to?: string;
+  clients?: string[];
+}
+
+export interface UnbilledItemOverride {
+  rate?: number;
+  quantity?: number;
+  description?: string;
+}
+
+export const useUnbilledWork = (filters: UnbilledFilters, enabled = true) => {
+  const { isAuthenticated } = useAuth();
+
+  return useQuery({
+    queryKey: ['invoices', 'unbilled', filters],
+    queryFn: async (): Promise<{ drafts: UnbilledDraft[]; taskCount: number; totalAmount: number }> => {
+      const token = getValidatedToken();
+      const searchParams = new URLSearchParams();
+
+      if (filters.from) searchParams.append('from', filters.from);
+      if (filters.to) searchParams.append('to', filters.to);
+      if (filters.clients?.length) searchParams.append('clients', filters.clients.join(','));
+
+      const response = await fetch(`${API_BASE_URL}/invoices/unbilled?${searchParams.toString()}`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to load unbilled work');
+      }
+
+      return data.data;
+    },
+    enabled: isAuthenticated && enabled,
+  });
+};
+
+export const useBillUnbilledWork = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (payload: UnbilledFilters & {
+      overrides?: Record<string, UnbilledItemOverride>;
+      notes?: string;
+    }): Promise<{ success: boolean; message: string; data: { invoices: Invoice[] } }> => {
+      const token = getValidatedToken();
+      const response = await fetch(API_BASE_URL + '/invoices/unbilled', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(payload),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to create invoices');
+      }
+
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['invoices'] });
+      queryClient.invalidateQueries({ queryKey: ['tasks'] });
+    },
+  });
+};
+
+export interface InvoiceReminderRunSummary {
+  sent: number;
+  skipped: number;
+  failed: number;
+  markedOverdue: number;
+  errors: { invoice: string; error: string }[];
+}
+
+export const useSendInvoiceReminder = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (invoiceId: string): Promise<{ success: boolean; message: string }> => {
+      const token = getValidatedToken();
+      const response = await fetch(`${API_BASE_URL}/invoices/${invoiceId}/send-reminder`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to send reminder');
+      }
+
+      return data;
+    },
+    onSuccess: (data, invoiceId) => {
+      queryClient.invalidateQueries({ queryKey: ['invoices'] });
+      queryClient.invalidateQueries({ queryKey: ['invoice', invoiceId] });
+    },
+  });
+};
+
+export const useRunInvoiceReminders = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (): Promise<{ success: boolean; message: string; data: InvoiceReminderRunSummary }> => {
+      const token = getValidatedToken();
+      const response = await fetch(API_BASE_URL + '/invoices/reminders/run', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to run reminders');
+      }
+
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['invoices'] });
+    },
+  });
+};
+
+export interface CreditNoteLine {
+  invoiceItem?: string;
+  description?: string;
+  quantity: number;
+  rate?: number;
+}
+
+export interface CreditNotePayload {
+  invoiceId: string;
+  full?: boolean;
+  items?: CreditNoteLine[];
+  reason: string;
+  refund?: { amount: number; method: RefundMethod; reference?: string };
+}
+
+interface CreditNoteResult {
+  success: boolean;
+  message: string;
+  data: { creditNote: Invoice | null; invoice: Invoice };
+}
+
+const postInvoiceAction = async <T,>(path: string, body: unknown, fallbackError: string): Promise<T> => {
+  const token = getValidatedToken();
+  const response = await fetch(`${API_BASE_URL}/invoices/${path}`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.message || fallbackError);
+  }
+
+  return data;
+};
+
+export const useCreditNotes = (invoiceId: string | undefined) => {
+  const { isAuthenticated } = useAuth();
+
+  return useQuery({
+    queryKey: ['credit-notes', invoiceId],
+    queryFn: async (): Promise<{ success: boolean; data: Invoice[] }> => {
+      const token = getValidatedToken();
+      const response = await fetch(`${API_BASE_URL}/invoices/${invoiceId}/credit-notes`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch credit notes');
+      }
+
+      return response.json();
+    },
+    enabled: isAuthenticated && !!invoiceId,
+  });
+};
+
+const invalidateCreditNoteQueries = (queryClient: ReturnType<typeof useQueryClient>, invoiceId: string) => {
+  queryClient.invalidateQueries({ queryKey: ['invoices'] });
+  queryClient.invalidateQueries({ queryKey: ['invoice', invoiceId] });
+  queryClient.invalidateQueries({ queryKey: ['credit-notes', invoiceId] });
+  queryClient.invalidateQueries({ queryKey: ['client-statement'] });
+};
+
+export const useCreateCreditNote = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ invoiceId, ...payload }: CreditNotePayload) =>
+      postInvoiceAction<CreditNoteResult>(`${invoiceId}/credit-notes`, payload, 'Failed to issue credit note'),
+    onSuccess: (data, { invoiceId }) => invalidateCreditNoteQueries(queryClient, invoiceId),
+  });
+};
+
+export const useCancelInvoice = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ invoiceId, ...payload }: Pick<CreditNotePayload, 'invoiceId' | 'reason' | 'refund'>) =>
+      postInvoiceAction<CreditNoteResult>(`${invoiceId}/cancel`, payload, 'Failed to cancel invoice'),
+    onSuccess: (data, { invoiceId }) => invalidateCreditNoteQueries(queryClient, invoiceId),
+  });
+};
+
+export const useRetryCreditNoteRefund = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ creditNoteId }: { creditNoteId: string; invoiceId: string }) =>
+      postInvoiceAction<{ success: boolean; message: string; data: Invoice }>(`${creditNoteId}/refund`, {}, 'Failed to retry refund'),
+    onSuccess: (data, { invoiceId }) => invalidateCreditNoteQueries(queryClient, invoiceId),
+  });
+};
+
+export type NumberSeriesType = 'invoice' | 'quotation' | 'proforma' | 'credit_note';
+export type NumberSeriesAccount = 'account_1' | 'account_2' | 'cash' | 'cheque';
+
+export interface NumberSeriesPreview {
+  financialYear: string;
+  errors: string[];
+  series: {
+    type: NumberSeriesType;
+    account: NumberSeriesAccount;
+    lastSequence: number;
+    nextNumber: string | null;
+  }[];
+}
+
+// Next number of every series; pass the unsaved numbering config to preview edits
+export const useNumberSeriesPreview = (numbering: InvoiceNumberingSettings | undefined) => {
+  const { isAuthenticated } = useAuth();
+
+  return useQuery({
+    queryKey: ['invoices', 'number-series', numbering],
+    queryFn: async () => {
+      const result = await postInvoiceAction<{ success: boolean; data: NumberSeriesPreview }>(
+        'number-series/preview',
+        { numbering },
+        'Failed to preview invoice numbers'
+      );
+      return result.data;
+    },
+    enabled: isAuthenticated,
+    placeholderData: (previous) => previous,
+  });
+};
+
+// Where the server would place the supply for this client and collection account
+export const usePlaceOfSupply = (clientId: string | undefined, collectionMethod: string, stateCode?: string) => {
+  const { isAuthenticated } = useAuth();
+
+  return useQuery({
+    queryKey: ['invoices', 'place-of-supply', clientId, collectionMethod, stateCode],
+    queryFn: async (): Promise<PlaceOfSupply> => {
+      const token = getValidatedToken();
+      const searchParams = new URLSearchParams({ client: clientId || '', collectionMethod });
+      if (stateCode) searchParams.append('stateCode', stateCode);
+
+      const response = await fetch(`${API_BASE_URL}/invoices/place-of-supply?${searchParams}`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to work out place of supply');
+      }
+
+      const result = await response.json();
+      return result.data;
+    },
+    enabled: isAuthenticated && !!clientId,
+  });
+};
+
+export interface EinvoiceIssue {
+  path: string;
+  message: string;
+}
+
+export interface EinvoiceDetails {
+  einvoice: EinvoiceRecord | null;
+  // Data URL of the signed QR code, ready for the PDF
+  qrImage: string | null;
+  errors: EinvoiceIssue[];
+  provider: { name: string; configured: boolean };
+  cancelReasons: Record<string, string>;
+}
+
+export interface EinvoiceImportPayload {
+  irn: string;
+  ackNo: string;
+  ackDate: string;
+  signedQrCode: string;
+}
+
+export const fetchEinvoiceDetails = async (invoiceId: string): Promise<EinvoiceDetails> => {
+  const token = getValidatedToken();
+  const response = await fetch(`${API_BASE_URL}/invoices/${invoiceId}/einvoice`, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'Content-Type': 'application/json',
+    },
+  });
+
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.message || 'Failed to fetch e-invoice details');
+  }
+  return result.data;
+};
+
+export const useEinvoice = (invoiceId: string | undefined) => {
+  const { isAuthenticated } = useAuth();
+
+  return useQuery({
+    queryKey: ['einvoice', invoiceId],
+    queryFn: () => fetchEinvoiceDetails(invoiceId as string),
+    enabled: isAuthenticated && !!invoiceId,
+  });
+};
+
+export const downloadEinvoiceJson = async (invoiceId: string) => {
+  const token = getValidatedToken();
+  const response = await fetch(`${API_BASE_URL}/invoices/${invoiceId}/einvoice/json`, {
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    throw new Error(data?.message || 'Failed to download e-invoice JSON');
+  }
+
+  const disposition = response.headers.get('content-disposition') || '';
+  const fileName = disposition.match(/filename="([^"]+)"/)?.[1] || 'einvoice.json';
+  const url = window.URL.createObjectURL(await response.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  window.URL.revokeObjectURL(url);
+};
+
+type EinvoiceResult = { success: boolean; message: string; data: Invoice };
+
+const invalidateEinvoiceQueries = (queryClient: ReturnType<typeof useQueryClient>, invoiceId: string) => {
+  queryClient.invalidateQueries({ queryKey: ['invoices'] });
+  queryClient.invalidateQueries({ queryKey: ['invoice', invoiceId] });
+  queryClient.invalidateQueries({ queryKey: ['einvoice', invoiceId] });
+};
+
+export const useGenerateIrn = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ invoiceId }: { invoiceId: string }) =>
+      postInvoiceAction<EinvoiceResult>(`${invoiceId}/einvoice/generate`, {}, 'Failed to generate IRN'),
+    onSuccess: (data, { invoiceId }) => invalidateEinvoiceQueries(queryClient, invoiceId),
+  });
+};
+
+export const useImportIrn = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ invoiceId, ...payload }: EinvoiceImportPayload & { invoiceId: string }) =>
+      postInvoiceAction<EinvoiceResult>(`${invoiceId}/einvoice/import`, payload, 'Failed to record IRN'),
+    onSuccess: (data, { invoiceId }) => invalidateEinvoiceQueries(queryClient, invoiceId),
+  });
+};
+
+export const useCancelIrn = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ invoiceId, ...payload }: { invoiceId: string; reason: string; remarks: string; recordOnly?: boolean }) =>
+      postInvoiceAction<EinvoiceResult>(`${invoiceId}/einvoice/cancel`, payload, 'Failed to cancel IRN'),
+    onSuccess: (data, { invoiceId }) => invalidateEinvoiceQueries(queryClient, invoiceId),
+  });
+};
+
+export interface EinvoiceConfig {
+  baseUrl: string;
+  clientId: string;
+  username: string;
+  hasClientSecret: boolean;
+  hasPassword: boolean;
+  provider: string;
+  configured: boolean;
+}
+
+export interface EinvoiceConfigUpdate {
+  baseUrl: string;
+  clientId: string;
+  username: string;
+  // Omit to keep the stored value, '' to clear it
+  clientSecret?: string;
+  password?: string;
+}
+
+export const useEinvoiceConfig = () => {
+  const { isAuthenticated } = useAuth();
+
+  return useQuery({
+    queryKey: ['einvoice-config'],
+    queryFn: async (): Promise<EinvoiceConfig> => {
+      const token = getValidatedToken();
+      const response = await fetch(`${API_BASE_URL}/invoices/einvoice/config`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to fetch e-invoice settings');
+      }
+      return result.data;
+    },
+    enabled: isAuthenticated,
+  });
+};
+
+export const useUpdateEinvoiceConfig = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (update: EinvoiceConfigUpdate): Promise<EinvoiceConfig> => {
+      const token = getValidatedToken();
+      const response = await fetch(`${API_BASE_URL}/invoices/einvoice/config`, {
+        method: 'PUT',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(update),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to save e-invoice settings');
+      }
+      return result.data;
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(['einvoice-config'], data);
+      queryClient.invalidateQueries({ queryKey: ['einvoice'] });
+    },
+  });
+};
@@ -11,7 +11,7 @@ export interface Notification {
     email: string;
     avatar?: string;
   };
-  type: 'task_assigned' | 'task_due_soon' | 'task_overdue' | 'task_completed' | 'task_updated' | 'client_document_uploaded' | 'payment_received' | 'system_announcement';
+  type: 'task_assigned' | 'task_due_soon' | 'task_overdue' | 'task_completed' | 'task_updated' | 'task_escalated' | 'client_document_uploaded' | 'payment_received' | 'system_announcement';
   title: string;
   message: string;
   relatedEntity?: {
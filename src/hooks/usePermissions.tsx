@@ -0,0 +1,128 @@
+import { useCallback } from 'react';
+import { useSelector } from 'react-redux';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import api from '@/services/api';
+import { RootState } from '@/store';
+
+export interface PermissionDefinition {
+  key: string;
+  group: string;
+  label: string;
+}
+
+export interface PermissionRole {
+  key: string;
+  name: string;
+  description: string;
+  baseRole: 'owner' | 'admin' | 'employee';
+  isSystem: boolean;
+  // The owner role always has every permission and cannot be edited
+  locked?: boolean;
+  permissions: string[];
+  userCount: number | null;
+}
+
+export interface RoleMember {
+  _id: string;
+  fullName: string;
+  email: string;
+  isActive: boolean;
+  // Built-in role or custom role key
+  role: string;
+}
+
+export interface PermissionMatrix {
+  permissions: PermissionDefinition[];
+  roles: PermissionRole[];
+  members: RoleMember[];
+}
+
+export interface MyPermissions {
+  role: string;
+  customRole: { key: string; name: string } | null;
+  permissions: string[];
+}
+
+export const usePermissions = () => {
+  const { isAuthenticated, user } = useSelector((state: RootState) => state.auth);
+
+  const query = useQuery({
+    queryKey: ['permissions', 'me', user?.id],
+    queryFn: async () => {
+      const response = await api.get('/permissions/me') as { data: MyPermissions };
+      return response.data;
+    },
+    enabled: isAuthenticated,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const permissions = query.data?.permissions;
+  const can = useCallback(
+    (permission?: string) => !permission || !!permissions?.includes(permission),
+    [permissions]
+  );
+
+  return { ...query, can };
+};
+
+export const usePermissionMatrix = () => {
+  return useQuery({
+    queryKey: ['permissions', 'matrix'],
+    queryFn: async () => {
+      const response = await api.get('/permissions') as { data: PermissionMatrix };
+      return response.data;
+    },
+  });
+};
+
+const useInvalidatePermissions = () => {
+  const queryClient = useQueryClient();
+  return () => queryClient.invalidateQueries({ queryKey: ['permissions'] });
+};
+
+export const useCreateRole = () => {
+  const invalidate = useInvalidatePermissions();
+
+  return useMutation({
+    mutationFn: async (role: { name: string; description?: string; baseRole: 'admin' | 'employee'; permissions?: string[] }) => {
+      return api.post('/permissions/roles', role) as Promise<{ message: string }>;
+    },
+    onSuccess: invalidate,
+  });
+};
+
+export const useUpdateRole = () => {
+  const invalidate = useInvalidatePermissions();
+
+  return useMutation({
+    mutationFn: async ({ key, ...update }: { key: string; name?: string; description?: string; permissions?: string[] }) => {
+      return api.put(`/permissions/roles/${key}`, update) as Promise<{ message: string }>;
+    },
+    onSuccess: invalidate,
+  });
+};
+
+export const useDeleteRole = () => {
+  const invalidate = useInvalidatePermissions();
+
+  return useMutation({
+    mutationFn: async (key: string) => {
+      return api.delete(`/permissions/roles/${key}`) as Promise<{ message: string }>;
+    },
+    onSuccess: invalidate,
+  });
+};
+
+export const useAssignRole = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ userId, role }: { userId: string; role: string }) => {
+      return api.put(`/permissions/users/${userId}/role`, { role }) as Promise<{ message: string }>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['permissions'] });
+      queryClient.invalidateQueries({ queryKey: ['employees'] });
+    },
+  });
+};
@@ -0,0 +1,162 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import api from '@/services/api';
+import { toast } from 'sonner';
+
+export interface PushDevice {
+  _id: string;
+  endpoint: string;
+  deviceName?: string;
+  userAgent?: string;
+  lastUsedAt?: string;
+  createdAt: string;
+}
+
+const SERVICE_WORKER_URL = '/sw.js';
+
+export const isPushSupported = () =>
+  typeof window !== 'undefined' &&
+  'serviceWorker' in navigator &&
+  'PushManager' in window &&
+  'Notification' in window;
+
+// The push service wants the VAPID key as raw bytes, the server sends it base64url encoded
+const urlBase64ToUint8Array = (base64String: string) => {
+  const padding = '='.repeat((4 - (base64String.length % 4)) % 4);
+  const base64 = (base64String + padding).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = window.atob(base64);
+  return Uint8Array.from([...raw].map(char => char.charCodeAt(0)));
+};
+
+export const describeDevice = (userAgent = '') => {
+  const browser = /Edg\//.test(userAgent) ? 'Edge'
+    : /OPR\//.test(userAgent) ? 'Opera'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : 'Browser';
+  const os = /Android/.test(userAgent) ? 'Android'
+    : /iPhone|iPad/.test(userAgent) ? 'iOS'
+    : /Windows/.test(userAgent) ? 'Windows'
+    : /Mac OS X/.test(userAgent) ? 'macOS'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : 'unknown OS';
+  return `${browser} on ${os}`;
+};
+
+const getCurrentSubscription = async () => {
+  if (!isPushSupported()) return null;
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+  return registration ? registration.pushManager.getSubscription() : null;
+};
+
+export const usePushNotifications = () => {
+  const queryClient = useQueryClient();
+  const isSupported = isPushSupported();
+  const [permission, setPermission] = useState<NotificationPermission>(
+    isSupported ? Notification.permission : 'denied'
+  );
+  const [currentEndpoint, setCurrentEndpoint] = useState<string | null>(null);
+
+  useEffect(() => {
+    getCurrentSubscription()
+      .then(subscription => setCurrentEndpoint(subscription?.endpoint || null))
+      .catch(() => setCurrentEndpoint(null));
+  }, []);
+
+  const { data: config } = useQuery({
+    queryKey: ['push-public-key'],
+    queryFn: async () => api.get('/notifications/push/public-key') as Promise<{ configured: boolean; publicKey: string | null }>,
+    staleTime: Infinity,
+    enabled: isSupported,
+  });
+
+  const { data: devices = [], isLoading } = useQuery({
+    queryKey: ['push-devices'],
+    queryFn: async () => {
+      const response = await api.get('/notifications/push/devices') as PushDevice[];
+      return Array.isArray(response) ? response : [];
+    },
+  });
+
+  const subscribeMutation = useMutation({
+    mutationFn: async () => {
+      if (!config?.publicKey) {
+        throw new Error('Push notifications are not configured on the server');
+      }
+
+      const result = await Notification.requestPermission();
+      setPermission(result);
+      if (result !== 'granted') {
+        throw new Error('Notifications are blocked for this site in your browser settings');
+      }
+
+      const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+      await navigator.serviceWorker.ready;
+      const subscription = await registration.pushManager.getSubscription() ||
+        await registration.pushManager.subscribe({
+          userVisibleOnly: true,
+          applicationServerKey: urlBase64ToUint8Array(config.publicKey),
+        });
+
+      await api.post('/notifications/push/devices', {
+        subscription: subscription.toJSON(),
+        deviceName: describeDevice(navigator.userAgent),
+      });
+      return subscription.endpoint;
+    },
+    onSuccess: (endpoint) => {
+      setCurrentEndpoint(endpoint);
+      queryClient.invalidateQueries({ queryKey: ['push-devices'] });
+      toast.success('Push notifications enabled on this device');
+    },
+    onError: (error: Error) => {
+      toast.error(error?.message || 'Failed to enable push notifications');
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (device: PushDevice) => {
+      await api.delete(`/notifications/push/devices/${device._id}`);
+      // Revoking this browser should also stop the push service delivering to it
+      if (device.endpoint === currentEndpoint) {
+        const subscription = await getCurrentSubscription();
+        await subscription?.unsubscribe();
+        setCurrentEndpoint(null);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['push-devices'] });
+      toast.success('Device removed');
+    },
+    onError: (error: Error) => {
+      toast.error(error?.message || 'Failed to remove device');
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async () => api.post('/notifications/push/test') as Promise<{ message: string; sent: number }>,
+    onSuccess: (result) => {
+      toast.success(result?.message || 'Test notification sent');
+    },
+    onError: (error: Error) => {
+      toast.error(error?.message || 'Failed to send test notification');
+    },
+  });
+
+  return {
+    isSupported,
+    isConfigured: !!config?.configured,
+    permission,
+    devices,
+    isLoading,
+    currentEndpoint,
+    isThisDeviceSubscribed: !!currentEndpoint && devices.some(device => device.endpoint === currentEndpoint),
+    enableThisDevice: subscribeMutation.mutate,
+    isEnabling: subscribeMutation.isPending,
+    revokeDevice: revokeMutation.mutate,
+    isRevoking: revokeMutation.isPending,
+    sendTest: testMutation.mutate,
+    isSendingTest: testMutation.isPending,
+  };
+};
@@ -5,7 +5,7 @@ import { toast } from 'sonner';
 export interface RecurrencePattern {
   _id: string;
   name: string;
-  type: 'monthly' | 'yearly' | 'quarterly' | 'custom';
+  type: 'monthly' | 'yearly' | 'quarterly' | 'custom' | 'statutory';
   monthlyConfig?: {
     frequency: number;
     dayOfMonth?: number;
@@ -34,6 +34,10 @@ export interface RecurrencePattern {
     daysOfMonth: number[];
     monthsOfYear: number[];
   };
+  statutoryConfig?: {
+    returnType: string;
+    assesseeType?: string;
+  };
   endCondition: {
     type: 'never' | 'after_occurrences' | 'by_date';
     occurrences?: number;
@@ -53,7 +57,7 @@ export interface RecurrencePattern {
 }
 
 export const useRecurrencePatterns = (options: {
-  type?: 'monthly' | 'yearly' | 'quarterly' | 'custom';
+  type?: 'monthly' | 'yearly' | 'quarterly' | 'custom' | 'statutory';
   isActive?: boolean;
   enabled?: boolean;
 } = {}) => {
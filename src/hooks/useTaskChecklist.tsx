@@ -0,0 +1,166 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import api from '@/services/api';
+import { toast } from 'sonner';
+
+export type ChecklistStepStatus = 'pending' | 'done' | 'signed_off';
+
+interface ChecklistPerson {
+  _id: string;
+  fullName: string;
+  email?: string;
+}
+
+export interface ChecklistStep {
+  _id: string;
+  title: string;
+  description?: string;
+  order: number;
+  assignee?: ChecklistPerson | null;
+  reviewer?: ChecklistPerson | null;
+  dueDate?: string;
+  estimatedHours?: number;
+  mandatory: boolean;
+  requiresEvidence: boolean;
+  requiresSignOff: boolean;
+  status: ChecklistStepStatus;
+  evidence: string[];
+  completedBy?: ChecklistPerson | null;
+  completedAt?: string;
+  completionNote?: string;
+  signedOffBy?: ChecklistPerson | null;
+  signedOffAt?: string;
+  reviewNote?: string;
+}
+
+export interface TaskChecklist {
+  checklist: ChecklistStep[];
+  progressPercentage: number;
+  documents: { _id: string; name: string; url: string }[];
+}
+
+export interface ChecklistStepInput {
+  title?: string;
+  description?: string;
+  assignee?: string | null;
+  reviewer?: string | null;
+  dueDate?: string | null;
+  mandatory?: boolean;
+  requiresEvidence?: boolean;
+  requiresSignOff?: boolean;
+}
+
+export const isStepComplete = (step: ChecklistStep) =>
+  step.requiresSignOff ? step.status === 'signed_off' : step.status !== 'pending';
+
+export const useTaskChecklist = (taskId: string) => {
+  const queryClient = useQueryClient();
+  const queryKey = ['tasks', taskId, 'checklist'];
+
+  const { data, isLoading } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const response = await api.get(`/tasks/${taskId}/checklist`) as { data?: TaskChecklist };
+      return response.data || { checklist: [], progressPercentage: 0, documents: [] };
+    },
+    enabled: !!taskId,
+  });
+
+  // Every checklist endpoint returns the refreshed checklist
+  const onSaved = (result: TaskChecklist | undefined, message: string) => {
+    if (result) {
+      queryClient.setQueryData(queryKey, result);
+    }
+    queryClient.invalidateQueries({ queryKey: ['tasks'] });
+    toast.success(message);
+  };
+
+  const onError = (fallback: string) => (error: Error) => {
+    toast.error(error?.message || fallback);
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async (step: ChecklistStepInput) => {
+      const response = await api.post(`/tasks/${taskId}/checklist`, step) as { data?: TaskChecklist };
+      return response.data;
+    },
+    onSuccess: (result) => onSaved(result, 'Step added'),
+    onError: onError('Failed to add step'),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ stepId, ...updates }: ChecklistStepInput & { stepId: string }) => {
+      const response = await api.put(`/tasks/${taskId}/checklist/${stepId}`, updates) as { data?: TaskChecklist };
+      return response.data;
+    },
+    onSuccess: (result) => onSaved(result, 'Step updated'),
+    onError: onError('Failed to update step'),
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (stepId: string) => {
+      const response = await api.delete(`/tasks/${taskId}/checklist/${stepId}`) as { data?: TaskChecklist };
+      return response.data;
+    },
+    onSuccess: (result) => onSaved(result, 'Step removed'),
+    onError: onError('Failed to remove step'),
+  });
+
+  const completeMutation = useMutation({
+    mutationFn: async ({ stepId, note, evidenceIds }: { stepId: string; note?: string; evidenceIds?: string[] }) => {
+      const response = await api.post(`/tasks/${taskId}/checklist/${stepId}/complete`, { note, evidenceIds }) as { data?: TaskChecklist };
+      return response.data;
+    },
+    onSuccess: (result) => onSaved(result, 'Step marked done'),
+    onError: onError('Failed to complete step'),
+  });
+
+  const reopenMutation = useMutation({
+    mutationFn: async (stepId: string) => {
+      const response = await api.post(`/tasks/${taskId}/checklist/${stepId}/reopen`) as { data?: TaskChecklist };
+      return response.data;
+    },
+    onSuccess: (result) => onSaved(result, 'Step reopened'),
+    onError: onError('Failed to reopen step'),
+  });
+
+  const signOffMutation = useMutation({
+    mutationFn: async ({ stepId, approved, note }: { stepId: string; approved: boolean; note?: string }) => {
+      const response = await api.post(`/tasks/${taskId}/checklist/${stepId}/sign-off`, { approved, note }) as { data?: TaskChecklist };
+      return response.data;
+    },
+    onSuccess: (result, { approved }) => onSaved(result, approved ? 'Step signed off' : 'Step sent back'),
+    onError: onError('Failed to review step'),
+  });
+
+  // Evidence is uploaded as a task document tagged with the step
+  const uploadEvidenceMutation = useMutation({
+    mutationFn: async ({ stepId, file }: { stepId: string; file: File }) => {
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('checklistItemId', stepId);
+      return api.upload(`/tasks/${taskId}/documents`, formData);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast.success('Evidence uploaded');
+    },
+    onError: onError('Failed to upload evidence'),
+  });
+
+  return {
+    checklist: data?.checklist || [],
+    progress: data?.progressPercentage || 0,
+    documents: data?.documents || [],
+    isLoading,
+    addStep: addMutation.mutate,
+    updateStep: updateMutation.mutate,
+    removeStep: removeMutation.mutate,
+    completeStep: completeMutation.mutate,
+    reopenStep: reopenMutation.mutate,
+    signOffStep: signOffMutation.mutate,
+    uploadEvidence: uploadEvidenceMutation.mutate,
+    isAdding: addMutation.isPending,
+    isSaving: completeMutation.isPending || reopenMutation.isPending || signOffMutation.isPending || updateMutation.isPending || removeMutation.isPending,
+    isUploading: uploadEvidenceMutation.isPending,
+  };
+};
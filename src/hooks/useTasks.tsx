@@ -26,6 +26,25 @@ interface CreateTaskData {
   [key: string]: unknown;
 }
 
+export interface TaskDependencyBlocker {
+  task: { _id: string; title: string; taskId?: string; status: TaskStatus };
+  type: 'finish_to_start' | 'start_to_start' | 'finish_to_finish' | 'start_to_finish';
+  reason: string;
+}
+
+// Thrown when a status change is refused because predecessors are not satisfied
+export class TaskDependencyError extends Error {
+  blockers: TaskDependencyBlocker[];
+  canOverride: boolean;
+
+  constructor(message: string, blockers: TaskDependencyBlocker[], canOverride: boolean) {
+    super(message);
+    this.name = 'TaskDependencyError';
+    this.blockers = blockers;
+    this.canOverride = canOverride;
+  }
+}
+
 export const useTasks = () => {
   const queryClient = useQueryClient();
   const [isRealTime, setIsRealTime] = useState(true);
@@ -155,6 +174,9 @@ export const useTasks = () => {
             return [];
           })(),
           createdBy: task.assignedBy?._id || task.assignedBy || '',
+          reviewer: task.reviewer ? { _id: task.reviewer._id || task.reviewer, fullName: task.reviewer.fullName || '' } : null,
+          reviewCycles: task.reviewCycles || 0,
+          reviewHistory: Array.isArray(task.reviewHistory) ? task.reviewHistory : [],
           createdAt: task.createdAt || '',
           dueDate: task.dueDate || '',
           completedAt: task.completedDate,
@@ -245,7 +267,7 @@ export const useTasks = () => {
   });
 
   const updateTaskStatus = useMutation({
-    mutationFn: async ({ taskId, status }: { taskId: string; status: string }) => {
+    mutationFn: async ({ taskId, status, overrideDependencies }: { taskId: string; status: string; overrideDependencies?: boolean }) => {
       try {
         console.log('Updating task status via backend:', { taskId, status });
         
@@ -262,12 +284,16 @@ export const useTasks = () => {
           },
           body: JSON.stringify({ 
             status,
-            completedDate: status === 'completed' ? new Date().toISOString() : undefined
+            completedDate: status === 'completed' ? new Date().toISOString() : undefined,
+            overrideDependencies
           }),
         });
 
         if (!response.ok) {
           const errorData = await response.json();
+          if (response.status === 409 && errorData.code === 'DEPENDENCY_BLOCKED') {
+            throw new TaskDependencyError(errorData.message, errorData.data?.blockers || [], !!errorData.data?.canOverride);
+          }
           throw new Error(errorData.message || 'Failed to update task');
         }
 
@@ -432,7 +458,12 @@ export const useTasks = () => {
     }: { 
       taskIds: string[]; 
       status: string 
-    }): Promise<{ success: boolean; message: string; modifiedCount: number }> => {
+    }): Promise<{
+      success: boolean;
+      message: string;
+      modifiedCount: number;
+      blocked?: { _id: string; title: string; blockers?: TaskDependencyBlocker[]; reason?: string }[];
+    }> => {
       const token = getValidatedToken();
       const response = await fetch(`${API_BASE_URL}/tasks/bulk-status`, {
         method: 'POST',
@@ -522,6 +553,7 @@ export const useTasks = () => {
     addTask: addTask.mutate,
     isAdding: addTask.isPending,
     updateTaskStatus: updateTaskStatus.mutate,
+    updateTaskStatusAsync: updateTaskStatus.mutateAsync,
     isUpdating: updateTaskStatus.isPending,
     updateTask: updateTask.mutate,
     updateTaskAsync: updateTask.mutateAsync,
@@ -542,3 +574,73 @@ export const useTasks = () => {
   };
 };
 
+
+export interface TimelineTask {
+  _id: string;
+  title: string;
+  taskId?: string;
+  status: TaskStatus;
+  priority: TaskPriority;
+  startDate?: string;
+  dueDate: string;
+  completedDate?: string;
+  assignedTo?: { _id: string; fullName: string; email: string } | null;
+  client?: { _id: string; name: string } | null;
+  dependencies: { task: string; type: TaskDependencyBlocker['type'] }[];
+}
+
+export const useTaskTimeline = (clientId?: string) => {
+  return useQuery({
+    queryKey: ['tasks', 'timeline', clientId],
+    queryFn: async (): Promise<{ tasks: TimelineTask[]; cycles: string[][] }> => {
+      const token = getValidatedToken();
+      const params = clientId ? `?client=${encodeURIComponent(clientId)}` : '';
+      const response = await fetch(`${API_BASE_URL}/tasks/timeline${params}`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to load task timeline');
+      }
+
+      return result.data;
+    },
+    enabled: !!clientId,
+  });
+};
+
+export interface ReviewStats {
+  user: string;
+  reviewedTasks: number;
+  firstPassApproved: number;
+  returns: number;
+  reviewCycles: number;
+  firstPassRate: number | null;
+}
+
+export const useReviewStats = (enabled = true) => {
+  return useQuery({
+    queryKey: ['tasks', 'review-stats'],
+    queryFn: async (): Promise<ReviewStats[]> => {
+      const token = getValidatedToken();
+      const response = await fetch(`${API_BASE_URL}/tasks/review-stats`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to load review stats');
+      }
+
+      return result.data || [];
+    },
+    enabled,
+  });
+};
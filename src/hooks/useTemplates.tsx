@@ -9,6 +9,8 @@ export interface TaskTemplate {
   is_recurring: boolean;
   recurrence_pattern?: 'monthly' | 'yearly' | 'custom';
   deadline?: string;
+  statutory_return_type?: string | null;
+  statutory_assessee_type?: string | null;
   subtasks: any[];
   price?: number;
   is_payable_task: boolean;
@@ -33,6 +35,8 @@ export interface CreateTemplateData {
   is_recurring: boolean;
   recurrence_pattern?: 'monthly' | 'yearly' | 'custom';
   deadline?: string;
+  statutory_return_type?: string | null;
+  statutory_assessee_type?: string | null;
   subtasks: any[];
   price?: number;
   is_payable_task: boolean;
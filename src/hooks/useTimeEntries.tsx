@@ -0,0 +1,278 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import api from '@/services/api';
+import { toast } from 'sonner';
+
+export type TimeEntryStatus = 'draft' | 'submitted' | 'approved' | 'rejected';
+
+export interface TimeEntry {
+  _id: string;
+  task: { _id: string; title: string; taskId?: string; status?: string } | null;
+  user: { _id: string; fullName: string; email: string };
+  client?: { _id: string; name: string } | null;
+  startTime: string;
+  endTime: string | null;
+  durationMinutes: number;
+  note?: string;
+  billable: boolean;
+  status: TimeEntryStatus;
+  isRunning: boolean;
+  submittedAt?: string;
+  approvedBy?: { _id: string; fullName: string } | null;
+  approvedAt?: string;
+  rejectionReason?: string;
+}
+
+export interface ManualTimeEntryInput {
+  taskId: string;
+  startTime: string;
+  endTime: string;
+  note?: string;
+  billable?: boolean;
+}
+
+export interface TimesheetRow {
+  task: TimeEntry['task'];
+  client?: TimeEntry['client'];
+  minutesByDay: number[];
+  totalMinutes: number;
+}
+
+export interface Timesheet {
+  weekStart: string;
+  weekEnd: string;
+  user: string;
+  days: string[];
+  entries: TimeEntry[];
+  rows: TimesheetRow[];
+  totalMinutes: number;
+  billableMinutes: number;
+  statusCounts: Partial<Record<TimeEntryStatus, number>>;
+}
+
+export interface PendingTimesheet {
+  user: { _id: string; fullName: string; email: string };
+  weekStart: string;
+  entries: number;
+  totalMinutes: number;
+  submittedAt: string;
+}
+
+export interface TimeSummary {
+  user: string;
+  totalHours: number;
+  billableHours: number;
+  taskCount: number;
+}
+
+export const formatMinutes = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const mins = Math.round(minutes % 60);
+  return hours > 0 ? `${hours}h ${mins.toString().padStart(2, '0')}m` : `${mins}m`;
+};
+
+export const useRunningTimer = () => {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['time-entries', 'running'],
+    queryFn: async () => {
+      const response = await api.get('/time-entries/running') as { data?: { entry?: TimeEntry | null } };
+      return response.data?.entry || null;
+    },
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['time-entries'] });
+    queryClient.invalidateQueries({ queryKey: ['tasks'] });
+  };
+
+  const startMutation = useMutation({
+    mutationFn: async ({ taskId, note, billable }: { taskId: string; note?: string; billable?: boolean }) => {
+      const response = await api.post('/time-entries/start', { taskId, note, billable }) as { data?: { entry?: TimeEntry } };
+      return response.data?.entry;
+    },
+    onSuccess: (entry) => {
+      invalidate();
+      toast.success(`Timer started${entry?.task?.title ? ` on ${entry.task.title}` : ''}`);
+    },
+    onError: (error: Error) => {
+      toast.error(error?.message || 'Failed to start timer');
+    }
+  });
+
+  const stopMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await api.post(`/time-entries/${id}/stop`) as { data?: { entry?: TimeEntry } };
+      return response.data?.entry;
+    },
+    onSuccess: (entry) => {
+      invalidate();
+      toast.success(`Timer stopped - ${formatMinutes(entry?.durationMinutes || 0)} logged`);
+    },
+    onError: (error: Error) => {
+      toast.error(error?.message || 'Failed to stop timer');
+    }
+  });
+
+  return {
+    runningEntry: data || null,
+    isLoading,
+    startTimer: startMutation.mutateAsync,
+    stopTimer: stopMutation.mutateAsync,
+    isPending: startMutation.isPending || stopMutation.isPending,
+  };
+};
+
+export const useTaskTimeEntries = (taskId?: string) => {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['time-entries', 'task', taskId],
+    queryFn: async () => {
+      const response = await api.get('/time-entries', { task: taskId as string }) as {
+        data?: { entries?: TimeEntry[]; totalMinutes?: number }
+      };
+      return {
+        entries: response.data?.entries || [],
+        totalMinutes: response.data?.totalMinutes || 0,
+      };
+    },
+    enabled: !!taskId,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['time-entries'] });
+    queryClient.invalidateQueries({ queryKey: ['tasks'] });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async (entry: ManualTimeEntryInput) => {
+      const response = await api.post('/time-entries', entry) as { data?: { entry?: TimeEntry } };
+      return response.data?.entry;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success('Time entry added');
+    },
+    onError: (error: Error) => {
+      toast.error(error?.message || 'Failed to add time entry');
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await api.delete(`/time-entries/${id}`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success('Time entry deleted');
+    },
+    onError: (error: Error) => {
+      toast.error(error?.message || 'Failed to delete time entry');
+    }
+  });
+
+  return {
+    entries: data?.entries || [],
+    totalMinutes: data?.totalMinutes || 0,
+    isLoading,
+    error,
+    addEntry: addMutation.mutateAsync,
+    deleteEntry: deleteMutation.mutateAsync,
+    isAdding: addMutation.isPending,
+  };
+};
+
+export const useTimesheet = (weekStart: string, userId?: string) => {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['time-entries', 'timesheet', weekStart, userId],
+    queryFn: async () => {
+      const params: Record<string, string> = { weekStart };
+      if (userId) params.user = userId;
+
+      const response = await api.get('/time-entries/timesheet', params) as { data?: Timesheet };
+      return response.data || null;
+    },
+  });
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      const response = await api.post('/time-entries/timesheet/submit', { weekStart }) as { message?: string };
+      return response;
+    },
+    onSuccess: (response) => {
+      queryClient.invalidateQueries({ queryKey: ['time-entries'] });
+      toast.success(response?.message || 'Timesheet submitted for approval');
+    },
+    onError: (error: Error) => {
+      toast.error(error?.message || 'Failed to submit timesheet');
+    }
+  });
+
+  return {
+    timesheet: data || null,
+    isLoading,
+    error,
+    submitTimesheet: submitMutation.mutateAsync,
+    isSubmitting: submitMutation.isPending,
+  };
+};
+
+export const usePendingTimesheets = (enabled = true) => {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['time-entries', 'pending'],
+    queryFn: async () => {
+      const response = await api.get('/time-entries/timesheet/pending') as { data?: { timesheets?: PendingTimesheet[] } };
+      return response.data?.timesheets || [];
+    },
+    enabled,
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async (review: { userId: string; weekStart: string; action: 'approve' | 'reject'; reason?: string }) => {
+      const response = await api.post('/time-entries/timesheet/review', review) as { message?: string };
+      return response;
+    },
+    onSuccess: (response) => {
+      queryClient.invalidateQueries({ queryKey: ['time-entries'] });
+      queryClient.invalidateQueries({ queryKey: ['tasks'] });
+      toast.success(response?.message || 'Timesheet reviewed');
+    },
+    onError: (error: Error) => {
+      toast.error(error?.message || 'Failed to review timesheet');
+    }
+  });
+
+  return {
+    timesheets: data || [],
+    isLoading,
+    error,
+    reviewTimesheet: reviewMutation.mutateAsync,
+    isReviewing: reviewMutation.isPending,
+  };
+};
+
+export const useTimeSummary = (from?: string, to?: string, enabled = true) => {
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['time-entries', 'summary', from, to],
+    queryFn: async () => {
+      const params: Record<string, string> = {};
+      if (from) params.from = from;
+      if (to) params.to = to;
+
+      const response = await api.get('/time-entries/summary', params) as { data?: { summary?: TimeSummary[] } };
+      return response.data?.summary || [];
+    },
+    enabled,
+  });
+
+  return {
+    summary: data || [],
+    isLoading,
+    error,
+  };
+};
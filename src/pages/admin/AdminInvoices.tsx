@@ -1,6 +1,6 @@
 
 import { useState, useEffect } from 'react';
-import { FileText, Plus, Download, Mail, Eye, Edit, Trash2, Check, X, Calendar, User } from 'lucide-react';
+import { FileText, Plus, Download, Mail, Eye, Edit, Trash2, Check, X, Calendar, User, ListChecks, BellRing, ReceiptText, Ban, QrCode } from 'lucide-react';
 import Swal from 'sweetalert2';
 import { format } from 'date-fns';
 import {
@@ -34,7 +34,10 @@ import { FormDialog } from '@/components/shared/FormDialog';
 import { EnhancedInvoiceForm } from '@/components/invoices/EnhancedInvoiceForm';
 import { InvoicePreviewModal } from '@/components/invoices/InvoicePreviewModal';
 import { InvoiceFilterPanel } from '@/components/invoices/InvoiceFilterPanel';
-import { useInvoices, useInvoice, useUpdateInvoiceStatus, useDeleteInvoice, useBulkDeleteInvoices, useBulkUpdateInvoiceStatus } from '@/hooks/useInvoices';
+import { BillUnbilledWork } from '@/components/invoices/BillUnbilledWork';
+import { CreditNoteForm } from '@/components/invoices/CreditNoteForm';
+import { EinvoicePanel } from '@/components/invoices/EinvoicePanel';
+import { useInvoices, useInvoice, useUpdateInvoiceStatus, useDeleteInvoice, useBulkDeleteInvoices, useBulkUpdateInvoiceStatus, useSendInvoiceReminder, useRunInvoiceReminders, fetchEinvoiceDetails, Invoice } from '@/hooks/useInvoices';
 import { generateInvoicePDF } from '@/utils/invoicePDF';
 import { useSettings } from '@/hooks/useSettings';
 import { toast } from 'sonner';
@@ -91,6 +94,9 @@ const EditInvoiceWrapper = ({ invoiceId, onSuccess }: { invoiceId: string; onSuc
 
 const AdminInvoices = () => {
   const [showAddInvoice, setShowAddInvoice] = useState(false);
+  const [showBillUnbilled, setShowBillUnbilled] = useState(false);
+  const [creditNoteTarget, setCreditNoteTarget] = useState<{ invoice: Invoice; mode: 'credit' | 'cancel' } | null>(null);
+  const [einvoiceTarget, setEinvoiceTarget] = useState<Invoice | null>(null);
   const { settings: firmSettings } = useSettings({ category: 'company' });
   
   const [filters, setFilters] = useState<InvoiceFilters>({
@@ -127,6 +133,8 @@ const AdminInvoices = () => {
   });
 
   const updateStatusMutation = useUpdateInvoiceStatus();
+  const sendReminderMutation = useSendInvoiceReminder();
+  const runRemindersMutation = useRunInvoiceReminders();
   const deleteInvoiceMutation = useDeleteInvoice();
   const bulkDeleteMutation = useBulkDeleteInvoices();
   const bulkUpdateStatusMutation = useBulkUpdateInvoiceStatus();
@@ -174,6 +182,25 @@ const AdminInvoices = () => {
     }
   };
 
+  const handleSendReminder = async (invoiceId: string) => {
+    try {
+      const result = await sendReminderMutation.mutateAsync(invoiceId);
+      toast.success(result.message || 'Reminder sent');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to send reminder');
+    }
+  };
+
+  const handleRunReminders = async () => {
+    try {
+      const result = await runRemindersMutation.mutateAsync();
+      const { sent, skipped, markedOverdue } = result.data;
+      toast.success(`${sent} reminder${sent === 1 ? '' : 's'} sent${markedOverdue ? `, ${markedOverdue} marked overdue` : ''}${skipped ? `, ${skipped} skipped` : ''}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to run reminders');
+    }
+  };
+
   const handleDeleteInvoice = async (invoiceId: string) => {
     const result = await Swal.fire({
       title: 'Delete invoice?',
@@ -257,9 +284,22 @@ const AdminInvoices = () => {
     }
   };
 
-  const handleDownloadPDF = (invoice: any) => {
+  const handleDownloadPDF = async (invoice: any) => {
+    // The QR image is rendered on the server from the signed QR the IRP returned
+    let einvoice;
+    if (invoice.einvoice?.status === 'generated') {
+      try {
+        const details = await fetchEinvoiceDetails(invoice._id);
+        einvoice = { ...invoice.einvoice, qrImage: details.qrImage || undefined };
+      } catch (error) {
+        toast.error('Could not load the e-invoice QR code');
+        return;
+      }
+    }
+
     const pdfData = {
       invoiceNumber: invoice.invoiceNumber,
+      type: invoice.type,
       issueDate: invoice.issueDate,
       dueDate: invoice.dueDate,
       client: {
@@ -273,6 +313,10 @@ const AdminInvoices = () => {
       subtotal: invoice.subtotal,
       taxAmount: invoice.taxAmount,
       totalAmount: invoice.totalAmount,
+      discount: invoice.discount,
+      gst: invoice.gst,
+      placeOfSupply: invoice.placeOfSupply,
+      einvoice,
       notes: invoice.notes,
       terms: invoice.terms,
     };
@@ -342,13 +386,23 @@ const AdminInvoices = () => {
           <h1 className="text-3xl font-bold text-ca-blue-dark">Invoices</h1>
           <p className="text-muted-foreground mt-1">Manage client billing and payments</p>
         </div>
-        <Button 
-          className="bg-ca-blue hover:bg-ca-blue-dark shadow-md transition-all active:scale-95"
-          onClick={() => setShowAddInvoice(true)}
-        >
-          <Plus className="mr-2 h-4 w-4" />
-          Create Invoice
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleRunReminders} disabled={runRemindersMutation.isPending}>
+            <BellRing className="mr-2 h-4 w-4" />
+            {runRemindersMutation.isPending ? 'Sending...' : 'Send Due Reminders'}
+          </Button>
+          <Button variant="outline" onClick={() => setShowBillUnbilled(true)}>
+            <ListChecks className="mr-2 h-4 w-4" />
+            Bill Unbilled Work
+          </Button>
+          <Button 
+            className="bg-ca-blue hover:bg-ca-blue-dark shadow-md transition-all active:scale-95"
+            onClick={() => setShowAddInvoice(true)}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Create Invoice
+          </Button>
+        </div>
       </div>
 
       <Card className="shadow-sm">
@@ -448,7 +502,12 @@ const AdminInvoices = () => {
                           onCheckedChange={(checked) => handleSelectInvoice(invoice._id, checked as boolean)}
                         />
                       </TableCell>
-                      <TableCell className="font-medium">{invoice.invoiceNumber}</TableCell>
+                      <TableCell className="font-medium">
+                        {invoice.invoiceNumber}
+                        {invoice.type === 'credit_note' && (
+                          <Badge variant="outline" className="ml-2 text-xs">Credit Note</Badge>
+                        )}
+                      </TableCell>
                       <TableCell>
                         <div className="flex flex-col">
                           <span className="font-medium">{invoice.client?.fullName || invoice.client?.name || 'Unknown'}</span>
@@ -470,6 +529,44 @@ const AdminInvoices = () => {
                           <Button variant="ghost" size="icon" onClick={() => handleDownloadPDF(invoice)} title="Download">
                             <Download className="h-4 w-4 text-purple-600" />
                           </Button>
+                          {['invoice', 'credit_note'].includes(invoice.type) && invoice.status !== 'cancelled' && (
+                            <Button variant="ghost" size="icon" onClick={() => setEinvoiceTarget(invoice)} title="E-invoice (IRN)">
+                              <QrCode className={`h-4 w-4 ${invoice.einvoice?.status === 'generated' ? 'text-green-600' : 'text-slate-600'}`} />
+                            </Button>
+                          )}
+                          {['sent', 'partially_paid', 'overdue'].includes(invoice.status) && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => handleSendReminder(invoice._id)}
+                              disabled={sendReminderMutation.isPending}
+                              title="Send payment reminder"
+                            >
+                              <BellRing className="h-4 w-4 text-amber-600" />
+                            </Button>
+                          )}
+                          {invoice.type === 'invoice' && ['sent', 'paid', 'partially_paid', 'overdue'].includes(invoice.status) && (
+                            <>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => setCreditNoteTarget({ invoice, mode: 'credit' })}
+                                title="Issue credit note"
+                              >
+                                <ReceiptText className="h-4 w-4 text-slate-600" />
+                              </Button>
+                              {!invoice.creditedAmount && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={() => setCreditNoteTarget({ invoice, mode: 'cancel' })}
+                                  title="Cancel invoice"
+                                >
+                                  <Ban className="h-4 w-4 text-red-600" />
+                                </Button>
+                              )}
+                            </>
+                          )}
                           <Button variant="ghost" size="icon" onClick={() => handleDeleteInvoice(invoice._id)} title="Delete">
                             <Trash2 className="h-4 w-4 text-red-600" />
                           </Button>
@@ -526,6 +623,47 @@ const AdminInvoices = () => {
         }} />
       </FormDialog>
 
+      <FormDialog
+        open={showBillUnbilled}
+        onOpenChange={setShowBillUnbilled}
+        title="Bill Unbilled Work"
+        description="Create one draft invoice per client from completed, billable tasks that have not been invoiced"
+        showFooter={false}
+        className="max-w-5xl"
+      >
+        <BillUnbilledWork onSuccess={() => setShowBillUnbilled(false)} />
+      </FormDialog>
+
+      <FormDialog
+        open={!!einvoiceTarget}
+        onOpenChange={(open) => !open && setEinvoiceTarget(null)}
+        title={`E-invoice ${einvoiceTarget?.invoiceNumber || ''}`}
+        description="Register the document with the Invoice Registration Portal and keep its IRN and signed QR code"
+        showFooter={false}
+        className="max-w-3xl"
+      >
+        {einvoiceTarget && <EinvoicePanel invoice={einvoiceTarget} />}
+      </FormDialog>
+
+      <FormDialog
+        open={!!creditNoteTarget}
+        onOpenChange={(open) => !open && setCreditNoteTarget(null)}
+        title={creditNoteTarget?.mode === 'cancel' ? 'Cancel Invoice' : 'Issue Credit Note'}
+        description={creditNoteTarget?.mode === 'cancel'
+          ? 'Issued invoices are reversed with a full credit note so the GST already charged is reversed too'
+          : 'Credit all or part of the invoice, reversing the GST charged on the credited lines'}
+        showFooter={false}
+        className="max-w-3xl"
+      >
+        {creditNoteTarget && (
+          <CreditNoteForm
+            invoice={creditNoteTarget.invoice}
+            mode={creditNoteTarget.mode}
+            onSuccess={() => setCreditNoteTarget(null)}
+          />
+        )}
+      </FormDialog>
+
       {editingInvoiceId && (
         <FormDialog
           open={isEditModalOpen}
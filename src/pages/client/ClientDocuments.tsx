@@ -1,9 +1,10 @@
-
 import { ClientDocuments as ClientDocumentsComponent } from '@/components/client/ClientDocuments';
+import { ClientDocumentRequests } from '@/components/client/ClientDocumentRequests';
 
 const ClientDocuments = () => {
   return (
     <div className="p-6">
+      <ClientDocumentRequests />
       <ClientDocumentsComponent />
     </div>
   );
@@ -0,0 +1,402 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { AlertCircle, CheckCircle, CreditCard, Download, FileText, Receipt, ThumbsDown, ThumbsUp } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  usePortalInvoices,
+  useRespondToQuotation,
+  usePayInvoice,
+  downloadPortalInvoicePdf,
+  downloadPaymentReceipt,
+  PortalInvoice,
+  PaymentResult,
+  QUOTE_TYPES,
+  PAYABLE_STATUSES,
+} from '@/hooks/useClientPortalInvoices';
+import { toast } from 'sonner';
+
+const formatCurrency = (amount: number) =>
+  `₹${(amount || 0).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const statusStyles: Record<string, { label: string; className: string }> = {
+  sent: { label: 'Due', className: 'bg-blue-100 text-blue-800' },
+  partially_paid: { label: 'Partly paid', className: 'bg-yellow-100 text-yellow-800' },
+  overdue: { label: 'Overdue', className: 'bg-red-100 text-red-800' },
+  paid: { label: 'Paid', className: 'bg-green-100 text-green-800' },
+  cancelled: { label: 'Cancelled', className: 'bg-slate-100 text-slate-800' },
+  quote_sent: { label: 'Awaiting response', className: 'bg-blue-100 text-blue-800' },
+  approved: { label: 'Accepted', className: 'bg-green-100 text-green-800' },
+  rejected: { label: 'Rejected', className: 'bg-slate-100 text-slate-800' },
+};
+
+const isQuote = (invoice: PortalInvoice) => QUOTE_TYPES.includes(invoice.type);
+
+const getStatusBadge = (invoice: PortalInvoice) => {
+  if (invoice.type === 'credit_note') {
+    return <Badge className="bg-purple-100 text-purple-800">Credit note</Badge>;
+  }
+  const status = isQuote(invoice) && invoice.status === 'sent' ? 'quote_sent' : invoice.status;
+  const style = statusStyles[status] || { label: status, className: 'bg-gray-100 text-gray-800' };
+  return <Badge className={style.className}>{style.label}</Badge>;
+};
+
+const ClientInvoices = () => {
+  const { profile } = useAuth();
+  const { data, isLoading, error } = usePortalInvoices();
+  const respondMutation = useRespondToQuotation();
+  const payMutation = usePayInvoice();
+  const [payingId, setPayingId] = useState<string | null>(null);
+  const [rejecting, setRejecting] = useState<PortalInvoice | null>(null);
+  const [rejectReason, setRejectReason] = useState('');
+  const [receipt, setReceipt] = useState<PaymentResult | null>(null);
+
+  const invoices = data?.invoices || [];
+  const summary = data?.summary;
+  const bills = invoices.filter(invoice => !isQuote(invoice));
+  const quotations = invoices.filter(isQuote);
+
+  const handleDownload = async (invoice: PortalInvoice) => {
+    try {
+      await downloadPortalInvoicePdf(invoice);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to download PDF');
+    }
+  };
+
+  const handlePay = async (invoice: PortalInvoice) => {
+    setPayingId(invoice._id);
+    try {
+      const result = await payMutation.mutateAsync({
+        invoice,
+        prefill: { name: profile?.fullName || '', email: profile?.email || '', contact: profile?.phone || '' },
+      });
+      setReceipt(result);
+      toast.success(`Payment of ${formatCurrency(result.payment.amount)} received`);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Payment failed';
+      if (message === 'Payment cancelled') {
+        toast.info(message);
+      } else {
+        toast.error(message);
+      }
+    } finally {
+      setPayingId(null);
+    }
+  };
+
+  const handleAccept = async (invoice: PortalInvoice) => {
+    try {
+      const result = await respondMutation.mutateAsync({ id: invoice._id, action: 'accept' });
+      toast.success(result.message);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to accept quotation');
+    }
+  };
+
+  const handleReject = async () => {
+    if (!rejecting) return;
+    try {
+      const result = await respondMutation.mutateAsync({ id: rejecting._id, action: 'reject', reason: rejectReason });
+      toast.success(result.message);
+      setRejecting(null);
+      setRejectReason('');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to reject quotation');
+    }
+  };
+
+  const handleDownloadReceipt = async (invoiceId: string, paymentId: string) => {
+    try {
+      await downloadPaymentReceipt(invoiceId, paymentId);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to download receipt');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="p-6 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-2 border-ca-blue border-t-transparent"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-ca-green-dark">Invoices & Quotations</h1>
+        <p className="text-muted-foreground">View your bills, answer quotations and pay online</p>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+          <AlertCircle className="h-4 w-4" />
+          {(error as Error).message}
+        </div>
+      )}
+
+      {summary && (
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <Card className="border-l-4 border-l-blue-500">
+            <CardContent className="p-4">
+              <p className="text-sm font-medium text-gray-600">Outstanding</p>
+              <p className="text-2xl font-bold text-blue-600">{formatCurrency(summary.outstanding)}</p>
+            </CardContent>
+          </Card>
+          <Card className="border-l-4 border-l-red-500">
+            <CardContent className="p-4">
+              <p className="text-sm font-medium text-gray-600">Overdue</p>
+              <p className="text-2xl font-bold text-red-600">{formatCurrency(summary.overdue)}</p>
+            </CardContent>
+          </Card>
+          <Card className="border-l-4 border-l-green-500">
+            <CardContent className="p-4">
+              <p className="text-sm font-medium text-gray-600">Paid to date</p>
+              <p className="text-2xl font-bold text-green-600">{formatCurrency(summary.paid)}</p>
+            </CardContent>
+          </Card>
+          <Card className="border-l-4 border-l-purple-500">
+            <CardContent className="p-4">
+              <p className="text-sm font-medium text-gray-600">Quotations awaiting you</p>
+              <p className="text-2xl font-bold text-purple-600">{summary.openQuotations}</p>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      <Tabs defaultValue="invoices">
+        <TabsList>
+          <TabsTrigger value="invoices">Invoices ({bills.length})</TabsTrigger>
+          <TabsTrigger value="quotations">Quotations ({quotations.length})</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="invoices">
+          <Card>
+            <CardHeader>
+              <CardTitle>Invoices</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {bills.length === 0 ? (
+                <div className="flex flex-col items-center py-10 text-muted-foreground">
+                  <FileText className="h-10 w-10 mb-2" />
+                  No invoices yet
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Number</TableHead>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Due</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                      <TableHead className="text-right">Balance</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {bills.map(invoice => {
+                      const payable = invoice.type === 'invoice' && PAYABLE_STATUSES.includes(invoice.status) && invoice.balanceAmount > 0;
+                      const lastPayment = invoice.payments?.[invoice.payments.length - 1];
+                      const original = invoice.creditNote?.originalInvoice;
+                      return (
+                        <TableRow key={invoice._id}>
+                          <TableCell className="font-medium">
+                            {invoice.invoiceNumber}
+                            {typeof original === 'object' && original?.invoiceNumber && (
+                              <div className="text-xs text-muted-foreground">Against {original.invoiceNumber}</div>
+                            )}
+                          </TableCell>
+                          <TableCell>{format(new Date(invoice.issueDate), 'dd/MM/yyyy')}</TableCell>
+                          <TableCell>{invoice.type === 'invoice' ? format(new Date(invoice.dueDate), 'dd/MM/yyyy') : '-'}</TableCell>
+                          <TableCell className="text-right">
+                            {invoice.type === 'credit_note' ? `- ${formatCurrency(invoice.totalAmount)}` : formatCurrency(invoice.totalAmount)}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {invoice.type === 'invoice' ? formatCurrency(invoice.balanceAmount) : '-'}
+                          </TableCell>
+                          <TableCell>{getStatusBadge(invoice)}</TableCell>
+                          <TableCell className="text-right">
+                            <div className="flex items-center justify-end gap-1">
+                              <Button variant="ghost" size="icon" title="Download PDF" onClick={() => handleDownload(invoice)}>
+                                <Download className="h-4 w-4 text-purple-600" />
+                              </Button>
+                              {lastPayment && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  title="Download latest receipt"
+                                  onClick={() => handleDownloadReceipt(invoice._id, lastPayment._id)}
+                                >
+                                  <Receipt className="h-4 w-4 text-green-600" />
+                                </Button>
+                              )}
+                              {payable && (
+                                <Button
+                                  size="sm"
+                                  className="bg-ca-blue hover:bg-ca-blue-dark"
+                                  disabled={!!payingId}
+                                  onClick={() => handlePay(invoice)}
+                                >
+                                  <CreditCard className="h-4 w-4 mr-1" />
+                                  {payingId === invoice._id ? 'Processing...' : `Pay ${formatCurrency(invoice.balanceAmount)}`}
+                                </Button>
+                              )}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="quotations">
+          <Card>
+            <CardHeader>
+              <CardTitle>Quotations</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {quotations.length === 0 ? (
+                <div className="flex flex-col items-center py-10 text-muted-foreground">
+                  <FileText className="h-10 w-10 mb-2" />
+                  No quotations yet
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Number</TableHead>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Services</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {quotations.map(quote => {
+                      const open = ['sent', 'quote_sent'].includes(quote.status) && !quote.clientResponse?.status;
+                      return (
+                        <TableRow key={quote._id}>
+                          <TableCell className="font-medium">{quote.invoiceNumber}</TableCell>
+                          <TableCell>{format(new Date(quote.issueDate), 'dd/MM/yyyy')}</TableCell>
+                          <TableCell className="max-w-xs">
+                            <div className="truncate">{quote.items.map(item => item.description).join(', ')}</div>
+                            {quote.clientResponse?.reason && (
+                              <div className="text-xs text-muted-foreground">Your note: {quote.clientResponse.reason}</div>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">{formatCurrency(quote.totalAmount)}</TableCell>
+                          <TableCell>{getStatusBadge(quote)}</TableCell>
+                          <TableCell className="text-right">
+                            <div className="flex items-center justify-end gap-1">
+                              <Button variant="ghost" size="icon" title="Download PDF" onClick={() => handleDownload(quote)}>
+                                <Download className="h-4 w-4 text-purple-600" />
+                              </Button>
+                              {open && (
+                                <>
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    disabled={respondMutation.isPending}
+                                    onClick={() => setRejecting(quote)}
+                                  >
+                                    <ThumbsDown className="h-4 w-4 mr-1" />
+                                    Reject
+                                  </Button>
+                                  <Button
+                                    size="sm"
+                                    className="bg-green-600 hover:bg-green-700"
+                                    disabled={respondMutation.isPending}
+                                    onClick={() => handleAccept(quote)}
+                                  >
+                                    <ThumbsUp className="h-4 w-4 mr-1" />
+                                    Accept
+                                  </Button>
+                                </>
+                              )}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      <Dialog open={!!rejecting} onOpenChange={(open) => !open && setRejecting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject quotation {rejecting?.invoiceNumber}</DialogTitle>
+            <DialogDescription>Let the firm know why, so they can send a revised quotation.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="reject-reason">Reason (optional)</Label>
+            <Textarea id="reject-reason" rows={3} value={rejectReason} onChange={(e) => setRejectReason(e.target.value)} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejecting(null)}>Back</Button>
+            <Button variant="destructive" disabled={respondMutation.isPending} onClick={handleReject}>
+              Reject Quotation
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!receipt} onOpenChange={(open) => !open && setReceipt(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <CheckCircle className="h-5 w-5 text-green-600" />
+              Payment successful
+            </DialogTitle>
+            <DialogDescription>A confirmation has been emailed to you.</DialogDescription>
+          </DialogHeader>
+          {receipt && (
+            <div className="space-y-2 text-sm">
+              <div className="flex justify-between"><span className="text-muted-foreground">Invoice</span><span>{receipt.invoice.invoiceNumber}</span></div>
+              <div className="flex justify-between"><span className="text-muted-foreground">Amount paid</span><span className="font-semibold">{formatCurrency(receipt.payment.amount)}</span></div>
+              <div className="flex justify-between"><span className="text-muted-foreground">Date</span><span>{format(new Date(receipt.payment.date), 'dd/MM/yyyy HH:mm')}</span></div>
+              <div className="flex justify-between"><span className="text-muted-foreground">Transaction ID</span><span>{receipt.payment.reference}</span></div>
+              <div className="flex justify-between"><span className="text-muted-foreground">Balance remaining</span><span>{formatCurrency(receipt.invoice.balanceAmount)}</span></div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReceipt(null)}>Close</Button>
+            {receipt && (
+              <Button onClick={() => handleDownloadReceipt(receipt.invoice.id, receipt.payment.id)}>
+                <Download className="h-4 w-4 mr-2" />
+                Download Receipt
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ClientInvoices;
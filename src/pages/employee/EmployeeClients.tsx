@@ -32,47 +32,12 @@ const EmployeeClients = () => {
   const { tasks, isLoading: tasksLoading } = useTasks();
   const [searchQuery, setSearchQuery] = useState('');
 
-  // Get clients that have tasks assigned to current employee (or as collaborator)
-  const assignedClients = useMemo(() => {
-    if (!tasks || !clients || !user) return [];
+  // The clients API only returns clients where this employee is the partner or on the team
+  const assignedClients = clients;
+  const userId = user?.id || (user as { _id?: string } | null)?._id;
 
-    const userId = user.id || (user as any)._id;
-
-    // Get unique client IDs from tasks where user is assigned or collaborating
-    const assignedClientIds = new Set(
-      tasks
-        .filter(task => {
-          // Check assignedTo array
-          const isAssigned = task.assignedTo && Array.isArray(task.assignedTo) && 
-            task.assignedTo.some((assigned: any) => {
-              if (typeof assigned === 'string') {
-                return assigned === userId;
-              } else if (assigned && typeof assigned === 'object') {
-                return assigned._id === userId;
-              }
-              return false;
-            });
-
-          // Check collaborators array
-          const isCollaborator = task.collaborators && Array.isArray(task.collaborators) &&
-            task.collaborators.some((collab: any) => {
-              if (typeof collab === 'string') {
-                return collab === userId;
-              } else if (collab && typeof collab === 'object') {
-                return collab._id === userId;
-              }
-              return false;
-            });
-
-          return isAssigned || isCollaborator;
-        })
-        .map(task => task.clientId)
-        .filter(Boolean)
-    );
-
-    // Filter clients by assigned IDs
-    return clients.filter(client => assignedClientIds.has(client.id) || assignedClientIds.has((client as any)._id));
-  }, [tasks, clients, user]);
+  const getAssignmentLabel = (client: (typeof clients)[number]) =>
+    client.partner?.id === userId ? 'Partner' : 'Team';
 
   // Filter clients by search query
   const filteredClients = useMemo(() => {
@@ -119,7 +84,7 @@ const EmployeeClients = () => {
             My Assigned Clients
           </h1>
           <p className="text-muted-foreground mt-1">
-            Clients with tasks assigned to you
+            Clients where you are the partner or on the team
           </p>
         </div>
         <div className="flex items-center gap-2">
@@ -187,6 +152,7 @@ const EmployeeClients = () => {
                     <TableHead>Client Name</TableHead>
                     <TableHead>Contact</TableHead>
                     <TableHead>GST/CIN</TableHead>
+                    <TableHead>Your Role</TableHead>
                     <TableHead>Tasks</TableHead>
                     <TableHead>Status</TableHead>
                     <TableHead className="text-right">Actions</TableHead>
@@ -243,6 +209,11 @@ const EmployeeClients = () => {
                             )}
                           </div>
                         </TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className="text-xs">
+                            {getAssignmentLabel(client)}
+                          </Badge>
+                        </TableCell>
                         <TableCell>
                           <div className="flex items-center gap-2">
                             <Badge variant="outline" className="text-xs">
@@ -0,0 +1,21 @@
+import { Card, CardHeader, CardTitle } from '@/components/ui/card';
+import { WeeklyTimesheet } from '@/components/timesheets/WeeklyTimesheet';
+
+const EmployeeTimesheet = () => {
+  return (
+    <div className="p-6 space-y-6">
+      <Card>
+        <CardHeader className="bg-gradient-to-r from-ca-blue/10 to-transparent">
+          <CardTitle className="text-2xl text-ca-blue-dark">My Timesheet</CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Review the time you logged on tasks and submit each week for approval
+          </p>
+        </CardHeader>
+      </Card>
+
+      <WeeklyTimesheet allowSubmit />
+    </div>
+  );
+};
+
+export default EmployeeTimesheet;
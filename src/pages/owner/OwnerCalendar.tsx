@@ -1,10 +1,25 @@
-
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { useSelector, useDispatch } from 'react-redux';
-import { Calendar } from '@/components/ui/calendar';
+import { useNavigate } from 'react-router-dom';
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfDay,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameDay,
+  isSameMonth,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Plus } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { ChevronLeft, ChevronRight, Plus, Trash2 } from 'lucide-react';
 import { RootState } from '@/store';
 import {
   Select,
@@ -15,61 +30,206 @@ import {
 } from '@/components/ui/select';
 import { FormDialog } from '@/components/shared/FormDialog';
 import { AddEventForm } from '@/components/forms/AddEventForm';
+import TaskDetailModal from '@/components/tasks/TaskDetailModal';
 import { toggleModal } from '@/store/slices/uiSlice';
+import { useCalendar, CalendarItem } from '@/hooks/useCalendar';
+import { useEmployees } from '@/hooks/useEmployees';
+import { useClients } from '@/hooks/useClients';
+import { useTasks } from '@/hooks/useTasks';
+import { cn } from '@/lib/utils';
+
+type CalendarView = 'day' | 'week' | 'month';
+
+const WEEK_OPTIONS = { weekStartsOn: 1 as const };
+
+const getVisibleRange = (date: Date, view: CalendarView) => {
+  if (view === 'day') {
+    return { start: startOfDay(date), end: endOfDay(date) };
+  }
+  if (view === 'week') {
+    return { start: startOfWeek(date, WEEK_OPTIONS), end: endOfWeek(date, WEEK_OPTIONS) };
+  }
+  // Month view shows whole weeks, so fetch the leading/trailing days too
+  return {
+    start: startOfWeek(startOfMonth(date), WEEK_OPTIONS),
+    end: endOfWeek(endOfMonth(date), WEEK_OPTIONS),
+  };
+};
+
+const getItemStyles = (item: CalendarItem) => {
+  if (item.status === 'completed' || item.status === 'paid') {
+    return 'border-l-4 border-green-500 bg-green-50';
+  }
+  switch (item.source) {
+    case 'task':
+      return 'border-l-4 border-red-500 bg-red-50';
+    case 'milestone':
+      return 'border-l-4 border-orange-500 bg-orange-50';
+    case 'invoice':
+      return 'border-l-4 border-amber-500 bg-amber-50';
+    default:
+      break;
+  }
+  switch (item.type) {
+    case 'meeting':
+      return 'border-l-4 border-blue-500 bg-blue-50';
+    case 'internal':
+      return 'border-l-4 border-purple-500 bg-purple-50';
+    default:
+      return 'border-l-4 border-gray-500 bg-gray-50';
+  }
+};
+
+const sourceLabels: Record<CalendarItem['source'], string> = {
+  event: 'Event',
+  task: 'Task due',
+  milestone: 'Milestone',
+  invoice: 'Invoice due',
+};
 
 const OwnerCalendar = () => {
   const dispatch = useDispatch();
-  const [date, setDate] = useState<Date | undefined>(new Date());
-  const [view, setView] = useState<string>('month');
+  const navigate = useNavigate();
+  const [date, setDate] = useState<Date>(new Date());
+  const [view, setView] = useState<CalendarView>('month');
+  const [employeeFilter, setEmployeeFilter] = useState('all');
+  const [clientFilter, setClientFilter] = useState('all');
+  const [selectedTaskId, setSelectedTaskId] = useState<string | null>(null);
   const { modals } = useSelector((state: RootState) => state.ui);
-  
-  // Mock calendar events
-  const events = [
-    { id: 1, title: 'Client Meeting - ABC Corp', date: new Date(2025, 3, 28, 10, 0), type: 'meeting' },
-    { id: 2, title: 'GST Filing Deadline', date: new Date(2025, 3, 30, 0, 0), type: 'deadline' },
-    { id: 3, title: 'Team Review', date: new Date(2025, 3, 25, 14, 30), type: 'internal' },
-    { id: 4, title: 'Audit Planning - XYZ Industries', date: new Date(2025, 4, 2, 11, 0), type: 'meeting' },
-    { id: 5, title: 'Monthly Reporting', date: new Date(2025, 4, 5, 9, 0), type: 'internal' },
-  ];
-  
-  // Get today's events
-  const todayEvents = events.filter(event => {
-    const eventDate = new Date(event.date);
-    return eventDate.toDateString() === (date ? date.toDateString() : new Date().toDateString());
+
+  const { employees = [] } = useEmployees();
+  const { clients = [] } = useClients();
+  const { tasks = [] } = useTasks();
+
+  const range = useMemo(() => getVisibleRange(date, view), [date, view]);
+  const { items, isLoading, deleteEvent } = useCalendar({
+    start: range.start,
+    end: range.end,
+    employee: employeeFilter,
+    client: clientFilter,
   });
 
-  // Helper function to format time
-  const formatTime = (date: Date) => {
-    return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  const days = useMemo(() => eachDayOfInterval(range), [range]);
+  const itemsForDay = (day: Date) => items.filter(item => isSameDay(new Date(item.start), day));
+  const selectedDayItems = itemsForDay(date);
+  const selectedTask = selectedTaskId ? tasks.find(task => task.id === selectedTaskId) || null : null;
+
+  const shiftDate = (direction: 1 | -1) => {
+    if (view === 'day') setDate(addDays(date, direction));
+    else if (view === 'week') setDate(addWeeks(date, direction));
+    else setDate(addMonths(date, direction));
+  };
+
+  const getTitle = () => {
+    if (view === 'day') return format(date, 'EEEE, d MMMM yyyy');
+    if (view === 'week') return `${format(range.start, 'd MMM')} – ${format(range.end, 'd MMM yyyy')}`;
+    return format(date, 'MMMM yyyy');
   };
 
-  const getEventTypeStyles = (type: string) => {
-    switch (type) {
-      case 'meeting':
-        return 'border-l-4 border-blue-500 bg-blue-50';
-      case 'deadline':
-        return 'border-l-4 border-red-500 bg-red-50';
-      case 'internal':
-        return 'border-l-4 border-purple-500 bg-purple-50';
-      default:
-        return 'border-l-4 border-gray-500 bg-gray-50';
+  // Items link back to the task or invoice they were derived from
+  const handleOpenItem = (item: CalendarItem) => {
+    if (!item.link) return;
+    if (item.link.entityType === 'Task') {
+      setSelectedTaskId(item.link.entityId);
+    } else if (item.link.entityType === 'Invoice') {
+      navigate(`/owner/invoices?invoice=${item.link.entityId}`);
     }
   };
 
+  const handleDeleteEvent = async (item: CalendarItem) => {
+    await deleteEvent(item.id.replace(/^event-/, ''));
+  };
+
   const handleOpenAddEventModal = () => {
     dispatch(toggleModal({ modal: 'addEvent', value: true }));
   };
-  
+
   const handleCloseAddEventModal = () => {
     dispatch(toggleModal({ modal: 'addEvent', value: false }));
   };
 
+  const renderChip = (item: CalendarItem) => (
+    <button
+      key={item.id}
+      type="button"
+      onClick={(e) => {
+        e.stopPropagation();
+        handleOpenItem(item);
+      }}
+      className={cn(
+        'w-full truncate rounded px-1.5 py-0.5 text-left text-xs',
+        getItemStyles(item),
+        !item.link && 'cursor-default'
+      )}
+      title={item.title}
+    >
+      {!item.allDay && `${format(new Date(item.start), 'HH:mm')} `}
+      {item.title}
+    </button>
+  );
+
+  const renderItemDetail = (item: CalendarItem) => (
+    <div key={item.id} className={`p-4 rounded-md ${getItemStyles(item)}`}>
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <p className="text-sm font-medium">
+            {item.allDay ? 'All day' : format(new Date(item.start), 'HH:mm')} - {item.title}
+          </p>
+          <div className="mt-1 flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+            <Badge variant="outline" className="text-xs">{sourceLabels[item.source]}</Badge>
+            {item.client && <span>{item.client.name}</span>}
+            {item.assignee && <span>· {item.assignee.fullName}</span>}
+            {item.status && <span>· {item.status.replace(/_/g, ' ')}</span>}
+            {item.amount !== undefined && <span>· ₹{item.amount.toLocaleString('en-IN')}</span>}
+          </div>
+          {item.description && (
+            <p className="mt-2 text-xs text-muted-foreground">{item.description}</p>
+          )}
+        </div>
+        <div className="flex shrink-0 gap-1">
+          {item.link && (
+            <Button variant="ghost" size="sm" onClick={() => handleOpenItem(item)}>
+              Open
+            </Button>
+          )}
+          {item.source === 'event' && (
+            <Button variant="ghost" size="icon" onClick={() => handleDeleteEvent(item)}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+
   return (
     <div className="space-y-8">
-      <div className="flex items-center justify-between mb-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
         <h1 className="text-2xl font-bold">Calendar</h1>
-        <div className="flex items-center gap-3">
-          <Select value={view} onValueChange={setView}>
+        <div className="flex flex-wrap items-center gap-3">
+          <Select value={employeeFilter} onValueChange={setEmployeeFilter}>
+            <SelectTrigger className="w-44">
+              <SelectValue placeholder="Employee" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All employees</SelectItem>
+              {employees.map((employee) => (
+                <SelectItem key={employee._id} value={employee._id}>{employee.fullName}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={clientFilter} onValueChange={setClientFilter}>
+            <SelectTrigger className="w-44">
+              <SelectValue placeholder="Client" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All clients</SelectItem>
+              {clients.map((client) => (
+                <SelectItem key={client.id} value={client.id}>{client.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={view} onValueChange={(value) => setView(value as CalendarView)}>
             <SelectTrigger className="w-32">
               <SelectValue placeholder="View" />
             </SelectTrigger>
@@ -79,7 +239,7 @@ const OwnerCalendar = () => {
               <SelectItem value="month">Month</SelectItem>
             </SelectContent>
           </Select>
-          <Button 
+          <Button
             className="bg-ca-blue hover:bg-ca-blue-dark"
             onClick={handleOpenAddEventModal}
           >
@@ -92,38 +252,84 @@ const OwnerCalendar = () => {
       <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
         <Card className="md:col-span-2 shadow-md">
           <CardHeader className="bg-gradient-to-r from-ca-blue/10 to-transparent pb-6">
-            <CardTitle>Calendar</CardTitle>
+            <div className="flex items-center justify-between">
+              <CardTitle>{getTitle()}</CardTitle>
+              <div className="flex items-center gap-1">
+                <Button variant="outline" size="icon" onClick={() => shiftDate(-1)}>
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => setDate(new Date())}>
+                  Today
+                </Button>
+                <Button variant="outline" size="icon" onClick={() => shiftDate(1)}>
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
           </CardHeader>
           <CardContent className="py-6">
-            <Calendar
-              mode="single"
-              selected={date}
-              onSelect={setDate}
-              className="rounded-md border p-3"
-            />
+            {isLoading && <p className="mb-2 text-sm text-muted-foreground">Loading calendar...</p>}
+
+            {view === 'day' ? (
+              <div className="space-y-3">
+                {selectedDayItems.length > 0 ? (
+                  selectedDayItems.map(renderItemDetail)
+                ) : (
+                  <p className="text-muted-foreground">Nothing scheduled for this day</p>
+                )}
+              </div>
+            ) : (
+              <div className="grid grid-cols-7 gap-px overflow-hidden rounded-md border bg-border">
+                {days.slice(0, 7).map(day => (
+                  <div key={`head-${day.toISOString()}`} className="bg-muted px-2 py-1 text-center text-xs font-medium">
+                    {format(day, 'EEE')}
+                  </div>
+                ))}
+                {days.map(day => {
+                  const dayItems = itemsForDay(day);
+                  const visibleItems = view === 'month' ? dayItems.slice(0, 3) : dayItems;
+                  return (
+                    <div
+                      key={day.toISOString()}
+                      onClick={() => setDate(day)}
+                      className={cn(
+                        'cursor-pointer space-y-1 bg-background p-1.5',
+                        view === 'month' ? 'min-h-24' : 'min-h-64',
+                        view === 'month' && !isSameMonth(day, date) && 'bg-muted/40 text-muted-foreground',
+                        isSameDay(day, date) && 'ring-2 ring-inset ring-blue-500'
+                      )}
+                    >
+                      <div className={cn('text-xs font-medium', isSameDay(day, new Date()) && 'text-blue-600')}>
+                        {format(day, view === 'month' ? 'd' : 'd MMM')}
+                      </div>
+                      {visibleItems.map(renderChip)}
+                      {dayItems.length > visibleItems.length && (
+                        <p className="text-xs text-muted-foreground">+{dayItems.length - visibleItems.length} more</p>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
           </CardContent>
         </Card>
 
         <Card className="shadow-md">
           <CardHeader className="bg-gradient-to-r from-ca-green/10 to-transparent pb-6">
-            <CardTitle>{date ? date.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' }) : 'Today'}</CardTitle>
+            <CardTitle>{date.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' })}</CardTitle>
           </CardHeader>
           <CardContent className="py-6">
-            {todayEvents.length > 0 ? (
+            {selectedDayItems.length > 0 ? (
               <div className="space-y-4">
-                {todayEvents.map(event => (
-                  <div key={event.id} className={`p-4 rounded-md ${getEventTypeStyles(event.type)}`}>
-                    <p className="text-sm font-medium">{formatTime(event.date)} - {event.title}</p>
-                  </div>
-                ))}
+                {selectedDayItems.map(renderItemDetail)}
               </div>
             ) : (
-              <p className="text-muted-foreground">No events scheduled for today</p>
+              <p className="text-muted-foreground">No events scheduled for this day</p>
             )}
           </CardContent>
         </Card>
       </div>
-      
+
       <FormDialog
         open={modals.addEvent}
         onOpenChange={handleCloseAddEventModal}
@@ -131,8 +337,14 @@ const OwnerCalendar = () => {
         description="Schedule a new event in your calendar"
         showFooter={false}
       >
-        <AddEventForm onSuccess={handleCloseAddEventModal} />
+        <AddEventForm onSuccess={handleCloseAddEventModal} defaultDate={date} />
       </FormDialog>
+
+      <TaskDetailModal
+        task={selectedTask}
+        open={!!selectedTask}
+        onOpenChange={(open) => !open && setSelectedTaskId(null)}
+      />
     </div>
   );
 };
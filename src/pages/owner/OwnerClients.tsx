@@ -1,6 +1,6 @@
 
 import { useState } from 'react';
-import { Search, Plus, Download, Upload, Eye, Edit, Trash2, Trash, Archive, Check, X } from 'lucide-react';
+import { Search, Plus, Download, Upload, Eye, Edit, Trash2, Trash, Archive, Check, X, Repeat } from 'lucide-react';
 import Swal from 'sweetalert2';
 import * as XLSX from 'xlsx';
 import { saveAs } from 'file-saver';
@@ -36,6 +36,8 @@ import { ClientDetailView } from '@/components/clients/ClientDetailView';
 import { BulkGSTImport } from '@/components/clients/BulkGSTImport';
 import { BulkCINImport } from '@/components/clients/BulkCINImport';
 import { ImportOptionsModal } from '@/components/clients/ImportOptionsModal';
+import { ClientReassignDialog } from '@/components/clients/ClientReassignDialog';
+import { usePermissions } from '@/hooks/usePermissions';
 import { useClients } from '@/hooks/useClients';
 import { toast } from 'sonner';
 
@@ -48,6 +50,8 @@ const OwnerClients = () => {
   const [showBulkGSTImport, setShowBulkGSTImport] = useState(false);
   const [showBulkCINImport, setShowBulkCINImport] = useState(false);
   const [showImportOptions, setShowImportOptions] = useState(false);
+  const [showReassign, setShowReassign] = useState(false);
+  const { can } = usePermissions();
   
   // Bulk selection state
   const [selectedClients, setSelectedClients] = useState<string[]>([]);
@@ -501,6 +505,15 @@ const OwnerClients = () => {
                 <Upload className="mr-2 h-4 w-4" />
                 Import
               </Button>
+              {can('client.assign') && (
+                <Button 
+                  variant="outline"
+                  onClick={() => setShowReassign(true)}
+                >
+                  <Repeat className="mr-2 h-4 w-4" />
+                  Reassign
+                </Button>
+              )}
               <Button 
                 className="bg-ca-blue hover:bg-ca-blue-dark"
                 onClick={handleOpenAddClientModal}
@@ -785,6 +798,12 @@ const OwnerClients = () => {
             }}
             onUploadExcel={handleUploadExcel}
           />
+
+          <ClientReassignDialog
+            isOpen={showReassign}
+            onClose={() => setShowReassign(false)}
+            selectedClientIds={selectedClients}
+          />
         </CardContent>
       </Card>
     </div>
@@ -50,8 +50,7 @@ const OwnerDashboard = () => {
   useEffect(() => {
     const checkAIStatus = async () => {
       try {
-        const response = await fetch(`${import.meta.env.VITE_API_URL || API_BASE_URL + ''}/ai/status`);
-        const data = await response.json();
+        const data = await apiClient.get('/ai/status') as { configured: boolean };
         setAiConfigured(data.configured);
       } catch (error) {
         console.error('Error checking AI status:', error);
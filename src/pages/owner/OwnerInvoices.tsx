@@ -1,8 +1,9 @@
 
 import { useState, useEffect } from 'react';
-import { FileText, Plus, Download, Mail, Eye, Edit, Trash2, Check, X } from 'lucide-react';
+import { FileText, Plus, Download, Mail, Eye, Edit, Trash2, Check, X, ListChecks, BellRing, ReceiptText, Ban } from 'lucide-react';
 import Swal from 'sweetalert2';
 import { format } from 'date-fns';
+import { useSearchParams } from 'react-router-dom';
 import {
   Card,
   CardContent,
@@ -34,7 +35,9 @@ import { FormDialog } from '@/components/shared/FormDialog';
 import { EnhancedInvoiceForm } from '@/components/invoices/EnhancedInvoiceForm';
 import { InvoicePreviewModal } from '@/components/invoices/InvoicePreviewModal';
 import { InvoiceFilterPanel } from '@/components/invoices/InvoiceFilterPanel';
-import { useInvoices, useInvoice, useUpdateInvoiceStatus, useDeleteInvoice, useBulkDeleteInvoices, useBulkUpdateInvoiceStatus } from '@/hooks/useInvoices';
+import { BillUnbilledWork } from '@/components/invoices/BillUnbilledWork';
+import { CreditNoteForm } from '@/components/invoices/CreditNoteForm';
+import { useInvoices, useInvoice, useUpdateInvoiceStatus, useDeleteInvoice, useBulkDeleteInvoices, useBulkUpdateInvoiceStatus, useSendInvoiceReminder, useRunInvoiceReminders, Invoice } from '@/hooks/useInvoices';
 import { toggleModal } from '@/store/slices/uiSlice';
 import { useSelector, useDispatch } from 'react-redux';
 import { RootState } from '@/store';
@@ -95,6 +98,8 @@ const OwnerInvoices = () => {
   });
 
   const [currentPage, setCurrentPage] = useState(1);
+  const [showBillUnbilled, setShowBillUnbilled] = useState(false);
+  const [creditNoteTarget, setCreditNoteTarget] = useState<{ invoice: Invoice; mode: 'credit' | 'cancel' } | null>(null);
   const pageLimit = 10;
   
   // Bulk actions state
@@ -121,6 +126,8 @@ const OwnerInvoices = () => {
   });
 
   const updateStatusMutation = useUpdateInvoiceStatus();
+  const sendReminderMutation = useSendInvoiceReminder();
+  const runRemindersMutation = useRunInvoiceReminders();
   const deleteInvoiceMutation = useDeleteInvoice();
   const bulkDeleteMutation = useBulkDeleteInvoices();
   const bulkUpdateStatusMutation = useBulkUpdateInvoiceStatus();
@@ -178,6 +185,25 @@ const OwnerInvoices = () => {
     }
   };
 
+  const handleSendReminder = async (invoiceId: string) => {
+    try {
+      const result = await sendReminderMutation.mutateAsync(invoiceId);
+      toast.success(result.message || 'Reminder sent');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to send reminder');
+    }
+  };
+
+  const handleRunReminders = async () => {
+    try {
+      const result = await runRemindersMutation.mutateAsync();
+      const { sent, skipped, markedOverdue } = result.data;
+      toast.success(`${sent} reminder${sent === 1 ? '' : 's'} sent${markedOverdue ? `, ${markedOverdue} marked overdue` : ''}${skipped ? `, ${skipped} skipped` : ''}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to run reminders');
+    }
+  };
+
   const handleDeleteInvoice = async (invoiceId: string) => {
     const result = await Swal.fire({
       title: 'Delete invoice? ',
@@ -290,8 +316,9 @@ const OwnerInvoices = () => {
   const invoices = invoicesResponse?.data || [];
   const pagination = invoicesResponse?.pagination;
 
-  // Preview modal state
-  const [previewInvoiceId, setPreviewInvoiceId] = useState<string | null>(null);
+  // Preview modal state (deep links such as the calendar pass ?invoice=<id>)
+  const [searchParams] = useSearchParams();
+  const [previewInvoiceId, setPreviewInvoiceId] = useState<string | null>(searchParams.get('invoice'));
   const { data: previewInvoiceResponse } = useInvoice(previewInvoiceId || undefined);
   const previewInvoice = previewInvoiceResponse?.data;
 
@@ -324,13 +351,23 @@ const OwnerInvoices = () => {
                 Manage and track client invoices and payments
               </CardDescription>
             </div>
-            <Button 
-              className="bg-ca-blue hover:bg-ca-blue-dark"
-              onClick={handleOpenAddInvoiceModal}
-            >
-              <Plus className="mr-2 h-4 w-4" />
-              Create Invoice
-            </Button>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={handleRunReminders} disabled={runRemindersMutation.isPending}>
+                <BellRing className="mr-2 h-4 w-4" />
+                {runRemindersMutation.isPending ? 'Sending...' : 'Send Due Reminders'}
+              </Button>
+              <Button variant="outline" onClick={() => setShowBillUnbilled(true)}>
+                <ListChecks className="mr-2 h-4 w-4" />
+                Bill Unbilled Work
+              </Button>
+              <Button 
+                className="bg-ca-blue hover:bg-ca-blue-dark"
+                onClick={handleOpenAddInvoiceModal}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Create Invoice
+              </Button>
+            </div>
           </div>
         </CardHeader>
         <CardContent className="py-6">
@@ -492,7 +529,12 @@ const OwnerInvoices = () => {
                             aria-label={`Select invoice ${invoice.invoiceNumber}`}
                           />
                         </TableCell>
-                        <TableCell className="font-medium">{invoice.invoiceNumber}</TableCell>
+                        <TableCell className="font-medium">
+                          {invoice.invoiceNumber}
+                          {invoice.type === 'credit_note' && (
+                            <Badge variant="outline" className="ml-2 text-xs">Credit Note</Badge>
+                          )}
+                        </TableCell>
                         <TableCell>
                           <div>
                             <div className="font-medium">{(invoice.client as any)?.fullName || invoice.client?.name || 'Unknown Client'}</div>
@@ -553,6 +595,36 @@ const OwnerInvoices = () => {
                                 <Mail className="h-4 w-4 mr-2 text-orange-600" />
                                 <span>Send Email</span>
                               </DropdownMenuItem>
+                              {['sent', 'partially_paid', 'overdue'].includes(invoice.status) && (
+                                <DropdownMenuItem
+                                  className="cursor-pointer"
+                                  disabled={sendReminderMutation.isPending}
+                                  onClick={() => handleSendReminder(invoice._id)}
+                                >
+                                  <BellRing className="h-4 w-4 mr-2 text-amber-600" />
+                                  <span>Send Payment Reminder</span>
+                                </DropdownMenuItem>
+                              )}
+                              {invoice.type === 'invoice' && ['sent', 'paid', 'partially_paid', 'overdue'].includes(invoice.status) && (
+                                <>
+                                  <DropdownMenuItem
+                                    className="cursor-pointer"
+                                    onClick={() => setCreditNoteTarget({ invoice, mode: 'credit' })}
+                                  >
+                                    <ReceiptText className="h-4 w-4 mr-2 text-slate-600" />
+                                    <span>Issue Credit Note</span>
+                                  </DropdownMenuItem>
+                                  {!invoice.creditedAmount && (
+                                    <DropdownMenuItem
+                                      className="cursor-pointer"
+                                      onClick={() => setCreditNoteTarget({ invoice, mode: 'cancel' })}
+                                    >
+                                      <Ban className="h-4 w-4 mr-2 text-red-600" />
+                                      <span>Cancel Invoice</span>
+                                    </DropdownMenuItem>
+                                  )}
+                                </>
+                              )}
                               <DropdownMenuSeparator />
                               {invoice.status !== 'paid' && (
                                 <DropdownMenuItem 
@@ -655,7 +727,37 @@ const OwnerInvoices = () => {
           >
             <EnhancedInvoiceForm onSuccess={handleCloseAddInvoiceModal} />
           </FormDialog>
+
+          <FormDialog
+            open={showBillUnbilled}
+            onOpenChange={setShowBillUnbilled}
+            title="Bill Unbilled Work"
+            description="Create one draft invoice per client from completed, billable tasks that have not been invoiced"
+            showFooter={false}
+            className="max-w-5xl"
+          >
+            <BillUnbilledWork onSuccess={() => setShowBillUnbilled(false)} />
+          </FormDialog>
           
+          <FormDialog
+            open={!!creditNoteTarget}
+            onOpenChange={(open) => !open && setCreditNoteTarget(null)}
+            title={creditNoteTarget?.mode === 'cancel' ? 'Cancel Invoice' : 'Issue Credit Note'}
+            description={creditNoteTarget?.mode === 'cancel'
+              ? 'Issued invoices are reversed with a full credit note so the GST already charged is reversed too'
+              : 'Credit all or part of the invoice, reversing the GST charged on the credited lines'}
+            showFooter={false}
+            className="max-w-3xl"
+          >
+            {creditNoteTarget && (
+              <CreditNoteForm
+                invoice={creditNoteTarget.invoice}
+                mode={creditNoteTarget.mode}
+                onSuccess={() => setCreditNoteTarget(null)}
+              />
+            )}
+          </FormDialog>
+
           {/* Edit Invoice Modal */}
           {editingInvoiceId && (
             <FormDialog
@@ -25,8 +25,14 @@ import { Separator } from '@/components/ui/separator';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { useSettings } from '@/hooks/useSettings';
 import { SystemConfigurationSettings } from '@/components/settings/SystemConfigurationSettings';
+import { AIProviderSettings } from '@/components/settings/AIProviderSettings';
 import { InvoiceAccountsSettings } from '@/components/settings/InvoiceAccountsSettings';
+import { InvoiceReminderSettings } from '@/components/settings/InvoiceReminderSettings';
+import { EinvoiceSettings } from '@/components/settings/EinvoiceSettings';
+import { PermissionMatrixSettings } from '@/components/settings/PermissionMatrixSettings';
+import { PushDeviceSettings } from '@/components/notifications/PushDeviceSettings';
 import { RecurringTaskAutomation } from '@/components/automation/RecurringTaskAutomation';
+import { StatutoryDueDateSettings } from '@/components/settings/StatutoryDueDateSettings';
 import { EmailTemplateManager } from '@/components/communication/EmailTemplateManager';
 import { ExcelManager } from '@/components/excel/ExcelManager';
 import { 
@@ -45,7 +51,8 @@ import {
   Loader2,
   TestTube,
   RefreshCw,
-  Power
+  Power,
+  KeyRound
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { apiClient } from '@/services/api';
@@ -226,7 +233,7 @@ const OwnerSettings = () => {
         </CardHeader>
         <CardContent>
           <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-            <TabsList className="grid w-full grid-cols-7">
+            <TabsList className="grid w-full grid-cols-8">
               <TabsTrigger value="company" className="flex items-center gap-1">
                 <Building2 className="h-4 w-4" />
                 Company
@@ -255,6 +262,10 @@ const OwnerSettings = () => {
                 <Zap className="h-4 w-4" />
                 Automation
               </TabsTrigger>
+              <TabsTrigger value="roles" className="flex items-center gap-1">
+                <KeyRound className="h-4 w-4" />
+                Roles
+              </TabsTrigger>
             </TabsList>
 
             {/* Company Settings */}
@@ -540,11 +551,12 @@ const OwnerSettings = () => {
             </TabsContent>
 
             {/* Invoice Accounts Settings */}
-            <TabsContent value="accounts">
+            <TabsContent value="accounts" className="space-y-6">
               <InvoiceAccountsSettings 
                 getSetting={getSetting} 
                 updateSetting={updateSetting} 
               />
+              <EinvoiceSettings />
             </TabsContent>
 
             <TabsContent value="notifications" className="space-y-6 mt-6">
@@ -599,6 +611,7 @@ const OwnerSettings = () => {
                         onCheckedChange={(checked) => updateSetting('notifications', 'push', checked)}
                       />
                     </div>
+                    {getSetting('notifications', 'push') && <PushDeviceSettings />}
                   </div>
                 </div>
 
@@ -875,12 +888,15 @@ const OwnerSettings = () => {
               <div className="py-4">
                 <SystemConfigurationSettings showWhatsApp={false} showTesting={false} />
               </div>
+              <AIProviderSettings />
             </TabsContent>
 
             <TabsContent value="automation" className="space-y-6">
               <div className="py-4">
                 <div className="space-y-6">
                   <RecurringTaskAutomation />
+                  <StatutoryDueDateSettings />
+                  <InvoiceReminderSettings getSetting={getSetting} updateSetting={updateSetting} />
                   <EmailTemplateManager />
                   <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
                     <ExcelManager 
@@ -897,6 +913,10 @@ const OwnerSettings = () => {
                 </div>
               </div>
             </TabsContent>
+
+            <TabsContent value="roles" className="space-y-6 mt-6">
+              <PermissionMatrixSettings />
+            </TabsContent>
           </Tabs>
         </CardContent>
       </Card>
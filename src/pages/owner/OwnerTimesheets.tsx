@@ -0,0 +1,176 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Check, Eye, X } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { WeeklyTimesheet } from '@/components/timesheets/WeeklyTimesheet';
+import { usePendingTimesheets, formatMinutes, PendingTimesheet } from '@/hooks/useTimeEntries';
+import { useEmployees } from '@/hooks/useEmployees';
+
+const OwnerTimesheets = () => {
+  const { timesheets, isLoading, reviewTimesheet, isReviewing } = usePendingTimesheets();
+  const { employees } = useEmployees();
+  const [selectedEmployee, setSelectedEmployee] = useState<string>('');
+  const [viewWeek, setViewWeek] = useState<Date | undefined>();
+  const [rejecting, setRejecting] = useState<PendingTimesheet | null>(null);
+  const [reason, setReason] = useState('');
+
+  const review = async (timesheet: PendingTimesheet, action: 'approve' | 'reject', rejectionReason?: string) => {
+    try {
+      await reviewTimesheet({
+        userId: timesheet.user._id,
+        weekStart: format(new Date(timesheet.weekStart), 'yyyy-MM-dd'),
+        action,
+        reason: rejectionReason,
+      });
+      setRejecting(null);
+      setReason('');
+    } catch {
+      // Toast already shown by the mutation
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <Card>
+        <CardHeader className="bg-gradient-to-r from-ca-blue/10 to-transparent">
+          <CardTitle className="text-2xl text-ca-blue-dark">Timesheets</CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Approve submitted time - approved hours feed task actuals, billing and performance metrics
+          </p>
+        </CardHeader>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Awaiting Approval</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading timesheets...</p>
+          ) : timesheets.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No timesheets awaiting approval</p>
+          ) : (
+            <div className="space-y-3">
+              {timesheets.map(timesheet => (
+                <div
+                  key={`${timesheet.user._id}-${timesheet.weekStart}`}
+                  className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-3 border rounded-lg"
+                >
+                  <div>
+                    <p className="font-medium">{timesheet.user.fullName}</p>
+                    <p className="text-sm text-muted-foreground">
+                      Week of {format(new Date(timesheet.weekStart), 'MMM dd, yyyy')} · {timesheet.entries} entries
+                      {timesheet.submittedAt && ` · submitted ${format(new Date(timesheet.submittedAt), 'MMM dd')}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">{formatMinutes(timesheet.totalMinutes)}</Badge>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => {
+                        setSelectedEmployee(timesheet.user._id);
+                        setViewWeek(new Date(timesheet.weekStart));
+                      }}
+                    >
+                      <Eye className="h-4 w-4 mr-1" />
+                      View
+                    </Button>
+                    <Button
+                      size="sm"
+                      className="bg-green-600 hover:bg-green-700"
+                      disabled={isReviewing}
+                      onClick={() => review(timesheet, 'approve')}
+                    >
+                      <Check className="h-4 w-4 mr-1" />
+                      Approve
+                    </Button>
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      disabled={isReviewing}
+                      onClick={() => setRejecting(timesheet)}
+                    >
+                      <X className="h-4 w-4 mr-1" />
+                      Reject
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="space-y-4">
+        <div className="flex items-center gap-3">
+          <span className="text-sm font-medium">Employee</span>
+          <Select value={selectedEmployee} onValueChange={(value) => { setSelectedEmployee(value); setViewWeek(undefined); }}>
+            <SelectTrigger className="w-64">
+              <SelectValue placeholder="Select an employee" />
+            </SelectTrigger>
+            <SelectContent>
+              {employees.map(employee => (
+                <SelectItem key={employee._id} value={employee._id}>
+                  {employee.fullName}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {selectedEmployee && (
+          <WeeklyTimesheet
+            key={`${selectedEmployee}-${viewWeek?.toISOString() || ''}`}
+            userId={selectedEmployee}
+            initialWeekStart={viewWeek}
+          />
+        )}
+      </div>
+
+      <Dialog open={!!rejecting} onOpenChange={(open) => !open && setRejecting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject timesheet</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-muted-foreground">
+            {rejecting?.user.fullName} can correct the entries and resubmit.
+          </p>
+          <Textarea
+            placeholder="Reason for rejection"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejecting(null)}>Cancel</Button>
+            <Button
+              variant="destructive"
+              disabled={isReviewing || !reason.trim()}
+              onClick={() => rejecting && review(rejecting, 'reject', reason.trim())}
+            >
+              Reject
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default OwnerTimesheets;
@@ -0,0 +1,509 @@
+import { useState } from 'react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { AlertTriangle, Calendar, FileJson, FileSpreadsheet, FileText } from 'lucide-react';
+import { toast } from 'sonner';
+import { GST_STATE_CODES } from '@/services/gst';
+import {
+  downloadGstr1,
+  useGstr1Report,
+  type Gstr1HsnRow,
+  type Gstr1Period,
+  type Gstr1RateLine,
+  type Gstr1SectionTotals,
+} from '@/hooks/useGstr1';
+
+const formatAmount = (amount: number) =>
+  `₹${(amount || 0).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatPos = (pos: string) => `${pos} - ${GST_STATE_CODES[pos] || 'Unknown'}`;
+
+const formatRates = (items: Gstr1RateLine[]) => items.map(item => `${item.rt}%`).join(', ');
+
+const totalTax = (line: Gstr1RateLine | Gstr1SectionTotals) => line.iamt + line.camt + line.samt + line.csamt;
+
+const SECTIONS = [
+  { key: 'b2b', label: 'B2B', description: 'Registered clients' },
+  { key: 'b2cl', label: 'B2CL', description: 'Large inter-state, unregistered' },
+  { key: 'b2cs', label: 'B2CS', description: 'Other unregistered, by state and rate' },
+  { key: 'cdnr', label: 'CDNR', description: 'Credit notes to registered clients' },
+  { key: 'cdnur', label: 'CDNUR', description: 'Credit notes against B2CL invoices' },
+  { key: 'hsn', label: 'HSN', description: 'HSN/SAC summary' },
+] as const;
+
+const EmptyRow = ({ colSpan }: { colSpan: number }) => (
+  <TableRow>
+    <TableCell colSpan={colSpan} className="text-center text-muted-foreground py-6">
+      Nothing to report in this table for the period
+    </TableCell>
+  </TableRow>
+);
+
+const HsnTable = ({ rows }: { rows: Gstr1HsnRow[] }) => (
+  <Table>
+    <TableHeader>
+      <TableRow>
+        <TableHead>HSN/SAC</TableHead>
+        <TableHead>UQC</TableHead>
+        <TableHead className="text-right">Quantity</TableHead>
+        <TableHead className="text-right">Rate</TableHead>
+        <TableHead className="text-right">Taxable Value</TableHead>
+        <TableHead className="text-right">IGST</TableHead>
+        <TableHead className="text-right">CGST</TableHead>
+        <TableHead className="text-right">SGST</TableHead>
+        <TableHead className="text-right">Total Value</TableHead>
+      </TableRow>
+    </TableHeader>
+    <TableBody>
+      {rows.length === 0 ? <EmptyRow colSpan={9} /> : rows.map(row => (
+        <TableRow key={`${row.hsn_sc}-${row.rt}`}>
+          <TableCell className="font-mono">{row.hsn_sc}</TableCell>
+          <TableCell>{row.uqc}</TableCell>
+          <TableCell className="text-right">{row.qty}</TableCell>
+          <TableCell className="text-right">{row.rt}%</TableCell>
+          <TableCell className="text-right">{formatAmount(row.txval)}</TableCell>
+          <TableCell className="text-right">{formatAmount(row.iamt)}</TableCell>
+          <TableCell className="text-right">{formatAmount(row.camt)}</TableCell>
+          <TableCell className="text-right">{formatAmount(row.samt)}</TableCell>
+          <TableCell className="text-right">{formatAmount(row.val)}</TableCell>
+        </TableRow>
+      ))}
+    </TableBody>
+  </Table>
+);
+
+const GSTR1Report = () => {
+  const currentDate = new Date();
+  // GSTR-1 is usually prepared for the month just ended
+  const lastMonth = new Date(currentDate.getFullYear(), currentDate.getMonth() - 1, 1);
+  const [period, setPeriod] = useState<Gstr1Period>({
+    month: (lastMonth.getMonth() + 1).toString(),
+    year: lastMonth.getFullYear().toString(),
+    quarterly: false,
+  });
+  const [downloading, setDownloading] = useState<'json' | 'xlsx' | null>(null);
+
+  const { data: report, isLoading, error } = useGstr1Report(period);
+
+  // Generate year options (last 5 years)
+  const years = Array.from({ length: 5 }, (_, i) => {
+    const year = currentDate.getFullYear() - i;
+    return { value: year.toString(), label: year.toString() };
+  });
+
+  const months = [
+    { value: '1', label: 'January' },
+    { value: '2', label: 'February' },
+    { value: '3', label: 'March' },
+    { value: '4', label: 'April' },
+    { value: '5', label: 'May' },
+    { value: '6', label: 'June' },
+    { value: '7', label: 'July' },
+    { value: '8', label: 'August' },
+    { value: '9', label: 'September' },
+    { value: '10', label: 'October' },
+    { value: '11', label: 'November' },
+    { value: '12', label: 'December' },
+  ];
+
+  const handleDownload = async (format: 'json' | 'xlsx') => {
+    setDownloading(format);
+    try {
+      await downloadGstr1(format, period);
+      toast.success(format === 'json' ? 'GSTR-1 JSON downloaded' : 'GSTR-1 workbook downloaded');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to download GSTR-1');
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  const errors = report?.issues.filter(issue => issue.severity === 'error') || [];
+  const warnings = report?.issues.filter(issue => issue.severity === 'warning') || [];
+
+  return (
+    <div className="container mx-auto py-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight flex items-center gap-3">
+            <FileText className="h-8 w-8 text-blue-600" />
+            GSTR-1 Return
+          </h1>
+          <p className="text-muted-foreground mt-2">
+            Outward supplies from the firm's own invoices and credit notes, ready to upload to the GST portal
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => handleDownload('xlsx')}
+            disabled={!report || downloading !== null}
+          >
+            <FileSpreadsheet className="h-4 w-4 mr-2" />
+            {downloading === 'xlsx' ? 'Downloading...' : 'Excel'}
+          </Button>
+          <Button onClick={() => handleDownload('json')} disabled={!report || downloading !== null}>
+            <FileJson className="h-4 w-4 mr-2" />
+            {downloading === 'json' ? 'Downloading...' : 'Portal JSON'}
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between flex-wrap gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Calendar className="h-5 w-5" />
+                Return Period
+              </CardTitle>
+              <CardDescription>
+                {report
+                  ? `${report.period.label} · GSTIN ${report.supplier.gstin} (${report.supplier.state})`
+                  : 'Choose the month, or any month of the quarter for quarterly filers'}
+              </CardDescription>
+            </div>
+            <div className="flex gap-3 flex-wrap">
+              {report && report.registrations.length > 1 && (
+                <Select
+                  value={report.supplier.gstin}
+                  onValueChange={(gstin) => setPeriod({ ...period, gstin })}
+                >
+                  <SelectTrigger className="w-[200px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {report.registrations.map(registration => (
+                      <SelectItem key={registration.gstin} value={registration.gstin}>
+                        {registration.gstin}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <Select
+                value={period.quarterly ? 'quarterly' : 'monthly'}
+                onValueChange={(value) => setPeriod({ ...period, quarterly: value === 'quarterly' })}
+              >
+                <SelectTrigger className="w-[130px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="monthly">Monthly</SelectItem>
+                  <SelectItem value="quarterly">Quarterly</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select value={period.month} onValueChange={(month) => setPeriod({ ...period, month })}>
+                <SelectTrigger className="w-[140px]">
+                  <SelectValue placeholder="Month" />
+                </SelectTrigger>
+                <SelectContent>
+                  {months.map((month) => (
+                    <SelectItem key={month.value} value={month.value}>
+                      {month.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={period.year} onValueChange={(year) => setPeriod({ ...period, year })}>
+                <SelectTrigger className="w-[120px]">
+                  <SelectValue placeholder="Year" />
+                </SelectTrigger>
+                <SelectContent>
+                  {years.map((year) => (
+                    <SelectItem key={year.value} value={year.value}>
+                      {year.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardHeader>
+      </Card>
+
+      {isLoading ? (
+        <p className="text-muted-foreground">Preparing return...</p>
+      ) : error ? (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>{error instanceof Error ? error.message : 'Failed to prepare GSTR-1'}</AlertDescription>
+        </Alert>
+      ) : report && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-6 gap-4">
+            {SECTIONS.map(section => {
+              const totals = report.summary[section.key];
+              return (
+                <Card key={section.key}>
+                  <CardHeader className="pb-2">
+                    <CardDescription>{section.description}</CardDescription>
+                    <CardTitle className="text-lg">{section.label}</CardTitle>
+                  </CardHeader>
+                  <CardContent className="text-sm space-y-1">
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">{section.key === 'b2cs' || section.key === 'hsn' ? 'Rows' : 'Documents'}</span>
+                      <span>{totals.count}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Taxable</span>
+                      <span>{formatAmount(totals.txval)}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Tax</span>
+                      <span>{formatAmount(totalTax(totals))}</span>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+
+          {errors.length > 0 && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle>{errors.length} problem{errors.length === 1 ? '' : 's'} to fix before filing</AlertTitle>
+              <AlertDescription>
+                <ul className="list-disc pl-4">
+                  {errors.map((issue, index) => (
+                    <li key={`${issue.code}-${issue.invoiceId || index}`}>
+                      {issue.invoiceNumber && <span className="font-medium">{issue.invoiceNumber}: </span>}
+                      {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {warnings.length > 0 && (
+            <Alert>
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle>{warnings.length} warning{warnings.length === 1 ? '' : 's'}</AlertTitle>
+              <AlertDescription>
+                <ul className="list-disc pl-4">
+                  {warnings.map((issue, index) => (
+                    <li key={`${issue.code}-${issue.invoiceId || index}`}>
+                      {issue.invoiceNumber && <span className="font-medium">{issue.invoiceNumber}: </span>}
+                      {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <Card>
+            <CardContent className="pt-6">
+              <Tabs defaultValue="b2b">
+                <TabsList>
+                  {SECTIONS.map(section => (
+                    <TabsTrigger key={section.key} value={section.key}>
+                      {section.label}
+                      <Badge variant="secondary" className="ml-2">{report.summary[section.key].count}</Badge>
+                    </TabsTrigger>
+                  ))}
+                </TabsList>
+
+                <TabsContent value="b2b">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Recipient GSTIN</TableHead>
+                        <TableHead>Receiver</TableHead>
+                        <TableHead>Invoice</TableHead>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Place of Supply</TableHead>
+                        <TableHead>Rates</TableHead>
+                        <TableHead className="text-right">Taxable Value</TableHead>
+                        <TableHead className="text-right">Tax</TableHead>
+                        <TableHead className="text-right">Invoice Value</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.b2b.length === 0 ? <EmptyRow colSpan={9} /> : report.b2b.flatMap(party => party.invoices.map(invoice => (
+                        <TableRow key={invoice.invoiceId}>
+                          <TableCell className="font-mono text-xs">{party.ctin}</TableCell>
+                          <TableCell>{party.receiverName}</TableCell>
+                          <TableCell>{invoice.inum}</TableCell>
+                          <TableCell>{invoice.idt}</TableCell>
+                          <TableCell>{formatPos(invoice.pos)}</TableCell>
+                          <TableCell>{formatRates(invoice.items)}</TableCell>
+                          <TableCell className="text-right">{formatAmount(invoice.items.reduce((sum, item) => sum + item.txval, 0))}</TableCell>
+                          <TableCell className="text-right">{formatAmount(invoice.items.reduce((sum, item) => sum + totalTax(item), 0))}</TableCell>
+                          <TableCell className="text-right">{formatAmount(invoice.val)}</TableCell>
+                        </TableRow>
+                      )))}
+                    </TableBody>
+                  </Table>
+                </TabsContent>
+
+                <TabsContent value="b2cl">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Invoice</TableHead>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Place of Supply</TableHead>
+                        <TableHead>Rates</TableHead>
+                        <TableHead className="text-right">Taxable Value</TableHead>
+                        <TableHead className="text-right">IGST</TableHead>
+                        <TableHead className="text-right">Invoice Value</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.b2cl.length === 0 ? <EmptyRow colSpan={7} /> : report.b2cl.flatMap(group => group.invoices.map(invoice => (
+                        <TableRow key={invoice.invoiceId}>
+                          <TableCell>{invoice.inum}</TableCell>
+                          <TableCell>{invoice.idt}</TableCell>
+                          <TableCell>{formatPos(group.pos)}</TableCell>
+                          <TableCell>{formatRates(invoice.items)}</TableCell>
+                          <TableCell className="text-right">{formatAmount(invoice.items.reduce((sum, item) => sum + item.txval, 0))}</TableCell>
+                          <TableCell className="text-right">{formatAmount(invoice.items.reduce((sum, item) => sum + item.iamt, 0))}</TableCell>
+                          <TableCell className="text-right">{formatAmount(invoice.val)}</TableCell>
+                        </TableRow>
+                      )))}
+                    </TableBody>
+                  </Table>
+                </TabsContent>
+
+                <TabsContent value="b2cs">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Supply</TableHead>
+                        <TableHead>Place of Supply</TableHead>
+                        <TableHead className="text-right">Rate</TableHead>
+                        <TableHead className="text-right">Taxable Value</TableHead>
+                        <TableHead className="text-right">IGST</TableHead>
+                        <TableHead className="text-right">CGST</TableHead>
+                        <TableHead className="text-right">SGST</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.b2cs.length === 0 ? <EmptyRow colSpan={7} /> : report.b2cs.map(row => (
+                        <TableRow key={`${row.pos}-${row.rt}-${row.sply_ty}`}>
+                          <TableCell>
+                            <Badge variant="outline">{row.sply_ty === 'INTER' ? 'Inter-state' : 'Intra-state'}</Badge>
+                          </TableCell>
+                          <TableCell>{formatPos(row.pos)}</TableCell>
+                          <TableCell className="text-right">{row.rt}%</TableCell>
+                          <TableCell className="text-right">{formatAmount(row.txval)}</TableCell>
+                          <TableCell className="text-right">{formatAmount(row.iamt)}</TableCell>
+                          <TableCell className="text-right">{formatAmount(row.camt)}</TableCell>
+                          <TableCell className="text-right">{formatAmount(row.samt)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </TabsContent>
+
+                <TabsContent value="cdnr">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Recipient GSTIN</TableHead>
+                        <TableHead>Receiver</TableHead>
+                        <TableHead>Credit Note</TableHead>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Against Invoice</TableHead>
+                        <TableHead>Place of Supply</TableHead>
+                        <TableHead className="text-right">Taxable Value</TableHead>
+                        <TableHead className="text-right">Tax</TableHead>
+                        <TableHead className="text-right">Note Value</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.cdnr.length === 0 ? <EmptyRow colSpan={9} /> : report.cdnr.flatMap(party => party.notes.map(note => (
+                        <TableRow key={note.invoiceId}>
+                          <TableCell className="font-mono text-xs">{party.ctin}</TableCell>
+                          <TableCell>{party.receiverName}</TableCell>
+                          <TableCell>{note.nt_num}</TableCell>
+                          <TableCell>{note.nt_dt}</TableCell>
+                          <TableCell>
+                            {note.originalInvoiceNumber}
+                            {note.originalInvoiceDate && (
+                              <span className="block text-xs text-muted-foreground">{note.originalInvoiceDate}</span>
+                            )}
+                          </TableCell>
+                          <TableCell>{formatPos(note.pos)}</TableCell>
+                          <TableCell className="text-right">{formatAmount(note.items.reduce((sum, item) => sum + item.txval, 0))}</TableCell>
+                          <TableCell className="text-right">{formatAmount(note.items.reduce((sum, item) => sum + totalTax(item), 0))}</TableCell>
+                          <TableCell className="text-right">{formatAmount(note.val)}</TableCell>
+                        </TableRow>
+                      )))}
+                    </TableBody>
+                  </Table>
+                </TabsContent>
+
+                <TabsContent value="cdnur">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Credit Note</TableHead>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Against Invoice</TableHead>
+                        <TableHead>Place of Supply</TableHead>
+                        <TableHead className="text-right">Taxable Value</TableHead>
+                        <TableHead className="text-right">IGST</TableHead>
+                        <TableHead className="text-right">Note Value</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.cdnur.length === 0 ? <EmptyRow colSpan={7} /> : report.cdnur.map(note => (
+                        <TableRow key={note.invoiceId}>
+                          <TableCell>{note.nt_num}</TableCell>
+                          <TableCell>{note.nt_dt}</TableCell>
+                          <TableCell>
+                            {note.originalInvoiceNumber}
+                            {note.originalInvoiceDate && (
+                              <span className="block text-xs text-muted-foreground">{note.originalInvoiceDate}</span>
+                            )}
+                          </TableCell>
+                          <TableCell>{formatPos(note.pos)}</TableCell>
+                          <TableCell className="text-right">{formatAmount(note.items.reduce((sum, item) => sum + item.txval, 0))}</TableCell>
+                          <TableCell className="text-right">{formatAmount(note.items.reduce((sum, item) => sum + item.iamt, 0))}</TableCell>
+                          <TableCell className="text-right">{formatAmount(note.val)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </TabsContent>
+
+                <TabsContent value="hsn" className="space-y-6">
+                  <div className="space-y-2">
+                    <h4 className="text-sm font-semibold">Supplies to registered clients</h4>
+                    <HsnTable rows={report.hsn.b2b} />
+                  </div>
+                  <div className="space-y-2">
+                    <h4 className="text-sm font-semibold">Supplies to unregistered clients</h4>
+                    <HsnTable rows={report.hsn.b2c} />
+                  </div>
+                </TabsContent>
+              </Tabs>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default GSTR1Report;
@@ -151,6 +151,9 @@ const GSTReportAnnual = () => {
       'Invoice Raised',
       'Quote Raised',
       'Total Amount',
+      'CGST',
+      'SGST',
+      'IGST',
       'Tax Amount',
       'Total with Tax',
     ];
@@ -164,6 +167,9 @@ const GSTReportAnnual = () => {
       row.invoiceRaised ? 'Yes' : 'No',
       row.quoteRaised ? 'Yes' : 'No',
       row.totalAmount,
+      row.cgstAmount,
+      row.sgstAmount,
+      row.igstAmount,
       row.taxAmount,
       row.totalWithTax,
     ]);
@@ -171,6 +171,9 @@ const GSTReportMonthly = () => {
       'Invoice Raised',
       'Quote Raised',
       'Total Amount',
+      'CGST',
+      'SGST',
+      'IGST',
       'Tax Amount',
       'Total with Tax',
     ];
@@ -184,6 +187,9 @@ const GSTReportMonthly = () => {
       row.invoiceRaised ? 'Yes' : 'No',
       row.quoteRaised ? 'Yes' : 'No',
       row.totalAmount,
+      row.cgstAmount,
+      row.sgstAmount,
+      row.igstAmount,
       row.taxAmount,
       row.totalWithTax,
     ]);
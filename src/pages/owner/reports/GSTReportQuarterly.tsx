@@ -162,6 +162,9 @@ const GSTReportQuarterly = () => {
       'Invoice Raised',
       'Quote Raised',
       'Total Amount',
+      'CGST',
+      'SGST',
+      'IGST',
       'Tax Amount',
       'Total with Tax',
     ];
@@ -175,6 +178,9 @@ const GSTReportQuarterly = () => {
       row.invoiceRaised ? 'Yes' : 'No',
       row.quoteRaised ? 'Yes' : 'No',
       row.totalAmount,
+      row.cgstAmount,
+      row.sgstAmount,
+      row.igstAmount,
       row.taxAmount,
       row.totalWithTax,
     ]);
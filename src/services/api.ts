@@ -216,6 +216,7 @@ export const clientsAPI = {
   bulkDelete: (clientIds: string[]) => apiClient.post('/clients/bulk-delete', { clientIds }),
   bulkUpdateStatus: (clientIds: string[], status: string) => apiClient.post('/clients/bulk-status', { clientIds, status }),
   bulkArchive: (clientIds: string[], archived: boolean) => apiClient.post('/clients/bulk-archive', { clientIds, archived }),
+  reassign: (data: { fromUserId: string; toUserId: string; clientIds?: string[]; includeTasks?: boolean }) => apiClient.post('/clients/reassign', data),
   lookupGST: (gstNumber: string) => apiClient.post('/clients/lookup/gst', { gstNumber }),
   lookupCIN: (cinNumber: string) => apiClient.post('/clients/lookup/cin', { cinNumber }),
 };
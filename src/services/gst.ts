@@ -105,6 +105,47 @@ export interface GSTValidationResult {
   format: string;
 }
 
+export const GST_STATE_CODES: Record<string, string> = {
+  '01': 'Jammu and Kashmir',
+  '02': 'Himachal Pradesh',
+  '03': 'Punjab',
+  '04': 'Chandigarh',
+  '05': 'Uttarakhand',
+  '06': 'Haryana',
+  '07': 'Delhi',
+  '08': 'Rajasthan',
+  '09': 'Uttar Pradesh',
+  '10': 'Bihar',
+  '11': 'Sikkim',
+  '12': 'Arunachal Pradesh',
+  '13': 'Nagaland',
+  '14': 'Manipur',
+  '15': 'Mizoram',
+  '16': 'Tripura',
+  '17': 'Meghalaya',
+  '18': 'Assam',
+  '19': 'West Bengal',
+  '20': 'Jharkhand',
+  '21': 'Odisha',
+  '22': 'Chhattisgarh',
+  '23': 'Madhya Pradesh',
+  '24': 'Gujarat',
+  '25': 'Daman and Diu',
+  '26': 'Dadra and Nagar Haveli',
+  '27': 'Maharashtra',
+  '28': 'Andhra Pradesh',
+  '29': 'Karnataka',
+  '30': 'Goa',
+  '31': 'Lakshadweep',
+  '32': 'Kerala',
+  '33': 'Tamil Nadu',
+  '34': 'Puducherry',
+  '35': 'Andaman and Nicobar Islands',
+  '36': 'Telangana',
+  '37': 'Andhra Pradesh',
+  '38': 'Ladakh'
+};
+
 class GSTService {
   // Validate GSTIN format
   async validateGSTIN(gstin: string): Promise<GSTValidationResult> {
@@ -236,48 +277,8 @@ class GSTService {
     if (!this.validateGSTINFormat(gstin)) return null;
     
     const stateCode = gstin.substring(0, 2);
-    const stateCodes: Record<string, string> = {
-      '01': 'Jammu and Kashmir',
-      '02': 'Himachal Pradesh',
-      '03': 'Punjab',
-      '04': 'Chandigarh',
-      '05': 'Uttarakhand',
-      '06': 'Haryana',
-      '07': 'Delhi',
-      '08': 'Rajasthan',
-      '09': 'Uttar Pradesh',
-      '10': 'Bihar',
-      '11': 'Sikkim',
-      '12': 'Arunachal Pradesh',
-      '13': 'Nagaland',
-      '14': 'Manipur',
-      '15': 'Mizoram',
-      '16': 'Tripura',
-      '17': 'Meghalaya',
-      '18': 'Assam',
-      '19': 'West Bengal',
-      '20': 'Jharkhand',
-      '21': 'Odisha',
-      '22': 'Chhattisgarh',
-      '23': 'Madhya Pradesh',
-      '24': 'Gujarat',
-      '25': 'Daman and Diu',
-      '26': 'Dadra and Nagar Haveli',
-      '27': 'Maharashtra',
-      '28': 'Andhra Pradesh',
-      '29': 'Karnataka',
-      '30': 'Goa',
-      '31': 'Lakshadweep',
-      '32': 'Kerala',
-      '33': 'Tamil Nadu',
-      '34': 'Puducherry',
-      '35': 'Andaman and Nicobar Islands',
-      '36': 'Telangana',
-      '37': 'Andhra Pradesh',
-      '38': 'Ladakh'
-    };
     
-    return stateCodes[stateCode] || 'Unknown State';
+    return GST_STATE_CODES[stateCode] || 'Unknown State';
   }
 
   // Format company type from GSTIN
@@ -26,6 +26,22 @@ export interface InvoiceAccount {
   };
 }
 
+export interface InvoiceNumberingSettings {
+  padding: number;
+  templates: {
+    invoice: string;
+    quotation: string;
+    proforma: string;
+    credit_note: string;
+  };
+  accountCodes: {
+    account_1: string;
+    account_2: string;
+    cash: string;
+    cheque: string;
+  };
+}
+
 export interface CompanySettings {
   name: string; // Primary field - matches backend
   companyName?: string; // Legacy field for backwards compatibility
@@ -53,6 +69,10 @@ export interface CompanySettings {
     account_1: InvoiceAccount;
     account_2: InvoiceAccount;
   };
+  invoiceNumbering?: InvoiceNumberingSettings;
+  // Favourites are changed through the HSN routes; the defaults by the settings screen
+  hsnFavourites?: string[];
+  hsnCategoryDefaults?: Partial<Record<'gst' | 'itr' | 'roc' | 'other', string>>;
 }
 
 export interface NotificationSettings {
@@ -117,6 +137,8 @@ export interface AutomationSettings {
   dataBackup: boolean;
   emailTemplates: boolean;
   workflowTriggers: boolean;
+  enableInvoiceReminders?: boolean;
+  invoiceReminderSchedule?: number[];
 }
 
 export interface AllSettings {
@@ -308,6 +330,28 @@ class SettingsService {
               termsAndConditions: 'Payment due within 30 days of invoice date.'
             }
           }
+        },
+        invoiceNumbering: {
+          padding: 4,
+          templates: {
+            invoice: '{ACC}/{FY}/{SEQ}',
+            quotation: '{PREFIX}/{ACC}/{FY}/{SEQ}',
+            proforma: '{PREFIX}/{ACC}/{FY}/{SEQ}',
+            credit_note: '{PREFIX}/{ACC}/{FY}/{SEQ}'
+          },
+          accountCodes: {
+            account_1: 'ACC1',
+            account_2: 'ACC2',
+            cash: 'CASH',
+            cheque: 'CHQ'
+          }
+        },
+        hsnFavourites: [],
+        hsnCategoryDefaults: {
+          gst: '',
+          itr: '',
+          roc: '',
+          other: ''
         }
       },
       notifications: {
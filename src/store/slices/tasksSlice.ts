@@ -30,6 +30,18 @@ export interface SubTask {
   order: number;
 }
 
+export interface TaskReviewCycle {
+  _id: string;
+  cycle: number;
+  submittedBy?: string;
+  submittedAt: string;
+  reviewer?: string;
+  outcome: 'pending' | 'approved' | 'returned' | 'withdrawn';
+  decidedBy?: string;
+  decidedAt?: string;
+  points: string[];
+}
+
 export interface Task {
   id: string;
   title: string;
@@ -42,6 +54,9 @@ export interface Task {
   assignedTo: string[];
   collaborators?: string[]; // Additional team members who can work on this task
   createdBy: string;
+  reviewer?: { _id: string; fullName: string } | null;
+  reviewCycles?: number;
+  reviewHistory?: TaskReviewCycle[];
   createdAt: string;
   dueDate: string;
   completedAt?: string;
@@ -14,6 +14,7 @@ interface InvoiceItem {
 
 interface InvoiceData {
   invoiceNumber: string;
+  type?: string;
   issueDate: string | Date;
   dueDate: string | Date;
   client: {
@@ -27,6 +28,12 @@ interface InvoiceData {
   subtotal: number;
   taxAmount: number;
   totalAmount: number;
+  discount?: { amount?: number };
+  // Stored split and place of supply as worked out by the server
+  gst?: { cgst?: number; sgst?: number; igst?: number };
+  placeOfSupply?: { state?: string; stateCode?: string };
+  // IRN details once the invoice is registered; qrImage is the signed QR as a data URL
+  einvoice?: { irn: string; ackNo: string; ackDate: string | Date; qrImage?: string };
   notes?: string;
   terms?: string;
 }
@@ -87,7 +94,7 @@ export const generateInvoicePDF = (invoice: InvoiceData, firm: FirmData) => {
   doc.setFontSize(24);
   doc.setTextColor(40);
   doc.setFont('helvetica', 'bold');
-  rightAlign('INVOICE', 30);
+  rightAlign(invoice.type === 'credit_note' ? 'CREDIT NOTE' : 'INVOICE', 30);
   
   doc.setFontSize(12);
   doc.setTextColor(60);
@@ -131,14 +138,41 @@ export const generateInvoicePDF = (invoice: InvoiceData, firm: FirmData) => {
     currentY += 5;
   }
 
+  if (invoice.placeOfSupply?.stateCode) {
+    doc.text(`Place of Supply: ${invoice.placeOfSupply.state} (${invoice.placeOfSupply.stateCode})`, 20, currentY);
+    currentY += 5;
+  }
+
+  // E-invoice: IRN and acknowledgement under Bill To, signed QR on the right
+  if (invoice.einvoice) {
+    const qrSize = 35;
+    const blockTop = currentY + 3;
+    const qrTop = Math.max(blockTop - 30, 60);
+    if (invoice.einvoice.qrImage) {
+      doc.addImage(invoice.einvoice.qrImage, 'PNG', pageWidth - 20 - qrSize, qrTop, qrSize, qrSize);
+    }
+    doc.setFontSize(8);
+    doc.setTextColor(60);
+    doc.text(`IRN: ${invoice.einvoice.irn}`, 20, blockTop);
+    doc.text(
+      `Ack No: ${invoice.einvoice.ackNo}    Ack Date: ${format(new Date(invoice.einvoice.ackDate), 'dd/MM/yyyy HH:mm')}`,
+      20,
+      blockTop + 4
+    );
+    doc.setFontSize(10);
+    doc.setTextColor(100);
+    currentY = Math.max(blockTop + 4, invoice.einvoice.qrImage ? qrTop + qrSize : 0);
+  }
+
   // Items Table
   currentY += 10;
   autoTable(doc, {
     startY: currentY,
-    head: [['Description', 'HSN/SAC', 'Quantity', 'Rate', 'Amount']],
+    head: [['Description', 'HSN/SAC', 'GST %', 'Quantity', 'Rate', 'Amount']],
     body: invoice.items.map(item => [
       item.description,
       item.hsn || '-',
+      item.taxRate ?? '-',
       item.quantity,
       `₹. ${item.rate.toFixed(2)}`,
       `₹. ${item.amount.toFixed(2)}`
@@ -160,9 +194,22 @@ export const generateInvoicePDF = (invoice: InvoiceData, firm: FirmData) => {
   doc.text('Subtotal:', summaryX, currentY);
   doc.text(`₹. ${invoice.subtotal.toFixed(2)}`, pageWidth - 20, currentY, { align: 'right' });
   
-  currentY += 7;
-  doc.text('Tax (GST):', summaryX, currentY);
-  doc.text(`₹. ${invoice.taxAmount.toFixed(2)}`, pageWidth - 20, currentY, { align: 'right' });
+  if (invoice.discount?.amount) {
+    currentY += 7;
+    doc.text('Discount:', summaryX, currentY);
+    doc.text(`- ₹. ${invoice.discount.amount.toFixed(2)}`, pageWidth - 20, currentY, { align: 'right' });
+  }
+
+  const taxRows: [string, number][] = !invoice.gst
+    ? [['Tax (GST):', invoice.taxAmount]]
+    : invoice.gst.igst
+      ? [['IGST:', invoice.gst.igst]]
+      : [['CGST:', invoice.gst.cgst || 0], ['SGST:', invoice.gst.sgst || 0]];
+  taxRows.forEach(([label, amount]) => {
+    currentY += 7;
+    doc.text(label, summaryX, currentY);
+    doc.text(`₹. ${amount.toFixed(2)}`, pageWidth - 20, currentY, { align: 'right' });
+  });
   
   currentY += 10;
   doc.setFontSize(12);